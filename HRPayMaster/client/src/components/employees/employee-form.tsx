@@ -135,6 +135,7 @@ export default function EmployeeForm({
       address: initialData?.address || "",
       dateOfBirth: initialData?.dateOfBirth || "",
       visaAlertDays: initialData?.visaAlertDays || 90,
+      visaCost: initialData?.visaCost ?? "",
       civilIdAlertDays: initialData?.civilIdAlertDays || 60,
       passportAlertDays: initialData?.passportAlertDays || 90,
       profileImage: initialData?.profileImage || undefined,
@@ -1385,7 +1386,7 @@ const handleOpenAllowanceDialog = (event?: AllowanceListItem) => {
               />
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <FormField
                 control={form.control}
                 name="visaIssueDate"
@@ -1413,6 +1414,21 @@ const handleOpenAllowanceDialog = (event?: AllowanceListItem) => {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="visaCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Visa &amp; Residency Cost</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.001" min="0" placeholder="0.000" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Paid by the company, spread over the visa's validity in payroll costs</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
             
             {/* Visa Image Upload */}
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { apiDelete, apiPost, apiPut } from "@/lib/http";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import {
+  payComponentLeaveProrations,
+  type EmployeePayComponent,
+  type PayComponentCalculationType,
+  type PayComponentLeaveProration,
+} from "@shared/schema";
+
+const LEAVE_PRORATION_LABELS: Record<PayComponentLeaveProration, string> = {
+  prorate: "Prorate with basic",
+  full: "Paid in full",
+  forfeit: "Not paid with leave",
+};
+
+const SUGGESTED_COMPONENTS = [
+  { code: "housing", name: "Housing" },
+  { code: "transport", name: "Transport" },
+];
+
+const emptyComponent = {
+  code: "",
+  name: "",
+  calculationType: "amount" as PayComponentCalculationType,
+  value: "",
+  insurable: false,
+  indemnityEligible: false,
+  leaveProration: "prorate" as PayComponentLeaveProration,
+};
+
+interface PayComponentsEditorProps {
+  employeeId: string;
+  basicSalary: number;
+}
+
+export default function PayComponentsEditor({ employeeId, basicSalary }: PayComponentsEditorProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState(emptyComponent);
+  const queryKey = ["/api/employees", employeeId, "pay-components"];
+
+  const { data: components = [], isLoading } = useQuery<EmployeePayComponent[]>({ queryKey });
+
+  const onError = (fallback: string) => (err: any) => {
+    toast({
+      title: t("errors.errorTitle", "Error"),
+      description: err?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createComponent = useMutation({
+    mutationFn: async () => {
+      const res = await apiPost(`/api/employees/${employeeId}/pay-components`, {
+        code: draft.code.trim(),
+        name: draft.name.trim(),
+        calculationType: draft.calculationType,
+        amount: draft.calculationType === "amount" ? draft.value : null,
+        percentage: draft.calculationType === "percentage_of_basic" ? draft.value : null,
+        insurable: draft.insurable,
+        indemnityEligible: draft.indemnityEligible,
+        leaveProration: draft.leaveProration,
+      });
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to add pay component");
+      }
+      return res.data as EmployeePayComponent;
+    },
+    onSuccess: () => {
+      setDraft(emptyComponent);
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: t("payComponents.added", "Pay component added") });
+    },
+    onError: onError(t("payComponents.addFailed", "Could not add pay component")),
+  });
+
+  const toggleFlag = useMutation({
+    mutationFn: async ({
+      id,
+      flag,
+      value,
+    }: {
+      id: string;
+      flag: "insurable" | "indemnityEligible";
+      value: boolean;
+    }) => {
+      const res = await apiPut(`/api/employees/${employeeId}/pay-components/${id}`, { [flag]: value });
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to update pay component");
+      }
+      return res.data as EmployeePayComponent;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError(t("payComponents.updateFailed", "Could not update pay component")),
+  });
+
+  const deleteComponent = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiDelete(`/api/employees/${employeeId}/pay-components/${id}`);
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to delete pay component");
+      }
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: t("payComponents.deleted", "Pay component removed") });
+    },
+    onError: onError(t("payComponents.deleteFailed", "Could not remove pay component")),
+  });
+
+  const monthlyAmount = (component: EmployeePayComponent) =>
+    component.calculationType === "percentage_of_basic"
+      ? (basicSalary * Number(component.percentage ?? 0)) / 100
+      : Number(component.amount ?? 0);
+
+  const flagLabels = {
+    insurable: t("payComponents.insurable", "Insurable"),
+    indemnityEligible: t("payComponents.indemnityEligible", "Counts for indemnity"),
+  } as const;
+
+  return (
+    <div className="space-y-4 border-t pt-4 mt-4">
+      <div>
+        <h3 className="text-sm font-medium">{t("payComponents.title", "Pay components")}</h3>
+        <p className="text-xs text-muted-foreground">
+          {t(
+            "payComponents.description",
+            "Paid on top of the basic salary every payroll. Insurable components are added to the social insurance salary.",
+          )}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">{t("payComponents.loading", "Loading pay components...")}</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between rounded-md border border-border p-3 text-sm">
+            <span className="font-medium">{t("payComponents.basic", "Basic salary")}</span>
+            <span>{formatCurrency(basicSalary)}</span>
+          </div>
+          {components.map(component => (
+            <div key={component.id} className="space-y-2 rounded-md border border-border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <span className="font-medium">{component.name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">{component.code}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span>
+                    {formatCurrency(monthlyAmount(component))}
+                    {component.calculationType === "percentage_of_basic" && (
+                      <span className="ml-1 text-xs text-muted-foreground">({Number(component.percentage)}%)</span>
+                    )}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => deleteComponent.mutate(component.id)}
+                    disabled={deleteComponent.isPending}
+                  >
+                    {t("actions.delete", "Delete")}
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-xs">
+                {(Object.keys(flagLabels) as Array<keyof typeof flagLabels>).map(flag => (
+                  <label key={flag} className="flex items-center gap-1">
+                    <Checkbox
+                      checked={component[flag]}
+                      onCheckedChange={value => toggleFlag.mutate({ id: component.id, flag, value: value === true })}
+                      disabled={toggleFlag.isPending}
+                    />
+                    {flagLabels[flag]}
+                  </label>
+                ))}
+                <Badge variant="outline">
+                  {LEAVE_PRORATION_LABELS[component.leaveProration as PayComponentLeaveProration] ??
+                    component.leaveProration}
+                </Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-4 md:items-end">
+        <div className="space-y-1">
+          <label className="text-sm text-muted-foreground">{t("payComponents.code", "Code")}</label>
+          <Input
+            list="pay-component-suggestions"
+            value={draft.code}
+            onChange={e => {
+              const code = e.target.value;
+              const suggestion = SUGGESTED_COMPONENTS.find(item => item.code === code);
+              setDraft(prev => ({ ...prev, code, name: prev.name || suggestion?.name || "" }));
+            }}
+          />
+          <datalist id="pay-component-suggestions">
+            {SUGGESTED_COMPONENTS.map(item => (
+              <option key={item.code} value={item.code}>{item.name}</option>
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-muted-foreground">{t("payComponents.name", "Name")}</label>
+          <Input value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-muted-foreground">{t("payComponents.calculation", "Calculation")}</label>
+          <select
+            className="border rounded px-2 py-2 w-full bg-background"
+            value={draft.calculationType}
+            onChange={e =>
+              setDraft(prev => ({ ...prev, calculationType: e.target.value as PayComponentCalculationType }))
+            }
+          >
+            <option value="amount">{t("payComponents.fixedAmount", "Fixed amount")}</option>
+            <option value="percentage_of_basic">{t("payComponents.percentageOfBasic", "% of basic")}</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-muted-foreground">
+            {draft.calculationType === "amount"
+              ? t("payComponents.amount", "Monthly amount")
+              : t("payComponents.percentage", "Percentage")}
+          </label>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.value}
+            onChange={e => setDraft(prev => ({ ...prev, value: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-muted-foreground">{t("payComponents.leave", "During leave")}</label>
+          <select
+            className="border rounded px-2 py-2 w-full bg-background"
+            value={draft.leaveProration}
+            onChange={e =>
+              setDraft(prev => ({ ...prev, leaveProration: e.target.value as PayComponentLeaveProration }))
+            }
+          >
+            {payComponentLeaveProrations.map(rule => (
+              <option key={rule} value={rule}>{LEAVE_PRORATION_LABELS[rule]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm md:col-span-2">
+          {(Object.keys(flagLabels) as Array<keyof typeof flagLabels>).map(flag => (
+            <label key={flag} className="flex items-center gap-1">
+              <Checkbox
+                checked={draft[flag]}
+                onCheckedChange={value => setDraft(prev => ({ ...prev, [flag]: value === true }))}
+              />
+              {flagLabels[flag]}
+            </label>
+          ))}
+        </div>
+        <Button
+          type="button"
+          onClick={() => createComponent.mutate()}
+          disabled={
+            createComponent.isPending ||
+            draft.code.trim() === "" ||
+            draft.name.trim() === "" ||
+            !(Number(draft.value) > 0)
+          }
+        >
+          {t("payComponents.add", "Add component")}
+        </Button>
+      </div>
+    </div>
+  );
+}
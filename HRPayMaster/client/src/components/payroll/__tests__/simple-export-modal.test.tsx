@@ -32,6 +32,8 @@ const employeesMock: Employee[] = [
     workLocation: "HQ",
     startDate: "2022-01-01",
     status: "active",
+    terminationDate: null,
+    terminationReason: null,
     bankIban: "KW81CBKU0000000000000000001",
     bankName: "Gulf Bank",
     iban: null,
@@ -61,6 +63,7 @@ const employeesMock: Employee[] = [
     visaIssueDate: null,
     visaExpiryDate: null,
     visaAlertDays: 30,
+    visaCost: null,
     civilId: null,
     civilIdIssueDate: null,
     civilIdExpiryDate: null,
@@ -93,6 +96,8 @@ const employeesMock: Employee[] = [
     workLocation: "Remote",
     startDate: "2021-05-15",
     status: "active",
+    terminationDate: null,
+    terminationReason: null,
     bankIban: null,
     bankName: null,
     iban: null,
@@ -122,6 +127,7 @@ const employeesMock: Employee[] = [
     visaIssueDate: null,
     visaExpiryDate: null,
     visaAlertDays: 30,
+    visaCost: null,
     civilId: null,
     civilIdIssueDate: null,
     civilIdExpiryDate: null,
@@ -254,11 +260,26 @@ describe("SimpleExportModal", () => {
     totalDeductions: "0",
     netAmount: "1900",
     status: "completed",
+    runType: "regular",
+    payDate: null,
+    companyId: null,
     calendarId: null,
     cycleLabel: "Monthly",
     scenarioKey: "baseline",
     scenarioToggles: {},
     exportArtifacts: [],
+    createdBy: null,
+    submittedAt: null,
+    approvedBy: null,
+    approvedAt: null,
+    paidAt: null,
+    lockedAt: null,
+    varianceSignedOffBy: null,
+    varianceSignedOffAt: null,
+    reversalOfRunId: null,
+    voidReason: null,
+    voidedBy: null,
+    voidedAt: null,
     createdAt: new Date("2023-02-01T00:00:00Z"),
     entries: [
       {
@@ -276,9 +297,24 @@ describe("SimpleExportModal", () => {
         socialSecurityDeduction: "0",
         healthInsuranceDeduction: "0",
         loanDeduction: "0",
+        advanceDeduction: "0",
         otherDeductions: "0",
         bonusAmount: "0",
         adjustmentReason: null,
+        socialInsuranceBreakdown: null,
+        retroAmount: "0",
+        retroAdjustments: null,
+        overtimeAmount: "0",
+        overtimeLines: null,
+        calculationTrace: null,
+        payComponents: null,
+        deductionCarryForward: null,
+        loanRecoveries: null,
+        advanceRecoveries: null,
+        employerSocialInsurance: "0",
+        employerHealthInsurance: "0",
+        indemnityAccrual: "0",
+        visaCostAmortization: "0",
         createdAt: null,
         employee: {
           id: "emp-1",
@@ -302,9 +338,24 @@ describe("SimpleExportModal", () => {
         socialSecurityDeduction: "0",
         healthInsuranceDeduction: "0",
         loanDeduction: "0",
+        advanceDeduction: "0",
         otherDeductions: "0",
         bonusAmount: "0",
         adjustmentReason: null,
+        socialInsuranceBreakdown: null,
+        retroAmount: "0",
+        retroAdjustments: null,
+        overtimeAmount: "0",
+        overtimeLines: null,
+        calculationTrace: null,
+        payComponents: null,
+        deductionCarryForward: null,
+        loanRecoveries: null,
+        advanceRecoveries: null,
+        employerSocialInsurance: "0",
+        employerHealthInsurance: "0",
+        indemnityAccrual: "0",
+        visaCostAmortization: "0",
         createdAt: null,
         employee: {
           id: "emp-2",
@@ -226,6 +226,7 @@ export function EnhancedPayrollTable({ entries, payrollId }: EnhancedPayrollTabl
       parseFloat(entry.socialSecurityDeduction?.toString() || "0") +
       parseFloat(entry.healthInsuranceDeduction?.toString() || "0") +
       parseFloat(entry.loanDeduction?.toString() || "0") +
+      parseFloat(entry.advanceDeduction?.toString() || "0") +
       parseFloat(entry.otherDeductions?.toString() || "0")
     );
     return grossPay - deductions;
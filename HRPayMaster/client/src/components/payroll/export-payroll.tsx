@@ -94,6 +94,7 @@ export function ExportPayroll({ payrollRun, isOpen, onClose }: ExportPayrollProp
               parseFloat(entry.socialSecurityDeduction?.toString() || "0") +
               parseFloat(entry.healthInsuranceDeduction?.toString() || "0") +
               parseFloat(entry.loanDeduction?.toString() || "0") +
+              parseFloat(entry.advanceDeduction?.toString() || "0") +
               parseFloat(entry.otherDeductions?.toString() || "0");
             const netPay = grossPay - totalDeductions;
             return `${entry.employee?.firstName || "Employee"} ${entry.employee?.lastName || ""} - Net Pay: ${formatCurrency(netPay)}`;
@@ -157,6 +158,7 @@ export function ExportPayroll({ payrollRun, isOpen, onClose }: ExportPayrollProp
           parseFloat(entry.socialSecurityDeduction?.toString() || "0") +
           parseFloat(entry.healthInsuranceDeduction?.toString() || "0") +
           parseFloat(entry.loanDeduction?.toString() || "0") +
+          parseFloat(entry.advanceDeduction?.toString() || "0") +
           parseFloat(entry.otherDeductions?.toString() || "0")
         );
         return sum + (grossPay - totalDeductions);
@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Employee, OffCyclePayrollRunType, PayrollRunComponent } from "@shared/schema";
+import type { PayrollGenerationPayload } from "./payroll-generation-wizard";
+
+const COMPONENT_OPTIONS: Array<{ value: PayrollRunComponent; label: string }> = [
+  { value: "salary", label: "Basic salary" },
+  { value: "allowances", label: "Allowances" },
+  { value: "bonuses", label: "Bonuses" },
+  { value: "overtime", label: "Overtime" },
+  { value: "deductions", label: "Deductions & penalties" },
+  { value: "loans", label: "Loan instalments" },
+  { value: "statutory", label: "Statutory deductions" },
+];
+
+// Mirrors the server defaults applied when no components are chosen.
+const DEFAULT_COMPONENTS: Record<OffCyclePayrollRunType, PayrollRunComponent[]> = {
+  bonus: ["bonuses", "overtime"],
+  correction: ["salary", "allowances"],
+};
+
+interface OffCycleRunFormProps {
+  /** Limits the employee list to one company. */
+  companyId?: string;
+  onSubmit: (payload: PayrollGenerationPayload) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+export default function OffCycleRunForm({
+  companyId,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}: OffCycleRunFormProps) {
+  const { data: employees = [] } = useQuery<Employee[]>({ queryKey: ["/api/employees"] });
+  const today = new Date().toISOString().split("T")[0];
+  const [runType, setRunType] = useState<OffCyclePayrollRunType>("bonus");
+  const [period, setPeriod] = useState("");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [status, setStatus] = useState<"draft" | "submitted">("draft");
+  const [components, setComponents] = useState<Set<PayrollRunComponent>>(
+    () => new Set(DEFAULT_COMPONENTS.bonus),
+  );
+  const [employeeIds, setEmployeeIds] = useState<Set<string>>(() => new Set());
+  const [search, setSearch] = useState("");
+
+  const activeEmployees = useMemo(
+    () =>
+      employees.filter(
+        employee =>
+          employee.status === "active" && (!companyId || employee.companyId === companyId),
+      ),
+    [employees, companyId],
+  );
+  const visibleEmployees = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return activeEmployees;
+    return activeEmployees.filter(employee =>
+      [employee.firstName, employee.lastName, employee.employeeCode]
+        .filter(Boolean)
+        .some(value => String(value).toLowerCase().includes(term)),
+    );
+  }, [activeEmployees, search]);
+
+  const toggle = <T,>(set: Set<T>, value: T, checked: boolean) => {
+    const next = new Set(set);
+    if (checked) {
+      next.add(value);
+    } else {
+      next.delete(value);
+    }
+    return next;
+  };
+
+  const handleRunTypeChange = (value: OffCyclePayrollRunType) => {
+    setRunType(value);
+    setComponents(new Set(DEFAULT_COMPONENTS[value]));
+  };
+
+  const canSubmit =
+    period.trim().length > 0 &&
+    startDate.length > 0 &&
+    endDate.length > 0 &&
+    startDate <= endDate &&
+    employeeIds.size > 0 &&
+    components.size > 0;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    onSubmit({
+      period: period.trim(),
+      startDate,
+      endDate,
+      status,
+      runType,
+      employeeIds: Array.from(employeeIds),
+      components: Array.from(components),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="off-cycle-type">Run type</Label>
+          <Select value={runType} onValueChange={value => handleRunTypeChange(value as OffCyclePayrollRunType)}>
+            <SelectTrigger id="off-cycle-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="bonus">Bonus</SelectItem>
+              <SelectItem value="correction">Correction</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="off-cycle-period">Period label</Label>
+          <Input
+            id="off-cycle-period"
+            value={period}
+            onChange={event => setPeriod(event.target.value)}
+            placeholder="e.g. Q1 2024 performance bonus"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="off-cycle-start">Start date</Label>
+          <Input
+            id="off-cycle-start"
+            type="date"
+            value={startDate}
+            onChange={event => setStartDate(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="off-cycle-end">End date</Label>
+          <Input
+            id="off-cycle-end"
+            type="date"
+            value={endDate}
+            onChange={event => setEndDate(event.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-base font-semibold">Components</h3>
+        <p className="text-sm text-muted-foreground">
+          Only the selected components are paid. One-time bonuses and allowances paid by a submitted
+          run are skipped by the next regular run.
+        </p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {COMPONENT_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={components.has(option.value)}
+                onCheckedChange={value =>
+                  setComponents(current => toggle(current, option.value, Boolean(value)))
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold">Employees</h3>
+          <span className="text-xs text-muted-foreground">{employeeIds.size} selected</span>
+        </div>
+        <Input
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="Search by name or code"
+        />
+        <div className="max-h-60 space-y-1 overflow-y-auto rounded-md border border-muted p-2">
+          {visibleEmployees.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No active employees found</p>
+          ) : (
+            visibleEmployees.map(employee => (
+              <label key={employee.id} className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-accent/40">
+                <Checkbox
+                  checked={employeeIds.has(employee.id)}
+                  onCheckedChange={value =>
+                    setEmployeeIds(current => toggle(current, employee.id, Boolean(value)))
+                  }
+                />
+                <span>
+                  {employee.firstName} {employee.lastName}
+                </span>
+                <span className="text-xs text-muted-foreground">{employee.employeeCode}</span>
+              </label>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-1">
+          <Label htmlFor="off-cycle-status">Run status</Label>
+          <p className="text-xs text-muted-foreground">
+            Submitted runs go straight to approval; drafts can still be edited.
+          </p>
+        </div>
+        <Select value={status} onValueChange={value => setStatus(value as "draft" | "submitted")}>
+          <SelectTrigger id="off-cycle-status" className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="draft">Draft</SelectItem>
+            <SelectItem value="submitted">Submit for approval</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!canSubmit || isSubmitting}>
+          {isSubmitting ? "Generating..." : "Generate off-cycle run"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,11 +1,20 @@
 import { useCallback, useEffect, useRef } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { DollarSign, User, FileText, Printer } from "lucide-react";
-import type { PayrollRunWithEntries } from "@shared/schema";
+import { DollarSign, User, FileText, Printer, Download, Mail } from "lucide-react";
+import type {
+  OvertimeDayType,
+  PayrollRetroComponent,
+  PayrollRunWithEntries,
+  PayslipDelivery,
+} from "@shared/schema";
+import { apiGet, apiPost } from "@/lib/http";
+import { queryClient } from "@/lib/queryClient";
+import { toastApiError } from "@/lib/toastError";
+import { useToast } from "@/hooks/use-toast";
 import {
   formatCurrency,
   formatDate,
@@ -13,6 +22,9 @@ import {
   summarizeAllowances,
 } from "@/lib/utils";
 import { getBrand } from "@/lib/brand";
+import PayrollVariancePanel from "./payroll-variance-panel";
+import PayrollJournalPanel from "./payroll-journal-panel";
+import PayrollTraceDialog from "./payroll-trace-dialog";
 
 type PayrollEntryWithEmployee = NonNullable<PayrollRunWithEntries["entries"]>[number];
 export type { PayrollEntryWithEmployee };
@@ -58,6 +70,41 @@ const formatSignedCurrency = (amount: number) => {
   return `${sign}${formatCurrency(Math.abs(amount))}`;
 };
 
+const FROZEN_RUN_STATUSES = new Set(["approved", "paid", "locked", "completed"]);
+
+const RETRO_COMPONENT_LABELS: Record<PayrollRetroComponent, string> = {
+  baseSalary: "salary",
+  bonusAmount: "bonuses",
+  otherDeductions: "deductions",
+  socialSecurityDeduction: "social security",
+};
+
+const OVERTIME_DAY_LABELS: Record<OvertimeDayType, string> = {
+  normal: "normal day",
+  rest_day: "rest day",
+  public_holiday: "public holiday",
+};
+
+const deliveryBadgeClass: Record<string, string> = {
+  sent: "bg-transparent text-success border-success",
+  failed: "bg-transparent text-destructive border-destructive",
+  skipped: "bg-transparent text-secondary-foreground border-muted",
+};
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const payslipSlug = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
 interface PayrollDetailsViewProps {
   payrollId: string;
   onRegisterPrint?: (handler: (() => void) | null) => void;
@@ -68,6 +115,47 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
     queryKey: ["/api/payroll", payrollId],
   });
 
+  const { data: payslipDeliveries = [] } = useQuery<PayslipDelivery[]>({
+    queryKey: ["/api/payroll", payrollId, "payslips", "deliveries"],
+  });
+
+  const { toast } = useToast();
+
+  const downloadPayslips = async (entryId?: string, filename?: string) => {
+    const url = entryId
+      ? `/api/payroll/${payrollId}/payslips/${entryId}`
+      : `/api/payroll/${payrollId}/payslips`;
+    const res = await apiGet(url);
+    if (!res.ok || !(res.data instanceof Blob)) {
+      toastApiError(res as any, "Failed to download payslips");
+      return;
+    }
+    const fallback = `payslips-${payslipSlug(payrollRun?.period ?? payrollId)}.zip`;
+    saveBlob(res.data, filename ?? fallback);
+  };
+
+  const emailPayslipsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiPost(`/api/payroll/${payrollId}/payslips/email`, {
+        passwordProtect: true,
+      });
+      if (!res.ok) throw res;
+      return res.data as { sent: number; failed: number; skipped: number };
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/payroll", payrollId, "payslips", "deliveries"],
+      });
+      toast({
+        title: "Payslips emailed",
+        description: `${summary.sent} sent, ${summary.failed} failed, ${summary.skipped} skipped.`,
+      });
+    },
+    onError: (error) => {
+      toastApiError(error as any, "Failed to email payslips");
+    },
+  });
+
   const printContentRef = useRef<HTMLDivElement>(null);
   const brand = getBrand();
 
@@ -116,11 +204,14 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
     const printSafe = "print:bg-transparent print:text-black print:border-black";
 
     switch (status) {
-      case "completed":
+      case "approved":
+      case "paid":
+      case "locked":
         return `bg-transparent text-success border-success ${printSafe}`;
-      case "pending":
+      case "submitted":
         return `bg-transparent text-warning border-warning ${printSafe}`;
       case "cancelled":
+      case "voided":
         return `bg-transparent text-destructive border-destructive ${printSafe}`;
       default:
         return `bg-transparent text-secondary-foreground border-muted ${printSafe}`;
@@ -144,6 +235,12 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
     (sum, entry) => sum + (parseFloat(entry.bonusAmount) || 0),
     0,
   );
+  const deliveriesByEntry = new Map(
+    payslipDeliveries.map((delivery) => [delivery.payrollEntryId, delivery] as const),
+  );
+  const canEmailPayslips = FROZEN_RUN_STATUSES.has(payrollRun.status);
+  const canSignOffVariance =
+    !canEmailPayslips && payrollRun.status !== "cancelled" && payrollRun.status !== "voided";
 
   return (
     <div
@@ -168,6 +265,17 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
             <p className="text-sm text-gray-600">
               {payrollRun.period} · {formatDate(payrollRun.startDate)} - {formatDate(payrollRun.endDate)}
             </p>
+            {payrollRun.status === "voided" && (
+              <p className="text-sm text-destructive">
+                Voided{payrollRun.voidedAt ? ` on ${formatDate(payrollRun.voidedAt)}` : ""}
+                {payrollRun.voidReason ? `: ${payrollRun.voidReason}` : ""}
+              </p>
+            )}
+            {payrollRun.runType === "reversal" && (
+              <p className="text-sm text-muted-foreground">
+                Reversal run negating a voided {payrollRun.period} payroll
+              </p>
+            )}
           </div>
         </div>
         <div className="flex flex-col gap-2 sm:items-end">
@@ -179,6 +287,27 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
               <Printer className="mr-2" size={16} />
               Print
             </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => downloadPayslips()}
+              disabled={payrollEntries.length === 0}
+            >
+              <Download className="mr-2" size={16} />
+              Payslips (ZIP)
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => emailPayslipsMutation.mutate()}
+              disabled={!canEmailPayslips || emailPayslipsMutation.isPending}
+              title={canEmailPayslips ? undefined : "Approve the payroll run before emailing payslips"}
+            >
+              <Mail className="mr-2" size={16} />
+              Email payslips
+            </Button>
           </div>
         </div>
       </div>
@@ -295,6 +424,13 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
         </Card>
       </div>
 
+      <PayrollVariancePanel
+        payrollId={payrollId}
+        canSignOff={canSignOffVariance}
+      />
+
+      <PayrollJournalPanel payrollId={payrollId} period={payrollRun.period} />
+
       {/* Employee Payroll Entries */}
       <Card>
         <CardHeader>
@@ -340,6 +476,9 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Net Pay
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider print:hidden">
+                      Payslip
+                    </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-800">
@@ -354,6 +493,10 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
                     const { englishName, arabicName } = getEmployeeNames(entry);
                     const allowanceSummary = summarizeAllowances(entry.allowances);
                     const hasAllowances = allowanceSummary.entries.length > 0;
+                    const delivery = deliveriesByEntry.get(entry.id);
+                    const payslipName = `payslip-${payslipSlug(payrollRun.period)}-${
+                      entry.employee?.employeeCode ?? entry.employeeId
+                    }.pdf`;
 
                     return (
                       <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
@@ -400,6 +543,17 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-green-600">
                           +{formatCurrency(parseFloat(entry.bonusAmount) || 0)}
+                          {entry.overtimeLines && entry.overtimeLines.length > 0 && (
+                            <div className="space-y-0.5 text-xs text-muted-foreground">
+                              {entry.overtimeLines.map((line) => (
+                                <div key={line.scheduleId}>
+                                  Overtime {formatDate(line.date)} · {line.paidMinutes} min{" "}
+                                  {OVERTIME_DAY_LABELS[line.dayType]} × {line.rate}:{" "}
+                                  {formatCurrency(line.amount)}
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">
                           -{formatCurrency(
@@ -407,11 +561,53 @@ export default function PayrollDetailsView({ payrollId, onRegisterPrint }: Payro
                             (parseFloat(entry.socialSecurityDeduction) || 0) +
                             (parseFloat(entry.healthInsuranceDeduction) || 0) +
                             (parseFloat(entry.loanDeduction) || 0) +
+                            (parseFloat(entry.advanceDeduction) || 0) +
                             (parseFloat(entry.otherDeductions) || 0)
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                           {formatCurrency(entry.netPay)}
+                          {entry.retroAdjustments && entry.retroAdjustments.length > 0 && (
+                            <div className="space-y-0.5 text-xs font-normal text-muted-foreground">
+                              {entry.retroAdjustments.map((line) => (
+                                <div key={`${line.sourcePayrollEntryId}-${line.component}`}>
+                                  Retro {line.period} · {RETRO_COMPONENT_LABELS[line.component]}:{" "}
+                                  {formatSignedCurrency(line.amount)}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm print:hidden">
+                          <div className="flex items-center gap-2">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => downloadPayslips(entry.id, payslipName)}
+                              aria-label={`Download payslip for ${englishName}`}
+                            >
+                              <Download size={16} />
+                            </Button>
+                            <PayrollTraceDialog
+                              payrollId={payrollId}
+                              entryId={entry.id}
+                              employeeName={englishName}
+                              fileName={`payroll-trace-${payslipSlug(payrollRun.period)}-${
+                                entry.employee?.employeeCode ?? entry.employeeId
+                              }`}
+                              trace={entry.calculationTrace}
+                            />
+                            {delivery && (
+                              <Badge
+                                variant="outline"
+                                className={deliveryBadgeClass[delivery.status] ?? ""}
+                                title={delivery.error ?? delivery.recipient ?? undefined}
+                              >
+                                {delivery.status}
+                              </Badge>
+                            )}
+                          </div>
                         </td>
                       </tr>
                     );
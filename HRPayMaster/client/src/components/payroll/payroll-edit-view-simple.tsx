@@ -109,9 +109,11 @@ export default function PayrollEditView({ payrollId }: PayrollEditViewProps) {
     const printSafe = "print:bg-transparent print:text-black print:border-black";
 
     switch (status) {
-      case 'completed':
+      case 'approved':
+      case 'paid':
+      case 'locked':
         return `bg-transparent text-success border-success ${printSafe}`;
-      case 'pending':
+      case 'submitted':
         return `bg-transparent text-warning border-warning ${printSafe}`;
       case 'cancelled':
         return `bg-transparent text-destructive border-destructive ${printSafe}`;
@@ -101,9 +101,11 @@ export default function PayrollEditView({ payrollId }: PayrollEditViewProps) {
     const printSafe = "print:bg-transparent print:text-black print:border-black";
 
     switch (status) {
-      case 'completed':
+      case 'approved':
+      case 'paid':
+      case 'locked':
         return `bg-transparent text-success border-success ${printSafe}`;
-      case 'pending':
+      case 'submitted':
         return `bg-transparent text-warning border-warning ${printSafe}`;
       case 'cancelled':
         return `bg-transparent text-destructive border-destructive ${printSafe}`;
@@ -391,6 +393,7 @@ export default function PayrollEditView({ payrollId }: PayrollEditViewProps) {
                               (parseFloat(entry.socialSecurityDeduction) || 0) +
                               (parseFloat(entry.healthInsuranceDeduction) || 0) +
                               (parseFloat(entry.loanDeduction) || 0) +
+                              (parseFloat(entry.advanceDeduction) || 0) +
                               (parseFloat(entry.otherDeductions) || 0)
                             )}
                           </div>
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Download, TrendingUp } from "lucide-react";
+import type { PayrollForecast, PayrollForecastDriverKind } from "@shared/schema";
+import { apiGet } from "@/lib/http";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+const DRIVER_LABELS: Record<PayrollForecastDriverKind, string> = {
+  compensation_change: "Salary change",
+  joiner: "Joiner",
+  leaver: "Leaver",
+  loan_ends: "Loan ends",
+  allowance_ends: "Allowance ends",
+  unpaid_leave: "Unpaid leave",
+};
+
+const HORIZONS = [6, 12, 18, 24];
+
+interface PayrollForecastPanelProps {
+  departmentId?: string;
+}
+
+export default function PayrollForecastPanel({ departmentId }: PayrollForecastPanelProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [months, setMonths] = useState(12);
+  const [downloading, setDownloading] = useState(false);
+
+  const params = new URLSearchParams({ months: String(months) });
+  if (departmentId && departmentId !== "all") params.set("departmentIds", departmentId);
+  const query = params.toString();
+
+  const { data: forecast, isLoading, error } = useQuery<PayrollForecast>({
+    queryKey: ["/api/reports/payroll-forecast", query],
+    queryFn: async () => {
+      const res = await apiGet(`/api/reports/payroll-forecast?${query}`);
+      if (!res.ok) throw new Error(res.error || "Failed to fetch");
+      return res.data;
+    },
+  });
+
+  const downloadCsv = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetch(`/api/reports/payroll-forecast?${query}&format=csv`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Failed to export payroll forecast");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = forecast
+        ? `payroll-forecast-${forecast.startMonth}-${forecast.endMonth}.csv`
+        : "payroll-forecast.csv";
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({
+        title: "Export failed",
+        description: err instanceof Error ? err.message : "Failed to export payroll forecast",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const chartData =
+    forecast?.totals.map(row => ({ month: row.month, gross: row.grossPay, net: row.netPayout })) ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          {t("reports.payrollForecast", "Payroll Cost Forecast")}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <select
+            className="border rounded px-2 py-1 h-9 bg-background text-sm"
+            value={months}
+            onChange={e => setMonths(Number(e.target.value))}
+            aria-label={t("reports.forecastHorizon", "Forecast horizon")}
+          >
+            {HORIZONS.map(value => (
+              <option key={value} value={value}>
+                {t("reports.forecastMonths", "{{count}} months", { count: value })}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-9"
+            onClick={downloadCsv}
+            disabled={!forecast || downloading}
+          >
+            <Download className="mr-1" size={14} />
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">
+            {t("reports.loadingForecast", "Loading forecast...")}
+          </div>
+        ) : error || !forecast ? (
+          <p className="text-sm text-destructive">
+            {t("reports.forecastFailed", "Could not load the payroll forecast")}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+              <div>
+                <div className="text-muted-foreground">{t("reports.forecastGross", "Projected gross")}</div>
+                <div className="text-lg font-semibold">{formatCurrency(forecast.total.grossPay)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t("reports.forecastUnpaidLeave", "Unpaid leave")}</div>
+                <div className="text-lg font-semibold">{formatCurrency(forecast.total.unpaidLeave)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t("reports.forecastLoans", "Loan recoveries")}</div>
+                <div className="text-lg font-semibold">{formatCurrency(forecast.total.loanRecoveries)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t("reports.forecastNet", "Net payout")}</div>
+                <div className="text-lg font-semibold">{formatCurrency(forecast.total.netPayout)}</div>
+              </div>
+            </div>
+
+            <ChartContainer
+              className="h-72 w-full"
+              config={{
+                gross: { label: t("reports.grossPay", "Gross Pay"), color: "hsl(217 91% 60%)" },
+                net: { label: t("reports.forecastNet", "Net payout"), color: "#34d399" },
+              }}
+            >
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="gross" fill="var(--color-gross)" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="net" fill="var(--color-net)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="py-2 pr-4">{t("reports.department", "Department")}</th>
+                    {forecast.months.map(month => (
+                      <th key={month} className="py-2 pr-4 text-right whitespace-nowrap">{month}</th>
+                    ))}
+                    <th className="py-2 text-right">{t("reports.total", "Total")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.departments.map(group => (
+                    <tr key={group.id ?? "unassigned"} className="border-t">
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {group.id ? group.name : t("reports.unassigned", "Unassigned")}
+                      </td>
+                      {group.months.map(row => (
+                        <td key={row.month} className="py-2 pr-4 text-right">{formatCurrency(row.grossPay)}</td>
+                      ))}
+                      <td className="py-2 text-right font-medium">{formatCurrency(group.total.grossPay)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t font-medium">
+                    <td className="py-2 pr-4">{t("reports.total", "Total")}</td>
+                    {forecast.totals.map(row => (
+                      <td key={row.month} className="py-2 pr-4 text-right">{formatCurrency(row.grossPay)}</td>
+                    ))}
+                    <td className="py-2 text-right">{formatCurrency(forecast.total.grossPay)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {forecast.drivers.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">{t("reports.forecastDrivers", "What changes the forecast")}</h3>
+                <ul className="space-y-1 text-sm">
+                  {forecast.drivers.map((driver, index) => (
+                    <li key={`${driver.kind}-${driver.employeeId}-${driver.month}-${index}`} className="flex items-center gap-2">
+                      <span className="w-16 text-muted-foreground">{driver.month}</span>
+                      <Badge variant="outline">{DRIVER_LABELS[driver.kind]}</Badge>
+                      <span className="font-medium">{driver.employeeName}</span>
+                      <span className="text-muted-foreground">{driver.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,7 +10,6 @@ const formSchema = z.object({
   startDate: z.string().min(1, "Start date is required"),
   endDate: z.string().min(1, "End date is required"),
   taxDeduction: z.coerce.number().optional(),
-  socialSecurityDeduction: z.coerce.number().optional(),
   healthInsuranceDeduction: z.coerce.number().optional(),
   useAttendance: z.boolean().optional(),
 }).refine((data) => new Date(data.startDate) <= new Date(data.endDate), {
@@ -42,7 +41,6 @@ export default function PayrollForm({
       startDate: "",
       endDate: "",
       taxDeduction: undefined,
-      socialSecurityDeduction: undefined,
       healthInsuranceDeduction: undefined,
       useAttendance: undefined,
     },
@@ -84,10 +82,9 @@ export default function PayrollForm({
     <Form {...form}>
       <form
         onSubmit={form.handleSubmit((values) => {
-          const { period, startDate, endDate, taxDeduction, socialSecurityDeduction, healthInsuranceDeduction, useAttendance } = values as any;
+          const { period, startDate, endDate, taxDeduction, healthInsuranceDeduction, useAttendance } = values as any;
           const deductions: Record<string, number> = {};
           if (typeof taxDeduction === 'number' && !Number.isNaN(taxDeduction)) deductions.taxDeduction = taxDeduction;
-          if (typeof socialSecurityDeduction === 'number' && !Number.isNaN(socialSecurityDeduction)) deductions.socialSecurityDeduction = socialSecurityDeduction;
           if (typeof healthInsuranceDeduction === 'number' && !Number.isNaN(healthInsuranceDeduction)) deductions.healthInsuranceDeduction = healthInsuranceDeduction;
           const payload: any = { period, startDate, endDate };
           if (Object.keys(deductions).length > 0) payload.deductions = deductions;
@@ -141,7 +138,7 @@ export default function PayrollForm({
         </div>
 
         <div className="border-t border-gray-200 pt-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
             <FormField
               control={form.control}
               name="taxDeduction"
@@ -155,19 +152,6 @@ export default function PayrollForm({
                 </FormItem>
               )}
             />
-            <FormField
-              control={form.control}
-              name="socialSecurityDeduction"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Social Security (Optional)</FormLabel>
-                  <FormControl>
-                    <Input type="number" step="0.01" placeholder="0.00" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
             <FormField
               control={form.control}
               name="healthInsuranceDeduction"
@@ -182,6 +166,9 @@ export default function PayrollForm({
               )}
             />
           </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Social security is calculated from the configured PIFSS contribution rates.
+          </p>
           <Button
             type="button"
             variant="outline"
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { apiPost } from "@/lib/http";
 import { formatCurrency } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -21,23 +22,30 @@ import type {
   PayrollCalendarConfig,
   PayrollFrequencyConfig,
   PayrollExportFormatConfig,
+  PayrollGenerationJobPhase,
+  PayrollRunComponent,
   PayrollScenarioToggle,
+  PayrollRunType,
+  PayrollDeductionCarryForward,
 } from "@shared/schema";
-import { Trash2 } from "lucide-react";
+import { AlertTriangle, Trash2 } from "lucide-react";
 
 export interface PayrollGenerationPayload {
   period: string;
   startDate: string;
   endDate: string;
+  companyId?: string;
   calendarId?: string;
   cycleLabel?: string;
   scenarioKey?: string;
   scenarioToggles?: Record<string, boolean>;
-  status?: "draft" | "completed";
+  status?: "draft" | "submitted";
+  runType?: Exclude<PayrollRunType, "final_settlement">;
+  employeeIds?: string[];
+  components?: PayrollRunComponent[];
   useAttendance?: boolean;
   deductions?: {
     taxDeduction?: number;
-    socialSecurityDeduction?: number;
     healthInsuranceDeduction?: number;
   };
   overrides?: {
@@ -58,10 +66,21 @@ export interface PayrollGenerationPayload {
   }>;
 }
 
+export interface PayrollGenerationProgress {
+  phase: PayrollGenerationJobPhase | null;
+  processed: number;
+  total: number;
+}
+
 interface PayrollGenerationWizardProps {
   onSubmit: (payload: PayrollGenerationPayload) => void;
   isSubmitting: boolean;
+  /** Progress of a run being generated in the background. */
+  progress?: PayrollGenerationProgress;
+  onCancelGeneration?: () => void;
   canGenerate: boolean;
+  /** Company the run is generated for; omitted on single-company installs. */
+  companyId?: string;
   calendars?: PayrollCalendarConfig[];
   frequencies?: PayrollFrequencyConfig[];
   exportFormats?: PayrollExportFormatConfig[];
@@ -107,12 +126,23 @@ type PayrollPreviewEmployee = {
   events: PayrollPreviewEvent[];
   allowances: PayrollPreviewAllowance[];
 };
+
+type PayrollDeductionCapWarning = {
+  employeeId: string;
+  employeeName: string;
+  grossPay: number;
+  totalDeductions: number;
+  carriedForward: number;
+  lines: PayrollDeductionCarryForward[];
+};
+
 type PayrollPreviewScenarioResponse = {
   scenarioKey: string;
   scenarioLabel: string;
   toggles: Record<string, boolean>;
   totals: { gross: number; net: number; deductions: number };
   employees: PayrollPreviewEmployee[];
+  deductionCapWarnings?: PayrollDeductionCapWarning[];
 };
 
 type PayrollPreviewResponse = {
@@ -121,6 +151,7 @@ type PayrollPreviewResponse = {
   endDate: string;
   calendarId: string | null;
   cycleLabel: string | null;
+  maxDeductionPercent?: number | null;
   scenarios: PayrollPreviewScenarioResponse[];
 };
 
@@ -250,11 +281,43 @@ const resolveScenarioLabel = (
   frequency?: PayrollFrequencyConfig | null,
 ) => calendar?.name ?? frequency?.name ?? "Baseline";
 
+// Where each generation phase starts on the progress bar and how much of it it covers.
+const GENERATION_PHASE_OFFSETS: Record<PayrollGenerationJobPhase, [number, number]> = {
+  loading: [0, 5],
+  calculating: [5, 65],
+  saving: [70, 25],
+  exporting: [95, 5],
+};
+
+const describeGenerationProgress = ({ phase, processed, total }: PayrollGenerationProgress) => {
+  switch (phase) {
+    case "loading":
+      return "Loading employees, loans and attendance...";
+    case "calculating":
+      return `Calculating pay for ${processed} of ${total} employees...`;
+    case "saving":
+      return `Saving ${processed} of ${total} payroll entries...`;
+    case "exporting":
+      return "Building export files...";
+    default:
+      return "Waiting to start...";
+  }
+};
+
+const generationProgressPercent = ({ phase, processed, total }: PayrollGenerationProgress) => {
+  if (!phase) return 0;
+  const [offset, span] = GENERATION_PHASE_OFFSETS[phase];
+  return offset + (total > 0 ? (span * processed) / total : 0);
+};
+
 const MAX_COMPARISONS = 3;
 export default function PayrollGenerationWizard({
   onSubmit,
   isSubmitting,
+  progress,
+  onCancelGeneration,
   canGenerate,
+  companyId,
   calendars,
   frequencies,
   exportFormats,
@@ -286,7 +349,7 @@ export default function PayrollGenerationWizard({
         : new Set(),
   );
   const [exportsInitialized, setExportsInitialized] = useState(exportList.length > 0);
-  const [status, setStatus] = useState<"completed" | "draft">("completed");
+  const [status, setStatus] = useState<"submitted" | "draft">("submitted");
   const [step, setStep] = useState<WizardStep>("form");
   const [formValues, setFormValues] = useState<PayrollGenerationPayload | null>(null);
   const [preview, setPreview] = useState<PayrollPreviewResponse | null>(null);
@@ -490,6 +553,7 @@ export default function PayrollGenerationWizard({
         period: values.period,
         startDate: values.startDate,
         endDate: values.endDate,
+        ...(companyId ? { companyId } : {}),
         calendarId,
         scenarioKey,
         scenarioToggles: { ...baseScenario.toggles },
@@ -775,6 +839,7 @@ export default function PayrollGenerationWizard({
                         <p className="text-sm font-medium">{format.name}</p>
                         <p className="text-xs text-muted-foreground capitalize">
                           {format.type} · {format.format}
+                          {format.bankFormat ? ` · ${format.bankFormat.replace(/_/g, " ")}` : ""}
                         </p>
                         {format.description && (
                           <p className="text-xs text-muted-foreground">{format.description}</p>
@@ -793,15 +858,16 @@ export default function PayrollGenerationWizard({
               <div className="space-y-1">
                 <Label htmlFor="payroll-status">Run status</Label>
                 <p className="text-xs text-muted-foreground">
-                  Draft runs keep loan deductions pending until finalized.
+                  Submitted runs post loan deductions and wait for another user to approve them.
+                  Draft runs keep loan deductions pending.
                 </p>
               </div>
-              <Select value={status} onValueChange={value => setStatus(value as "completed" | "draft")}>
+              <Select value={status} onValueChange={value => setStatus(value as "submitted" | "draft")}>
                 <SelectTrigger id="payroll-status" className="w-[200px]">
                   <SelectValue placeholder="Select status" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="submitted">Submit for approval</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
                 </SelectContent>
               </Select>
@@ -842,6 +908,19 @@ export default function PayrollGenerationWizard({
               )}
             </div>
           </div>
+          {progress && (
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span>{describeGenerationProgress(progress)}</span>
+                {onCancelGeneration && (
+                  <Button variant="outline" size="sm" onClick={onCancelGeneration}>
+                    Cancel generation
+                  </Button>
+                )}
+              </div>
+              <Progress value={generationProgressPercent(progress)} />
+            </div>
+          )}
           <Separator />
           {preview && (
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
@@ -1114,6 +1193,28 @@ export default function PayrollGenerationWizard({
                       ))}
                     </div>
                   </div>
+                  {(activeScenario?.deductionCapWarnings?.length ?? 0) > 0 && (
+                    <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-4 text-amber-900 dark:border-amber-700 dark:bg-amber-950/40 dark:text-amber-100">
+                      <h3 className="flex items-center gap-2 text-sm font-semibold">
+                        <AlertTriangle size={16} />
+                        {preview.maxDeductionPercent
+                          ? `Deductions capped at ${preview.maxDeductionPercent}% of gross pay`
+                          : "Deductions exceed gross pay"}
+                      </h3>
+                      <p className="text-sm">
+                        The amounts below do not fit this period and will be carried forward to the next payroll.
+                      </p>
+                      <ul className="space-y-1 text-sm">
+                        {activeScenario?.deductionCapWarnings?.map(warning => (
+                          <li key={warning.employeeId}>
+                            <span className="font-medium">{warning.employeeName}</span>:{" "}
+                            {formatCurrency(warning.carriedForward)} carried forward (
+                            {warning.lines.map(line => line.label).join(", ")})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                   <div className="space-y-1 text-sm text-muted-foreground">
                     <p>
                       Vacations applied: {totalVacationCount - overrides.skippedVacations.size} of {totalVacationCount}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, BookOpen, CheckCircle2, Download } from "lucide-react";
+import type { PayrollJournal, PayrollJournalBatchType, PayrollJournalComponent } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+const BATCH_LABELS: Record<PayrollJournalBatchType, string> = {
+  accrual: "Accrual",
+  reversal: "Reversal",
+  payment: "Payment",
+};
+
+const COMPONENT_LABELS: Record<PayrollJournalComponent, string> = {
+  basic_salary: "Basic salary",
+  allowances: "Allowances",
+  bonus: "Bonuses",
+  overtime: "Overtime",
+  retro_pay: "Retro pay",
+  net_pay: "Net salaries payable",
+  tax: "Tax payable",
+  social_security: "Social security payable",
+  health_insurance: "Health insurance payable",
+  loan_recovery: "Employee loans",
+  advance_recovery: "Salary advances",
+  other_deductions: "Other deductions",
+  accrued_payroll: "Accrued payroll",
+};
+
+interface PayrollJournalPanelProps {
+  payrollId: string;
+  period: string;
+}
+
+export default function PayrollJournalPanel({ payrollId, period }: PayrollJournalPanelProps) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState<"csv" | "xlsx" | null>(null);
+
+  const { data: journal, isLoading } = useQuery<PayrollJournal>({
+    queryKey: ["/api/payroll", payrollId, "journal"],
+  });
+
+  const downloadJournal = async (format: "csv" | "xlsx") => {
+    setDownloading(format);
+    try {
+      const response = await fetch(`/api/payroll/${payrollId}/journal/export?format=${format}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Failed to export payroll journal");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      const safePeriod = period.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      link.download = `payroll-journal-${safePeriod}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export payroll journal",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="flex items-center">
+          <BookOpen className="mr-2" size={20} />
+          GL Journal
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          {journal &&
+            (journal.balanced ? (
+              <Badge variant="outline" className="h-9 bg-transparent text-success border-success">
+                <CheckCircle2 className="mr-1" size={14} />
+                Balanced
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="h-9 bg-transparent text-destructive border-destructive">
+                <AlertTriangle className="mr-1" size={14} />
+                Out of balance by {formatCurrency(Math.abs(journal.difference))}
+              </Badge>
+            ))}
+          {(["csv", "xlsx"] as const).map((format) => (
+            <Button
+              key={format}
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-9"
+              onClick={() => downloadJournal(format)}
+              disabled={!journal || downloading !== null}
+            >
+              <Download className="mr-1" size={14} />
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !journal ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading journal...</div>
+        ) : (
+          <>
+            {journal.unmappedComponents.length > 0 && (
+              <p className="text-sm text-warning">
+                No GL account is mapped for:{" "}
+                {journal.unmappedComponents.map((component) => COMPONENT_LABELS[component]).join(", ")}
+              </p>
+            )}
+            {journal.batches.map((batch) => (
+              <div key={batch.type} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-900">
+                    {BATCH_LABELS[batch.type]} · {formatDate(batch.date)}
+                  </span>
+                  {!batch.balanced && (
+                    <span className="text-xs text-destructive">Debits and credits differ</span>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-900">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Account</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Cost center</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Description</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500">Debit</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500">Credit</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {batch.lines.map((line, index) => (
+                        <tr key={`${line.component}-${line.accountCode ?? ""}-${line.costCenter ?? ""}-${index}`}>
+                          <td className="px-4 py-2">
+                            {line.accountCode ? (
+                              <>
+                                <span className="font-medium text-gray-900">{line.accountCode}</span>
+                                {line.accountName && (
+                                  <span className="ml-2 text-xs text-muted-foreground">{line.accountName}</span>
+                                )}
+                              </>
+                            ) : (
+                              <span className="text-warning">Unmapped</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-muted-foreground">{line.costCenter ?? "-"}</td>
+                          <td className="px-4 py-2">{line.description}</td>
+                          <td className="px-4 py-2 text-right">{line.debit ? formatCurrency(line.debit) : ""}</td>
+                          <td className="px-4 py-2 text-right">{line.credit ? formatCurrency(line.credit) : ""}</td>
+                        </tr>
+                      ))}
+                      <tr className="font-medium">
+                        <td className="px-4 py-2" colSpan={3}>
+                          Total
+                        </td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(batch.totalDebit)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(batch.totalCredit)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
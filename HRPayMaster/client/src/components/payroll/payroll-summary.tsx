@@ -199,6 +199,7 @@ export default function PayrollSummary({
                     parseFloat(entry.socialSecurityDeduction) +
                     parseFloat(entry.healthInsuranceDeduction) +
                     parseFloat(entry.loanDeduction) +
+                    parseFloat(entry.advanceDeduction) +
                     parseFloat(entry.otherDeductions);
                   const workingDaysAdjustment = calculateWorkingDaysAdjustment(entry);
                   const adjustmentClass =
@@ -240,6 +241,11 @@ export default function PayrollSummary({
                             Loan: {formatCurrency(parseFloat(entry.loanDeduction))}
                           </div>
                         )}
+                        {parseFloat(entry.advanceDeduction ?? "0") > 0 && (
+                          <div className="text-xs text-green-600">
+                            Advance: {formatCurrency(parseFloat(entry.advanceDeduction ?? "0"))}
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         {formatCurrency(parseFloat(entry.netPay))}
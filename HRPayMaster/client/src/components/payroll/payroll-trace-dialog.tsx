@@ -0,0 +1,172 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, ListTree } from "lucide-react";
+import type { PayrollCalculationTrace, PayrollTraceCategory, PayrollTraceOutcome } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+const CATEGORY_LABELS: Record<PayrollTraceCategory, string> = {
+  salary: "Salary",
+  attendance: "Attendance",
+  vacation: "Leave",
+  allowance: "Allowance",
+  bonus: "Bonus",
+  overtime: "Overtime",
+  retro: "Retro",
+  deduction: "Deduction",
+  advance: "Salary advance",
+  loan: "Loan",
+  statutory: "Statutory",
+  net: "Net pay",
+};
+
+const OUTCOME_CLASSES: Record<PayrollTraceOutcome, string> = {
+  included: "text-success border-success",
+  skipped: "text-muted-foreground",
+  capped: "text-warning border-warning",
+  info: "text-primary border-primary",
+};
+
+interface PayrollTraceDialogProps {
+  payrollId: string;
+  entryId: string;
+  employeeName: string;
+  fileName: string;
+  trace: PayrollCalculationTrace | null;
+}
+
+export default function PayrollTraceDialog({
+  payrollId,
+  entryId,
+  employeeName,
+  fileName,
+  trace,
+}: PayrollTraceDialogProps) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState<"csv" | "json" | null>(null);
+
+  const downloadTrace = async (format: "csv" | "json") => {
+    setDownloading(format);
+    try {
+      const response = await fetch(
+        `/api/payroll/${payrollId}/trace/export?format=${format}&entryId=${encodeURIComponent(entryId)}`,
+        { credentials: "include" },
+      );
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Failed to export calculation trace");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${fileName}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export calculation trace",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={!trace}
+          aria-label={`View calculation trace for ${employeeName}`}
+          title={trace ? "Calculation trace" : "No calculation trace was recorded for this entry"}
+        >
+          <ListTree size={16} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Calculation trace · {employeeName}</DialogTitle>
+          <DialogDescription>
+            Inputs used for this entry and every step of the calculation, including items that were skipped.
+          </DialogDescription>
+        </DialogHeader>
+        {trace && (
+          <div className="space-y-4">
+            <div className="flex justify-end gap-2">
+              {(["csv", "json"] as const).map((format) => (
+                <Button
+                  key={format}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => downloadTrace(format)}
+                  disabled={downloading !== null}
+                >
+                  <Download className="mr-1" size={14} />
+                  {format.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              {trace.inputs.map((input) => (
+                <div key={input.key} className="flex justify-between gap-2">
+                  <dt className="text-muted-foreground">{input.label}</dt>
+                  <dd className="font-medium text-gray-900">
+                    {input.value === null ? "—" : String(input.value)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Step</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Outcome</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {trace.steps.map((step, index) => (
+                  <tr key={`${step.category}-${step.sourceId ?? ""}-${index}`}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">
+                        <span className="text-muted-foreground">{CATEGORY_LABELS[step.category]} · </span>
+                        {step.label}
+                      </div>
+                      {step.formula && <div className="font-mono text-xs text-muted-foreground">{step.formula}</div>}
+                      {step.detail && <div className="text-xs text-muted-foreground">{step.detail}</div>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Badge variant="outline" className={`bg-transparent ${OUTCOME_CLASSES[step.outcome]}`}>
+                        {step.outcome}
+                      </Badge>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {typeof step.amount === "number" ? formatCurrency(step.amount) : ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, GitCompare } from "lucide-react";
+import type { PayrollVarianceFlag, PayrollVarianceReport } from "@shared/schema";
+import { apiPost } from "@/lib/http";
+import { queryClient } from "@/lib/queryClient";
+import { toastApiError } from "@/lib/toastError";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+const FLAG_LABELS: Record<PayrollVarianceFlag, string> = {
+  new_hire: "New hire",
+  leaver: "Leaver",
+  net_swing: "Net pay swing",
+  new_deduction: "New deduction",
+  missing_iban: "Missing IBAN",
+};
+
+const flagBadgeClass: Record<PayrollVarianceFlag, string> = {
+  new_hire: "bg-transparent text-primary border-primary",
+  leaver: "bg-transparent text-secondary-foreground border-muted",
+  net_swing: "bg-transparent text-warning border-warning",
+  new_deduction: "bg-transparent text-warning border-warning",
+  missing_iban: "bg-transparent text-destructive border-destructive",
+};
+
+const formatSignedCurrency = (amount: number) => {
+  const sign = amount >= 0 ? "+" : "-";
+  return `${sign}${formatCurrency(Math.abs(amount))}`;
+};
+
+interface PayrollVariancePanelProps {
+  payrollId: string;
+  canSignOff: boolean;
+}
+
+export default function PayrollVariancePanel({ payrollId, canSignOff }: PayrollVariancePanelProps) {
+  const { toast } = useToast();
+  const [threshold, setThreshold] = useState("10");
+  const parsedThreshold = Number.parseFloat(threshold);
+  const thresholdPercent = Number.isFinite(parsedThreshold) && parsedThreshold >= 0 ? parsedThreshold : 10;
+
+  const { data: report, isLoading } = useQuery<PayrollVarianceReport>({
+    queryKey: ["/api/payroll", payrollId, `variance?thresholdPercent=${thresholdPercent}`],
+  });
+
+  const signOffMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiPost(`/api/payroll/${payrollId}/variance/sign-off`, {
+        thresholdPercent,
+      });
+      if (!res.ok) throw res;
+      return res.data as PayrollVarianceReport;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll", payrollId] });
+      toast({ title: "Variance report signed off" });
+    },
+    onError: (error) => {
+      toastApiError(error as any, "Failed to sign off variance report");
+    },
+  });
+
+  const flaggedLines = report?.lines.filter((line) => line.flags.length > 0) ?? [];
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="flex items-center">
+          <GitCompare className="mr-2" size={20} />
+          Variance Review
+        </CardTitle>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="variance-threshold" className="text-xs text-muted-foreground">
+              Net swing threshold (%)
+            </Label>
+            <Input
+              id="variance-threshold"
+              type="number"
+              min={0}
+              className="h-9 w-24"
+              value={threshold}
+              onChange={(event) => setThreshold(event.target.value)}
+            />
+          </div>
+          {report?.signedOffAt ? (
+            <Badge variant="outline" className="h-9 bg-transparent text-success border-success">
+              <CheckCircle2 className="mr-1" size={14} />
+              Signed off {formatDate(report.signedOffAt)}
+            </Badge>
+          ) : (
+            <Button
+              type="button"
+              size="sm"
+              className="h-9"
+              onClick={() => signOffMutation.mutate()}
+              disabled={!canSignOff || !report || signOffMutation.isPending}
+            >
+              Sign off
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !report ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading variance report...</div>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <p className="text-xs uppercase text-muted-foreground">Compared with</p>
+                <p className="text-base font-medium text-gray-900">
+                  {report.previousPeriod ?? "No previous run"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-muted-foreground">Net pay</p>
+                <p className="text-base font-medium text-gray-900">
+                  {formatCurrency(report.totals.previousNet)} → {formatCurrency(report.totals.currentNet)}
+                </p>
+                <p
+                  className={`text-xs ${report.totals.netChange >= 0 ? "text-success" : "text-destructive"}`}
+                >
+                  {formatSignedCurrency(report.totals.netChange)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-muted-foreground">Flagged employees</p>
+                <p className="text-base font-medium text-gray-900">{report.flaggedEmployees}</p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(FLAG_LABELS) as PayrollVarianceFlag[]).map((flag) => (
+                <Badge key={flag} variant="outline" className={flagBadgeClass[flag]}>
+                  {FLAG_LABELS[flag]}: {report.flagCounts[flag] ?? 0}
+                </Badge>
+              ))}
+            </div>
+
+            {flaggedLines.length === 0 ? (
+              <p className="py-4 text-center text-sm text-gray-500">
+                No employees exceed the review thresholds
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Employee</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Flags</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Previous net</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Current net</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {flaggedLines.map((line) => (
+                      <tr key={line.employeeId}>
+                        <td className="px-4 py-2">
+                          <div className="font-medium text-gray-900">{line.employeeName}</div>
+                          {line.employeeCode && (
+                            <div className="text-xs text-muted-foreground">{line.employeeCode}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {line.flags.map((flag) => (
+                              <Badge key={flag} variant="outline" className={flagBadgeClass[flag]}>
+                                {FLAG_LABELS[flag]}
+                              </Badge>
+                            ))}
+                          </div>
+                          {line.ibanIssue && (
+                            <div className="mt-1 text-xs text-destructive">{line.ibanIssue}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {line.previousNetPay === null ? "-" : formatCurrency(line.previousNetPay)}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {line.currentNetPay === null ? "-" : formatCurrency(line.currentNetPay)}
+                          {line.netChangePercent !== null && (
+                            <div className="text-xs text-muted-foreground">
+                              {line.netChangePercent > 0 ? "+" : ""}
+                              {line.netChangePercent}%
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-muted-foreground">
+                          {line.components.map((change) => (
+                            <div key={change.component}>
+                              {change.label}: {formatSignedCurrency(change.change)}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -119,6 +119,7 @@ export function SimpleExportModal({ payrollRun, isOpen, onClose }: SimpleExportM
               parseFloat(entry.socialSecurityDeduction?.toString() || "0") +
               parseFloat(entry.healthInsuranceDeduction?.toString() || "0") +
               parseFloat(entry.loanDeduction?.toString() || "0") +
+              parseFloat(entry.advanceDeduction?.toString() || "0") +
               parseFloat(entry.otherDeductions?.toString() || "0");
             const netPay = grossPay - totalDeductions;
             return `${entry.employee?.firstName || "Employee"} ${entry.employee?.lastName || ""} - Net Pay: ${formatCurrency(netPay)}`;
@@ -307,6 +308,7 @@ export function SimpleExportModal({ payrollRun, isOpen, onClose }: SimpleExportM
                             parseFloat(entry.socialSecurityDeduction?.toString() || "0") +
                             parseFloat(entry.healthInsuranceDeduction?.toString() || "0") +
                             parseFloat(entry.loanDeduction?.toString() || "0") +
+                            parseFloat(entry.advanceDeduction?.toString() || "0") +
                             parseFloat(entry.otherDeductions?.toString() || "0")
                           );
                           return sum + (grossPay - totalDeductions);
@@ -54,7 +54,7 @@ export function downloadPayrollCsv({ entries, payrollRun, scopeLabel }: BasePayr
   const headers = [
     "Employee ID", "Employee Name", "Position", "Work Location",
     "Base Salary", "Allowances", "Bonus", "Gross Pay", "Working Days", "Actual Working Days", "Working Days Adjustment", "Vacation Days",
-    "Tax Deduction", "Social Security", "Health Insurance", "Loan Deduction", "Other Deductions",
+    "Tax Deduction", "Social Security", "Health Insurance", "Loan Deduction", "Salary Advance", "Other Deductions",
     "Total Deductions", "Net Pay", "Adjustment Reason",
   ];
 
@@ -65,6 +65,7 @@ export function downloadPayrollCsv({ entries, payrollRun, scopeLabel }: BasePayr
       parseFloat(entry.socialSecurityDeduction?.toString() || "0") +
       parseFloat(entry.healthInsuranceDeduction?.toString() || "0") +
       parseFloat(entry.loanDeduction?.toString() || "0") +
+      parseFloat(entry.advanceDeduction?.toString() || "0") +
       parseFloat(entry.otherDeductions?.toString() || "0")
     );
     const netPay = grossPay - totalDeductions;
@@ -88,6 +89,7 @@ export function downloadPayrollCsv({ entries, payrollRun, scopeLabel }: BasePayr
       entry.socialSecurityDeduction ?? 0,
       entry.healthInsuranceDeduction ?? 0,
       entry.loanDeduction ?? 0,
+      entry.advanceDeduction ?? 0,
       entry.otherDeductions ?? 0,
       totalDeductions,
       netPay,
@@ -128,6 +130,7 @@ export function downloadPayrollBankFile({
         parseFloat(entry.socialSecurityDeduction?.toString() || "0") +
         parseFloat(entry.healthInsuranceDeduction?.toString() || "0") +
         parseFloat(entry.loanDeduction?.toString() || "0") +
+        parseFloat(entry.advanceDeduction?.toString() || "0") +
         parseFloat(entry.otherDeductions?.toString() || "0")
       );
       const netPay = grossPay - totalDeductions;
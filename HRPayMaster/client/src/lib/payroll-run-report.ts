@@ -105,6 +105,7 @@ const DEDUCTION_LABELS = [
   { key: "socialSecurityDeduction", en: "Social security", ar: "التأمينات الاجتماعية" },
   { key: "healthInsuranceDeduction", en: "Health insurance", ar: "التأمين الصحي" },
   { key: "loanDeduction", en: "Loan deduction", ar: "خصم السلف" },
+  { key: "advanceDeduction", en: "Salary advance", ar: "استرداد سلفة الراتب" },
   { key: "otherDeductions", en: "Other deductions", ar: "استقطاعات أخرى" },
 ] as const
 
@@ -219,6 +220,7 @@ const buildDeductionCellEn = (entry: NonNullable<PayrollRunWithEntries["entries"
       toNumber(entry.socialSecurityDeduction) +
       toNumber(entry.healthInsuranceDeduction) +
       toNumber(entry.loanDeduction) +
+      toNumber(entry.advanceDeduction) +
       toNumber(entry.otherDeductions))
 
   if (breakdown.length === 0) {
@@ -248,6 +250,7 @@ const buildDeductionCellAr = (entry: NonNullable<PayrollRunWithEntries["entries"
       toNumber(entry.socialSecurityDeduction) +
       toNumber(entry.healthInsuranceDeduction) +
       toNumber(entry.loanDeduction) +
+      toNumber(entry.advanceDeduction) +
       toNumber(entry.otherDeductions))
 
   if (breakdown.length === 0) {
@@ -308,6 +311,7 @@ const buildDoc = (run: PayrollRunWithEntries): TDocumentDefinitions => {
         toNumber(entry.socialSecurityDeduction) +
         toNumber(entry.healthInsuranceDeduction) +
         toNumber(entry.loanDeduction) +
+        toNumber(entry.advanceDeduction) +
         toNumber(entry.otherDeductions)
 
       acc.gross += gross
@@ -480,6 +484,7 @@ const buildDoc = (run: PayrollRunWithEntries): TDocumentDefinitions => {
         toNumber(entry.socialSecurityDeduction) +
         toNumber(entry.healthInsuranceDeduction) +
         toNumber(entry.loanDeduction) +
+        toNumber(entry.advanceDeduction) +
         toNumber(entry.otherDeductions))
 
     employeeDetailsSections.push({
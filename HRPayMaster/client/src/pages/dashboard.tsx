@@ -26,7 +26,7 @@ interface DashboardStats {
   totalEmployees: number;
   activeEmployees: number;
   departments: number;
-  forecastPayroll: { gross: number; net: number; breakdown?: { salaries: number; additions: number; deductions: number; deductionsByType?: Record<string, number>; loanReturns: number } };
+  forecastPayroll: { gross: number; net: number; breakdown?: { salaries: number; additions: number; payComponents?: number; deductions: number; deductionsByType?: Record<string, number>; loanReturns: number } };
   forecastDeductions: number;
   forecastLoanReturns: number;
   onVacation: number;
@@ -184,7 +184,7 @@ export default function Dashboard() {
                           <Info size={14} className="text-gray-400 cursor-help" />
                         </TooltipTrigger>
                         <TooltipContent>
-                          {t('dashboard.tooltip.forecastedPayroll','Gross = sum of salary + additions for active employees. Net = Gross − forecasted deductions − forecasted loan returns.')}
+                          {t('dashboard.tooltip.forecastedPayroll','Gross = sum of salary, additions and pay components for active employees. Net = Gross − forecasted deductions − forecasted loan returns.')}
                         </TooltipContent>
                       </Tooltip>
                     </TooltipProvider>
@@ -226,6 +226,7 @@ export default function Dashboard() {
                       <div className="pt-2 text-gray-700">{t('dashboard.breakdown','Breakdown')}</div>
                       <div className="flex justify-between"><span>{t('dashboard.salaries','Salaries')}:</span><span>{formatCurrency(stats?.forecastPayroll?.breakdown?.salaries || 0)}</span></div>
                       <div className="flex justify-between"><span>{t('dashboard.additions','Additions')}:</span><span>{formatCurrency(stats?.forecastPayroll?.breakdown?.additions || 0)}</span></div>
+                      <div className="flex justify-between"><span>{t('dashboard.payComponents','Pay components')}:</span><span>{formatCurrency(stats?.forecastPayroll?.breakdown?.payComponents || 0)}</span></div>
                       <div className="flex justify-between"><span>{t('dashboard.forecastedDeductions','Forecasted Deductions (This Month)')}:</span><span>{formatCurrency(stats?.forecastPayroll?.breakdown?.deductions || 0)}</span></div>
                       <div className="flex justify-between"><span>{t('dashboard.forecastedLoanReturns','Forecasted Loan Returns (This Month)')}:</span><span>{formatCurrency(stats?.forecastPayroll?.breakdown?.loanReturns || 0)}</span></div>
                       {stats?.forecastPayroll?.breakdown?.deductionsByType && (
@@ -48,6 +48,7 @@ export default function Departments() {
     defaultValues: {
       name: "",
       description: "",
+      costCenter: "",
     },
   });
 
@@ -56,6 +57,7 @@ export default function Departments() {
     defaultValues: {
       name: "",
       description: "",
+      costCenter: "",
     },
   });
 
@@ -198,6 +200,7 @@ export default function Departments() {
     editForm.reset({
       name: department.name,
       description: department.description || "",
+      costCenter: department.costCenter || "",
     });
   };
 
@@ -281,6 +284,20 @@ export default function Departments() {
                   )}
                 />
 
+                <FormField
+                  control={addForm.control}
+                  name="costCenter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('departmentsPage.costCenter','Cost Center')}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={t('departmentsPage.costCenterPlaceholder','e.g., CC-100')} {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex justify-end space-x-4 pt-4">
                   <Button
                     type="button"
@@ -370,6 +387,11 @@ export default function Departments() {
                   {department.description || t('departmentsPage.noDescription','No description provided')}
                 </p>
                 
+                {department.costCenter && (
+                  <p className="text-xs text-gray-500 mb-2">
+                    {t('departmentsPage.costCenter','Cost Center')}: {department.costCenter}
+                  </p>
+                )}
                 <div className="flex items-center text-sm text-gray-500">
                   <Users size={16} className="mr-1" />
                   <span>{getEmployeeCount(department.id)} {t('departmentsPage.employees','employee(s)')}</span>
@@ -421,6 +443,20 @@ export default function Departments() {
                 )}
               />
 
+              <FormField
+                control={editForm.control}
+                name="costCenter"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('departmentsPage.costCenter','Cost Center')}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={t('departmentsPage.costCenterPlaceholder','e.g., CC-100')} {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="flex justify-end space-x-4 pt-4">
                 <Button
                   type="button"
@@ -27,7 +27,7 @@ import { allowanceRecursInRange, getMonthBounds, parseDateInput } from "@/lib/em
 import AllowanceRecurringFields from "@/components/employees/allowance-recurring-fields";
 import AllowanceTypeCombobox from "@/components/employees/allowance-type-combobox";
 
-const financialEventTypes = ["bonus", "commission", "deduction", "allowance", "overtime", "penalty"] as const;
+const financialEventTypes = ["bonus", "commission", "deduction", "court_order", "allowance", "overtime", "penalty"] as const;
 
 export default function EmployeeEvents() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -237,6 +237,7 @@ export default function EmployeeEvents() {
       case 'bonus':
         return <Award className="h-4 w-4 text-green-600" />;
       case 'deduction':
+      case 'court_order':
         return <TrendingDown className="h-4 w-4 text-red-600" />;
       case 'allowance':
         return <TrendingUp className="h-4 w-4 text-blue-600" />;
@@ -262,6 +263,7 @@ export default function EmployeeEvents() {
       case 'bonus':
         return 'bg-green-100 text-green-800';
       case 'deduction':
+      case 'court_order':
         return 'bg-red-100 text-red-800';
       case 'allowance':
         return 'bg-blue-100 text-blue-800';
@@ -422,6 +424,7 @@ export default function EmployeeEvents() {
                             <SelectItem value="bonus">Bonus</SelectItem>
                             <SelectItem value="commission">Commission</SelectItem>
                             <SelectItem value="deduction">Deduction</SelectItem>
+                            <SelectItem value="court_order">Court Order</SelectItem>
                             <SelectItem value="allowance">Allowance</SelectItem>
                             <SelectItem value="overtime">Overtime</SelectItem>
                             <SelectItem value="penalty">Penalty</SelectItem>
@@ -712,11 +715,11 @@ export default function EmployeeEvents() {
                       {financialEventTypes.includes(event.eventType as any) && (
                         <div className="text-right">
                           <div className={`text-lg font-semibold ${
-                            ['deduction', 'penalty'].includes(event.eventType)
+                            ['deduction', 'court_order', 'penalty'].includes(event.eventType)
                               ? 'text-red-600'
                               : 'text-green-600'
                           }`}>
-                            {['deduction', 'penalty'].includes(event.eventType) ? '-' : '+'}
+                            {['deduction', 'court_order', 'penalty'].includes(event.eventType) ? '-' : '+'}
                             {formatCurrency(parseFloat(event.amount))}
                           </div>
                         </div>
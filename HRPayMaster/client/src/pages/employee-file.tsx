@@ -5,7 +5,7 @@ import { apiGet } from "@/lib/http";
 import { buildEmployeeFileReport, openPdf } from "@/lib/pdf";
 import { getQueryFn } from "@/lib/queryClient";
 import { expandEventsWithRecurringAllowances, parseDateInput } from "@/lib/employee-events";
-import type { EmployeeEvent } from "@shared/schema";
+import type { CompensationChange, EmployeeEvent } from "@shared/schema";
 
 export default function EmployeeFile() {
   const search = useSearch();
@@ -33,6 +33,14 @@ export default function EmployeeFile() {
     enabled: !!id,
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
+  const { data: compensation, isFetched: compensationFetched } = useQuery<{
+    currentSalary: string;
+    history: CompensationChange[];
+  } | null>({
+    queryKey: ["/api/employees", id, "compensation"],
+    enabled: !!id,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
   // Optional payroll report for period
   const searchParams = new URLSearchParams(typeof window !== 'undefined' ? window.location.search : '');
@@ -53,7 +61,7 @@ export default function EmployeeFile() {
 
   useEffect(() => {
     try {
-      if (employee && events) {
+      if (employee && events && compensationFetched) {
         const searchParams = new URLSearchParams(window.location.search);
         const sectionsParam = searchParams.get('sections') || '';
         const sections = new Set((sectionsParam || '').split(',').filter(Boolean));
@@ -199,6 +207,24 @@ export default function EmployeeFile() {
           }
         }
 
+        // Salary timeline from the compensation history
+        const salaryHistory = compensation?.history ?? [];
+        if ((sections.size === 0 || sections.has('compensation')) && salaryHistory.length > 0) {
+          (doc.content as any[]).push({ text: 'Salary Timeline', style: 'section', margin: [0,10,0,0] });
+          const salaryRows: any[] = [[ 'Effective', 'Change', 'Previous', 'Salary', 'Reason' ]];
+          for (const change of salaryHistory) {
+            const previous = change.previousSalary != null ? Number(change.previousSalary).toFixed(2) : '-';
+            salaryRows.push([
+              change.effectiveDate,
+              change.changeType,
+              previous,
+              Number(change.salary).toFixed(2),
+              change.reason,
+            ]);
+          }
+          ;(doc.content as any[]).push({ table: { headerRows: 1, widths: ['auto','auto','auto','auto','*'], body: salaryRows } });
+        }
+
         // Payroll Timeline (if date range is provided)
         if (report && Array.isArray(report) && report.length > 0) {
           (doc.content as any[]).push({ text: 'Payroll Timeline', style: 'section', pageBreak: 'before' });
@@ -217,7 +243,7 @@ export default function EmployeeFile() {
     } catch (err) {
       console.error('Failed to generate employee file PDF', err);
     }
-  }, [employee, events, loans, assetAssignments, id, language]);
+  }, [employee, events, loans, assetAssignments, compensation, compensationFetched, id, language]);
 
   return null;
 }
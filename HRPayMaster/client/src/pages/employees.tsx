@@ -4,6 +4,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 
 import EmployeeTable from "@/components/employees/employee-table";
 import EmployeeForm from "@/components/employees/employee-form";
+import PayComponentsEditor from "@/components/employees/pay-components-editor";
 import EmployeeImport from "@/components/employees/employee-import";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -701,6 +702,12 @@ const addEmployeeMutation = useMutation({
                   />
                 );
               })()}
+              {editingEmployee && (
+                <PayComponentsEditor
+                  employeeId={editingEmployee.id}
+                  basicSalary={Number(editingEmployee.salary) || 0}
+                />
+              )}
               {editingEmployee && (
                 <div className="flex justify-end mt-4">
                   <Button
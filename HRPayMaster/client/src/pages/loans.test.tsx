@@ -9,8 +9,12 @@ import '@testing-library/jest-dom';
 const { toast } = vi.hoisted(() => ({ toast: vi.fn() }));
 const mutationMocks: any[] = [];
 
+// Each render creates the create, update and delete mutations, then the
+// statement dialog's repayment mutation.
+const MUTATIONS_PER_RENDER = 4;
+
 const getMutationMocksByType = (offset: number) =>
-  mutationMocks.filter((_: any, index: number) => index % 3 === offset);
+  mutationMocks.filter((_: any, index: number) => index % MUTATIONS_PER_RENDER === offset);
 
 const getLatestMutationMock = (offset: number) => {
   const mocks = getMutationMocksByType(offset);
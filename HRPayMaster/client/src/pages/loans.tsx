@@ -20,7 +20,19 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { useToast } from "@/hooks/use-toast";
 import ImageUpload from "@/components/ui/image-upload";
 
-import { insertLoanSchema, type LoanStatement, type LoanWithEmployee } from "@shared/schema";
+import {
+  insertLoanSchema,
+  loanInterestMethods,
+  loanRepaymentMethods,
+  loanRestructureTypes,
+  type LoanInterestMethod,
+  type LoanRepaymentMethod,
+  type LoanRestructureType,
+  type LoanRestructureWithStages,
+  type LoanScheduleVersion,
+  type LoanStatement,
+  type LoanWithEmployee,
+} from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
 import { apiPost, apiPut, apiDelete, apiGet } from "@/lib/http";
 import { toastApiError } from "@/lib/toastError";
@@ -39,6 +51,48 @@ const schema = insertLoanSchema
 
 const formatMoney = (value: number) => formatCurrency(value);
 
+const interestMethodLabels: Record<LoanInterestMethod, string> = {
+  interest_free: "Interest free",
+  reducing_balance: "Reducing balance",
+  flat: "Flat",
+};
+
+const paymentSourceLabels: Record<string, string> = {
+  payroll: "Payroll",
+  payroll_reversal: "Payroll reversal",
+  final_settlement: "Final settlement",
+  cash: "Cash",
+  bank_transfer: "Bank transfer",
+};
+
+const restructureTypeLabels: Record<LoanRestructureType, string> = {
+  defer_installments: "Defer instalments",
+  change_monthly_deduction: "Change monthly deduction",
+  extend_end_date: "Extend end date",
+};
+
+const describeRestructure = (restructure: LoanRestructureWithStages) => {
+  switch (restructure.type) {
+    case "defer_installments":
+      return `${restructure.deferInstallments} instalment(s) deferred`;
+    case "change_monthly_deduction":
+      return `Monthly deduction ${formatMoney(Number(restructure.monthlyDeduction))}`;
+    default:
+      return `End date ${restructure.endDate}`;
+  }
+};
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 type StageStatus = "pending" | "approved" | "rejected" | "delegated" | "skipped";
 
 const stageStatusLabels: Record<StageStatus, string> = {
@@ -69,6 +123,7 @@ const createTempId = () => Math.random().toString(36).slice(2, 10);
 type LoanDocumentDraft = {
   tempId: string;
   title: string;
+  documentType?: string;
   fileUrl?: string;
 };
 
@@ -87,6 +142,7 @@ const buildLoanDocumentPayload = (
     .filter((doc) => doc.title.trim() && doc.fileUrl)
     .map((doc) => ({
       title: doc.title.trim(),
+      documentType: doc.documentType?.trim() || undefined,
       fileUrl: doc.fileUrl!,
     }));
   const removals = state.removedDocumentIds
@@ -239,6 +295,7 @@ export default function Loans() {
       startDate: new Date().toISOString().split('T')[0],
       status: "pending",
       interestRate: undefined,
+      interestMethod: "reducing_balance",
       reason: "",
     },
     mode: "onChange"
@@ -365,6 +422,7 @@ export default function Loans() {
       .filter((doc) => doc.title.trim() && doc.fileUrl)
       .map((doc) => ({
         title: doc.title.trim(),
+        documentType: doc.documentType?.trim() || undefined,
         fileUrl: doc.fileUrl!,
       }));
     const payload = { ...data };
@@ -611,6 +669,31 @@ export default function Loans() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="interestMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('loansPage.interestMethod', 'Interest Method')}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || undefined}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {loanInterestMethods.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {t(`loansPage.interestMethods.${method}`, interestMethodLabels[method])}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="reason"
@@ -647,6 +730,11 @@ export default function Loans() {
                             value={doc.title}
                             onChange={(event) => updateCreateDocument(doc.tempId, { title: event.target.value })}
                           />
+                          <Input
+                            placeholder="Document type (e.g. salary_certificate)"
+                            value={doc.documentType ?? ""}
+                            onChange={(event) => updateCreateDocument(doc.tempId, { documentType: event.target.value })}
+                          />
                           <ImageUpload
                             label="Upload supporting document"
                             value={doc.fileUrl}
@@ -1012,6 +1100,13 @@ export default function Loans() {
                                   handleUpdateNewLoanDocument(loan.id, doc.tempId, { title: event.target.value })
                                 }
                               />
+                              <Input
+                                placeholder="Document type (e.g. salary_certificate)"
+                                value={doc.documentType ?? ""}
+                                onChange={(event) =>
+                                  handleUpdateNewLoanDocument(loan.id, doc.tempId, { documentType: event.target.value })
+                                }
+                              />
                               <ImageUpload
                                 label="Upload supporting document"
                                 value={doc.fileUrl}
@@ -1250,6 +1345,13 @@ export default function Loans() {
                             handleUpdateNewLoanDocument(editingLoan.id, doc.tempId, { title: event.target.value })
                           }
                         />
+                        <Input
+                          placeholder="Document type (e.g. salary_certificate)"
+                          value={doc.documentType ?? ""}
+                          onChange={(event) =>
+                            handleUpdateNewLoanDocument(editingLoan.id, doc.tempId, { documentType: event.target.value })
+                          }
+                        />
                         <ImageUpload
                           label="Upload supporting document"
                           value={doc.fileUrl}
@@ -1335,6 +1437,56 @@ function LoanStatementDialog({
   isLoading,
 }: LoanStatementDialogProps) {
   const { t } = useTranslation();
+  const { toast } = useToast();
+  const [repaymentAmount, setRepaymentAmount] = useState("");
+  const [repaymentMethod, setRepaymentMethod] = useState<LoanRepaymentMethod>("cash");
+  const [repaymentDate, setRepaymentDate] = useState(() => new Date().toISOString().split("T")[0]);
+  const [repaymentReference, setRepaymentReference] = useState("");
+  const [settleInFull, setSettleInFull] = useState(false);
+
+  const loanId = statement?.loan.id;
+  const canRepay = statement
+    ? ["active", "paused"].includes(statement.loan.status) && (statement.totals.outstandingBalance ?? 0) > 0
+    : false;
+
+  const resetRepayment = () => {
+    setRepaymentAmount("");
+    setRepaymentReference("");
+    setSettleInFull(false);
+  };
+
+  const downloadReceipt = async (paymentId: string, receiptNumber?: string | null) => {
+    if (!loanId) return;
+    const res = await apiGet(`/api/loans/${loanId}/repayments/${paymentId}/receipt`);
+    if (!res.ok || !(res.data instanceof Blob)) {
+      toastApiError(res as any, t('loansPage.receiptFailed', 'Failed to download receipt'));
+      return;
+    }
+    saveBlob(res.data, `loan-receipt-${receiptNumber ?? paymentId}.pdf`);
+  };
+
+  const repaymentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiPost(`/api/loans/${loanId}/repayments`, {
+        ...(settleInFull ? { settleInFull: true } : { amount: Number(repaymentAmount) }),
+        method: repaymentMethod,
+        paidDate: repaymentDate,
+        reference: repaymentReference || undefined,
+      });
+      if (!res.ok) throw res;
+      return res.data as { payment: { id: string; receiptNumber: string | null } };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+      resetRepayment();
+      toast({
+        title: t('loansPage.repaymentRecorded', 'Repayment recorded'),
+        description: data.payment.receiptNumber ?? undefined,
+      });
+      void downloadReceipt(data.payment.id, data.payment.receiptNumber);
+    },
+    onError: (error) => toastApiError(error as any, t('loansPage.repaymentFailed', 'Failed to record repayment')),
+  });
 
   const handleDownload = () => {
     if (!statement || typeof window === "undefined") {
@@ -1401,6 +1553,11 @@ function LoanStatementDialog({
               <div>
                 <p className="text-xs uppercase text-muted-foreground">{t('loansPage.totalPaid', 'Total paid')}</p>
                 <p className="text-base font-semibold">{formatMoney(totals?.totalPaid ?? 0)}</p>
+                {(totals?.repaidOutsidePayroll ?? 0) > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t('loansPage.repaidOutsidePayroll', 'Repaid outside payroll')}: {formatMoney(totals?.repaidOutsidePayroll ?? 0)}
+                  </p>
+                )}
               </div>
               <div>
                 <p className="text-xs uppercase text-muted-foreground">{t('loansPage.outstandingBalance', 'Outstanding balance')}</p>
@@ -1451,15 +1608,138 @@ function LoanStatementDialog({
               </div>
             </div>
 
-            <div className="grid gap-4 sm:grid-cols-2">
-              <div>
-                <h5 className="text-sm font-medium">{t('loansPage.payments', 'Payments')}</h5>
+            <div>
+              <h5 className="text-sm font-medium">{t('loansPage.payments', 'Payments')}</h5>
+              {statement.payments.length === 0 ? (
                 <p className="text-sm text-muted-foreground">
-                  {t('loansPage.paymentsSummary', '{{count}} recorded payroll payments', {
-                    count: statement.payments.length,
-                  })}
+                  {t('loansPage.noPayments', 'No payments recorded yet')}
                 </p>
-              </div>
+              ) : (
+                <div className="mt-2 rounded-md border">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-muted/40 text-left text-xs uppercase text-muted-foreground">
+                      <tr>
+                        <th className="px-3 py-2">{t('loansPage.paidOn', 'Date')}</th>
+                        <th className="px-3 py-2">{t('loansPage.source', 'Source')}</th>
+                        <th className="px-3 py-2">{t('loansPage.amount', 'Amount')}</th>
+                        <th className="px-3 py-2">{t('loansPage.receipt', 'Receipt')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {statement.payments.map((payment) => (
+                        <tr key={payment.id} className="border-t">
+                          <td className="px-3 py-2">{format(new Date(payment.appliedDate), 'MMM d, yyyy')}</td>
+                          <td className="px-3 py-2">
+                            {paymentSourceLabels[payment.source] ?? payment.source}
+                            {payment.reference ? ` · ${payment.reference}` : ""}
+                          </td>
+                          <td className="px-3 py-2">{formatMoney(Number(payment.amount))}</td>
+                          <td className="px-3 py-2">
+                            {payment.payrollRunId ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="link"
+                                className="h-auto p-0"
+                                onClick={() => downloadReceipt(payment.id, payment.receiptNumber)}
+                              >
+                                {payment.receiptNumber ?? t('loansPage.download', 'Download')}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {canRepay && (
+              <form
+                className="space-y-3 rounded-md border p-3"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  repaymentMutation.mutate();
+                }}
+              >
+                <h5 className="text-sm font-medium">{t('loansPage.recordRepayment', 'Record repayment')}</h5>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">{t('loansPage.amount', 'Amount')}</label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={repaymentAmount}
+                        onChange={(event) => {
+                          setRepaymentAmount(event.target.value);
+                          setSettleInFull(false);
+                        }}
+                      />
+                      <Button
+                        type="button"
+                        variant={settleInFull ? "default" : "outline"}
+                        onClick={() => {
+                          setRepaymentAmount(String(statement.totals.outstandingBalance));
+                          setSettleInFull(true);
+                        }}
+                      >
+                        {t('loansPage.settleInFull', 'Settle in full')}
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">{t('loansPage.repaymentMethod', 'Method')}</label>
+                    <Select
+                      value={repaymentMethod}
+                      onValueChange={(value) => setRepaymentMethod(value as LoanRepaymentMethod)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {loanRepaymentMethods.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {paymentSourceLabels[method]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">{t('loansPage.paidOn', 'Date')}</label>
+                    <Input type="date" value={repaymentDate} onChange={(event) => setRepaymentDate(event.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">{t('loansPage.reference', 'Reference')}</label>
+                    <Input value={repaymentReference} onChange={(event) => setRepaymentReference(event.target.value)} />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                    type="submit"
+                    size="sm"
+                    disabled={
+                      repaymentMutation.isPending ||
+                      !repaymentDate ||
+                      (!settleInFull && !(Number(repaymentAmount) > 0))
+                    }
+                  >
+                    {t('loansPage.recordRepayment', 'Record repayment')}
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            <LoanRestructurePanel
+              loanId={statement.loan.id}
+              canRestructure={["active", "paused"].includes(statement.loan.status)}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
               {statement.documents.length > 0 && (
                 <div>
                   <h5 className="text-sm font-medium">{t('loansPage.documents', 'Documents')}</h5>
@@ -1483,3 +1763,196 @@ function LoanStatementDialog({
     </Dialog>
   );
 }
+
+interface LoanRestructurePanelProps {
+  loanId: string;
+  canRestructure: boolean;
+}
+
+function LoanRestructurePanel({ loanId, canRestructure }: LoanRestructurePanelProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [type, setType] = useState<LoanRestructureType>("defer_installments");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: restructures = [] } = useQuery<LoanRestructureWithStages[]>({
+    queryKey: ["/api/loans", loanId, "restructures"],
+  });
+  const { data: versions = [] } = useQuery<LoanScheduleVersion[]>({
+    queryKey: ["/api/loans", loanId, "schedule-versions"],
+  });
+  const hasPending = restructures.some((restructure) => restructure.status === "pending");
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const field =
+        type === "defer_installments"
+          ? { deferInstallments: Number(value) }
+          : type === "change_monthly_deduction"
+            ? { monthlyDeduction: Number(value) }
+            : { endDate: value };
+      const res = await apiPost(`/api/loans/${loanId}/restructures`, { type, reason, ...field });
+      if (!res.ok) throw res;
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId, "restructures"] });
+      setValue("");
+      setReason("");
+      toast({ title: t('loansPage.restructureRequested', 'Restructure sent for approval') });
+    },
+    onError: (error) => toastApiError(error as any, t('loansPage.restructureFailed', 'Failed to request restructure')),
+  });
+
+  const stageMutation = useMutation({
+    mutationFn: async ({ restructureId, stageId, status }: { restructureId: string; stageId: string; status: "approved" | "rejected" }) => {
+      const res = await apiPut(`/api/loans/${loanId}/restructures/${restructureId}`, {
+        stageUpdates: [{ id: stageId, status }],
+      });
+      if (!res.ok) throw res;
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+    },
+    onError: (error) => toastApiError(error as any, t('loansPage.restructureUpdateFailed', 'Failed to update restructure')),
+  });
+
+  return (
+    <div className="space-y-3">
+      <h5 className="text-sm font-medium">{t('loansPage.restructures', 'Restructures')}</h5>
+
+      {restructures.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t('loansPage.noRestructures', 'This loan has not been restructured')}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {restructures.map((restructure) => (
+            <li key={restructure.id} className="rounded-md border p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">
+                  {restructureTypeLabels[restructure.type]}: {describeRestructure(restructure)}
+                </span>
+                <Badge variant={restructure.status === "rejected" ? "destructive" : "secondary"} className="capitalize">
+                  {restructure.status}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">{restructure.reason}</p>
+              <ul className="mt-2 space-y-1">
+                {restructure.approvalStages.map((stage) => (
+                  <li key={stage.id} className="flex items-center justify-between gap-2">
+                    <span>
+                      {stage.stageName} · <span className="capitalize">{stage.status}</span>
+                    </span>
+                    {restructure.status === "pending" && stage.status === "pending" && (
+                      <span className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={stageMutation.isPending}
+                          onClick={() =>
+                            stageMutation.mutate({ restructureId: restructure.id, stageId: stage.id, status: "approved" })
+                          }
+                        >
+                          {t('loansPage.approve', 'Approve')}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={stageMutation.isPending}
+                          onClick={() =>
+                            stageMutation.mutate({ restructureId: restructure.id, stageId: stage.id, status: "rejected" })
+                          }
+                        >
+                          {t('loansPage.reject', 'Reject')}
+                        </Button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canRestructure && !hasPending && (
+        <form
+          className="space-y-3 rounded-md border p-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            requestMutation.mutate();
+          }}
+        >
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">{t('loansPage.restructureType', 'Change')}</label>
+              <Select
+                value={type}
+                onValueChange={(next) => {
+                  setType(next as LoanRestructureType);
+                  setValue("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {loanRestructureTypes.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {restructureTypeLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">
+                {type === "defer_installments"
+                  ? t('loansPage.installmentsToDefer', 'Instalments to defer')
+                  : type === "change_monthly_deduction"
+                    ? t('loansPage.newMonthlyDeduction', 'New monthly deduction')
+                    : t('loansPage.newEndDate', 'New end date')}
+              </label>
+              <Input
+                type={type === "extend_end_date" ? "date" : "number"}
+                min={type === "extend_end_date" ? undefined : "1"}
+                step={type === "change_monthly_deduction" ? "0.01" : "1"}
+                value={value}
+                onChange={(event) => setValue(event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">{t('loansPage.reason', 'Reason')}</label>
+            <Textarea value={reason} onChange={(event) => setReason(event.target.value)} />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={requestMutation.isPending || !value || !reason.trim()}>
+              {t('loansPage.requestRestructure', 'Request restructure')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {versions.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium">{t('loansPage.scheduleHistory', 'Previous schedules')}</h5>
+          <ul className="mt-1 space-y-1 text-sm text-muted-foreground">
+            {versions.map((version) => (
+              <li key={version.id}>
+                {t('loansPage.scheduleVersion', 'Version {{version}}', { version: version.version })}:{" "}
+                {version.entries.length} {t('loansPage.installments', 'instalments')},{" "}
+                {formatMoney(Number(version.monthlyDeduction))}/{t('loansPage.month', 'month')}
+                {version.endDate ? ` · ${version.endDate}` : ""}
+                {version.createdAt ? ` · ${format(new Date(version.createdAt), "MMM d, yyyy")}` : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -57,6 +57,10 @@ vi.mock('@/components/payroll/payroll-edit-view-simple', () => ({
   default: () => <div>PayrollEditView</div>,
 }));
 
+vi.mock('@/components/payroll/off-cycle-run-form', () => ({
+  default: () => <div>OffCycleRunForm</div>,
+}));
+
 vi.mock('@/components/ui/button', () => ({
   Button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
 }));
@@ -5,6 +5,7 @@ import PayrollGenerationWizard, {
   type PayrollGenerationPayload,
 } from "@/components/payroll/payroll-generation-wizard";
 import PayrollDetailsView from "@/components/payroll/payroll-details-view";
+import OffCycleRunForm from "@/components/payroll/off-cycle-run-form";
 import PayrollEditView from "@/components/payroll/payroll-edit-view-simple";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -24,6 +25,8 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Calculator,
   DollarSign,
@@ -37,17 +40,23 @@ import {
   Loader2,
   CheckCircle2,
   Ban,
+  Send,
+  Undo2,
+  Lock,
+  Banknote,
+  XCircle,
 } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
-import { apiPost, apiDelete, apiGet, apiPut } from "@/lib/http";
+import { apiPost, apiDelete, apiGet } from "@/lib/http";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import type {
   Company,
   PayrollExportArtifact,
+  PayrollGenerationJob,
   PayrollRun,
   PayrollRunWithEntries,
-  User,
+  SessionUser,
 } from "@shared/schema";
 import { useSearch, useLocation } from "wouter";
 import { toastApiError } from "@/lib/toastError";
@@ -56,6 +65,18 @@ import { openPayrollRunReport } from "@/lib/payroll-run-report";
 
 type PayrollGenerateRequest = PayrollGenerationPayload;
 
+type PayrollGenerateResult = {
+  runStatus: PayrollGenerateRequest["status"];
+  /** Set when the server generates the run in the background. */
+  job?: PayrollGenerationJob;
+};
+
+const FINISHED_JOB_STATUSES = new Set(["completed", "failed", "cancelled"]);
+
+type PayrollRunAction = "submit" | "approve" | "reject" | "mark-paid" | "lock" | "cancel";
+
+const FROZEN_RUN_STATUSES = new Set(["approved", "paid", "locked", "voided"]);
+
 const getErrorMessage = (error: unknown): string | undefined => {
   if (typeof error === "string") {
     return error;
@@ -81,6 +102,7 @@ function useSearchParams() {
 export default function Payroll() {
   const { t } = useTranslation();
   const [isGenerateDialogOpen, setIsGenerateDialogOpen] = useState(false);
+  const [isOffCycleDialogOpen, setIsOffCycleDialogOpen] = useState(false);
   const [selectedPayrollId, setSelectedPayrollId] = useState<string | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -93,6 +115,10 @@ export default function Payroll() {
   const [printHandler, setPrintHandler] = useState<(() => void) | null>(null);
   const [pendingPrint, setPendingPrint] = useState(false);
   const [reportLoadingId, setReportLoadingId] = useState<string | null>(null);
+  const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(null);
+  const [payrollToVoid, setPayrollToVoid] = useState<PayrollRun | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [generation, setGeneration] = useState<PayrollGenerateResult | null>(null);
   const { toast } = useToast();
   const searchParams = useSearchParams();
 
@@ -102,9 +128,10 @@ export default function Payroll() {
     }
   }, [searchParams]);
 
-  const user = queryClient.getQueryData<User>(["/api/me"]);
+  const user = queryClient.getQueryData<SessionUser>(["/api/me"]);
   const [, navigate] = useLocation();
   const canGenerate = user?.role === "admin" || user?.role === "hr";
+  const canApprove = user?.permissions?.includes("payroll:approve") ?? false;
 
   useEffect(() => {
     if (!user) {
@@ -127,54 +154,133 @@ export default function Payroll() {
     enabled: canGenerate,
   });
 
-  const generatePayrollMutation = useMutation<string, unknown, PayrollGenerateRequest>({
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+    enabled: canGenerate,
+  });
+
+  // Payroll is processed per company once there is more than one.
+  const hasMultipleCompanies = companies.length > 1;
+  const activeCompany = hasMultipleCompanies
+    ? companies.find(company => company.id === selectedCompanyId) ??
+      companies.find(company => company.id === companyConfig?.id) ??
+      companies[0]
+    : companyConfig;
+  const activeCompanyId = hasMultipleCompanies ? activeCompany?.id : undefined;
+  // Runs created before runs recorded their company show under every company.
+  const companyRuns = useMemo(
+    () =>
+      activeCompanyId
+        ? payrollRuns?.filter(run => !run.companyId || run.companyId === activeCompanyId)
+        : payrollRuns,
+    [payrollRuns, activeCompanyId],
+  );
+
+  const handleGenerated = (runStatus: PayrollGenerateRequest["status"]) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    setIsGenerateDialogOpen(false);
+    setIsOffCycleDialogOpen(false);
+    toast({
+      title: t('common.success','Success'),
+      description:
+        runStatus === "draft"
+          ? t('payroll.draftSaved','Payroll draft saved')
+          : t('payroll.generated','Payroll generated successfully'),
+    });
+  };
+
+  const handleGenerateError = (res: any) => {
+    const status = res?.status;
+    if (status === 409) {
+      const description =
+        getErrorMessage(res?.error) ??
+        getErrorMessage(res) ??
+        t(
+          'payroll.exists',
+          'Payroll run already exists for this period',
+        );
+      toast({ title: t('payroll.duplicatePeriod','Duplicate period'), description, variant: "destructive" });
+      return;
+    }
+    if (status === 401) {
+      navigate("/login");
+      return;
+    }
+    // Tests expect generic errors to use title 'Error' and a descriptive message
+    const serverMessage =
+      (res?.error && typeof res.error === "object" && (res.error as any)?.message)
+        ? (res.error as any).message
+        : (typeof res?.error === "string" ? res.error : undefined);
+    if (serverMessage) {
+      toast({ title: t('errors.errorTitle','Error'), description: serverMessage, variant: "destructive" });
+    } else {
+      toast({ title: t('errors.errorTitle','Error'), description: t('payroll.generateFailed','Failed to generate payroll'), variant: "destructive" });
+    }
+  };
+
+  const generatePayrollMutation = useMutation<PayrollGenerateResult, unknown, PayrollGenerateRequest>({
     mutationFn: async (data: PayrollGenerateRequest) => {
-      const res = await apiPost("/api/payroll/generate", data);
+      const res = await apiPost("/api/payroll/generate", { ...data, background: true });
       if (!res.ok) throw res;
-      return data.status ?? "completed";
-    },
-    onSuccess: (runStatus) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/payroll"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-      setIsGenerateDialogOpen(false);
-      toast({
-        title: t('common.success','Success'),
-        description:
-          runStatus === "draft"
-            ? t('payroll.draftSaved','Payroll draft saved')
-            : t('payroll.generated','Payroll generated successfully'),
-      });
+      return {
+        runStatus: data.status ?? "submitted",
+        job: res.status === 202 ? (res.data as PayrollGenerationJob) : undefined,
+      };
     },
-    onError: (res: any) => {
-      const status = res?.status;
-      if (status === 409) {
-        const description =
-          getErrorMessage(res?.error) ??
-          getErrorMessage(res) ??
-          t(
-            'payroll.exists',
-            'Payroll run already exists for this period',
-          );
-        toast({ title: t('payroll.duplicatePeriod','Duplicate period'), description, variant: "destructive" });
-        return;
-      }
-      if (status === 401) {
-        navigate("/login");
+    onSuccess: (result) => {
+      if (result?.job) {
+        setGeneration(result);
         return;
       }
-      // Tests expect generic errors to use title 'Error' and a descriptive message
-      const serverMessage =
-        (res?.error && typeof res.error === "object" && (res.error as any)?.message)
-          ? (res.error as any).message
-          : (typeof res?.error === "string" ? res.error : undefined);
-      if (serverMessage) {
-        toast({ title: t('errors.errorTitle','Error'), description: serverMessage, variant: "destructive" });
-      } else {
-        toast({ title: t('errors.errorTitle','Error'), description: t('payroll.generateFailed','Failed to generate payroll'), variant: "destructive" });
-      }
+      handleGenerated(result?.runStatus);
     },
+    onError: (res: any) => handleGenerateError(res),
+  });
+
+  const generationJobId =
+    generation?.job && !FINISHED_JOB_STATUSES.has(generation.job.status) ? generation.job.id : null;
+  const { data: generationJob } = useQuery<PayrollGenerationJob>({
+    queryKey: ["/api/payroll/jobs", generationJobId],
+    enabled: Boolean(generationJobId),
+    refetchInterval: query =>
+      FINISHED_JOB_STATUSES.has(query.state.data?.status ?? "") ? false : 1000,
+    staleTime: 0,
   });
 
+  useEffect(() => {
+    if (!generation || !generationJob || generationJob.id !== generation.job?.id) return;
+    if (!FINISHED_JOB_STATUSES.has(generationJob.status)) return;
+    setGeneration(null);
+    if (generationJob.status === "completed") {
+      handleGenerated(generation.runStatus);
+    } else if (generationJob.status === "cancelled") {
+      toast({
+        title: t('payroll.generationCancelled','Payroll generation cancelled'),
+        description: t('payroll.generationCancelledDescription','No payroll run was saved.'),
+      });
+    } else {
+      handleGenerateError({ status: generationJob.error?.status, error: generationJob.error });
+    }
+  }, [generation, generationJob]);
+
+  const handleCancelGeneration = async () => {
+    if (!generationJobId) return;
+    const res = await apiPost(`/api/payroll/jobs/${generationJobId}/cancel`);
+    if (!res.ok) {
+      toastApiError(res as any, t('payroll.generationCancelFailed','Failed to cancel payroll generation'));
+    }
+  };
+
+  const generationProgress = generationJobId
+    ? {
+        phase: generationJob?.phase ?? null,
+        processed: generationJob?.processed ?? 0,
+        total: generationJob?.total ?? 0,
+      }
+    : undefined;
+  const isGenerating = generatePayrollMutation.isPending || Boolean(generationJobId);
+
   const deletePayrollMutation = useMutation({
     mutationFn: async (payrollId: string) => {
       const res = await apiDelete(`/api/payroll/${payrollId}`);
@@ -256,21 +362,23 @@ export default function Payroll() {
     },
   });
 
-  const updatePayrollStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: PayrollRun["status"] }) => {
-      const res = await apiPut(`/api/payroll/${id}`, { status });
+  const payrollTransitionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: PayrollRunAction }) => {
+      const res = await apiPost(`/api/payroll/${id}/${action}`, {});
       if (!res.ok) throw res;
       const data = res.data as PayrollRun | undefined;
-      return { id, status, data };
+      return { id, action, data };
     },
-    onSuccess: ({ id, status }) => {
+    onSuccess: ({ id, action }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/payroll"] });
       queryClient.invalidateQueries({ queryKey: ["/api/payroll", id] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       const description =
-        status === "completed"
-          ? t('payroll.publishSuccess','Payroll run published successfully')
-          : status === "cancelled"
+        action === "submit"
+          ? t('payroll.submitSuccess','Payroll run submitted for approval')
+          : action === "approve"
+          ? t('payroll.approveSuccess','Payroll run approved')
+          : action === "cancel"
           ? t('payroll.cancelSuccess','Payroll run cancelled')
           : t('payroll.statusUpdated','Payroll status updated');
       toast({ title: t('common.success','Success'), description });
@@ -280,9 +388,45 @@ export default function Payroll() {
     },
   });
 
-  const handleGeneratePayroll = (data: PayrollGenerateRequest) => {
+  const voidPayrollMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const res = await apiPost(`/api/payroll/${id}/void`, { reason });
+      if (!res.ok) throw res;
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setPayrollToVoid(null);
+      setVoidReason("");
+      toast({
+        title: t('common.success','Success'),
+        description: t('payroll.voidSuccess','Payroll run voided and a reversal run was recorded'),
+      });
+    },
+    onError: (err) => {
+      toastApiError(err as any, t('payroll.voidFailed','Failed to void payroll run'));
+    },
+  });
+
+  const handleVoidOpenChange = (open: boolean) => {
+    if (!open) {
+      setPayrollToVoid(null);
+      setVoidReason("");
+    }
+  };
+
+  const handleGeneratePayroll = (payload: PayrollGenerateRequest) => {
+    const data = activeCompanyId ? { ...payload, companyId: activeCompanyId } : payload;
+    // Off-cycle runs are allowed to share a period with the regular run.
+    if (data.runType && data.runType !== "regular") {
+      generatePayrollMutation.mutate(data);
+      return;
+    }
     const calendarKey = data.calendarId ?? "default";
-    const exists = payrollRuns?.some(
+    const exists = companyRuns?.some(
       run => run.period === data.period && (run.calendarId ?? "default") === calendarKey,
     );
     if (exists) {
@@ -316,10 +460,13 @@ export default function Payroll() {
     }
   };
 
-  const handleUpdatePayrollStatus = (id: string, status: PayrollRun["status"]) => {
-    updatePayrollStatusMutation.mutate({ id, status });
+  const handlePayrollTransition = (id: string, action: PayrollRunAction) => {
+    payrollTransitionMutation.mutate({ id, action });
   };
 
+  const isTransitioning = (id: string) =>
+    payrollTransitionMutation.isPending && payrollTransitionMutation.variables?.id === id;
+
   const handleDeletePayroll = useCallback(
     async (payrollId: string) => {
       setPayrollToDelete(payrollId);
@@ -410,14 +557,16 @@ export default function Payroll() {
   };
 
   const handleDownloadArtifact = useCallback(
-    (artifact: PayrollExportArtifact) => {
+    async (payrollId: string, artifact: PayrollExportArtifact) => {
       try {
-        const binary = atob(artifact.data);
-        const bytes = new Uint8Array(binary.length);
-        for (let index = 0; index < binary.length; index++) {
-          bytes[index] = binary.charCodeAt(index);
+        const response = await fetch(
+          `/api/payroll/${payrollId}/exports/${artifact.fileId ?? artifact.id}`,
+          { credentials: "include" },
+        );
+        if (!response.ok) {
+          throw new Error(await response.text());
         }
-        const blob = new Blob([bytes], { type: artifact.mimeType });
+        const blob = await response.blob();
         const url = URL.createObjectURL(blob);
         const link = document.createElement("a");
         link.href = url;
@@ -484,22 +633,26 @@ export default function Payroll() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'completed':
+      case 'approved':
+      case 'paid':
         return 'bg-success text-white';
+      case 'locked':
+        return 'bg-slate-700 text-white';
       case 'draft':
         return 'bg-blue-200 text-blue-900 dark:bg-blue-900/60 dark:text-blue-100';
-      case 'pending':
+      case 'submitted':
         return 'bg-warning text-white';
       case 'cancelled':
+      case 'voided':
         return 'bg-destructive text-white';
       default:
         return 'bg-secondary text-secondary-foreground';
     }
   };
 
-    const totalPayroll = payrollRuns?.reduce((sum, run) => sum + parseFloat(run.grossAmount), 0) || 0;
-  const completedRuns = payrollRuns?.filter(run => run.status === 'completed').length || 0;
-  const pendingRuns = payrollRuns?.filter(run => run.status === 'pending').length || 0;
+    const totalPayroll = companyRuns?.reduce((sum, run) => sum + parseFloat(run.grossAmount), 0) || 0;
+  const completedRuns = companyRuns?.filter(run => FROZEN_RUN_STATUSES.has(run.status)).length || 0;
+  const pendingRuns = companyRuns?.filter(run => run.status === 'submitted').length || 0;
 
   const deleteDialogDescription = isCheckingLoanStatus
     ? t('payroll.checkingLoanDeductions','Checking payroll for loan deductions...')
@@ -565,7 +718,7 @@ export default function Payroll() {
                       </div>
                     </div>
                     <div className="ml-4">
-                      <p className="text-sm font-medium text-muted-foreground">{t('payroll.pendingRuns','Pending Runs')}</p>
+                      <p className="text-sm font-medium text-muted-foreground">{t('payroll.awaitingApproval','Awaiting Approval')}</p>
                       <p className="text-2xl font-semibold text-foreground">{pendingRuns}</p>
                     </div>
                   </div>
@@ -579,31 +732,79 @@ export default function Payroll() {
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-lg font-medium text-foreground">{t('payroll.history','Payroll History')}</CardTitle>
                   
-                  <Dialog open={isGenerateDialogOpen} onOpenChange={setIsGenerateDialogOpen}>
-                    <DialogTrigger asChild>
-                      <Button variant="success" disabled={!canGenerate}>
-                        <Calculator className="mr-2" size={16} />
-                        {t('payroll.generate','Generate Payroll')}
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
-                      <DialogHeader>
-                        <DialogTitle>{t('payroll.generateNew','Generate New Payroll')}</DialogTitle>
-                      </DialogHeader>
-                      <PayrollGenerationWizard
-                        onSubmit={handleGeneratePayroll}
-                        isSubmitting={generatePayrollMutation.isPending}
-                        canGenerate={canGenerate}
-                        calendars={companyConfig?.payrollCalendars ?? []}
-                        frequencies={companyConfig?.payrollFrequencies ?? []}
-                        exportFormats={companyConfig?.payrollExportFormats ?? []}
-                      />
-                    </DialogContent>
-                  </Dialog>
+                  <div className="flex items-center gap-2">
+                    {hasMultipleCompanies && (
+                      <Select
+                        value={activeCompanyId ?? ""}
+                        onValueChange={value => setSelectedCompanyId(value)}
+                      >
+                        <SelectTrigger
+                          className="w-[200px]"
+                          aria-label={t('payroll.company','Company')}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {companies.map(company => (
+                            <SelectItem key={company.id} value={company.id}>
+                              {company.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Dialog open={isOffCycleDialogOpen} onOpenChange={setIsOffCycleDialogOpen}>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" disabled={!canGenerate}>
+                          <Banknote className="mr-2" size={16} />
+                          {t('payroll.offCycle','Off-cycle run')}
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>{t('payroll.offCycleTitle','Generate Off-cycle Payroll')}</DialogTitle>
+                          <DialogDescription>
+                            {t('payroll.offCycleDescription','Pay bonuses or corrections to selected employees outside the regular run.')}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <OffCycleRunForm
+                          companyId={activeCompanyId}
+                          onSubmit={handleGeneratePayroll}
+                          onCancel={() => setIsOffCycleDialogOpen(false)}
+                          isSubmitting={isGenerating}
+                        />
+                      </DialogContent>
+                    </Dialog>
+                    <Dialog open={isGenerateDialogOpen} onOpenChange={setIsGenerateDialogOpen}>
+                      <DialogTrigger asChild>
+                        <Button variant="success" disabled={!canGenerate}>
+                          <Calculator className="mr-2" size={16} />
+                          {t('payroll.generate','Generate Payroll')}
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>{t('payroll.generateNew','Generate New Payroll')}</DialogTitle>
+                        </DialogHeader>
+                        <PayrollGenerationWizard
+                          key={activeCompany?.id}
+                          companyId={activeCompanyId}
+                          onSubmit={handleGeneratePayroll}
+                          isSubmitting={isGenerating}
+                          progress={generationProgress}
+                          onCancelGeneration={handleCancelGeneration}
+                          canGenerate={canGenerate}
+                          calendars={activeCompany?.payrollCalendars ?? []}
+                          frequencies={activeCompany?.payrollFrequencies ?? []}
+                          exportFormats={activeCompany?.payrollExportFormats ?? []}
+                        />
+                      </DialogContent>
+                    </Dialog>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
-                {!payrollRuns || payrollRuns.length === 0 ? (
+                {!companyRuns || companyRuns.length === 0 ? (
                   <div className="py-12 text-center text-muted-foreground">
                     <Calculator className="mx-auto h-12 w-12 text-muted-foreground/60" />
                     <h3 className="mt-2 text-sm font-medium text-foreground">No payroll runs</h3>
@@ -621,12 +822,16 @@ export default function Payroll() {
                             <DialogTitle>Generate New Payroll</DialogTitle>
                           </DialogHeader>
                           <PayrollGenerationWizard
+                            key={activeCompany?.id}
+                            companyId={activeCompanyId}
                             onSubmit={handleGeneratePayroll}
-                            isSubmitting={generatePayrollMutation.isPending}
+                            isSubmitting={isGenerating}
+                            progress={generationProgress}
+                            onCancelGeneration={handleCancelGeneration}
                             canGenerate={canGenerate}
-                            calendars={companyConfig?.payrollCalendars ?? []}
-                            frequencies={companyConfig?.payrollFrequencies ?? []}
-                            exportFormats={companyConfig?.payrollExportFormats ?? []}
+                            calendars={activeCompany?.payrollCalendars ?? []}
+                            frequencies={activeCompany?.payrollFrequencies ?? []}
+                            exportFormats={activeCompany?.payrollExportFormats ?? []}
                           />
                         </DialogContent>
                       </Dialog>
@@ -658,10 +863,17 @@ export default function Payroll() {
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-border bg-card">
-                        {payrollRuns.map((payroll) => (
+                        {companyRuns.map((payroll) => (
                           <tr key={payroll.id} className="hover:bg-accent/40">
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
-                              <div className="font-medium">{payroll.period}</div>
+                              <div className="flex items-center gap-2 font-medium">
+                                {payroll.period}
+                                {payroll.runType && payroll.runType !== "regular" && (
+                                  <Badge variant="outline" className="capitalize">
+                                    {payroll.runType.replace(/_/g, " ")}
+                                  </Badge>
+                                )}
+                              </div>
                               <div className="text-xs text-muted-foreground">
                                 {(payroll.cycleLabel ?? t('payroll.defaultCycle','Default cycle'))} ·{' '}
                                 {payroll.scenarioKey ?? 'baseline'}
@@ -684,34 +896,93 @@ export default function Payroll() {
                             <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                               <div className="flex flex-wrap items-center justify-end gap-2">
                                 {payroll.status === "draft" && (
+                                  <Button
+                                    variant="success"
+                                    size="sm"
+                                    onClick={() => handlePayrollTransition(payroll.id, "submit")}
+                                    disabled={isTransitioning(payroll.id)}
+                                  >
+                                    <Send className="mr-1" size={14} />
+                                    {t('payroll.submitRun','Submit')}
+                                  </Button>
+                                )}
+                                {payroll.status === "submitted" && canApprove && (
                                   <>
                                     <Button
                                       variant="success"
                                       size="sm"
-                                      onClick={() => handleUpdatePayrollStatus(payroll.id, "completed")}
-                                      disabled={
-                                        updatePayrollStatusMutation.isPending &&
-                                        updatePayrollStatusMutation.variables?.id === payroll.id
+                                      onClick={() => handlePayrollTransition(payroll.id, "approve")}
+                                      disabled={isTransitioning(payroll.id) || payroll.createdBy === user?.id}
+                                      title={
+                                        payroll.createdBy === user?.id
+                                          ? t('payroll.selfApprovalBlocked','You cannot approve a run you generated')
+                                          : undefined
                                       }
                                     >
                                       <CheckCircle2 className="mr-1" size={14} />
-                                      {t('payroll.publish','Publish')}
+                                      {t('payroll.approveRun','Approve')}
+                                    </Button>
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => handlePayrollTransition(payroll.id, "reject")}
+                                      disabled={isTransitioning(payroll.id)}
+                                    >
+                                      <Undo2 className="mr-1" size={14} />
+                                      {t('payroll.rejectRun','Reject')}
                                     </Button>
+                                  </>
+                                )}
+                                {payroll.status === "approved" && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handlePayrollTransition(payroll.id, "mark-paid")}
+                                    disabled={isTransitioning(payroll.id)}
+                                  >
+                                    <Banknote className="mr-1" size={14} />
+                                    {t('payroll.markPaid','Mark paid')}
+                                  </Button>
+                                )}
+                                {payroll.status === "paid" && canApprove && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handlePayrollTransition(payroll.id, "lock")}
+                                    disabled={isTransitioning(payroll.id)}
+                                  >
+                                    <Lock className="mr-1" size={14} />
+                                    {t('payroll.lockRun','Lock')}
+                                  </Button>
+                                )}
+                                {canApprove &&
+                                  FROZEN_RUN_STATUSES.has(payroll.status) &&
+                                  payroll.status !== "voided" &&
+                                  payroll.runType !== "reversal" &&
+                                  payroll.runType !== "final_settlement" && (
                                     <Button
                                       variant="outline"
                                       size="sm"
                                       className="text-destructive hover:text-destructive focus-visible:ring-destructive"
-                                      onClick={() => handleUpdatePayrollStatus(payroll.id, "cancelled")}
-                                      disabled={
-                                        updatePayrollStatusMutation.isPending &&
-                                        updatePayrollStatusMutation.variables?.id === payroll.id
-                                      }
+                                      onClick={() => setPayrollToVoid(payroll)}
+                                      disabled={voidPayrollMutation.isPending}
                                     >
-                                      <Ban className="mr-1" size={14} />
-                                      {t('payroll.cancelRun','Cancel')}
+                                      <XCircle className="mr-1" size={14} />
+                                      {t('payroll.voidRun','Void')}
                                     </Button>
-                              </>
-                            )}
+                                  )}
+                                {(payroll.status === "draft" || payroll.status === "submitted") && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="text-destructive hover:text-destructive focus-visible:ring-destructive"
+                                    onClick={() => handlePayrollTransition(payroll.id, "cancel")}
+                                    disabled={isTransitioning(payroll.id)}
+                                  >
+                                    <Ban className="mr-1" size={14} />
+                                    {t('payroll.cancelRun','Cancel')}
+                                  </Button>
+                                )}
                             <Button
                               variant="outline"
                               size="sm"
@@ -744,10 +1015,15 @@ export default function Payroll() {
                                           key={artifact.id}
                                           onSelect={(event: Event) => {
                                             event.preventDefault();
-                                            handleDownloadArtifact(artifact);
+                                            void handleDownloadArtifact(payroll.id, artifact);
                                           }}
                                         >
                                           {artifact.filename}
+                                          {artifact.version && artifact.version > 1 && (
+                                            <span className="ml-2 text-xs text-muted-foreground">
+                                              v{artifact.version}
+                                            </span>
+                                          )}
                                         </DropdownMenuItem>
                                       ))}
                                     </DropdownMenuContent>
@@ -773,6 +1049,7 @@ export default function Payroll() {
                                   variant="outline"
                                   size="sm"
                                   onClick={() => handleEditPayroll(payroll.id)}
+                                  disabled={FROZEN_RUN_STATUSES.has(payroll.status)}
                                   className="text-blue-600 hover:text-blue-700"
                                 >
                                   <Edit className="mr-1" size={14} />
@@ -782,7 +1059,7 @@ export default function Payroll() {
                                   variant="outline"
                                   size="sm"
                                   onClick={() => recalcMutation.mutate(payroll.id)}
-                                  disabled={recalcMutation.isPending}
+                                  disabled={recalcMutation.isPending || FROZEN_RUN_STATUSES.has(payroll.status)}
                                   className="text-emerald-700 hover:text-emerald-800"
                                 >
                                   <RefreshCcw className="mr-1" size={14} />
@@ -792,7 +1069,7 @@ export default function Payroll() {
                                   variant="ghost"
                                   size="sm"
                                   onClick={() => handleDeletePayroll(payroll.id)}
-                                  disabled={deletePayrollMutation.isPending}
+                                  disabled={deletePayrollMutation.isPending || FROZEN_RUN_STATUSES.has(payroll.status)}
                                   className="text-red-600 hover:text-red-700"
                                 >
                                   <Trash2 size={16} />
@@ -892,6 +1169,49 @@ export default function Payroll() {
                 </DialogFooter>
               </DialogContent>
             </Dialog>
+            <Dialog open={payrollToVoid !== null} onOpenChange={handleVoidOpenChange}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{t('payroll.voidTitle','Void Payroll Run')}</DialogTitle>
+                  <DialogDescription>
+                    {t(
+                      'payroll.voidDesc',
+                      'A reversal run negating every entry of {{period}} will be recorded. Loan balances and one-time events are restored so the period can be run again.',
+                      { period: payrollToVoid?.period ?? '' },
+                    )}
+                  </DialogDescription>
+                </DialogHeader>
+                <Textarea
+                  value={voidReason}
+                  onChange={e => setVoidReason(e.target.value)}
+                  placeholder={t('payroll.voidReason','Reason for voiding this run')}
+                  aria-label={t('payroll.voidReason','Reason for voiding this run')}
+                />
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleVoidOpenChange(false)}
+                    disabled={voidPayrollMutation.isPending}
+                  >
+                    {t('common.cancel','Cancel')}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={() =>
+                      payrollToVoid &&
+                      voidPayrollMutation.mutate({ id: payrollToVoid.id, reason: voidReason.trim() })
+                    }
+                    disabled={voidPayrollMutation.isPending || voidReason.trim().length < 3}
+                  >
+                    {voidPayrollMutation.isPending
+                      ? t('payroll.voiding','Voiding...')
+                      : t('payroll.voidRun','Void')}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
     </div>
   );
 }
@@ -100,6 +100,7 @@ type SalaryTrend = { period: string; netPay: number; change: number };
 import { openPdf, buildEmployeeReport, buildEmployeeHistoryReport } from "@/lib/pdf";
 type PayrollByDepartment = { period: string; departmentId: string | null; departmentName?: string | null; totals: { grossPay: number; netPay: number } };
 import { sanitizeImageSrc } from "@/lib/sanitizeImageSrc";
+import PayrollForecastPanel from "@/components/payroll/payroll-forecast-panel";
 
 type EmployeeReportPeriod = {
   period: string;
@@ -595,7 +596,7 @@ export default function Reports() {
       </div>
 
       <Tabs defaultValue="employee-history" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-8">
+        <TabsList className="grid w-full grid-cols-9">
           <TabsTrigger value="employee-history" className="flex items-center gap-2">
             <History className="h-4 w-4" />
             {t('reportsPage.employeeHistory','Employee History')}
@@ -620,6 +621,10 @@ export default function Reports() {
             <Users className="h-4 w-4" />
             {t('reports.byDepartment','By Department')}
           </TabsTrigger>
+          <TabsTrigger value="payroll-forecast" className="flex items-center gap-2">
+            <TrendingUp className="h-4 w-4" />
+            {t('reports.forecast','Forecast')}
+          </TabsTrigger>
           <TabsTrigger value="asset-usage" className="flex items-center gap-2">
             <Users className="h-4 w-4" />
             {t('reports.assetUsage','Asset Usage')}
@@ -968,6 +973,10 @@ export default function Reports() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="payroll-forecast" className="space-y-6">
+          <PayrollForecastPanel departmentId={selectedDepartment} />
+        </TabsContent>
+
         <TabsContent value="salary-reports" className="space-y-6">
           <Card>
             <CardHeader>
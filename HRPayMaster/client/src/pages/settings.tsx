@@ -9,7 +9,19 @@ import { apiDelete, apiGet, apiPost, apiPut } from "@/lib/http";
 import { defaultTemplates } from "@/lib/default-templates";
 import { useToast } from "@/hooks/use-toast";
 import { Checkbox } from "@/components/ui/checkbox";
-import type { EmployeeCustomField } from "@shared/schema";
+import {
+  loanInterestMethods,
+  payrollJournalComponents,
+  type Company,
+  type CompanyHoliday,
+  type CompanyHolidayKind,
+  type Department,
+  type EmployeeCustomField,
+  type GlAccountMapping,
+  type LoanInterestMethod,
+  type LoanPolicy,
+  type PayrollJournalComponent,
+} from "@shared/schema";
 
 export default function Settings() {
   const { t } = useTranslation();
@@ -27,11 +39,34 @@ export default function Settings() {
   const [currencyCode, setCurrencyCode] = useState('');
   const [locale, setLocale] = useState('');
   const [useAttendance, setUseAttendance] = useState<boolean>(false);
+  const [overtimeRates, setOvertimeRates] = useState({
+    normalDayRate: '1.25',
+    restDayRate: '1.5',
+    publicHolidayRate: '2',
+    hoursPerDay: '8',
+  });
+  const [maxDeductionPercent, setMaxDeductionPercent] = useState('');
+  const [salaryAdvanceMaxPercent, setSalaryAdvanceMaxPercent] = useState('');
+  const [healthInsurancePremium, setHealthInsurancePremium] = useState('');
   useEffect(() => {
     if (company && typeof company.useAttendanceForDeductions === 'boolean') {
       setUseAttendance(Boolean(company.useAttendanceForDeductions));
     }
+    if (company?.overtimeRates) {
+      const rates = company.overtimeRates;
+      setOvertimeRates({
+        normalDayRate: String(rates.normalDayRate ?? 1.25),
+        restDayRate: String(rates.restDayRate ?? 1.5),
+        publicHolidayRate: String(rates.publicHolidayRate ?? 2),
+        hoursPerDay: String(rates.hoursPerDay ?? 8),
+      });
+    }
+    setMaxDeductionPercent(company?.maxDeductionPercent ? String(Number(company.maxDeductionPercent)) : '');
+    setSalaryAdvanceMaxPercent(company?.salaryAdvanceMaxPercent ? String(Number(company.salaryAdvanceMaxPercent)) : '');
+    setHealthInsurancePremium(company?.healthInsurancePremium ? String(Number(company.healthInsurancePremium)) : '');
   }, [company]);
+  const updateOvertimeRate = (key: keyof typeof overtimeRates) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setOvertimeRates(prev => ({ ...prev, [key]: e.target.value }));
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const update = useMutation({
@@ -45,6 +80,19 @@ export default function Settings() {
       if (website) payload.website = website;
       if (address) payload.address = address;
       payload.useAttendanceForDeductions = useAttendance;
+      const rate = (value: string, fallback: number) => {
+        const parsed = Number.parseFloat(value);
+        return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+      };
+      payload.overtimeRates = {
+        normalDayRate: rate(overtimeRates.normalDayRate, 1.25),
+        restDayRate: rate(overtimeRates.restDayRate, 1.5),
+        publicHolidayRate: rate(overtimeRates.publicHolidayRate, 2),
+        hoursPerDay: rate(overtimeRates.hoursPerDay, 0) || 8,
+      };
+      payload.maxDeductionPercent = maxDeductionPercent.trim() ? maxDeductionPercent.trim() : null;
+      if (salaryAdvanceMaxPercent.trim()) payload.salaryAdvanceMaxPercent = salaryAdvanceMaxPercent.trim();
+      payload.healthInsurancePremium = healthInsurancePremium.trim() ? healthInsurancePremium.trim() : null;
       const currency = (currencyCode || company?.currencyCode || 'KWD').trim().toUpperCase();
       if (currency) {
         payload.currencyCode = currency;
@@ -131,6 +179,70 @@ export default function Settings() {
                 onChange={e=>setLocale(e.target.value)}
               />
             </div>
+            <div className="space-y-2 md:col-span-2">
+              <div className="text-sm font-medium">{t('settings.overtimeRates','Overtime rates (multiples of the hourly rate)')}</div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <label className="text-sm">{t('settings.overtimeNormalDay','Normal day')}</label>
+                  <Input type="number" step="0.05" min="0" value={overtimeRates.normalDayRate} onChange={updateOvertimeRate('normalDayRate')} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm">{t('settings.overtimeRestDay','Rest day')}</label>
+                  <Input type="number" step="0.05" min="0" value={overtimeRates.restDayRate} onChange={updateOvertimeRate('restDayRate')} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm">{t('settings.overtimePublicHoliday','Public holiday')}</label>
+                  <Input type="number" step="0.05" min="0" value={overtimeRates.publicHolidayRate} onChange={updateOvertimeRate('publicHolidayRate')} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm">{t('settings.overtimeHoursPerDay','Hours per day')}</label>
+                  <Input type="number" step="0.5" min="1" value={overtimeRates.hoursPerDay} onChange={updateOvertimeRate('hoursPerDay')} />
+                </div>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">{t('settings.maxDeductionPercent','Maximum deductions (% of gross pay)')}</label>
+              <Input
+                type="number"
+                step="0.5"
+                min="0"
+                max="100"
+                placeholder={t('settings.noDeductionCap','No cap')}
+                value={maxDeductionPercent}
+                onChange={e=>setMaxDeductionPercent(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('settings.maxDeductionHint','Court orders, loans and penalties above this share are carried forward to the next payroll.')}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">{t('settings.salaryAdvanceMaxPercent','Salary advance limit (% of salary earned so far)')}</label>
+              <Input
+                type="number"
+                step="0.5"
+                min="1"
+                max="100"
+                placeholder="50"
+                value={salaryAdvanceMaxPercent}
+                onChange={e=>setSalaryAdvanceMaxPercent(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('settings.salaryAdvanceMaxPercentHint','Advances are recovered in full by the next payroll run.')}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">{t('settings.healthInsurancePremium','Health insurance premium (monthly, per employee)')}</label>
+              <Input
+                type="number"
+                step="0.001"
+                min="0"
+                value={healthInsurancePremium}
+                onChange={e=>setHealthInsurancePremium(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('settings.healthInsurancePremiumHint','Recorded as an employer cost on each payroll entry; it does not reduce net pay.')}
+              </p>
+            </div>
             <div className="space-y-1 md:col-span-2">
               <label className="text-sm">{t('settings.address','Address')}</label>
               <Input placeholder={company?.address || '123 Main St, City, Country'} value={address} onChange={e=>setAddress(e.target.value)} />
@@ -140,6 +252,12 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      <HolidaysCard />
+
+      <GlAccountMappingsCard />
+
+      <LoanPoliciesCard />
+
       <CustomFieldsCard />
 
       <UsersCard />
@@ -439,6 +557,741 @@ function UsersCard() {
   );
 }
 
+const HIJRI_MONTHS = [
+  "Muharram",
+  "Safar",
+  "Rabi al-Awwal",
+  "Rabi al-Thani",
+  "Jumada al-Awwal",
+  "Jumada al-Thani",
+  "Rajab",
+  "Shaban",
+  "Ramadan",
+  "Shawwal",
+  "Dhu al-Qadah",
+  "Dhu al-Hijjah",
+];
+
+interface HolidayOccurrence {
+  holidayId: string;
+  name: string;
+  date: string;
+  confirmed: boolean;
+}
+
+const emptyHoliday = {
+  name: "",
+  arabicName: "",
+  kind: "one_off" as CompanyHolidayKind,
+  date: "",
+  hijriMonth: "10",
+  hijriDay: "1",
+  durationDays: "1",
+};
+
+function HolidaysCard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState(emptyHoliday);
+  const [confirmDates, setConfirmDates] = useState<Record<string, string>>({});
+  const year = new Date().getFullYear();
+
+  const { data: holidays = [], isLoading } = useQuery<CompanyHoliday[]>({ queryKey: ["/api/holidays"] });
+  const { data: calendar = [] } = useQuery<HolidayOccurrence[]>({
+    queryKey: [`/api/holidays/calendar?start=${year}-01-01&end=${year}-12-31`],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith("/api/holidays"),
+    });
+  };
+
+  const onError = (fallback: string) => (err: any) => {
+    toast({
+      title: t("errors.errorTitle", "Error"),
+      description: err?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createHoliday = useMutation({
+    mutationFn: async () => {
+      const payload: Record<string, unknown> = {
+        name: draft.name.trim(),
+        arabicName: draft.arabicName.trim() || null,
+        kind: draft.kind,
+        durationDays: Number.parseInt(draft.durationDays, 10) || 1,
+      };
+      if (draft.kind === "hijri") {
+        payload.hijriMonth = Number.parseInt(draft.hijriMonth, 10);
+        payload.hijriDay = Number.parseInt(draft.hijriDay, 10);
+      } else {
+        payload.date = draft.date;
+      }
+      const res = await apiPost("/api/holidays", payload);
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to add holiday");
+      }
+      return res.data as CompanyHoliday;
+    },
+    onSuccess: () => {
+      setDraft(emptyHoliday);
+      invalidate();
+      toast({ title: t("settings.holidayAdded", "Holiday added") });
+    },
+    onError: onError(t("settings.holidayAddFailed", "Could not add holiday")),
+  });
+
+  const confirmHoliday = useMutation({
+    mutationFn: async ({ id, date }: { id: string; date: string }) => {
+      const res = await apiPost(`/api/holidays/${id}/confirm`, { date });
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to confirm holiday");
+      }
+      return res.data as CompanyHoliday;
+    },
+    onSuccess: (_, { id }) => {
+      setConfirmDates(prev => ({ ...prev, [id]: "" }));
+      invalidate();
+      toast({ title: t("settings.holidayConfirmed", "Holiday date confirmed") });
+    },
+    onError: onError(t("settings.holidayConfirmFailed", "Could not confirm holiday")),
+  });
+
+  const deleteHoliday = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiDelete(`/api/holidays/${id}`);
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to delete holiday");
+      }
+      return id;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("settings.holidayDeleted", "Holiday deleted") });
+    },
+    onError: onError(t("settings.holidayDeleteFailed", "Could not delete holiday")),
+  });
+
+  const describeHoliday = (holiday: CompanyHoliday) => {
+    if (holiday.kind === "hijri") {
+      return `${holiday.hijriDay} ${HIJRI_MONTHS[(holiday.hijriMonth ?? 1) - 1]} (${t("settings.holidayHijri", "Hijri")})`;
+    }
+    const date = holiday.date ?? "";
+    return holiday.kind === "annual"
+      ? `${date.slice(5)} (${t("settings.holidayAnnual", "every year")})`
+      : date;
+  };
+
+  const canAdd =
+    draft.name.trim() !== "" && (draft.kind === "hijri" ? draft.hijriMonth && draft.hijriDay : draft.date);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("settings.holidaysTitle", "Public Holidays")}</CardTitle>
+        <CardDescription>
+          {t(
+            "settings.holidaysDescription",
+            "Holidays are left out of leave balances, schedules and attendance alerts, and overtime on them is paid at the public holiday rate.",
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-6 md:items-end">
+          <div className="space-y-1 md:col-span-2">
+            <label className="text-sm text-muted-foreground">{t("settings.holidayName", "Name")}</label>
+            <Input value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.holidayArabicName", "Arabic name")}</label>
+            <Input
+              dir="rtl"
+              value={draft.arabicName}
+              onChange={e => setDraft(prev => ({ ...prev, arabicName: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.holidayKind", "Type")}</label>
+            <select
+              className="border rounded px-2 py-2 w-full bg-background"
+              value={draft.kind}
+              onChange={e => setDraft(prev => ({ ...prev, kind: e.target.value as CompanyHolidayKind }))}
+            >
+              <option value="one_off">{t("settings.holidayOneOff", "One-off")}</option>
+              <option value="annual">{t("settings.holidayAnnualOption", "Annual")}</option>
+              <option value="hijri">{t("settings.holidayHijri", "Hijri")}</option>
+            </select>
+          </div>
+          {draft.kind === "hijri" ? (
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                className="border rounded px-2 py-2 w-full bg-background"
+                value={draft.hijriMonth}
+                onChange={e => setDraft(prev => ({ ...prev, hijriMonth: e.target.value }))}
+              >
+                {HIJRI_MONTHS.map((month, index) => (
+                  <option key={month} value={String(index + 1)}>{month}</option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                min="1"
+                max="30"
+                value={draft.hijriDay}
+                onChange={e => setDraft(prev => ({ ...prev, hijriDay: e.target.value }))}
+              />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <label className="text-sm text-muted-foreground">{t("settings.holidayDate", "Date")}</label>
+              <Input type="date" value={draft.date} onChange={e => setDraft(prev => ({ ...prev, date: e.target.value }))} />
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min="1"
+              max="14"
+              className="w-20"
+              aria-label={t("settings.holidayDuration", "Days")}
+              value={draft.durationDays}
+              onChange={e => setDraft(prev => ({ ...prev, durationDays: e.target.value }))}
+            />
+            <Button type="button" onClick={() => createHoliday.mutate()} disabled={createHoliday.isPending || !canAdd}>
+              {t("settings.addHoliday", "Add")}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t("settings.loadingHolidays", "Loading holidays...")}</p>
+        ) : holidays.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("settings.noHolidays", "No holidays defined yet.")}</p>
+        ) : (
+          <div className="space-y-2">
+            {holidays.map(holiday => {
+              const upcoming = calendar.filter(occurrence => occurrence.holidayId === holiday.id);
+              const estimated = upcoming.some(occurrence => !occurrence.confirmed);
+              return (
+                <div
+                  key={holiday.id}
+                  className="flex flex-col gap-2 rounded-md border border-border p-3 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div>
+                    <div className="font-medium">
+                      {holiday.name}
+                      {holiday.arabicName ? <span className="ml-2 text-muted-foreground" dir="rtl">{holiday.arabicName}</span> : null}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {describeHoliday(holiday)}
+                      {holiday.durationDays > 1 ? ` · ${holiday.durationDays} ${t("settings.holidayDays", "days")}` : ""}
+                      {upcoming.length > 0 ? ` · ${year}: ${upcoming[0].date}` : ""}
+                      {estimated ? ` (${t("settings.holidayEstimated", "estimated")})` : ""}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {holiday.kind === "hijri" && (
+                      <>
+                        <Input
+                          type="date"
+                          className="w-40"
+                          value={confirmDates[holiday.id] ?? ""}
+                          onChange={e => setConfirmDates(prev => ({ ...prev, [holiday.id]: e.target.value }))}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={confirmHoliday.isPending || !confirmDates[holiday.id]}
+                          onClick={() => confirmHoliday.mutate({ id: holiday.id, date: confirmDates[holiday.id] })}
+                        >
+                          {t("settings.confirmHoliday", "Confirm date")}
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => deleteHoliday.mutate(holiday.id)}
+                      disabled={deleteHoliday.isPending}
+                    >
+                      {t("actions.delete", "Delete")}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const JOURNAL_COMPONENT_LABELS: Record<PayrollJournalComponent, string> = {
+  basic_salary: "Basic salary",
+  allowances: "Allowances",
+  bonus: "Bonuses",
+  overtime: "Overtime",
+  retro_pay: "Retro pay",
+  net_pay: "Net salaries payable",
+  tax: "Tax payable",
+  social_security: "Social security payable",
+  health_insurance: "Health insurance payable",
+  loan_recovery: "Employee loans",
+  advance_recovery: "Salary advances",
+  other_deductions: "Other deductions",
+  accrued_payroll: "Accrued payroll",
+};
+
+const emptyGlMapping = {
+  component: "basic_salary" as PayrollJournalComponent,
+  departmentId: "",
+  costCenter: "",
+  accountCode: "",
+  accountName: "",
+};
+
+function GlAccountMappingsCard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState(emptyGlMapping);
+
+  const { data: mappings = [], isLoading } = useQuery<GlAccountMapping[]>({ queryKey: ["/api/payroll/gl-mappings"] });
+  const { data: departments = [] } = useQuery<Department[]>({ queryKey: ["/api/departments"] });
+  const departmentNames = new Map(departments.map(department => [department.id, department.name]));
+
+  const onError = (fallback: string) => (err: any) => {
+    toast({
+      title: t("errors.errorTitle", "Error"),
+      description: err?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMapping = useMutation({
+    mutationFn: async () => {
+      const res = await apiPost("/api/payroll/gl-mappings", {
+        component: draft.component,
+        departmentId: draft.departmentId || null,
+        costCenter: draft.costCenter.trim() || null,
+        accountCode: draft.accountCode.trim(),
+        accountName: draft.accountName.trim() || null,
+      });
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to add GL mapping");
+      }
+      return res.data as GlAccountMapping;
+    },
+    onSuccess: () => {
+      setDraft(emptyGlMapping);
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll/gl-mappings"] });
+      toast({ title: t("settings.glMappingAdded", "GL mapping added") });
+    },
+    onError: onError(t("settings.glMappingAddFailed", "Could not add GL mapping")),
+  });
+
+  const deleteMapping = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiDelete(`/api/payroll/gl-mappings/${id}`);
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to delete GL mapping");
+      }
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll/gl-mappings"] });
+      toast({ title: t("settings.glMappingDeleted", "GL mapping deleted") });
+    },
+    onError: onError(t("settings.glMappingDeleteFailed", "Could not delete GL mapping")),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("settings.glMappingsTitle", "GL Account Mapping")}</CardTitle>
+        <CardDescription>
+          {t(
+            "settings.glMappingsDescription",
+            "Accounts each payroll component posts to. Department and cost centre mappings override the general account.",
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-6 md:items-end">
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.glComponent", "Component")}</label>
+            <select
+              className="border rounded px-2 py-2 w-full bg-background"
+              value={draft.component}
+              onChange={e => setDraft(prev => ({ ...prev, component: e.target.value as PayrollJournalComponent }))}
+            >
+              {payrollJournalComponents.map(component => (
+                <option key={component} value={component}>{JOURNAL_COMPONENT_LABELS[component]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.glDepartment", "Department")}</label>
+            <select
+              className="border rounded px-2 py-2 w-full bg-background"
+              value={draft.departmentId}
+              onChange={e => setDraft(prev => ({ ...prev, departmentId: e.target.value }))}
+            >
+              <option value="">{t("settings.glAllDepartments", "All departments")}</option>
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.glCostCenter", "Cost center")}</label>
+            <Input value={draft.costCenter} onChange={e => setDraft(prev => ({ ...prev, costCenter: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.glAccountCode", "Account code")}</label>
+            <Input value={draft.accountCode} onChange={e => setDraft(prev => ({ ...prev, accountCode: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.glAccountName", "Account name")}</label>
+            <Input value={draft.accountName} onChange={e => setDraft(prev => ({ ...prev, accountName: e.target.value }))} />
+          </div>
+          <Button
+            type="button"
+            onClick={() => createMapping.mutate()}
+            disabled={createMapping.isPending || draft.accountCode.trim() === ""}
+          >
+            {t("settings.addGlMapping", "Add")}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t("settings.loadingGlMappings", "Loading mappings...")}</p>
+        ) : mappings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("settings.noGlMappings", "No accounts mapped yet. Journal lines stay unmapped until they are.")}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {mappings.map(mapping => (
+              <div
+                key={mapping.id}
+                className="flex flex-col gap-2 rounded-md border border-border p-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div>
+                  <div className="font-medium">
+                    {JOURNAL_COMPONENT_LABELS[mapping.component as PayrollJournalComponent] ?? mapping.component}
+                    {" → "}
+                    {mapping.accountCode}
+                    {mapping.accountName ? ` ${mapping.accountName}` : ""}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {mapping.departmentId
+                      ? departmentNames.get(mapping.departmentId) ?? mapping.departmentId
+                      : t("settings.glAllDepartments", "All departments")}
+                    {mapping.costCenter ? ` · ${mapping.costCenter}` : ""}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => deleteMapping.mutate(mapping.id)}
+                  disabled={deleteMapping.isPending}
+                >
+                  {t("actions.delete", "Delete")}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const INTEREST_METHOD_LABELS: Record<LoanInterestMethod, string> = {
+  interest_free: "Interest free",
+  reducing_balance: "Reducing balance",
+  flat: "Flat",
+};
+
+const emptyLoanPolicy = {
+  name: "",
+  companyId: "",
+  departmentId: "",
+  maxDeductionPercent: "50",
+  deductionWarningPercent: "35",
+  maxSalaryMultiple: "",
+  minServiceMonths: "",
+  maxActiveLoans: "",
+  maxTermMonths: "",
+  allowedInterestMethods: [...loanInterestMethods] as LoanInterestMethod[],
+  requiredDocumentTypes: "",
+};
+
+const optionalLimit = (value: string) => (value.trim() === "" ? null : value.trim());
+
+function LoanPoliciesCard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState(emptyLoanPolicy);
+
+  const { data: policies = [], isLoading } = useQuery<LoanPolicy[]>({ queryKey: ["/api/loans/policies"] });
+  const { data: companies = [] } = useQuery<Company[]>({ queryKey: ["/api/companies"] });
+  const { data: departments = [] } = useQuery<Department[]>({ queryKey: ["/api/departments"] });
+  const companyNames = new Map(companies.map(company => [company.id, company.name]));
+  const departmentNames = new Map(departments.map(department => [department.id, department.name]));
+
+  const onError = (fallback: string) => (err: any) => {
+    toast({
+      title: t("errors.errorTitle", "Error"),
+      description: err?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createPolicy = useMutation({
+    mutationFn: async () => {
+      const res = await apiPost("/api/loans/policies", {
+        name: draft.name.trim(),
+        companyId: draft.companyId || null,
+        departmentId: draft.departmentId || null,
+        maxDeductionPercent: draft.maxDeductionPercent,
+        deductionWarningPercent: optionalLimit(draft.deductionWarningPercent),
+        maxSalaryMultiple: optionalLimit(draft.maxSalaryMultiple),
+        minServiceMonths: optionalLimit(draft.minServiceMonths),
+        maxActiveLoans: optionalLimit(draft.maxActiveLoans),
+        maxTermMonths: optionalLimit(draft.maxTermMonths),
+        allowedInterestMethods:
+          draft.allowedInterestMethods.length === loanInterestMethods.length ? null : draft.allowedInterestMethods,
+        requiredDocumentTypes: draft.requiredDocumentTypes
+          .split(",")
+          .map(type => type.trim())
+          .filter(Boolean),
+      });
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to add loan policy");
+      }
+      return res.data as LoanPolicy;
+    },
+    onSuccess: () => {
+      setDraft(emptyLoanPolicy);
+      queryClient.invalidateQueries({ queryKey: ["/api/loans/policies"] });
+      toast({ title: t("settings.loanPolicyAdded", "Loan policy added") });
+    },
+    onError: onError(t("settings.loanPolicyAddFailed", "Could not add loan policy")),
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiDelete(`/api/loans/policies/${id}`);
+      if (!res.ok) {
+        throw new Error(res.error || "Failed to delete loan policy");
+      }
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loans/policies"] });
+      toast({ title: t("settings.loanPolicyDeleted", "Loan policy deleted") });
+    },
+    onError: onError(t("settings.loanPolicyDeleteFailed", "Could not delete loan policy")),
+  });
+
+  const toggleInterestMethod = (method: LoanInterestMethod, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      allowedInterestMethods: checked
+        ? loanInterestMethods.filter(item => item === method || prev.allowedInterestMethods.includes(item))
+        : prev.allowedInterestMethods.filter(item => item !== method),
+    }));
+  };
+
+  const limitInput = (key: keyof typeof emptyLoanPolicy, label: string) => (
+    <div className="space-y-1">
+      <label className="text-sm text-muted-foreground">{label}</label>
+      <Input
+        type="number"
+        min="0"
+        value={draft[key] as string}
+        onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+      />
+    </div>
+  );
+
+  const describePolicy = (policy: LoanPolicy) =>
+    [
+      t("settings.loanPolicyDeductionSummary", "Deduction up to {{percent}}% of salary", {
+        percent: Number(policy.maxDeductionPercent),
+      }),
+      policy.maxSalaryMultiple
+        ? t("settings.loanPolicyMultipleSummary", "up to {{multiple}}x salary", {
+            multiple: Number(policy.maxSalaryMultiple),
+          })
+        : null,
+      policy.minServiceMonths !== null
+        ? t("settings.loanPolicyServiceSummary", "{{months}} months of service", { months: policy.minServiceMonths })
+        : null,
+      policy.maxActiveLoans !== null
+        ? t("settings.loanPolicyLoansSummary", "{{count}} open loans", { count: policy.maxActiveLoans })
+        : null,
+      policy.maxTermMonths !== null
+        ? t("settings.loanPolicyTermSummary", "{{months}} month term", { months: policy.maxTermMonths })
+        : null,
+      policy.allowedInterestMethods?.length
+        ? policy.allowedInterestMethods.map(method => INTEREST_METHOD_LABELS[method] ?? method).join("/")
+        : null,
+      policy.requiredDocumentTypes.length > 0
+        ? t("settings.loanPolicyDocumentsSummary", "requires {{documents}}", {
+            documents: policy.requiredDocumentTypes.join(", "),
+          })
+        : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("settings.loanPoliciesTitle", "Loan Policies")}</CardTitle>
+        <CardDescription>
+          {t(
+            "settings.loanPoliciesDescription",
+            "Limits loan requests and approvals are checked against. A department policy overrides its company's, which overrides a policy for all companies.",
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.loanPolicyName", "Name")}</label>
+            <Input value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.loanPolicyCompany", "Company")}</label>
+            <select
+              className="border rounded px-2 py-2 w-full bg-background"
+              value={draft.companyId}
+              onChange={e => setDraft(prev => ({ ...prev, companyId: e.target.value }))}
+            >
+              <option value="">{t("settings.loanPolicyAllCompanies", "All companies")}</option>
+              {companies.map(company => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">{t("settings.loanPolicyDepartment", "Department")}</label>
+            <select
+              className="border rounded px-2 py-2 w-full bg-background"
+              value={draft.departmentId}
+              onChange={e => setDraft(prev => ({ ...prev, departmentId: e.target.value }))}
+            >
+              <option value="">{t("settings.glAllDepartments", "All departments")}</option>
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+          </div>
+          {limitInput("maxDeductionPercent", t("settings.loanPolicyMaxDeduction", "Max deduction (% of salary)"))}
+          {limitInput("deductionWarningPercent", t("settings.loanPolicyWarnDeduction", "Warn above (% of salary)"))}
+          {limitInput("maxSalaryMultiple", t("settings.loanPolicyMaxMultiple", "Max amount (x monthly salary)"))}
+          {limitInput("minServiceMonths", t("settings.loanPolicyMinService", "Min service (months)"))}
+          {limitInput("maxActiveLoans", t("settings.loanPolicyMaxLoans", "Max open loans"))}
+          {limitInput("maxTermMonths", t("settings.loanPolicyMaxTerm", "Max term (months)"))}
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground">
+              {t("settings.loanPolicyInterestMethods", "Allowed interest methods")}
+            </label>
+            <div className="flex flex-wrap gap-3 py-2">
+              {loanInterestMethods.map(method => (
+                <label key={method} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.allowedInterestMethods.includes(method)}
+                    onCheckedChange={checked => toggleInterestMethod(method, checked === true)}
+                  />
+                  {INTEREST_METHOD_LABELS[method]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <label className="text-sm text-muted-foreground">
+              {t("settings.loanPolicyDocuments", "Required document types (comma separated)")}
+            </label>
+            <Input
+              value={draft.requiredDocumentTypes}
+              onChange={e => setDraft(prev => ({ ...prev, requiredDocumentTypes: e.target.value }))}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            onClick={() => createPolicy.mutate()}
+            disabled={
+              createPolicy.isPending || draft.name.trim() === "" || draft.allowedInterestMethods.length === 0
+            }
+          >
+            {t("settings.addLoanPolicy", "Add policy")}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t("settings.loadingLoanPolicies", "Loading policies...")}</p>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t(
+              "settings.noLoanPolicies",
+              "No loan policies yet. Deductions are limited to 50% of salary until one is added.",
+            )}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {policies.map(policy => (
+              <div
+                key={policy.id}
+                className="flex flex-col gap-2 rounded-md border border-border p-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div>
+                  <div className="font-medium">
+                    {policy.name}
+                    <span className="text-xs text-muted-foreground">
+                      {" · "}
+                      {policy.companyId
+                        ? companyNames.get(policy.companyId) ?? policy.companyId
+                        : t("settings.loanPolicyAllCompanies", "All companies")}
+                      {policy.departmentId
+                        ? ` / ${departmentNames.get(policy.departmentId) ?? policy.departmentId}`
+                        : ""}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{describePolicy(policy)}</div>
+                </div>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => deletePolicy.mutate(policy.id)}
+                  disabled={deletePolicy.isPending}
+                >
+                  {t("actions.delete", "Delete")}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function CustomFieldsCard() {
   const { t } = useTranslation();
   const { toast } = useToast();
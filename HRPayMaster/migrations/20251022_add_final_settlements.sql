@@ -0,0 +1,27 @@
+ALTER TABLE "employees"
+  ADD COLUMN IF NOT EXISTS "termination_date" date,
+  ADD COLUMN IF NOT EXISTS "termination_reason" text;
+
+ALTER TABLE "payroll_runs"
+  ADD COLUMN IF NOT EXISTS "run_type" text NOT NULL DEFAULT 'regular';
+
+CREATE TABLE IF NOT EXISTS "final_settlements" (
+    "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+    "employee_id" varchar NOT NULL REFERENCES "employees"("id"),
+    "payroll_run_id" varchar REFERENCES "payroll_runs"("id") ON DELETE SET NULL,
+    "termination_date" date NOT NULL,
+    "termination_reason" text NOT NULL,
+    "service_years" numeric(6, 2) NOT NULL DEFAULT 0,
+    "prorated_salary" numeric(12, 2) NOT NULL DEFAULT 0,
+    "indemnity_amount" numeric(12, 2) NOT NULL DEFAULT 0,
+    "leave_encashment_days" numeric(8, 2) NOT NULL DEFAULT 0,
+    "leave_encashment_amount" numeric(12, 2) NOT NULL DEFAULT 0,
+    "loan_recovery" numeric(12, 2) NOT NULL DEFAULT 0,
+    "gross_amount" numeric(12, 2) NOT NULL DEFAULT 0,
+    "net_amount" numeric(12, 2) NOT NULL DEFAULT 0,
+    "breakdown" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    "created_by" varchar REFERENCES "users"("id"),
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "final_settlements_employee_idx" ON "final_settlements" ("employee_id");
@@ -0,0 +1,41 @@
+ALTER TABLE "payroll_entries"
+  ADD COLUMN IF NOT EXISTS "social_insurance_breakdown" jsonb;
+
+CREATE TABLE IF NOT EXISTS "social_insurance_rates" (
+    "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+    "company_id" varchar REFERENCES "companies"("id") ON DELETE CASCADE,
+    "scheme" text NOT NULL DEFAULT 'pifss',
+    "code" text NOT NULL,
+    "label" text NOT NULL,
+    "nationality_group" text NOT NULL DEFAULT 'kuwaiti',
+    "employee_rate" numeric(6, 3) NOT NULL DEFAULT 0,
+    "employer_rate" numeric(6, 3) NOT NULL DEFAULT 0,
+    "salary_floor" numeric(12, 2),
+    "salary_ceiling" numeric(12, 2),
+    "effective_from" date NOT NULL,
+    "effective_to" date,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "social_insurance_rates_lookup_idx"
+  ON "social_insurance_rates" ("scheme", "nationality_group", "effective_from");
+
+-- Default PIFSS contributions for Kuwaiti nationals. Rates are percentages of
+-- the slice of salary between the floor and ceiling.
+INSERT INTO "social_insurance_rates"
+  ("scheme", "code", "label", "nationality_group", "employee_rate", "employer_rate", "salary_floor", "salary_ceiling", "effective_from")
+SELECT v.scheme, v.code, v.label, v.nationality_group, v.employee_rate, v.employer_rate, v.salary_floor, v.salary_ceiling, v.effective_from
+FROM (
+  VALUES
+    ('pifss', 'basic', 'Basic insurance', 'kuwaiti', 5.000, 11.000, NULL::numeric, 1500.00, DATE '2020-01-01'),
+    ('pifss', 'supplementary', 'Supplementary insurance', 'kuwaiti', 5.000, 6.000, 1500.00, 2750.00, DATE '2020-01-01'),
+    ('pifss', 'unemployment', 'Unemployment insurance', 'kuwaiti', 0.500, 0.000, NULL::numeric, 2750.00, DATE '2020-01-01')
+) AS v (scheme, code, label, nationality_group, employee_rate, employer_rate, salary_floor, salary_ceiling, effective_from)
+WHERE NOT EXISTS (
+  SELECT 1 FROM "social_insurance_rates" r
+  WHERE r."scheme" = v.scheme
+    AND r."code" = v.code
+    AND r."nationality_group" = v.nationality_group
+    AND r."company_id" IS NULL
+);
@@ -0,0 +1,13 @@
+ALTER TABLE "payroll_runs"
+  ADD COLUMN IF NOT EXISTS "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "submitted_at" timestamp,
+  ADD COLUMN IF NOT EXISTS "approved_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "approved_at" timestamp,
+  ADD COLUMN IF NOT EXISTS "paid_at" timestamp,
+  ADD COLUMN IF NOT EXISTS "locked_at" timestamp;
+
+ALTER TABLE "payroll_runs" ALTER COLUMN "status" SET DEFAULT 'draft';
+
+-- Map the previous pending/completed statuses onto the approval lifecycle.
+UPDATE "payroll_runs" SET "status" = 'draft' WHERE "status" = 'pending';
+UPDATE "payroll_runs" SET "status" = 'approved' WHERE "status" = 'completed';
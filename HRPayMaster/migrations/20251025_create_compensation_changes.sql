@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "compensation_changes" (
+    "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+    "employee_id" varchar NOT NULL REFERENCES "employees"("id") ON DELETE CASCADE,
+    "change_type" text NOT NULL DEFAULT 'adjustment',
+    "previous_salary" numeric(10, 2),
+    "salary" numeric(10, 2) NOT NULL,
+    "previous_additions" numeric(10, 2),
+    "additions" numeric(10, 2),
+    "effective_date" date NOT NULL,
+    "reason" text NOT NULL,
+    "approved_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+    "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "compensation_changes_employee_effective_idx"
+  ON "compensation_changes" ("employee_id", "effective_date");
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "payslip_deliveries" (
+    "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+    "payroll_entry_id" varchar NOT NULL REFERENCES "payroll_entries"("id") ON DELETE CASCADE,
+    "payroll_run_id" varchar NOT NULL REFERENCES "payroll_runs"("id") ON DELETE CASCADE,
+    "employee_id" varchar NOT NULL REFERENCES "employees"("id"),
+    "channel" text NOT NULL DEFAULT 'email',
+    "recipient" text,
+    "status" text NOT NULL,
+    "password_protected" boolean NOT NULL DEFAULT true,
+    "error" text,
+    "attempts" integer NOT NULL DEFAULT 1,
+    "sent_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+    "last_attempt_at" timestamp DEFAULT now(),
+    "delivered_at" timestamp
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "payslip_deliveries_entry_idx"
+  ON "payslip_deliveries" ("payroll_entry_id");
+
+CREATE INDEX IF NOT EXISTS "payslip_deliveries_run_idx"
+  ON "payslip_deliveries" ("payroll_run_id");
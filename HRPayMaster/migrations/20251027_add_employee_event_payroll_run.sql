@@ -0,0 +1,4 @@
+ALTER TABLE "employee_events"
+  ADD COLUMN IF NOT EXISTS "payroll_run_id" varchar REFERENCES "payroll_runs"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "employee_events_payroll_run_idx" ON "employee_events" ("payroll_run_id");
@@ -0,0 +1,3 @@
+ALTER TABLE "payroll_entries"
+  ADD COLUMN IF NOT EXISTS "retro_amount" numeric(10, 2) NOT NULL DEFAULT '0',
+  ADD COLUMN IF NOT EXISTS "retro_adjustments" jsonb DEFAULT NULL;
@@ -0,0 +1,3 @@
+ALTER TABLE "payroll_runs"
+  ADD COLUMN IF NOT EXISTS "variance_signed_off_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "variance_signed_off_at" timestamp;
@@ -0,0 +1,10 @@
+ALTER TABLE "payroll_runs"
+  ADD COLUMN IF NOT EXISTS "company_id" varchar REFERENCES "companies"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "payroll_runs_company_idx" ON "payroll_runs" ("company_id");
+
+-- Single-company installs: existing runs belong to that company.
+UPDATE "payroll_runs"
+SET "company_id" = (SELECT "id" FROM "companies" LIMIT 1)
+WHERE "company_id" IS NULL
+  AND (SELECT count(*) FROM "companies") = 1;
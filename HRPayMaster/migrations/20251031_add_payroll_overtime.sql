@@ -0,0 +1,6 @@
+ALTER TABLE "companies"
+  ADD COLUMN IF NOT EXISTS "overtime_rates" jsonb DEFAULT NULL;
+
+ALTER TABLE "payroll_entries"
+  ADD COLUMN IF NOT EXISTS "overtime_amount" numeric(10, 2) NOT NULL DEFAULT '0',
+  ADD COLUMN IF NOT EXISTS "overtime_lines" jsonb DEFAULT NULL;
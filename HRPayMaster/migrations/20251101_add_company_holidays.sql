@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "company_holidays" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "company_id" varchar REFERENCES "companies"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "arabic_name" text,
+  "kind" text NOT NULL DEFAULT 'one_off',
+  "date" date,
+  "hijri_month" integer,
+  "hijri_day" integer,
+  "duration_days" integer NOT NULL DEFAULT 1,
+  "confirmed_dates" jsonb NOT NULL DEFAULT '{}'::jsonb,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "company_holidays_company_idx" ON "company_holidays" ("company_id");
+
+-- Public holidays now come from the holiday calendar.
+UPDATE "companies"
+SET "overtime_rates" = "overtime_rates" - 'publicHolidays'
+WHERE "overtime_rates" ? 'publicHolidays';
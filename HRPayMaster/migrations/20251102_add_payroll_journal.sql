@@ -0,0 +1,17 @@
+ALTER TABLE "departments" ADD COLUMN IF NOT EXISTS "cost_center" text;
+
+ALTER TABLE "payroll_runs" ADD COLUMN IF NOT EXISTS "pay_date" date;
+
+CREATE TABLE IF NOT EXISTS "gl_account_mappings" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "company_id" varchar REFERENCES "companies"("id") ON DELETE CASCADE,
+  "component" text NOT NULL,
+  "department_id" varchar REFERENCES "departments"("id") ON DELETE CASCADE,
+  "cost_center" text,
+  "account_code" text NOT NULL,
+  "account_name" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "gl_account_mappings_company_idx" ON "gl_account_mappings" ("company_id");
@@ -0,0 +1 @@
+ALTER TABLE "payroll_entries" ADD COLUMN IF NOT EXISTS "calculation_trace" jsonb;
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "employee_pay_components" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "employee_id" varchar NOT NULL REFERENCES "employees"("id") ON DELETE CASCADE,
+  "code" text NOT NULL,
+  "name" text NOT NULL,
+  "calculation_type" text NOT NULL DEFAULT 'amount',
+  "amount" numeric(10, 2),
+  "percentage" numeric(5, 2),
+  "insurable" boolean NOT NULL DEFAULT false,
+  "indemnity_eligible" boolean NOT NULL DEFAULT false,
+  "leave_proration" text NOT NULL DEFAULT 'prorate',
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "employee_pay_components_employee_code_idx"
+  ON "employee_pay_components" ("employee_id", "code");
+
+ALTER TABLE "payroll_entries" ADD COLUMN IF NOT EXISTS "pay_components" jsonb;
@@ -0,0 +1,15 @@
+ALTER TABLE "payroll_runs" ADD COLUMN IF NOT EXISTS "reversal_of_run_id" varchar;
+ALTER TABLE "payroll_runs" ADD COLUMN IF NOT EXISTS "void_reason" text;
+ALTER TABLE "payroll_runs" ADD COLUMN IF NOT EXISTS "voided_by" varchar REFERENCES "users"("id") ON DELETE SET NULL;
+ALTER TABLE "payroll_runs" ADD COLUMN IF NOT EXISTS "voided_at" timestamp;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'payroll_runs_reversal_of_run_id_fk'
+  ) THEN
+    ALTER TABLE "payroll_runs"
+      ADD CONSTRAINT "payroll_runs_reversal_of_run_id_fk"
+      FOREIGN KEY ("reversal_of_run_id") REFERENCES "payroll_runs"("id");
+  END IF;
+END $$;
@@ -0,0 +1,2 @@
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "max_deduction_percent" numeric(5, 2);
+ALTER TABLE "payroll_entries" ADD COLUMN IF NOT EXISTS "deduction_carry_forward" jsonb DEFAULT NULL;
@@ -0,0 +1,11 @@
+ALTER TABLE "companies"
+  ADD COLUMN IF NOT EXISTS "health_insurance_premium" numeric(10, 2);
+
+ALTER TABLE "employees"
+  ADD COLUMN IF NOT EXISTS "visa_cost" numeric(10, 2);
+
+ALTER TABLE "payroll_entries"
+  ADD COLUMN IF NOT EXISTS "employer_social_insurance" numeric(10, 2) NOT NULL DEFAULT '0',
+  ADD COLUMN IF NOT EXISTS "employer_health_insurance" numeric(10, 2) NOT NULL DEFAULT '0',
+  ADD COLUMN IF NOT EXISTS "indemnity_accrual" numeric(10, 2) NOT NULL DEFAULT '0',
+  ADD COLUMN IF NOT EXISTS "visa_cost_amortization" numeric(10, 2) NOT NULL DEFAULT '0';
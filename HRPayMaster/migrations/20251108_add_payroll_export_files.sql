@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "payroll_export_files" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "payroll_run_id" varchar NOT NULL REFERENCES "payroll_runs"("id") ON DELETE CASCADE,
+  "artifact_id" text NOT NULL,
+  "version" integer NOT NULL,
+  "type" text NOT NULL,
+  "format" text NOT NULL,
+  "filename" text NOT NULL,
+  "mime_type" text NOT NULL,
+  "storage_key" text NOT NULL,
+  "size_bytes" integer NOT NULL,
+  "checksum" text NOT NULL,
+  "scenario_key" text,
+  "description" text,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "payroll_export_files_run_artifact_version_idx"
+  ON "payroll_export_files" ("payroll_run_id", "artifact_id", "version");
@@ -0,0 +1,22 @@
+ALTER TABLE "loans" ADD COLUMN IF NOT EXISTS "interest_method" text DEFAULT 'reducing_balance' NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "loan_policies" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "company_id" varchar REFERENCES "companies"("id") ON DELETE CASCADE,
+  "department_id" varchar REFERENCES "departments"("id") ON DELETE CASCADE,
+  "max_deduction_percent" numeric(5, 2) DEFAULT '50' NOT NULL,
+  "deduction_warning_percent" numeric(5, 2) DEFAULT '35',
+  "max_salary_multiple" numeric(6, 2),
+  "min_service_months" integer,
+  "max_active_loans" integer,
+  "max_term_months" integer,
+  "allowed_interest_methods" jsonb,
+  "required_document_types" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "loan_policies_scope_idx"
+  ON "loan_policies" ("company_id", "department_id");
@@ -0,0 +1,7 @@
+ALTER TABLE "loan_payments" ALTER COLUMN "payroll_run_id" DROP NOT NULL;
+
+ALTER TABLE "loan_payments" ADD COLUMN IF NOT EXISTS "receipt_number" text;
+ALTER TABLE "loan_payments" ADD COLUMN IF NOT EXISTS "balance_after" numeric(12, 2);
+ALTER TABLE "loan_payments" ADD COLUMN IF NOT EXISTS "reference" text;
+ALTER TABLE "loan_payments" ADD COLUMN IF NOT EXISTS "notes" text;
+ALTER TABLE "loan_payments" ADD COLUMN IF NOT EXISTS "recorded_by" varchar REFERENCES "users"("id") ON DELETE SET NULL;
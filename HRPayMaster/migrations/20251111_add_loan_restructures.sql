@@ -0,0 +1,42 @@
+CREATE TABLE IF NOT EXISTS "loan_restructures" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "loan_id" varchar NOT NULL REFERENCES "loans"("id") ON DELETE CASCADE,
+  "type" text NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "defer_installments" integer,
+  "monthly_deduction" numeric(12, 2),
+  "end_date" date,
+  "reason" text NOT NULL,
+  "previous_monthly_deduction" numeric(12, 2),
+  "previous_end_date" date,
+  "schedule_version" integer,
+  "requested_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "applied_at" timestamp,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "loan_restructures_loan_idx"
+  ON "loan_restructures" ("loan_id");
+
+CREATE TABLE IF NOT EXISTS "loan_schedule_versions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "loan_id" varchar NOT NULL REFERENCES "loans"("id") ON DELETE CASCADE,
+  "version" integer NOT NULL,
+  "restructure_id" varchar REFERENCES "loan_restructures"("id") ON DELETE SET NULL,
+  "monthly_deduction" numeric(12, 2) NOT NULL,
+  "end_date" date,
+  "remaining_amount" numeric(12, 2) NOT NULL,
+  "entries" jsonb NOT NULL,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "loan_schedule_versions_loan_version_idx"
+  ON "loan_schedule_versions" ("loan_id", "version");
+
+ALTER TABLE "loan_approval_stages" ADD COLUMN IF NOT EXISTS "restructure_id" varchar
+  REFERENCES "loan_restructures"("id") ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "loan_approval_stages_restructure_idx"
+  ON "loan_approval_stages" ("restructure_id");
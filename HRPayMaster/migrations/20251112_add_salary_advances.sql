@@ -0,0 +1,34 @@
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "salary_advance_max_percent" numeric(5, 2) DEFAULT '50' NOT NULL;
+
+ALTER TABLE "payroll_entries" ADD COLUMN IF NOT EXISTS "advance_deduction" numeric(10, 2) DEFAULT '0' NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "salary_advances" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "employee_id" varchar NOT NULL REFERENCES "employees"("id"),
+  "amount" numeric(10, 2) NOT NULL,
+  "paid_date" date NOT NULL,
+  "payment_method" text DEFAULT 'cash' NOT NULL,
+  "reference" text,
+  "reason" text,
+  "status" text DEFAULT 'outstanding' NOT NULL,
+  "earned_to_date" numeric(10, 2) NOT NULL,
+  "max_percent" numeric(5, 2) NOT NULL,
+  "recovered_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "salary_advances_employee_idx"
+  ON "salary_advances" ("employee_id", "status");
+
+CREATE TABLE IF NOT EXISTS "salary_advance_recoveries" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "advance_id" varchar NOT NULL REFERENCES "salary_advances"("id") ON DELETE CASCADE,
+  "payroll_run_id" varchar NOT NULL REFERENCES "payroll_runs"("id") ON DELETE CASCADE,
+  "amount" numeric(10, 2) NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "salary_advance_recoveries_run_idx"
+  ON "salary_advance_recoveries" ("payroll_run_id");
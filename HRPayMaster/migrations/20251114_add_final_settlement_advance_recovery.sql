@@ -0,0 +1 @@
+ALTER TABLE "final_settlements" ADD COLUMN IF NOT EXISTS "advance_recovery" numeric(12, 2) NOT NULL DEFAULT 0;
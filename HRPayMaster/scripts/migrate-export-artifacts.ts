@@ -0,0 +1,35 @@
+import 'dotenv/config';
+import { db } from '../server/db';
+import { storage } from '../server/storage';
+import { payrollRuns } from '@shared/schema';
+
+// Moves export files that older runs kept base64-encoded in
+// payroll_runs.export_artifacts into the blob store, leaving only their
+// metadata on the run.
+async function main() {
+  const runs = await db
+    .select({ id: payrollRuns.id, exportArtifacts: payrollRuns.exportArtifacts })
+    .from(payrollRuns);
+
+  let moved = 0;
+  for (const run of runs) {
+    const legacy = (run.exportArtifacts ?? []).filter(artifact => artifact.data);
+    if (legacy.length === 0) continue;
+    await storage.savePayrollExportFiles(
+      run.id,
+      legacy.map(({ data, ...artifact }) => ({
+        ...artifact,
+        content: Buffer.from(data ?? '', 'base64'),
+      })),
+    );
+    moved += legacy.length;
+    console.log(`Run ${run.id}: moved ${legacy.length} export file(s)`);
+  }
+
+  console.log(`Moved ${moved} export file(s) to file storage.`);
+}
+
+main().catch((err) => {
+  console.error('Export artifact migration failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getPayrollRun: vi.fn(),
+  getEmployees: vi.fn(),
+  getCompanies: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:manage"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const company = {
+  id: "co-1",
+  name: "Acme",
+  currencyCode: "KWD",
+  payrollExportFormats: [
+    { id: "bank-default", type: "bank", format: "csv", name: "Default Bank Export", enabled: true },
+    {
+      id: "bank-kfh",
+      type: "bank",
+      format: "csv",
+      name: "KFH",
+      enabled: true,
+      bankFormat: "kfh",
+      options: { debitAccount: "2001234567", employerCode: "ACME01" },
+    },
+  ],
+};
+
+describe("bank file route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getPayrollRun.mockResolvedValue({
+      id: "run-1",
+      period: "Jan 2024",
+      startDate: "2024-01-01",
+      endDate: "2024-01-31",
+      status: "approved",
+      entries: [{ id: "entry-1", employeeId: "emp-1", netPay: "1250.50" }],
+    });
+    storageMock.getEmployees.mockResolvedValue([
+      {
+        id: "emp-1",
+        employeeCode: "E001",
+        firstName: "Fatima",
+        lastName: "Al-Sabah",
+        civilId: "290010112345",
+        iban: "KW09NBOK0000000000001234567890",
+      },
+    ]);
+    storageMock.getCompanies.mockResolvedValue([company]);
+  });
+
+  it("lists the available bank formats", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/bank-formats");
+
+    expect(res.status).toBe(200);
+    expect(res.body.map((format: { id: string }) => format.id)).toContain("boubyan");
+  });
+
+  it("builds the configured bank file with control totals", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/bank-file");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-disposition"]).toContain("kfh-salaries-jan-2024.csv");
+    expect(res.headers["x-record-count"]).toBe("1");
+    expect(res.headers["x-control-total"]).toBe("1250.5");
+    expect(res.text).toContain("T,1,1250.500");
+    expect(storageMock.logSecurityEvent).toHaveBeenCalled();
+  });
+
+  it("reports invalid IBANs instead of exporting", async () => {
+    storageMock.getEmployees.mockResolvedValue([
+      { id: "emp-1", employeeCode: "E001", firstName: "Fatima", iban: "KW12BANK123456789" },
+    ]);
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/bank-file").query({ formatId: "bank-kfh" });
+
+    expect(res.status).toBe(422);
+    expect(res.body.error.code).toBe("bankFileInvalid");
+    expect(res.body.error.message).toContain("E001: KW IBANs must be 30 characters");
+    expect(res.body.error.details).toEqual([
+      expect.objectContaining({ employeeId: "emp-1", field: "iban" }),
+    ]);
+  });
+
+  it("returns 404 when no bank format is configured", async () => {
+    storageMock.getCompanies.mockResolvedValue([{ ...company, payrollExportFormats: [] }]);
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/bank-file");
+
+    expect(res.status).toBe(404);
+  });
+});
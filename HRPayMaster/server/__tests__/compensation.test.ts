@@ -0,0 +1,153 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getEmployee: vi.fn(),
+  getCompensationHistory: vi.fn(),
+  createCompensationChange: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+const CompensationChangeError = vi.hoisted(
+  () =>
+    class CompensationChangeError extends Error {
+      constructor(message: string) {
+        super(message);
+        this.name = "CompensationChangeError";
+      }
+    },
+);
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+  CompensationChangeError,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:approve"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const raise = {
+  id: "change-1",
+  employeeId: "emp-1",
+  changeType: "raise",
+  previousSalary: "1000.00",
+  salary: "1200",
+  previousAdditions: null,
+  additions: null,
+  effectiveDate: "2024-03-16",
+  reason: "Annual review",
+  approvedBy: "hr-1",
+  createdBy: "hr-1",
+  createdAt: "2024-03-10T08:00:00.000Z",
+};
+
+describe("compensation history routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getEmployee.mockResolvedValue({
+      id: "emp-1",
+      salary: "1200.00",
+      additions: null,
+    });
+    storageMock.getCompensationHistory.mockResolvedValue([raise]);
+  });
+
+  it("records a raise with the approver and audits it", async () => {
+    storageMock.createCompensationChange.mockResolvedValue(raise);
+    const app = await createApp();
+
+    const res = await request(app).post("/api/employees/emp-1/compensation").send({
+      salary: 1200,
+      effectiveDate: "2024-03-16",
+      reason: "Annual review",
+    });
+
+    expect(res.status).toBe(201);
+    expect(storageMock.createCompensationChange).toHaveBeenCalledWith({
+      employeeId: "emp-1",
+      salary: "1200",
+      effectiveDate: "2024-03-16",
+      reason: "Annual review",
+      approvedBy: "hr-1",
+      createdBy: "hr-1",
+    });
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entityType: "employee",
+        entityId: "emp-1",
+        metadata: expect.objectContaining({ previousSalary: "1000.00", salary: "1200" }),
+      }),
+    );
+  });
+
+  it("requires a reason and an effective date", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/employees/emp-1/compensation").send({ salary: 1200 });
+
+    expect(res.status).toBe(400);
+    expect(storageMock.createCompensationChange).not.toHaveBeenCalled();
+  });
+
+  it("rejects changes backdated before the latest recorded change", async () => {
+    storageMock.createCompensationChange.mockRejectedValue(
+      new CompensationChangeError("changes cannot be backdated"),
+    );
+    const app = await createApp();
+
+    const res = await request(app).post("/api/employees/emp-1/compensation").send({
+      salary: 900,
+      effectiveDate: "2024-01-01",
+      reason: "Correction",
+    });
+
+    expect(res.status).toBe(409);
+  });
+
+  it("requires payroll approval rights to change pay", async () => {
+    const app = await createApp(["payroll:view"]);
+
+    const res = await request(app).post("/api/employees/emp-1/compensation").send({
+      salary: 1200,
+      effectiveDate: "2024-03-16",
+      reason: "Annual review",
+    });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("returns the salary timeline", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/employees/emp-1/compensation");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      employeeId: "emp-1",
+      currentSalary: "1200.00",
+      currentAdditions: null,
+      history: [raise],
+    });
+  });
+});
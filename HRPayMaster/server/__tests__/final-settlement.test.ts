@@ -0,0 +1,197 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getEmployee: vi.fn(),
+  getActiveFinalSettlement: vi.fn(),
+  getLatestPayrollEndDateForEmployee: vi.fn(),
+  getLeaveBalance: vi.fn(),
+  getLoans: vi.fn(),
+  getCompensationHistory: vi.fn(),
+  getEmployeePayComponents: vi.fn(),
+  getDeductionCarryForwards: vi.fn(),
+  getPayrollSalaryAdvances: vi.fn(),
+  createFinalSettlement: vi.fn(),
+  terminateEmployee: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+const employee = {
+  id: "emp-1",
+  employeeCode: "E001",
+  firstName: "Ada",
+  lastName: "Lovelace",
+  salary: "520",
+  startDate: "2020-01-01",
+  status: "active",
+};
+
+async function createApp(permissions: string[] = ["payroll:manage", "payroll:view"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+describe("employee termination final settlement", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getEmployee.mockResolvedValue(employee);
+    storageMock.getActiveFinalSettlement.mockResolvedValue(undefined);
+    storageMock.getCompensationHistory.mockResolvedValue([]);
+    storageMock.getEmployeePayComponents.mockResolvedValue([]);
+    storageMock.getDeductionCarryForwards.mockResolvedValue({});
+    storageMock.getPayrollSalaryAdvances.mockResolvedValue({});
+    storageMock.getLatestPayrollEndDateForEmployee.mockResolvedValue("2022-11-30");
+    storageMock.getLeaveBalance.mockResolvedValue({ balanceDays: "2" });
+    storageMock.getLoans.mockResolvedValue([
+      { id: "loan-1", employeeId: "emp-1", status: "active", remainingAmount: "100" },
+      { id: "loan-2", employeeId: "emp-2", status: "active", remainingAmount: "900" },
+    ]);
+    storageMock.createFinalSettlement.mockImplementation(async input => ({
+      run: { id: "run-1", ...input.run, runType: "final_settlement" },
+      entry: { id: "entry-1", payrollRunId: "run-1", ...input.entry },
+      settlement: { id: "settlement-1", payrollRunId: "run-1", ...input.settlement },
+    }));
+  });
+
+  it("creates a final settlement run when terminating an employee", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/employees/emp-1/terminate")
+      .send({ terminationDate: "2022-12-31", reason: "termination", generateSettlement: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe("terminated");
+    expect(res.body.payrollRun.id).toBe("run-1");
+
+    const input = storageMock.createFinalSettlement.mock.calls[0][0];
+    expect(input.run.startDate).toBe("2022-12-01");
+    expect(input.run.endDate).toBe("2022-12-31");
+    expect(input.settlement.proratedSalary).toBe("520");
+    expect(input.settlement.indemnityAmount).toBe("900");
+    expect(input.settlement.leaveEncashmentAmount).toBe("40");
+    expect(input.entry.advanceRecoveries).toBeNull();
+    expect(input.entry.loanRecoveries).toEqual({ "loan-1": 100 });
+    expect(input.entry.allowances).toEqual({
+      end_of_service_indemnity: 900,
+      leave_encashment: 40,
+    });
+    expect(input.entry.netPay).toBe("1360");
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: "payroll_change", entityId: "run-1" }),
+    );
+  });
+
+  it("deducts outstanding salary advances for approval to recover", async () => {
+    storageMock.getPayrollSalaryAdvances.mockResolvedValue({
+      "emp-1": [
+        { id: "adv-1", employeeId: "emp-1", paidDate: "2022-12-10", outstandingAmount: "60.00" },
+      ],
+      "emp-2": [
+        { id: "adv-2", employeeId: "emp-2", paidDate: "2022-12-10", outstandingAmount: "80.00" },
+      ],
+    });
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/employees/emp-1/terminate")
+      .send({ terminationDate: "2022-12-31", reason: "termination", generateSettlement: true });
+
+    expect(res.status).toBe(200);
+    expect(storageMock.getPayrollSalaryAdvances).toHaveBeenCalledWith("2022-12-31");
+    const input = storageMock.createFinalSettlement.mock.calls[0][0];
+    expect(input.entry.advanceRecoveries).toEqual({ "adv-1": 60 });
+    expect(input.settlement.advanceRecovery).toBe("60");
+    expect(input.entry.advanceDeduction).toBe("60");
+    expect(input.run.totalDeductions).toBe("160.00");
+    expect(input.entry.netPay).toBe("1300");
+  });
+
+  it("rejects a second settlement for the same employee", async () => {
+    storageMock.getActiveFinalSettlement.mockResolvedValue({ id: "settlement-1" });
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/employees/emp-1/terminate")
+      .send({ generateSettlement: true });
+
+    expect(res.status).toBe(409);
+    expect(storageMock.getActiveFinalSettlement).toHaveBeenCalledWith("emp-1");
+    expect(storageMock.createFinalSettlement).not.toHaveBeenCalled();
+  });
+
+  it("settles the employee again once the earlier settlement run was cancelled", async () => {
+    // Storage skips settlements whose run was cancelled or voided.
+    storageMock.getActiveFinalSettlement.mockResolvedValue(undefined);
+    storageMock.getEmployee.mockResolvedValue({ ...employee, status: "terminated" });
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/employees/emp-1/terminate")
+      .send({ terminationDate: "2022-12-31", reason: "termination", generateSettlement: true });
+
+    expect(res.status).toBe(200);
+    expect(storageMock.createFinalSettlement).toHaveBeenCalledTimes(1);
+  });
+
+  it("only flips the status unless a settlement is requested", async () => {
+    storageMock.terminateEmployee.mockResolvedValue({ ...employee, status: "terminated" });
+    const app = await createApp([]);
+
+    const res = await request(app)
+      .post("/api/employees/emp-1/terminate")
+      .send({ reason: "resignation" });
+
+    expect(res.status).toBe(200);
+    expect(storageMock.terminateEmployee).toHaveBeenCalledWith("emp-1", {
+      terminationReason: "resignation",
+    });
+    expect(storageMock.createFinalSettlement).not.toHaveBeenCalled();
+  });
+
+  it("requires payroll:manage to generate a settlement", async () => {
+    const app = await createApp(["payroll:view"]);
+
+    const res = await request(app)
+      .post("/api/employees/emp-1/terminate")
+      .send({ generateSettlement: true });
+
+    expect(res.status).toBe(403);
+    expect(storageMock.createFinalSettlement).not.toHaveBeenCalled();
+  });
+
+  it("previews a settlement without persisting it", async () => {
+    const app = await createApp(["payroll:view"]);
+
+    const res = await request(app)
+      .post("/api/employees/emp-1/final-settlement/preview")
+      .send({ terminationDate: "2023-12-31", reason: "resignation", leaveBalanceDays: 0 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.indemnity.entitlementRatio).toBe(0.5);
+    expect(storageMock.createFinalSettlement).not.toHaveBeenCalled();
+  });
+});
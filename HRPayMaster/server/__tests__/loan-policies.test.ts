@@ -0,0 +1,160 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getLoanPolicies: vi.fn(),
+  createLoanPolicy: vi.fn(),
+  updateLoanPolicy: vi.fn(),
+  deleteLoanPolicy: vi.fn(),
+  countOpenLoansForEmployee: vi.fn(),
+  getEmployee: vi.fn(),
+  getLoan: vi.fn(),
+  createLoan: vi.fn(),
+  getLoanDocuments: vi.fn(),
+  getLoanAmortizationSchedule: vi.fn(),
+  updateLoanApprovalStage: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["loans:view", "loans:manage", "loans:approve"]) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "user-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const policy = {
+  id: "policy-1",
+  name: "Sales",
+  companyId: "co-1",
+  departmentId: "dep-1",
+  maxDeductionPercent: "40",
+  deductionWarningPercent: "30",
+  maxSalaryMultiple: "2",
+  minServiceMonths: 12,
+  maxActiveLoans: 1,
+  maxTermMonths: 24,
+  allowedInterestMethods: null,
+  requiredDocumentTypes: [],
+  active: true,
+};
+
+const employee = {
+  id: "emp-1",
+  companyId: "co-1",
+  departmentId: "dep-1",
+  salary: "1000",
+  startDate: "2020-01-01",
+};
+
+describe("loan policies", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getLoanPolicies.mockResolvedValue([policy]);
+    storageMock.countOpenLoansForEmployee.mockResolvedValue(0);
+    storageMock.getEmployee.mockResolvedValue(employee);
+    storageMock.logSecurityEvent.mockResolvedValue(undefined);
+  });
+
+  it("creates a policy and audits the change", async () => {
+    storageMock.createLoanPolicy.mockImplementation(async input => ({ id: "policy-2", ...input }));
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/loans/policies")
+      .send({ name: "Probation", maxDeductionPercent: 25, minServiceMonths: "3", requiredDocumentTypes: ["id_copy"] });
+
+    expect(res.status).toBe(201);
+    expect(storageMock.createLoanPolicy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "Probation",
+        maxDeductionPercent: "25",
+        minServiceMonths: 3,
+        requiredDocumentTypes: ["id_copy"],
+      }),
+    );
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: "loan_policy", entityId: "policy-2" }),
+    );
+  });
+
+  it("rejects policy changes without loans:manage", async () => {
+    const app = await createApp(["loans:view"]);
+
+    const res = await request(app).delete("/api/loans/policies/policy-1");
+
+    expect(res.status).toBe(403);
+    expect(storageMock.deleteLoanPolicy).not.toHaveBeenCalled();
+  });
+
+  it("refuses a loan request that breaks the employee's policy", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/loans").send({
+      employeeId: "emp-1",
+      amount: "5000",
+      monthlyDeduction: "500",
+      startDate: "2024-01-01",
+    });
+
+    expect(res.status).toBe(422);
+    expect(res.body.error.code).toBe("loanPolicyViolation");
+    expect(res.body.error.details.policy).toEqual({ id: "policy-1", name: "Sales" });
+    expect(res.body.error.details.failedRules.map((rule: any) => rule.rule)).toEqual([
+      "max_deduction_percent",
+      "max_salary_multiple",
+    ]);
+    expect(storageMock.createLoan).not.toHaveBeenCalled();
+  });
+
+  it("blocks stage approval while the employee is over the loan limit", async () => {
+    storageMock.getLoan.mockResolvedValue({
+      id: "loan-1",
+      employeeId: "emp-1",
+      amount: "1000",
+      monthlyDeduction: "100",
+      interestRate: "0",
+      interestMethod: "reducing_balance",
+      startDate: "2024-01-01",
+      endDate: null,
+      status: "pending",
+      approvalState: "in_review",
+    });
+    storageMock.countOpenLoansForEmployee.mockResolvedValue(1);
+    storageMock.getLoanDocuments.mockResolvedValue([]);
+    storageMock.getLoanAmortizationSchedule.mockResolvedValue([]);
+    const app = await createApp();
+
+    const res = await request(app)
+      .put("/api/loans/loan-1")
+      .send({ stageUpdates: [{ id: "stage-1", status: "approved" }] });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.details.failedRules).toEqual([
+      expect.objectContaining({ rule: "max_active_loans", limit: 1, actual: 1 }),
+    ]);
+    expect(storageMock.countOpenLoansForEmployee).toHaveBeenCalledWith("emp-1", "loan-1");
+    expect(storageMock.updateLoanApprovalStage).not.toHaveBeenCalled();
+  });
+});
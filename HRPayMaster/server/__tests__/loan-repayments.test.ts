@@ -0,0 +1,157 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getLoan: vi.fn(),
+  getLoanPayment: vi.fn(),
+  recordLoanRepayment: vi.fn(),
+  getEmployee: vi.fn(),
+  getCompany: vi.fn(),
+  getCompanies: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+const buildReceiptMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", async importOriginal => ({
+  LoanRepaymentError: (await importOriginal<typeof import("../storage")>()).LoanRepaymentError,
+  storage: storageMock,
+}));
+
+vi.mock("../utils/payrollExports", async importOriginal => ({
+  ...(await importOriginal<typeof import("../utils/payrollExports")>()),
+  buildLoanRepaymentReceiptPdf: buildReceiptMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+import { LoanRepaymentError } from "../storage";
+
+async function createApp(permissions: string[] = ["loans:view", "loans:manage"]) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "user-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const loan = {
+  id: "loan-1",
+  employeeId: "emp-1",
+  amount: "1200.00",
+  remainingAmount: "800.00",
+  monthlyDeduction: "100.00",
+  startDate: "2024-01-01",
+  status: "active",
+};
+
+const payment = {
+  id: "pay-1",
+  loanId: "loan-1",
+  payrollRunId: null,
+  employeeId: "emp-1",
+  amount: "300.00",
+  appliedDate: "2024-03-15",
+  source: "cash",
+  receiptNumber: "LR-20240315-ABCD1234",
+  balanceAfter: "500.00",
+  reference: null,
+};
+
+describe("loan repayments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getLoan.mockResolvedValue(loan);
+    storageMock.logSecurityEvent.mockResolvedValue(undefined);
+    storageMock.recordLoanRepayment.mockResolvedValue({
+      payment,
+      loan: { ...loan, remainingAmount: "500.00" },
+      schedule: [],
+    });
+  });
+
+  it("records a partial repayment and links its receipt", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/loans/loan-1/repayments")
+      .send({ amount: 300, method: "cash", paidDate: "2024-03-15" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.loan.remainingAmount).toBe("500.00");
+    expect(res.body.receiptUrl).toBe("/api/loans/loan-1/repayments/pay-1/receipt");
+    expect(storageMock.recordLoanRepayment).toHaveBeenCalledWith(
+      expect.objectContaining({ loanId: "loan-1", amount: 300, method: "cash", recordedBy: "user-1" }),
+    );
+    expect(storageMock.logSecurityEvent).toHaveBeenCalled();
+  });
+
+  it("settles the whole outstanding balance", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/loans/loan-1/repayments")
+      .send({ settleInFull: true, method: "bank_transfer", reference: "TRX-9" });
+
+    expect(res.status).toBe(201);
+    expect(storageMock.recordLoanRepayment).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 800, method: "bank_transfer", reference: "TRX-9" }),
+    );
+  });
+
+  it("rejects repayments the loan cannot take", async () => {
+    const app = await createApp();
+
+    const invalid = await request(app).post("/api/loans/loan-1/repayments").send({ method: "cheque" });
+    expect(invalid.status).toBe(400);
+
+    storageMock.recordLoanRepayment.mockRejectedValueOnce(
+      new LoanRepaymentError("Repayment exceeds the outstanding balance of 800.00"),
+    );
+    const conflict = await request(app)
+      .post("/api/loans/loan-1/repayments")
+      .send({ amount: 900, method: "cash" });
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.error.message).toContain("outstanding balance");
+  });
+
+  it("serves the receipt for repayments made outside payroll", async () => {
+    storageMock.getLoanPayment.mockResolvedValue(payment);
+    storageMock.getEmployee.mockResolvedValue({ id: "emp-1", employeeCode: "E001", companyId: null });
+    storageMock.getCompanies.mockResolvedValue([{ id: "co-1", name: "Acme", currencyCode: "KWD" }]);
+    buildReceiptMock.mockResolvedValue(Buffer.from("%PDF-1.4\n"));
+    const app = await createApp(["loans:view"]);
+
+    const res = await request(app).get("/api/loans/loan-1/repayments/pay-1/receipt");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe("application/pdf");
+    expect(res.headers["content-disposition"]).toContain("loan-receipt-LR-20240315-ABCD1234.pdf");
+    expect(buildReceiptMock).toHaveBeenCalledWith(
+      expect.objectContaining({ payment, companyName: "Acme", currencyCode: "KWD" }),
+    );
+  });
+
+  it("has no receipt for payroll deductions", async () => {
+    storageMock.getLoanPayment.mockResolvedValue({ ...payment, payrollRunId: "run-1", source: "payroll" });
+    const app = await createApp();
+
+    const res = await request(app).get("/api/loans/loan-1/repayments/pay-1/receipt");
+
+    expect(res.status).toBe(404);
+    expect(buildReceiptMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,241 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getLoan: vi.fn(),
+  getLoanAmortizationSchedule: vi.fn(),
+  getLoanDocuments: vi.fn(),
+  getEmployee: vi.fn(),
+  getLoanPolicies: vi.fn(),
+  countOpenLoansForEmployee: vi.fn(),
+  getLoanRestructures: vi.fn(),
+  getLoanRestructure: vi.fn(),
+  createLoanRestructure: vi.fn(),
+  rejectLoanRestructure: vi.fn(),
+  applyLoanRestructure: vi.fn(),
+  getLoanScheduleVersions: vi.fn(),
+  updateLoanApprovalStage: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", async importOriginal => ({
+  LoanRestructureError: (await importOriginal<typeof import("../storage")>()).LoanRestructureError,
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+import { LoanRestructureError } from "../storage";
+
+async function createApp(permissions: string[] = ["loans:view", "loans:manage", "loans:approve"]) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "user-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const loan = {
+  id: "loan-1",
+  employeeId: "emp-1",
+  amount: "1200.00",
+  remainingAmount: "600.00",
+  monthlyDeduction: "100.00",
+  interestRate: "0",
+  interestMethod: "interest_free",
+  startDate: "2024-01-01",
+  endDate: "2024-12-01",
+  status: "active",
+};
+
+const schedule = [
+  { installmentNumber: 1, dueDate: "2024-01-01", paymentAmount: "100.00", status: "paid" },
+  { installmentNumber: 2, dueDate: "2024-02-01", paymentAmount: "100.00", status: "paid" },
+  { installmentNumber: 3, dueDate: "2024-03-01", paymentAmount: "100.00", status: "pending" },
+];
+
+const pendingRestructure = {
+  id: "rs-1",
+  loanId: "loan-1",
+  type: "defer_installments",
+  status: "pending",
+  deferInstallments: 2,
+  reason: "Medical bills",
+  approvalStages: [
+    { id: "stage-1", stageName: "HR", status: "pending" },
+    { id: "stage-2", stageName: "Finance", status: "pending" },
+  ],
+};
+
+describe("loan restructures", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getLoan.mockResolvedValue(loan);
+    storageMock.getLoanAmortizationSchedule.mockResolvedValue(schedule);
+    storageMock.getLoanDocuments.mockResolvedValue([]);
+    storageMock.getEmployee.mockResolvedValue({ id: "emp-1", salary: "1000", startDate: "2020-01-01" });
+    storageMock.getLoanPolicies.mockResolvedValue([]);
+    storageMock.countOpenLoansForEmployee.mockResolvedValue(0);
+    storageMock.getLoanRestructures.mockResolvedValue([]);
+    storageMock.logSecurityEvent.mockResolvedValue(undefined);
+    storageMock.createLoanRestructure.mockImplementation(async (restructure, stages) => ({
+      id: "rs-1",
+      status: "pending",
+      ...restructure,
+      approvalStages: stages,
+    }));
+  });
+
+  it("requests a deferral with a default approval stage and previews the schedule", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/loans/loan-1/restructures")
+      .send({ type: "defer_installments", deferInstallments: 2, reason: "Medical bills" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.proposed.schedule[0]).toMatchObject({ installmentNumber: 3, dueDate: "2024-05-01" });
+    expect(res.body.proposed.endDate).toBe("2025-02-01");
+    expect(storageMock.createLoanRestructure).toHaveBeenCalledWith(
+      expect.objectContaining({ loanId: "loan-1", type: "defer_installments", deferInstallments: 2 }),
+      [expect.objectContaining({ stageName: "Restructure approval", loanId: "loan-1" })],
+    );
+  });
+
+  it("refuses restructures that break the loan policy or cannot apply", async () => {
+    const app = await createApp();
+
+    const overLimit = await request(app)
+      .post("/api/loans/loan-1/restructures")
+      .send({ type: "change_monthly_deduction", monthlyDeduction: 600, reason: "Pay off sooner" });
+    expect(overLimit.status).toBe(422);
+    expect(overLimit.body.error.code).toBe("loanPolicyViolation");
+
+    const earlier = await request(app)
+      .post("/api/loans/loan-1/restructures")
+      .send({ type: "extend_end_date", endDate: "2024-06-01", reason: "Hardship" });
+    expect(earlier.status).toBe(422);
+
+    storageMock.getLoanRestructures.mockResolvedValueOnce([pendingRestructure]);
+    const duplicate = await request(app)
+      .post("/api/loans/loan-1/restructures")
+      .send({ type: "defer_installments", deferInstallments: 1, reason: "Again" });
+    expect(duplicate.status).toBe(409);
+    expect(storageMock.createLoanRestructure).not.toHaveBeenCalled();
+  });
+
+  it("waits for every stage before applying the new schedule", async () => {
+    storageMock.getLoanRestructure
+      .mockResolvedValueOnce(pendingRestructure)
+      .mockResolvedValue({
+        ...pendingRestructure,
+        approvalStages: [
+          { id: "stage-1", stageName: "HR", status: "approved" },
+          { id: "stage-2", stageName: "Finance", status: "pending" },
+        ],
+      });
+    const app = await createApp();
+
+    const res = await request(app)
+      .put("/api/loans/loan-1/restructures/rs-1")
+      .send({ stageUpdates: [{ id: "stage-1", status: "approved" }] });
+
+    expect(res.status).toBe(200);
+    expect(storageMock.updateLoanApprovalStage).toHaveBeenCalledWith(
+      "stage-1",
+      expect.objectContaining({ status: "approved" }),
+    );
+    expect(storageMock.applyLoanRestructure).not.toHaveBeenCalled();
+  });
+
+  it("applies the restructure once the last stage approves it", async () => {
+    const approved = {
+      ...pendingRestructure,
+      approvalStages: pendingRestructure.approvalStages.map(stage => ({ ...stage, status: "approved" })),
+    };
+    storageMock.getLoanRestructure.mockResolvedValueOnce(pendingRestructure).mockResolvedValue(approved);
+    storageMock.applyLoanRestructure.mockResolvedValue({
+      restructure: { ...approved, status: "applied", scheduleVersion: 1 },
+      loan: { ...loan, endDate: "2025-02-01" },
+      schedule: [],
+      version: { id: "v-1", loanId: "loan-1", version: 1, entries: schedule },
+    });
+    const app = await createApp();
+
+    const res = await request(app)
+      .put("/api/loans/loan-1/restructures/rs-1")
+      .send({
+        stageUpdates: [
+          { id: "stage-1", status: "approved" },
+          { id: "stage-2", status: "approved" },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.version.version).toBe(1);
+    expect(storageMock.applyLoanRestructure).toHaveBeenCalledWith("rs-1", "user-1");
+  });
+
+  it("rejects the restructure when a stage rejects it", async () => {
+    storageMock.getLoanRestructure.mockResolvedValueOnce(pendingRestructure).mockResolvedValue({
+      ...pendingRestructure,
+      approvalStages: [
+        { id: "stage-1", stageName: "HR", status: "rejected" },
+        { id: "stage-2", stageName: "Finance", status: "pending" },
+      ],
+    });
+    const app = await createApp();
+
+    const res = await request(app)
+      .put("/api/loans/loan-1/restructures/rs-1")
+      .send({ stageUpdates: [{ id: "stage-1", status: "rejected" }] });
+
+    expect(res.status).toBe(200);
+    expect(storageMock.rejectLoanRestructure).toHaveBeenCalledWith("rs-1");
+    expect(storageMock.applyLoanRestructure).not.toHaveBeenCalled();
+  });
+
+  it("reports restructures that can no longer be applied", async () => {
+    storageMock.getLoanRestructure.mockResolvedValue({
+      ...pendingRestructure,
+      approvalStages: [{ id: "stage-1", stageName: "HR", status: "approved" }],
+    });
+    storageMock.applyLoanRestructure.mockRejectedValue(
+      new LoanRestructureError("Only active loans can be restructured"),
+    );
+    const app = await createApp();
+
+    const foreignStage = await request(app)
+      .put("/api/loans/loan-1/restructures/rs-1")
+      .send({ stageUpdates: [{ id: "stage-9", status: "approved" }] });
+    expect(foreignStage.status).toBe(400);
+
+    const res = await request(app)
+      .put("/api/loans/loan-1/restructures/rs-1")
+      .send({ stageUpdates: [{ id: "stage-1", status: "approved" }] });
+    expect(res.status).toBe(409);
+  });
+
+  it("lists the schedule history", async () => {
+    storageMock.getLoanScheduleVersions.mockResolvedValue([{ id: "v-1", version: 1, entries: schedule }]);
+    const app = await createApp(["loans:view"]);
+
+    const res = await request(app).get("/api/loans/loan-1/schedule-versions");
+
+    expect(res.status).toBe(200);
+    expect(res.body[0].version).toBe(1);
+  });
+});
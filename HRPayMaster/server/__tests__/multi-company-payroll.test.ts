@@ -0,0 +1,238 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const { storageMock, dbMock, insertedRuns, insertedEntries } = vi.hoisted(() => ({
+  storageMock: {
+    getCompanies: vi.fn(),
+    getEmployees: vi.fn(),
+    getLoans: vi.fn(),
+    getVacationRequests: vi.fn(),
+    getEmployeeEvents: vi.fn(),
+    getScheduleSummary: vi.fn(),
+    getSocialInsuranceRates: vi.fn(),
+    getCompensationChanges: vi.fn(),
+    getCompanyHolidays: vi.fn(),
+    getEmployeePayComponents: vi.fn(),
+    getDeductionCarryForwards: vi.fn(),
+    getPayrollSalaryAdvances: vi.fn(),
+    getAttendanceSummary: vi.fn(),
+    getRetroPayrollSources: vi.fn(),
+    updateLoanScheduleStatuses: vi.fn(),
+    createNotification: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+  dbMock: {
+    transaction: vi.fn(),
+    query: { payrollRuns: { findFirst: vi.fn() } },
+  },
+  insertedRuns: [] as any[],
+  insertedEntries: [] as any[],
+}));
+
+vi.mock("../db", () => ({ db: dbMock }));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+import { payrollEntries, payrollRuns } from "@shared/schema";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:manage"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const period = { period: "Jan 2024", startDate: "2024-01-01", endDate: "2024-01-31" };
+
+describe("multi-company payroll runs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insertedRuns.length = 0;
+    insertedEntries.length = 0;
+
+    storageMock.getCompanies.mockResolvedValue([
+      {
+        id: "co-kw",
+        name: "Gulf Trading",
+        currencyCode: "KWD",
+        locale: "en-KW",
+        payrollCalendars: [{ id: "kw-monthly", name: "Kuwait monthly", frequencyId: "monthly" }],
+        payrollFrequencies: [{ id: "monthly", name: "Monthly", cadence: "monthly" }],
+        payrollExportFormats: [],
+      },
+      {
+        id: "co-ae",
+        name: "Gulf Trading UAE",
+        currencyCode: "AED",
+        locale: "en-AE",
+        payrollCalendars: [{ id: "ae-monthly", name: "UAE monthly", frequencyId: "monthly" }],
+        payrollFrequencies: [{ id: "monthly", name: "Monthly", cadence: "monthly" }],
+        payrollExportFormats: [],
+      },
+    ]);
+    storageMock.getEmployees.mockResolvedValue([
+      { id: "emp-kw", companyId: "co-kw", salary: "1000", status: "active", standardWorkingDays: 30 },
+      { id: "emp-ae", companyId: "co-ae", salary: "9000", status: "active", standardWorkingDays: 30 },
+      { id: "emp-none", companyId: null, salary: "500", status: "active", standardWorkingDays: 30 },
+    ]);
+    storageMock.getLoans.mockResolvedValue([
+      {
+        id: "loan-kw",
+        employeeId: "emp-kw",
+        status: "active",
+        remainingAmount: "300",
+        monthlyDeduction: "100",
+        scheduleDueThisPeriod: [{ installmentNumber: 1, paymentAmount: "100", status: "pending" }],
+      },
+    ]);
+    storageMock.getVacationRequests.mockResolvedValue([]);
+    storageMock.getEmployeeEvents.mockResolvedValue([]);
+    storageMock.getScheduleSummary.mockResolvedValue({});
+    storageMock.getSocialInsuranceRates.mockResolvedValue([]);
+    storageMock.getCompensationChanges.mockResolvedValue([]);
+    storageMock.getCompanyHolidays.mockResolvedValue([]);
+    storageMock.getEmployeePayComponents.mockResolvedValue([]);
+    storageMock.getDeductionCarryForwards.mockResolvedValue({});
+    storageMock.getPayrollSalaryAdvances.mockResolvedValue({});
+    storageMock.getAttendanceSummary.mockResolvedValue({});
+    storageMock.getRetroPayrollSources.mockResolvedValue([]);
+
+    const tx = {
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          if (table === payrollRuns) {
+            const record = { ...values, id: "run-1" };
+            insertedRuns.push(record);
+            return { returning: async () => [record] };
+          }
+          if (table === payrollEntries) {
+            insertedEntries.push(...(Array.isArray(values) ? values : [values]));
+          }
+          return Promise.resolve([]);
+        },
+      })),
+      update: vi.fn(() => ({ set: () => ({ where: async () => [] }) })),
+      rollback: vi.fn(),
+    };
+    dbMock.transaction.mockImplementation(async (callback: any) => callback(tx));
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(undefined);
+  });
+
+  it("asks which company to process when there are several", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/generate").send(period);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("payrollCompanyRequired");
+    expect(dbMock.transaction).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown company", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({ ...period, companyId: "co-missing" });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("pays only the company's employees using its own calendar", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({ ...period, companyId: "co-ae" });
+
+    expect(res.status).toBe(201);
+    expect(insertedRuns[0]).toMatchObject({
+      companyId: "co-ae",
+      calendarId: "ae-monthly",
+      cycleLabel: "UAE monthly",
+    });
+    expect(insertedEntries.map(entry => entry.employeeId)).toEqual(["emp-ae"]);
+    expect(storageMock.updateLoanScheduleStatuses).not.toHaveBeenCalled();
+  });
+
+  it("generates a company's run in the background", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({ ...period, companyId: "co-kw", background: true });
+
+    expect(res.status).toBe(202);
+    expect(res.body).toMatchObject({ status: "queued", createdBy: "hr-1" });
+
+    const job = await vi.waitFor(async () => {
+      const status = await request(app).get(`/api/payroll/jobs/${res.body.id}`);
+      expect(status.body.status).toBe("completed");
+      return status.body;
+    });
+    expect(job).toMatchObject({ payrollRunId: "run-1", phase: "saving", processed: 1, total: 1 });
+    expect(insertedEntries.map(entry => entry.employeeId)).toEqual(["emp-kw"]);
+
+    const missing = await request(app).post("/api/payroll/jobs/unknown/cancel");
+    expect(missing.status).toBe(404);
+  });
+
+  it("records the company's employer costs on each entry", async () => {
+    const [kuwait, uae] = await storageMock.getCompanies();
+    storageMock.getCompanies.mockResolvedValue([kuwait, { ...uae, healthInsurancePremium: "45" }]);
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({ ...period, companyId: "co-ae" });
+
+    expect(res.status).toBe(201);
+    expect(insertedEntries[0]).toMatchObject({
+      employeeId: "emp-ae",
+      employerSocialInsurance: "0",
+      employerHealthInsurance: "45",
+      indemnityAccrual: "0",
+      visaCostAmortization: "0",
+    });
+  });
+
+  it("previews a single company's workforce", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/preview")
+      .send({ ...period, companyId: "co-kw" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.companyId).toBe("co-kw");
+    expect(res.body.calendarId).toBe("kw-monthly");
+    expect(res.body.scenarios[0].employees.map((employee: any) => employee.employeeId)).toEqual([
+      "emp-kw",
+    ]);
+  });
+
+  it("keeps unassigned employees on single-company installs", async () => {
+    storageMock.getCompanies.mockResolvedValue([
+      { id: "co-kw", name: "Gulf Trading", currencyCode: "KWD", payrollExportFormats: [] },
+    ]);
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/generate").send(period);
+
+    expect(res.status).toBe(201);
+    expect(insertedRuns[0].companyId).toBe("co-kw");
+    expect(insertedEntries.map(entry => entry.employeeId)).toEqual(["emp-kw", "emp-none"]);
+  });
+});
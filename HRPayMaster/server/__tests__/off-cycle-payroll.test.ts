@@ -0,0 +1,341 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const { storageMock, dbMock, insertedRuns, insertedEntries } = vi.hoisted(() => ({
+  storageMock: {
+    getCompanies: vi.fn(),
+    getEmployees: vi.fn(),
+    getLoans: vi.fn(),
+    getVacationRequests: vi.fn(),
+    getEmployeeEvents: vi.fn(),
+    getScheduleSummary: vi.fn(),
+    getSocialInsuranceRates: vi.fn(),
+    getCompensationChanges: vi.fn(),
+    getCompanyHolidays: vi.fn(),
+    getEmployeePayComponents: vi.fn(),
+    getDeductionCarryForwards: vi.fn(),
+    getPayrollSalaryAdvances: vi.fn(),
+    getAttendanceSummary: vi.fn(),
+    getRetroPayrollSources: vi.fn(),
+    recordSalaryAdvanceRecoveries: vi.fn(),
+    markPayrollRunEventsProcessed: vi.fn(),
+    createNotification: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+  dbMock: {
+    transaction: vi.fn(),
+    query: { payrollRuns: { findFirst: vi.fn() } },
+  },
+  insertedRuns: [] as any[],
+  insertedEntries: [] as any[],
+}));
+
+vi.mock("../db", () => ({ db: dbMock }));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+import { payrollRuns } from "@shared/schema";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:manage"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const oneTimeEvent = (id: string, employeeId: string, eventType: string, amount: string) => ({
+  id,
+  employeeId,
+  eventType,
+  amount,
+  eventDate: "2024-01-15",
+  status: "active",
+  affectsPayroll: true,
+  recurrenceType: "none",
+  title: eventType,
+});
+
+describe("off-cycle payroll runs", () => {
+  let tx: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insertedRuns.length = 0;
+    insertedEntries.length = 0;
+
+    storageMock.getCompanies.mockResolvedValue([{ id: "co-1", currencyCode: "KWD" }]);
+    storageMock.getEmployees.mockResolvedValue([
+      { id: "emp-1", salary: "1000", status: "active", standardWorkingDays: 30 },
+      { id: "emp-2", salary: "2000", status: "active", standardWorkingDays: 30 },
+    ]);
+    storageMock.getLoans.mockResolvedValue([
+      {
+        id: "loan-1",
+        employeeId: "emp-1",
+        status: "active",
+        remainingAmount: "200",
+        monthlyDeduction: "75",
+      },
+    ]);
+    storageMock.getVacationRequests.mockResolvedValue([]);
+    storageMock.getEmployeeEvents.mockResolvedValue([
+      oneTimeEvent("evt-bonus", "emp-1", "bonus", "300"),
+      oneTimeEvent("evt-deduction", "emp-1", "deduction", "40"),
+      oneTimeEvent("evt-other", "emp-2", "bonus", "500"),
+    ]);
+    storageMock.getScheduleSummary.mockResolvedValue({});
+    storageMock.getSocialInsuranceRates.mockResolvedValue([]);
+    storageMock.getCompensationChanges.mockResolvedValue([]);
+    storageMock.getCompanyHolidays.mockResolvedValue([]);
+    storageMock.getEmployeePayComponents.mockResolvedValue([]);
+    storageMock.getDeductionCarryForwards.mockResolvedValue({});
+    storageMock.getPayrollSalaryAdvances.mockResolvedValue({});
+    storageMock.getAttendanceSummary.mockResolvedValue({});
+    storageMock.markPayrollRunEventsProcessed.mockResolvedValue(1);
+
+    tx = {
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          if (table === payrollRuns) {
+            const record = { ...values, id: `run-${values.runType}` };
+            insertedRuns.push(record);
+            return { returning: async () => [record] };
+          }
+          insertedEntries.push(...(Array.isArray(values) ? values : [values]));
+          return Promise.resolve([]);
+        },
+      })),
+      update: vi.fn(),
+      rollback: vi.fn(),
+    };
+    dbMock.transaction.mockImplementation(async (callback: any) => callback(tx));
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue({ id: "regular-run" });
+  });
+
+  it("pays only the chosen components to the selected employees alongside the regular run", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({
+        period: "Jan 2024 bonus",
+        startDate: "2024-01-01",
+        endDate: "2024-01-31",
+        runType: "bonus",
+        employeeIds: ["emp-1"],
+      });
+
+    expect(res.status).toBe(201);
+    expect(dbMock.query.payrollRuns.findFirst).not.toHaveBeenCalled();
+    expect(insertedRuns[0]).toMatchObject({ runType: "bonus", scenarioKey: "bonus" });
+    expect(insertedRuns[0].scenarioToggles).toMatchObject({
+      salary: false,
+      bonuses: true,
+      deductions: false,
+      loans: false,
+    });
+    expect(insertedEntries).toHaveLength(1);
+    expect(insertedEntries[0]).toMatchObject({
+      employeeId: "emp-1",
+      baseSalary: "0",
+      bonusAmount: "300",
+      grossPay: "300",
+      loanDeduction: "0",
+      otherDeductions: "0",
+      netPay: "300",
+    });
+    expect(storageMock.markPayrollRunEventsProcessed).toHaveBeenCalledWith(
+      "run-bonus",
+      ["evt-bonus"],
+      tx,
+    );
+  });
+
+  it("leaves events open while an off-cycle run is still a draft", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({
+        period: "Jan 2024 correction",
+        startDate: "2024-01-01",
+        endDate: "2024-01-31",
+        status: "draft",
+        runType: "correction",
+        employeeIds: ["emp-2"],
+        components: ["salary"],
+      });
+
+    expect(res.status).toBe(201);
+    expect(insertedEntries).toHaveLength(1);
+    expect(insertedEntries[0]).toMatchObject({ employeeId: "emp-2", baseSalary: "2000", bonusAmount: "0" });
+    expect(storageMock.markPayrollRunEventsProcessed).not.toHaveBeenCalled();
+  });
+
+  it("keeps salary advance recoveries on the entries until the run is approved", async () => {
+    storageMock.getLoans.mockResolvedValue([]);
+    storageMock.getRetroPayrollSources.mockResolvedValue([]);
+    storageMock.getPayrollSalaryAdvances.mockResolvedValue({
+      "emp-1": [{ id: "adv-1", employeeId: "emp-1", paidDate: "2024-01-10", outstandingAmount: "150.00" }],
+    });
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(undefined);
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({ period: "Jan 2024", startDate: "2024-01-01", endDate: "2024-01-31", status: "draft" });
+
+    expect(res.status).toBe(201);
+    expect(insertedEntries.find(entry => entry.employeeId === "emp-1")).toMatchObject({
+      advanceDeduction: "150",
+      advanceRecoveries: { "adv-1": 150 },
+    });
+    expect(storageMock.recordSalaryAdvanceRecoveries).not.toHaveBeenCalled();
+  });
+
+  it("lets a regular run replace a cancelled one for the same period", async () => {
+    storageMock.getLoans.mockResolvedValue([]);
+    storageMock.getEmployeeEvents.mockResolvedValue([]);
+    storageMock.getRetroPayrollSources.mockResolvedValue([]);
+    const existing = [
+      {
+        id: "run-old",
+        runType: "regular",
+        status: "cancelled",
+        startDate: "2024-01-01",
+        endDate: "2024-01-31",
+        companyId: null,
+        calendarId: null,
+      },
+    ];
+    // Evaluates the overlap query against the runs above.
+    const columns = new Proxy({}, { get: (_target, key) => key });
+    const operators = {
+      and: (...checks: any[]) => (run: any) => checks.filter(Boolean).every(check => check(run)),
+      or: (...checks: any[]) => (run: any) => checks.filter(Boolean).some(check => check(run)),
+      eq: (key: string, value: unknown) => (run: any) => run[key] === value,
+      lte: (key: string, value: string) => (run: any) => run[key] <= value,
+      gte: (key: string, value: string) => (run: any) => run[key] >= value,
+      isNull: (key: string) => (run: any) => run[key] == null,
+      notInArray: (key: string, values: unknown[]) => (run: any) => !values.includes(run[key]),
+    };
+    dbMock.query.payrollRuns.findFirst.mockImplementation(async ({ where }: any) =>
+      existing.find(where(columns, operators)),
+    );
+    const app = await createApp();
+    const regularRun = { period: "Jan 2024", startDate: "2024-01-01", endDate: "2024-01-31" };
+
+    expect((await request(app).post("/api/payroll/generate").send(regularRun)).status).toBe(201);
+
+    existing[0].status = "submitted";
+    const blocked = await request(app).post("/api/payroll/generate").send(regularRun);
+    expect(blocked.status).toBe(409);
+  });
+
+  it("requires an employee selection for off-cycle runs", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({ period: "Jan", startDate: "2024-01-01", endDate: "2024-01-31", runType: "bonus" });
+
+    expect(res.status).toBe(400);
+    expect(dbMock.transaction).not.toHaveBeenCalled();
+  });
+
+  it("rejects employees who are not active", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({
+        period: "Jan",
+        startDate: "2024-01-01",
+        endDate: "2024-01-31",
+        runType: "bonus",
+        employeeIds: ["emp-9"],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe("Off-cycle runs can only include active employees");
+    expect(dbMock.transaction).not.toHaveBeenCalled();
+  });
+
+  describe("one-time events", () => {
+    let events: any[];
+
+    beforeEach(() => {
+      // Events as storage holds them, claimed by whichever run is submitted first.
+      events = [oneTimeEvent("evt-bonus", "emp-1", "bonus", "300")];
+      storageMock.getEmployeeEvents.mockImplementation(async () =>
+        events.map(event => ({ ...event })),
+      );
+      storageMock.markPayrollRunEventsProcessed.mockImplementation(
+        async (runId: string, eventIds: string[]) => {
+          const claimed = events.filter(
+            event => eventIds.includes(event.id) && event.status === "active",
+          );
+          for (const event of claimed) {
+            event.status = "processed";
+            event.payrollRunId = runId;
+          }
+          return claimed.length;
+        },
+      );
+      storageMock.getLoans.mockResolvedValue([]);
+      storageMock.getRetroPayrollSources.mockResolvedValue([]);
+      dbMock.query.payrollRuns.findFirst.mockResolvedValue(undefined);
+    });
+
+    const bonusRun = {
+      period: "Jan 2024 bonus",
+      startDate: "2024-01-01",
+      endDate: "2024-01-31",
+      runType: "bonus",
+      employeeIds: ["emp-1"],
+    };
+    const regularRun = { period: "Jan 2024", startDate: "2024-01-01", endDate: "2024-01-31" };
+    const entryFor = (runId: string) =>
+      insertedEntries.find(entry => entry.payrollRunId === runId && entry.employeeId === "emp-1");
+    const bonusPaid = () =>
+      insertedEntries
+        .filter(entry => entry.employeeId === "emp-1")
+        .reduce((total, entry) => total + Number(entry.bonusAmount), 0);
+
+    it("pays an event once when the off-cycle run is submitted first", async () => {
+      const app = await createApp();
+
+      expect((await request(app).post("/api/payroll/generate").send(bonusRun)).status).toBe(201);
+      expect((await request(app).post("/api/payroll/generate").send(regularRun)).status).toBe(201);
+
+      expect(entryFor("run-bonus")).toMatchObject({ bonusAmount: "300" });
+      expect(entryFor("run-regular")).toMatchObject({ bonusAmount: "0" });
+      expect(bonusPaid()).toBe(300);
+      expect(events[0]).toMatchObject({ status: "processed", payrollRunId: "run-bonus" });
+    });
+
+    it("pays an event once when the regular run is submitted first", async () => {
+      const app = await createApp();
+
+      expect((await request(app).post("/api/payroll/generate").send(regularRun)).status).toBe(201);
+      expect((await request(app).post("/api/payroll/generate").send(bonusRun)).status).toBe(201);
+
+      expect(entryFor("run-regular")).toMatchObject({ bonusAmount: "300" });
+      expect(entryFor("run-bonus")).toMatchObject({ bonusAmount: "0", netPay: "0" });
+      expect(bonusPaid()).toBe(300);
+      expect(events[0]).toMatchObject({ status: "processed", payrollRunId: "run-regular" });
+    });
+  });
+});
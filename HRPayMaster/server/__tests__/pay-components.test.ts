@@ -0,0 +1,120 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getEmployee: vi.fn(),
+  getEmployeePayComponents: vi.fn(),
+  getDeductionCarryForwards: vi.fn(),
+  getPayrollSalaryAdvances: vi.fn(),
+  createEmployeePayComponent: vi.fn(),
+  updateEmployeePayComponent: vi.fn(),
+  deleteEmployeePayComponent: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:approve"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const housing = {
+  id: "pc-1",
+  employeeId: "emp-1",
+  code: "housing",
+  name: "Housing",
+  calculationType: "percentage_of_basic",
+  amount: null,
+  percentage: "25.00",
+  insurable: false,
+  indemnityEligible: true,
+  leaveProration: "full",
+  createdAt: null,
+  updatedAt: null,
+};
+
+describe("pay component routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getEmployee.mockResolvedValue({ id: "emp-1", salary: "1000.00" });
+    storageMock.getEmployeePayComponents.mockResolvedValue([housing]);
+    storageMock.getDeductionCarryForwards.mockResolvedValue({});
+    storageMock.getPayrollSalaryAdvances.mockResolvedValue({});
+  });
+
+  it("adds a percentage-of-basic component", async () => {
+    storageMock.createEmployeePayComponent.mockResolvedValue(housing);
+    const app = await createApp();
+
+    const res = await request(app).post("/api/employees/emp-1/pay-components").send({
+      code: "Housing",
+      name: "Housing",
+      calculationType: "percentage_of_basic",
+      percentage: 25,
+      indemnityEligible: true,
+      leaveProration: "full",
+    });
+
+    expect(res.status).toBe(201);
+    expect(storageMock.createEmployeePayComponent).toHaveBeenCalledWith(
+      "emp-1",
+      expect.objectContaining({ code: "housing", percentage: "25", insurable: false }),
+    );
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: "payroll_change", entityId: "emp-1" }),
+    );
+  });
+
+  it("rejects basic as a component code and components without a value", async () => {
+    const app = await createApp();
+
+    const basic = await request(app)
+      .post("/api/employees/emp-1/pay-components")
+      .send({ code: "basic", name: "Basic", amount: 500 });
+    expect(basic.status).toBe(400);
+
+    const empty = await request(app)
+      .post("/api/employees/emp-1/pay-components")
+      .send({ code: "transport", name: "Transport" });
+    expect(empty.status).toBe(400);
+    expect(storageMock.createEmployeePayComponent).not.toHaveBeenCalled();
+  });
+
+  it("validates updates against the stored component", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .put("/api/employees/emp-1/pay-components/pc-1")
+      .send({ calculationType: "amount" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe("Amount must be greater than zero");
+
+    const missing = await request(app)
+      .put("/api/employees/emp-1/pay-components/pc-9")
+      .send({ insurable: true });
+    expect(missing.status).toBe(404);
+  });
+});
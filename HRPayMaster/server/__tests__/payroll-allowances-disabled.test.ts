@@ -57,6 +57,13 @@ const storageSpies = {
   getCompanies: vi.spyOn(storage, "getCompanies"),
   getAttendanceSummary: vi.spyOn(storage, "getAttendanceSummary"),
   getScheduleSummary: vi.spyOn(storage, "getScheduleSummary"),
+  getSocialInsuranceRates: vi.spyOn(storage, "getSocialInsuranceRates"),
+  getCompensationChanges: vi.spyOn(storage, "getCompensationChanges"),
+  getCompanyHolidays: vi.spyOn(storage, "getCompanyHolidays"),
+  getEmployeePayComponents: vi.spyOn(storage, "getEmployeePayComponents"),
+  getDeductionCarryForwards: vi.spyOn(storage, "getDeductionCarryForwards"),
+  getPayrollSalaryAdvances: vi.spyOn(storage, "getPayrollSalaryAdvances"),
+  getRetroPayrollSources: vi.spyOn(storage, "getRetroPayrollSources"),
   createNotification: vi.spyOn(storage, "createNotification"),
 };
 
@@ -182,6 +189,13 @@ describe("payroll generation with allowances disabled", () => {
       } as any,
     ]);
     storageSpies.getScheduleSummary.mockResolvedValue({});
+    storageSpies.getSocialInsuranceRates.mockResolvedValue([]);
+    storageSpies.getCompensationChanges.mockResolvedValue([]);
+    storageSpies.getCompanyHolidays.mockResolvedValue([]);
+    storageSpies.getEmployeePayComponents.mockResolvedValue([]);
+    storageSpies.getDeductionCarryForwards.mockResolvedValue({});
+    storageSpies.getPayrollSalaryAdvances.mockResolvedValue({});
+    storageSpies.getRetroPayrollSources.mockResolvedValue([]);
     storageSpies.getAttendanceSummary.mockResolvedValue({});
     storageSpies.getCompanies.mockResolvedValue([
       {
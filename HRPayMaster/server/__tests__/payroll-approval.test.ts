@@ -0,0 +1,376 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getPayrollRun: vi.fn(),
+  getCompanies: vi.fn(),
+  getEmployees: vi.fn(),
+  getDepartments: vi.fn(),
+  getGlAccountMappings: vi.fn(),
+  transitionPayrollRun: vi.fn(),
+  postPayrollRunLoanDeductions: vi.fn(),
+  undoPayrollRunLoanDeductions: vi.fn(),
+  getEmployeeEvents: vi.fn(),
+  markPayrollRunEventsProcessed: vi.fn(),
+  reopenPayrollRunEvents: vi.fn(),
+  reopenPayrollRunSalaryAdvances: vi.fn(),
+  postPayrollRunSalaryAdvanceRecoveries: vi.fn(),
+  updatePayrollRun: vi.fn(),
+  updatePayrollEntry: vi.fn(),
+  deletePayrollRun: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+const dbMock = vi.hoisted(() => ({
+  query: {
+    payrollRuns: { findFirst: vi.fn() },
+    payrollEntries: { findFirst: vi.fn() },
+  },
+  transaction: vi.fn(),
+}));
+
+vi.mock("../db", () => ({ db: dbMock }));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(
+  userId: string,
+  permissions: string[] = ["payroll:manage", "payroll:approve"],
+) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: userId, role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const submittedRun = { id: "run-1", status: "submitted", createdBy: "maker-1" };
+const approvedRun = { id: "run-1", status: "approved", createdBy: "maker-1" };
+const draftRun = {
+  id: "run-1",
+  status: "draft",
+  createdBy: "maker-1",
+  startDate: "2024-01-01",
+  endDate: "2024-01-31",
+};
+
+const runWithEntries = (netPay: string) => ({
+  ...submittedRun,
+  period: "Jan 2024",
+  endDate: "2024-01-31",
+  companyId: null,
+  entries: [
+    {
+      employeeId: "emp-1",
+      grossPay: "1000",
+      baseSalary: "1000",
+      bonusAmount: "0",
+      netPay,
+      taxDeduction: "0",
+      socialSecurityDeduction: "0",
+      healthInsuranceDeduction: "0",
+      loanDeduction: "100",
+      otherDeductions: "0",
+    },
+  ],
+});
+
+// A one-time bonus the entry paid and a monthly allowance, which stays open.
+const paidEventSteps = [
+  { category: "bonus", outcome: "included", label: "Bonus", amount: 200, sourceId: "evt-bonus" },
+  { category: "allowance", outcome: "included", label: "Rent", amount: 50, sourceId: "evt-monthly" },
+];
+
+const periodEvents = (bonus: Record<string, unknown> = {}) => [
+  { id: "evt-bonus", recurrenceType: "none", status: "active", payrollRunId: null, ...bonus },
+  { id: "evt-monthly", recurrenceType: "monthly", status: "active", payrollRunId: null },
+];
+
+// Loan balances as storage posts and restores them.
+const loanBalances = new Map<string, number>();
+
+describe("payroll run approval lifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    loanBalances.clear();
+    loanBalances.set("loan-1", 500);
+    dbMock.transaction.mockImplementation(async (callback: any) => callback({}));
+    storageMock.postPayrollRunLoanDeductions.mockImplementation(async () => {
+      loanBalances.set("loan-1", loanBalances.get("loan-1")! - 100);
+      return { loans: [], loanPayments: [{ loanId: "loan-1", amount: "100.00" }] };
+    });
+    storageMock.undoPayrollRunLoanDeductions.mockImplementation(async () => ({
+      payrollRun: submittedRun,
+      loans: [],
+      loanPayments: [],
+    }));
+    storageMock.transitionPayrollRun.mockImplementation(async (id, _from, changes) => ({
+      ...submittedRun,
+      id,
+      ...changes,
+    }));
+    storageMock.getPayrollRun.mockResolvedValue(runWithEntries("900"));
+    storageMock.getCompanies.mockResolvedValue([]);
+    storageMock.getEmployees.mockResolvedValue([{ id: "emp-1", departmentId: null }]);
+    storageMock.getDepartments.mockResolvedValue([]);
+    storageMock.getGlAccountMappings.mockResolvedValue([]);
+  });
+
+  it("lets a second user approve a submitted run and audits the transition", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(submittedRun);
+    const app = await createApp("checker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/approve").send({ notes: "Looks good" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe("approved");
+    expect(storageMock.transitionPayrollRun).toHaveBeenCalledWith(
+      "run-1",
+      "submitted",
+      expect.objectContaining({ status: "approved", approvedBy: "checker-1" }),
+      {},
+    );
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorId: "checker-1",
+        entityId: "run-1",
+        metadata: expect.objectContaining({
+          action: "approve",
+          fromStatus: "submitted",
+          toStatus: "approved",
+          notes: "Looks good",
+        }),
+      }),
+    );
+  });
+
+  it("posts loan deductions when the run is approved", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(submittedRun);
+    const app = await createApp("checker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/approve").send({});
+
+    expect(res.status).toBe(200);
+    expect(storageMock.postPayrollRunLoanDeductions).toHaveBeenCalledWith("run-1", {});
+    expect(storageMock.postPayrollRunSalaryAdvanceRecoveries).toHaveBeenCalledWith("run-1", {});
+    expect(loanBalances.get("loan-1")).toBe(400);
+  });
+
+  it("leaves loan balances alone when a submitted run is rejected or cancelled", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(submittedRun);
+    const app = await createApp("checker-1");
+
+    const rejected = await request(app).post("/api/payroll/run-1/reject").send({});
+    const cancelled = await request(app).post("/api/payroll/run-1/cancel").send({});
+
+    expect(rejected.status).toBe(200);
+    expect(cancelled.status).toBe(200);
+    expect(storageMock.postPayrollRunLoanDeductions).not.toHaveBeenCalled();
+    expect(loanBalances.get("loan-1")).toBe(500);
+    expect(storageMock.reopenPayrollRunEvents).toHaveBeenCalledWith("run-1", {});
+  });
+
+  it("restores loan payments a submitted run already posted when it is rejected or cancelled", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(submittedRun);
+    // Runs submitted before loans were posted on approval.
+    loanBalances.set("loan-1", 400);
+    storageMock.undoPayrollRunLoanDeductions.mockImplementation(async () => {
+      loanBalances.set("loan-1", 500);
+      return { payrollRun: submittedRun, loans: [], loanPayments: [] };
+    });
+    const app = await createApp("checker-1");
+
+    const rejected = await request(app).post("/api/payroll/run-1/reject").send({});
+    expect(rejected.status).toBe(200);
+    expect(storageMock.undoPayrollRunLoanDeductions).toHaveBeenCalledWith("run-1", { tx: {} });
+    expect(storageMock.reopenPayrollRunSalaryAdvances).toHaveBeenCalledWith("run-1", {});
+    expect(loanBalances.get("loan-1")).toBe(500);
+
+    loanBalances.set("loan-1", 400);
+    const cancelled = await request(app).post("/api/payroll/run-1/cancel").send({});
+    expect(cancelled.status).toBe(200);
+    expect(loanBalances.get("loan-1")).toBe(500);
+  });
+
+  it("recovers a final settlement's loans once when it is rejected and approved again", async () => {
+    let settlementRun: Record<string, unknown> = { ...submittedRun, runType: "final_settlement" };
+    let posted = false;
+    dbMock.query.payrollRuns.findFirst.mockImplementation(async () => settlementRun);
+    storageMock.transitionPayrollRun.mockImplementation(async (_id, _from, changes) => {
+      settlementRun = { ...settlementRun, ...changes };
+      return settlementRun;
+    });
+    storageMock.postPayrollRunLoanDeductions.mockImplementation(async () => {
+      if (!posted) loanBalances.set("loan-1", loanBalances.get("loan-1")! - 100);
+      posted = true;
+      return { loans: [], loanPayments: [] };
+    });
+    storageMock.undoPayrollRunLoanDeductions.mockImplementation(async () => {
+      if (posted) loanBalances.set("loan-1", loanBalances.get("loan-1")! + 100);
+      posted = false;
+      return { payrollRun: settlementRun, loans: [], loanPayments: [] };
+    });
+    const maker = await createApp("maker-1");
+    const checker = await createApp("checker-1");
+
+    expect((await request(checker).post("/api/payroll/run-1/reject").send({})).status).toBe(200);
+    expect(loanBalances.get("loan-1")).toBe(500);
+    expect((await request(maker).post("/api/payroll/run-1/submit").send({})).status).toBe(200);
+    expect((await request(checker).post("/api/payroll/run-1/approve").send({})).status).toBe(200);
+
+    expect(storageMock.postPayrollRunLoanDeductions).toHaveBeenCalledTimes(1);
+    expect(loanBalances.get("loan-1")).toBe(400);
+  });
+
+  it("marks the one-time events a draft run pays when it is submitted", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(draftRun);
+    storageMock.getPayrollRun.mockResolvedValue({
+      ...draftRun,
+      entries: [{ employeeId: "emp-1", calculationTrace: { inputs: [], steps: paidEventSteps } }],
+    });
+    storageMock.getEmployeeEvents.mockResolvedValue(periodEvents());
+    storageMock.markPayrollRunEventsProcessed.mockResolvedValue(1);
+    const app = await createApp("maker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/submit").send({});
+
+    expect(res.status).toBe(200);
+    expect(storageMock.markPayrollRunEventsProcessed).toHaveBeenCalledWith("run-1", ["evt-bonus"], {});
+  });
+
+  it("refuses to submit a run whose events another run has paid", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(draftRun);
+    storageMock.getPayrollRun.mockResolvedValue({
+      ...draftRun,
+      entries: [{ employeeId: "emp-1", calculationTrace: { inputs: [], steps: paidEventSteps } }],
+    });
+    storageMock.getEmployeeEvents.mockResolvedValue(
+      periodEvents({ status: "processed", payrollRunId: "run-bonus" }),
+    );
+    const app = await createApp("maker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/submit").send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("payrollRunEventsClaimed");
+    expect(storageMock.markPayrollRunEventsProcessed).not.toHaveBeenCalled();
+  });
+
+  it("refuses approval while the payroll journal does not balance", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(submittedRun);
+    // Net pay edited without adjusting the deductions.
+    storageMock.getPayrollRun.mockResolvedValue(runWithEntries("950"));
+    const app = await createApp("checker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/approve").send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("payrollJournalUnbalanced");
+    expect(res.body.error.message).toContain("difference -50.00");
+    expect(storageMock.transitionPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("requires payroll:view to read the payroll journal", async () => {
+    const denied = await createApp("viewer-1", []);
+    const viewer = await createApp("viewer-1", ["payroll:view"]);
+
+    const journal = await request(denied).get("/api/payroll/run-1/journal");
+    const exported = await request(denied).get("/api/payroll/run-1/journal/export");
+    const mappings = await request(denied).get("/api/payroll/gl-mappings");
+
+    expect([journal.status, exported.status, mappings.status]).toEqual([403, 403, 403]);
+    expect(storageMock.getPayrollRun).not.toHaveBeenCalled();
+    expect((await request(viewer).get("/api/payroll/run-1/journal")).status).toBe(200);
+  });
+
+  it("requires payroll:view to export the calculation trace", async () => {
+    const app = await createApp("viewer-1", []);
+
+    const res = await request(app).get("/api/payroll/run-1/trace/export");
+
+    expect(res.status).toBe(403);
+    expect(storageMock.getPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("blocks the generator from approving their own run", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(submittedRun);
+    const app = await createApp("maker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/approve").send({});
+
+    expect(res.status).toBe(403);
+    expect(storageMock.transitionPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("requires the payroll:approve permission", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(submittedRun);
+    const app = await createApp("checker-1", ["payroll:manage"]);
+
+    const res = await request(app).post("/api/payroll/run-1/approve").send({});
+
+    expect(res.status).toBe(403);
+    expect(storageMock.transitionPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("rejects out-of-order transitions", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue({ ...submittedRun, status: "draft" });
+    const app = await createApp("checker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/mark-paid").send({});
+
+    expect(res.status).toBe(409);
+  });
+
+  it("refuses to change the status through PUT", async () => {
+    const app = await createApp("checker-1");
+
+    const res = await request(app).put("/api/payroll/run-1").send({ status: "approved" });
+
+    expect(res.status).toBe(400);
+    expect(storageMock.updatePayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("rejects entry edits, recalculation and deletion once approved", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(approvedRun);
+    dbMock.query.payrollEntries.findFirst.mockResolvedValue({
+      id: "entry-1",
+      payrollRunId: "run-1",
+      payrollRun: approvedRun,
+    });
+    const app = await createApp("maker-1");
+
+    const edit = await request(app).put("/api/payroll/entries/entry-1").send({ netPay: "10" });
+    const recalc = await request(app).post("/api/payroll/run-1/recalculate").send({});
+    const remove = await request(app).delete("/api/payroll/run-1");
+
+    expect(edit.status).toBe(409);
+    expect(edit.body.error.code).toBe("payrollRunLocked");
+    expect(recalc.status).toBe(409);
+    expect(remove.status).toBe(409);
+    expect(storageMock.updatePayrollEntry).not.toHaveBeenCalled();
+    expect(storageMock.deletePayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("refuses to recalculate a cancelled run", async () => {
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue({ ...draftRun, status: "cancelled" });
+    const app = await createApp("maker-1");
+
+    const res = await request(app).post("/api/payroll/run-1/recalculate").send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("payrollRunNotRecalculable");
+    expect(dbMock.transaction).not.toHaveBeenCalled();
+  });
+});
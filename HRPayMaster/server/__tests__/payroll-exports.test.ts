@@ -0,0 +1,227 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { Readable } from "node:stream";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getPayrollRun: vi.fn(),
+  getPayrollExportFiles: vi.fn(),
+  getPayrollExportFile: vi.fn(),
+  savePayrollExportFiles: vi.fn(),
+  getCompanies: vi.fn(),
+  getEmployees: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+const buildPayrollExportsMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+vi.mock("../utils/payrollExports", async importOriginal => ({
+  ...(await importOriginal<typeof import("../utils/payrollExports")>()),
+  buildPayrollExports: buildPayrollExportsMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+import { setBlobStore, BlobNotFoundError, type BlobStore } from "../blobStore";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:manage"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "user-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const blobs = new Map<string, Buffer>();
+const memoryStore: BlobStore = {
+  put: async (key, content) => {
+    blobs.set(key, content);
+  },
+  get: async key => {
+    const content = blobs.get(key);
+    if (!content) throw new BlobNotFoundError(key);
+    return Readable.from([content]);
+  },
+  delete: async key => {
+    blobs.delete(key);
+  },
+};
+
+const run = {
+  id: "run-1",
+  period: "Jan 2025",
+  startDate: "2025-01-01",
+  endDate: "2025-01-31",
+  status: "completed",
+  companyId: "co-1",
+  scenarioKey: "baseline",
+  scenarioToggles: {},
+  exportArtifacts: [
+    {
+      id: "legacy-bank",
+      type: "bank",
+      format: "csv",
+      filename: "bank.csv",
+      mimeType: "text/csv",
+      data: Buffer.from("legacy,row").toString("base64"),
+      createdAt: "2025-02-01T00:00:00.000Z",
+    },
+  ],
+  entries: [{ id: "entry-1", payrollRunId: "run-1", employeeId: "emp-1", grossPay: "1000", netPay: "900" }],
+};
+
+const file = {
+  id: "file-2",
+  payrollRunId: "run-1",
+  artifactId: "bank-csv",
+  version: 2,
+  type: "bank",
+  format: "csv",
+  filename: "bank.csv",
+  mimeType: "text/csv",
+  storageKey: "payroll-exports/run-1/file-2",
+  sizeBytes: 10,
+  checksum: "abc123",
+  scenarioKey: "baseline",
+  description: null,
+  createdBy: "user-1",
+  createdAt: "2025-02-02T00:00:00.000Z",
+};
+
+describe("payroll export files", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    blobs.clear();
+    setBlobStore(memoryStore);
+    storageMock.getPayrollRun.mockResolvedValue(run);
+    storageMock.logSecurityEvent.mockResolvedValue(undefined);
+    storageMock.getCompanies.mockResolvedValue([
+      {
+        id: "co-1",
+        name: "Acme",
+        payrollExportFormats: [{ id: "bank-csv", type: "bank", format: "csv", enabled: true }],
+      },
+    ]);
+    storageMock.getEmployees.mockResolvedValue([
+      { id: "emp-1", firstName: "Amal" },
+      { id: "emp-2", firstName: "Other" },
+    ]);
+  });
+
+  afterEach(() => {
+    setBlobStore(undefined);
+  });
+
+  it("lists every stored version of a run's exports", async () => {
+    storageMock.getPayrollExportFiles.mockResolvedValue([file, { ...file, id: "file-1", version: 1 }]);
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/exports");
+
+    expect(res.status).toBe(200);
+    expect(res.body.map((item: any) => item.version)).toEqual([2, 1]);
+    expect(storageMock.getPayrollExportFiles).toHaveBeenCalledWith("run-1");
+  });
+
+  it("streams a stored file with its checksum", async () => {
+    blobs.set(file.storageKey, Buffer.from("bank,rows\n"));
+    storageMock.getPayrollExportFile.mockResolvedValue(file);
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/exports/file-2");
+
+    expect(res.status).toBe(200);
+    expect(res.text).toBe("bank,rows\n");
+    expect(res.headers["content-disposition"]).toContain('filename="bank.csv"');
+    expect(res.headers["x-checksum-sha256"]).toBe("abc123");
+    expect(res.headers.etag).toBe('"abc123"');
+    expect(storageMock.logSecurityEvent).toHaveBeenCalled();
+  });
+
+  it("serves exports still stored inline on older runs", async () => {
+    storageMock.getPayrollExportFile.mockResolvedValue(undefined);
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/exports/legacy-bank");
+
+    expect(res.status).toBe(200);
+    expect(res.text).toBe("legacy,row");
+  });
+
+  it("returns 404 for unknown files and 410 when the content is gone", async () => {
+    storageMock.getPayrollExportFile.mockResolvedValueOnce(undefined);
+    const app = await createApp();
+
+    const missing = await request(app).get("/api/payroll/run-1/exports/nope");
+    expect(missing.status).toBe(404);
+
+    storageMock.getPayrollExportFile.mockResolvedValueOnce(file);
+    const gone = await request(app).get("/api/payroll/run-1/exports/file-2");
+    expect(gone.status).toBe(410);
+  });
+
+  it("regenerates the requested exports as new versions", async () => {
+    buildPayrollExportsMock.mockResolvedValue([
+      {
+        id: "bank-csv",
+        type: "bank",
+        format: "csv",
+        filename: "bank.csv",
+        mimeType: "text/csv",
+        createdAt: "2025-02-02T00:00:00.000Z",
+        content: Buffer.from("bank,rows\n"),
+      },
+    ]);
+    storageMock.savePayrollExportFiles.mockResolvedValue([{ id: "bank-csv", fileId: "file-3", version: 3 }]);
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/run-1/exports")
+      .send({ exports: [{ formatId: "bank-csv" }] });
+
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual([{ id: "bank-csv", fileId: "file-3", version: 3 }]);
+    expect(buildPayrollExportsMock.mock.calls[0][0].employees.map((employee: any) => employee.id)).toEqual([
+      "emp-1",
+    ]);
+    expect(storageMock.savePayrollExportFiles).toHaveBeenCalledWith(
+      "run-1",
+      expect.arrayContaining([expect.objectContaining({ id: "bank-csv" })]),
+      "user-1",
+    );
+  });
+
+  it("rejects formats the company has disabled", async () => {
+    storageMock.getCompanies.mockResolvedValue([
+      {
+        id: "co-1",
+        name: "Acme",
+        payrollExportFormats: [{ id: "bank-csv", type: "bank", format: "csv", enabled: false }],
+      },
+    ]);
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/run-1/exports")
+      .send({ exports: [{ formatId: "bank-csv" }] });
+
+    expect(res.status).toBe(400);
+    expect(storageMock.savePayrollExportFiles).not.toHaveBeenCalled();
+  });
+});
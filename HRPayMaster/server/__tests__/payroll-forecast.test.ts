@@ -0,0 +1,99 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getEmployees: vi.fn(),
+  getDepartments: vi.fn(),
+  getCompanies: vi.fn(),
+  getCompensationChanges: vi.fn(),
+  getEmployeePayComponents: vi.fn(),
+  getLoans: vi.fn(),
+  getEmployeeEvents: vi.fn(),
+  getVacationRequests: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["reports:finance"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+describe("payroll forecast report", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getEmployees.mockResolvedValue([
+      { id: "emp-1", firstName: "Fatima", lastName: "Al-Sabah", salary: "1000", startDate: "2020-01-01", departmentId: "dep-sales", companyId: "co-1" },
+      { id: "emp-2", firstName: "Omar", lastName: "Haddad", salary: "600", startDate: "2021-05-01", departmentId: "dep-ops", companyId: "co-1" },
+    ]);
+    storageMock.getDepartments.mockResolvedValue([
+      { id: "dep-sales", name: "Sales" },
+      { id: "dep-ops", name: "Operations" },
+    ]);
+    storageMock.getCompanies.mockResolvedValue([{ id: "co-1", name: "Acme" }]);
+    storageMock.getCompensationChanges.mockResolvedValue([]);
+    storageMock.getEmployeePayComponents.mockResolvedValue([]);
+    storageMock.getLoans.mockResolvedValue([]);
+    storageMock.getEmployeeEvents.mockResolvedValue([]);
+    storageMock.getVacationRequests.mockResolvedValue([]);
+  });
+
+  it("projects twelve months for the selected departments", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .get("/api/reports/payroll-forecast")
+      .query({ startMonth: "2025-01", departmentIds: "dep-sales", companyId: "co-1" });
+
+    expect(res.status).toBe(200);
+    expect(storageMock.getEmployees).toHaveBeenCalledWith({ status: ["active"], companyId: "co-1" });
+    expect(storageMock.getCompensationChanges).toHaveBeenCalledWith(new Date(Date.UTC(2025, 11, 31)));
+    expect(res.body.months).toHaveLength(12);
+    expect(res.body.endMonth).toBe("2025-12");
+    expect(res.body.departments.map((group: any) => group.name)).toEqual(["Sales"]);
+    expect(res.body.companies[0]).toMatchObject({ id: "co-1", name: "Acme" });
+    expect(res.body.total.grossPay).toBe(12000);
+  });
+
+  it("exports the forecast as CSV", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .get("/api/reports/payroll-forecast")
+      .query({ startMonth: "2025-01", months: 2, format: "csv" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/csv");
+    expect(res.headers["content-disposition"]).toContain("payroll-forecast-2025-01-2025-02.csv");
+    expect(res.text).toContain("2025-02,Total,,2,1600.00");
+  });
+
+  it("rejects horizons longer than two years", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/reports/payroll-forecast").query({ months: 36 });
+
+    expect(res.status).toBe(400);
+  });
+});
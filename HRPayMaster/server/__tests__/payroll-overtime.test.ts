@@ -0,0 +1,182 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const { storageMock, dbMock, insertedRuns, insertedEntries } = vi.hoisted(() => ({
+  storageMock: {
+    getCompanies: vi.fn(),
+    getEmployees: vi.fn(),
+    getLoans: vi.fn(),
+    getVacationRequests: vi.fn(),
+    getEmployeeEvents: vi.fn(),
+    getScheduleSummary: vi.fn(),
+    getSocialInsuranceRates: vi.fn(),
+    getCompensationChanges: vi.fn(),
+    getCompanyHolidays: vi.fn(),
+    getEmployeePayComponents: vi.fn(),
+    getDeductionCarryForwards: vi.fn(),
+    getPayrollSalaryAdvances: vi.fn(),
+    getAttendanceSummary: vi.fn(),
+    getRetroPayrollSources: vi.fn(),
+    updateLoanScheduleStatuses: vi.fn(),
+    createNotification: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+  dbMock: {
+    transaction: vi.fn(),
+    query: { payrollRuns: { findFirst: vi.fn() } },
+  },
+  insertedRuns: [] as any[],
+  insertedEntries: [] as any[],
+}));
+
+vi.mock("../db", () => ({ db: dbMock }));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+import { payrollEntries, payrollRuns } from "@shared/schema";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:manage"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const period = { period: "Feb 2024", startDate: "2024-02-01", endDate: "2024-02-29" };
+
+describe("schedule overtime in payroll runs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insertedRuns.length = 0;
+    insertedEntries.length = 0;
+
+    storageMock.getCompanies.mockResolvedValue([
+      {
+        id: "co-kw",
+        name: "Gulf Trading",
+        currencyCode: "KWD",
+        locale: "en-KW",
+        payrollExportFormats: [],
+        overtimeRates: { normalDayRate: 1.5, restDayRate: 2, publicHolidayRate: 3 },
+      },
+    ]);
+    storageMock.getEmployees.mockResolvedValue([
+      { id: "emp-1", companyId: "co-kw", salary: "1200", status: "active", standardWorkingDays: 30 },
+    ]);
+    storageMock.getLoans.mockResolvedValue([]);
+    storageMock.getVacationRequests.mockResolvedValue([]);
+    storageMock.getEmployeeEvents.mockResolvedValue([]);
+    storageMock.getScheduleSummary.mockResolvedValue({
+      "emp-1": {
+        expectedMinutes: 960,
+        actualMinutes: 1260,
+        missingPunches: 0,
+        pendingLate: [],
+        pendingAbsence: [],
+        pendingOvertime: [],
+        overtimeLimitBreaches: [],
+        approvedOvertime: [
+          { scheduleId: "s-1", date: "2024-02-04", minutes: 180, expectedMinutes: 480, limitMinutes: 120 },
+          { scheduleId: "s-2", date: "2024-02-09", minutes: 120, expectedMinutes: 0, limitMinutes: 120 },
+        ],
+      },
+    });
+    storageMock.getSocialInsuranceRates.mockResolvedValue([]);
+    storageMock.getCompensationChanges.mockResolvedValue([]);
+    storageMock.getCompanyHolidays.mockResolvedValue([]);
+    storageMock.getEmployeePayComponents.mockResolvedValue([]);
+    storageMock.getDeductionCarryForwards.mockResolvedValue({});
+    storageMock.getPayrollSalaryAdvances.mockResolvedValue({});
+    storageMock.getAttendanceSummary.mockResolvedValue({});
+    storageMock.getRetroPayrollSources.mockResolvedValue([]);
+
+    const tx = {
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          if (table === payrollRuns) {
+            const record = { ...values, id: "run-1" };
+            insertedRuns.push(record);
+            return { returning: async () => [record] };
+          }
+          if (table === payrollEntries) {
+            insertedEntries.push(...(Array.isArray(values) ? values : [values]));
+          }
+          return Promise.resolve([]);
+        },
+      })),
+      update: vi.fn(() => ({ set: () => ({ where: async () => [] }) })),
+      rollback: vi.fn(),
+    };
+    dbMock.transaction.mockImplementation(async (callback: any) => callback(tx));
+    dbMock.query.payrollRuns.findFirst.mockResolvedValue(undefined);
+  });
+
+  it("pays approved overtime at the company's rates up to the shift limit", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/generate").send(period);
+
+    expect(res.status).toBe(201);
+    // 1200 / 30 days / 8 hours = 5 an hour: 2h capped at 1.5x plus 2h rest day at 2x
+    expect(insertedEntries[0]).toMatchObject({
+      overtimeAmount: "35",
+      bonusAmount: "35",
+      grossPay: "1235",
+    });
+    expect(insertedEntries[0].overtimeLines).toEqual([
+      expect.objectContaining({ scheduleId: "s-1", dayType: "normal", approvedMinutes: 180, paidMinutes: 120, rate: 1.5 }),
+      expect.objectContaining({ scheduleId: "s-2", dayType: "rest_day", paidMinutes: 120, rate: 2 }),
+    ]);
+  });
+
+  it("pays overtime on calendar holidays at the public holiday rate", async () => {
+    storageMock.getCompanyHolidays.mockResolvedValue([
+      {
+        id: "h-1",
+        companyId: "co-kw",
+        name: "National Day",
+        kind: "annual",
+        date: "2020-02-09",
+        hijriMonth: null,
+        hijriDay: null,
+        durationDays: 1,
+        confirmedDates: {},
+      },
+    ]);
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/generate").send(period);
+
+    expect(res.status).toBe(201);
+    expect(insertedEntries[0].overtimeLines[1]).toMatchObject({
+      scheduleId: "s-2",
+      dayType: "public_holiday",
+      rate: 3,
+      amount: 30,
+    });
+    expect(insertedEntries[0].overtimeAmount).toBe("45");
+  });
+
+  it("leaves overtime out when the scenario excludes it", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/generate")
+      .send({ ...period, scenarioToggles: { overtime: false } });
+
+    expect(res.status).toBe(201);
+    expect(insertedEntries[0]).toMatchObject({ overtimeAmount: "0", overtimeLines: null });
+  });
+});
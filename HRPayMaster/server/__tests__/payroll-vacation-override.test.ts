@@ -68,6 +68,14 @@ const storageSpies = {
   getCompanies: vi.spyOn(storage, "getCompanies"),
   getAttendanceSummary: vi.spyOn(storage, "getAttendanceSummary"),
   getScheduleSummary: vi.spyOn(storage, "getScheduleSummary"),
+  getSocialInsuranceRates: vi.spyOn(storage, "getSocialInsuranceRates"),
+  getCompensationChanges: vi.spyOn(storage, "getCompensationChanges"),
+  getCompanyHolidays: vi.spyOn(storage, "getCompanyHolidays"),
+  getEmployeePayComponents: vi.spyOn(storage, "getEmployeePayComponents"),
+  getDeductionCarryForwards: vi.spyOn(storage, "getDeductionCarryForwards"),
+  getPayrollSalaryAdvances: vi.spyOn(storage, "getPayrollSalaryAdvances"),
+  getRetroPayrollSources: vi.spyOn(storage, "getRetroPayrollSources"),
+  reopenPayrollRunEvents: vi.spyOn(storage, "reopenPayrollRunEvents"),
   getPayrollRun: vi.spyOn(storage, "getPayrollRun"),
 };
 
@@ -97,7 +105,7 @@ describe("payroll vacation override endpoint", () => {
       grossAmount: "0",
       totalDeductions: "0",
       netAmount: "0",
-      status: "completed",
+      status: "submitted",
       scenarioToggles: {},
       exportArtifacts: [],
       calendarId: null,
@@ -206,6 +214,14 @@ describe("payroll vacation override endpoint", () => {
     ]);
     storageSpies.getAttendanceSummary.mockResolvedValue({});
     storageSpies.getScheduleSummary.mockResolvedValue({});
+    storageSpies.getSocialInsuranceRates.mockResolvedValue([]);
+    storageSpies.getCompensationChanges.mockResolvedValue([]);
+    storageSpies.getCompanyHolidays.mockResolvedValue([]);
+    storageSpies.getEmployeePayComponents.mockResolvedValue([]);
+    storageSpies.getDeductionCarryForwards.mockResolvedValue({});
+    storageSpies.getPayrollSalaryAdvances.mockResolvedValue({});
+    storageSpies.getRetroPayrollSources.mockResolvedValue([]);
+    storageSpies.reopenPayrollRunEvents.mockResolvedValue(0);
 
     storageSpies.getPayrollRun.mockImplementation(async (id: string) => {
       if (id !== "run-1") return undefined;
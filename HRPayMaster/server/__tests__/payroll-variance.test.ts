@@ -0,0 +1,138 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const { storageMock } = vi.hoisted(() => ({
+  storageMock: {
+    getPayrollRun: vi.fn(),
+    getPreviousPayrollRun: vi.fn(),
+    getEmployees: vi.fn(),
+    updatePayrollRun: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock("../db", () => ({ db: {} }));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:approve"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const run = (id: string, period: string, status: string, entries: any[]) => ({
+  id,
+  period,
+  status,
+  entries,
+  varianceSignedOffBy: null,
+  varianceSignedOffAt: null,
+});
+
+describe("payroll variance routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getPayrollRun.mockResolvedValue(
+      run("run-feb", "Feb 2024", "submitted", [
+        { employeeId: "emp-1", grossPay: "1000", netPay: "1000", baseSalary: "1000" },
+        { employeeId: "emp-2", grossPay: "800", netPay: "800", baseSalary: "800" },
+      ]),
+    );
+    storageMock.getPreviousPayrollRun.mockResolvedValue(
+      run("run-jan", "Jan 2024", "paid", [
+        { employeeId: "emp-1", grossPay: "1000", netPay: "1000", baseSalary: "1000" },
+      ]),
+    );
+    storageMock.getEmployees.mockResolvedValue([
+      { id: "emp-1", employeeCode: "E001", firstName: "Fatima", lastName: "Ali", paymentMethod: "cash" },
+      { id: "emp-2", employeeCode: "E002", firstName: "Omar", lastName: "Haddad", paymentMethod: "cash" },
+    ]);
+    storageMock.updatePayrollRun.mockImplementation(async (_id: string, updates: any) => ({
+      id: "run-feb",
+      ...updates,
+    }));
+  });
+
+  it("compares the run with the previous one", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-feb/variance?thresholdPercent=5");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      previousRunId: "run-jan",
+      thresholdPercent: 5,
+      flaggedEmployees: 1,
+      totals: { previousNet: 1000, currentNet: 1800, netChange: 800 },
+    });
+    expect(res.body.lines[0]).toMatchObject({ employeeId: "emp-2", flags: ["new_hire"] });
+  });
+
+  it("requires payroll:view to read the variance report", async () => {
+    const app = await createApp([]);
+
+    const res = await request(app).get("/api/payroll/run-feb/variance");
+
+    expect(res.status).toBe(403);
+    expect(storageMock.getPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("rejects an invalid threshold", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-feb/variance?thresholdPercent=-1");
+
+    expect(res.status).toBe(400);
+    expect(storageMock.getPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("records who signed off the review", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/run-feb/variance/sign-off").send({});
+
+    expect(res.status).toBe(200);
+    expect(storageMock.updatePayrollRun).toHaveBeenCalledWith(
+      "run-feb",
+      expect.objectContaining({ varianceSignedOffBy: "hr-1", varianceSignedOffAt: expect.any(Date) }),
+    );
+    expect(res.body.signedOffBy).toBe("hr-1");
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ summary: "Signed off payroll variance report" }),
+    );
+  });
+
+  it("does not sign off frozen runs", async () => {
+    storageMock.getPayrollRun.mockResolvedValue(run("run-feb", "Feb 2024", "approved", []));
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/run-feb/variance/sign-off").send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("payrollRunLocked");
+    expect(storageMock.updatePayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("requires approval rights to sign off", async () => {
+    const app = await createApp(["payroll:view"]);
+
+    const res = await request(app).post("/api/payroll/run-feb/variance/sign-off").send({});
+
+    expect(res.status).toBe(403);
+  });
+});
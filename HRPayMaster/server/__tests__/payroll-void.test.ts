@@ -0,0 +1,156 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getPayrollRun: vi.fn(),
+  voidPayrollRun: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["payroll:manage", "payroll:approve"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "approver-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const paidRun = {
+  id: "run-1",
+  period: "Jan 2025",
+  startDate: "2025-01-01",
+  endDate: "2025-01-31",
+  grossAmount: "1250.00",
+  totalDeductions: "225.50",
+  netAmount: "1024.50",
+  status: "paid",
+  runType: "regular",
+  companyId: "co-1",
+  calendarId: null,
+  cycleLabel: null,
+  scenarioKey: "baseline",
+  scenarioToggles: {},
+  entries: [
+    {
+      id: "entry-1",
+      payrollRunId: "run-1",
+      employeeId: "emp-1",
+      grossPay: "1250.00",
+      baseSalary: "1000.00",
+      bonusAmount: "0",
+      workingDays: 31,
+      actualWorkingDays: 31,
+      vacationDays: 0,
+      taxDeduction: "0",
+      socialSecurityDeduction: "105.00",
+      healthInsuranceDeduction: "0",
+      loanDeduction: "100.00",
+      otherDeductions: "20.50",
+      netPay: "1024.50",
+      allowances: null,
+      socialInsuranceBreakdown: null,
+      retroAmount: "0",
+      overtimeAmount: "0",
+    },
+  ],
+};
+
+describe("payroll run void", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getPayrollRun.mockResolvedValue(paidRun);
+    storageMock.voidPayrollRun.mockImplementation(async (id, input) => ({
+      run: { ...paidRun, id, status: "voided", voidReason: input.reason },
+      reversal: { ...input.reversal, id: "run-2", reversalOfRunId: id },
+      loans: [{ id: "loan-1" }],
+      loanPayments: [],
+      reopenedEvents: 1,
+      reopenedInstallments: 1,
+    }));
+  });
+
+  it("records a reversing run that negates every entry", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/run-1/void").send({ reason: "Paid the wrong month" });
+
+    expect(res.status).toBe(201);
+    expect(storageMock.voidPayrollRun).toHaveBeenCalledTimes(1);
+    const [id, input] = storageMock.voidPayrollRun.mock.calls[0];
+    expect(id).toBe("run-1");
+    expect(input).toMatchObject({
+      fromStatus: "paid",
+      reason: "Paid the wrong month",
+      voidedBy: "approver-1",
+      reversal: {
+        period: "Jan 2025",
+        grossAmount: "-1250.00",
+        totalDeductions: "-225.50",
+        netAmount: "-1024.50",
+        status: "approved",
+        runType: "reversal",
+        companyId: "co-1",
+      },
+    });
+    expect(input.entries).toEqual([
+      expect.objectContaining({
+        employeeId: "emp-1",
+        netPay: "-1024.50",
+        loanDeduction: "-100.00",
+        adjustmentReason: "Reversal of Jan 2025: Paid the wrong month",
+      }),
+    ]);
+    expect(res.body.reversal.id).toBe("run-2");
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ entityId: "run-1", summary: "Voided payroll run" }),
+    );
+  });
+
+  it("refuses to void runs that were never finalised", async () => {
+    storageMock.getPayrollRun.mockResolvedValue({ ...paidRun, status: "submitted" });
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/run-1/void").send({ reason: "Paid the wrong month" });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("payrollRunNotVoidable");
+    expect(storageMock.voidPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("requires a reason", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/run-1/void").send({});
+
+    expect(res.status).toBe(400);
+    expect(storageMock.getPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("is limited to payroll approvers", async () => {
+    const app = await createApp(["payroll:manage"]);
+
+    const res = await request(app).post("/api/payroll/run-1/void").send({ reason: "Paid the wrong month" });
+
+    expect(res.status).toBe(403);
+  });
+});
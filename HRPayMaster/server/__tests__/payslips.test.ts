@@ -0,0 +1,223 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import * as XLSX from "xlsx";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getPayrollRun: vi.fn(),
+  getEmployees: vi.fn(),
+  getCompanies: vi.fn(),
+  getPayslipDeliveries: vi.fn(),
+  recordPayslipDelivery: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+const emailMock = vi.hoisted(() => ({
+  sendEmail: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+vi.mock("../emailService", async importOriginal => ({
+  ...(await importOriginal<typeof import("../emailService")>()),
+  sendEmail: emailMock.sendEmail,
+}));
+
+vi.mock("pdfmake", () => {
+  class MockPdfDocument {
+    private handlers: Record<string, ((chunk?: unknown) => void) | undefined> = {};
+
+    on(event: string, handler: (chunk?: unknown) => void) {
+      this.handlers[event] = handler;
+      return this;
+    }
+
+    end() {
+      this.handlers.data?.(Buffer.from("%PDF-1.4\n"));
+      this.handlers.end?.();
+    }
+  }
+
+  return {
+    default: class MockPdfPrinter {
+      createPdfKitDocument() {
+        return new MockPdfDocument();
+      }
+    },
+  };
+});
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["payroll:view", "payroll:manage"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const entry = (id: string, employeeId: string) => ({
+  id,
+  payrollRunId: "run-1",
+  employeeId,
+  baseSalary: "1000.00",
+  grossPay: "1000.00",
+  bonusAmount: "0",
+  allowances: null,
+  workingDays: 30,
+  actualWorkingDays: 30,
+  vacationDays: 0,
+  taxDeduction: "0",
+  socialSecurityDeduction: "0",
+  healthInsuranceDeduction: "0",
+  loanDeduction: "0",
+  otherDeductions: "0",
+  netPay: "1000.00",
+});
+
+const binaryParser = (res: any, callback: (err: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+  res.on("end", () => callback(null, Buffer.concat(chunks)));
+};
+
+describe("payslip routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getPayrollRun.mockResolvedValue({
+      id: "run-1",
+      period: "Jan 2024",
+      startDate: "2024-01-01",
+      endDate: "2024-01-31",
+      status: "approved",
+      entries: [entry("entry-1", "emp-1"), entry("entry-2", "emp-2")],
+    });
+    storageMock.getEmployees.mockResolvedValue([
+      {
+        id: "emp-1",
+        employeeCode: "E001",
+        firstName: "Fatima",
+        lastName: "Al-Sabah",
+        email: "fatima@example.com",
+        civilId: "290010112345",
+        position: "Accountant",
+      },
+      {
+        id: "emp-2",
+        employeeCode: "E002",
+        firstName: "Omar",
+        lastName: "Haddad",
+        email: null,
+        civilId: null,
+        position: "Driver",
+      },
+    ]);
+    storageMock.getCompanies.mockResolvedValue([{ id: "co-1", name: "Acme", currencyCode: "KWD" }]);
+    storageMock.recordPayslipDelivery.mockImplementation(async delivery => ({ id: "d", ...delivery }));
+    emailMock.sendEmail.mockResolvedValue(true);
+  });
+
+  it("downloads every payslip of a run as a ZIP", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/payslips").buffer(true).parse(binaryParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("application/zip");
+    expect(res.headers["content-disposition"]).toContain("payslips-jan-2024.zip");
+    const archive = XLSX.CFB.read(res.body, { type: "buffer" });
+    expect(XLSX.CFB.find(archive, "payslip-jan-2024-E001.pdf")).toBeTruthy();
+    expect(XLSX.CFB.find(archive, "payslip-jan-2024-E002.pdf")).toBeTruthy();
+  });
+
+  it("downloads a single payslip", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/payroll/run-1/payslips/entry-2");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("application/pdf");
+    expect(res.headers["content-disposition"]).toContain("payslip-jan-2024-E002.pdf");
+  });
+
+  it("requires payroll:view to read payslips", async () => {
+    const app = await createApp([]);
+
+    const archive = await request(app).get("/api/payroll/run-1/payslips");
+    const single = await request(app).get("/api/payroll/run-1/payslips/entry-2");
+    const deliveries = await request(app).get("/api/payroll/run-1/payslips/deliveries");
+
+    expect([archive.status, single.status, deliveries.status]).toEqual([403, 403, 403]);
+    expect(storageMock.getPayrollRun).not.toHaveBeenCalled();
+  });
+
+  it("emails password-protected payslips and records each delivery", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/run-1/payslips/email").send({});
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ sent: 1, failed: 0, skipped: 1 });
+    expect(emailMock.sendEmail).toHaveBeenCalledTimes(1);
+    expect(emailMock.sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "fatima@example.com",
+        attachments: [expect.objectContaining({ filename: "payslip-jan-2024-E001.pdf" })],
+      }),
+    );
+    expect(storageMock.recordPayslipDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({ payrollEntryId: "entry-1", status: "sent", passwordProtected: true }),
+    );
+    expect(storageMock.recordPayslipDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({ payrollEntryId: "entry-2", status: "skipped", recipient: null }),
+    );
+    expect(storageMock.logSecurityEvent).toHaveBeenCalled();
+  });
+
+  it("marks deliveries as failed when the email is not sent", async () => {
+    emailMock.sendEmail.mockResolvedValue(false);
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/payroll/run-1/payslips/email")
+      .send({ entryIds: ["entry-1"] });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ sent: 0, failed: 1, skipped: 0 });
+    expect(storageMock.recordPayslipDelivery).toHaveBeenCalledTimes(1);
+  });
+
+  it("only emails payslips for approved runs", async () => {
+    storageMock.getPayrollRun.mockResolvedValue({
+      id: "run-1",
+      period: "Jan 2024",
+      startDate: "2024-01-01",
+      endDate: "2024-01-31",
+      status: "submitted",
+      entries: [entry("entry-1", "emp-1")],
+    });
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/run-1/payslips/email").send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("payrollRunNotApproved");
+    expect(emailMock.sendEmail).not.toHaveBeenCalled();
+  });
+});
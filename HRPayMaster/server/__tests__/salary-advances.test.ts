@@ -0,0 +1,147 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getEmployee: vi.fn(),
+  getCompany: vi.fn(),
+  getSalaryAdvances: vi.fn(),
+  getOutstandingSalaryAdvanceTotal: vi.fn(),
+  getCompensationHistory: vi.fn(),
+  createSalaryAdvance: vi.fn(),
+  cancelSalaryAdvance: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", async importOriginal => ({
+  SalaryAdvanceError: (await importOriginal<typeof import("../storage")>()).SalaryAdvanceError,
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+import { SalaryAdvanceError } from "../storage";
+
+async function createApp(permissions: string[] = ["loans:view", "loans:manage"]) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "user-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const employee = {
+  id: "emp-1",
+  firstName: "Amal",
+  lastName: "Saleh",
+  salary: "900",
+  status: "active",
+  companyId: "co-1",
+};
+
+describe("salary advance routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getEmployee.mockResolvedValue(employee);
+    storageMock.getCompany.mockResolvedValue({ id: "co-1", salaryAdvanceMaxPercent: "40" });
+    storageMock.getOutstandingSalaryAdvanceTotal.mockResolvedValue(0);
+    storageMock.getCompensationHistory.mockResolvedValue([]);
+    storageMock.logSecurityEvent.mockResolvedValue(undefined);
+    storageMock.createSalaryAdvance.mockImplementation(async advance => ({
+      id: "adv-1",
+      status: "outstanding",
+      recoveredAmount: "0",
+      ...advance,
+    }));
+  });
+
+  it("reports what can still be advanced from the salary earned so far", async () => {
+    storageMock.getOutstandingSalaryAdvanceTotal.mockResolvedValue(50);
+    const app = await createApp(["loans:view"]);
+
+    const res = await request(app).get("/api/salary-advances/limit?employeeId=emp-1&date=2025-06-15");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      earnedToDate: 450,
+      maxPercent: 40,
+      maxAmount: 180,
+      outstanding: 50,
+      available: 130,
+    });
+  });
+
+  it("pays an advance within the limit and records the limit it was checked against", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/salary-advances")
+      .send({ employeeId: "emp-1", amount: 150, paidDate: "2025-06-15", paymentMethod: "bank_transfer" });
+
+    expect(res.status).toBe(201);
+    expect(storageMock.createSalaryAdvance).toHaveBeenCalledWith(
+      expect.objectContaining({
+        employeeId: "emp-1",
+        amount: "150.00",
+        paidDate: "2025-06-15",
+        paymentMethod: "bank_transfer",
+        earnedToDate: "450.00",
+        maxPercent: "40.00",
+        createdBy: "user-1",
+      }),
+    );
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: "salary_advance", entityId: "adv-1" }),
+    );
+  });
+
+  it("refuses advances above the limit", async () => {
+    const app = await createApp();
+
+    const res = await request(app)
+      .post("/api/salary-advances")
+      .send({ employeeId: "emp-1", amount: 200, paidDate: "2025-06-15" });
+
+    expect(res.status).toBe(422);
+    expect(res.body.error.code).toBe("salaryAdvanceLimitExceeded");
+    expect(storageMock.createSalaryAdvance).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for unknown employees and 400 for invalid requests", async () => {
+    storageMock.getEmployee.mockResolvedValue(undefined);
+    const app = await createApp();
+
+    const missing = await request(app).post("/api/salary-advances").send({ employeeId: "nope", amount: 10 });
+    expect(missing.status).toBe(404);
+
+    const invalid = await request(app).post("/api/salary-advances").send({ employeeId: "emp-1", amount: -5 });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("cancels advances payroll has not recovered and refuses the rest", async () => {
+    storageMock.cancelSalaryAdvance.mockResolvedValueOnce({ id: "adv-1", employeeId: "emp-1", amount: "150.00", status: "cancelled" });
+    const app = await createApp();
+
+    const cancelled = await request(app).post("/api/salary-advances/adv-1/cancel");
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.status).toBe("cancelled");
+
+    storageMock.cancelSalaryAdvance.mockRejectedValueOnce(
+      new SalaryAdvanceError("Only advances payroll has not started recovering can be cancelled"),
+    );
+    const recovered = await request(app).post("/api/salary-advances/adv-2/cancel");
+    expect(recovered.status).toBe(409);
+  });
+});
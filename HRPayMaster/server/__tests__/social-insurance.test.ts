@@ -0,0 +1,151 @@
+/** @vitest-environment node */
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getSocialInsuranceRates: vi.fn(),
+  createSocialInsuranceRate: vi.fn(),
+  updateSocialInsuranceRate: vi.fn(),
+  deleteSocialInsuranceRate: vi.fn(),
+  getSocialInsuranceContributions: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: {
+    query: {},
+  },
+}));
+
+vi.mock("../storage", () => ({
+  storage: storageMock,
+}));
+
+import { registerRoutes } from "../routes";
+import { errorHandler } from "../errorHandler";
+
+async function createApp(permissions: string[] = ["payroll:manage", "reports:finance"]) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use((req, _res, next) => {
+    (req as any).isAuthenticated = () => true;
+    (req as any).user = { id: "hr-1", role: "hr", permissions };
+    next();
+  });
+  await registerRoutes(app);
+  app.use(errorHandler);
+  return app;
+}
+
+const breakdown = {
+  scheme: "pifss",
+  nationalityGroup: "kuwaiti",
+  insurableSalary: 1000,
+  employeeTotal: 50,
+  employerTotal: 110,
+  lines: [
+    {
+      code: "basic",
+      label: "Basic insurance",
+      contributionSalary: 1000,
+      employeeRate: 5,
+      employerRate: 11,
+      employeeAmount: 50,
+      employerAmount: 110,
+    },
+  ],
+};
+
+describe("social insurance routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getSocialInsuranceContributions.mockResolvedValue([
+      {
+        employeeId: "emp-1",
+        employeeCode: "E001",
+        firstName: "Fatima",
+        lastName: "Al-Sabah",
+        civilId: "290010112345",
+        socialSecurityDeduction: "50",
+        socialInsuranceBreakdown: breakdown,
+      },
+    ]);
+  });
+
+  it("creates a contribution rate", async () => {
+    storageMock.createSocialInsuranceRate.mockImplementation(async rate => ({ id: "rate-1", ...rate }));
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/social-insurance/rates").send({
+      code: "basic",
+      label: "Basic insurance",
+      nationalityGroup: "kuwaiti",
+      employeeRate: 5,
+      employerRate: "11",
+      salaryCeiling: 1500,
+      effectiveFrom: "2024-01-01",
+    });
+
+    expect(res.status).toBe(201);
+    expect(storageMock.createSocialInsuranceRate).toHaveBeenCalledWith(
+      expect.objectContaining({ employeeRate: "5", employerRate: "11", salaryCeiling: "1500" }),
+    );
+    expect(storageMock.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: "social_insurance_rate", entityId: "rate-1" }),
+    );
+  });
+
+  it("rejects rates without an effective date", async () => {
+    const app = await createApp();
+
+    const res = await request(app).post("/api/payroll/social-insurance/rates").send({
+      code: "basic",
+      label: "Basic insurance",
+      nationalityGroup: "kuwaiti",
+      employeeRate: 5,
+      employerRate: 11,
+    });
+
+    expect(res.status).toBe(400);
+    expect(storageMock.createSocialInsuranceRate).not.toHaveBeenCalled();
+  });
+
+  it("returns the monthly PIFSS report for the whole month", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/reports/pifss").query({ month: "2024-02" });
+
+    expect(res.status).toBe(200);
+    expect(storageMock.getSocialInsuranceContributions).toHaveBeenCalledWith(
+      "2024-02-01",
+      "2024-02-29",
+      undefined,
+    );
+    expect(res.body.totals).toEqual({
+      insurableSalary: 1000,
+      employeeContribution: 50,
+      employerContribution: 110,
+      totalContribution: 160,
+    });
+  });
+
+  it("exports the PIFSS report as CSV", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/reports/pifss").query({ month: "2024-02", format: "csv" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/csv");
+    expect(res.headers["content-disposition"]).toContain("pifss-2024-02.csv");
+    expect(res.text).toContain("E001,Fatima Al-Sabah,290010112345,kuwaiti,1000.00,50.00,110.00,160.00");
+  });
+
+  it("rejects malformed months", async () => {
+    const app = await createApp();
+
+    const res = await request(app).get("/api/reports/pifss").query({ month: "2024-13" });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -1,5 +1,6 @@
 import { storage, DEFAULT_OVERTIME_LIMIT_MINUTES } from "./storage";
 import { log } from "./vite";
+import { expandHolidays, holidaysForCompany, resolveHolidayCompanyId } from "./utils/holidays";
 
 const toIsoDate = (value: string | Date) => {
   const date = value instanceof Date ? value : new Date(value);
@@ -21,7 +22,23 @@ const formatHours = (minutes: number) => {
 
 export async function processAttendanceAlerts(now: Date = new Date()): Promise<number> {
   const referenceDay = toStartOfUtcDay(new Date(now.getTime() - 24 * 60 * 60 * 1000));
-  const schedules = await storage.getEmployeeSchedules({ start: referenceDay, end: referenceDay });
+  const [schedules, companies, holidays] = await Promise.all([
+    storage.getEmployeeSchedules({ start: referenceDay, end: referenceDay }),
+    storage.getCompanies(),
+    storage.getCompanyHolidays(),
+  ]);
+  const holidayCalendars = new Map<string | null, boolean>();
+  // Nobody is expected to punch in on a public holiday of their company.
+  const isHoliday = (schedule: (typeof schedules)[number]) => {
+    const companyId = resolveHolidayCompanyId(schedule.employee ?? {}, companies);
+    let holiday = holidayCalendars.get(companyId);
+    if (holiday === undefined) {
+      holiday =
+        expandHolidays(holidaysForCompany(holidays, companyId), referenceDay, referenceDay).length > 0;
+      holidayCalendars.set(companyId, holiday);
+    }
+    return holiday;
+  };
 
   let created = 0;
 
@@ -36,6 +53,9 @@ export async function processAttendanceAlerts(now: Date = new Date()): Promise<n
       schedule.actualMinutes === 0 &&
       (schedule.absenceApprovalStatus ?? "pending") !== "approved"
     ) {
+      if (isHoliday(schedule)) {
+        continue;
+      }
       try {
         await storage.createNotification({
           employeeId: schedule.employeeId,
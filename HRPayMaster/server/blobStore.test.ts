@@ -0,0 +1,42 @@
+/** @vitest-environment node */
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+import type { Readable } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BlobNotFoundError, LocalDiskBlobStore } from "./blobStore";
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+describe("LocalDiskBlobStore", () => {
+  let root: string;
+  let store: LocalDiskBlobStore;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), "blob-store-"));
+    store = new LocalDiskBlobStore(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("stores, streams and deletes blobs", async () => {
+    await store.put("payroll-exports/run-1/file-1", Buffer.from("hello"));
+
+    expect((await readAll(await store.get("payroll-exports/run-1/file-1"))).toString()).toBe("hello");
+
+    await store.delete("payroll-exports/run-1/file-1");
+    await expect(store.get("payroll-exports/run-1/file-1")).rejects.toBeInstanceOf(BlobNotFoundError);
+  });
+
+  it("rejects keys outside its root", async () => {
+    await expect(store.put("../escape", Buffer.from("x"))).rejects.toThrow("Invalid blob key");
+  });
+});
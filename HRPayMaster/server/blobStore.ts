@@ -0,0 +1,75 @@
+import path from "node:path";
+import { createReadStream } from "node:fs";
+import { mkdir, rm, stat, writeFile } from "node:fs/promises";
+import type { Readable } from "node:stream";
+
+/**
+ * Storage for generated files too large to keep in database rows, such as
+ * payroll exports. Keys are slash-separated paths chosen by the caller.
+ */
+export interface BlobStore {
+  put(key: string, content: Buffer): Promise<void>;
+  /** Opens a blob for streaming; rejects with BlobNotFoundError when it is missing. */
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = "BlobNotFoundError";
+  }
+}
+
+/** Keeps blobs as files below a root directory. */
+export class LocalDiskBlobStore implements BlobStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolveKey(key: string) {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return target;
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const target = this.resolveKey(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, content);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolveKey(key);
+    try {
+      await stat(target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+    return createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+}
+
+let blobStore: BlobStore | undefined;
+
+/** The configured store, on local disk under BLOB_STORAGE_DIR unless replaced. */
+export const getBlobStore = (): BlobStore => {
+  blobStore ??= new LocalDiskBlobStore(process.env.BLOB_STORAGE_DIR || "storage/blobs");
+  return blobStore;
+};
+
+/** Replaces the store, e.g. with an object storage backend; undefined restores the default. */
+export const setBlobStore = (store: BlobStore | undefined) => {
+  blobStore = store;
+};
@@ -1,4 +1,5 @@
 import { EventEmitter } from "events";
+import type { PayrollGenerationJob } from "@shared/schema";
 
 export interface ChatbotNotificationEvent {
   type: "notification-created" | "notification-updated";
@@ -12,15 +13,26 @@ export interface ChatbotNotificationEvent {
   };
 }
 
+export interface PayrollJobEvent {
+  type: "payroll-job-updated";
+  payload: PayrollGenerationJob;
+}
+
 export const chatbotEvents = new EventEmitter();
 
 export const emitChatbotNotification = (event: ChatbotNotificationEvent) => {
   chatbotEvents.emit(event.type, event);
 };
 
+export const emitPayrollJobUpdate = (job: PayrollGenerationJob) => {
+  const event: PayrollJobEvent = { type: "payroll-job-updated", payload: job };
+  chatbotEvents.emit(event.type, event);
+};
+
 export const CHATBOT_EVENT_TYPES = {
   notificationCreated: "notification-created" as const,
   notificationUpdated: "notification-updated" as const,
+  payrollJobUpdated: "payroll-job-updated" as const,
 };
 
 export type ChatbotEventType = typeof CHATBOT_EVENT_TYPES[keyof typeof CHATBOT_EVENT_TYPES];
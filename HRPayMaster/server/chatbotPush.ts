@@ -171,5 +171,11 @@ export const setupChatbotPush = (
     }
   });
 
+  // Progress of background payroll generation goes to whoever started it.
+  chatbotEvents.on(CHATBOT_EVENT_TYPES.payrollJobUpdated, ({ payload }) => {
+    if (!payload.createdBy) return;
+    broadcast({ type: "payroll:job", payload }, payload.createdBy);
+  });
+
   return wss;
 };
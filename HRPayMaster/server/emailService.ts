@@ -35,12 +35,20 @@ if (!apiKey) {
   console.warn("Invalid SendGrid API key format. Key should start with 'SG.'");
 }
 
+interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file contents. */
+  content: string;
+  type?: string;
+}
+
 interface EmailParams {
   to: string;
   from: string;
   subject: string;
   text?: string;
   html?: string;
+  attachments?: EmailAttachment[];
 }
 
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -105,6 +113,12 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
     };
     if (params.text) message.text = params.text;
     if (params.html) message.html = params.html;
+    if (params.attachments?.length) {
+      message.attachments = params.attachments.map(attachment => ({
+        ...attachment,
+        disposition: 'attachment',
+      }));
+    }
     await mailService.send(message);
     return true;
   } catch (error) {
@@ -262,6 +276,50 @@ Generated on ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeStri
   return { subject, html, text };
 }
 
+export function generatePayslipEmail(params: {
+  employeeName: string;
+  period: string;
+  companyName?: string | null;
+  passwordHint?: string | null;
+}) {
+  const sender = params.companyName?.trim() || appName;
+  const subject = `Payslip ${params.period} - ${params.employeeName} | قسيمة الراتب`;
+  const passwordLine = params.passwordHint
+    ? `The attached payslip is password protected. ${params.passwordHint}`
+    : '';
+  const passwordLineAr = params.passwordHint
+    ? 'قسيمة الراتب المرفقة محمية بكلمة مرور.'
+    : '';
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <p>Dear ${params.employeeName},</p>
+      <p>Please find attached your payslip for ${params.period}.</p>
+      ${passwordLine ? `<p>${passwordLine}</p>` : ''}
+      <hr style="border: none; border-top: 1px solid #e5e7eb;" />
+      <div dir="rtl" style="text-align: right;">
+        <p>مرفق قسيمة راتبك عن الفترة ${params.period}.</p>
+        ${passwordLineAr ? `<p>${passwordLineAr}</p>` : ''}
+      </div>
+      <p style="color: #6b7280; font-size: 12px;">${sender}</p>
+    </div>
+  `;
+
+  const text = [
+    `Dear ${params.employeeName},`,
+    '',
+    `Please find attached your payslip for ${params.period}.`,
+    passwordLine,
+    '',
+    `مرفق قسيمة راتبك عن الفترة ${params.period}.`,
+    passwordLineAr,
+    '',
+    sender,
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
 export function calculateDaysUntilExpiry(expiryDate: string): number {
   const today = new Date();
   const expiry = new Date(expiryDate);
@@ -461,6 +461,18 @@ app.use((req, res, next) => {
   runAttendanceAlerts();
   setInterval(runAttendanceAlerts, 60 * 60 * 1000);
 
+  const runCompensationSync = async () => {
+    try {
+      await trackBackgroundJob("compensation_sync", () => storage.applyDueCompensationChanges());
+    } catch (err) {
+      log(`warning: failed applying compensation changes: ${String(err)}`);
+    }
+  };
+
+  // Future-dated raises and cuts reach the employee record once they take effect
+  runCompensationSync();
+  setInterval(runCompensationSync, 12 * 60 * 60 * 1000);
+
   let scheduledReportRun: Promise<void> | null = null;
 
   const runScheduledReports = (): Promise<void> => {
@@ -22,6 +22,14 @@ vi.mock('./storage', () => ({
     getCompanies: vi.fn(),
     createNotification: vi.fn(),
     getAttendanceSummary: vi.fn(),
+    getSocialInsuranceRates: vi.fn(),
+    getCompensationChanges: vi.fn(),
+    getCompanyHolidays: vi.fn(),
+    getEmployeePayComponents: vi.fn(),
+    getDeductionCarryForwards: vi.fn(),
+    getPayrollSalaryAdvances: vi.fn(),
+    markPayrollRunEventsProcessed: vi.fn(),
+    getRetroPayrollSources: vi.fn(),
   },
 }));
 
@@ -68,6 +76,13 @@ describe('payroll generate', () => {
 
     vi.mocked(storage.getCompanies).mockResolvedValue([] as any);
     vi.mocked(storage.getAttendanceSummary).mockResolvedValue({});
+    vi.mocked(storage.getSocialInsuranceRates).mockResolvedValue([]);
+    vi.mocked(storage.getCompensationChanges).mockResolvedValue([]);
+    vi.mocked(storage.getCompanyHolidays).mockResolvedValue([]);
+    vi.mocked(storage.getEmployeePayComponents).mockResolvedValue([]);
+    vi.mocked(storage.getDeductionCarryForwards).mockResolvedValue({});
+    vi.mocked(storage.getPayrollSalaryAdvances).mockResolvedValue({});
+    vi.mocked(storage.getRetroPayrollSources).mockResolvedValue([]);
   });
 
   it('returns a preview of payroll impacts for active employees', async () => {
@@ -282,6 +297,7 @@ describe('payroll generate', () => {
       ),
     );
 
+    const insertedEntries: any[] = [];
     const insertedLoanPayments: any[] = [];
     const updateSetCalls: any[] = [];
 
@@ -295,7 +311,9 @@ describe('payroll generate', () => {
       }
       if (table === payrollEntriesTable) {
         return {
-          values: vi.fn().mockResolvedValue(undefined),
+          values: vi.fn().mockImplementation(async (vals: any) => {
+            insertedEntries.push(...(Array.isArray(vals) ? vals : [vals]));
+          }),
         };
       }
       if (table === loanPaymentsTable) {
@@ -362,29 +380,10 @@ describe('payroll generate', () => {
     expect(generateCount).toBeDefined();
     expect(generateCount?.value).toBe(1);
 
-    expect(updateSetCalls).toEqual([
-      { remainingAmount: '125.00', status: 'active' },
-      { remainingAmount: '0.00', status: 'completed' },
-    ]);
-
-    expect(insertedLoanPayments).toEqual([
-      {
-        loanId: 'loan-2',
-        payrollRunId: 'run1',
-        employeeId: 'e1',
-        amount: '75.00',
-        appliedDate: '2024-01-30',
-        source: 'payroll',
-      },
-      {
-        loanId: 'loan-1',
-        payrollRunId: 'run1',
-        employeeId: 'e1',
-        amount: '90.00',
-        appliedDate: '2024-01-30',
-        source: 'payroll',
-      },
-    ]);
+    // Loans are repaid when the run is approved, from the split kept on the entry.
+    expect(updateSetCalls).toEqual([]);
+    expect(insertedLoanPayments).toEqual([]);
+    expect(insertedEntries[0].loanRecoveries).toEqual({ 'loan-1': 90, 'loan-2': 75 });
   });
 
   it('includes recurring allowances that began before the payroll period', async () => {
@@ -420,7 +419,7 @@ describe('payroll generate', () => {
       if (table === payrollEntriesTable) {
         return {
           values: vi.fn().mockImplementation(async (vals: any) => {
-            insertedEntries.push(vals);
+            insertedEntries.push(...(Array.isArray(vals) ? vals : [vals]));
           }),
         };
       }
@@ -552,7 +551,7 @@ describe('payroll generate', () => {
       if (table === payrollEntriesTable) {
         return {
           values: vi.fn().mockImplementation(async (vals: any) => {
-            insertedEntries.push(vals);
+            insertedEntries.push(...(Array.isArray(vals) ? vals : [vals]));
           }),
         };
       }
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { chatbotEvents, CHATBOT_EVENT_TYPES } from "./chatbotEvents";
+import { HttpError } from "./errorHandler";
+import {
+  cancelPayrollGenerationJob,
+  getPayrollGenerationJob,
+  startPayrollGenerationJob,
+} from "./payrollJobs";
+
+const waitForFinish = (id: string) =>
+  vi.waitFor(() => {
+    const job = getPayrollGenerationJob(id);
+    expect(["completed", "failed", "cancelled"]).toContain(job?.status);
+    return job!;
+  });
+
+describe("payroll generation jobs", () => {
+  afterEach(() => {
+    chatbotEvents.removeAllListeners(CHATBOT_EVENT_TYPES.payrollJobUpdated);
+  });
+
+  it("runs in the background and publishes its progress", async () => {
+    const updates: Array<{ status: string; phase: string | null; processed: number }> = [];
+    chatbotEvents.on(CHATBOT_EVENT_TYPES.payrollJobUpdated, ({ payload }) => {
+      updates.push({ status: payload.status, phase: payload.phase, processed: payload.processed });
+    });
+
+    const job = startPayrollGenerationJob({ createdBy: "user-1", key: "jan" }, async progress => {
+      progress.report("calculating", 0, 2);
+      progress.report("saving", 2, 2);
+      return { id: "run-1" };
+    });
+
+    expect(job.status).toBe("queued");
+    const finished = await waitForFinish(job.id);
+    expect(finished).toMatchObject({ status: "completed", payrollRunId: "run-1", createdBy: "user-1" });
+    expect(finished.finishedAt).not.toBeNull();
+    expect(updates).toEqual([
+      { status: "running", phase: null, processed: 0 },
+      { status: "running", phase: "calculating", processed: 0 },
+      { status: "running", phase: "saving", processed: 2 },
+      { status: "completed", phase: "saving", processed: 2 },
+    ]);
+  });
+
+  it("records why a job failed", async () => {
+    const job = startPayrollGenerationJob({ createdBy: null }, async () => {
+      throw new HttpError(409, "Payroll run already exists for this period");
+    });
+
+    const finished = await waitForFinish(job.id);
+    expect(finished.status).toBe("failed");
+    expect(finished.error).toMatchObject({
+      status: 409,
+      message: "Payroll run already exists for this period",
+    });
+  });
+
+  it("stops a cancelled job at its next checkpoint", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const work = vi.fn(async progress => {
+      await gate;
+      progress.throwIfCancelled();
+      return { id: "run-2" };
+    });
+
+    const job = startPayrollGenerationJob({ createdBy: null }, work);
+    await vi.waitFor(() => expect(work).toHaveBeenCalled());
+    cancelPayrollGenerationJob(job.id);
+    release();
+
+    expect((await waitForFinish(job.id)).status).toBe("cancelled");
+    expect(cancelPayrollGenerationJob("missing")).toBeUndefined();
+  });
+
+  it("refuses a second job for a period that is still generating", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const job = startPayrollGenerationJob({ createdBy: null, key: "feb" }, async () => {
+      await gate;
+      return { id: "run-3" };
+    });
+
+    expect(() =>
+      startPayrollGenerationJob({ createdBy: null, key: "feb" }, async () => ({ id: "run-4" })),
+    ).toThrow("Payroll generation is already in progress for this period");
+
+    release();
+    await waitForFinish(job.id);
+    const next = startPayrollGenerationJob({ createdBy: null, key: "feb" }, async () => ({ id: "run-5" }));
+    expect((await waitForFinish(next.id)).payrollRunId).toBe("run-5");
+  });
+});
@@ -0,0 +1,159 @@
+import { randomUUID } from "node:crypto";
+import type {
+  PayrollGenerationJob,
+  PayrollGenerationJobPhase,
+} from "@shared/schema";
+import { emitPayrollJobUpdate } from "./chatbotEvents";
+import { HttpError } from "./errorHandler";
+
+// Finished jobs stay queryable for an hour so the wizard can pick up the
+// result after a reload.
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export class PayrollGenerationCancelledError extends Error {
+  constructor() {
+    super("Payroll generation was cancelled");
+    this.name = "PayrollGenerationCancelledError";
+  }
+}
+
+/** Hooks a generation run uses to report progress and honour cancellation. */
+export interface PayrollGenerationProgress {
+  report(phase: PayrollGenerationJobPhase, processed: number, total: number): void;
+  /** Throws PayrollGenerationCancelledError once the job has been cancelled. */
+  throwIfCancelled(): void;
+}
+
+type JobRecord = {
+  job: PayrollGenerationJob;
+  /** Period the job generates, so the same run is not generated twice at once. */
+  key: string | null;
+  cancelRequested: boolean;
+};
+
+const jobs = new Map<string, JobRecord>();
+
+const isFinished = (job: PayrollGenerationJob) =>
+  job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+
+const pruneFinishedJobs = (now: number) => {
+  for (const [id, record] of jobs) {
+    if (record.job.finishedAt && now - Date.parse(record.job.finishedAt) > FINISHED_JOB_TTL_MS) {
+      jobs.delete(id);
+    }
+  }
+};
+
+const updateJob = (record: JobRecord, patch: Partial<PayrollGenerationJob>) => {
+  const now = new Date().toISOString();
+  record.job = {
+    ...record.job,
+    ...patch,
+    updatedAt: now,
+    finishedAt: patch.status && patch.status !== "running" ? now : record.job.finishedAt,
+  };
+  emitPayrollJobUpdate(record.job);
+};
+
+export const getPayrollGenerationJob = (id: string): PayrollGenerationJob | undefined =>
+  jobs.get(id)?.job;
+
+/**
+ * Queues a payroll generation and runs it after the current request has
+ * been answered. Jobs with the same key cannot run side by side.
+ */
+export const startPayrollGenerationJob = (
+  {
+    createdBy,
+    key,
+  }: {
+    createdBy: string | null;
+    key?: string | null;
+  },
+  work: (progress: PayrollGenerationProgress) => Promise<{ id: string }>,
+): PayrollGenerationJob => {
+  const now = new Date();
+  pruneFinishedJobs(now.getTime());
+  if (key) {
+    for (const record of jobs.values()) {
+      if (record.key === key && !isFinished(record.job)) {
+        throw new HttpError(
+          409,
+          "Payroll generation is already in progress for this period",
+          { jobId: record.job.id },
+        );
+      }
+    }
+  }
+
+  const record: JobRecord = {
+    job: {
+      id: randomUUID(),
+      status: "queued",
+      phase: null,
+      processed: 0,
+      total: 0,
+      payrollRunId: null,
+      error: null,
+      createdBy,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      finishedAt: null,
+    },
+    key: key ?? null,
+    cancelRequested: false,
+  };
+  jobs.set(record.job.id, record);
+
+  const progress: PayrollGenerationProgress = {
+    report(phase, processed, total) {
+      updateJob(record, { status: "running", phase, processed, total });
+    },
+    throwIfCancelled() {
+      if (record.cancelRequested) {
+        throw new PayrollGenerationCancelledError();
+      }
+    },
+  };
+
+  setImmediate(async () => {
+    try {
+      progress.throwIfCancelled();
+      updateJob(record, { status: "running" });
+      const run = await work(progress);
+      updateJob(record, { status: "completed", payrollRunId: run.id });
+    } catch (error) {
+      if (error instanceof PayrollGenerationCancelledError) {
+        updateJob(record, { status: "cancelled" });
+        return;
+      }
+      if (error instanceof HttpError) {
+        updateJob(record, {
+          status: "failed",
+          error: { status: error.status, message: error.message, details: error.details },
+        });
+        return;
+      }
+      console.error("Background payroll generation failed:", error);
+      updateJob(record, {
+        status: "failed",
+        error: { status: 500, message: "Failed to generate payroll" },
+      });
+    }
+  });
+
+  return record.job;
+};
+
+/**
+ * Asks a job to stop. It stops at its next checkpoint and nothing it has
+ * calculated is saved; a job that has already finished is left as it is.
+ */
+export const cancelPayrollGenerationJob = (id: string): PayrollGenerationJob | undefined => {
+  const record = jobs.get(id);
+  if (!record) return undefined;
+  if (!isFinished(record.job)) {
+    record.cancelRequested = true;
+  }
+  return record.job;
+};
@@ -77,6 +77,13 @@ describe("processScheduledReports", () => {
             loan: 300,
             other: 150,
           },
+          employerCosts: {
+            socialInsurance: 1100,
+            healthInsurance: 250,
+            indemnityAccrual: 420,
+            visaAmortization: 60,
+          },
+          totalCostOfEmployment: 11830,
         },
       },
     ]);
@@ -106,6 +113,7 @@ describe("processScheduledReports", () => {
         employeeId: "emp-1",
         type: "report_schedule",
         title: expect.stringContaining("Monthly cost digest"),
+        message: expect.stringContaining("Cost of employment 11830.00"),
         deliveryChannels: ["email"],
       }),
     );
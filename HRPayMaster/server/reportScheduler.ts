@@ -36,6 +36,7 @@ type ScheduleResolvedFilters = {
   endDate: string;
   groupBy: "month" | "year";
   departmentIds?: string[];
+  companyId?: string;
 };
 
 const resolveFilters = (schedule: ReportSchedule, now: Date): ScheduleResolvedFilters => {
@@ -51,7 +52,11 @@ const resolveFilters = (schedule: ReportSchedule, now: Date): ScheduleResolvedFi
   const groupBy: "month" | "year" =
     groupByFilter === "year" || groupByOption === "year" ? "year" : "month";
   const departmentIds = coerceDepartmentIds(filters.departmentIds ?? filters.departments);
-  return { startDate, endDate, groupBy, departmentIds };
+  const companyId =
+    typeof filters.companyId === "string" && filters.companyId.trim()
+      ? filters.companyId.trim()
+      : undefined;
+  return { startDate, endDate, groupBy, departmentIds, companyId };
 };
 
 const summarizeDepartmentCosts = (
@@ -63,16 +68,18 @@ const summarizeDepartmentCosts = (
   }
   let gross = 0;
   let net = 0;
+  let costOfEmployment = 0;
   const byDepartment = new Map<string, number>();
   data.forEach((entry) => {
     gross += entry.totals.grossPay;
     net += entry.totals.netPay;
+    costOfEmployment += entry.totals.totalCostOfEmployment;
     const current = byDepartment.get(entry.departmentName) ?? 0;
     byDepartment.set(entry.departmentName, current + entry.totals.netPay);
   });
   const top = [...byDepartment.entries()].sort((a, b) => b[1] - a[1])[0];
   const topLabel = top ? `${top[0]} (${top[1].toFixed(2)})` : "N/A";
-  return `Gross ${gross.toFixed(2)} / Net ${net.toFixed(2)} across ${byDepartment.size} departments. Top contributor: ${topLabel}.`;
+  return `Gross ${gross.toFixed(2)} / Net ${net.toFixed(2)} / Cost of employment ${costOfEmployment.toFixed(2)} across ${byDepartment.size} departments. Top contributor: ${topLabel}.`;
 };
 
 const summarizeOvertime = (data: DepartmentOvertimeMetric[]): string => {
@@ -140,6 +147,7 @@ export async function processScheduledReports(now: Date = new Date()): Promise<n
             endDate: filters.endDate,
             groupBy: filters.groupBy,
             departmentIds: filters.departmentIds,
+            companyId: filters.companyId,
           });
           break;
         case "department-overtime":
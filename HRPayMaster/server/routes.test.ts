@@ -41,6 +41,8 @@ vi.mock('./storage', () => {
       replaceLoanAmortizationSchedule: vi.fn(),
       createLoanDocument: vi.fn(),
       updateLoan: vi.fn(),
+      getLoanPolicies: vi.fn(),
+      countOpenLoansForEmployee: vi.fn(),
       getAssets: vi.fn(),
       getAsset: vi.fn(),
       updateAsset: vi.fn(),
@@ -159,6 +161,8 @@ describe('employee routes', () => {
     (storage.getEmployeeCustomValues as any).mockResolvedValue([]);
     (storage.getEmployeeCustomFields as any).mockResolvedValue([]);
     (storage.getEmployee as any).mockResolvedValue(null);
+    (storage.getLoanPolicies as any).mockResolvedValue([]);
+    (storage.countOpenLoansForEmployee as any).mockResolvedValue(0);
   });
 
   it('GET /api/employees returns employees list', async () => {
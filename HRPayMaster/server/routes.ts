@@ -14,6 +14,7 @@ import { attendanceRouter } from "./routes/attendance";
 import { documentsRouter } from "./routes/documents";
 import { securityRouter } from "./routes/security";
 import { allowancesRouter } from "./routes/allowances";
+import { salaryAdvancesRouter } from "./routes/salaryAdvances";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/healthz", (_req, res) => {
@@ -28,6 +29,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(reportsRouter);
   app.use("/api/payroll", payrollRouter);
   app.use("/api/loans", loansRouter);
+  app.use("/api/salary-advances", salaryAdvancesRouter);
   app.use("/api/allowances", allowancesRouter);
   app.use("/api/cars", carsRouter);
   app.use(documentsRouter);
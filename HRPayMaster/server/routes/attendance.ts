@@ -12,6 +12,12 @@ import {
   DEFAULT_OVERTIME_LIMIT_MINUTES,
   type EmployeeScheduleDetail,
 } from "../storage";
+import {
+  expandHolidays,
+  holidayDateSet,
+  holidaysForCompany,
+  resolveHolidayCompanyId,
+} from "../utils/holidays";
 import {
   createRouteMetricsMiddleware,
   attendanceScheduleRequestsTotal,
@@ -49,8 +55,39 @@ const scheduleUpdateSchema = scheduleAssignmentSchema.partial();
 
 const createSchedulesSchema = z.object({
   assignments: z.array(scheduleAssignmentSchema).min(1),
+  // Public holidays are skipped unless shifts are planned on them on purpose.
+  includeHolidays: z.boolean().optional(),
 });
 
+const withoutHolidayAssignments = async (assignments: InsertEmployeeSchedule[]) => {
+  const dates = assignments.map(assignment => String(assignment.scheduleDate).slice(0, 10)).sort();
+  const employeeIds = Array.from(new Set(assignments.map(assignment => assignment.employeeId)));
+  const [companies, holidays, employees] = await Promise.all([
+    storage.getCompanies(),
+    storage.getCompanyHolidays(),
+    Promise.all(employeeIds.map(id => storage.getEmployee(id))),
+  ]);
+  if (holidays.length === 0) {
+    return assignments;
+  }
+  const holidayDatesByEmployee = new Map<string, Set<string>>();
+  employeeIds.forEach((employeeId, index) => {
+    const companyId = resolveHolidayCompanyId(employees[index] ?? {}, companies);
+    const occurrences = expandHolidays(
+      holidaysForCompany(holidays, companyId),
+      dates[0],
+      dates[dates.length - 1],
+    );
+    holidayDatesByEmployee.set(employeeId, holidayDateSet(occurrences));
+  });
+  return assignments.filter(
+    assignment =>
+      !holidayDatesByEmployee
+        .get(assignment.employeeId)
+        ?.has(String(assignment.scheduleDate).slice(0, 10)),
+  );
+};
+
 const approvalSchema = z.object({
   type: z.enum(["late", "absence", "overtime"]),
   status: z.enum(["approved", "rejected"]),
@@ -256,9 +293,11 @@ attendanceRouter.post(
   async (req, res, next) => {
     try {
       const payload = createSchedulesSchema.parse(req.body);
-      const created = await storage.createEmployeeSchedules(
-        payload.assignments as InsertEmployeeSchedule[],
-      );
+      const requested = payload.assignments as InsertEmployeeSchedule[];
+      const assignments = payload.includeHolidays
+        ? requested
+        : await withoutHolidayAssignments(requested);
+      const created = await storage.createEmployeeSchedules(assignments);
       res.status(201).json(created.map(serializeSchedule));
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -444,6 +444,7 @@ chatbotRouter.get(
                 Number(e.socialSecurityDeduction || 0) +
                 Number(e.healthInsuranceDeduction || 0) +
                 Number(e.loanDeduction || 0) +
+                Number(e.advanceDeduction || 0) +
                 Number(e.otherDeductions || 0),
               0
             ) +
@@ -1,7 +1,12 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
 import { randomUUID } from "node:crypto";
 import { HttpError } from "../errorHandler";
-import { storage, DuplicateEmployeeCodeError, type EmployeeFilters } from "../storage";
+import {
+  storage,
+  DuplicateEmployeeCodeError,
+  CompensationChangeError,
+  type EmployeeFilters,
+} from "../storage";
 import { assetService } from "../assetService";
 import { db } from "../db";
 import {
@@ -29,6 +34,13 @@ import {
   payrollFrequencyConfigSchema,
   payrollCalendarConfigSchema,
   payrollExportFormatConfigSchema,
+  overtimeRateConfigSchema,
+  insertCompanyHolidaySchema,
+  updateCompanyHolidaySchema,
+  insertCompensationChangeSchema,
+  insertEmployeePayComponentSchema,
+  updateEmployeePayComponentSchema,
+  type EmployeePayComponent,
   type InsertEmployeeEvent,
   type InsertEmployee,
   type InsertCar,
@@ -73,6 +85,21 @@ import {
   mapHeader,
 } from "../utils/normalize";
 import { requireRole, requirePermission } from "./auth";
+import {
+  calculateFinalSettlement,
+  terminationReasons,
+  type FinalSettlement,
+} from "../utils/endOfService";
+import { buildFinalSettlementStatementPdf } from "../utils/payrollExports";
+import { resolvePayComponentMonthlyAmount } from "../utils/payroll";
+import {
+  countLeaveDays,
+  expandHolidays,
+  holidayDateSet,
+  holidaysForCompany,
+  resolveHolidayCompanyId,
+  toHijriDate,
+} from "../utils/holidays";
 
 export const employeesRouter = Router();
 
@@ -209,6 +236,32 @@ const parsePayrollExportFormatsInput = (
   return parsed.success ? parsed.data : undefined;
 };
 
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates");
+
+const holidayCalendarQuerySchema = z
+  .object({ start: isoDate, end: isoDate })
+  .refine(({ start, end }) => start <= end, { message: "start must not be after end" })
+  .refine(({ start, end }) => Number(end.slice(0, 4)) - Number(start.slice(0, 4)) <= 3, {
+    message: "Ranges are limited to three years",
+  });
+
+const holidayConfirmationSchema = z.object({
+  date: isoDate,
+  hijriYear: z.number({ coerce: true }).int().min(1300).max(1600).optional(),
+});
+
+/** Leave days between two dates, leaving out the employee's public holidays. */
+const countVacationDays = async (employeeId: string, startDate: string, endDate: string) => {
+  const [employee, companies, holidays] = await Promise.all([
+    storage.getEmployee(employeeId),
+    storage.getCompanies(),
+    storage.getCompanyHolidays(),
+  ]);
+  const companyId = employee ? resolveHolidayCompanyId(employee, companies) : null;
+  const occurrences = expandHolidays(holidaysForCompany(holidays, companyId), startDate, endDate);
+  return countLeaveDays(startDate, endDate, holidayDateSet(occurrences));
+};
+
 const defaultFrequency: PayrollFrequencyConfig = {
   id: "default",
   name: "Monthly Cycle",
@@ -731,6 +784,38 @@ export const EMPLOYEE_IMPORT_TEMPLATE_HEADERS: string[] = [
         data.payrollExportFormats = parsedExportFormats;
       }
 
+      if (req.body?.overtimeRates !== undefined) {
+        const parsedOvertimeRates = overtimeRateConfigSchema.nullable().safeParse(req.body.overtimeRates);
+        if (!parsedOvertimeRates.success) {
+          return next(new HttpError(400, 'Invalid overtime rates', parsedOvertimeRates.error.errors));
+        }
+        data.overtimeRates = parsedOvertimeRates.data;
+      }
+
+      if (req.body?.maxDeductionPercent !== undefined) {
+        const parsedMaxDeduction = insertCompanySchema.shape.maxDeductionPercent.safeParse(
+          req.body.maxDeductionPercent,
+        );
+        if (!parsedMaxDeduction.success) {
+          return next(
+            new HttpError(400, 'Invalid maximum deduction percentage', parsedMaxDeduction.error.errors),
+          );
+        }
+        data.maxDeductionPercent = parsedMaxDeduction.data;
+      }
+
+      if (req.body?.healthInsurancePremium !== undefined) {
+        const parsedPremium = insertCompanySchema.shape.healthInsurancePremium.safeParse(
+          req.body.healthInsurancePremium,
+        );
+        if (!parsedPremium.success) {
+          return next(
+            new HttpError(400, 'Invalid health insurance premium', parsedPremium.error.errors),
+          );
+        }
+        data.healthInsurancePremium = parsedPremium.data;
+      }
+
       const legacyPayroll = normalizeLegacyPayrollSettings(req.body?.payrollSettings);
       if (legacyPayroll) {
         if (!data.payrollFrequencies) {
@@ -818,6 +903,107 @@ export const EMPLOYEE_IMPORT_TEMPLATE_HEADERS: string[] = [
     }
   });
 
+  employeesRouter.get("/api/holidays", async (req, res, next) => {
+    try {
+      const companyId = typeof req.query.companyId === "string" ? req.query.companyId : undefined;
+      res.json(await storage.getCompanyHolidays(companyId));
+    } catch (error) {
+      next(new HttpError(500, "Failed to fetch holidays", error));
+    }
+  });
+
+  // Holiday dates of a period, with Hijri holidays at their confirmed or
+  // estimated dates.
+  employeesRouter.get("/api/holidays/calendar", async (req, res, next) => {
+    try {
+      const { start, end } = holidayCalendarQuerySchema.parse(req.query);
+      const companyId = typeof req.query.companyId === "string" ? req.query.companyId : undefined;
+      const holidays = await storage.getCompanyHolidays(companyId);
+      res.json(expandHolidays(holidays, start, end));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid holiday calendar range", error.errors));
+      }
+      next(new HttpError(500, "Failed to load holiday calendar", error));
+    }
+  });
+
+  employeesRouter.post("/api/holidays", requireRole(["admin", "hr"]), async (req, res, next) => {
+    try {
+      const holiday = insertCompanyHolidaySchema.parse(req.body);
+      if (holiday.companyId && !(await storage.getCompany(holiday.companyId))) {
+        return next(new HttpError(404, "Company not found"));
+      }
+      res.status(201).json(await storage.createCompanyHoliday(holiday));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid holiday", error.errors));
+      }
+      next(new HttpError(500, "Failed to create holiday", error));
+    }
+  });
+
+  employeesRouter.put("/api/holidays/:id", requireRole(["admin", "hr"]), async (req, res, next) => {
+    try {
+      const updates = updateCompanyHolidaySchema.parse(req.body);
+      const existing = await storage.getCompanyHoliday(req.params.id);
+      if (!existing) {
+        return next(new HttpError(404, "Holiday not found"));
+      }
+      // The kind decides which date fields are required, so check the result.
+      insertCompanyHolidaySchema.parse({ ...existing, ...updates });
+      const updated = await storage.updateCompanyHoliday(req.params.id, updates);
+      if (!updated) {
+        return next(new HttpError(404, "Holiday not found"));
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid holiday", error.errors));
+      }
+      next(new HttpError(500, "Failed to update holiday", error));
+    }
+  });
+
+  employeesRouter.post(
+    "/api/holidays/:id/confirm",
+    requireRole(["admin", "hr"]),
+    async (req, res, next) => {
+      try {
+        const { date, hijriYear } = holidayConfirmationSchema.parse(req.body);
+        const holiday = await storage.getCompanyHoliday(req.params.id);
+        if (!holiday) {
+          return next(new HttpError(404, "Holiday not found"));
+        }
+        if (holiday.kind !== "hijri") {
+          return next(new HttpError(400, "Only Hijri holidays need a confirmed date"));
+        }
+        const year = hijriYear ?? toHijriDate(date).year;
+        const updated = await storage.updateCompanyHoliday(holiday.id, {
+          confirmedDates: { ...(holiday.confirmedDates ?? {}), [String(year)]: date },
+        });
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return next(new HttpError(400, "Invalid holiday confirmation", error.errors));
+        }
+        next(new HttpError(500, "Failed to confirm holiday", error));
+      }
+    },
+  );
+
+  employeesRouter.delete("/api/holidays/:id", requireRole(["admin", "hr"]), async (req, res, next) => {
+    try {
+      const deleted = await storage.deleteCompanyHoliday(req.params.id);
+      if (!deleted) {
+        return next(new HttpError(404, "Holiday not found"));
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(new HttpError(500, "Failed to delete holiday", error));
+    }
+  });
+
   employeesRouter.get("/api/allowance-types", async (_req, res, next) => {
     try {
       const types = await storage.getAllowanceTypes();
@@ -2369,17 +2555,541 @@ employeesRouter.get("/api/employees/import/template", (_req, res) => {
     }
   });
 
-  employeesRouter.post("/api/employees/:id/terminate", async (req, res, next) => {
-    try {
-      const terminated = await storage.terminateEmployee(req.params.id);
-      if (!terminated) {
-        return next(new HttpError(404, "Employee not found"));
+  const terminateEmployeeSchema = z.object({
+    terminationDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Termination date must be YYYY-MM-DD")
+      .optional(),
+    reason: z.enum(terminationReasons).default("termination"),
+    leaveBalanceDays: z.preprocess(parseNumber, z.number().min(0).optional()),
+    recoverLoans: z.boolean().default(true),
+    generateSettlement: z.boolean().default(false),
+  });
+
+  type TerminateEmployeePayload = z.infer<typeof terminateEmployeeSchema>;
+
+  const prepareFinalSettlement = async (
+    employeeId: string,
+    payload: TerminateEmployeePayload,
+  ) => {
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee) {
+      throw new HttpError(404, "Employee not found");
+    }
+    const terminationDate = payload.terminationDate ?? new Date().toISOString().split("T")[0];
+    if (terminationDate < employee.startDate) {
+      throw new HttpError(400, "Termination date cannot be before the employee start date");
+    }
+
+    const lastPaidEnd = await storage.getLatestPayrollEndDateForEmployee(employeeId);
+    const periodStart = lastPaidEnd
+      ? new Date(new Date(lastPaidEnd).getTime() + 24 * 60 * 60 * 1000)
+      : new Date(employee.startDate);
+
+    let leaveBalanceDays = payload.leaveBalanceDays;
+    if (leaveBalanceDays === undefined) {
+      const balance = await storage.getLeaveBalance(
+        employeeId,
+        "annual",
+        Number(terminationDate.slice(0, 4)),
+      );
+      leaveBalanceDays = Math.max(0, Number.parseFloat(String(balance?.balanceDays ?? 0)) || 0);
+    }
+
+    const salaryAdvances = (await storage.getPayrollSalaryAdvances(terminationDate))[employeeId] ?? [];
+    const loans = (await storage.getLoans()).filter(loan => loan.employeeId === employeeId);
+    const compensationHistory = await storage.getCompensationHistory(employeeId);
+    const payComponents = await storage.getEmployeePayComponents(employeeId);
+
+    const settlement = calculateFinalSettlement({
+      employeeId,
+      startDate: employee.startDate,
+      terminationDate,
+      periodStart,
+      reason: payload.reason,
+      monthlySalary: employee.salary,
+      salaryHistory: compensationHistory.map(change => ({
+        effectiveDate: change.effectiveDate,
+        amount: change.salary,
+      })),
+      payComponents,
+      leaveBalanceDays,
+      salaryAdvances,
+      loans,
+      recoverLoans: payload.recoverLoans,
+    });
+
+    return { employee, settlement };
+  };
+
+  const settlementEntryFrom = (settlement: FinalSettlement) => {
+    const allowances: Record<string, number> = {};
+    if (settlement.indemnity.amount > 0) {
+      allowances.end_of_service_indemnity = settlement.indemnity.amount;
+    }
+    if (settlement.leaveEncashmentAmount > 0) {
+      allowances.leave_encashment = settlement.leaveEncashmentAmount;
+    }
+    const reasonParts = [
+      `Worked ${settlement.daysWorked}/${settlement.daysInMonth} days.`,
+      `Indemnity for ${settlement.indemnity.serviceYears} years of service.`,
+      settlement.leaveEncashmentDays > 0
+        ? `${settlement.leaveEncashmentDays} leave days encashed.`
+        : "",
+      settlement.advanceRecovery > 0
+        ? `Salary advance recovery: ${settlement.advanceRecovery.toFixed(2)}.`
+        : "",
+      settlement.loanRecovery > 0 ? `Loan recovery: ${settlement.loanRecovery.toFixed(2)}.` : "",
+    ];
+    // Approval posts these against the advances and loans.
+    const advanceRecoveries = Object.fromEntries(
+      settlement.advanceRecoveries
+        .filter(recovery => recovery.recovered > 0)
+        .map(recovery => [recovery.advanceId, recovery.recovered]),
+    );
+    const loanRecoveries = Object.fromEntries(
+      settlement.loanRecoveries
+        .filter(recovery => recovery.recovered > 0)
+        .map(recovery => [recovery.loanId, recovery.recovered]),
+    );
+    return {
+      employeeId: settlement.employeeId,
+      grossPay: settlement.grossAmount.toString(),
+      baseSalary: settlement.proratedSalary.toString(),
+      bonusAmount: (settlement.indemnity.amount + settlement.leaveEncashmentAmount).toFixed(2),
+      allowances: Object.keys(allowances).length > 0 ? allowances : null,
+      workingDays: settlement.daysInMonth,
+      actualWorkingDays: settlement.daysWorked,
+      vacationDays: 0,
+      taxDeduction: "0",
+      socialSecurityDeduction: "0",
+      healthInsuranceDeduction: "0",
+      loanDeduction: settlement.loanRecovery.toString(),
+      advanceDeduction: settlement.advanceRecovery.toString(),
+      loanRecoveries: Object.keys(loanRecoveries).length > 0 ? loanRecoveries : null,
+      advanceRecoveries: Object.keys(advanceRecoveries).length > 0 ? advanceRecoveries : null,
+      otherDeductions: "0",
+      netPay: settlement.netAmount.toString(),
+      adjustmentReason: reasonParts.filter(Boolean).join(" "),
+    };
+  };
+
+  employeesRouter.post(
+    "/api/employees/:id/final-settlement/preview",
+    requirePermission("payroll:view"),
+    async (req, res, next) => {
+      try {
+        const payload = terminateEmployeeSchema.parse(req.body ?? {});
+        const { settlement } = await prepareFinalSettlement(req.params.id, payload);
+        res.json(settlement);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return next(new HttpError(400, "Invalid termination data", error.errors));
+        }
+        if (error instanceof HttpError) {
+          return next(error);
+        }
+        console.error("Failed to preview final settlement:", error);
+        next(new HttpError(500, "Failed to preview final settlement"));
       }
-      res.json(terminated);
+    },
+  );
+
+  employeesRouter.post(
+    "/api/employees/:id/terminate",
+    async (req, res, next) => {
+      try {
+        const payload = terminateEmployeeSchema.parse(req.body ?? {});
+
+        if (!payload.generateSettlement) {
+          const terminated = await storage.terminateEmployee(req.params.id, {
+            ...(payload.terminationDate ? { terminationDate: payload.terminationDate } : {}),
+            terminationReason: payload.reason,
+          });
+          if (!terminated) {
+            return next(new HttpError(404, "Employee not found"));
+          }
+          return res.json(terminated);
+        }
+
+        // Only generating the settlement run is a payroll action.
+        const user = req.user as SessionUser | undefined;
+        if (!user?.permissions.includes("payroll:manage")) {
+          return next(new HttpError(403, "Forbidden"));
+        }
+
+        // A settlement whose run was cancelled no longer counts.
+        const existing = await storage.getActiveFinalSettlement(req.params.id);
+        if (existing) {
+          return next(new HttpError(409, "A final settlement already exists for this employee"));
+        }
+
+        const { employee, settlement } = await prepareFinalSettlement(req.params.id, payload);
+        const runStart =
+          settlement.periodStart <= settlement.terminationDate
+            ? settlement.periodStart
+            : settlement.terminationDate;
+        const employeeName = `${employee.firstName} ${employee.lastName ?? ""}`.trim();
+        const actorId = (req.user as SessionUser | undefined)?.id ?? null;
+
+        const record = await storage.createFinalSettlement({
+          run: {
+            period: `Final settlement - ${employeeName}`,
+            startDate: runStart,
+            endDate: settlement.terminationDate,
+            grossAmount: settlement.grossAmount.toString(),
+            totalDeductions: (settlement.advanceRecovery + settlement.loanRecovery).toFixed(2),
+            netAmount: settlement.netAmount.toString(),
+            status: "submitted",
+            companyId: employee.companyId ?? null,
+            createdBy: actorId,
+            submittedAt: new Date(),
+            scenarioKey: "final_settlement",
+            scenarioToggles: {},
+            exportArtifacts: [],
+          },
+          entry: settlementEntryFrom(settlement),
+          settlement: {
+            employeeId: employee.id,
+            terminationDate: settlement.terminationDate,
+            terminationReason: settlement.reason,
+            serviceYears: settlement.indemnity.serviceYears.toString(),
+            proratedSalary: settlement.proratedSalary.toString(),
+            indemnityAmount: settlement.indemnity.amount.toString(),
+            leaveEncashmentDays: settlement.leaveEncashmentDays.toString(),
+            leaveEncashmentAmount: settlement.leaveEncashmentAmount.toString(),
+            advanceRecovery: settlement.advanceRecovery.toString(),
+            loanRecovery: settlement.loanRecovery.toString(),
+            grossAmount: settlement.grossAmount.toString(),
+            netAmount: settlement.netAmount.toString(),
+            breakdown: settlement as unknown as Record<string, unknown>,
+            createdBy: actorId,
+          },
+        });
+
+        if (actorId) {
+          try {
+            await storage.logSecurityEvent({
+              actorId,
+              eventType: "payroll_change",
+              entityType: "payroll_run",
+              entityId: record.run.id,
+              summary: `Generated final settlement for ${employeeName}`,
+              metadata: {
+                employeeId: employee.id,
+                settlementId: record.settlement.id,
+                terminationDate: settlement.terminationDate,
+                reason: settlement.reason,
+                netAmount: settlement.netAmount,
+              },
+            });
+          } catch (error) {
+            console.error("Failed to log final settlement audit", error);
+          }
+        }
+
+        res.json({
+          ...employee,
+          status: "terminated",
+          terminationDate: settlement.terminationDate,
+          terminationReason: settlement.reason,
+          settlement: record.settlement,
+          payrollRun: record.run,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return next(new HttpError(400, "Invalid termination data", error.errors));
+        }
+        if (error instanceof HttpError) {
+          return next(error);
+        }
+        console.error("Failed to terminate employee:", error);
+        next(new HttpError(500, "Failed to terminate employee"));
+      }
+    },
+  );
+
+  employeesRouter.get(
+    "/api/employees/:id/final-settlements",
+    requirePermission("payroll:view"),
+    async (req, res, next) => {
+      try {
+        const settlements = await storage.getFinalSettlements(req.params.id);
+        res.json(settlements);
+      } catch (error) {
+        next(new HttpError(500, "Failed to fetch final settlements"));
+      }
+    },
+  );
+
+  employeesRouter.get(
+    "/api/employees/:id/final-settlements/:settlementId/statement",
+    requirePermission("payroll:view"),
+    async (req, res, next) => {
+      try {
+        const settlement = await storage.getFinalSettlement(req.params.settlementId);
+        if (!settlement || settlement.employeeId !== req.params.id) {
+          return next(new HttpError(404, "Final settlement not found"));
+        }
+        const employee = await storage.getEmployee(req.params.id);
+        if (!employee) {
+          return next(new HttpError(404, "Employee not found"));
+        }
+        const company = employee.companyId
+          ? await storage.getCompany(employee.companyId)
+          : (await storage.getCompanies())[0];
+        const buffer = await buildFinalSettlementStatementPdf({
+          settlement: settlement.breakdown as unknown as FinalSettlement,
+          employee,
+          companyName: company?.name ?? null,
+          currencyCode: company?.currencyCode ?? null,
+        });
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="final-settlement-${employee.employeeCode}.pdf"`,
+        );
+        res.end(buffer);
+      } catch (error) {
+        console.error("Failed to build final settlement statement:", error);
+        next(new HttpError(500, "Failed to build final settlement statement"));
+      }
+    },
+  );
+
+  const compensationChangeSchema = insertCompensationChangeSchema.pick({
+    salary: true,
+    additions: true,
+    effectiveDate: true,
+    reason: true,
+  });
+
+  employeesRouter.get(
+    "/api/employees/:id/compensation",
+    requirePermission("payroll:view"),
+    async (req, res, next) => {
+      try {
+        const employee = await storage.getEmployee(req.params.id);
+        if (!employee) {
+          return next(new HttpError(404, "Employee not found"));
+        }
+        const history = await storage.getCompensationHistory(req.params.id);
+        res.json({
+          employeeId: employee.id,
+          currentSalary: employee.salary,
+          currentAdditions: employee.additions ?? null,
+          history,
+        });
+      } catch (error) {
+        next(new HttpError(500, "Failed to fetch compensation history"));
+      }
+    },
+  );
+
+  employeesRouter.post(
+    "/api/employees/:id/compensation",
+    requirePermission("payroll:approve"),
+    async (req, res, next) => {
+      try {
+        const payload = compensationChangeSchema.parse(req.body ?? {});
+        if (Number(payload.salary) <= 0) {
+          return next(new HttpError(400, "Salary must be greater than zero"));
+        }
+        const actorId = (req.user as SessionUser | undefined)?.id ?? null;
+        const change = await storage.createCompensationChange({
+          ...payload,
+          employeeId: req.params.id,
+          approvedBy: actorId,
+          createdBy: actorId,
+        });
+        if (!change) {
+          return next(new HttpError(404, "Employee not found"));
+        }
+
+        if (actorId) {
+          try {
+            await storage.logSecurityEvent({
+              actorId,
+              eventType: "payroll_change",
+              entityType: "employee",
+              entityId: req.params.id,
+              summary: `Recorded salary ${change.changeType} effective ${change.effectiveDate}`,
+              metadata: {
+                compensationChangeId: change.id,
+                previousSalary: change.previousSalary,
+                salary: change.salary,
+                effectiveDate: change.effectiveDate,
+                reason: change.reason,
+              },
+            });
+          } catch (error) {
+            console.error("Failed to log compensation change audit", error);
+          }
+        }
+
+        res.status(201).json(change);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return next(new HttpError(400, "Invalid compensation change", error.errors));
+        }
+        if (error instanceof CompensationChangeError) {
+          return next(new HttpError(409, error.message));
+        }
+        console.error("Failed to record compensation change:", error);
+        next(new HttpError(500, "Failed to record compensation change"));
+      }
+    },
+  );
+
+  /** Fixed components need an amount and percentage components a percentage. */
+  const payComponentAmountError = (
+    component: Pick<EmployeePayComponent, "calculationType"> & {
+      amount?: string | null;
+      percentage?: string | null;
+    },
+  ) => {
+    if (component.calculationType === "percentage_of_basic") {
+      return Number(component.percentage ?? 0) > 0 ? null : "Percentage of basic must be greater than zero";
+    }
+    return Number(component.amount ?? 0) > 0 ? null : "Amount must be greater than zero";
+  };
+
+  const logPayComponentChange = async (
+    req: Request,
+    summary: string,
+    employeeId: string,
+    metadata: Record<string, unknown>,
+  ) => {
+    const actorId = (req.user as SessionUser | undefined)?.id;
+    if (!actorId) return;
+    try {
+      await storage.logSecurityEvent({
+        actorId,
+        eventType: "payroll_change",
+        entityType: "employee",
+        entityId: employeeId,
+        summary,
+        metadata,
+      });
     } catch (error) {
-      next(new HttpError(500, "Failed to delete employee"));
+      console.error("Failed to log pay component audit", error);
     }
-  });
+  };
+
+  employeesRouter.get(
+    "/api/employees/:id/pay-components",
+    requirePermission("payroll:view"),
+    async (req, res, next) => {
+      try {
+        const employee = await storage.getEmployee(req.params.id);
+        if (!employee) {
+          return next(new HttpError(404, "Employee not found"));
+        }
+        res.json(await storage.getEmployeePayComponents(employee.id));
+      } catch (error) {
+        next(new HttpError(500, "Failed to fetch pay components"));
+      }
+    },
+  );
+
+  employeesRouter.post(
+    "/api/employees/:id/pay-components",
+    requirePermission("payroll:approve"),
+    async (req, res, next) => {
+      try {
+        const payload = insertEmployeePayComponentSchema.parse(req.body ?? {});
+        const amountError = payComponentAmountError(payload);
+        if (amountError) {
+          return next(new HttpError(400, amountError));
+        }
+        const employee = await storage.getEmployee(req.params.id);
+        if (!employee) {
+          return next(new HttpError(404, "Employee not found"));
+        }
+        const created = await storage.createEmployeePayComponent(employee.id, payload);
+        await logPayComponentChange(req, `Added pay component ${created.name}`, employee.id, {
+          payComponentId: created.id,
+          code: created.code,
+          calculationType: created.calculationType,
+          amount: created.amount,
+          percentage: created.percentage,
+        });
+        res.status(201).json(created);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return next(new HttpError(400, "Invalid pay component", error.errors));
+        }
+        if ((error as any)?.code === "23505") {
+          return next(new HttpError(409, "The employee already has a pay component with this code"));
+        }
+        console.error("Failed to create pay component:", error);
+        next(new HttpError(500, "Failed to create pay component"));
+      }
+    },
+  );
+
+  employeesRouter.put(
+    "/api/employees/:id/pay-components/:componentId",
+    requirePermission("payroll:approve"),
+    async (req, res, next) => {
+      try {
+        const payload = updateEmployeePayComponentSchema.parse(req.body ?? {});
+        const existing = (await storage.getEmployeePayComponents(req.params.id)).find(
+          component => component.id === req.params.componentId,
+        );
+        if (!existing) {
+          return next(new HttpError(404, "Pay component not found"));
+        }
+        const amountError = payComponentAmountError({ ...existing, ...payload });
+        if (amountError) {
+          return next(new HttpError(400, amountError));
+        }
+        const updated = await storage.updateEmployeePayComponent(
+          req.params.id,
+          req.params.componentId,
+          payload,
+        );
+        if (!updated) {
+          return next(new HttpError(404, "Pay component not found"));
+        }
+        await logPayComponentChange(req, `Updated pay component ${updated.name}`, req.params.id, {
+          payComponentId: updated.id,
+          previous: { amount: existing.amount, percentage: existing.percentage },
+          amount: updated.amount,
+          percentage: updated.percentage,
+        });
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return next(new HttpError(400, "Invalid pay component", error.errors));
+        }
+        if ((error as any)?.code === "23505") {
+          return next(new HttpError(409, "The employee already has a pay component with this code"));
+        }
+        console.error("Failed to update pay component:", error);
+        next(new HttpError(500, "Failed to update pay component"));
+      }
+    },
+  );
+
+  employeesRouter.delete(
+    "/api/employees/:id/pay-components/:componentId",
+    requirePermission("payroll:approve"),
+    async (req, res, next) => {
+      try {
+        const deleted = await storage.deleteEmployeePayComponent(req.params.id, req.params.componentId);
+        if (!deleted) {
+          return next(new HttpError(404, "Pay component not found"));
+        }
+        await logPayComponentChange(req, "Removed pay component", req.params.id, {
+          payComponentId: req.params.componentId,
+        });
+        res.status(204).send();
+      } catch (error) {
+        next(new HttpError(500, "Failed to delete pay component"));
+      }
+    },
+  );
 
   employeesRouter.delete("/api/employees/:id", async (req, res, next) => {
     try {
@@ -2409,8 +3119,19 @@ employeesRouter.get("/api/employees/import/template", (_req, res) => {
       const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
       const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
 
-      // Forecasted gross = sum of active salaries + additions
-      const forecastGross = activeEmployees.reduce((sum, e) => sum + Number(e.salary || 0) + Number((e as any).additions || 0), 0);
+      // Forecasted gross = sum of active salaries + additions + monthly pay components
+      const activeIds = new Set(activeEmployees.map(e => e.id));
+      const salaryById = new Map(activeEmployees.map(e => [e.id, Number(e.salary || 0)]));
+      const forecastPayComponents = (await storage.getEmployeePayComponents())
+        .filter(component => activeIds.has(component.employeeId))
+        .reduce(
+          (sum, component) =>
+            sum + resolvePayComponentMonthlyAmount(component, salaryById.get(component.employeeId) ?? 0),
+          0,
+        );
+      const forecastGross =
+        activeEmployees.reduce((sum, e) => sum + Number(e.salary || 0) + Number((e as any).additions || 0), 0) +
+        forecastPayComponents;
 
       // Forecasted deductions from employee events (deduction/penalty) this month
       const events = await storage.getEmployeeEvents(start, end);
@@ -2450,6 +3171,7 @@ employeesRouter.get("/api/employees/import/template", (_req, res) => {
           breakdown: {
             salaries: activeEmployees.reduce((s, e) => s + Number(e.salary || 0), 0),
             additions: activeEmployees.reduce((s, e) => s + Number((e as any).additions || 0), 0),
+            payComponents: forecastPayComponents,
             deductions: forecastDeductions,
             deductionsByType,
             loanReturns: forecastLoanReturns,
@@ -2584,6 +3306,13 @@ employeesRouter.get("/api/employees/import/template", (_req, res) => {
   employeesRouter.post("/api/vacations", async (req, res, next) => {
     try {
       const vacationRequest = insertVacationRequestSchema.parse(req.body);
+      if (vacationRequest.startDate <= vacationRequest.endDate) {
+        vacationRequest.days = await countVacationDays(
+          vacationRequest.employeeId,
+          vacationRequest.startDate,
+          vacationRequest.endDate,
+        );
+      }
       const newVacationRequest = await storage.createVacationRequest(vacationRequest);
       res.status(201).json(newVacationRequest);
     } catch (error) {
@@ -2762,6 +3491,14 @@ employeesRouter.get("/api/employees/import/template", (_req, res) => {
         }
       }
 
+      if (otherUpdates.startDate || otherUpdates.endDate) {
+        const startDate = otherUpdates.startDate ?? before.startDate;
+        const endDate = otherUpdates.endDate ?? before.endDate;
+        if (startDate <= endDate) {
+          otherUpdates.days = await countVacationDays(before.employeeId, startDate, endDate);
+        }
+      }
+
       const updatePayload = omitUndefined({
         ...otherUpdates,
         status,
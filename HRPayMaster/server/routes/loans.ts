@@ -1,19 +1,27 @@
 import { Router, type Request } from "express";
 import { HttpError } from "../errorHandler";
-import { storage } from "../storage";
+import { storage, LoanRepaymentError, LoanRestructureError } from "../storage";
 import {
+  insertLoanPolicySchema,
   insertLoanSchema,
   loanApprovalStageInputSchema,
   loanDocumentInputSchema,
+  loanRepaymentMethods,
+  loanRestructureRequestSchema,
 } from "@shared/schema";
 import { z } from "zod";
 import { requirePermission } from "./auth";
-import type { SessionUser } from "@shared/schema";
+import type { LoanInterestMethod, SessionUser } from "@shared/schema";
 import {
   generateAmortizationSchedule,
   mapScheduleToInsert,
+  planLoanRestructure,
+  resolveLoanPolicy,
   validateLoanPolicies,
+  type GeneratedScheduleEntry,
+  type LoanPolicyValidationResult,
 } from "../utils/loans";
+import { buildLoanRepaymentReceiptPdf } from "../utils/payrollExports";
 import {
   createRouteMetricsMiddleware,
   loanRequestsTotal,
@@ -82,6 +90,37 @@ const loanUpdateSchema = insertLoanSchema.partial().extend({
   policyCheckOnly: z.boolean().optional(),
 });
 
+const loanRepaymentSchema = z
+  .object({
+    amount: z.coerce.number().positive().optional(),
+    settleInFull: z.boolean().optional(),
+    method: z.enum(loanRepaymentMethods),
+    paidDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+      .optional(),
+    reference: z.string().trim().max(120).optional(),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine(data => data.settleInFull || data.amount !== undefined, {
+    message: "Enter an amount or settle the loan in full",
+    path: ["amount"],
+  });
+
+const loanRestructureCreateSchema = loanRestructureRequestSchema.and(
+  z.object({
+    approvalStages: z.array(loanApprovalStageInputSchema).optional(),
+  }),
+);
+
+const loanRestructureStageUpdateSchema = z.object({
+  stageUpdates: z.array(loanStageStatusUpdateSchema).min(1),
+});
+
+// Restructures always go through approval; one stage is added when the
+// request does not name any.
+const DEFAULT_RESTRUCTURE_STAGES = [{ stageName: "Restructure approval" }];
+
 const toNumber = (value: unknown) => {
   const parsed = Number.parseFloat(String(value ?? 0));
   return Number.isFinite(parsed) ? parsed : 0;
@@ -93,6 +132,7 @@ const logLoanAudit = async (
   summary: string,
   loanId: string,
   metadata?: Record<string, unknown>,
+  entityType = "loan",
 ) => {
   const actorId = (req.user as SessionUser | undefined)?.id;
   if (!actorId) return;
@@ -100,7 +140,7 @@ const logLoanAudit = async (
     await storage.logSecurityEvent({
       actorId,
       eventType,
-      entityType: "loan",
+      entityType,
       entityId: loanId,
       summary,
       metadata: metadata ?? null,
@@ -110,6 +150,41 @@ const logLoanAudit = async (
   }
 };
 
+/** Salary, service, open loans and the applicable policy for an employee's loan. */
+const loadLoanPolicyContext = async (employeeId: string, excludeLoanId?: string) => {
+  const [employee, policies, activeLoanCount] = await Promise.all([
+    storage.getEmployee(employeeId),
+    storage.getLoanPolicies(),
+    storage.countOpenLoansForEmployee(employeeId, excludeLoanId),
+  ]);
+  return {
+    employeeSalary: employee ? toNumber(employee.salary) : undefined,
+    employeeStartDate: employee?.startDate ?? null,
+    activeLoanCount,
+    policy: resolveLoanPolicy(policies, employee) ?? null,
+  };
+};
+
+const loanPolicyViolation = (status: number, result: LoanPolicyValidationResult) =>
+  new HttpError(
+    status,
+    result.violations.join(" ") || "Loan policy validation failed",
+    {
+      policy: result.policy,
+      violations: result.violations,
+      failedRules: result.failedRules.filter(rule => rule.severity === "violation"),
+    },
+    "loanPolicyViolation",
+  );
+
+const toPolicyMetadata = (result: LoanPolicyValidationResult) => ({
+  lastCheckedAt: new Date().toISOString(),
+  policyId: result.policy?.id ?? null,
+  violations: result.violations,
+  warnings: result.warnings,
+  failedRules: result.failedRules,
+});
+
 loansRouter.get("/", requirePermission("loans:view"), trackLoanListMetrics, async (req, res, next) => {
   try {
     const loans = await storage.getLoans();
@@ -120,6 +195,79 @@ loansRouter.get("/", requirePermission("loans:view"), trackLoanListMetrics, asyn
   }
 });
 
+loansRouter.get("/policies", requirePermission("loans:view"), async (_req, res, next) => {
+  try {
+    res.json(await storage.getLoanPolicies());
+  } catch (error) {
+    next(new HttpError(500, "Failed to fetch loan policies", error));
+  }
+});
+
+loansRouter.post("/policies", requirePermission("loans:manage"), async (req, res, next) => {
+  try {
+    const policy = insertLoanPolicySchema.parse(req.body);
+    const created = await storage.createLoanPolicy(policy);
+    await logLoanAudit(
+      req,
+      "loan_change",
+      "Created loan policy",
+      created.id,
+      { name: created.name, companyId: created.companyId, departmentId: created.departmentId },
+      "loan_policy",
+    );
+    res.status(201).json(created);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid loan policy", error.errors));
+    }
+    next(new HttpError(500, "Failed to create loan policy", error));
+  }
+});
+
+loansRouter.put("/policies/:policyId", requirePermission("loans:manage"), async (req, res, next) => {
+  try {
+    const updates = insertLoanPolicySchema.partial().parse(req.body);
+    const updated = await storage.updateLoanPolicy(req.params.policyId, updates);
+    if (!updated) {
+      return next(new HttpError(404, "Loan policy not found"));
+    }
+    await logLoanAudit(
+      req,
+      "loan_change",
+      "Updated loan policy",
+      updated.id,
+      { updatedFields: Object.keys(updates) },
+      "loan_policy",
+    );
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid loan policy", error.errors));
+    }
+    next(new HttpError(500, "Failed to update loan policy", error));
+  }
+});
+
+loansRouter.delete("/policies/:policyId", requirePermission("loans:manage"), async (req, res, next) => {
+  try {
+    const deleted = await storage.deleteLoanPolicy(req.params.policyId);
+    if (!deleted) {
+      return next(new HttpError(404, "Loan policy not found"));
+    }
+    await logLoanAudit(
+      req,
+      "loan_change",
+      "Deleted loan policy",
+      req.params.policyId,
+      undefined,
+      "loan_policy",
+    );
+    res.status(204).send();
+  } catch (error) {
+    next(new HttpError(500, "Failed to delete loan policy", error));
+  }
+});
+
 loansRouter.get(
   "/:id",
   requirePermission("loans:view"),
@@ -154,6 +302,253 @@ loansRouter.get(
   }
 });
 
+loansRouter.post("/:id/repayments", requirePermission("loans:manage"), async (req, res, next) => {
+  try {
+    const data = loanRepaymentSchema.parse(req.body);
+    const loan = await storage.getLoan(req.params.id);
+    if (!loan) {
+      return next(new HttpError(404, "Loan not found"));
+    }
+    const amount = data.settleInFull ? toNumber(loan.remainingAmount) : data.amount!;
+    const record = await storage.recordLoanRepayment({
+      loanId: loan.id,
+      amount,
+      method: data.method,
+      paidDate: data.paidDate ?? new Date().toISOString().split("T")[0],
+      reference: data.reference || null,
+      notes: data.notes || null,
+      recordedBy: (req.user as SessionUser | undefined)?.id ?? null,
+    });
+    if (!record) {
+      return next(new HttpError(404, "Loan not found"));
+    }
+    await logLoanAudit(
+      req,
+      "loan_change",
+      `Recorded ${data.method.replace("_", " ")} repayment of ${amount.toFixed(2)}`,
+      loan.id,
+      {
+        paymentId: record.payment.id,
+        receiptNumber: record.payment.receiptNumber,
+        amount,
+        remainingAmount: record.loan.remainingAmount,
+      },
+    );
+    res.status(201).json({
+      ...record,
+      receiptUrl: `/api/loans/${loan.id}/repayments/${record.payment.id}/receipt`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid repayment", error.errors));
+    }
+    if (error instanceof LoanRepaymentError) {
+      return next(new HttpError(409, error.message));
+    }
+    console.error("Failed to record loan repayment:", error);
+    next(new HttpError(500, "Failed to record loan repayment", error));
+  }
+});
+
+loansRouter.get(
+  "/:id/repayments/:paymentId/receipt",
+  requirePermission("loans:view"),
+  async (req, res, next) => {
+    try {
+      const payment = await storage.getLoanPayment(req.params.paymentId);
+      if (!payment || payment.loanId !== req.params.id || payment.payrollRunId) {
+        return next(new HttpError(404, "Repayment not found"));
+      }
+      const loan = await storage.getLoan(req.params.id);
+      const employee = loan ? await storage.getEmployee(loan.employeeId) : undefined;
+      if (!loan || !employee) {
+        return next(new HttpError(404, "Loan not found"));
+      }
+      const company = employee.companyId
+        ? await storage.getCompany(employee.companyId)
+        : (await storage.getCompanies())[0];
+      const buffer = await buildLoanRepaymentReceiptPdf({
+        payment,
+        loan,
+        employee,
+        companyName: company?.name ?? null,
+        currencyCode: company?.currencyCode ?? null,
+      });
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="loan-receipt-${payment.receiptNumber ?? payment.id}.pdf"`,
+      );
+      res.end(buffer);
+    } catch (error) {
+      console.error("Failed to build loan repayment receipt:", error);
+      next(new HttpError(500, "Failed to build loan repayment receipt"));
+    }
+  },
+);
+
+loansRouter.get("/:id/restructures", requirePermission("loans:view"), async (req, res, next) => {
+  try {
+    res.json(await storage.getLoanRestructures(req.params.id));
+  } catch (error) {
+    console.error("Failed to fetch loan restructures:", error);
+    next(new HttpError(500, "Failed to fetch loan restructures", error));
+  }
+});
+
+loansRouter.post("/:id/restructures", requirePermission("loans:manage"), async (req, res, next) => {
+  try {
+    const { approvalStages, ...request } = loanRestructureCreateSchema.parse(req.body);
+    const loan = await storage.getLoan(req.params.id);
+    if (!loan) {
+      return next(new HttpError(404, "Loan not found"));
+    }
+    if (loan.status !== "active" && loan.status !== "paused") {
+      return next(new HttpError(409, `Only active loans can be restructured; this loan is ${loan.status}`));
+    }
+    const existing = await storage.getLoanRestructures(loan.id);
+    if (existing.some(restructure => restructure.status === "pending")) {
+      return next(new HttpError(409, "This loan already has a restructure awaiting approval"));
+    }
+
+    const schedule = await storage.getLoanAmortizationSchedule(loan.id);
+    let plan: ReturnType<typeof planLoanRestructure>;
+    try {
+      plan = planLoanRestructure({
+        loan,
+        schedule,
+        request,
+        fallbackStartDate: new Date().toISOString().split("T")[0],
+      });
+    } catch (error) {
+      return next(new HttpError(422, error instanceof Error ? error.message : String(error)));
+    }
+
+    // The restructured terms must still fit the employee's loan policy.
+    const policyCheck = validateLoanPolicies({
+      loan: { ...loan, monthlyDeduction: plan.monthlyDeduction.toFixed(2), endDate: plan.endDate },
+      documents: await storage.getLoanDocuments(loan.id),
+      existingSchedule: [...schedule.filter(entry => entry.status === "paid"), ...plan.schedule],
+      ...(await loadLoanPolicyContext(loan.employeeId, loan.id)),
+      strict: false,
+    });
+    if (policyCheck.violations.length > 0) {
+      return next(loanPolicyViolation(422, policyCheck));
+    }
+
+    const restructure = await storage.createLoanRestructure(
+      {
+        loanId: loan.id,
+        type: request.type,
+        reason: request.reason,
+        deferInstallments: request.type === "defer_installments" ? request.deferInstallments : null,
+        monthlyDeduction:
+          request.type === "change_monthly_deduction" ? request.monthlyDeduction.toFixed(2) : null,
+        endDate: request.type === "extend_end_date" ? request.endDate : null,
+        requestedBy: (req.user as SessionUser | undefined)?.id ?? null,
+      },
+      (approvalStages?.length ? approvalStages : DEFAULT_RESTRUCTURE_STAGES).map(stage => ({
+        ...stage,
+        loanId: loan.id,
+      })),
+    );
+    await logLoanAudit(req, "loan_change", "Requested loan restructure", loan.id, {
+      restructureId: restructure.id,
+      type: request.type,
+      reason: request.reason,
+    });
+    res.status(201).json({
+      restructure,
+      proposed: plan,
+      warnings: policyCheck.warnings,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid loan restructure", error.errors));
+    }
+    console.error("Failed to request loan restructure:", error);
+    next(new HttpError(500, "Failed to request loan restructure", error));
+  }
+});
+
+loansRouter.put(
+  "/:id/restructures/:restructureId",
+  requirePermission(["loans:manage", "loans:approve"]),
+  async (req, res, next) => {
+    try {
+      const { stageUpdates } = loanRestructureStageUpdateSchema.parse(req.body);
+      const restructure = await storage.getLoanRestructure(req.params.restructureId);
+      if (!restructure || restructure.loanId !== req.params.id) {
+        return next(new HttpError(404, "Loan restructure not found"));
+      }
+      if (restructure.status !== "pending") {
+        return next(new HttpError(409, `This restructure has already been ${restructure.status}`));
+      }
+      const stageIds = new Set(restructure.approvalStages.map(stage => stage.id));
+      if (stageUpdates.some(stage => !stageIds.has(stage.id))) {
+        return next(new HttpError(400, "Approval stage does not belong to this restructure"));
+      }
+
+      for (const stage of stageUpdates) {
+        await storage.updateLoanApprovalStage(stage.id, {
+          status: stage.status,
+          notes: stage.notes,
+          actedAt: stage.actedAt ?? (stage.status ? new Date().toISOString() : undefined),
+        });
+      }
+      for (const status of ["approved", "rejected"] as const) {
+        const ids = stageUpdates.filter(stage => stage.status === status).map(stage => stage.id);
+        if (ids.length > 0) {
+          await logLoanAudit(req, "loan_approval", `Restructure stage ${status}`, restructure.loanId, {
+            restructureId: restructure.id,
+            stageIds: ids,
+          });
+        }
+      }
+
+      const stages = (await storage.getLoanRestructure(restructure.id))!.approvalStages;
+      if (stages.some(stage => stage.status === "rejected")) {
+        await storage.rejectLoanRestructure(restructure.id);
+        return res.json({ restructure: await storage.getLoanRestructure(restructure.id) });
+      }
+      if (!stages.every(stage => stage.status === "approved" || stage.status === "skipped")) {
+        return res.json({ restructure: await storage.getLoanRestructure(restructure.id) });
+      }
+
+      const applied = await storage.applyLoanRestructure(
+        restructure.id,
+        (req.user as SessionUser | undefined)?.id ?? null,
+      );
+      await logLoanAudit(req, "loan_change", "Applied loan restructure", restructure.loanId, {
+        restructureId: restructure.id,
+        type: restructure.type,
+        scheduleVersion: applied.version.version,
+        monthlyDeduction: applied.loan.monthlyDeduction,
+        endDate: applied.loan.endDate,
+      });
+      res.json({ ...applied, restructure: await storage.getLoanRestructure(restructure.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid restructure approval", error.errors));
+      }
+      if (error instanceof LoanRestructureError) {
+        return next(new HttpError(409, error.message));
+      }
+      console.error("Failed to update loan restructure:", error);
+      next(new HttpError(500, "Failed to update loan restructure", error));
+    }
+  },
+);
+
+loansRouter.get("/:id/schedule-versions", requirePermission("loans:view"), async (req, res, next) => {
+  try {
+    res.json(await storage.getLoanScheduleVersions(req.params.id));
+  } catch (error) {
+    console.error("Failed to fetch loan schedule history:", error);
+    next(new HttpError(500, "Failed to fetch loan schedule history", error));
+  }
+});
+
 loansRouter.post("/", requirePermission("loans:manage"), trackLoanCreateMetrics, async (req, res, next) => {
   try {
     const payload = loanCreateSchema.parse({
@@ -164,6 +559,32 @@ loansRouter.post("/", requirePermission("loans:manage"), trackLoanCreateMetrics,
 
     const { approvalStages, documents, ...loanInput } = payload;
 
+    // Check the request against the employee's loan policy before anything is saved.
+    const policyContext = await loadLoanPolicyContext(loanInput.employeeId);
+    let proposedSchedule: GeneratedScheduleEntry[] = [];
+    try {
+      proposedSchedule = generateAmortizationSchedule({
+        amount: loanInput.amount,
+        monthlyPayment: loanInput.monthlyDeduction,
+        interestRate: loanInput.interestRate,
+        interestMethod: loanInput.interestMethod,
+        startDate: loanInput.startDate,
+        endDate: loanInput.endDate,
+      });
+    } catch {
+      // An unaffordable payment is reported as a policy violation below.
+    }
+    const requestCheck = validateLoanPolicies({
+      loan: loanInput,
+      documents: documents ?? [],
+      existingSchedule: proposedSchedule,
+      ...policyContext,
+      strict: false,
+    });
+    if (requestCheck.violations.length > 0) {
+      return next(loanPolicyViolation(422, requestCheck));
+    }
+
     const newLoan = await storage.createLoan(loanInput);
 
     if (approvalStages && approvalStages.length > 0) {
@@ -189,6 +610,7 @@ loansRouter.post("/", requirePermission("loans:manage"), trackLoanCreateMetrics,
       amount: toNumber(newLoan.amount),
       monthlyPayment: toNumber(newLoan.monthlyDeduction),
       interestRate: toNumber(newLoan.interestRate),
+      interestMethod: newLoan.interestMethod as LoanInterestMethod,
       startDate: newLoan.startDate,
       endDate: newLoan.endDate ?? undefined,
     });
@@ -211,24 +633,18 @@ loansRouter.post("/", requirePermission("loans:manage"), trackLoanCreateMetrics,
       throw new Error("Loan not found after creation");
     }
 
-    const employee = await storage.getEmployee(loanDetails.employeeId);
-
     const policyResult = validateLoanPolicies({
       loan: loanDetails,
       approvalStages: stages,
       documents: docs,
       existingSchedule: schedule,
-      employeeSalary: employee ? toNumber(employee.salary) : undefined,
+      ...policyContext,
       strict: false,
     });
 
     await storage.updateLoan(newLoan.id, {
       approvalState: stages.length > 0 ? "in_review" : loanDetails.approvalState,
-      policyMetadata: {
-        lastCheckedAt: new Date().toISOString(),
-        violations: policyResult.violations,
-        warnings: policyResult.warnings,
-      } as any,
+      policyMetadata: toPolicyMetadata(policyResult) as any,
     });
 
     const enrichedLoan = await storage.getLoan(newLoan.id);
@@ -296,6 +712,23 @@ loansRouter.put(
       ...loanUpdates
     } = payload;
 
+    const policyContext = await loadLoanPolicyContext(existingLoan.employeeId, loanId);
+
+    // A stage cannot be approved while the loan breaks its policy limits.
+    // Documents and approvals themselves are only enforced at activation.
+    if (stageUpdates?.some(stage => stage.status === "approved")) {
+      const stageCheck = validateLoanPolicies({
+        loan: { ...existingLoan, ...loanUpdates },
+        documents: await storage.getLoanDocuments(loanId),
+        existingSchedule: await storage.getLoanAmortizationSchedule(loanId),
+        ...policyContext,
+        strict: false,
+      });
+      if (stageCheck.violations.length > 0) {
+        return next(loanPolicyViolation(409, stageCheck));
+      }
+    }
+
     if (approvalStages) {
       await storage.setLoanApprovalStages(
         loanId,
@@ -364,6 +797,8 @@ loansRouter.put(
     const interestRateForSchedule = toNumber(
       loanUpdates.interestRate ?? existingLoan.interestRate,
     );
+    const interestMethodForSchedule = (loanUpdates.interestMethod ??
+      existingLoan.interestMethod) as LoanInterestMethod;
     const startDateForSchedule = loanUpdates.startDate ?? existingLoan.startDate;
     const endDateForSchedule = loanUpdates.endDate ?? existingLoan.endDate ?? undefined;
 
@@ -372,6 +807,7 @@ loansRouter.put(
         loanUpdates.amount !== undefined ||
         loanUpdates.monthlyDeduction !== undefined ||
         loanUpdates.interestRate !== undefined ||
+        loanUpdates.interestMethod !== undefined ||
         loanUpdates.startDate !== undefined ||
         loanUpdates.endDate !== undefined,
     );
@@ -385,34 +821,26 @@ loansRouter.put(
         amount: amountForSchedule,
         monthlyPayment: monthlyPaymentForSchedule,
         interestRate: interestRateForSchedule,
+        interestMethod: interestMethodForSchedule,
         startDate: startDateForSchedule,
         endDate: endDateForSchedule,
       });
       generatedScheduleInsert = mapScheduleToInsert(loanId, generated);
     }
 
-    const employee = await storage.getEmployee(existingLoan.employeeId);
-
-    const scheduleForValidation = generatedScheduleInsert
-      ? (generatedScheduleInsert as unknown as any[])
-      : currentSchedule;
+    const scheduleForValidation = generatedScheduleInsert ?? currentSchedule;
 
     const policyResult = validateLoanPolicies({
-      loan: { ...existingLoan, ...loanUpdates, status: nextStatus } as any,
+      loan: { ...existingLoan, ...loanUpdates, status: nextStatus },
       approvalStages: updatedStages,
       documents: updatedDocuments,
-      existingSchedule: scheduleForValidation as any,
-      employeeSalary: employee ? toNumber(employee.salary) : undefined,
+      existingSchedule: scheduleForValidation,
+      ...policyContext,
       strict: nextStatus === "active",
     });
 
     if (policyResult.violations.length > 0 && nextStatus === "active") {
-      return next(
-        new HttpError(
-          409,
-          policyResult.violations.join(" ") || "Loan policy validation failed",
-        ),
-      );
+      return next(loanPolicyViolation(409, policyResult));
     }
 
     if (Object.keys(loanUpdates).length > 0) {
@@ -433,11 +861,7 @@ loansRouter.put(
 
     await storage.updateLoan(loanId, {
       approvalState,
-      policyMetadata: {
-        lastCheckedAt: new Date().toISOString(),
-        violations: policyResult.violations,
-        warnings: policyResult.warnings,
-      } as any,
+      policyMetadata: toPolicyMetadata(policyResult) as any,
     });
 
     if (previousApprovalState !== approvalState) {
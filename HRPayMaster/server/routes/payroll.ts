@@ -1,18 +1,28 @@
 import { Router, type Request } from "express";
 import { randomUUID } from "node:crypto";
 import { HttpError } from "../errorHandler";
-import { LoanPaymentUndoError, storage, type EmployeeScheduleSummary } from "../storage";
+import {
+  LoanPaymentUndoError,
+  storage,
+  type EmployeeScheduleSummary,
+  type PayrollSalaryAdvance,
+} from "../storage";
 import {
   insertPayrollRunSchema,
   insertPayrollEntrySchema,
+  insertSocialInsuranceRateSchema,
+  insertGlAccountMappingSchema,
+  updateGlAccountMappingSchema,
+  offCyclePayrollRunTypes,
+  payrollRunComponents,
   payrollRuns,
   payrollEntries as payrollEntriesTable,
-  loans as loansTable,
-  loanPayments as loanPaymentsTable,
 } from "@shared/schema";
 import type {
   Company,
+  CompanyHoliday,
   EmployeeWithDepartment,
+  PayrollRun,
   LoanWithEmployee,
   VacationRequestWithEmployee,
   VacationRequest,
@@ -21,7 +31,18 @@ import type {
   PayrollFrequencyConfig,
   PayrollExportFormatConfig,
   PayrollScenarioToggle,
+  PayrollRunComponent,
+  OffCyclePayrollRunType,
   SessionUser,
+  SocialInsuranceRate,
+  CompensationChange,
+  EmployeePayComponent,
+  InsertPayrollRun,
+  OvertimeRateConfig,
+  PayrollRetroAdjustment,
+  PayrollDeductionCarryForward,
+  PayrollCalculationTrace,
+  SocialInsuranceBreakdown,
 } from "@shared/schema";
 import { z } from "zod";
 import { db } from "../db";
@@ -30,10 +51,52 @@ import { requirePermission } from "./auth";
 import {
   calculateEmployeePayroll,
   calculateTotals,
+  type OvertimeConfig,
   type PayrollCalculationOverrides,
 } from "../utils/payroll";
-import { shouldPauseLoanForLeave } from "../utils/loans";
-import { buildPayrollExports, type PayrollExportRequest } from "../utils/payrollExports";
+import { resolveOvertimeRates } from "../utils/overtime";
+import { calculateEmployerCosts } from "../utils/employerCosts";
+import { BlobNotFoundError, getBlobStore } from "../blobStore";
+import {
+  cancelPayrollGenerationJob,
+  getPayrollGenerationJob,
+  PayrollGenerationCancelledError,
+  startPayrollGenerationJob,
+  type PayrollGenerationProgress,
+} from "../payrollJobs";
+import { expandHolidays, holidayDateSet, holidaysForCompany } from "../utils/holidays";
+import { isRepayableLoan, shouldPauseLoanForLeave } from "../utils/loans";
+import { calculateRetroAdjustments, RETRO_LOOKBACK_MONTHS } from "../utils/retro";
+import { buildReversalEntry, negateAmount } from "../utils/payrollReversal";
+import {
+  isPayrollRunFrozen,
+  payrollRunTransitions,
+  payrollRunVoidBlocker,
+  PayrollRunTransitionError,
+  resolvePayrollRunTransition,
+  type PayrollRunAction,
+} from "../utils/payrollLifecycle";
+import {
+  buildPayrollExports,
+  buildPayslipPdf,
+  buildZipArchive,
+  payslipFilename,
+  type PayrollExportRequest,
+} from "../utils/payrollExports";
+import { BankFileValidationError, buildBankFile, listBankFileFormats } from "../utils/bankFiles";
+import {
+  buildPayrollVarianceReport,
+  DEFAULT_VARIANCE_THRESHOLD_PERCENT,
+} from "../utils/payrollVariance";
+import {
+  buildPayrollJournal,
+  buildPayrollJournalCsv,
+  buildPayrollJournalWorkbook,
+  type JournalEntry,
+  type JournalRun,
+} from "../utils/payrollJournal";
+import { buildPayrollTraceCsv, buildPayrollTraceJson } from "../utils/payrollTrace";
+import { generatePayslipEmail, sendEmail } from "../emailService";
 import {
   createRouteMetricsMiddleware,
   payrollPreviewRequestsTotal,
@@ -58,7 +121,6 @@ const trackPayrollGenerateMetrics = createRouteMetricsMiddleware({
 
 const deductionsSchema = z.object({
   taxDeduction: z.number().optional(),
-  socialSecurityDeduction: z.number().optional(),
   healthInsuranceDeduction: z.number().optional(),
 });
 
@@ -92,6 +154,52 @@ const logPayrollAudit = async (
   }
 };
 
+const payrollRunLockedError = (run: { status: string }) =>
+  isPayrollRunFrozen(run.status)
+    ? new HttpError(
+        409,
+        `Payroll run is ${run.status} and can no longer be changed`,
+        { status: run.status },
+        "payrollRunLocked",
+      )
+    : undefined;
+
+const payslipEmailSchema = z.object({
+  entryIds: z.array(z.string().min(1)).optional(),
+  passwordProtect: z.boolean().default(true),
+});
+
+const payslipPassword = (employee: { civilId?: string | null; employeeCode: string }) => {
+  const civilId = employee.civilId?.trim();
+  return civilId
+    ? { password: civilId, hint: "Use your Civil ID number to open it." }
+    : { password: employee.employeeCode, hint: "Use your employee code to open it." };
+};
+
+const loadPayslipSources = async (runId: string) => {
+  const run = await storage.getPayrollRun(runId);
+  if (!run) {
+    return undefined;
+  }
+  const [employees, { company }] = await Promise.all([
+    storage.getEmployees({ includeTerminated: true }),
+    resolveRunCompany(run),
+  ]);
+  return {
+    run,
+    employeesById: new Map(employees.map(employee => [employee.id, employee] as const)),
+    company,
+  };
+};
+
+const payrollRunTransitionSchema = z.object({
+  notes: z.string().trim().max(1000).optional(),
+});
+
+const payrollRunVoidSchema = z.object({
+  reason: z.string().trim().min(3, "A reason is required to void a payroll run").max(1000),
+});
+
 const overridesSchema = z.object({
   skippedVacationIds: z.array(z.string().min(1)).optional(),
   skippedLoanIds: z.array(z.string().min(1)).optional(),
@@ -131,7 +239,7 @@ const exportFormatRequestSchema = z
   .object({
     formatId: z.string().optional(),
     type: z.enum(["bank", "gl", "statutory"]).optional(),
-    format: z.enum(["pdf", "csv", "xlsx"]).optional(),
+    format: z.enum(["pdf", "csv", "xlsx", "txt"]).optional(),
     filename: z.string().optional(),
   })
   .refine(value => Boolean(value.formatId || value.type), {
@@ -148,6 +256,7 @@ const previewPayrollSchema = z.object({
   period: z.string().min(1),
   startDate: z.string().min(1),
   endDate: z.string().min(1),
+  companyId: z.string().min(1).optional(),
   calendarId: z.string().optional(),
   scenarioKey: z.string().optional(),
   scenarioToggles: scenarioToggleSchema.optional(),
@@ -161,19 +270,50 @@ const generatePayrollSchema = z.object({
   period: z.string().min(1),
   startDate: z.string().min(1),
   endDate: z.string().min(1),
+  companyId: z.string().min(1).optional(),
   calendarId: z.string().optional(),
   cycleLabel: z.string().optional(),
   scenarioKey: z.string().optional(),
   scenarioToggles: scenarioToggleSchema.optional(),
-  status: z.enum(["draft", "completed"]).optional().default("completed"),
+  // "completed" is accepted from older clients and treated as a submission.
+  status: z
+    .enum(["draft", "submitted", "completed"])
+    .optional()
+    .default("submitted")
+    .transform(status => (status === "completed" ? "submitted" : status)),
   useAttendance: z.boolean().optional(),
   deductions: deductionsSchema.optional(),
   overrides: overridesSchema.optional(),
   exports: z.array(exportFormatRequestSchema).optional(),
+  runType: z.enum(["regular", ...offCyclePayrollRunTypes]).optional().default("regular"),
+  employeeIds: z.array(z.string().min(1)).optional(),
+  components: z.array(z.enum(payrollRunComponents)).min(1).optional(),
+  payDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates").optional(),
+  /** Respond with a generation job straight away instead of waiting for the run. */
+  background: z.boolean().optional(),
+}).superRefine((value, ctx) => {
+  if (value.runType !== "regular" && !(value.employeeIds && value.employeeIds.length > 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["employeeIds"],
+      message: "Off-cycle runs need at least one employee",
+    });
+  }
+  if (value.runType === "regular" && (value.employeeIds || value.components)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["runType"],
+      message: "Employees and components can only be chosen for off-cycle runs",
+    });
+  }
 });
 
+// Employees calculated between progress updates, and entries per insert.
+const PAYROLL_CALCULATION_BATCH_SIZE = 100;
+const PAYROLL_INSERT_BATCH_SIZE = 500;
+
 const BONUS_EVENT_TYPES = new Set(["bonus", "commission", "overtime"]);
-const DEDUCTION_EVENT_TYPES = new Set(["deduction", "penalty"]);
+const DEDUCTION_EVENT_TYPES = new Set(["deduction", "penalty", "court_order"]);
 
 type PayrollInputs = {
   employees: EmployeeWithDepartment[];
@@ -182,6 +322,15 @@ type PayrollInputs = {
   employeeEvents: EmployeeEventRecord[];
   attendanceSummary: Record<string, number>;
   scheduleSummary: Record<string, EmployeeScheduleSummary>;
+  socialInsuranceRates: SocialInsuranceRate[];
+  compensationChanges: CompensationChange[];
+  /** Public holidays of the run's company inside the period. */
+  holidays: Set<string>;
+  payComponents: EmployeePayComponent[];
+  /** Deductions earlier regular runs could not recover, by employee. */
+  carriedDeductions: Record<string, PayrollDeductionCarryForward[]>;
+  /** Salary advances still to be recovered, by employee. */
+  salaryAdvances: Record<string, PayrollSalaryAdvance[]>;
 };
 
 const parseAmount = (value: unknown) => {
@@ -206,6 +355,9 @@ const calculateVacationDaysInPeriod = (
   return Math.max(0, Math.ceil((vacEnd.getTime() - vacStart.getTime()) / (1000 * 60 * 60 * 24)) + 1);
 };
 
+const serializeRecoveries = (recoveries: Record<string, number>) =>
+  Object.keys(recoveries).length > 0 ? recoveries : null;
+
 const serializeAllowancesForStorage = (
   allowances: Record<string, number> | undefined,
   enabled: boolean,
@@ -289,9 +441,150 @@ const filterEventsByScenario = (
     if (!toggles.bonuses && event.eventType !== "overtime" && BONUS_EVENT_TYPES.has(event.eventType)) {
       return false;
     }
+    if (toggles.deductions === false && DEDUCTION_EVENT_TYPES.has(event.eventType)) {
+      return false;
+    }
     return true;
   });
 
+/**
+ * Approved schedule overtime an employee is paid for in a regular run.
+ * Off-cycle runs leave it to the regular run of the period so it is not paid
+ * twice.
+ */
+const resolveScheduleOvertime = (
+  scheduleSummary: Record<string, EmployeeScheduleSummary>,
+  employeeId: string,
+  rates: OvertimeRateConfig,
+): OvertimeConfig | undefined => {
+  const days = scheduleSummary[employeeId]?.approvedOvertime;
+  return days && days.length > 0 ? { days, rates } : undefined;
+};
+
+/**
+ * Dates an employee is scheduled to work in the period. Without a schedule the
+ * payroll calculation falls back to the default work week.
+ */
+const resolveWorkDates = (
+  scheduleSummary: Record<string, EmployeeScheduleSummary>,
+  employeeId: string,
+): Set<string> | undefined => {
+  const dates = scheduleSummary[employeeId]?.workDates;
+  return dates && dates.length > 0 ? new Set(dates) : undefined;
+};
+
+/** The company's maximum deduction percentage, or null when deductions are only limited by gross pay. */
+const resolveMaxDeductionPercent = (company?: Pick<Company, "maxDeductionPercent"> | null) => {
+  const parsed = Number.parseFloat(String(company?.maxDeductionPercent ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Employer-side cost columns for an employee's entry. Off-cycle runs only
+ * carry the employer share of social insurance on what they pay.
+ */
+const buildEmployerCostColumns = (
+  employee: EmployeeWithDepartment,
+  entry: { socialInsuranceBreakdown: SocialInsuranceBreakdown | null },
+  context: {
+    start: Date;
+    end: Date;
+    company?: Pick<Company, "healthInsurancePremium"> | null;
+    payComponents?: EmployeePayComponent[];
+    recurring: boolean;
+  },
+) => {
+  const costs = calculateEmployerCosts({
+    employee,
+    start: context.start,
+    end: context.end,
+    socialInsuranceBreakdown: entry.socialInsuranceBreakdown,
+    healthInsurancePremium: context.company?.healthInsurancePremium,
+    payComponents: context.payComponents?.filter(component => component.employeeId === employee.id),
+    recurring: context.recurring,
+  });
+  return {
+    employerSocialInsurance: costs.employerSocialInsurance.toString(),
+    employerHealthInsurance: costs.employerHealthInsurance.toString(),
+    indemnityAccrual: costs.indemnityAccrual.toString(),
+    visaCostAmortization: costs.visaCostAmortization.toString(),
+  };
+};
+
+const defaultOffCycleComponents: Record<OffCyclePayrollRunType, PayrollRunComponent[]> = {
+  bonus: ["bonuses", "overtime"],
+  correction: ["salary", "allowances"],
+};
+
+/**
+ * Off-cycle runs pay only the chosen components, so they are stored as
+ * scenario toggles with every other component switched off. Attendance is
+ * never applied because the run does not cover a full working period.
+ */
+const resolveOffCycleToggles = (
+  runType: OffCyclePayrollRunType,
+  components?: PayrollRunComponent[],
+): Record<string, boolean> => {
+  const selected = new Set(components ?? defaultOffCycleComponents[runType]);
+  return {
+    ...Object.fromEntries(payrollRunComponents.map(component => [component, selected.has(component)])),
+    attendance: false,
+  };
+};
+
+type PayrollTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const EVENT_TRACE_CATEGORIES = new Set(["bonus", "deduction", "allowance"]);
+
+/**
+ * Marks the one-time events a run's entries paid, read from their calculation
+ * traces, as processed by the run. Runs of every type do this once submitted
+ * so no other run pays the same event. Fails with `409` when another run
+ * already paid one of them.
+ */
+const markPaidEventsProcessed = async (
+  run: Pick<PayrollRun, "id" | "startDate" | "endDate">,
+  entries: Array<{ calculationTrace?: PayrollCalculationTrace | null }>,
+  tx: PayrollTransaction,
+  events?: EmployeeEventRecord[],
+) => {
+  const paidIds = new Set(
+    entries.flatMap(entry =>
+      (entry.calculationTrace?.steps ?? [])
+        .filter(
+          step =>
+            step.sourceId &&
+            EVENT_TRACE_CATEGORIES.has(step.category) &&
+            (step.outcome === "included" || step.outcome === "capped"),
+        )
+        .map(step => step.sourceId as string),
+    ),
+  );
+  if (paidIds.size === 0) return;
+
+  const candidates =
+    events ?? (await storage.getEmployeeEvents(new Date(run.startDate), new Date(run.endDate)));
+  const paidEvents = candidates.filter(
+    event => paidIds.has(event.id) && event.recurrenceType !== "monthly",
+  );
+  const claimedElsewhere = paidEvents.filter(
+    event => event.status === "processed" && event.payrollRunId !== run.id,
+  );
+  if (claimedElsewhere.length === 0) {
+    const openIds = paidEvents.filter(event => event.status === "active").map(event => event.id);
+    if (openIds.length === 0) return;
+    const marked = await storage.markPayrollRunEventsProcessed(run.id, openIds, tx);
+    // Fewer rows means another run claimed one in the meantime.
+    if (marked === openIds.length) return;
+  }
+  throw new HttpError(
+    409,
+    "Events paid by this run were paid by another run; recalculate it and try again",
+    { eventIds: claimedElsewhere.map(event => event.id) },
+    "payrollRunEventsClaimed",
+  );
+};
+
 const mapExportRequests = (
   requests: Array<z.infer<typeof exportFormatRequestSchema>> | undefined,
   availableFormats: PayrollExportFormatConfig[],
@@ -330,6 +623,8 @@ const mapExportRequests = (
         type: matched.type,
         format: matched.format,
         filename: request.filename,
+        bankFormat: matched.bankFormat ?? null,
+        options: matched.options,
       });
       continue;
     }
@@ -437,40 +732,204 @@ const buildOverrideSets = (
   return hasAny ? sets : undefined;
 };
 
-const resolveUseAttendance = async (overrideValue: unknown) => {
+const resolveUseAttendance = (overrideValue: unknown, company: Company | undefined) => {
   if (overrideValue !== undefined) {
     return Boolean(overrideValue);
   }
+  return Boolean(company?.useAttendanceForDeductions);
+};
+
+interface PayrollCompanyScope {
+  company?: Company;
+  /** Employees without a company belong to the only company of the install. */
+  includesUnassigned: boolean;
+}
+
+/**
+ * Company a new run is processed for. Installs with several companies must
+ * name one; a single-company install falls back to its only company.
+ */
+const resolvePayrollCompany = async (companyId?: string | null): Promise<PayrollCompanyScope> => {
+  const companies = await storage.getCompanies();
+  const includesUnassigned = companies.length <= 1;
+  if (companyId) {
+    const company = companies.find(item => item.id === companyId);
+    if (!company) {
+      throw new HttpError(404, "Company not found");
+    }
+    return { company, includesUnassigned };
+  }
+  if (companies.length > 1) {
+    throw new HttpError(
+      400,
+      "Choose the company to run payroll for",
+      { companyIds: companies.map(company => company.id) },
+      "payrollCompanyRequired",
+    );
+  }
+  return { company: companies[0], includesUnassigned };
+};
+
+/**
+ * Company an existing run belongs to. Runs created before companies were
+ * recorded resolve only on single-company installs.
+ */
+const resolveRunCompany = async (run: { companyId?: string | null }): Promise<PayrollCompanyScope> => {
   const companies = await storage.getCompanies();
-  const company = companies[0];
-  return Boolean((company as any)?.useAttendanceForDeductions);
+  const includesUnassigned = companies.length <= 1;
+  const company = run.companyId
+    ? companies.find(item => item.id === run.companyId)
+    : includesUnassigned
+      ? companies[0]
+      : undefined;
+  return { company, includesUnassigned };
+};
+
+/** Pay date of a new run: the requested one, or the period end shifted by the calendar's offset. */
+const resolvePayDate = (
+  endDate: string,
+  calendar: PayrollCalendarConfig | undefined,
+  requested?: string,
+): string | null => {
+  if (requested) return requested;
+  if (calendar?.payDateOffsetDays === undefined) return null;
+  const date = new Date(`${endDate.slice(0, 10)}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + calendar.payDateOffsetDays);
+  return date.toISOString().split("T")[0];
+};
+
+const loadPayrollJournal = async (run: JournalRun) => {
+  const [{ company }, employees, departments] = await Promise.all([
+    resolveRunCompany(run),
+    storage.getEmployees({ includeTerminated: true }),
+    storage.getDepartments(),
+  ]);
+  const companyId = run.companyId ?? company?.id ?? null;
+  const mappings = await storage.getGlAccountMappings(companyId);
+  return buildPayrollJournal({ run: { ...run, companyId }, employees, departments, mappings });
+};
+
+/**
+ * Builds the requested export files for a run and stores each as a new
+ * version of its artifact. Returns the run's updated export list, or
+ * undefined when nothing was built.
+ */
+const storeRunExports = async ({
+  run,
+  entries,
+  employees,
+  company,
+  scenarioKey,
+  toggles,
+  requests,
+  actorId,
+}: {
+  run: PayrollRun;
+  entries: JournalEntry[];
+  employees: EmployeeWithDepartment[];
+  company?: Company;
+  scenarioKey: string;
+  toggles: Record<string, boolean>;
+  requests: PayrollExportRequest[];
+  actorId: string | null;
+}) => {
+  const journal = requests.some(request => request.type === "gl")
+    ? await loadPayrollJournal({ ...run, entries })
+    : undefined;
+  const files = await buildPayrollExports({
+    run,
+    entries: entries.map(entry => ({
+      employeeId: entry.employeeId,
+      grossPay: parseAmount(entry.grossPay),
+      netPay: parseAmount(entry.netPay),
+      loanDeduction: parseAmount(entry.loanDeduction),
+      advanceDeduction: parseAmount(entry.advanceDeduction),
+      otherDeductions: parseAmount(entry.otherDeductions),
+      bonusAmount: parseAmount(entry.bonusAmount),
+      taxDeduction: parseAmount(entry.taxDeduction),
+      socialSecurityDeduction: parseAmount(entry.socialSecurityDeduction),
+      healthInsuranceDeduction: parseAmount(entry.healthInsuranceDeduction),
+    })),
+    employees,
+    currencyCode: company?.currencyCode,
+    scenarioKey,
+    toggles,
+    requests,
+    journal,
+  });
+  if (files.length === 0) return undefined;
+  return storage.savePayrollExportFiles(run.id, files, actorId);
 };
 
+const isInCompanyScope = (
+  employee: { companyId?: string | null },
+  { company, includesUnassigned }: PayrollCompanyScope,
+) => {
+  if (!company) return true;
+  if (employee.companyId) return employee.companyId === company.id;
+  return includesUnassigned;
+};
+
+const resolvePeriodHolidays = (
+  companyHolidays: CompanyHoliday[],
+  companyId: string | undefined,
+  start: Date,
+  end: Date,
+) => holidayDateSet(expandHolidays(holidaysForCompany(companyHolidays, companyId), start, end));
+
 const loadPayrollInputs = async ({
   start,
   end,
   useAttendance,
+  scope,
 }: {
   start: Date;
   end: Date;
   useAttendance: boolean;
+  scope: PayrollCompanyScope;
 }): Promise<PayrollInputs> => {
-  const [employees, loans, vacationRequests, rawEvents, scheduleSummary] = await Promise.all([
+  const [
+    activeEmployees,
+    allLoans,
+    allVacationRequests,
+    rawEvents,
+    scheduleSummary,
+    socialInsuranceRates,
+    compensationChanges,
+    companyHolidays,
+    allPayComponents,
+    carriedDeductions,
+    salaryAdvances,
+  ] = await Promise.all([
     storage.getEmployees({ status: ["active"], includeTerminated: false }),
     storage.getLoans(start, end),
     storage.getVacationRequests(start, end),
     storage.getEmployeeEvents(start, end),
     storage.getScheduleSummary(start, end),
+    storage.getSocialInsuranceRates(),
+    storage.getCompensationChanges(end),
+    storage.getCompanyHolidays(),
+    storage.getEmployeePayComponents(),
+    storage.getDeductionCarryForwards(start.toISOString().split("T")[0]),
+    storage.getPayrollSalaryAdvances(end.toISOString().split("T")[0]),
   ]);
 
   const attendanceSummary: Record<string, number> = useAttendance
     ? await storage.getAttendanceSummary(start, end)
     : {};
 
-  const employeeEvents = rawEvents.map(({ employee, ...event }) => ({
-    ...event,
-    affectsPayroll: (event as any).affectsPayroll ?? true,
-  })) as EmployeeEventRecord[];
+  const employees = activeEmployees.filter(employee => isInCompanyScope(employee, scope));
+  const employeeIds = new Set(employees.map(employee => employee.id));
+  const loans = allLoans.filter(loan => employeeIds.has(loan.employeeId));
+  const vacationRequests = allVacationRequests.filter(vacation =>
+    employeeIds.has(vacation.employeeId),
+  );
+  const employeeEvents = rawEvents
+    .filter(event => employeeIds.has(event.employeeId))
+    .map(({ employee, ...event }) => ({
+      ...event,
+      affectsPayroll: (event as any).affectsPayroll ?? true,
+    })) as EmployeeEventRecord[];
 
   return {
     employees,
@@ -479,9 +938,72 @@ const loadPayrollInputs = async ({
     employeeEvents,
     attendanceSummary,
     scheduleSummary,
+    socialInsuranceRates,
+    compensationChanges,
+    holidays: resolvePeriodHolidays(companyHolidays, scope.company?.id, start, end),
+    payComponents: allPayComponents.filter(component => employeeIds.has(component.employeeId)),
+    carriedDeductions,
+    salaryAdvances,
   };
 };
 
+/**
+ * Retro lines a regular run starting on `start` carries for changes recorded
+ * after earlier runs closed. Recalculation excludes the run's own lines so
+ * they are worked out afresh.
+ */
+const loadRetroAdjustments = async ({
+  start,
+  employees,
+  compensationChanges,
+  companyId,
+  excludeRunId,
+}: {
+  start: Date;
+  employees: EmployeeWithDepartment[];
+  compensationChanges: CompensationChange[];
+  companyId?: string | null;
+  excludeRunId?: string;
+}): Promise<Map<string, PayrollRetroAdjustment[]>> => {
+  const since = new Date(start);
+  since.setUTCMonth(since.getUTCMonth() - RETRO_LOOKBACK_MONTHS);
+  const sourceRuns = await storage.getRetroPayrollSources(start, since);
+  if (sourceRuns.length === 0) {
+    return new Map();
+  }
+
+  const eventsEnd = sourceRuns.reduce(
+    (latest, run) => (run.endDate > latest ? run.endDate : latest),
+    sourceRuns[0].endDate,
+  );
+  const [applied, rawEvents, socialInsuranceRates] = await Promise.all([
+    storage.getAppliedRetroAdjustments(excludeRunId),
+    storage.getEmployeeEvents(new Date(sourceRuns[0].startDate), new Date(eventsEnd)),
+    storage.getSocialInsuranceRates(),
+  ]);
+
+  return calculateRetroAdjustments({
+    runs: sourceRuns.map(run => ({
+      id: run.id,
+      period: run.period,
+      startDate: run.startDate,
+      endDate: run.endDate,
+      closedAt: run.approvedAt ?? run.paidAt ?? run.lockedAt ?? run.createdAt,
+      includesStatutory:
+        (run.scenarioToggles as Record<string, boolean> | null)?.statutory !== false,
+      entries: run.entries,
+    })),
+    employees,
+    compensationChanges,
+    employeeEvents: rawEvents.map(({ employee, ...event }) => ({
+      ...event,
+      affectsPayroll: (event as any).affectsPayroll ?? true,
+    })),
+    applied,
+    socialInsurance: { rates: socialInsuranceRates, companyId },
+  });
+};
+
 const overlapsRange = (event: EmployeeEventRecord, start: Date, end: Date) => {
   const recurrenceStart = toDateOrUndefined(event.eventDate);
   if (!recurrenceStart || recurrenceStart > end) {
@@ -535,12 +1057,23 @@ interface PayrollPreviewEmployeeImpact {
   allowances: PayrollPreviewAllowanceImpact[];
 }
 
+/** An employee whose deductions did not all fit under the deduction cap. */
+interface PayrollDeductionCapWarning {
+  employeeId: string;
+  employeeName: string;
+  grossPay: number;
+  totalDeductions: number;
+  carriedForward: number;
+  lines: PayrollDeductionCarryForward[];
+}
+
 interface PayrollPreviewScenarioResponse {
   scenarioKey: string;
   scenarioLabel: string;
   toggles: Record<string, boolean>;
   totals: { gross: number; net: number; deductions: number };
   employees: PayrollPreviewEmployeeImpact[];
+  deductionCapWarnings: PayrollDeductionCapWarning[];
 }
 
 interface PayrollPreviewResponse {
@@ -549,12 +1082,53 @@ interface PayrollPreviewResponse {
   endDate: string;
   calendarId: string | null;
   cycleLabel: string | null;
+  maxDeductionPercent: number | null;
   scenarios: PayrollPreviewScenarioResponse[];
 }
 
+const buildDeductionCapWarnings = (
+  employees: EmployeeWithDepartment[],
+  entries: ReturnType<typeof calculateEmployeePayroll>[],
+): PayrollDeductionCapWarning[] => {
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+  return entries
+    .filter(entry => entry.deductionCarryForward && entry.deductionCarryForward.length > 0)
+    .map(entry => {
+      const employee = employeesById.get(entry.employeeId);
+      const lines = entry.deductionCarryForward ?? [];
+      return {
+        employeeId: entry.employeeId,
+        employeeName: employee
+          ? `${employee.firstName} ${employee.lastName ?? ""}`.trim()
+          : entry.employeeId,
+        grossPay: entry.grossPay,
+        totalDeductions:
+          entry.taxDeduction +
+          entry.socialSecurityDeduction +
+          entry.healthInsuranceDeduction +
+          entry.loanDeduction +
+          entry.advanceDeduction +
+          entry.otherDeductions,
+        carriedForward: Number(lines.reduce((total, line) => total + line.amount, 0).toFixed(2)),
+        lines,
+      };
+    });
+};
+
 const buildEmployeePreview = (
   employee: EmployeeWithDepartment,
-  context: Omit<PayrollInputs, "employees" | "attendanceSummary" | "scheduleSummary">,
+  context: Omit<
+    PayrollInputs,
+    | "employees"
+    | "attendanceSummary"
+    | "scheduleSummary"
+    | "socialInsuranceRates"
+    | "compensationChanges"
+    | "holidays"
+    | "payComponents"
+    | "carriedDeductions"
+    | "salaryAdvances"
+  >,
   start: Date,
   end: Date,
   toggles?: Record<string, boolean>,
@@ -578,10 +1152,9 @@ const buildEmployeePreview = (
   }
 
   const employeeLoans = context.loans.filter(loan => {
-    const isActive = loan.status === "active" || loan.status === "approved";
     return (
       loan.employeeId === employee.id &&
-      isActive &&
+      isRepayableLoan(loan) &&
       parseAmount(loan.remainingAmount) > 0
     );
   });
@@ -691,20 +1264,13 @@ const buildEmployeePreview = (
   };
 };
 
-const toComparableTime = (value: unknown) => {
-  if (!value) return Number.POSITIVE_INFINITY;
-  if (value instanceof Date) {
-    const time = value.getTime();
-    return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time;
-  }
-  const date = new Date(String(value));
-  const time = date.getTime();
-  return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time;
-};
-
 payrollRouter.get("/", async (req, res, next) => {
   try {
-    const payrollRuns = await storage.getPayrollRuns();
+    const companyId =
+      typeof req.query.companyId === "string" && req.query.companyId.trim()
+        ? req.query.companyId.trim()
+        : undefined;
+    const payrollRuns = await storage.getPayrollRuns({ companyId });
     res.json(payrollRuns);
   } catch (error) {
     console.error("Failed to fetch payroll runs:", error);
@@ -712,6 +1278,161 @@ payrollRouter.get("/", async (req, res, next) => {
   }
 });
 
+payrollRouter.get("/bank-formats", (_req, res) => {
+  res.json(listBankFileFormats());
+});
+
+payrollRouter.get("/social-insurance/rates", async (_req, res, next) => {
+  try {
+    res.json(await storage.getSocialInsuranceRates());
+  } catch (error) {
+    next(new HttpError(500, "Failed to fetch social insurance rates", error));
+  }
+});
+
+payrollRouter.post(
+  "/social-insurance/rates",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const rate = insertSocialInsuranceRateSchema.parse(req.body);
+      const created = await storage.createSocialInsuranceRate(rate);
+      await logPayrollAudit(
+        req,
+        "Created social insurance rate",
+        { type: "social_insurance_rate", id: created.id },
+        { code: created.code, nationalityGroup: created.nationalityGroup },
+      );
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid social insurance rate", error.errors));
+      }
+      next(new HttpError(500, "Failed to create social insurance rate", error));
+    }
+  },
+);
+
+payrollRouter.put(
+  "/social-insurance/rates/:rateId",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const updates = insertSocialInsuranceRateSchema.partial().parse(req.body);
+      const updated = await storage.updateSocialInsuranceRate(req.params.rateId, updates);
+      if (!updated) {
+        return next(new HttpError(404, "Social insurance rate not found"));
+      }
+      await logPayrollAudit(
+        req,
+        "Updated social insurance rate",
+        { type: "social_insurance_rate", id: updated.id },
+        { updatedFields: Object.keys(updates) },
+      );
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid social insurance rate", error.errors));
+      }
+      next(new HttpError(500, "Failed to update social insurance rate", error));
+    }
+  },
+);
+
+payrollRouter.delete(
+  "/social-insurance/rates/:rateId",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const deleted = await storage.deleteSocialInsuranceRate(req.params.rateId);
+      if (!deleted) {
+        return next(new HttpError(404, "Social insurance rate not found"));
+      }
+      await logPayrollAudit(req, "Deleted social insurance rate", {
+        type: "social_insurance_rate",
+        id: req.params.rateId,
+      });
+      res.status(204).send();
+    } catch (error) {
+      next(new HttpError(500, "Failed to delete social insurance rate", error));
+    }
+  },
+);
+
+payrollRouter.get("/gl-mappings", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    const companyId = typeof req.query.companyId === "string" ? req.query.companyId : undefined;
+    res.json(await storage.getGlAccountMappings(companyId));
+  } catch (error) {
+    next(new HttpError(500, "Failed to fetch GL account mappings", error));
+  }
+});
+
+payrollRouter.post("/gl-mappings", requirePermission("payroll:manage"), async (req, res, next) => {
+  try {
+    const mapping = insertGlAccountMappingSchema.parse(req.body);
+    const created = await storage.createGlAccountMapping(mapping);
+    await logPayrollAudit(
+      req,
+      "Created GL account mapping",
+      { type: "gl_account_mapping", id: created.id },
+      { component: created.component, accountCode: created.accountCode },
+    );
+    res.status(201).json(created);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid GL account mapping", error.errors));
+    }
+    next(new HttpError(500, "Failed to create GL account mapping", error));
+  }
+});
+
+payrollRouter.put(
+  "/gl-mappings/:mappingId",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const updates = updateGlAccountMappingSchema.parse(req.body);
+      const updated = await storage.updateGlAccountMapping(req.params.mappingId, updates);
+      if (!updated) {
+        return next(new HttpError(404, "GL account mapping not found"));
+      }
+      await logPayrollAudit(
+        req,
+        "Updated GL account mapping",
+        { type: "gl_account_mapping", id: updated.id },
+        { updatedFields: Object.keys(updates) },
+      );
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid GL account mapping", error.errors));
+      }
+      next(new HttpError(500, "Failed to update GL account mapping", error));
+    }
+  },
+);
+
+payrollRouter.delete(
+  "/gl-mappings/:mappingId",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const deleted = await storage.deleteGlAccountMapping(req.params.mappingId);
+      if (!deleted) {
+        return next(new HttpError(404, "GL account mapping not found"));
+      }
+      await logPayrollAudit(req, "Deleted GL account mapping", {
+        type: "gl_account_mapping",
+        id: req.params.mappingId,
+      });
+      res.status(204).send();
+    } catch (error) {
+      next(new HttpError(500, "Failed to delete GL account mapping", error));
+    }
+  },
+);
+
 // Recalculate payroll run totals (and fix entry netPay based on fields)
 payrollRouter.post(
   "/:id/recalculate",
@@ -728,6 +1449,36 @@ payrollRouter.post(
         return next(new HttpError(404, "Payroll run not found"));
       }
 
+      const lockedError = payrollRunLockedError(existingRun);
+      if (lockedError) {
+        return next(lockedError);
+      }
+
+      // Cancelling reopened what the run recovered; it must stay that way.
+      if (existingRun.status === "cancelled") {
+        return next(
+          new HttpError(
+            409,
+            "Cancelled payroll runs cannot be recalculated",
+            { status: existingRun.status },
+            "payrollRunNotRecalculable",
+          ),
+        );
+      }
+
+      const runType = existingRun.runType ?? "regular";
+      if (runType === "final_settlement") {
+        return next(
+          new HttpError(
+            409,
+            "Final settlement runs are calculated from the employee's settlement and cannot be recalculated",
+            undefined,
+            "payrollRunNotRecalculable",
+          ),
+        );
+      }
+      const isOffCycle = runType !== "regular";
+
       const scenarioToggleInput = existingRun.scenarioToggles as
         | Record<string, boolean>
         | null
@@ -748,26 +1499,42 @@ payrollRouter.post(
         return next(new HttpError(400, "Invalid payroll run period"));
       }
 
-      const activeEmployees = await storage.getEmployees({
-        status: ["active"],
-        includeTerminated: false,
-      });
+      const companyScope = await resolveRunCompany(existingRun);
+      const { company } = companyScope;
+      const allActiveEmployees = (
+        await storage.getEmployees({
+          status: ["active"],
+          includeTerminated: false,
+        })
+      ).filter(employee => isInCompanyScope(employee, companyScope));
+      // Off-cycle runs keep the employees they were generated for, as do
+      // runs whose company is unknown.
+      const runEmployeeIds = isOffCycle || !company
+        ? new Set(
+            (
+              await db.query.payrollEntries.findMany({
+                where: (entries, { eq: eqFn }) => eqFn(entries.payrollRunId, runId),
+              })
+            ).map(entry => entry.employeeId),
+          )
+        : undefined;
+      const activeEmployees = runEmployeeIds
+        ? allActiveEmployees.filter(employee => runEmployeeIds.has(employee.id))
+        : allActiveEmployees;
 
       const loans = await storage.getLoans(start, end);
       const vacationRequests = await storage.getVacationRequests(start, end);
       const rawEvents = await storage.getEmployeeEvents(start, end);
+      const compensationChanges = await storage.getCompensationChanges(end);
       const employeeEvents = rawEvents.map(({ employee, ...event }) => ({
         ...event,
+        // Events this run already paid are still part of its calculation.
+        status: event.payrollRunId === runId ? "active" : event.status,
         affectsPayroll: (event as any).affectsPayroll ?? true,
       }));
       const scenarioEvents = filterEventsByScenario(employeeEvents, scenarioToggles);
 
-      const companies = await storage.getCompanies();
-      const company = companies[0];
-      const useAttendance =
-        req.body?.useAttendance !== undefined
-          ? Boolean(req.body.useAttendance)
-          : Boolean((company as any)?.useAttendanceForDeductions);
+      const useAttendance = resolveUseAttendance(req.body?.useAttendance, company);
       const shouldUseAttendance = scenarioToggles.attendance !== false && useAttendance;
       const attendanceSummary = shouldUseAttendance
         ? await storage.getAttendanceSummary(start, end)
@@ -775,13 +1542,46 @@ payrollRouter.post(
 
       const scenarioAttendanceSummary = scenarioToggles.attendance !== false ? attendanceSummary : {};
       const scenarioLoans = scenarioToggles.loans ? loans : [];
+      const payScheduleOvertime = !isOffCycle && scenarioToggles.overtime !== false;
+      const scheduleSummary = payScheduleOvertime || shouldUseAttendance
+        ? await storage.getScheduleSummary(start, end)
+        : ({} as Record<string, EmployeeScheduleSummary>);
+      const overtimeRates = resolveOvertimeRates(company?.overtimeRates);
+      const holidays = resolvePeriodHolidays(
+        await storage.getCompanyHolidays(),
+        company?.id,
+        start,
+        end,
+      );
 
       const deductionConfig =
         scenarioToggles.statutory !== false
           ? parsedDeductions.data
-          : { taxDeduction: 0, socialSecurityDeduction: 0, healthInsuranceDeduction: 0 };
+          : { taxDeduction: 0, healthInsuranceDeduction: 0 };
+      const socialInsurance =
+        scenarioToggles.statutory !== false
+          ? { rates: await storage.getSocialInsuranceRates(), companyId: company?.id }
+          : undefined;
 
       const allowancesEnabled = scenarioToggles.allowances !== false;
+      const payComponents = allowancesEnabled ? await storage.getEmployeePayComponents() : [];
+      const retroByEmployee = isOffCycle
+        ? new Map<string, PayrollRetroAdjustment[]>()
+        : await loadRetroAdjustments({
+            start,
+            employees: activeEmployees,
+            compensationChanges,
+            companyId: company?.id,
+            excludeRunId: runId,
+          });
+      // Carried deductions, like retro lines, are recovered by regular runs only.
+      const carriedDeductions = isOffCycle
+        ? {}
+        : await storage.getDeductionCarryForwards(existingRun.startDate, runId);
+      const salaryAdvances = isOffCycle
+        ? {}
+        : await storage.getPayrollSalaryAdvances(existingRun.endDate, runId);
+      const maxDeductionPercent = resolveMaxDeductionPercent(company);
 
       const payrollEntries = await Promise.all(
         activeEmployees.map(employee => {
@@ -794,13 +1594,26 @@ payrollRouter.post(
             loans: scenarioLoans,
             vacationRequests,
             employeeEvents: scenarioEvents,
+            compensationChanges,
             start,
             end,
             workingDays: employeeWorkingDays,
             attendanceDays: scenarioAttendanceSummary[employee.id],
             config: deductionConfig,
+            socialInsurance,
             currencyCode: company?.currencyCode,
             locale: company?.locale,
+            includeSalary: scenarioToggles.salary !== false,
+            retroAdjustments: retroByEmployee.get(employee.id),
+            overtime: payScheduleOvertime
+              ? resolveScheduleOvertime(scheduleSummary, employee.id, overtimeRates)
+              : undefined,
+            holidays,
+            workDates: resolveWorkDates(scheduleSummary, employee.id),
+            payComponents,
+            maxDeductionPercent,
+            carriedDeductions: carriedDeductions[employee.id],
+            salaryAdvances: salaryAdvances[employee.id],
           });
         }),
       );
@@ -814,7 +1627,7 @@ payrollRouter.post(
 
         if (payrollEntries.length > 0) {
           await tx.insert(payrollEntriesTable).values(
-            payrollEntries.map(entry => ({
+            payrollEntries.map((entry, index) => ({
               employeeId: entry.employeeId,
               grossPay: entry.grossPay.toString(),
               baseSalary: entry.baseSalary.toString(),
@@ -826,21 +1639,48 @@ payrollRouter.post(
               socialSecurityDeduction: entry.socialSecurityDeduction.toString(),
               healthInsuranceDeduction: entry.healthInsuranceDeduction.toString(),
               loanDeduction: entry.loanDeduction.toString(),
+              advanceDeduction: entry.advanceDeduction.toString(),
               otherDeductions: entry.otherDeductions.toString(),
               netPay: entry.netPay.toString(),
               adjustmentReason: entry.adjustmentReason,
               allowances: serializeAllowancesForStorage(entry.allowances, allowancesEnabled),
+              socialInsuranceBreakdown: entry.socialInsuranceBreakdown,
+              retroAmount: entry.retroAmount.toString(),
+              retroAdjustments: entry.retroAdjustments,
+              overtimeAmount: entry.overtimeAmount.toString(),
+              overtimeLines: entry.overtimeLines,
+              calculationTrace: entry.calculationTrace,
+              payComponents: entry.payComponents,
+              deductionCarryForward: entry.deductionCarryForward,
+              loanRecoveries: serializeRecoveries(entry.loanRecoveries),
+              advanceRecoveries: serializeRecoveries(entry.advanceRecoveries),
+              ...buildEmployerCostColumns(activeEmployees[index], entry, {
+                start,
+                end,
+                company,
+                payComponents,
+                recurring: !isOffCycle,
+              }),
               payrollRunId: runId,
             })),
           );
         }
 
+        // A submitted run holds the events it pays, so claim them afresh.
+        if (existingRun.status === "submitted") {
+          await storage.reopenPayrollRunEvents(runId, tx);
+          await markPaidEventsProcessed(existingRun, payrollEntries, tx, employeeEvents);
+        }
+
         await tx
           .update(payrollRuns)
           .set({
             grossAmount: grossAmount.toString(),
             totalDeductions: totalDeductions.toString(),
             netAmount: netAmount.toString(),
+            // New amounts need a fresh variance review.
+            varianceSignedOffBy: null,
+            varianceSignedOffAt: null,
           })
           .where(eq(payrollRuns.id, runId));
       });
@@ -863,6 +1703,9 @@ payrollRouter.post(
 
       res.json(updatedRun);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return next(error);
+      }
       console.error("Recalculate payroll error:", error);
       next(new HttpError(500, "Failed to recalculate payroll totals"));
     }
@@ -890,8 +1733,8 @@ payrollRouter.post(
 
       const overrideSets = buildOverrideSets(parsed.overrides);
 
-      const companies = await storage.getCompanies();
-      const company = companies[0];
+      const companyScope = await resolvePayrollCompany(parsed.companyId);
+      const { company } = companyScope;
       const { calendar, frequency } = resolveCalendarConfiguration(company, parsed.calendarId);
       const baseDefaults = deriveScenarioDefaults(frequency, calendar);
       const baseToggles = resolveScenarioToggles(parsed.scenarioToggles as Record<string, boolean> | undefined, baseDefaults);
@@ -920,13 +1763,14 @@ payrollRouter.post(
         }
       }
 
-      const baseUseAttendance = await resolveUseAttendance(parsed.useAttendance);
+      const baseUseAttendance = resolveUseAttendance(parsed.useAttendance, company);
       const shouldLoadAttendance = baseUseAttendance && scenarioPlans.some(plan => plan.toggles.attendance);
 
       const inputs = await loadPayrollInputs({
         start,
         end,
         useAttendance: shouldLoadAttendance,
+        scope: companyScope,
       });
 
       if (inputs.employees.length === 0) {
@@ -934,6 +1778,8 @@ payrollRouter.post(
       }
 
       const deductionBaseline = deductionsSchema.parse(parsed.deductions ?? {});
+      const overtimeRates = resolveOvertimeRates(company?.overtimeRates);
+      const maxDeductionPercent = resolveMaxDeductionPercent(company);
 
       const scenarios = [] as Array<{
         scenarioKey: string;
@@ -941,6 +1787,7 @@ payrollRouter.post(
         toggles: Record<string, boolean>;
         totals: { gross: number; net: number; deductions: number };
         employees: PayrollPreviewEmployeeImpact[];
+        deductionCapWarnings: PayrollDeductionCapWarning[];
       }>;
 
       for (const plan of scenarioPlans) {
@@ -949,7 +1796,10 @@ payrollRouter.post(
         const scenarioAttendance = plan.toggles.attendance ? inputs.attendanceSummary : {};
         const deductionConfig = plan.toggles.statutory
           ? deductionBaseline
-          : { taxDeduction: 0, socialSecurityDeduction: 0, healthInsuranceDeduction: 0 };
+          : { taxDeduction: 0, healthInsuranceDeduction: 0 };
+        const socialInsurance = plan.toggles.statutory
+          ? { rates: inputs.socialInsuranceRates, companyId: company?.id }
+          : undefined;
 
         const payrollEntries = await Promise.all(
           inputs.employees.map(employee => {
@@ -961,14 +1811,25 @@ payrollRouter.post(
               loans: scenarioLoans,
               vacationRequests: inputs.vacationRequests,
               employeeEvents: scenarioEvents,
+              compensationChanges: inputs.compensationChanges,
               start,
               end,
               workingDays: employeeWorkingDays,
               attendanceDays: scenarioAttendance[employee.id],
               config: deductionConfig,
+              socialInsurance,
               overrides: overrideSets,
               currencyCode: company?.currencyCode,
               locale: company?.locale,
+              overtime: plan.toggles.overtime
+                ? resolveScheduleOvertime(inputs.scheduleSummary, employee.id, overtimeRates)
+                : undefined,
+              holidays: inputs.holidays,
+              workDates: resolveWorkDates(inputs.scheduleSummary, employee.id),
+              payComponents: plan.toggles.allowances ? inputs.payComponents : undefined,
+              maxDeductionPercent,
+              carriedDeductions: inputs.carriedDeductions[employee.id],
+              salaryAdvances: inputs.salaryAdvances[employee.id],
             });
           }),
         );
@@ -999,6 +1860,7 @@ payrollRouter.post(
             deductions: totals.totalDeductions,
           },
           employees: previewEmployees,
+          deductionCapWarnings: buildDeductionCapWarnings(inputs.employees, payrollEntries),
         });
       }
 
@@ -1006,8 +1868,10 @@ payrollRouter.post(
         period: parsed.period,
         startDate: parsed.startDate,
         endDate: parsed.endDate,
+        companyId: company?.id ?? null,
         calendarId: calendar?.id ?? null,
         cycleLabel: calendar?.name ?? frequency?.name ?? null,
+        maxDeductionPercent,
         scenarios,
       });
     } catch (error) {
@@ -1015,6 +1879,9 @@ payrollRouter.post(
       if (error instanceof z.ZodError) {
         return next(new HttpError(400, "Invalid preview payload", error.errors));
       }
+      if (error instanceof HttpError) {
+        return next(error);
+      }
       next(new HttpError(500, "Failed to preview payroll impacts", error));
     }
   },
@@ -1032,418 +1899,1013 @@ payrollRouter.get("/:id", async (req, res, next) => {
   }
 });
 
+const varianceQuerySchema = z.object({
+  thresholdPercent: z.coerce
+    .number()
+    .min(0)
+    .max(1000)
+    .optional()
+    .default(DEFAULT_VARIANCE_THRESHOLD_PERCENT),
+});
+
+payrollRouter.get("/:id/variance", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    const parsed = varianceQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return next(new HttpError(400, "Invalid variance threshold", parsed.error.errors));
+    }
+    const run = await storage.getPayrollRun(req.params.id);
+    if (!run) {
+      return next(new HttpError(404, "Payroll run not found"));
+    }
+    const [previousRun, employees] = await Promise.all([
+      storage.getPreviousPayrollRun(run),
+      storage.getEmployees({ includeTerminated: true }),
+    ]);
+    res.json(
+      buildPayrollVarianceReport({
+        run,
+        previousRun,
+        employees,
+        thresholdPercent: parsed.data.thresholdPercent,
+      }),
+    );
+  } catch (error) {
+    console.error("Failed to build payroll variance report:", error);
+    next(new HttpError(500, "Failed to build payroll variance report"));
+  }
+});
+
 payrollRouter.post(
-  "/",
-  requirePermission("payroll:manage"),
+  "/:id/variance/sign-off",
+  requirePermission("payroll:approve"),
   async (req, res, next) => {
     try {
-      const payrollRun = insertPayrollRunSchema.parse(req.body);
-      const newPayrollRun = await storage.createPayrollRun(payrollRun);
-      await logPayrollAudit(
-        req,
-        "Created payroll run",
-        { type: "payroll_run", id: newPayrollRun.id },
-        {
-          startDate: newPayrollRun.startDate,
-          endDate: newPayrollRun.endDate,
-          status: newPayrollRun.status,
-        },
+      const parsed = varianceQuerySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return next(new HttpError(400, "Invalid variance threshold", parsed.error.errors));
+      }
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return next(new HttpError(404, "Payroll run not found"));
+      }
+      const lockedError = payrollRunLockedError(run);
+      if (lockedError) {
+        return next(lockedError);
+      }
+      if (run.status === "cancelled") {
+        return next(new HttpError(409, "Cancelled payroll runs cannot be signed off"));
+      }
+
+      const [previousRun, employees] = await Promise.all([
+        storage.getPreviousPayrollRun(run),
+        storage.getEmployees({ includeTerminated: true }),
+      ]);
+      const report = buildPayrollVarianceReport({
+        run,
+        previousRun,
+        employees,
+        thresholdPercent: parsed.data.thresholdPercent,
+      });
+      const actorId = (req.user as SessionUser | undefined)?.id ?? null;
+      const updated = await storage.updatePayrollRun(run.id, {
+        varianceSignedOffBy: actorId,
+        varianceSignedOffAt: new Date(),
+      });
+      if (!updated) {
+        return next(new HttpError(404, "Payroll run not found"));
+      }
+
+      await logPayrollAudit(
+        req,
+        "Signed off payroll variance report",
+        { type: "payroll_run", id: run.id },
+        {
+          previousRunId: report.previousRunId,
+          thresholdPercent: report.thresholdPercent,
+          flaggedEmployees: report.flaggedEmployees,
+          flagCounts: report.flagCounts,
+        },
       );
-      res.status(201).json(newPayrollRun);
+
+      res.json({
+        ...report,
+        signedOffBy: updated.varianceSignedOffBy,
+        signedOffAt: updated.varianceSignedOffAt,
+      });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return next(new HttpError(400, "Invalid payroll data", error.errors));
-      }
-      next(new HttpError(500, "Failed to create payroll run"));
+      console.error("Failed to sign off payroll variance report:", error);
+      next(new HttpError(500, "Failed to sign off payroll variance report"));
     }
   },
 );
 
-
-payrollRouter.post(
-  "/generate",
-  requirePermission("payroll:manage"),
-  trackPayrollGenerateMetrics,
-  async (req, res, next) => {
+payrollRouter.get("/:id/journal", requirePermission("payroll:view"), async (req, res, next) => {
   try {
-    const parsed = generatePayrollSchema.parse(req.body ?? {});
+    const run = await storage.getPayrollRun(req.params.id);
+    if (!run) {
+      return next(new HttpError(404, "Payroll run not found"));
+    }
+    res.json(await loadPayrollJournal(run));
+  } catch (error) {
+    console.error("Failed to build payroll journal:", error);
+    next(new HttpError(500, "Failed to build payroll journal"));
+  }
+});
 
-    const start = new Date(parsed.startDate);
-    const end = new Date(parsed.endDate);
+const journalExportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).optional().default("xlsx"),
+});
 
-    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
-      return next(new HttpError(400, "Invalid payroll period"));
+payrollRouter.get("/:id/journal/export", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    const parsed = journalExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return next(new HttpError(400, "Invalid journal export format", parsed.error.errors));
     }
-
-    if (start > end) {
-      return next(new HttpError(400, "Start date must be before end date"));
+    const run = await storage.getPayrollRun(req.params.id);
+    if (!run) {
+      return next(new HttpError(404, "Payroll run not found"));
     }
+    const journal = await loadPayrollJournal(run);
+    const { format } = parsed.data;
+    const safePeriod = run.period.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    await logPayrollAudit(
+      req,
+      "Exported payroll journal",
+      { type: "payroll_run", id: run.id },
+      { format, balanced: journal.balanced, totalDebit: journal.totalDebit },
+    );
+    res.setHeader(
+      "Content-Type",
+      format === "csv"
+        ? "text/csv"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="payroll-journal-${safePeriod}.${format}"`);
+    res.setHeader("X-Journal-Balanced", String(journal.balanced));
+    res.end(format === "csv" ? buildPayrollJournalCsv(journal) : buildPayrollJournalWorkbook(journal));
+  } catch (error) {
+    console.error("Failed to export payroll journal:", error);
+    next(new HttpError(500, "Failed to export payroll journal"));
+  }
+});
 
-    const status = parsed.status ?? "completed";
-    const overrideSets = buildOverrideSets(parsed.overrides);
+const traceExportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).optional().default("csv"),
+  entryId: z.string().optional(),
+});
 
-    const companies = await storage.getCompanies();
-    const company = companies[0];
-    const { calendar, frequency } = resolveCalendarConfiguration(company, parsed.calendarId);
-    const baseDefaults = deriveScenarioDefaults(frequency, calendar);
-    const scenarioToggles = resolveScenarioToggles(
-      parsed.scenarioToggles as Record<string, boolean> | undefined,
-      baseDefaults,
+payrollRouter.get("/:id/trace/export", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    const parsed = traceExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return next(new HttpError(400, "Invalid calculation trace export", parsed.error.errors));
+    }
+    const run = await storage.getPayrollRun(req.params.id);
+    if (!run) {
+      return next(new HttpError(404, "Payroll run not found"));
+    }
+    const { format, entryId } = parsed.data;
+    const entries = (run.entries ?? []).filter(entry => !entryId || entry.id === entryId);
+    if (entryId && entries.length === 0) {
+      return next(new HttpError(404, "Payroll entry not found"));
+    }
+    const safePeriod = run.period.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    const suffix = entryId && entries[0].employee?.employeeCode ? `-${entries[0].employee.employeeCode}` : "";
+    await logPayrollAudit(
+      req,
+      "Exported payroll calculation trace",
+      { type: "payroll_run", id: run.id },
+      { format, entryId: entryId ?? null, entries: entries.length },
+    );
+    res.setHeader("Content-Type", format === "csv" ? "text/csv" : "application/json");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="payroll-trace-${safePeriod}${suffix}.${format}"`,
     );
-    const scenarioKey = parsed.scenarioKey ?? (calendar?.id ? `${calendar.id}-baseline` : "baseline");
-    const cycleLabel = parsed.cycleLabel ?? calendar?.name ?? frequency?.name ?? null;
+    res.end(format === "csv" ? buildPayrollTraceCsv(entries) : buildPayrollTraceJson(entries));
+  } catch (error) {
+    console.error("Failed to export payroll calculation trace:", error);
+    next(new HttpError(500, "Failed to export payroll calculation trace"));
+  }
+});
 
-    const baseUseAttendance = await resolveUseAttendance(parsed.useAttendance);
-    const shouldUseAttendance = baseUseAttendance && scenarioToggles.attendance;
+payrollRouter.get("/:id/exports", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    const run = await storage.getPayrollRun(req.params.id);
+    if (!run) {
+      return next(new HttpError(404, "Payroll run not found"));
+    }
+    res.json(await storage.getPayrollExportFiles(run.id));
+  } catch (error) {
+    console.error("Failed to fetch payroll export files:", error);
+    next(new HttpError(500, "Failed to fetch payroll export files"));
+  }
+});
 
-    const {
-      employees,
-      loans,
-      vacationRequests,
-      employeeEvents,
-      attendanceSummary,
-      scheduleSummary,
-    } = await loadPayrollInputs({ start, end, useAttendance: shouldUseAttendance });
+const regenerateExportsSchema = z.object({
+  exports: z.array(exportFormatRequestSchema).min(1),
+});
 
-    if (employees.length === 0) {
-      return next(new HttpError(400, "No active employees found"));
+payrollRouter.post(
+  "/:id/exports",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const parsed = regenerateExportsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return next(new HttpError(400, "Invalid export request", parsed.error.errors));
+      }
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return next(new HttpError(404, "Payroll run not found"));
+      }
+      const { company } = await resolveRunCompany(run);
+      const requests = mapExportRequests(
+        parsed.data.exports,
+        Array.isArray(company?.payrollExportFormats) ? company.payrollExportFormats : [],
+      );
+      if (requests.length === 0) {
+        return next(new HttpError(400, "None of the requested export formats are enabled"));
+      }
+      const employees = await storage.getEmployees({ includeTerminated: true });
+      const runEmployeeIds = new Set((run.entries ?? []).map(entry => entry.employeeId));
+      const actorId = (req.user as SessionUser | undefined)?.id ?? null;
+      const artifacts = await storeRunExports({
+        run,
+        entries: run.entries ?? [],
+        employees: employees.filter(employee => runEmployeeIds.has(employee.id)),
+        company,
+        scenarioKey: run.scenarioKey ?? "baseline",
+        toggles: run.scenarioToggles ?? {},
+        requests,
+        actorId,
+      });
+      if (!artifacts) {
+        return next(new HttpError(422, "No export files could be built for this payroll run"));
+      }
+      await logPayrollAudit(
+        req,
+        "Regenerated payroll exports",
+        { type: "payroll_run", id: run.id },
+        { artifacts: requests.map(request => request.id ?? request.type) },
+      );
+      res.status(201).json(artifacts);
+    } catch (error) {
+      console.error("Failed to regenerate payroll exports:", error);
+      next(new HttpError(500, "Failed to regenerate payroll exports"));
     }
+  },
+);
 
-    const newStart = start.toISOString().split("T")[0];
-    const newEnd = end.toISOString().split("T")[0];
-    const existingRun = await db.query.payrollRuns.findFirst({
-      where: (runs, { lte, gte, and, or, isNull, eq: eqFn }) => {
-        const overlap = and(lte(runs.startDate, newEnd), gte(runs.endDate, newStart));
-        if (calendar?.id) {
-          return and(overlap, or(eqFn(runs.calendarId, calendar.id), isNull(runs.calendarId)));
+payrollRouter.get(
+  "/:id/exports/:fileId",
+  requirePermission("payroll:view"),
+  async (req, res, next) => {
+    try {
+      const file = await storage.getPayrollExportFile(req.params.id, req.params.fileId);
+      if (!file) {
+        // Artifacts built before exports moved to file storage are still inline.
+        const run = await storage.getPayrollRun(req.params.id);
+        const legacy = run?.exportArtifacts.find(
+          artifact => artifact.id === req.params.fileId && artifact.data,
+        );
+        if (!legacy?.data) {
+          return next(new HttpError(404, "Export file not found"));
         }
-        return overlap;
-      },
-    });
+        res.setHeader("Content-Type", legacy.mimeType);
+        res.setHeader("Content-Disposition", `attachment; filename="${legacy.filename}"`);
+        return res.end(Buffer.from(legacy.data, "base64"));
+      }
 
-    if (existingRun) {
-      return next(new HttpError(409, "Payroll run already exists for this period"));
-    }
-
-    const scenarioLoans = scenarioToggles.loans ? loans : [];
-    const scenarioEvents = filterEventsByScenario(employeeEvents, scenarioToggles);
-    const scenarioAttendance = scenarioToggles.attendance ? attendanceSummary : {};
-    const deductionBaseline = deductionsSchema.parse(parsed.deductions ?? {});
-    const deductionConfig = scenarioToggles.statutory
-      ? deductionBaseline
-      : { taxDeduction: 0, socialSecurityDeduction: 0, healthInsuranceDeduction: 0 };
-    const allowancesEnabled = scenarioToggles.allowances !== false;
-
-    const vacationsByEmployee = new Map<string, VacationRequestWithEmployee[]>();
-    for (const vacation of vacationRequests) {
-      const list = vacationsByEmployee.get(vacation.employeeId);
-      if (list) {
-        list.push(vacation);
-      } else {
-        vacationsByEmployee.set(vacation.employeeId, [vacation]);
-      }
-    }
-
-    const loanScheduleContext = new Map<
-      string,
-      { entries: Array<{ installmentNumber: number; paymentAmount: unknown }>; amount: number }
-    >();
-    const scheduleStatusPromises: Array<Promise<void>> = [];
-    const shouldFinalize = status === "completed";
-    const shouldFinalizeLoans = shouldFinalize && scenarioToggles.loans;
-
-    if (scenarioToggles.loans) {
-      for (const loan of scenarioLoans) {
-        if (!loan) continue;
-        const isActiveLoan = loan.status === "active" || loan.status === "approved";
-        if (!isActiveLoan || overrideSets?.skippedLoanIds?.has(loan.id)) {
-          (loan as any).dueAmountForPeriod = 0;
-          continue;
+      let content;
+      try {
+        content = await getBlobStore().get(file.storageKey);
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) {
+          return next(new HttpError(410, "Export file content is no longer available"));
         }
+        throw error;
+      }
+      await logPayrollAudit(
+        req,
+        "Downloaded payroll export",
+        { type: "payroll_run", id: file.payrollRunId },
+        { fileId: file.id, artifactId: file.artifactId, version: file.version },
+      );
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Length", String(file.sizeBytes));
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.setHeader("ETag", `"${file.checksum}"`);
+      res.setHeader("X-Checksum-SHA256", file.checksum);
+      content.on("error", error => {
+        console.error("Failed to stream payroll export:", error);
+        res.destroy(error);
+      });
+      content.pipe(res);
+    } catch (error) {
+      console.error("Failed to download payroll export:", error);
+      next(new HttpError(500, "Failed to download payroll export"));
+    }
+  },
+);
 
-        const dueEntries = ((loan as any).scheduleDueThisPeriod ?? []) as Array<{
-          installmentNumber: number;
-          paymentAmount: unknown;
-          status: string;
-        }>;
+payrollRouter.get("/:id/payslips", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    const sources = await loadPayslipSources(req.params.id);
+    if (!sources) {
+      return next(new HttpError(404, "Payroll run not found"));
+    }
+    const { run, employeesById, company } = sources;
+    const files: Array<{ filename: string; data: Buffer }> = [];
+    for (const entry of run.entries ?? []) {
+      const employee = employeesById.get(entry.employeeId);
+      if (!employee) continue;
+      files.push({
+        filename: payslipFilename(run, employee),
+        data: await buildPayslipPdf({
+          run,
+          entry,
+          employee,
+          companyName: company?.name ?? null,
+          currencyCode: company?.currencyCode ?? null,
+        }),
+      });
+    }
+    if (files.length === 0) {
+      return next(new HttpError(404, "Payroll run has no payslips"));
+    }
+    const safePeriod = run.period.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="payslips-${safePeriod}.zip"`);
+    res.end(buildZipArchive(files));
+  } catch (error) {
+    console.error("Failed to build payslip archive:", error);
+    next(new HttpError(500, "Failed to build payslips"));
+  }
+});
 
-        const pauseLoan = shouldPauseLoanForLeave({
-          vacations: vacationsByEmployee.get(loan.employeeId) ?? [],
-          start,
-          end,
-        });
+payrollRouter.get(
+  "/:id/bank-file",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const formatId = typeof req.query.formatId === "string" ? req.query.formatId : undefined;
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return next(new HttpError(404, "Payroll run not found"));
+      }
+      const [employees, { company }] = await Promise.all([
+        storage.getEmployees({ includeTerminated: true }),
+        resolveRunCompany(run),
+      ]);
+      const formats = Array.isArray(company?.payrollExportFormats)
+        ? (company!.payrollExportFormats as PayrollExportFormatConfig[])
+        : [];
+      const config = formats.find(
+        format =>
+          format.type === "bank" &&
+          Boolean(format.bankFormat) &&
+          format.enabled !== false &&
+          (!formatId || format.id === formatId),
+      );
+      if (!config?.bankFormat) {
+        return next(new HttpError(404, "No bank file format is configured for this company"));
+      }
 
-        const pendingEntries = dueEntries.filter(entry => entry.status === "pending");
-        const pausedEntries = dueEntries.filter(entry => entry.status === "paused");
+      const bankFile = buildBankFile(config.bankFormat, {
+        run,
+        entries: (run.entries ?? []).map(entry => ({
+          employeeId: entry.employeeId,
+          netPay: Number.parseFloat(String(entry.netPay)) || 0,
+        })),
+        employees,
+        currencyCode: company?.currencyCode,
+        options: config.options,
+      });
 
-        if (shouldFinalizeLoans && pauseLoan && pendingEntries.length > 0) {
-          scheduleStatusPromises.push(
-            storage.updateLoanScheduleStatuses(
-              loan.id,
-              pendingEntries.map(entry => entry.installmentNumber),
-              "paused",
-            ),
-          );
-        }
+      const safePeriod = run.period.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      await logPayrollAudit(
+        req,
+        `Exported ${bankFile.format.bankName} bank file`,
+        { type: "payroll_run", id: run.id },
+        {
+          bankFormat: bankFile.format.id,
+          recordCount: bankFile.recordCount,
+          totalAmount: bankFile.totalAmount,
+        },
+      );
+      res.setHeader("Content-Type", bankFile.format.mimeType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${bankFile.format.id}-salaries-${safePeriod}.${bankFile.format.extension}"`,
+      );
+      res.setHeader("X-Record-Count", String(bankFile.recordCount));
+      res.setHeader("X-Control-Total", String(bankFile.totalAmount));
+      res.end(bankFile.content);
+    } catch (error) {
+      if (error instanceof BankFileValidationError) {
+        return next(new HttpError(422, error.message, error.issues, "bankFileInvalid"));
+      }
+      console.error("Failed to build bank file:", error);
+      next(new HttpError(500, "Failed to build bank file"));
+    }
+  },
+);
 
-        if (shouldFinalizeLoans && !pauseLoan && pausedEntries.length > 0) {
-          scheduleStatusPromises.push(
-            storage.updateLoanScheduleStatuses(
-              loan.id,
-              pausedEntries.map(entry => entry.installmentNumber),
-              "pending",
-            ),
+payrollRouter.get("/:id/payslips/deliveries", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    res.json(await storage.getPayslipDeliveries(req.params.id));
+  } catch (error) {
+    next(new HttpError(500, "Failed to fetch payslip deliveries"));
+  }
+});
+
+payrollRouter.get("/:id/payslips/:entryId", requirePermission("payroll:view"), async (req, res, next) => {
+  try {
+    const sources = await loadPayslipSources(req.params.id);
+    if (!sources) {
+      return next(new HttpError(404, "Payroll run not found"));
+    }
+    const { run, employeesById, company } = sources;
+    const entry = run.entries?.find(candidate => candidate.id === req.params.entryId);
+    const employee = entry ? employeesById.get(entry.employeeId) : undefined;
+    if (!entry || !employee) {
+      return next(new HttpError(404, "Payroll entry not found"));
+    }
+    const buffer = await buildPayslipPdf({
+      run,
+      entry,
+      employee,
+      companyName: company?.name ?? null,
+      currencyCode: company?.currencyCode ?? null,
+    });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${payslipFilename(run, employee)}"`);
+    res.end(buffer);
+  } catch (error) {
+    console.error("Failed to build payslip:", error);
+    next(new HttpError(500, "Failed to build payslip"));
+  }
+});
+
+payrollRouter.post(
+  "/:id/payslips/email",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const { entryIds, passwordProtect } = payslipEmailSchema.parse(req.body ?? {});
+      const sources = await loadPayslipSources(req.params.id);
+      if (!sources) {
+        return next(new HttpError(404, "Payroll run not found"));
+      }
+      const { run, employeesById, company } = sources;
+      if (!isPayrollRunFrozen(run.status)) {
+        return next(
+          new HttpError(
+            409,
+            "Payslips can only be emailed once the payroll run is approved",
+            { status: run.status },
+            "payrollRunNotApproved",
+          ),
+        );
+      }
+
+      const actorId = (req.user as SessionUser | undefined)?.id ?? null;
+      const requested = entryIds ? new Set(entryIds) : undefined;
+      const entries = (run.entries ?? []).filter(entry => !requested || requested.has(entry.id));
+      const deliveries = [];
+
+      for (const entry of entries) {
+        const employee = employeesById.get(entry.employeeId);
+        if (!employee) continue;
+        const recipient = employee.email?.trim() || null;
+        const base = {
+          payrollEntryId: entry.id,
+          payrollRunId: run.id,
+          employeeId: employee.id,
+          channel: "email",
+          recipient,
+          passwordProtected: passwordProtect,
+          sentBy: actorId,
+        };
+
+        if (!recipient) {
+          deliveries.push(
+            await storage.recordPayslipDelivery({
+              ...base,
+              status: "skipped",
+              error: "Employee has no email address",
+              deliveredAt: null,
+            }),
           );
+          continue;
         }
 
-        const activeEntries = pauseLoan
-          ? []
-          : dueEntries.filter(entry => entry.status === "pending" || entry.status === "paused");
+        const protection = passwordProtect ? payslipPassword(employee) : undefined;
+        let delivered = false;
+        let failure: string | null = null;
+        try {
+          const pdf = await buildPayslipPdf({
+            run,
+            entry,
+            employee,
+            companyName: company?.name ?? null,
+            currencyCode: company?.currencyCode ?? null,
+            password: protection?.password ?? null,
+          });
+          const email = generatePayslipEmail({
+            employeeName: `${employee.firstName} ${employee.lastName ?? ""}`.trim(),
+            period: run.period,
+            companyName: company?.name ?? null,
+            passwordHint: protection?.hint ?? null,
+          });
+          delivered = await sendEmail({
+            to: recipient,
+            from: process.env.FROM_EMAIL || "hr@company.com",
+            ...email,
+            attachments: [
+              {
+                filename: payslipFilename(run, employee),
+                content: pdf.toString("base64"),
+                type: "application/pdf",
+              },
+            ],
+          });
+          if (!delivered) {
+            failure = "Email delivery failed";
+          }
+        } catch (error) {
+          console.error("Failed to email payslip:", error);
+          failure = error instanceof Error ? error.message : "Failed to build payslip";
+        }
 
-        const dueAmount = activeEntries.reduce(
-          (sum, entry) => sum + parseAmount(entry.paymentAmount),
-          0,
+        deliveries.push(
+          await storage.recordPayslipDelivery({
+            ...base,
+            status: delivered ? "sent" : "failed",
+            error: failure,
+            deliveredAt: delivered ? new Date() : null,
+          }),
         );
-        const roundedDueAmount = Number(dueAmount.toFixed(2));
+      }
 
-        (loan as any).dueAmountForPeriod = roundedDueAmount;
-        (loan as any).scheduleDueThisPeriod = activeEntries;
+      const summary = {
+        sent: deliveries.filter(delivery => delivery.status === "sent").length,
+        failed: deliveries.filter(delivery => delivery.status === "failed").length,
+        skipped: deliveries.filter(delivery => delivery.status === "skipped").length,
+      };
 
-        loanScheduleContext.set(loan.id, {
-          entries: activeEntries,
-          amount: roundedDueAmount,
-        });
+      await logPayrollAudit(
+        req,
+        `Emailed payslips for ${run.period}`,
+        { type: "payroll_run", id: run.id },
+        { ...summary, passwordProtected: passwordProtect },
+      );
+
+      res.json({ ...summary, deliveries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid payslip email request", error.errors));
       }
+      console.error("Failed to email payslips:", error);
+      next(new HttpError(500, "Failed to email payslips"));
     }
+  },
+);
 
-    if (shouldFinalizeLoans && scheduleStatusPromises.length > 0) {
-      await Promise.all(scheduleStatusPromises);
+payrollRouter.post(
+  "/",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    try {
+      const payrollRun = insertPayrollRunSchema.parse(req.body);
+      const newPayrollRun = await storage.createPayrollRun({
+        ...payrollRun,
+        status: "draft",
+        createdBy: (req.user as SessionUser | undefined)?.id ?? null,
+      });
+      await logPayrollAudit(
+        req,
+        "Created payroll run",
+        { type: "payroll_run", id: newPayrollRun.id },
+        {
+          startDate: newPayrollRun.startDate,
+          endDate: newPayrollRun.endDate,
+          status: newPayrollRun.status,
+        },
+      );
+      res.status(201).json(newPayrollRun);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid payroll data", error.errors));
+      }
+      next(new HttpError(500, "Failed to create payroll run"));
     }
+  },
+);
 
-    const payrollEntries = await Promise.all(
-      employees.map(employee => {
-        const employeeWorkingDays =
-          employee.standardWorkingDays ||
-          Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        return calculateEmployeePayroll({
-          employee,
-          loans: scenarioLoans,
-          vacationRequests,
-          employeeEvents: scenarioEvents,
-          start,
-          end,
-          workingDays: employeeWorkingDays,
-          attendanceDays: scenarioAttendance[employee.id],
-          config: deductionConfig,
-          overrides: overrideSets,
-          currencyCode: company?.currencyCode,
-          locale: company?.locale,
-        });
-      }),
-    );
 
-    const entriesByEmployee = new Map<string, (typeof payrollEntries)[number]>();
-    for (const entry of payrollEntries) {
-      entriesByEmployee.set(entry.employeeId, entry);
-    }
-
-    const activeLoansByEmployee = new Map<string, typeof scenarioLoans[number][]>();
-    if (scenarioToggles.loans) {
-      for (const loan of scenarioLoans) {
-        if (loan.status !== "active") continue;
-        if (overrideSets?.skippedLoanIds?.has(loan.id)) continue;
-        const remaining = Number.parseFloat(String(loan.remainingAmount ?? 0));
-        if (!(remaining > 0)) continue;
-        const bucket = activeLoansByEmployee.get(loan.employeeId);
-        if (bucket) {
-          bucket.push(loan);
-        } else {
-          activeLoansByEmployee.set(loan.employeeId, [loan]);
-        }
+/**
+ * Calculates and saves a payroll run. Entries are calculated and inserted in
+ * batches so a background job can report progress, and a cancelled job stops
+ * before its transaction commits.
+ */
+const generatePayrollRun = async (
+  req: Request,
+  parsed: z.infer<typeof generatePayrollSchema>,
+  progress?: PayrollGenerationProgress,
+): Promise<PayrollRun> => {
+  const start = new Date(parsed.startDate);
+  const end = new Date(parsed.endDate);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new HttpError(400, "Invalid payroll period");
+  }
+
+  if (start > end) {
+    throw new HttpError(400, "Start date must be before end date");
+  }
+
+  const status = parsed.status;
+  const actorId = (req.user as SessionUser | undefined)?.id ?? null;
+  const overrideSets = buildOverrideSets(parsed.overrides);
+
+  const companyScope = await resolvePayrollCompany(parsed.companyId);
+  const { company } = companyScope;
+  const { calendar, frequency } = resolveCalendarConfiguration(company, parsed.calendarId);
+  const baseDefaults = deriveScenarioDefaults(frequency, calendar);
+  const runType = parsed.runType;
+  const isOffCycle = runType !== "regular";
+  const scenarioToggles = isOffCycle
+    ? resolveOffCycleToggles(runType, parsed.components)
+    : resolveScenarioToggles(
+        parsed.scenarioToggles as Record<string, boolean> | undefined,
+        baseDefaults,
+      );
+  const scenarioKey =
+    parsed.scenarioKey ??
+    (isOffCycle ? runType : calendar?.id ? `${calendar.id}-baseline` : "baseline");
+  const cycleLabel = parsed.cycleLabel ?? calendar?.name ?? frequency?.name ?? null;
+
+  const baseUseAttendance = resolveUseAttendance(parsed.useAttendance, company);
+  const shouldUseAttendance = baseUseAttendance && scenarioToggles.attendance;
+
+  progress?.report("loading", 0, 0);
+  const {
+    employees,
+    loans,
+    vacationRequests,
+    employeeEvents,
+    attendanceSummary,
+    scheduleSummary,
+    socialInsuranceRates,
+    compensationChanges,
+    holidays,
+    payComponents,
+    carriedDeductions,
+    salaryAdvances,
+  } = await loadPayrollInputs({
+    start,
+    end,
+    useAttendance: shouldUseAttendance,
+    scope: companyScope,
+  });
+
+  if (employees.length === 0) {
+    throw new HttpError(400, "No active employees found");
+  }
+
+  const selectedEmployeeIds = isOffCycle ? new Set(parsed.employeeIds) : undefined;
+  const runEmployees = selectedEmployeeIds
+    ? employees.filter(employee => selectedEmployeeIds.has(employee.id))
+    : employees;
+  if (selectedEmployeeIds && runEmployees.length !== selectedEmployeeIds.size) {
+    const activeIds = new Set(runEmployees.map(employee => employee.id));
+    throw new HttpError(400, "Off-cycle runs can only include active employees", {
+      employeeIds: Array.from(selectedEmployeeIds).filter(id => !activeIds.has(id)),
+    });
+  }
+
+  const newStart = start.toISOString().split("T")[0];
+  const newEnd = end.toISOString().split("T")[0];
+  // Off-cycle runs are supplementary and may overlap the regular run.
+  const existingRun = isOffCycle ? undefined : await db.query.payrollRuns.findFirst({
+    where: (runs, { lte, gte, and, or, isNull, notInArray, eq: eqFn }) => {
+      const overlap = and(
+        lte(runs.startDate, newEnd),
+        gte(runs.endDate, newStart),
+        eqFn(runs.runType, "regular"),
+        // A cancelled run never paid and a voided run has been reversed, so
+        // their period can be run again.
+        notInArray(runs.status, ["cancelled", "voided"]),
+      );
+      const sameCompany = company
+        ? and(overlap, or(eqFn(runs.companyId, company.id), isNull(runs.companyId)))
+        : overlap;
+      if (calendar?.id) {
+        return and(sameCompany, or(eqFn(runs.calendarId, calendar.id), isNull(runs.calendarId)));
       }
+      return sameCompany;
+    },
+  });
 
-      for (const loanList of activeLoansByEmployee.values()) {
-        loanList.sort((a, b) => {
-          const startDiff = toComparableTime(a.startDate) - toComparableTime(b.startDate);
-          if (startDiff !== 0) return startDiff;
-          const createdDiff = toComparableTime(a.createdAt) - toComparableTime(b.createdAt);
-          if (createdDiff !== 0) return createdDiff;
-          return a.id.localeCompare(b.id);
-        });
+  if (existingRun) {
+    throw new HttpError(409, "Payroll run already exists for this period");
+  }
+
+  const scenarioLoans = scenarioToggles.loans
+    ? loans.filter(loan => !selectedEmployeeIds || selectedEmployeeIds.has(loan.employeeId))
+    : [];
+  const scenarioEvents = filterEventsByScenario(employeeEvents, scenarioToggles);
+  const scenarioAttendance = scenarioToggles.attendance ? attendanceSummary : {};
+  const deductionBaseline = deductionsSchema.parse(parsed.deductions ?? {});
+  const deductionConfig = scenarioToggles.statutory
+    ? deductionBaseline
+    : { taxDeduction: 0, healthInsuranceDeduction: 0 };
+  const socialInsurance = scenarioToggles.statutory
+    ? { rates: socialInsuranceRates, companyId: company?.id }
+    : undefined;
+  const allowancesEnabled = scenarioToggles.allowances !== false;
+  const payScheduleOvertime = !isOffCycle && scenarioToggles.overtime;
+  const overtimeRates = resolveOvertimeRates(company?.overtimeRates);
+  const maxDeductionPercent = resolveMaxDeductionPercent(company);
+
+  const vacationsByEmployee = new Map<string, VacationRequestWithEmployee[]>();
+  for (const vacation of vacationRequests) {
+    const list = vacationsByEmployee.get(vacation.employeeId);
+    if (list) {
+      list.push(vacation);
+    } else {
+      vacationsByEmployee.set(vacation.employeeId, [vacation]);
+    }
+  }
+
+  const shouldFinalize = status === "submitted";
+
+  if (scenarioToggles.loans) {
+    for (const loan of scenarioLoans) {
+      if (!loan) continue;
+      if (!isRepayableLoan(loan) || overrideSets?.skippedLoanIds?.has(loan.id)) {
+        (loan as any).dueAmountForPeriod = 0;
+        continue;
       }
+
+      const dueEntries = ((loan as any).scheduleDueThisPeriod ?? []) as Array<{
+        installmentNumber: number;
+        paymentAmount: unknown;
+        status: string;
+      }>;
+
+      const pauseLoan = shouldPauseLoanForLeave({
+        vacations: vacationsByEmployee.get(loan.employeeId) ?? [],
+        start,
+        end,
+      });
+
+      const activeEntries = pauseLoan
+        ? []
+        : dueEntries.filter(entry => entry.status === "pending" || entry.status === "paused");
+
+      const dueAmount = activeEntries.reduce(
+        (sum, entry) => sum + parseAmount(entry.paymentAmount),
+        0,
+      );
+      const roundedDueAmount = Number(dueAmount.toFixed(2));
+
+      (loan as any).dueAmountForPeriod = roundedDueAmount;
+      (loan as any).scheduleDueThisPeriod = activeEntries;
     }
+  }
 
-    const { grossAmount, totalDeductions, netAmount } = calculateTotals(payrollEntries);
+  // Off-cycle runs leave retro lines for the next regular run.
+  const retroByEmployee = isOffCycle
+    ? new Map<string, PayrollRetroAdjustment[]>()
+    : await loadRetroAdjustments({
+        start,
+        employees: runEmployees,
+        compensationChanges,
+        companyId: company?.id,
+      });
 
-    const payrollRun = await db.transaction(async tx => {
-      try {
-        const [newRun] = await tx
-          .insert(payrollRuns)
-          .values({
-            period: parsed.period,
-            startDate: parsed.startDate,
-            endDate: parsed.endDate,
-            grossAmount: grossAmount.toString(),
-            totalDeductions: totalDeductions.toString(),
-            netAmount: netAmount.toString(),
-            status,
-            calendarId: calendar?.id ?? parsed.calendarId ?? null,
-            cycleLabel,
-            scenarioKey,
-            scenarioToggles,
-            exportArtifacts: [],
-          })
-          .returning();
+  const calculateEntry = (employee: EmployeeWithDepartment) => {
+    const employeeWorkingDays =
+      employee.standardWorkingDays ||
+      Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    return calculateEmployeePayroll({
+      employee,
+      loans: scenarioLoans,
+      vacationRequests,
+      employeeEvents: scenarioEvents,
+      compensationChanges,
+      start,
+      end,
+      workingDays: employeeWorkingDays,
+      attendanceDays: scenarioAttendance[employee.id],
+      config: deductionConfig,
+      socialInsurance,
+      overrides: overrideSets,
+      currencyCode: company?.currencyCode,
+      locale: company?.locale,
+      includeSalary: scenarioToggles.salary !== false,
+      retroAdjustments: retroByEmployee.get(employee.id),
+      overtime: payScheduleOvertime
+        ? resolveScheduleOvertime(scheduleSummary, employee.id, overtimeRates)
+        : undefined,
+      holidays,
+      workDates: resolveWorkDates(scheduleSummary, employee.id),
+      payComponents: allowancesEnabled ? payComponents : undefined,
+      maxDeductionPercent,
+      // Carried deductions, like retro lines and salary advances, are
+      // recovered by regular runs only.
+      carriedDeductions: isOffCycle ? undefined : carriedDeductions[employee.id],
+      salaryAdvances: isOffCycle ? undefined : salaryAdvances[employee.id],
+    });
+  };
+
+  const payrollEntries: Awaited<ReturnType<typeof calculateEntry>>[] = [];
+  for (let index = 0; index < runEmployees.length; index += PAYROLL_CALCULATION_BATCH_SIZE) {
+    progress?.throwIfCancelled();
+    progress?.report("calculating", index, runEmployees.length);
+    const batch = runEmployees.slice(index, index + PAYROLL_CALCULATION_BATCH_SIZE);
+    payrollEntries.push(...(await Promise.all(batch.map(calculateEntry))));
+  }
+  progress?.report("calculating", runEmployees.length, runEmployees.length);
+
+  const { grossAmount, totalDeductions, netAmount } = calculateTotals(payrollEntries);
+
+  const payrollRun = await db.transaction(async tx => {
+    try {
+      const [newRun] = await tx
+        .insert(payrollRuns)
+        .values({
+          period: parsed.period,
+          startDate: parsed.startDate,
+          endDate: parsed.endDate,
+          grossAmount: grossAmount.toString(),
+          totalDeductions: totalDeductions.toString(),
+          netAmount: netAmount.toString(),
+          status,
+          runType,
+          companyId: company?.id ?? null,
+          createdBy: actorId,
+          submittedAt: status === "submitted" ? new Date() : null,
+          calendarId: calendar?.id ?? parsed.calendarId ?? null,
+          cycleLabel,
+          scenarioKey,
+          scenarioToggles,
+          exportArtifacts: [],
+          payDate: resolvePayDate(parsed.endDate, calendar, parsed.payDate),
+        })
+        .returning();
+
+      const entryRows = payrollEntries.map((entry, index) => ({
+        employeeId: entry.employeeId,
+        grossPay: entry.grossPay.toString(),
+        baseSalary: entry.baseSalary.toString(),
+        bonusAmount: entry.bonusAmount.toString(),
+        allowances: serializeAllowancesForStorage(entry.allowances, allowancesEnabled),
+        workingDays: entry.workingDays,
+        actualWorkingDays: entry.actualWorkingDays,
+        vacationDays: entry.vacationDays,
+        taxDeduction: entry.taxDeduction.toString(),
+        socialSecurityDeduction: entry.socialSecurityDeduction.toString(),
+        healthInsuranceDeduction: entry.healthInsuranceDeduction.toString(),
+        loanDeduction: entry.loanDeduction.toString(),
+        advanceDeduction: entry.advanceDeduction.toString(),
+        otherDeductions: entry.otherDeductions.toString(),
+        netPay: entry.netPay.toString(),
+        adjustmentReason: entry.adjustmentReason,
+        socialInsuranceBreakdown: entry.socialInsuranceBreakdown,
+        retroAmount: entry.retroAmount.toString(),
+        retroAdjustments: entry.retroAdjustments,
+        overtimeAmount: entry.overtimeAmount.toString(),
+        overtimeLines: entry.overtimeLines,
+        calculationTrace: entry.calculationTrace,
+        payComponents: entry.payComponents,
+        deductionCarryForward: entry.deductionCarryForward,
+        loanRecoveries: serializeRecoveries(entry.loanRecoveries),
+        advanceRecoveries: serializeRecoveries(entry.advanceRecoveries),
+        ...buildEmployerCostColumns(runEmployees[index], entry, {
+          start,
+          end,
+          company,
+          payComponents: allowancesEnabled ? payComponents : undefined,
+          recurring: !isOffCycle,
+        }),
+        payrollRunId: newRun.id,
+      }));
+      for (let index = 0; index < entryRows.length; index += PAYROLL_INSERT_BATCH_SIZE) {
+        progress?.throwIfCancelled();
+        progress?.report("saving", index, entryRows.length);
+        await tx
+          .insert(payrollEntriesTable)
+          .values(entryRows.slice(index, index + PAYROLL_INSERT_BATCH_SIZE));
+      }
 
-        for (const entry of payrollEntries) {
-          await tx.insert(payrollEntriesTable).values({
+      // Last chance to cancel: past this point events and advances are
+      // updated and the run stays once committed.
+      progress?.throwIfCancelled();
+
+      if (shouldFinalize) {
+        await markPaidEventsProcessed(newRun, payrollEntries, tx, scenarioEvents);
+      }
+
+      return newRun;
+    } catch (error) {
+      // Throwing rolls the transaction back too; tx.rollback() would replace
+      // the cancellation or conflict with its own error.
+      if (error instanceof PayrollGenerationCancelledError || error instanceof HttpError) throw error;
+      await tx.rollback();
+      throw error;
+    }
+  });
+  progress?.report("saving", payrollEntries.length, payrollEntries.length);
+
+  if (shouldFinalize) {
+    try {
+      for (const entry of payrollEntries) {
+        if (entry.vacationDays > 0) {
+          await storage.createNotification({
             employeeId: entry.employeeId,
-            grossPay: entry.grossPay.toString(),
-            baseSalary: entry.baseSalary.toString(),
-            bonusAmount: entry.bonusAmount.toString(),
-            allowances: serializeAllowancesForStorage(entry.allowances, allowancesEnabled),
-            workingDays: entry.workingDays,
-            actualWorkingDays: entry.actualWorkingDays,
-            vacationDays: entry.vacationDays,
-            taxDeduction: entry.taxDeduction.toString(),
-            socialSecurityDeduction: entry.socialSecurityDeduction.toString(),
-            healthInsuranceDeduction: entry.healthInsuranceDeduction.toString(),
-            loanDeduction: entry.loanDeduction.toString(),
-            otherDeductions: entry.otherDeductions.toString(),
-            netPay: entry.netPay.toString(),
-            adjustmentReason: entry.adjustmentReason,
-            payrollRunId: newRun.id,
+            type: "vacation_approved",
+            title: "Vacation Deduction Applied",
+            message: `${entry.vacationDays} vacation days deducted from ${parsed.period} payroll`,
+            priority: "medium",
+            status: "unread",
+            expiryDate: parsed.endDate,
+            daysUntilExpiry: 0,
+            emailSent: false,
+            deliveryChannels: ["email"],
+            escalationHistory: [],
+          });
+        }
+        if (scenarioToggles.loans && entry.loanDeduction > 0) {
+          await storage.createNotification({
+            employeeId: entry.employeeId,
+            type: "loan_deduction",
+            title: "Loan Deduction Applied",
+            message: `${formatCompanyCurrency(entry.loanDeduction, company)} deducted for loan repayment in ${parsed.period}`,
+            priority: "low",
+            status: "unread",
+            expiryDate: parsed.endDate,
+            daysUntilExpiry: 0,
+            emailSent: false,
+            deliveryChannels: ["email"],
+            escalationHistory: [],
           });
         }
 
-        if (shouldFinalizeLoans && activeLoansByEmployee.size > 0) {
-          const loanReductions = new Map<string, number>();
-          for (const [employeeId, employeeLoans] of activeLoansByEmployee.entries()) {
-            let remainingDeduction = entriesByEmployee.get(employeeId)?.loanDeduction ?? 0;
-            if (!(remainingDeduction > 0)) continue;
-
-            const paymentsToInsert: Array<{
-              loanId: string;
-              payrollRunId: string;
-              employeeId: string;
-              amount: string;
-              appliedDate: string;
-              source: string;
-            }> = [];
-
-            for (const loan of employeeLoans) {
-              if (remainingDeduction <= 0) {
-                break;
-              }
-
-              const remainingAmount = Number.parseFloat(String(loan.remainingAmount ?? 0));
-              const monthlyCap = Number.parseFloat(String(loan.monthlyDeduction ?? 0));
-
-              if (!Number.isFinite(remainingAmount) || remainingAmount <= 0) {
-                continue;
-              }
-
-              const scheduleContext = loanScheduleContext.get(loan.id);
-              const scheduledAmount = scheduleContext?.amount ?? 0;
-
-              const capAmount = Number.isFinite(monthlyCap) && monthlyCap > 0 ? monthlyCap : Infinity;
-              const targetAmount = scheduledAmount > 0 ? scheduledAmount : capAmount;
-              const appliedAmount = Math.min(
-                remainingAmount,
-                targetAmount,
-                remainingDeduction,
-                capAmount,
+        if (scenarioToggles.attendance) {
+          const scheduleInfo = scheduleSummary[entry.employeeId];
+          if (scheduleInfo) {
+            const anomalies: string[] = [];
+            if (scheduleInfo.missingPunches > 0) {
+              anomalies.push(
+                `${scheduleInfo.missingPunches} scheduled shift${
+                  scheduleInfo.missingPunches === 1 ? "" : "s"
+                } without punches`,
               );
-              if (!(appliedAmount > 0)) {
-                continue;
-              }
-
-              paymentsToInsert.push({
-                loanId: loan.id,
-                payrollRunId: newRun.id,
-                employeeId,
-                amount: appliedAmount.toFixed(2),
-                appliedDate: parsed.endDate,
-                source: "payroll",
-              });
-              remainingDeduction = Number(Math.max(0, remainingDeduction - appliedAmount));
-              loanReductions.set(
-                loan.id,
-                (loanReductions.get(loan.id) ?? 0) + appliedAmount,
+            }
+            if (scheduleInfo.pendingAbsence.length > 0) {
+              anomalies.push(
+                `${scheduleInfo.pendingAbsence.length} absence approval${
+                  scheduleInfo.pendingAbsence.length === 1 ? "" : "s"
+                } pending`,
               );
-
-              if (scheduleContext && scheduleContext.entries.length > 0) {
-                const installments = scheduleContext.entries.map(
-                  entry => entry.installmentNumber,
-                );
-                const scheduledTotal = scheduleContext.amount;
-                if (Math.abs(scheduledTotal - appliedAmount) <= 0.05) {
-                  await storage.updateLoanScheduleStatuses(
-                    loan.id,
-                    installments,
-                    "paid",
-                    {
-                      payrollRunId: newRun.id,
-                      paidAt: parsed.endDate,
-                      tx,
-                    },
-                  );
-                }
-              }
             }
-
-            if (paymentsToInsert.length > 0) {
-              await tx.insert(loanPaymentsTable).values(paymentsToInsert);
+            if (scheduleInfo.pendingLate.length > 0) {
+              anomalies.push(
+                `${scheduleInfo.pendingLate.length} late arrival approval${
+                  scheduleInfo.pendingLate.length === 1 ? "" : "s"
+                } pending`,
+              );
             }
-          }
-
-          if (loanReductions.size > 0) {
-            for (const [loanId, totalPaid] of loanReductions.entries()) {
-              if (!(totalPaid > 0)) continue;
-              const loan = scenarioLoans.find(item => item.id === loanId);
-              if (!loan) continue;
-              const currentRemaining = parseAmount(
-                (loan as any).remainingAmount ?? loan.remainingAmount ?? 0,
+            if (scheduleInfo.pendingOvertime.length > 0) {
+              anomalies.push(
+                `${scheduleInfo.pendingOvertime.length} overtime approval${
+                  scheduleInfo.pendingOvertime.length === 1 ? "" : "s"
+                } pending`,
               );
-              const updatedRemainingRaw = Number(
-                Math.max(0, currentRemaining - totalPaid).toFixed(2),
+            }
+            if (scheduleInfo.overtimeLimitBreaches.length > 0) {
+              anomalies.push(
+                `${scheduleInfo.overtimeLimitBreaches.length} overtime limit breach${
+                  scheduleInfo.overtimeLimitBreaches.length === 1 ? "" : "es"
+                } detected`,
               );
-              const nextStatus =
-                updatedRemainingRaw <= 0.01
-                  ? "completed"
-                  : (loan.status as string) ?? "active";
-
-              await tx
-                .update(loansTable)
-                .set({
-                  remainingAmount: updatedRemainingRaw.toFixed(2),
-                  status: nextStatus,
-                })
-                .where(eq(loansTable.id, loanId));
-
-              (loan as any).remainingAmount = updatedRemainingRaw.toFixed(2);
-              (loan as any).status = nextStatus;
             }
-          }
-        }
-
-        return newRun;
-      } catch (error) {
-        await tx.rollback();
-        throw error;
-      }
-    });
 
-    if (shouldFinalize) {
-      try {
-        for (const entry of payrollEntries) {
-          if (entry.vacationDays > 0) {
+            if (anomalies.length > 0) {
+              const hasCritical =
+                scheduleInfo.overtimeLimitBreaches.length > 0 || scheduleInfo.missingPunches > 0;
             await storage.createNotification({
               employeeId: entry.employeeId,
-              type: "vacation_approved",
-              title: "Vacation Deduction Applied",
-              message: `${entry.vacationDays} vacation days deducted from ${parsed.period} payroll`,
-              priority: "medium",
+              type: "attendance_variance",
+              title: `Schedule variance for ${parsed.period}`,
+              message: `Attendance variance detected: ${anomalies.join("; ")}.`,
+              priority: hasCritical ? "high" : "medium",
               status: "unread",
               expiryDate: parsed.endDate,
               daysUntilExpiry: 0,
@@ -1451,149 +2913,132 @@ payrollRouter.post(
               deliveryChannels: ["email"],
               escalationHistory: [],
             });
-          }
-          if (scenarioToggles.loans && entry.loanDeduction > 0) {
-            await storage.createNotification({
-              employeeId: entry.employeeId,
-              type: "loan_deduction",
-              title: "Loan Deduction Applied",
-              message: `${formatCompanyCurrency(entry.loanDeduction, company)} deducted for loan repayment in ${parsed.period}`,
-              priority: "low",
-              status: "unread",
-              expiryDate: parsed.endDate,
-              daysUntilExpiry: 0,
-              emailSent: false,
-              deliveryChannels: ["email"],
-              escalationHistory: [],
-            });
-          }
-
-          if (scenarioToggles.attendance) {
-            const scheduleInfo = scheduleSummary[entry.employeeId];
-            if (scheduleInfo) {
-              const anomalies: string[] = [];
-              if (scheduleInfo.missingPunches > 0) {
-                anomalies.push(
-                  `${scheduleInfo.missingPunches} scheduled shift${
-                    scheduleInfo.missingPunches === 1 ? "" : "s"
-                  } without punches`,
-                );
-              }
-              if (scheduleInfo.pendingAbsence.length > 0) {
-                anomalies.push(
-                  `${scheduleInfo.pendingAbsence.length} absence approval${
-                    scheduleInfo.pendingAbsence.length === 1 ? "" : "s"
-                  } pending`,
-                );
-              }
-              if (scheduleInfo.pendingLate.length > 0) {
-                anomalies.push(
-                  `${scheduleInfo.pendingLate.length} late arrival approval${
-                    scheduleInfo.pendingLate.length === 1 ? "" : "s"
-                  } pending`,
-                );
-              }
-              if (scheduleInfo.pendingOvertime.length > 0) {
-                anomalies.push(
-                  `${scheduleInfo.pendingOvertime.length} overtime approval${
-                    scheduleInfo.pendingOvertime.length === 1 ? "" : "s"
-                  } pending`,
-                );
-              }
-              if (scheduleInfo.overtimeLimitBreaches.length > 0) {
-                anomalies.push(
-                  `${scheduleInfo.overtimeLimitBreaches.length} overtime limit breach${
-                    scheduleInfo.overtimeLimitBreaches.length === 1 ? "" : "es"
-                  } detected`,
-                );
-              }
-
-              if (anomalies.length > 0) {
-                const hasCritical =
-                  scheduleInfo.overtimeLimitBreaches.length > 0 || scheduleInfo.missingPunches > 0;
-              await storage.createNotification({
-                employeeId: entry.employeeId,
-                type: "attendance_variance",
-                title: `Schedule variance for ${parsed.period}`,
-                message: `Attendance variance detected: ${anomalies.join("; ")}.`,
-                priority: hasCritical ? "high" : "medium",
-                status: "unread",
-                expiryDate: parsed.endDate,
-                daysUntilExpiry: 0,
-                emailSent: false,
-                deliveryChannels: ["email"],
-                escalationHistory: [],
-              });
-              }
             }
           }
         }
-      } catch (error) {
-        console.error("Failed to create payroll notifications:", error);
       }
+    } catch (error) {
+      console.error("Failed to create payroll notifications:", error);
     }
+  }
 
-    const availableFormats = Array.isArray(company?.payrollExportFormats)
-      ? (company!.payrollExportFormats as PayrollExportFormatConfig[])
-      : [];
-    const exportRequests = mapExportRequests(parsed.exports, availableFormats);
-
-    if (exportRequests.length > 0) {
-      const artifacts = await buildPayrollExports({
-        run: payrollRun,
-        entries: payrollEntries.map(entry => ({
-          employeeId: entry.employeeId,
-          grossPay: entry.grossPay,
-          netPay: entry.netPay,
-          loanDeduction: entry.loanDeduction,
-          otherDeductions: entry.otherDeductions,
-          bonusAmount: entry.bonusAmount,
-          taxDeduction: entry.taxDeduction,
-          socialSecurityDeduction: entry.socialSecurityDeduction,
-          healthInsuranceDeduction: entry.healthInsuranceDeduction,
-        })),
-        employees,
-        scenarioKey,
-        toggles: scenarioToggles,
-        requests: exportRequests,
-      });
+  const availableFormats = Array.isArray(company?.payrollExportFormats)
+    ? (company!.payrollExportFormats as PayrollExportFormatConfig[])
+    : [];
+  const exportRequests = mapExportRequests(parsed.exports, availableFormats);
 
-      if (artifacts.length > 0) {
-        await db
-          .update(payrollRuns)
-          .set({ exportArtifacts: artifacts })
-          .where(eq(payrollRuns.id, payrollRun.id));
-        payrollRun.exportArtifacts = artifacts;
-      }
+  if (exportRequests.length > 0) {
+    progress?.report("exporting", 0, exportRequests.length);
+    const artifacts = await storeRunExports({
+      run: payrollRun,
+      entries: payrollEntries,
+      employees,
+      company,
+      scenarioKey,
+      toggles: scenarioToggles,
+      requests: exportRequests,
+      actorId,
+    });
+    if (artifacts) {
+      payrollRun.exportArtifacts = artifacts;
     }
+  }
 
-    payrollRun.calendarId = payrollRun.calendarId ?? calendar?.id ?? parsed.calendarId ?? null;
-    payrollRun.cycleLabel = payrollRun.cycleLabel ?? cycleLabel;
-    payrollRun.scenarioKey = scenarioKey;
-    payrollRun.scenarioToggles = scenarioToggles;
+  payrollRun.calendarId = payrollRun.calendarId ?? calendar?.id ?? parsed.calendarId ?? null;
+  payrollRun.cycleLabel = payrollRun.cycleLabel ?? cycleLabel;
+  payrollRun.scenarioKey = scenarioKey;
+  payrollRun.scenarioToggles = scenarioToggles;
+
+  await logPayrollAudit(
+    req,
+    isOffCycle ? `Generated ${runType} payroll run` : "Generated payroll run",
+    { type: "payroll_run", id: payrollRun.id },
+    {
+      startDate: payrollRun.startDate,
+      endDate: payrollRun.endDate,
+      status: payrollRun.status,
+      companyId: payrollRun.companyId,
+      scenarioKey,
+      runType,
+      ...(isOffCycle
+        ? {
+            employeeIds: Array.from(selectedEmployeeIds ?? []),
+            components: payrollRunComponents.filter(component => scenarioToggles[component]),
+          }
+        : {}),
+    },
+  );
 
-    await logPayrollAudit(
-      req,
-      "Generated payroll run",
-      { type: "payroll_run", id: payrollRun.id },
-      {
-        startDate: payrollRun.startDate,
-        endDate: payrollRun.endDate,
-        status: payrollRun.status,
-        scenarioKey,
-      },
-    );
+  return payrollRun;
+};
+
+/** Key of the period a generation request covers; off-cycle runs may overlap. */
+const generationJobKey = (parsed: z.infer<typeof generatePayrollSchema>) =>
+  parsed.runType === "regular"
+    ? [parsed.companyId ?? "", parsed.calendarId ?? "", parsed.startDate, parsed.endDate].join(":")
+    : null;
+
+payrollRouter.post(
+  "/generate",
+  requirePermission("payroll:manage"),
+  trackPayrollGenerateMetrics,
+  async (req, res, next) => {
+  try {
+    const parsed = generatePayrollSchema.parse(req.body ?? {});
+
+    if (parsed.background) {
+      // Large runs are generated after responding; the wizard follows the job
+      // over the WebSocket or by polling its status.
+      const job = startPayrollGenerationJob(
+        {
+          createdBy: (req.user as SessionUser | undefined)?.id ?? null,
+          key: generationJobKey(parsed),
+        },
+        progress => generatePayrollRun(req, parsed, progress),
+      );
+      return res.status(202).json(job);
+    }
 
+    const payrollRun = await generatePayrollRun(req, parsed);
     res.status(201).json(payrollRun);
   } catch (error) {
     console.error("Payroll generation error:", error);
     if (error instanceof z.ZodError) {
       return next(new HttpError(400, "Invalid payroll payload", error.errors));
     }
+    if (error instanceof HttpError) {
+      return next(error);
+    }
     next(new HttpError(500, "Failed to generate payroll"));
   }
 });
 
+payrollRouter.get("/jobs/:jobId", requirePermission("payroll:view"), (req, res, next) => {
+  const job = getPayrollGenerationJob(req.params.jobId);
+  if (!job) {
+    return next(new HttpError(404, "Payroll generation job not found"));
+  }
+  res.json(job);
+});
+
+payrollRouter.post(
+  "/jobs/:jobId/cancel",
+  requirePermission("payroll:manage"),
+  async (req, res, next) => {
+    const job = cancelPayrollGenerationJob(req.params.jobId);
+    if (!job) {
+      return next(new HttpError(404, "Payroll generation job not found"));
+    }
+    await logPayrollAudit(
+      req,
+      "Cancelled payroll generation",
+      { type: "payroll_generation_job", id: job.id },
+      { status: job.status },
+    );
+    res.status(202).json(job);
+  },
+);
+
 payrollRouter.post(
   "/entries/:id/vacation",
   requirePermission("payroll:manage"),
@@ -1611,6 +3056,13 @@ payrollRouter.post(
         return next(new HttpError(404, "Payroll entry not found"));
       }
 
+      const lockedError = payrollEntry.payrollRun
+        ? payrollRunLockedError(payrollEntry.payrollRun)
+        : undefined;
+      if (lockedError) {
+        return next(lockedError);
+      }
+
       const start = new Date(body.startDate);
       const end = new Date(body.endDate);
       if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start > end) {
@@ -1730,6 +3182,24 @@ payrollRouter.put(
   async (req, res, next) => {
   try {
     const updates = insertPayrollRunSchema.partial().parse(req.body);
+    if (updates.status !== undefined) {
+      return next(
+        new HttpError(
+          400,
+          "Payroll run status can only be changed through the submit, approve, reject, mark-paid, lock and cancel actions",
+        ),
+      );
+    }
+    const existingRun = await db.query.payrollRuns.findFirst({
+      where: (runs, { eq: eqFn }) => eqFn(runs.id, req.params.id),
+    });
+    if (!existingRun) {
+      return next(new HttpError(404, "Payroll run not found"));
+    }
+    const lockedError = payrollRunLockedError(existingRun);
+    if (lockedError) {
+      return next(lockedError);
+    }
     const updatedPayrollRun = await storage.updatePayrollRun(req.params.id, updates);
     if (!updatedPayrollRun) {
       return next(new HttpError(404, "Payroll run not found"));
@@ -1754,6 +3224,13 @@ payrollRouter.post(
   requirePermission("payroll:manage"),
   async (req, res, next) => {
     try {
+      const existingRun = await db.query.payrollRuns.findFirst({
+        where: (runs, { eq: eqFn }) => eqFn(runs.id, req.params.id),
+      });
+      const lockedError = existingRun ? payrollRunLockedError(existingRun) : undefined;
+      if (lockedError) {
+        return next(lockedError);
+      }
       const result = await storage.undoPayrollRunLoanDeductions(req.params.id);
       if (!result) {
         return next(new HttpError(404, "Payroll run not found"));
@@ -1784,12 +3261,255 @@ payrollRouter.post(
   },
 );
 
+payrollRouter.post(
+  "/:id/void",
+  requirePermission("payroll:approve"),
+  async (req, res, next) => {
+    try {
+      const { reason } = payrollRunVoidSchema.parse(req.body ?? {});
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return next(new HttpError(404, "Payroll run not found"));
+      }
+      const blocker = payrollRunVoidBlocker(run);
+      if (blocker) {
+        return next(new HttpError(409, blocker, { status: run.status, runType: run.runType }, "payrollRunNotVoidable"));
+      }
+
+      const actorId = (req.user as SessionUser | undefined)?.id ?? null;
+      const now = new Date();
+      const entryReason = `Reversal of ${run.period}: ${reason}`;
+      const result = await storage.voidPayrollRun(run.id, {
+        fromStatus: run.status,
+        reason,
+        voidedBy: actorId,
+        voidedAt: now,
+        // The reversal only undoes an approved run, so it is recorded as approved.
+        reversal: {
+          period: run.period,
+          startDate: run.startDate,
+          endDate: run.endDate,
+          grossAmount: negateAmount(run.grossAmount),
+          totalDeductions: negateAmount(run.totalDeductions),
+          netAmount: negateAmount(run.netAmount),
+          status: "approved",
+          runType: "reversal",
+          payDate: now.toISOString().split("T")[0],
+          companyId: run.companyId,
+          calendarId: run.calendarId,
+          cycleLabel: run.cycleLabel,
+          scenarioKey: run.scenarioKey,
+          scenarioToggles: run.scenarioToggles ?? {},
+          exportArtifacts: [],
+          createdBy: actorId,
+          approvedBy: actorId,
+          approvedAt: now,
+        },
+        entries: (run.entries ?? []).map(entry => buildReversalEntry(entry, entryReason)),
+      });
+      if (!result) {
+        return next(
+          new HttpError(
+            409,
+            "Payroll run status changed; reload and try again",
+            undefined,
+            "payrollRunStatusChanged",
+          ),
+        );
+      }
+
+      await logPayrollAudit(
+        req,
+        "Voided payroll run",
+        { type: "payroll_run", id: run.id },
+        {
+          reason,
+          fromStatus: run.status,
+          reversalRunId: result.reversal.id,
+          restoredLoans: result.loans.length,
+          reopenedInstallments: result.reopenedInstallments,
+          reopenedEvents: result.reopenedEvents,
+        },
+      );
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new HttpError(400, "Invalid void request", error.errors));
+      }
+      if (error instanceof LoanPaymentUndoError) {
+        return next(
+          new HttpError(
+            409,
+            "Payroll run cannot be voided because loan payments from this run cannot be restored.",
+            { loanId: error.loanId, reason: error.message },
+            "payrollRunLoanUndoBlocked",
+          ),
+        );
+      }
+      next(new HttpError(500, "Failed to void payroll run", error));
+    }
+  },
+);
+
+const payrollRunActionPaths: Record<PayrollRunAction, string> = {
+  submit: "submit",
+  approve: "approve",
+  reject: "reject",
+  mark_paid: "mark-paid",
+  lock: "lock",
+  cancel: "cancel",
+};
+
+const payrollRunActionSummaries: Record<PayrollRunAction, string> = {
+  submit: "Submitted payroll run for approval",
+  approve: "Approved payroll run",
+  reject: "Returned payroll run to draft",
+  mark_paid: "Marked payroll run as paid",
+  lock: "Locked payroll run",
+  cancel: "Cancelled payroll run",
+};
+
+for (const [action, path] of Object.entries(payrollRunActionPaths) as Array<
+  [PayrollRunAction, string]
+>) {
+  payrollRouter.post(
+    `/:id/${path}`,
+    requirePermission(payrollRunTransitions[action].permission),
+    async (req, res, next) => {
+      try {
+        const { notes } = payrollRunTransitionSchema.parse(req.body ?? {});
+        const actorId = (req.user as SessionUser | undefined)?.id;
+        const existingRun = await db.query.payrollRuns.findFirst({
+          where: (runs, { eq: eqFn }) => eqFn(runs.id, req.params.id),
+        });
+        if (!existingRun) {
+          return next(new HttpError(404, "Payroll run not found"));
+        }
+
+        const { from, to } = resolvePayrollRunTransition(existingRun, action, actorId);
+
+        // Approval finalises the run, so its journal has to be postable.
+        if (action === "approve") {
+          const run = await storage.getPayrollRun(existingRun.id);
+          const journal = run ? await loadPayrollJournal(run) : undefined;
+          if (journal && !journal.balanced) {
+            return next(
+              new HttpError(
+                409,
+                `Payroll journal does not balance (difference ${journal.difference.toFixed(2)})`,
+                { totalDebit: journal.totalDebit, totalCredit: journal.totalCredit },
+                "payrollJournalUnbalanced",
+              ),
+            );
+          }
+        }
+
+        const now = new Date();
+        const changes: Partial<InsertPayrollRun> = { status: to };
+        if (action === "submit") changes.submittedAt = now;
+        if (action === "approve") {
+          changes.approvedBy = actorId ?? null;
+          changes.approvedAt = now;
+        }
+        if (action === "reject") {
+          changes.submittedAt = null;
+        }
+        if (action === "mark_paid") changes.paidAt = now;
+        if (action === "lock") changes.lockedAt = now;
+
+        const updated = await db.transaction(async tx => {
+          const run = await storage.transitionPayrollRun(existingRun.id, from, changes, tx);
+          if (!run) return undefined;
+          // A submitted run holds the events it pays. Approval claims them
+          // again for runs submitted before submission did.
+          if (action === "submit" || action === "approve") {
+            const paid = await storage.getPayrollRun(run.id);
+            await markPaidEventsProcessed(run, paid?.entries ?? [], tx);
+          }
+          // A run back in draft no longer holds its events.
+          if (action === "reject") {
+            await storage.reopenPayrollRunEvents(run.id, tx);
+          }
+          // Loans and salary advances are recovered once a checker approves
+          // the run.
+          if (action === "approve") {
+            await storage.postPayrollRunLoanDeductions(run.id, tx);
+            await storage.postPayrollRunSalaryAdvanceRecoveries(run.id, tx);
+          }
+          // Runs submitted before that may already hold recoveries.
+          if (action === "reject" || action === "cancel") {
+            await storage.undoPayrollRunLoanDeductions(run.id, { tx });
+            await storage.reopenPayrollRunSalaryAdvances(run.id, tx);
+          }
+          if (action === "cancel") {
+            await storage.reopenPayrollRunEvents(run.id, tx);
+          }
+          return run;
+        });
+        if (!updated) {
+          return next(
+            new HttpError(
+              409,
+              "Payroll run status changed; reload and try again",
+              undefined,
+              "payrollRunStatusChanged",
+            ),
+          );
+        }
+
+        await logPayrollAudit(
+          req,
+          payrollRunActionSummaries[action],
+          { type: "payroll_run", id: updated.id },
+          { action, fromStatus: from, toStatus: to, notes: notes ?? null },
+        );
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return next(new HttpError(400, "Invalid payroll transition", error.errors));
+        }
+        if (error instanceof PayrollRunTransitionError) {
+          return next(
+            new HttpError(
+              error.code === "selfApproval" ? 403 : 409,
+              error.message,
+              undefined,
+              error.code === "selfApproval" ? "payrollRunSelfApproval" : "payrollRunInvalidTransition",
+            ),
+          );
+        }
+        if (error instanceof HttpError) {
+          return next(error);
+        }
+        if (error instanceof LoanPaymentUndoError) {
+          return next(
+            new HttpError(
+              409,
+              "Payroll run cannot be returned because loan payments from this run cannot be restored.",
+              { loanId: error.loanId, reason: error.message },
+              "payrollRunLoanUndoBlocked",
+            ),
+          );
+        }
+        next(new HttpError(500, "Failed to update payroll run status", error));
+      }
+    },
+  );
+}
+
 payrollRouter.delete(
   "/:id",
   requirePermission("payroll:manage"),
   async (req, res, next) => {
   try {
     const runId = req.params.id;
+    const existingRun = await db.query.payrollRuns.findFirst({
+      where: (runs, { eq: eqFn }) => eqFn(runs.id, runId),
+    });
+    const lockedError = existingRun ? payrollRunLockedError(existingRun) : undefined;
+    if (lockedError) {
+      return next(lockedError);
+    }
     const deleted = await storage.deletePayrollRun(runId);
     if (!deleted) {
       return next(new HttpError(404, "Payroll run not found"));
@@ -1821,6 +3541,19 @@ payrollRouter.put(
   async (req, res, next) => {
   try {
     const updates = insertPayrollEntrySchema.partial().parse(req.body);
+    const existingEntry = await db.query.payrollEntries.findFirst({
+      where: (entry, { eq: eqFn }) => eqFn(entry.id, req.params.id),
+      with: { payrollRun: true },
+    });
+    if (!existingEntry) {
+      return next(new HttpError(404, "Payroll entry not found"));
+    }
+    const lockedError = existingEntry.payrollRun
+      ? payrollRunLockedError(existingEntry.payrollRun)
+      : undefined;
+    if (lockedError) {
+      return next(lockedError);
+    }
     const updatedEntry = await storage.updatePayrollEntry(req.params.id, updates);
     if (!updatedEntry) {
       return next(new HttpError(404, "Payroll entry not found"));
@@ -11,6 +11,9 @@ import type {
   ReportSchedule,
 } from "@shared/schema";
 import { normalizeAllowanceTitle } from "../utils/payroll";
+import { buildSocialInsuranceReport } from "../utils/socialInsurance";
+import { buildSocialInsuranceReportFile } from "../utils/payrollExports";
+import { buildPayrollForecast, buildPayrollForecastCsv, forecastMonths } from "../utils/payrollForecast";
 import { requirePermission } from "./auth";
 
 export const reportsRouter = Router();
@@ -33,6 +36,7 @@ const reportQueryBaseSchema = z.object({
     .default(defaultEndDate)
     .refine((d) => !isNaN(Date.parse(d)), { message: "Invalid endDate" }),
   groupBy: z.enum(["month", "year"]).optional().default("month"),
+  companyId: z.string().trim().min(1).optional(),
 });
 
 const withDateRangeGuard = <T extends z.ZodTypeAny>(schema: T) =>
@@ -386,6 +390,7 @@ reportsRouter.get(
             Number(e.socialSecurityDeduction || 0) +
             Number(e.healthInsuranceDeduction || 0) +
             Number(e.loanDeduction || 0) +
+            Number(e.advanceDeduction || 0) +
             Number(e.otherDeductions || 0),
           0
         ) +
@@ -432,11 +437,12 @@ reportsRouter.get(
   requirePermission("reports:finance"),
   async (req, res, next) => {
   try {
-    const { startDate, endDate, groupBy } = reportQuerySchema.parse(req.query);
+    const { startDate, endDate, groupBy, companyId } = reportQuerySchema.parse(req.query);
     const report = await storage.getCompanyPayrollSummary({
       startDate,
       endDate,
       groupBy,
+      companyId,
     });
 
     const response = report.map((period) => {
@@ -544,6 +550,48 @@ reportsRouter.get(
   },
 );
 
+const socialInsuranceReportQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "month must be in YYYY-MM format"),
+  format: z.enum(["json", "csv", "xlsx"]).optional().default("json"),
+  companyId: z.string().trim().min(1).optional(),
+});
+
+// Monthly PIFSS contribution report
+reportsRouter.get(
+  "/api/reports/pifss",
+  requirePermission("reports:finance"),
+  async (req, res, next) => {
+  try {
+    const { month, format, companyId } = socialInsuranceReportQuerySchema.parse(req.query);
+    const [year, monthIndex] = month.split("-").map(Number);
+    const startDate = `${month}-01`;
+    const endDate = new Date(Date.UTC(year, monthIndex, 0)).toISOString().split("T")[0];
+    const sources = await storage.getSocialInsuranceContributions(startDate, endDate, companyId);
+    const report = buildSocialInsuranceReport(month, sources);
+
+    if (format === "json") {
+      return res.json(report);
+    }
+
+    const file = buildSocialInsuranceReportFile(report, format);
+    res.setHeader(
+      "Content-Type",
+      format === "csv"
+        ? "text/csv"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="pifss-${month}.${format}"`);
+    res.send(file);
+  } catch (error) {
+    console.error(error);
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid query parameters", error.errors));
+    }
+    next(new HttpError(500, "Failed to build PIFSS report", error));
+  }
+  },
+);
+
 // Loan balances / loan repayment details
 reportsRouter.get(
   "/api/reports/loan-balances",
@@ -623,8 +671,13 @@ reportsRouter.get(
   requirePermission("reports:finance"),
   async (req, res, next) => {
   try {
-    const { startDate, endDate, groupBy } = reportQuerySchema.parse(req.query);
-    const rows = await storage.getCompanyPayrollByDepartment({ startDate, endDate, groupBy });
+    const { startDate, endDate, groupBy, companyId } = reportQuerySchema.parse(req.query);
+    const rows = await storage.getCompanyPayrollByDepartment({
+      startDate,
+      endDate,
+      groupBy,
+      companyId,
+    });
     const response = rows.map(r => ({
       period: r.period,
       departmentId: r.departmentId,
@@ -645,13 +698,95 @@ reportsRouter.get(
   },
 );
 
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+const payrollForecastQuerySchema = z.object({
+  startMonth: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "startMonth must be in YYYY-MM format")
+    .optional()
+    .default(currentMonth),
+  months: z.coerce.number().int().min(1).max(24).optional().default(12),
+  companyId: z.string().trim().min(1).optional(),
+  departmentIds: departmentIdsSchema,
+  format: z.enum(["json", "csv"]).optional().default("json"),
+});
+
+// Rolling payroll cost forecast per department and company
+reportsRouter.get(
+  "/api/reports/payroll-forecast",
+  requirePermission("reports:finance"),
+  async (req, res, next) => {
+  try {
+    const { startMonth, months, companyId, departmentIds, format } =
+      payrollForecastQuerySchema.parse(req.query);
+    const monthKeys = forecastMonths(startMonth, months);
+    const start = toUtcDate(`${monthKeys[0]}-01`);
+    const [endYear, endMonth] = monthKeys[monthKeys.length - 1].split("-").map(Number);
+    const end = new Date(Date.UTC(endYear, endMonth, 0));
+
+    const [employees, departments, companies, compensationChanges, payComponents, loans, allowanceEvents, leaveRequests] =
+      await Promise.all([
+        storage.getEmployees({ status: ["active"], companyId }),
+        storage.getDepartments(),
+        storage.getCompanies(),
+        storage.getCompensationChanges(end),
+        storage.getEmployeePayComponents(),
+        storage.getLoans(start, end),
+        storage.getEmployeeEvents(start, end, { eventType: "allowance" }),
+        storage.getVacationRequests(start, end),
+      ]);
+
+    const forecast = buildPayrollForecast({
+      startMonth,
+      months,
+      companyId,
+      employees: departmentIds
+        ? employees.filter(employee => employee.departmentId && departmentIds.includes(employee.departmentId))
+        : employees,
+      departments,
+      companies,
+      compensationChanges,
+      payComponents,
+      loans,
+      allowanceEvents,
+      leaveRequests,
+    });
+
+    if (format === "json") {
+      return res.json(forecast);
+    }
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="payroll-forecast-${forecast.startMonth}-${forecast.endMonth}.csv"`,
+    );
+    res.send(buildPayrollForecastCsv(forecast));
+  } catch (error) {
+    console.error(error);
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid query parameters", error.errors));
+    }
+    next(new HttpError(500, "Failed to build payroll forecast", error));
+  }
+  },
+);
+
 reportsRouter.get(
   "/api/reports/department-costs",
   requirePermission("reports:finance"),
   async (req, res, next) => {
   try {
-    const { startDate, endDate, groupBy, departmentIds } = analyticsQuerySchema.parse(req.query);
-    const data = await storage.getDepartmentCostAnalytics({ startDate, endDate, groupBy, departmentIds });
+    const { startDate, endDate, groupBy, departmentIds, companyId } =
+      analyticsQuerySchema.parse(req.query);
+    const data = await storage.getDepartmentCostAnalytics({
+      startDate,
+      endDate,
+      groupBy,
+      departmentIds,
+      companyId,
+    });
     res.json(data);
   } catch (error) {
     console.error(error);
@@ -0,0 +1,169 @@
+import { Router, type Request } from "express";
+import { z } from "zod";
+import { HttpError } from "../errorHandler";
+import { requirePermission } from "./auth";
+import { storage, SalaryAdvanceError } from "../storage";
+import {
+  salaryAdvanceRequestSchema,
+  salaryAdvanceStatuses,
+  type SessionUser,
+} from "@shared/schema";
+import { calculateSalaryAdvanceLimit } from "../utils/salaryAdvances";
+
+export const salaryAdvancesRouter = Router();
+
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const salaryAdvanceListQuerySchema = z.object({
+  employeeId: z.string().trim().min(1).optional(),
+  status: z.enum(salaryAdvanceStatuses).optional(),
+});
+
+const salaryAdvanceLimitQuerySchema = z.object({
+  employeeId: z.string().trim().min(1),
+  date: z.string().regex(isoDatePattern, "Use YYYY-MM-DD").optional(),
+});
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const logSalaryAdvanceAudit = async (
+  req: Request,
+  summary: string,
+  advanceId: string,
+  metadata?: Record<string, unknown>,
+) => {
+  const actorId = (req.user as SessionUser | undefined)?.id;
+  if (!actorId) return;
+  try {
+    await storage.logSecurityEvent({
+      actorId,
+      eventType: "loan_change",
+      entityType: "salary_advance",
+      entityId: advanceId,
+      summary,
+      metadata: metadata ?? null,
+    });
+  } catch (error) {
+    console.error("Failed to log salary advance audit event", error);
+  }
+};
+
+/** How much an employee can still be advanced on `date`, or undefined when they are unknown. */
+const loadSalaryAdvanceLimit = async (employeeId: string, date: string) => {
+  const employee = await storage.getEmployee(employeeId);
+  if (!employee) return undefined;
+  const [company, outstanding, compensationChanges] = await Promise.all([
+    employee.companyId ? storage.getCompany(employee.companyId) : Promise.resolve(undefined),
+    storage.getOutstandingSalaryAdvanceTotal(employeeId),
+    storage.getCompensationHistory(employeeId),
+  ]);
+  return {
+    employee,
+    limit: calculateSalaryAdvanceLimit({
+      salary: employee.salary,
+      compensationChanges,
+      asOf: date,
+      maxPercent: company?.salaryAdvanceMaxPercent,
+      outstanding,
+    }),
+  };
+};
+
+salaryAdvancesRouter.get("/", requirePermission("loans:view"), async (req, res, next) => {
+  try {
+    const filters = salaryAdvanceListQuerySchema.parse(req.query);
+    res.json(await storage.getSalaryAdvances(filters));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid salary advance filters", error.errors));
+    }
+    console.error("Failed to fetch salary advances:", error);
+    next(new HttpError(500, "Failed to fetch salary advances", error));
+  }
+});
+
+salaryAdvancesRouter.get("/limit", requirePermission("loans:view"), async (req, res, next) => {
+  try {
+    const query = salaryAdvanceLimitQuerySchema.parse(req.query);
+    const result = await loadSalaryAdvanceLimit(query.employeeId, query.date ?? today());
+    if (!result) {
+      return next(new HttpError(404, "Employee not found"));
+    }
+    res.json(result.limit);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid salary advance limit request", error.errors));
+    }
+    console.error("Failed to calculate salary advance limit:", error);
+    next(new HttpError(500, "Failed to calculate salary advance limit", error));
+  }
+});
+
+salaryAdvancesRouter.post("/", requirePermission("loans:manage"), async (req, res, next) => {
+  try {
+    const data = salaryAdvanceRequestSchema.parse(req.body);
+    const paidDate = data.paidDate ?? today();
+    const result = await loadSalaryAdvanceLimit(data.employeeId, paidDate);
+    if (!result) {
+      return next(new HttpError(404, "Employee not found"));
+    }
+    const { employee, limit } = result;
+    if (employee.status !== "active") {
+      return next(new HttpError(409, `Salary advances can only be paid to active employees; this employee is ${employee.status}`));
+    }
+    if (data.amount > limit.available + 0.005) {
+      return next(
+        new HttpError(
+          422,
+          `Advance exceeds the ${limit.available.toFixed(2)} available: ${limit.maxPercent}% of ${limit.earnedToDate.toFixed(2)} earned so far this month`,
+          limit,
+          "salaryAdvanceLimitExceeded",
+        ),
+      );
+    }
+    const advance = await storage.createSalaryAdvance({
+      employeeId: employee.id,
+      amount: data.amount.toFixed(2),
+      paidDate,
+      paymentMethod: data.paymentMethod,
+      reference: data.reference || null,
+      reason: data.reason || null,
+      earnedToDate: limit.earnedToDate.toFixed(2),
+      maxPercent: limit.maxPercent.toFixed(2),
+      createdBy: (req.user as SessionUser | undefined)?.id ?? null,
+    });
+    await logSalaryAdvanceAudit(
+      req,
+      `Paid salary advance of ${data.amount.toFixed(2)}`,
+      advance.id,
+      { employeeId: employee.id, amount: data.amount, available: limit.available },
+    );
+    res.status(201).json(advance);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new HttpError(400, "Invalid salary advance", error.errors));
+    }
+    console.error("Failed to pay salary advance:", error);
+    next(new HttpError(500, "Failed to pay salary advance", error));
+  }
+});
+
+salaryAdvancesRouter.post("/:id/cancel", requirePermission("loans:manage"), async (req, res, next) => {
+  try {
+    const advance = await storage.cancelSalaryAdvance(req.params.id);
+    if (!advance) {
+      return next(new HttpError(404, "Salary advance not found"));
+    }
+    await logSalaryAdvanceAudit(req, "Cancelled salary advance", advance.id, {
+      employeeId: advance.employeeId,
+      amount: advance.amount,
+    });
+    res.json(advance);
+  } catch (error) {
+    if (error instanceof SalaryAdvanceError) {
+      return next(new HttpError(409, error.message));
+    }
+    console.error("Failed to cancel salary advance:", error);
+    next(new HttpError(500, "Failed to cancel salary advance", error));
+  }
+});
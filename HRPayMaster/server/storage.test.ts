@@ -53,6 +53,8 @@ import {
   loans,
   loanApprovalStages,
   loanDocuments,
+  payrollRuns,
+  payrollEntries,
 } from '@shared/schema';
 
 describe('getMonthlyEmployeeSummary', () => {
@@ -591,6 +593,167 @@ describe('deleteLoan', () => {
 
 
 
+describe('postPayrollRunLoanDeductions', () => {
+  it('posts a final settlement recovery and closes the loan it settles', async () => {
+    const run = {
+      id: 'run-fs',
+      runType: 'final_settlement',
+      startDate: '2024-03-01',
+      endDate: '2024-03-15',
+      scenarioToggles: {},
+    };
+    const entry = { employeeId: 'emp-1', loanDeduction: '300.00', loanRecoveries: { 'loan-1': 300 } };
+    const rowsByTable = new Map<unknown, unknown[]>([
+      [payrollRuns, [run]],
+      [loanPayments, []],
+      [payrollEntries, [entry]],
+    ]);
+    const txSelect = vi.fn(() => ({
+      from: (table: unknown) => ({
+        where: () => {
+          const rows = Promise.resolve(rowsByTable.get(table) ?? []);
+          return Object.assign(rows, { limit: () => rows });
+        },
+      }),
+    }));
+    const insertedPayments: any[] = [];
+    const txInsert = vi.fn(() => ({
+      values: (values: any) => {
+        insertedPayments.push(values);
+        return { returning: async () => [values] };
+      },
+    }));
+    const updates: Array<{ table: unknown; values: any }> = [];
+    const txUpdate = vi.fn((table: unknown) => ({
+      set: (values: any) => {
+        updates.push({ table, values });
+        const where = Object.assign(Promise.resolve(undefined), {
+          returning: async () => [{ id: 'loan-1', ...values }],
+        });
+        return { where: () => where };
+      },
+    }));
+    const getLoansSpy = vi.spyOn(storage, 'getLoans').mockResolvedValue([
+      {
+        id: 'loan-1',
+        employeeId: 'emp-1',
+        status: 'active',
+        startDate: '2023-01-01',
+        remainingAmount: '300.00',
+        scheduleDueThisPeriod: [],
+        amortizationSchedule: [],
+      },
+    ] as any);
+    const vacationsSpy = vi.spyOn(storage, 'getVacationRequests').mockResolvedValue([]);
+    const scheduleSpy = vi.spyOn(storage, 'updateLoanScheduleStatuses').mockResolvedValue(undefined as any);
+
+    try {
+      const result = await storage.postPayrollRunLoanDeductions('run-fs', {
+        select: txSelect,
+        insert: txInsert,
+        update: txUpdate,
+      } as any);
+
+      // Every outstanding loan, whatever its end date.
+      expect(getLoansSpy).toHaveBeenCalledWith();
+      expect(insertedPayments).toEqual([
+        expect.objectContaining({
+          loanId: 'loan-1',
+          payrollRunId: 'run-fs',
+          amount: '300.00',
+          source: 'final_settlement',
+        }),
+      ]);
+      expect(result.loans).toEqual([
+        expect.objectContaining({ remainingAmount: '0.00', status: 'completed' }),
+      ]);
+      expect(updates).toContainEqual({
+        table: loanAmortizationSchedules,
+        values: expect.objectContaining({ status: 'paid', payrollRunId: 'run-fs' }),
+      });
+    } finally {
+      getLoansSpy.mockRestore();
+      vacationsSpy.mockRestore();
+      scheduleSpy.mockRestore();
+    }
+  });
+});
+
+
+
+describe('postPayrollRunSalaryAdvanceRecoveries', () => {
+  it('records what the entries planned, up to what each advance still owes', async () => {
+    const txSelect = vi
+      .fn()
+      .mockReturnValueOnce({
+        from: () => ({
+          where: async () => [
+            { advanceRecoveries: { 'adv-1': 100, 'adv-2': 80 } },
+            { advanceRecoveries: null },
+          ],
+        }),
+      })
+      .mockReturnValueOnce({
+        from: () => ({
+          // adv-2 has since been recovered down to 30 by another run.
+          where: async () => [
+            { id: 'adv-1', amount: '100.00', recovered: '0' },
+            { id: 'adv-2', amount: '200.00', recovered: '170.00' },
+          ],
+        }),
+      });
+    const recordSpy = vi
+      .spyOn(storage, 'recordSalaryAdvanceRecoveries')
+      .mockResolvedValue(undefined);
+    const tx = { select: txSelect } as any;
+
+    try {
+      await expect(storage.postPayrollRunSalaryAdvanceRecoveries('run-1', tx)).resolves.toBe(2);
+      expect(recordSpy).toHaveBeenCalledWith(
+        'run-1',
+        [
+          { advanceId: 'adv-1', amount: 100 },
+          { advanceId: 'adv-2', amount: 30 },
+        ],
+        tx,
+      );
+    } finally {
+      recordSpy.mockRestore();
+    }
+  });
+});
+
+
+
+describe('getActiveFinalSettlement', () => {
+  beforeEach(() => {
+    selectMock.mockReset();
+  });
+
+  it('reads settlements through their payroll run', async () => {
+    const settlement = { id: 'settlement-2', employeeId: 'emp-1', payrollRunId: 'run-2' };
+    const innerJoin = vi.fn(() => ({
+      where: () => ({ orderBy: () => ({ limit: async () => [{ settlement }] }) }),
+    }));
+    selectMock.mockReturnValue({ from: () => ({ innerJoin }) });
+
+    await expect(storage.getActiveFinalSettlement('emp-1')).resolves.toEqual(settlement);
+    expect(innerJoin).toHaveBeenCalledWith(payrollRuns, expect.anything());
+  });
+
+  it('returns undefined when every settlement run was cancelled', async () => {
+    selectMock.mockReturnValue({
+      from: () => ({
+        innerJoin: () => ({ where: () => ({ orderBy: () => ({ limit: async () => [] }) }) }),
+      }),
+    });
+
+    await expect(storage.getActiveFinalSettlement('emp-1')).resolves.toBeUndefined();
+  });
+});
+
+
+
 describe('getEmployeeEvents', () => {
   beforeEach(() => {
     selectMock.mockReset();
@@ -6,9 +6,12 @@ import {
   gte,
   ilike,
   inArray,
+  isNotNull,
   isNull,
+  lt,
   lte,
   ne,
+  notInArray,
   or,
   sql,
   type AnyColumn,
@@ -20,6 +23,18 @@ import { db } from "./db";
 import { normalizeAllowanceTitle } from "./utils/payroll";
 import { CHATBOT_EVENT_TYPES, emitChatbotNotification } from "./chatbotEvents";
 import { generateNumericOtp, verifyTotpCode } from "./utils/mfa";
+import type { SocialInsuranceReportSource } from "./utils/socialInsurance";
+import { resolveCompensationChangeType } from "./utils/compensation";
+import { frozenPayrollRunStatuses } from "./utils/payrollLifecycle";
+import { negateAmount } from "./utils/payrollReversal";
+import {
+  isRepayableLoan,
+  planLoanRestructure,
+  rescheduleRemainingBalance,
+  shouldPauseLoanForLeave,
+} from "./utils/loans";
+import type { BuiltPayrollExport } from "./utils/payrollExports";
+import { getBlobStore } from "./blobStore";
 
 type TransactionClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
@@ -75,6 +90,10 @@ import {
   type PayrollRun,
   type InsertPayrollRun,
   type PayrollEntry,
+  type PayrollRetroAdjustment,
+  type PayrollDeductionCarryForward,
+  type PayrollExportArtifact,
+  type PayrollExportFile,
   type InsertPayrollEntry,
   type PayrollRunWithEntries,
   type AllowanceBreakdown,
@@ -88,6 +107,26 @@ import {
   type LoanWithEmployee,
   type LoanPayment,
   type InsertLoanPayment,
+  type FinalSettlement,
+  type InsertFinalSettlement,
+  type CompensationChange,
+  type InsertCompensationChange,
+  type PayslipDelivery,
+  type InsertPayslipDelivery,
+  type SocialInsuranceRate,
+  type InsertSocialInsuranceRate,
+  type LoanPolicy,
+  type InsertLoanPolicy,
+  type LoanInterestMethod,
+  type LoanRepaymentMethod,
+  type LoanRestructure,
+  type InsertLoanRestructure,
+  type LoanRestructureWithStages,
+  type LoanScheduleVersion,
+  type SalaryAdvance,
+  type InsertSalaryAdvance,
+  type SalaryAdvanceStatus,
+  type SalaryAdvanceWithEmployee,
   type LoanApprovalStage,
   type InsertLoanApprovalStage,
   type LoanDocument,
@@ -141,6 +180,12 @@ import {
   type InsertEmployeeCustomValue,
   type Company,
   type InsertCompany,
+  type CompanyHoliday,
+  type InsertCompanyHoliday,
+  type GlAccountMapping,
+  type InsertGlAccountMapping,
+  type EmployeePayComponent,
+  type InsertEmployeePayComponent,
   type Attendance,
   type InsertAttendance,
   type ShiftTemplate,
@@ -178,6 +223,9 @@ import {
   type PasswordResetToken,
   departments,
   companies,
+  companyHolidays,
+  glAccountMappings,
+  employeePayComponents,
   employees,
   employeeCustomFields,
   employeeCustomValues,
@@ -189,9 +237,19 @@ import {
   leaveAccrualLedger,
   payrollRuns,
   payrollEntries,
+  payrollExportFiles,
   vacationRequests,
   loans,
   loanPayments,
+  finalSettlements,
+  compensationChanges,
+  payslipDeliveries,
+  socialInsuranceRates,
+  loanPolicies,
+  loanRestructures,
+  loanScheduleVersions,
+  salaryAdvances,
+  salaryAdvanceRecoveries,
   loanApprovalStages,
   loanDocuments,
   loanAmortizationSchedules,
@@ -429,6 +487,14 @@ export interface ScheduleAlert {
   limitMinutes?: number;
 }
 
+export interface ApprovedOvertimeDay {
+  scheduleId: string;
+  date: string;
+  minutes: number;
+  expectedMinutes: number;
+  limitMinutes: number;
+}
+
 export interface EmployeeScheduleSummary {
   expectedMinutes: number;
   actualMinutes: number;
@@ -437,6 +503,9 @@ export interface EmployeeScheduleSummary {
   pendingAbsence: ScheduleAlert[];
   pendingOvertime: ScheduleAlert[];
   overtimeLimitBreaches: ScheduleAlert[];
+  approvedOvertime: ApprovedOvertimeDay[];
+  /** Dates the employee is scheduled to work, without rest days. */
+  workDates: string[];
 }
 
 export interface EmployeeScheduleDetail extends EmployeeSchedule {
@@ -462,8 +531,17 @@ export interface DepartmentCostPeriod {
       socialSecurity: number;
       healthInsurance: number;
       loan: number;
+      advance: number;
       other: number;
     };
+    employerCosts: {
+      socialInsurance: number;
+      healthInsurance: number;
+      indemnityAccrual: number;
+      visaAmortization: number;
+    };
+    /** Gross pay plus every employer cost. */
+    totalCostOfEmployment: number;
   };
 }
 
@@ -517,6 +595,77 @@ export class LoanPaymentUndoError extends Error {
   }
 }
 
+export class LoanRepaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LoanRepaymentError";
+  }
+}
+
+export class LoanRestructureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LoanRestructureError";
+  }
+}
+
+export class SalaryAdvanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SalaryAdvanceError";
+  }
+}
+
+export class CompensationChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CompensationChangeError";
+  }
+}
+
+export interface CreateFinalSettlementInput {
+  run: InsertPayrollRun;
+  entry: Omit<InsertPayrollEntry, "payrollRunId">;
+  settlement: Omit<InsertFinalSettlement, "payrollRunId">;
+}
+
+export interface LoanRepaymentInput {
+  loanId: string;
+  amount: number;
+  method: LoanRepaymentMethod;
+  paidDate: string;
+  reference?: string | null;
+  notes?: string | null;
+  recordedBy?: string | null;
+}
+
+export interface LoanRepaymentRecord {
+  payment: LoanPayment;
+  loan: Loan;
+  schedule: LoanAmortizationScheduleEntry[];
+}
+
+export interface LoanRestructureRecord {
+  restructure: LoanRestructure;
+  loan: Loan;
+  schedule: LoanAmortizationScheduleEntry[];
+  version: LoanScheduleVersion;
+}
+
+/** An advance the payroll run for a period still has to recover. */
+export interface PayrollSalaryAdvance {
+  id: string;
+  employeeId: string;
+  paidDate: string;
+  outstandingAmount: string;
+}
+
+export interface FinalSettlementRecord {
+  run: PayrollRun;
+  entry: PayrollEntry;
+  settlement: FinalSettlement;
+}
+
 export interface LoanReportDetail {
   loanId: string;
   employeeId: string;
@@ -543,11 +692,35 @@ export interface UndoPayrollLoanResult {
   loanPayments: LoanPayment[];
 }
 
+export interface PostPayrollLoanResult {
+  loans: Loan[];
+  loanPayments: LoanPayment[];
+}
+
 export interface UndoPayrollLoanOptions {
   tx?: TransactionClient;
   removeLoanPayments?: boolean;
 }
 
+export interface VoidPayrollRunInput {
+  /** Status the run is voided from; a run that changed status meanwhile is left alone. */
+  fromStatus: string;
+  reason: string;
+  voidedBy: string | null;
+  voidedAt: Date;
+  reversal: InsertPayrollRun;
+  entries: Array<Omit<InsertPayrollEntry, "payrollRunId">>;
+}
+
+export interface VoidPayrollRunResult {
+  run: PayrollRun;
+  reversal: PayrollRun;
+  loans: Loan[];
+  loanPayments: LoanPayment[];
+  reopenedEvents: number;
+  reopenedInstallments: number;
+}
+
 export interface EmployeeReportPeriod {
   period: string;
   payrollEntries: PayrollEntry[];
@@ -707,6 +880,23 @@ export interface IStorage {
   updateCompany(id: string, company: Partial<InsertCompany>): Promise<Company | undefined>;
   deleteCompany(id: string): Promise<boolean>;
 
+  // Company holiday methods
+  getCompanyHolidays(companyId?: string | null): Promise<CompanyHoliday[]>;
+  getCompanyHoliday(id: string): Promise<CompanyHoliday | undefined>;
+  createCompanyHoliday(holiday: InsertCompanyHoliday): Promise<CompanyHoliday>;
+  updateCompanyHoliday(
+    id: string,
+    holiday: Partial<InsertCompanyHoliday>,
+  ): Promise<CompanyHoliday | undefined>;
+  deleteCompanyHoliday(id: string): Promise<boolean>;
+  getGlAccountMappings(companyId?: string | null): Promise<GlAccountMapping[]>;
+  createGlAccountMapping(mapping: InsertGlAccountMapping): Promise<GlAccountMapping>;
+  updateGlAccountMapping(
+    id: string,
+    mapping: Partial<InsertGlAccountMapping>,
+  ): Promise<GlAccountMapping | undefined>;
+  deleteGlAccountMapping(id: string): Promise<boolean>;
+
   // Allowance type methods
   getAllowanceTypes(): Promise<AllowanceType[]>;
   createAllowanceType(type: InsertAllowanceType): Promise<AllowanceType>;
@@ -749,7 +939,10 @@ export interface IStorage {
     id: string,
     employee: Partial<Omit<InsertEmployee, "employeeCode">>
   ): Promise<Employee | undefined>;
-  terminateEmployee(id: string): Promise<Employee | undefined>;
+  terminateEmployee(
+    id: string,
+    details?: { terminationDate?: string; terminationReason?: string },
+  ): Promise<Employee | undefined>;
   deleteEmployee(id: string): Promise<Employee | undefined>;
 
   // Employee custom field methods
@@ -794,15 +987,92 @@ export interface IStorage {
   ): Promise<EmployeeWorkflowStep | undefined>;
 
   // Payroll methods
-  getPayrollRuns(): Promise<PayrollRunWithEntries[]>;
+  getPayrollRuns(filters?: { companyId?: string }): Promise<PayrollRunWithEntries[]>;
   getPayrollRun(id: string): Promise<PayrollRunWithEntries | undefined>;
+  getPreviousPayrollRun(run: PayrollRun): Promise<PayrollRunWithEntries | undefined>;
   createPayrollRun(payrollRun: InsertPayrollRun): Promise<PayrollRun>;
   updatePayrollRun(id: string, payrollRun: Partial<InsertPayrollRun>): Promise<PayrollRun | undefined>;
+  transitionPayrollRun(
+    id: string,
+    fromStatus: string,
+    changes: Partial<InsertPayrollRun>,
+    tx?: TransactionClient,
+  ): Promise<PayrollRun | undefined>;
+  postPayrollRunLoanDeductions(payrollRunId: string, tx?: TransactionClient): Promise<PostPayrollLoanResult>;
   undoPayrollRunLoanDeductions(
     payrollRunId: string,
     options?: UndoPayrollLoanOptions,
   ): Promise<UndoPayrollLoanResult | undefined>;
   deletePayrollRun(id: string): Promise<boolean>;
+  voidPayrollRun(id: string, input: VoidPayrollRunInput): Promise<VoidPayrollRunResult | undefined>;
+  markPayrollRunEventsProcessed(
+    payrollRunId: string,
+    eventIds: string[],
+    tx?: TransactionClient,
+  ): Promise<number>;
+  reopenPayrollRunEvents(payrollRunId: string, tx?: TransactionClient): Promise<number>;
+  getRetroPayrollSources(
+    before: Date,
+    since: Date,
+  ): Promise<Array<PayrollRun & { entries: PayrollEntry[] }>>;
+  getAppliedRetroAdjustments(excludePayrollRunId?: string): Promise<PayrollRetroAdjustment[]>;
+  getDeductionCarryForwards(
+    before: string,
+    excludePayrollRunId?: string,
+  ): Promise<Record<string, PayrollDeductionCarryForward[]>>;
+  getLatestPayrollEndDateForEmployee(employeeId: string): Promise<string | undefined>;
+  getPayrollExportFiles(payrollRunId: string): Promise<PayrollExportFile[]>;
+  getPayrollExportFile(payrollRunId: string, id: string): Promise<PayrollExportFile | undefined>;
+  savePayrollExportFiles(
+    payrollRunId: string,
+    files: BuiltPayrollExport[],
+    createdBy?: string | null,
+  ): Promise<PayrollExportArtifact[] | undefined>;
+
+  // Final settlement methods
+  createFinalSettlement(input: CreateFinalSettlementInput): Promise<FinalSettlementRecord>;
+  getFinalSettlements(employeeId: string): Promise<FinalSettlement[]>;
+  getActiveFinalSettlement(employeeId: string): Promise<FinalSettlement | undefined>;
+  getFinalSettlement(id: string): Promise<FinalSettlement | undefined>;
+
+  // Compensation history methods
+  getCompensationHistory(employeeId: string): Promise<CompensationChange[]>;
+  getCompensationChanges(endDate: Date): Promise<CompensationChange[]>;
+  createCompensationChange(
+    change: Omit<InsertCompensationChange, "changeType" | "previousSalary" | "previousAdditions">,
+  ): Promise<CompensationChange | undefined>;
+  applyDueCompensationChanges(asOf?: string): Promise<number>;
+
+  // Pay component methods
+  getEmployeePayComponents(employeeId?: string): Promise<EmployeePayComponent[]>;
+  createEmployeePayComponent(
+    employeeId: string,
+    component: InsertEmployeePayComponent,
+  ): Promise<EmployeePayComponent>;
+  updateEmployeePayComponent(
+    employeeId: string,
+    id: string,
+    component: Partial<InsertEmployeePayComponent>,
+  ): Promise<EmployeePayComponent | undefined>;
+  deleteEmployeePayComponent(employeeId: string, id: string): Promise<boolean>;
+
+  // Payslip delivery methods
+  getPayslipDeliveries(payrollRunId: string): Promise<PayslipDelivery[]>;
+  recordPayslipDelivery(delivery: InsertPayslipDelivery): Promise<PayslipDelivery>;
+
+  // Social insurance rate methods
+  getSocialInsuranceRates(): Promise<SocialInsuranceRate[]>;
+  createSocialInsuranceRate(rate: InsertSocialInsuranceRate): Promise<SocialInsuranceRate>;
+  updateSocialInsuranceRate(
+    id: string,
+    rate: Partial<InsertSocialInsuranceRate>,
+  ): Promise<SocialInsuranceRate | undefined>;
+  deleteSocialInsuranceRate(id: string): Promise<boolean>;
+  getSocialInsuranceContributions(
+    startDate: string,
+    endDate: string,
+    companyId?: string,
+  ): Promise<SocialInsuranceReportSource[]>;
 
   // Payroll entry methods
   getPayrollEntries(payrollRunId: string): Promise<PayrollEntry[]>;
@@ -916,8 +1186,49 @@ export interface IStorage {
     options?: { payrollRunId?: string; paidAt?: string; notes?: string; tx?: TransactionClient },
   ): Promise<void>;
   getLoanStatement(loanId: string): Promise<LoanStatement | undefined>;
+  getLoanPayment(id: string): Promise<LoanPayment | undefined>;
+  recordLoanRepayment(input: LoanRepaymentInput): Promise<LoanRepaymentRecord | undefined>;
+
+  // Loan restructure methods
+  getLoanRestructures(loanId: string): Promise<LoanRestructureWithStages[]>;
+  getLoanRestructure(id: string): Promise<LoanRestructureWithStages | undefined>;
+  createLoanRestructure(
+    restructure: InsertLoanRestructure,
+    stages: InsertLoanApprovalStage[],
+  ): Promise<LoanRestructureWithStages>;
+  rejectLoanRestructure(id: string): Promise<LoanRestructure | undefined>;
+  applyLoanRestructure(id: string, appliedBy?: string | null): Promise<LoanRestructureRecord>;
+  getLoanScheduleVersions(loanId: string): Promise<LoanScheduleVersion[]>;
+
+  // Salary advance methods
+  getSalaryAdvances(filters?: {
+    employeeId?: string;
+    status?: SalaryAdvanceStatus;
+  }): Promise<SalaryAdvanceWithEmployee[]>;
+  getSalaryAdvance(id: string): Promise<SalaryAdvance | undefined>;
+  getOutstandingSalaryAdvanceTotal(employeeId: string): Promise<number>;
+  createSalaryAdvance(advance: InsertSalaryAdvance): Promise<SalaryAdvance>;
+  cancelSalaryAdvance(id: string): Promise<SalaryAdvance | undefined>;
+  getPayrollSalaryAdvances(
+    end: string,
+    excludePayrollRunId?: string,
+  ): Promise<Record<string, PayrollSalaryAdvance[]>>;
+  recordSalaryAdvanceRecoveries(
+    payrollRunId: string,
+    recoveries: Array<{ advanceId: string; amount: number }>,
+    tx?: TransactionClient,
+  ): Promise<void>;
+  postPayrollRunSalaryAdvanceRecoveries(payrollRunId: string, tx?: TransactionClient): Promise<number>;
+  reopenPayrollRunSalaryAdvances(payrollRunId: string, tx?: TransactionClient): Promise<number>;
   getLoanReportDetails(range: { startDate: string; endDate: string }): Promise<LoanReportDetail[]>;
 
+  // Loan policy methods
+  getLoanPolicies(): Promise<LoanPolicy[]>;
+  createLoanPolicy(policy: InsertLoanPolicy): Promise<LoanPolicy>;
+  updateLoanPolicy(id: string, policy: Partial<InsertLoanPolicy>): Promise<LoanPolicy | undefined>;
+  deleteLoanPolicy(id: string): Promise<boolean>;
+  countOpenLoansForEmployee(employeeId: string, excludeLoanId?: string): Promise<number>;
+
   // Asset methods
   getAssets(): Promise<AssetWithAssignment[]>;
   getAsset(id: string): Promise<AssetWithAssignment | undefined>;
@@ -991,10 +1302,10 @@ export interface IStorage {
     range: { startDate: string; endDate: string; groupBy: "month" | "year" }
   ): Promise<EmployeeReportPeriod[]>;
   getCompanyPayrollSummary(
-    range: { startDate: string; endDate: string; groupBy: "month" | "year" }
+    range: { startDate: string; endDate: string; groupBy: "month" | "year"; companyId?: string }
   ): Promise<PayrollSummaryPeriod[]>;
   getCompanyPayrollByDepartment(
-    range: { startDate: string; endDate: string; groupBy: "month" | "year" }
+    range: { startDate: string; endDate: string; groupBy: "month" | "year"; companyId?: string }
   ): Promise<PayrollDepartmentSummaryRow[]>;
   getDepartmentCostAnalytics(
     range: {
@@ -1002,6 +1313,7 @@ export interface IStorage {
       endDate: string;
       groupBy: "month" | "year";
       departmentIds?: string[];
+      companyId?: string;
     }
   ): Promise<DepartmentCostPeriod[]>;
   getDepartmentOvertimeMetrics(
@@ -1923,7 +2235,7 @@ export class DatabaseStorage implements IStorage {
 
       loanId: payment.loanId,
 
-      payrollRunId: payment.payrollRunId,
+      payrollRunId: payment.payrollRunId ?? null,
 
       employeeId: payment.employeeId,
 
@@ -1933,6 +2245,16 @@ export class DatabaseStorage implements IStorage {
 
       source: payment.source ?? "payroll",
 
+      receiptNumber: payment.receiptNumber ?? undefined,
+
+      balanceAfter: payment.balanceAfter ?? undefined,
+
+      reference: payment.reference ?? undefined,
+
+      notes: payment.notes ?? undefined,
+
+      recordedBy: payment.recordedBy ?? undefined,
+
     };
 
   }
@@ -2509,6 +2831,75 @@ export class DatabaseStorage implements IStorage {
 
   }
 
+  /**
+   * Holidays of a company together with those shared by every company; all
+   * holidays when no company is given.
+   */
+  async getCompanyHolidays(companyId?: string | null): Promise<CompanyHoliday[]> {
+    const query = db.select().from(companyHolidays);
+    const scoped = companyId
+      ? query.where(or(eq(companyHolidays.companyId, companyId), isNull(companyHolidays.companyId)))
+      : query;
+    return await scoped.orderBy(asc(companyHolidays.date), asc(companyHolidays.name));
+  }
+
+  async getCompanyHoliday(id: string): Promise<CompanyHoliday | undefined> {
+    const [holiday] = await db.select().from(companyHolidays).where(eq(companyHolidays.id, id));
+    return holiday || undefined;
+  }
+
+  async createCompanyHoliday(holiday: InsertCompanyHoliday): Promise<CompanyHoliday> {
+    const [created] = await db.insert(companyHolidays).values(holiday).returning();
+    return created;
+  }
+
+  async updateCompanyHoliday(
+    id: string,
+    holiday: Partial<InsertCompanyHoliday>,
+  ): Promise<CompanyHoliday | undefined> {
+    const [updated] = await db
+      .update(companyHolidays)
+      .set({ ...holiday, updatedAt: new Date() })
+      .where(eq(companyHolidays.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCompanyHoliday(id: string): Promise<boolean> {
+    const result = await db.delete(companyHolidays).where(eq(companyHolidays.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getGlAccountMappings(companyId?: string | null): Promise<GlAccountMapping[]> {
+    const query = db.select().from(glAccountMappings);
+    const scoped = companyId
+      ? query.where(or(eq(glAccountMappings.companyId, companyId), isNull(glAccountMappings.companyId)))
+      : query;
+    return await scoped.orderBy(asc(glAccountMappings.component), asc(glAccountMappings.accountCode));
+  }
+
+  async createGlAccountMapping(mapping: InsertGlAccountMapping): Promise<GlAccountMapping> {
+    const [created] = await db.insert(glAccountMappings).values(mapping).returning();
+    return created;
+  }
+
+  async updateGlAccountMapping(
+    id: string,
+    mapping: Partial<InsertGlAccountMapping>,
+  ): Promise<GlAccountMapping | undefined> {
+    const [updated] = await db
+      .update(glAccountMappings)
+      .set({ ...mapping, updatedAt: new Date() })
+      .where(eq(glAccountMappings.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteGlAccountMapping(id: string): Promise<boolean> {
+    const result = await db.delete(glAccountMappings).where(eq(glAccountMappings.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
 
 
   async getAllowanceTypes(): Promise<AllowanceType[]> {
@@ -2854,24 +3245,95 @@ export class DatabaseStorage implements IStorage {
 
 
 
-    const [updated] = await db
+    if (updateData.salary === undefined && updateData.additions === undefined) {
 
-      .update(employees)
+      const [updated] = await db
 
-      .set(updateData)
+        .update(employees)
 
-      .where(eq(employees.id, id))
+        .set(updateData)
 
-      .returning();
+        .where(eq(employees.id, id))
 
-    return updated || undefined;
+        .returning();
+
+      return updated || undefined;
+
+  }
+
+
+
+    // Salary edits on the employee record are kept in the compensation history
+
+    // so the previous amount is not lost.
+
+    return await db.transaction(async tx => {
+
+      const [existing] = await tx
+
+        .select({ salary: employees.salary, additions: employees.additions })
+
+        .from(employees)
+
+        .where(eq(employees.id, id));
+
+      const [updated] = await tx
+
+        .update(employees)
+
+        .set(updateData)
+
+        .where(eq(employees.id, id))
+
+        .returning();
+
+      if (!existing || !updated) {
+
+        return updated || undefined;
+
+      }
+
+      const salaryChanged = Number(existing.salary) !== Number(updated.salary);
+
+      const additionsChanged = Number(existing.additions ?? 0) !== Number(updated.additions ?? 0);
+
+      if (salaryChanged || additionsChanged) {
+
+        await tx.insert(compensationChanges).values({
+
+          employeeId: id,
+
+          changeType: resolveCompensationChangeType(existing.salary, updated.salary),
+
+          previousSalary: existing.salary,
+
+          salary: updated.salary,
+
+          previousAdditions: existing.additions,
+
+          additions: additionsChanged ? updated.additions : null,
+
+          effectiveDate: new Date().toISOString().split("T")[0],
+
+          reason: "Updated on the employee record",
+
+        });
+
+      }
+
+      return updated;
+
+    });
 
   }
 
-  async terminateEmployee(id: string): Promise<Employee | undefined> {
+  async terminateEmployee(
+    id: string,
+    details: { terminationDate?: string; terminationReason?: string } = {},
+  ): Promise<Employee | undefined> {
     const [updated] = await db
       .update(employees)
-      .set({ status: "terminated" })
+      .set({ status: "terminated", ...details })
       .where(eq(employees.id, id))
       .returning();
     return updated || undefined;
@@ -3382,8 +3844,14 @@ export class DatabaseStorage implements IStorage {
 
   // Payroll methods
 
-  async getPayrollRuns(): Promise<PayrollRunWithEntries[]> {
-    const runs = await db.select().from(payrollRuns).orderBy(desc(payrollRuns.createdAt));
+  async getPayrollRuns(filters: { companyId?: string } = {}): Promise<PayrollRunWithEntries[]> {
+    const runs = filters.companyId
+      ? await db
+          .select()
+          .from(payrollRuns)
+          .where(eq(payrollRuns.companyId, filters.companyId))
+          .orderBy(desc(payrollRuns.createdAt))
+      : await db.select().from(payrollRuns).orderBy(desc(payrollRuns.createdAt));
     const enriched = await Promise.all(runs.map(run => this.hydratePayrollRunWithEntries(run)));
     return enriched;
   }
@@ -3404,6 +3872,46 @@ export class DatabaseStorage implements IStorage {
 
 
 
+  /** Latest regular run of the same calendar that started before the given run. */
+  async getPreviousPayrollRun(run: PayrollRun): Promise<PayrollRunWithEntries | undefined> {
+    const [previous] = await db
+      .select()
+      .from(payrollRuns)
+      .where(
+        and(
+          eq(payrollRuns.runType, "regular"),
+          notInArray(payrollRuns.status, ["cancelled", "voided"]),
+          ne(payrollRuns.id, run.id),
+          lt(payrollRuns.startDate, run.startDate),
+          run.calendarId ? eq(payrollRuns.calendarId, run.calendarId) : isNull(payrollRuns.calendarId),
+          run.companyId
+            ? or(eq(payrollRuns.companyId, run.companyId), isNull(payrollRuns.companyId))
+            : undefined,
+        ),
+      )
+      .orderBy(desc(payrollRuns.startDate))
+      .limit(1);
+    if (!previous) return undefined;
+    return this.hydratePayrollRunWithEntries(previous);
+  }
+
+  /**
+   * Matches payroll entries of a company. Entries of runs created before runs
+   * recorded their company count towards the employee's company.
+   */
+  private payrollCompanyCondition(companyId: string): SQL {
+    return or(
+      eq(payrollRuns.companyId, companyId),
+      and(
+        isNull(payrollRuns.companyId),
+        inArray(
+          payrollEntries.employeeId,
+          db.select({ id: employees.id }).from(employees).where(eq(employees.companyId, companyId)),
+        ),
+      ),
+    )!;
+  }
+
   private async hydratePayrollRunWithEntries(run: PayrollRun): Promise<PayrollRunWithEntries> {
 
     const entries = await db.select({
@@ -3436,6 +3944,8 @@ export class DatabaseStorage implements IStorage {
 
       loanDeduction: payrollEntries.loanDeduction,
 
+      advanceDeduction: payrollEntries.advanceDeduction,
+
       otherDeductions: payrollEntries.otherDeductions,
 
       netPay: payrollEntries.netPay,
@@ -3444,6 +3954,21 @@ export class DatabaseStorage implements IStorage {
 
       allowances: payrollEntries.allowances,
 
+      socialInsuranceBreakdown: payrollEntries.socialInsuranceBreakdown,
+
+      overtimeAmount: payrollEntries.overtimeAmount,
+
+      overtimeLines: payrollEntries.overtimeLines,
+      calculationTrace: payrollEntries.calculationTrace,
+      payComponents: payrollEntries.payComponents,
+      deductionCarryForward: payrollEntries.deductionCarryForward,
+      loanRecoveries: payrollEntries.loanRecoveries,
+      advanceRecoveries: payrollEntries.advanceRecoveries,
+      employerSocialInsurance: payrollEntries.employerSocialInsurance,
+      employerHealthInsurance: payrollEntries.employerHealthInsurance,
+      indemnityAccrual: payrollEntries.indemnityAccrual,
+      visaCostAmortization: payrollEntries.visaCostAmortization,
+
       employee: {
 
         id: employees.id,
@@ -3720,6 +4245,21 @@ export class DatabaseStorage implements IStorage {
 
   }
 
+  async transitionPayrollRun(
+    id: string,
+    fromStatus: string,
+    changes: Partial<InsertPayrollRun>,
+    tx: TransactionClient | typeof db = db,
+  ): Promise<PayrollRun | undefined> {
+    // Guard on the previous status so concurrent reviewers cannot both act on a run.
+    const [updated] = await tx
+      .update(payrollRuns)
+      .set(changes)
+      .where(and(eq(payrollRuns.id, id), eq(payrollRuns.status, fromStatus)))
+      .returning();
+    return updated || undefined;
+  }
+
   async undoPayrollRunLoanDeductions(
     payrollRunId: string,
     options: UndoPayrollLoanOptions = {},
@@ -4052,11 +4592,172 @@ export class DatabaseStorage implements IStorage {
 
 
 
+  /**
+   * Posts the loan deductions of an approved run: loan payments, the
+   * instalments they settle and the new balances. Instalments due in the
+   * period are paused for employees on leave that pauses loans and resumed
+   * otherwise. A final settlement recovers whatever its entry planned from
+   * each loan and closes the loans it settles. Runs that already have loan
+   * payments are left alone.
+   */
+  async postPayrollRunLoanDeductions(
+    payrollRunId: string,
+    tx?: TransactionClient,
+  ): Promise<PostPayrollLoanResult> {
+    if (!tx) {
+      return await db.transaction(client => this.postPayrollRunLoanDeductions(payrollRunId, client));
+    }
+
+    const nothingPosted: PostPayrollLoanResult = { loans: [], loanPayments: [] };
+    const [run] = await tx.select().from(payrollRuns).where(eq(payrollRuns.id, payrollRunId));
+    const toggles = (run?.scenarioToggles ?? {}) as Record<string, boolean>;
+    if (!run || toggles.loans === false) {
+      return nothingPosted;
+    }
+    const finalSettlement = run.runType === "final_settlement";
+    const [alreadyPosted] = await tx
+      .select({ id: loanPayments.id })
+      .from(loanPayments)
+      .where(eq(loanPayments.payrollRunId, payrollRunId))
+      .limit(1);
+    if (alreadyPosted) {
+      return nothingPosted;
+    }
+
+    const entries = await tx
+      .select({
+        employeeId: payrollEntries.employeeId,
+        loanDeduction: payrollEntries.loanDeduction,
+        loanRecoveries: payrollEntries.loanRecoveries,
+      })
+      .from(payrollEntries)
+      .where(eq(payrollEntries.payrollRunId, payrollRunId));
+    const start = new Date(run.startDate);
+    const end = new Date(run.endDate);
+    const [periodLoans, vacations, carriedDeductions] = await Promise.all([
+      // A settlement recovers every outstanding loan, not just those due.
+      finalSettlement ? this.getLoans() : this.getLoans(start, end),
+      this.getVacationRequests(start, end),
+      // Carried deductions are recovered by regular runs only.
+      run.runType === "regular"
+        ? this.getDeductionCarryForwards(run.startDate, run.id)
+        : Promise.resolve({} as Record<string, PayrollDeductionCarryForward[]>),
+    ]);
+
+    const posted: PostPayrollLoanResult = { loans: [], loanPayments: [] };
+    for (const entry of entries) {
+      const employeeLoans = periodLoans
+        .filter(loan => loan.employeeId === entry.employeeId && isRepayableLoan(loan))
+        .sort((a, b) =>
+          a.startDate.localeCompare(b.startDate) ||
+          (a.createdAt?.getTime() ?? Infinity) - (b.createdAt?.getTime() ?? Infinity) ||
+          a.id.localeCompare(b.id),
+        );
+      const pauseLoans =
+        !finalSettlement &&
+        shouldPauseLoanForLeave({
+          vacations: vacations.filter(vacation => vacation.employeeId === entry.employeeId),
+          start,
+          end,
+        });
+      let remainingDeduction = parseMoney(entry.loanDeduction);
+
+      for (const loan of employeeLoans) {
+        const dueEntries = loan.scheduleDueThisPeriod ?? [];
+        const toggled = dueEntries.filter(item => item.status === (pauseLoans ? "pending" : "paused"));
+        await this.updateLoanScheduleStatuses(
+          loan.id,
+          toggled.map(item => item.installmentNumber),
+          pauseLoans ? "paused" : "pending",
+          { tx },
+        );
+
+        const remainingAmount = parseMoney(loan.remainingAmount);
+        if (!(remainingDeduction > 0) || !(remainingAmount > 0)) continue;
+        // Entries saved before the split by loan was kept fill loans in order.
+        const planned = entry.loanRecoveries ? entry.loanRecoveries[loan.id] ?? 0 : remainingDeduction;
+        const applied = Number(Math.min(remainingAmount, planned, remainingDeduction).toFixed(2));
+        if (!(applied > 0)) continue;
+        remainingDeduction = Number(Math.max(0, remainingDeduction - applied).toFixed(2));
+
+        const [payment] = await tx
+          .insert(loanPayments)
+          .values({
+            loanId: loan.id,
+            payrollRunId,
+            employeeId: entry.employeeId,
+            amount: applied.toFixed(2),
+            appliedDate: run.endDate,
+            source: finalSettlement ? "final_settlement" : "payroll",
+          })
+          .returning();
+        posted.loanPayments.push(payment);
+
+        // Installments held back by the deduction cap stayed pending; they
+        // are settled first once their carried amount is recovered.
+        const carried = (carriedDeductions[entry.employeeId] ?? [])
+          .filter(line => line.category === "loan" && line.sourceId === loan.id)
+          .reduce((total, line) => total + line.amount, 0);
+        const arrears = carried > 0
+          ? (loan.amortizationSchedule ?? [])
+              .filter(item => item.status === "pending" && item.dueDate < run.startDate)
+              .sort((a, b) => a.installmentNumber - b.installmentNumber)
+          : [];
+        const dueThisPeriod = pauseLoans
+          ? []
+          : dueEntries.filter(item => item.status === "pending" || item.status === "paused");
+        let uncovered = applied;
+        const paidInstallments: number[] = [];
+        for (const item of [...arrears, ...dueThisPeriod]) {
+          const due = parseMoney(item.paymentAmount);
+          if (uncovered < due - 0.05) break;
+          uncovered -= due;
+          paidInstallments.push(item.installmentNumber);
+        }
+        await this.updateLoanScheduleStatuses(loan.id, paidInstallments, "paid", {
+          payrollRunId,
+          paidAt: run.endDate,
+          tx,
+        });
+
+        const updatedRemaining = Number(Math.max(0, remainingAmount - applied).toFixed(2));
+        const [updatedLoan] = await tx
+          .update(loans)
+          .set({
+            remainingAmount: updatedRemaining.toFixed(2),
+            status: updatedRemaining <= 0.01 ? "completed" : loan.status,
+          })
+          .where(eq(loans.id, loan.id))
+          .returning();
+        posted.loans.push(updatedLoan);
+
+        if (finalSettlement && updatedRemaining <= 0.01) {
+          await tx
+            .update(loanAmortizationSchedules)
+            .set({
+              status: "paid",
+              payrollRunId,
+              paidAt: run.endDate,
+              notes: "Recovered in final settlement",
+              updatedAt: new Date(),
+            })
+            .where(
+              and(
+                eq(loanAmortizationSchedules.loanId, loan.id),
+                inArray(loanAmortizationSchedules.status, ["pending", "paused"]),
+              ),
+            );
+        }
+      }
+    }
+    return posted;
+  }
+
   async deletePayrollRun(id: string): Promise<boolean> {
     const payrollRunNotFound = Symbol("PAYROLL_RUN_NOT_FOUND");
 
     try {
-      return await db.transaction(async tx => {
+      const storageKeys = await db.transaction(async tx => {
         const undoResult = await this.undoPayrollRunLoanDeductions(id, {
           tx,
           removeLoanPayments: true,
@@ -4066,18 +4767,35 @@ export class DatabaseStorage implements IStorage {
           throw payrollRunNotFound;
         }
 
+        await this.reopenPayrollRunEvents(id, tx);
+        await this.reopenPayrollRunSalaryAdvances(id, tx);
+
         await tx
           .delete(payrollEntries)
           .where(eq(payrollEntries.payrollRunId, id));
 
+        const exportFiles = await tx
+          .delete(payrollExportFiles)
+          .where(eq(payrollExportFiles.payrollRunId, id))
+          .returning({ storageKey: payrollExportFiles.storageKey });
+
         const result = await tx.delete(payrollRuns).where(eq(payrollRuns.id, id));
 
         if ((result.rowCount ?? 0) === 0) {
           throw payrollRunNotFound;
         }
 
-        return true;
+        return exportFiles.map(file => file.storageKey);
       });
+
+      // Export files go once the run is gone; a leftover blob is harmless.
+      const blobStore = getBlobStore();
+      await Promise.all(
+        storageKeys.map(key =>
+          blobStore.delete(key).catch(error => console.error("Failed to delete export file", key, error)),
+        ),
+      );
+      return true;
     } catch (error) {
       if (error === payrollRunNotFound) {
         return false;
@@ -4089,31 +4807,699 @@ export class DatabaseStorage implements IStorage {
 
 
 
-  // Payroll entry methods
+  /**
+   * Voids a finalised run by recording a reversal run that negates its
+   * entries. Loan balances and paid instalments are restored, with
+   * offsetting loan payments on the reversal run so both runs stay in the
+   * loan history, and one-time events and salary advances the run
+   * consumed are reopened.
+   */
+  async voidPayrollRun(
+    id: string,
+    input: VoidPayrollRunInput,
+  ): Promise<VoidPayrollRunResult | undefined> {
+    const statusChanged = Symbol("PAYROLL_RUN_STATUS_CHANGED");
 
-  async getPayrollEntries(payrollRunId: string): Promise<PayrollEntry[]> {
-    const rows = await db
-      .select()
-      .from(payrollEntries)
-      .where(eq(payrollEntries.payrollRunId, payrollRunId));
+    try {
+      return await db.transaction(async tx => {
+        const [run] = await tx
+          .update(payrollRuns)
+          .set({
+            status: "voided",
+            voidReason: input.reason,
+            voidedBy: input.voidedBy,
+            voidedAt: input.voidedAt,
+          })
+          .where(and(eq(payrollRuns.id, id), eq(payrollRuns.status, input.fromStatus)))
+          .returning();
+        if (!run) {
+          throw statusChanged;
+        }
 
-    return rows.map(entry => this.mapPayrollEntry(entry));
-  }
+        const [reversal] = await tx
+          .insert(payrollRuns)
+          .values({ ...input.reversal, runType: "reversal", reversalOfRunId: id })
+          .returning();
+        if (input.entries.length > 0) {
+          await tx
+            .insert(payrollEntries)
+            .values(input.entries.map(entry => ({ ...entry, payrollRunId: reversal.id })));
+        }
 
-  async createPayrollEntry(payrollEntry: InsertPayrollEntry): Promise<PayrollEntry> {
-    const [newPayrollEntry] = await db
-      .insert(payrollEntries)
-      .values({
-        ...payrollEntry,
-        taxDeduction: payrollEntry.taxDeduction || "0",
-        socialSecurityDeduction: payrollEntry.socialSecurityDeduction || "0",
-        healthInsuranceDeduction: payrollEntry.healthInsuranceDeduction || "0",
-        otherDeductions: payrollEntry.otherDeductions || "0",
-      })
-      .returning();
+        const undo = await this.undoPayrollRunLoanDeductions(id, { tx, removeLoanPayments: false });
+        const appliedDate = input.voidedAt.toISOString().split("T")[0];
+        const offsets = (undo?.loanPayments ?? []).map(payment => ({
+          loanId: payment.loanId,
+          payrollRunId: reversal.id,
+          employeeId: payment.employeeId,
+          amount: negateAmount(payment.amount),
+          appliedDate,
+          source: "payroll_reversal",
+        }));
+        const reversedPayments =
+          offsets.length > 0 ? await tx.insert(loanPayments).values(offsets).returning() : [];
+
+        const reopenedInstallments = await tx
+          .update(loanAmortizationSchedules)
+          .set({
+            status: "pending",
+            payrollRunId: null,
+            paidAt: null,
+            notes: `Reopened when payroll run ${run.period} was voided`,
+            updatedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(loanAmortizationSchedules.payrollRunId, id),
+              eq(loanAmortizationSchedules.status, "paid"),
+            ),
+          )
+          .returning({ id: loanAmortizationSchedules.id });
 
-    return this.mapPayrollEntry(newPayrollEntry);
-  }
+        const reopenedEvents = await this.reopenPayrollRunEvents(id, tx);
+        await this.reopenPayrollRunSalaryAdvances(id, tx);
+
+        return {
+          run,
+          reversal,
+          loans: undo?.loans ?? [],
+          loanPayments: reversedPayments,
+          reopenedEvents,
+          reopenedInstallments: reopenedInstallments.length,
+        };
+      });
+    } catch (error) {
+      if (error === statusChanged) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async markPayrollRunEventsProcessed(
+    payrollRunId: string,
+    eventIds: string[],
+    tx: TransactionClient | typeof db = db,
+  ): Promise<number> {
+    if (eventIds.length === 0) {
+      return 0;
+    }
+    // Only still-active events are claimed so two runs cannot pay the same event.
+    const updated = await tx
+      .update(employeeEvents)
+      .set({ status: "processed", payrollRunId })
+      .where(and(inArray(employeeEvents.id, eventIds), eq(employeeEvents.status, "active")))
+      .returning({ id: employeeEvents.id });
+    return updated.length;
+  }
+
+  async reopenPayrollRunEvents(
+    payrollRunId: string,
+    tx: TransactionClient | typeof db = db,
+  ): Promise<number> {
+    const reopened = await tx
+      .update(employeeEvents)
+      .set({ status: "active", payrollRunId: null })
+      .where(and(eq(employeeEvents.payrollRunId, payrollRunId), eq(employeeEvents.status, "processed")))
+      .returning({ id: employeeEvents.id });
+    return reopened.length;
+  }
+
+  /** Closed regular runs ending in [since, before), with their entries, for the retro engine. */
+  async getRetroPayrollSources(
+    before: Date,
+    since: Date,
+  ): Promise<Array<PayrollRun & { entries: PayrollEntry[] }>> {
+    const runs = await db
+      .select()
+      .from(payrollRuns)
+      .where(
+        and(
+          eq(payrollRuns.runType, "regular"),
+          inArray(payrollRuns.status, [...frozenPayrollRunStatuses]),
+          lt(payrollRuns.endDate, before.toISOString().split("T")[0]),
+          gte(payrollRuns.endDate, since.toISOString().split("T")[0]),
+        ),
+      )
+      .orderBy(asc(payrollRuns.startDate));
+    if (runs.length === 0) {
+      return [];
+    }
+
+    const entries = await db
+      .select()
+      .from(payrollEntries)
+      .where(inArray(payrollEntries.payrollRunId, runs.map(run => run.id)));
+    return runs.map(run => ({
+      ...run,
+      entries: entries
+        .filter(entry => entry.payrollRunId === run.id)
+        .map(entry => this.mapPayrollEntry(entry)),
+    }));
+  }
+
+  /** Retro lines already carried by runs that were not cancelled or voided. */
+  async getAppliedRetroAdjustments(excludePayrollRunId?: string): Promise<PayrollRetroAdjustment[]> {
+    const rows = await db
+      .select({ retroAdjustments: payrollEntries.retroAdjustments })
+      .from(payrollEntries)
+      .innerJoin(payrollRuns, eq(payrollEntries.payrollRunId, payrollRuns.id))
+      .where(
+        and(
+          isNotNull(payrollEntries.retroAdjustments),
+          notInArray(payrollRuns.status, ["cancelled", "voided"]),
+          excludePayrollRunId ? ne(payrollRuns.id, excludePayrollRunId) : undefined,
+        ),
+      );
+    return rows.flatMap(row => row.retroAdjustments ?? []);
+  }
+
+  /**
+   * Deductions still owed per employee: the carry-forward of each employee's
+   * latest regular run ending before `before`.
+   */
+  async getDeductionCarryForwards(
+    before: string,
+    excludePayrollRunId?: string,
+  ): Promise<Record<string, PayrollDeductionCarryForward[]>> {
+    const rows = await db
+      .selectDistinctOn([payrollEntries.employeeId], {
+        employeeId: payrollEntries.employeeId,
+        deductionCarryForward: payrollEntries.deductionCarryForward,
+      })
+      .from(payrollEntries)
+      .innerJoin(payrollRuns, eq(payrollEntries.payrollRunId, payrollRuns.id))
+      .where(
+        and(
+          lt(payrollRuns.endDate, before),
+          eq(payrollRuns.runType, "regular"),
+          notInArray(payrollRuns.status, ["cancelled", "voided"]),
+          excludePayrollRunId ? ne(payrollRuns.id, excludePayrollRunId) : undefined,
+        ),
+      )
+      .orderBy(payrollEntries.employeeId, desc(payrollRuns.endDate), desc(payrollRuns.createdAt));
+    return Object.fromEntries(
+      rows
+        .filter(row => row.deductionCarryForward && row.deductionCarryForward.length > 0)
+        .map(row => [row.employeeId, row.deductionCarryForward ?? []]),
+    );
+  }
+
+  async getLatestPayrollEndDateForEmployee(employeeId: string): Promise<string | undefined> {
+    const [row] = await db
+      .select({ endDate: payrollRuns.endDate })
+      .from(payrollEntries)
+      .innerJoin(payrollRuns, eq(payrollEntries.payrollRunId, payrollRuns.id))
+      .where(
+        and(
+          eq(payrollEntries.employeeId, employeeId),
+          notInArray(payrollRuns.status, ["cancelled", "voided"]),
+          ne(payrollRuns.runType, "reversal"),
+        ),
+      )
+      .orderBy(desc(payrollRuns.endDate))
+      .limit(1);
+    return row?.endDate ?? undefined;
+  }
+
+  async getPayrollExportFiles(payrollRunId: string): Promise<PayrollExportFile[]> {
+    return db
+      .select()
+      .from(payrollExportFiles)
+      .where(eq(payrollExportFiles.payrollRunId, payrollRunId))
+      .orderBy(asc(payrollExportFiles.artifactId), desc(payrollExportFiles.version));
+  }
+
+  async getPayrollExportFile(payrollRunId: string, id: string): Promise<PayrollExportFile | undefined> {
+    const [file] = await db
+      .select()
+      .from(payrollExportFiles)
+      .where(and(eq(payrollExportFiles.payrollRunId, payrollRunId), eq(payrollExportFiles.id, id)));
+    return file;
+  }
+
+  /**
+   * Writes built export files to the blob store and records each as the
+   * next version of its artifact, then points the run's export list at the
+   * new versions. Earlier versions stay in payroll_export_files.
+   */
+  async savePayrollExportFiles(
+    payrollRunId: string,
+    files: BuiltPayrollExport[],
+    createdBy: string | null = null,
+  ): Promise<PayrollExportArtifact[] | undefined> {
+    const [run] = await db
+      .select({ exportArtifacts: payrollRuns.exportArtifacts })
+      .from(payrollRuns)
+      .where(eq(payrollRuns.id, payrollRunId));
+    if (!run) return undefined;
+
+    const blobStore = getBlobStore();
+    const stored: Array<{ file: BuiltPayrollExport; storageKey: string; checksum: string }> = [];
+    try {
+      for (const file of files) {
+        const storageKey = `payroll-exports/${payrollRunId}/${randomUUID()}`;
+        await blobStore.put(storageKey, file.content);
+        stored.push({
+          file,
+          storageKey,
+          checksum: createHash("sha256").update(file.content).digest("hex"),
+        });
+      }
+
+      return await db.transaction(async tx => {
+        const artifacts = new Map(
+          (run.exportArtifacts ?? []).map(artifact => [artifact.id, artifact] as const),
+        );
+        for (const { file, storageKey, checksum } of stored) {
+          const { content, ...metadata } = file;
+          const [latest] = await tx
+            .select({ version: sql<number>`coalesce(max(${payrollExportFiles.version}), 0)` })
+            .from(payrollExportFiles)
+            .where(
+              and(
+                eq(payrollExportFiles.payrollRunId, payrollRunId),
+                eq(payrollExportFiles.artifactId, file.id),
+              ),
+            );
+          const [record] = await tx
+            .insert(payrollExportFiles)
+            .values({
+              payrollRunId,
+              artifactId: file.id,
+              version: Number(latest?.version ?? 0) + 1,
+              type: file.type,
+              format: file.format,
+              filename: file.filename,
+              mimeType: file.mimeType,
+              storageKey,
+              sizeBytes: content.length,
+              checksum,
+              scenarioKey: file.scenarioKey ?? null,
+              description: file.description ?? null,
+              createdBy,
+            })
+            .returning();
+          artifacts.set(file.id, {
+            ...metadata,
+            fileId: record.id,
+            version: record.version,
+            sizeBytes: record.sizeBytes,
+            checksum: record.checksum,
+          });
+        }
+        const exportArtifacts = Array.from(artifacts.values());
+        await tx
+          .update(payrollRuns)
+          .set({ exportArtifacts })
+          .where(eq(payrollRuns.id, payrollRunId));
+        return exportArtifacts;
+      });
+    } catch (error) {
+      await Promise.all(
+        stored.map(({ storageKey }) => blobStore.delete(storageKey).catch(() => undefined)),
+      );
+      throw error;
+    }
+  }
+
+  // Final settlement methods
+
+  async createFinalSettlement(input: CreateFinalSettlementInput): Promise<FinalSettlementRecord> {
+    return await db.transaction(async tx => {
+      const [run] = await tx
+        .insert(payrollRuns)
+        .values({ ...input.run, runType: "final_settlement" })
+        .returning();
+
+      const [entry] = await tx
+        .insert(payrollEntries)
+        .values({ ...input.entry, payrollRunId: run.id })
+        .returning();
+
+      const [settlement] = await tx
+        .insert(finalSettlements)
+        .values({ ...input.settlement, payrollRunId: run.id })
+        .returning();
+
+      await tx
+        .update(employees)
+        .set({
+          status: "terminated",
+          terminationDate: input.settlement.terminationDate,
+          terminationReason: input.settlement.terminationReason,
+        })
+        .where(eq(employees.id, input.settlement.employeeId));
+
+      return { run, entry: this.mapPayrollEntry(entry), settlement };
+    });
+  }
+
+  async getFinalSettlements(employeeId: string): Promise<FinalSettlement[]> {
+    return await db
+      .select()
+      .from(finalSettlements)
+      .where(eq(finalSettlements.employeeId, employeeId))
+      .orderBy(desc(finalSettlements.createdAt));
+  }
+
+  /** The employee's settlement whose run was not cancelled, voided or deleted. */
+  async getActiveFinalSettlement(employeeId: string): Promise<FinalSettlement | undefined> {
+    const [row] = await db
+      .select({ settlement: finalSettlements })
+      .from(finalSettlements)
+      .innerJoin(payrollRuns, eq(finalSettlements.payrollRunId, payrollRuns.id))
+      .where(
+        and(
+          eq(finalSettlements.employeeId, employeeId),
+          notInArray(payrollRuns.status, ["cancelled", "voided"]),
+        ),
+      )
+      .orderBy(desc(finalSettlements.createdAt))
+      .limit(1);
+    return row?.settlement;
+  }
+
+  async getFinalSettlement(id: string): Promise<FinalSettlement | undefined> {
+    const [settlement] = await db
+      .select()
+      .from(finalSettlements)
+      .where(eq(finalSettlements.id, id));
+    return settlement || undefined;
+  }
+
+  // Pay component methods
+
+  async getEmployeePayComponents(employeeId?: string): Promise<EmployeePayComponent[]> {
+    const query = db.select().from(employeePayComponents);
+    const scoped = employeeId ? query.where(eq(employeePayComponents.employeeId, employeeId)) : query;
+    return await scoped.orderBy(asc(employeePayComponents.employeeId), asc(employeePayComponents.createdAt));
+  }
+
+  async createEmployeePayComponent(
+    employeeId: string,
+    component: InsertEmployeePayComponent,
+  ): Promise<EmployeePayComponent> {
+    const [created] = await db
+      .insert(employeePayComponents)
+      .values({ ...component, employeeId })
+      .returning();
+    return created;
+  }
+
+  async updateEmployeePayComponent(
+    employeeId: string,
+    id: string,
+    component: Partial<InsertEmployeePayComponent>,
+  ): Promise<EmployeePayComponent | undefined> {
+    const [updated] = await db
+      .update(employeePayComponents)
+      .set({ ...component, updatedAt: new Date() })
+      .where(and(eq(employeePayComponents.id, id), eq(employeePayComponents.employeeId, employeeId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteEmployeePayComponent(employeeId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(employeePayComponents)
+      .where(and(eq(employeePayComponents.id, id), eq(employeePayComponents.employeeId, employeeId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Compensation history methods
+
+  async getCompensationHistory(employeeId: string): Promise<CompensationChange[]> {
+    return await db
+      .select()
+      .from(compensationChanges)
+      .where(eq(compensationChanges.employeeId, employeeId))
+      .orderBy(asc(compensationChanges.effectiveDate), asc(compensationChanges.createdAt));
+  }
+
+  async getCompensationChanges(endDate: Date): Promise<CompensationChange[]> {
+    return await db
+      .select()
+      .from(compensationChanges)
+      .where(lte(compensationChanges.effectiveDate, endDate.toISOString().split("T")[0]))
+      .orderBy(asc(compensationChanges.effectiveDate), asc(compensationChanges.createdAt));
+  }
+
+  async createCompensationChange(
+    change: Omit<InsertCompensationChange, "changeType" | "previousSalary" | "previousAdditions">,
+  ): Promise<CompensationChange | undefined> {
+    return await db.transaction(async tx => {
+      const [employee] = await tx
+        .select({ salary: employees.salary, additions: employees.additions })
+        .from(employees)
+        .where(eq(employees.id, change.employeeId));
+      if (!employee) {
+        return undefined;
+      }
+
+      const [latest] = await tx
+        .select()
+        .from(compensationChanges)
+        .where(eq(compensationChanges.employeeId, change.employeeId))
+        .orderBy(desc(compensationChanges.effectiveDate), desc(compensationChanges.createdAt))
+        .limit(1);
+      if (latest && change.effectiveDate < latest.effectiveDate) {
+        throw new CompensationChangeError(
+          `A compensation change is already recorded from ${latest.effectiveDate}; changes cannot be backdated before it`,
+        );
+      }
+
+      // Pending future-dated changes are not on the employee record yet, so
+      // the latest history row is the authoritative previous value.
+      const previousSalary = latest?.salary ?? employee.salary;
+      const previousAdditions = latest
+        ? latest.additions ?? latest.previousAdditions
+        : employee.additions;
+
+      const [created] = await tx
+        .insert(compensationChanges)
+        .values({
+          ...change,
+          changeType: resolveCompensationChangeType(previousSalary, change.salary),
+          previousSalary,
+          previousAdditions,
+        })
+        .returning();
+
+      const today = new Date().toISOString().split("T")[0];
+      if (change.effectiveDate <= today) {
+        await tx
+          .update(employees)
+          .set({
+            salary: change.salary,
+            ...(change.additions !== undefined && change.additions !== null
+              ? { additions: change.additions }
+              : {}),
+          })
+          .where(eq(employees.id, change.employeeId));
+      }
+
+      return created;
+    });
+  }
+
+  async applyDueCompensationChanges(
+    asOf: string = new Date().toISOString().split("T")[0],
+  ): Promise<number> {
+    const due = await db
+      .select()
+      .from(compensationChanges)
+      .where(lte(compensationChanges.effectiveDate, asOf))
+      .orderBy(asc(compensationChanges.effectiveDate), asc(compensationChanges.createdAt));
+
+    const latestByEmployee = new Map<string, CompensationChange>();
+    for (const change of due) {
+      latestByEmployee.set(change.employeeId, change);
+    }
+
+    let applied = 0;
+    for (const change of Array.from(latestByEmployee.values())) {
+      const additions = change.additions ?? change.previousAdditions;
+      const result = await db
+        .update(employees)
+        .set({ salary: change.salary, ...(additions !== null ? { additions } : {}) })
+        .where(
+          and(
+            eq(employees.id, change.employeeId),
+            or(
+              ne(employees.salary, change.salary),
+              ...(additions !== null
+                ? [sql`${employees.additions} IS DISTINCT FROM ${additions}`]
+                : []),
+            ),
+          ),
+        );
+      applied += result.rowCount ?? 0;
+    }
+    return applied;
+  }
+
+  // Payslip delivery methods
+
+  async getPayslipDeliveries(payrollRunId: string): Promise<PayslipDelivery[]> {
+    return await db
+      .select()
+      .from(payslipDeliveries)
+      .where(eq(payslipDeliveries.payrollRunId, payrollRunId));
+  }
+
+  async recordPayslipDelivery(delivery: InsertPayslipDelivery): Promise<PayslipDelivery> {
+    const now = new Date();
+    const [recorded] = await db
+      .insert(payslipDeliveries)
+      .values({ ...delivery, lastAttemptAt: now })
+      .onConflictDoUpdate({
+        target: payslipDeliveries.payrollEntryId,
+        set: {
+          recipient: delivery.recipient ?? null,
+          status: delivery.status,
+          passwordProtected: delivery.passwordProtected ?? true,
+          error: delivery.error ?? null,
+          sentBy: delivery.sentBy ?? null,
+          deliveredAt: delivery.deliveredAt ?? null,
+          lastAttemptAt: now,
+          attempts: sql`${payslipDeliveries.attempts} + 1`,
+        },
+      })
+      .returning();
+    return recorded;
+  }
+
+  // Social insurance rate methods
+
+  async getSocialInsuranceRates(): Promise<SocialInsuranceRate[]> {
+    return await db
+      .select()
+      .from(socialInsuranceRates)
+      .orderBy(
+        asc(socialInsuranceRates.nationalityGroup),
+        asc(socialInsuranceRates.code),
+        desc(socialInsuranceRates.effectiveFrom),
+      );
+  }
+
+  async createSocialInsuranceRate(rate: InsertSocialInsuranceRate): Promise<SocialInsuranceRate> {
+    const [created] = await db.insert(socialInsuranceRates).values(rate).returning();
+    return created;
+  }
+
+  async updateSocialInsuranceRate(
+    id: string,
+    rate: Partial<InsertSocialInsuranceRate>,
+  ): Promise<SocialInsuranceRate | undefined> {
+    const [updated] = await db
+      .update(socialInsuranceRates)
+      .set({ ...rate, updatedAt: new Date() })
+      .where(eq(socialInsuranceRates.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSocialInsuranceRate(id: string): Promise<boolean> {
+    const result = await db.delete(socialInsuranceRates).where(eq(socialInsuranceRates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Loan policy methods
+
+  async getLoanPolicies(): Promise<LoanPolicy[]> {
+    return await db.select().from(loanPolicies).orderBy(asc(loanPolicies.name));
+  }
+
+  async createLoanPolicy(policy: InsertLoanPolicy): Promise<LoanPolicy> {
+    const [created] = await db.insert(loanPolicies).values(policy).returning();
+    return created;
+  }
+
+  async updateLoanPolicy(
+    id: string,
+    policy: Partial<InsertLoanPolicy>,
+  ): Promise<LoanPolicy | undefined> {
+    const [updated] = await db
+      .update(loanPolicies)
+      .set({ ...policy, updatedAt: new Date() })
+      .where(eq(loanPolicies.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteLoanPolicy(id: string): Promise<boolean> {
+    const result = await db.delete(loanPolicies).where(eq(loanPolicies.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countOpenLoansForEmployee(employeeId: string, excludeLoanId?: string): Promise<number> {
+    const conditions: SQL[] = [
+      eq(loans.employeeId, employeeId),
+      inArray(loans.status, ["pending", "active"]),
+    ];
+    if (excludeLoanId) {
+      conditions.push(ne(loans.id, excludeLoanId));
+    }
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(loans)
+      .where(and(...conditions));
+    return Number(row?.count ?? 0);
+  }
+
+  async getSocialInsuranceContributions(
+    startDate: string,
+    endDate: string,
+    companyId?: string,
+  ): Promise<SocialInsuranceReportSource[]> {
+    return await db
+      .select({
+        employeeId: payrollEntries.employeeId,
+        employeeCode: employees.employeeCode,
+        firstName: employees.firstName,
+        lastName: employees.lastName,
+        civilId: employees.civilId,
+        socialSecurityDeduction: payrollEntries.socialSecurityDeduction,
+        socialInsuranceBreakdown: payrollEntries.socialInsuranceBreakdown,
+      })
+      .from(payrollEntries)
+      .innerJoin(payrollRuns, eq(payrollEntries.payrollRunId, payrollRuns.id))
+      .leftJoin(employees, eq(payrollEntries.employeeId, employees.id))
+      .where(
+        and(
+          gte(payrollRuns.endDate, startDate),
+          lte(payrollRuns.endDate, endDate),
+          companyId ? this.payrollCompanyCondition(companyId) : undefined,
+        ),
+      );
+  }
+
+  // Payroll entry methods
+
+  async getPayrollEntries(payrollRunId: string): Promise<PayrollEntry[]> {
+    const rows = await db
+      .select()
+      .from(payrollEntries)
+      .where(eq(payrollEntries.payrollRunId, payrollRunId));
+
+    return rows.map(entry => this.mapPayrollEntry(entry));
+  }
+
+  async createPayrollEntry(payrollEntry: InsertPayrollEntry): Promise<PayrollEntry> {
+    const [newPayrollEntry] = await db
+      .insert(payrollEntries)
+      .values({
+        ...payrollEntry,
+        taxDeduction: payrollEntry.taxDeduction || "0",
+        socialSecurityDeduction: payrollEntry.socialSecurityDeduction || "0",
+        healthInsuranceDeduction: payrollEntry.healthInsuranceDeduction || "0",
+        otherDeductions: payrollEntry.otherDeductions || "0",
+      })
+      .returning();
+
+    return this.mapPayrollEntry(newPayrollEntry);
+  }
 
   async updatePayrollEntry(id: string, payrollEntry: Partial<InsertPayrollEntry>): Promise<PayrollEntry | undefined> {
     const [updated] = await db
@@ -4817,6 +6203,8 @@ export class DatabaseStorage implements IStorage {
 
         approvalStages: {
 
+          where: isNull(loanApprovalStages.restructureId),
+
           with: { approver: true },
 
           orderBy: asc(loanApprovalStages.stageOrder),
@@ -4913,6 +6301,8 @@ export class DatabaseStorage implements IStorage {
 
         approvalStages: {
 
+          where: isNull(loanApprovalStages.restructureId),
+
           with: { approver: true },
 
           orderBy: asc(loanApprovalStages.stageOrder),
@@ -5154,7 +6544,7 @@ export class DatabaseStorage implements IStorage {
 
     const stages = await db.query.loanApprovalStages.findMany({
 
-      where: eq(loanApprovalStages.loanId, loanId),
+      where: and(eq(loanApprovalStages.loanId, loanId), isNull(loanApprovalStages.restructureId)),
 
       with: { approver: true },
 
@@ -5194,7 +6584,9 @@ export class DatabaseStorage implements IStorage {
 
     await db.transaction(async tx => {
 
-      await tx.delete(loanApprovalStages).where(eq(loanApprovalStages.loanId, loanId));
+      await tx
+        .delete(loanApprovalStages)
+        .where(and(eq(loanApprovalStages.loanId, loanId), isNull(loanApprovalStages.restructureId)));
 
       if (normalized.length > 0) {
 
@@ -5614,7 +7006,19 @@ export class DatabaseStorage implements IStorage {
 
     let scheduledInterest = 0;
 
-    let totalPaid = 0;
+    let totalPaid = 0;
+
+    let repaidOutsidePayroll = 0;
+
+    for (const payment of payments) {
+
+      if (!payment.payrollRunId) {
+
+        repaidOutsidePayroll += parseMoney(payment.amount);
+
+      }
+
+    }
 
     for (const entry of schedule) {
 
@@ -5630,11 +7034,10 @@ export class DatabaseStorage implements IStorage {
 
     }
 
-    const outstandingBalance = schedule.length > 0
+    totalPaid += repaidOutsidePayroll;
 
-      ? parseMoney(schedule[schedule.length - 1].remainingBalance)
-
-      : parseMoney((loan as any).remainingAmount ?? loan.amount);
+    // The loan's own balance already reflects repayments made outside payroll.
+    const outstandingBalance = parseMoney((loan as any).remainingAmount ?? loan.amount);
 
     const nextDue = schedule.find(entry => entry.status === "pending" || entry.status === "paused");
 
@@ -5656,6 +7059,8 @@ export class DatabaseStorage implements IStorage {
 
         totalPaid: Number(totalPaid.toFixed(2)),
 
+        repaidOutsidePayroll: Number(repaidOutsidePayroll.toFixed(2)),
+
         outstandingBalance: Number(outstandingBalance.toFixed(2)),
 
       },
@@ -5668,6 +7073,497 @@ export class DatabaseStorage implements IStorage {
 
 
 
+  // Loan repayment methods
+
+  async getLoanPayment(id: string): Promise<LoanPayment | undefined> {
+    const [payment] = await db.select().from(loanPayments).where(eq(loanPayments.id, id));
+    return payment || undefined;
+  }
+
+  async recordLoanRepayment(input: LoanRepaymentInput): Promise<LoanRepaymentRecord | undefined> {
+    return await db.transaction(async tx => {
+      const [loan] = await tx.select().from(loans).where(eq(loans.id, input.loanId));
+      if (!loan) {
+        return undefined;
+      }
+      // Paused loans skip payroll deductions but can still be repaid directly.
+      if (!isRepayableLoan(loan) && loan.status !== "paused") {
+        throw new LoanRepaymentError(`Only active loans can be repaid; this loan is ${loan.status}`);
+      }
+      const outstanding = parseMoney(loan.remainingAmount);
+      if (input.amount > outstanding + 0.005) {
+        throw new LoanRepaymentError(
+          `Repayment exceeds the outstanding balance of ${outstanding.toFixed(2)}`,
+        );
+      }
+      const remaining = Number(Math.max(0, outstanding - input.amount).toFixed(2));
+      const settled = remaining <= 0.01;
+
+      const [payment] = await tx
+        .insert(loanPayments)
+        .values({
+          loanId: loan.id,
+          payrollRunId: null,
+          employeeId: loan.employeeId,
+          amount: input.amount.toFixed(2),
+          appliedDate: input.paidDate,
+          source: input.method,
+          receiptNumber: `LR-${input.paidDate.replace(/-/g, "")}-${randomUUID().slice(0, 8).toUpperCase()}`,
+          balanceAfter: remaining.toFixed(2),
+          reference: input.reference ?? null,
+          notes: input.notes ?? null,
+          recordedBy: input.recordedBy ?? null,
+        })
+        .returning();
+
+      const [updatedLoan] = await tx
+        .update(loans)
+        .set({
+          remainingAmount: remaining.toFixed(2),
+          status: settled ? "completed" : loan.status,
+        })
+        .where(eq(loans.id, loan.id))
+        .returning();
+
+      // Paid instalments stay as they are; the unpaid ones are rebuilt from
+      // the new balance, or dropped when the loan is settled.
+      const current = await tx
+        .select()
+        .from(loanAmortizationSchedules)
+        .where(eq(loanAmortizationSchedules.loanId, loan.id));
+      const replacement = settled
+        ? []
+        : rescheduleRemainingBalance({
+            balance: remaining,
+            monthlyPayment: parseMoney(loan.monthlyDeduction),
+            interestRate: parseMoney(loan.interestRate),
+            interestMethod: loan.interestMethod as LoanInterestMethod,
+            endDate: loan.endDate,
+            schedule: current,
+            fallbackStartDate: input.paidDate,
+          });
+      await tx
+        .delete(loanAmortizationSchedules)
+        .where(
+          and(
+            eq(loanAmortizationSchedules.loanId, loan.id),
+            ne(loanAmortizationSchedules.status, "paid"),
+          ),
+        );
+      if (replacement.length > 0) {
+        await tx.insert(loanAmortizationSchedules).values(
+          replacement.map(entry =>
+            this.formatLoanScheduleEntryForInsert({
+              ...entry,
+              loanId: loan.id,
+              notes: `Rescheduled after repayment ${payment.receiptNumber}`,
+            } as InsertLoanAmortizationScheduleEntry),
+          ),
+        );
+      }
+
+      const schedule = await tx
+        .select()
+        .from(loanAmortizationSchedules)
+        .where(eq(loanAmortizationSchedules.loanId, loan.id))
+        .orderBy(asc(loanAmortizationSchedules.installmentNumber));
+      return { payment, loan: updatedLoan, schedule };
+    });
+  }
+
+  // Loan restructure methods
+
+  async getLoanRestructures(loanId: string): Promise<LoanRestructureWithStages[]> {
+    return await db.query.loanRestructures.findMany({
+      where: eq(loanRestructures.loanId, loanId),
+      with: {
+        approvalStages: {
+          with: { approver: true },
+          orderBy: asc(loanApprovalStages.stageOrder),
+        },
+      },
+      orderBy: desc(loanRestructures.createdAt),
+    });
+  }
+
+  async getLoanRestructure(id: string): Promise<LoanRestructureWithStages | undefined> {
+    const restructure = await db.query.loanRestructures.findFirst({
+      where: eq(loanRestructures.id, id),
+      with: {
+        approvalStages: {
+          with: { approver: true },
+          orderBy: asc(loanApprovalStages.stageOrder),
+        },
+      },
+    });
+    return restructure || undefined;
+  }
+
+  async createLoanRestructure(
+    restructure: InsertLoanRestructure,
+    stages: InsertLoanApprovalStage[],
+  ): Promise<LoanRestructureWithStages> {
+    const created = await db.transaction(async tx => {
+      const [row] = await tx.insert(loanRestructures).values(restructure).returning();
+      if (stages.length > 0) {
+        await tx.insert(loanApprovalStages).values(
+          stages.map((stage, index) => ({
+            loanId: row.loanId,
+            restructureId: row.id,
+            stageName: stage.stageName,
+            stageOrder: stage.stageOrder ?? index,
+            approverId: stage.approverId ?? undefined,
+            status: stage.status ?? "pending",
+            notes: stage.notes ?? undefined,
+            metadata: stage.metadata ?? undefined,
+          })),
+        );
+      }
+      return row;
+    });
+    return (await this.getLoanRestructure(created.id))!;
+  }
+
+  async rejectLoanRestructure(id: string): Promise<LoanRestructure | undefined> {
+    const [updated] = await db
+      .update(loanRestructures)
+      .set({ status: "rejected", updatedAt: new Date() })
+      .where(and(eq(loanRestructures.id, id), eq(loanRestructures.status, "pending")))
+      .returning();
+    return updated || undefined;
+  }
+
+  async applyLoanRestructure(id: string, appliedBy?: string | null): Promise<LoanRestructureRecord> {
+    return await db.transaction(async tx => {
+      const [restructure] = await tx.select().from(loanRestructures).where(eq(loanRestructures.id, id));
+      if (!restructure || restructure.status !== "pending") {
+        throw new LoanRestructureError("Only pending restructures can be applied");
+      }
+      const [loan] = await tx.select().from(loans).where(eq(loans.id, restructure.loanId));
+      if (!loan || (loan.status !== "active" && loan.status !== "paused")) {
+        throw new LoanRestructureError("Only active loans can be restructured");
+      }
+      const current = await tx
+        .select()
+        .from(loanAmortizationSchedules)
+        .where(eq(loanAmortizationSchedules.loanId, loan.id))
+        .orderBy(asc(loanAmortizationSchedules.installmentNumber));
+
+      // The plan is worked out again here because the balance may have moved
+      // since the restructure was requested.
+      let plan: ReturnType<typeof planLoanRestructure>;
+      try {
+        plan = planLoanRestructure({
+          loan,
+          schedule: current,
+          request:
+            restructure.type === "defer_installments"
+              ? { ...restructure, type: restructure.type, deferInstallments: restructure.deferInstallments ?? 0 }
+              : restructure.type === "change_monthly_deduction"
+                ? { ...restructure, type: restructure.type, monthlyDeduction: parseMoney(restructure.monthlyDeduction) }
+                : { ...restructure, type: restructure.type, endDate: restructure.endDate ?? "" },
+          fallbackStartDate: new Date().toISOString().split("T")[0],
+        });
+      } catch (error) {
+        throw new LoanRestructureError(error instanceof Error ? error.message : String(error));
+      }
+
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${loanScheduleVersions.version}), 0)` })
+        .from(loanScheduleVersions)
+        .where(eq(loanScheduleVersions.loanId, loan.id));
+      const [version] = await tx
+        .insert(loanScheduleVersions)
+        .values({
+          loanId: loan.id,
+          version: Number(latest) + 1,
+          restructureId: restructure.id,
+          monthlyDeduction: loan.monthlyDeduction,
+          endDate: loan.endDate,
+          remainingAmount: loan.remainingAmount,
+          entries: current.map(entry => ({
+            installmentNumber: entry.installmentNumber,
+            dueDate: entry.dueDate,
+            principalAmount: entry.principalAmount,
+            interestAmount: entry.interestAmount,
+            paymentAmount: entry.paymentAmount,
+            remainingBalance: entry.remainingBalance,
+            status: entry.status,
+            paidAt: entry.paidAt,
+          })),
+          createdBy: appliedBy ?? null,
+        })
+        .returning();
+
+      await tx
+        .delete(loanAmortizationSchedules)
+        .where(
+          and(
+            eq(loanAmortizationSchedules.loanId, loan.id),
+            ne(loanAmortizationSchedules.status, "paid"),
+          ),
+        );
+      if (plan.schedule.length > 0) {
+        await tx.insert(loanAmortizationSchedules).values(
+          plan.schedule.map(entry =>
+            this.formatLoanScheduleEntryForInsert({
+              ...entry,
+              loanId: loan.id,
+              notes: `Restructured (schedule version ${version.version} kept)`,
+            } as InsertLoanAmortizationScheduleEntry),
+          ),
+        );
+      }
+
+      const [updatedLoan] = await tx
+        .update(loans)
+        .set({
+          monthlyDeduction: plan.monthlyDeduction.toFixed(2),
+          endDate: plan.endDate,
+        })
+        .where(eq(loans.id, loan.id))
+        .returning();
+
+      const [applied] = await tx
+        .update(loanRestructures)
+        .set({
+          status: "applied",
+          previousMonthlyDeduction: loan.monthlyDeduction,
+          previousEndDate: loan.endDate,
+          scheduleVersion: version.version,
+          appliedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(loanRestructures.id, restructure.id))
+        .returning();
+
+      const schedule = await tx
+        .select()
+        .from(loanAmortizationSchedules)
+        .where(eq(loanAmortizationSchedules.loanId, loan.id))
+        .orderBy(asc(loanAmortizationSchedules.installmentNumber));
+      return { restructure: applied, loan: updatedLoan, schedule, version };
+    });
+  }
+
+  async getLoanScheduleVersions(loanId: string): Promise<LoanScheduleVersion[]> {
+    return await db
+      .select()
+      .from(loanScheduleVersions)
+      .where(eq(loanScheduleVersions.loanId, loanId))
+      .orderBy(desc(loanScheduleVersions.version));
+  }
+
+  // Salary advance methods
+
+  async getSalaryAdvances(
+    filters: { employeeId?: string; status?: SalaryAdvanceStatus } = {},
+  ): Promise<SalaryAdvanceWithEmployee[]> {
+    return await db.query.salaryAdvances.findMany({
+      where: and(
+        filters.employeeId ? eq(salaryAdvances.employeeId, filters.employeeId) : undefined,
+        filters.status ? eq(salaryAdvances.status, filters.status) : undefined,
+      ),
+      with: { employee: true },
+      orderBy: [desc(salaryAdvances.paidDate), desc(salaryAdvances.createdAt)],
+    });
+  }
+
+  async getSalaryAdvance(id: string): Promise<SalaryAdvance | undefined> {
+    const [advance] = await db.select().from(salaryAdvances).where(eq(salaryAdvances.id, id));
+    return advance || undefined;
+  }
+
+  async getOutstandingSalaryAdvanceTotal(employeeId: string): Promise<number> {
+    const [row] = await db
+      .select({
+        total: sql<string>`coalesce(sum(${salaryAdvances.amount} - ${salaryAdvances.recoveredAmount}), 0)`,
+      })
+      .from(salaryAdvances)
+      .where(and(eq(salaryAdvances.employeeId, employeeId), eq(salaryAdvances.status, "outstanding")));
+    return parseMoney(row?.total);
+  }
+
+  async createSalaryAdvance(advance: InsertSalaryAdvance): Promise<SalaryAdvance> {
+    const [created] = await db.insert(salaryAdvances).values(advance).returning();
+    return created;
+  }
+
+  async cancelSalaryAdvance(id: string): Promise<SalaryAdvance | undefined> {
+    return await db.transaction(async tx => {
+      const [advance] = await tx.select().from(salaryAdvances).where(eq(salaryAdvances.id, id));
+      if (!advance) {
+        return undefined;
+      }
+      if (advance.status !== "outstanding" || parseMoney(advance.recoveredAmount) > 0) {
+        throw new SalaryAdvanceError("Only advances payroll has not started recovering can be cancelled");
+      }
+      const [cancelled] = await tx
+        .update(salaryAdvances)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(salaryAdvances.id, id))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  /**
+   * Advances paid by `end` that are still to be recovered, by employee.
+   * Recalculation excludes the run's own recoveries so they are worked out
+   * afresh.
+   */
+  async getPayrollSalaryAdvances(
+    end: string,
+    excludePayrollRunId?: string,
+  ): Promise<Record<string, PayrollSalaryAdvance[]>> {
+    const recoveredElsewhere = excludePayrollRunId
+      ? sql<string>`coalesce((select sum(${salaryAdvanceRecoveries.amount}) from ${salaryAdvanceRecoveries} where ${salaryAdvanceRecoveries.advanceId} = ${salaryAdvances.id} and ${salaryAdvanceRecoveries.payrollRunId} <> ${excludePayrollRunId}), 0)`
+      : sql<string>`${salaryAdvances.recoveredAmount}`;
+    const rows = await db
+      .select({
+        id: salaryAdvances.id,
+        employeeId: salaryAdvances.employeeId,
+        paidDate: salaryAdvances.paidDate,
+        amount: salaryAdvances.amount,
+        recovered: recoveredElsewhere,
+      })
+      .from(salaryAdvances)
+      .where(
+        and(
+          lte(salaryAdvances.paidDate, end),
+          excludePayrollRunId
+            ? or(
+                eq(salaryAdvances.status, "outstanding"),
+                inArray(
+                  salaryAdvances.id,
+                  db
+                    .select({ id: salaryAdvanceRecoveries.advanceId })
+                    .from(salaryAdvanceRecoveries)
+                    .where(eq(salaryAdvanceRecoveries.payrollRunId, excludePayrollRunId)),
+                ),
+              )
+            : eq(salaryAdvances.status, "outstanding"),
+        ),
+      )
+      .orderBy(asc(salaryAdvances.paidDate), asc(salaryAdvances.createdAt));
+
+    const result: Record<string, PayrollSalaryAdvance[]> = {};
+    for (const row of rows) {
+      const outstanding = parseMoney(row.amount) - parseMoney(row.recovered);
+      if (!(outstanding > 0.005)) continue;
+      (result[row.employeeId] ??= []).push({
+        id: row.id,
+        employeeId: row.employeeId,
+        paidDate: row.paidDate,
+        outstandingAmount: outstanding.toFixed(2),
+      });
+    }
+    return result;
+  }
+
+  /** Replaces what a run recovers from salary advances and updates their balances. */
+  async recordSalaryAdvanceRecoveries(
+    payrollRunId: string,
+    recoveries: Array<{ advanceId: string; amount: number }>,
+    tx: TransactionClient | typeof db = db,
+  ): Promise<void> {
+    const previous = await tx
+      .delete(salaryAdvanceRecoveries)
+      .where(eq(salaryAdvanceRecoveries.payrollRunId, payrollRunId))
+      .returning({ advanceId: salaryAdvanceRecoveries.advanceId });
+    const lines = recoveries.filter(line => line.amount > 0);
+    if (lines.length > 0) {
+      await tx.insert(salaryAdvanceRecoveries).values(
+        lines.map(line => ({
+          advanceId: line.advanceId,
+          payrollRunId,
+          amount: line.amount.toFixed(2),
+        })),
+      );
+    }
+    await this.refreshSalaryAdvanceBalances(
+      [...previous.map(row => row.advanceId), ...lines.map(line => line.advanceId)],
+      tx,
+    );
+  }
+
+  /**
+   * Records the advance recoveries an approved run's entries planned. Each
+   * is limited to what the advance still owes, in case another run has
+   * recovered it since. Returns the number of advances recovered from.
+   */
+  async postPayrollRunSalaryAdvanceRecoveries(
+    payrollRunId: string,
+    tx: TransactionClient | typeof db = db,
+  ): Promise<number> {
+    const entries = await tx
+      .select({ advanceRecoveries: payrollEntries.advanceRecoveries })
+      .from(payrollEntries)
+      .where(eq(payrollEntries.payrollRunId, payrollRunId));
+    const planned = new Map<string, number>();
+    for (const entry of entries) {
+      for (const [advanceId, amount] of Object.entries(entry.advanceRecoveries ?? {})) {
+        planned.set(advanceId, (planned.get(advanceId) ?? 0) + amount);
+      }
+    }
+
+    const owed = new Map<string, number>();
+    if (planned.size > 0) {
+      const recoveredElsewhere = sql<string>`coalesce((select sum(${salaryAdvanceRecoveries.amount}) from ${salaryAdvanceRecoveries} where ${salaryAdvanceRecoveries.advanceId} = ${salaryAdvances.id} and ${salaryAdvanceRecoveries.payrollRunId} <> ${payrollRunId}), 0)`;
+      const rows = await tx
+        .select({ id: salaryAdvances.id, amount: salaryAdvances.amount, recovered: recoveredElsewhere })
+        .from(salaryAdvances)
+        .where(
+          and(
+            inArray(salaryAdvances.id, Array.from(planned.keys())),
+            ne(salaryAdvances.status, "cancelled"),
+          ),
+        );
+      for (const row of rows) {
+        owed.set(row.id, Math.max(0, parseMoney(row.amount) - parseMoney(row.recovered)));
+      }
+    }
+
+    const recoveries = Array.from(planned, ([advanceId, amount]) => ({
+      advanceId,
+      amount: Number(Math.min(amount, owed.get(advanceId) ?? 0).toFixed(2)),
+    })).filter(recovery => recovery.amount > 0);
+    await this.recordSalaryAdvanceRecoveries(payrollRunId, recoveries, tx);
+    return recoveries.length;
+  }
+
+  async reopenPayrollRunSalaryAdvances(
+    payrollRunId: string,
+    tx: TransactionClient | typeof db = db,
+  ): Promise<number> {
+    const removed = await tx
+      .delete(salaryAdvanceRecoveries)
+      .where(eq(salaryAdvanceRecoveries.payrollRunId, payrollRunId))
+      .returning({ advanceId: salaryAdvanceRecoveries.advanceId });
+    await this.refreshSalaryAdvanceBalances(
+      removed.map(row => row.advanceId),
+      tx,
+    );
+    return removed.length;
+  }
+
+  private async refreshSalaryAdvanceBalances(
+    advanceIds: string[],
+    tx: TransactionClient | typeof db,
+  ): Promise<void> {
+    const ids = Array.from(new Set(advanceIds));
+    if (ids.length === 0) return;
+    const recovered = sql<string>`coalesce((select sum(${salaryAdvanceRecoveries.amount}) from ${salaryAdvanceRecoveries} where ${salaryAdvanceRecoveries.advanceId} = ${salaryAdvances.id}), 0)`;
+    await tx
+      .update(salaryAdvances)
+      .set({
+        recoveredAmount: recovered,
+        status: sql`case when ${recovered} >= ${salaryAdvances.amount} then 'recovered' else 'outstanding' end`,
+        updatedAt: new Date(),
+      })
+      .where(and(inArray(salaryAdvances.id, ids), ne(salaryAdvances.status, "cancelled")));
+  }
+
   // Asset methods
 
   async getAssets(): Promise<AssetWithAssignment[]> {
@@ -7042,6 +8938,10 @@ export class DatabaseStorage implements IStorage {
 
           overtimeLimitBreaches: [],
 
+          approvedOvertime: [],
+
+          workDates: [],
+
         };
 
       }
@@ -7066,6 +8966,12 @@ export class DatabaseStorage implements IStorage {
 
       const dateKey = toDateKey(schedule.scheduleDate as any);
 
+      if (expected > 0) {
+
+        bucket.workDates.push(dateKey);
+
+      }
+
       if (variance < -30 && (schedule.lateApprovalStatus ?? "pending") === "pending") {
 
         bucket.pendingLate.push({
@@ -7126,6 +9032,36 @@ export class DatabaseStorage implements IStorage {
 
       }
 
+      if (schedule.overtimeApprovalStatus === "approved") {
+
+        // Approvals without explicit minutes pay the recorded variance.
+
+        const minutes = Number(schedule.overtimeMinutes ?? 0) > 0
+
+          ? Number(schedule.overtimeMinutes)
+
+          : Math.max(0, variance);
+
+        if (minutes > 0) {
+
+          bucket.approvedOvertime.push({
+
+            scheduleId: schedule.id,
+
+            date: dateKey,
+
+            minutes,
+
+            expectedMinutes: expected,
+
+            limitMinutes: limit,
+
+          });
+
+        }
+
+      }
+
     }
 
     return summary;
@@ -8645,11 +10581,11 @@ export class DatabaseStorage implements IStorage {
 
   async getCompanyPayrollSummary(
 
-    range: { startDate: string; endDate: string; groupBy: "month" | "year" }
+    range: { startDate: string; endDate: string; groupBy: "month" | "year"; companyId?: string }
 
   ): Promise<PayrollSummaryPeriod[]> {
 
-    const { startDate, endDate, groupBy } = range;
+    const { startDate, endDate, groupBy, companyId } = range;
 
     const periodExpr = (column: AnyColumn) =>
 
@@ -8683,7 +10619,13 @@ export class DatabaseStorage implements IStorage {
 
       .innerJoin(payrollRuns, eq(payrollEntries.payrollRunId, payrollRuns.id))
 
-      .where(and(gte(payrollRuns.startDate, startDate), lte(payrollRuns.startDate, endDate)));
+      .where(
+        and(
+          gte(payrollRuns.startDate, startDate),
+          lte(payrollRuns.startDate, endDate),
+          companyId ? this.payrollCompanyCondition(companyId) : undefined,
+        ),
+      );
 
 
 
@@ -8889,11 +10831,11 @@ export class DatabaseStorage implements IStorage {
 
   async getCompanyPayrollByDepartment(
 
-    range: { startDate: string; endDate: string; groupBy: "month" | "year" }
+    range: { startDate: string; endDate: string; groupBy: "month" | "year"; companyId?: string }
 
   ): Promise<PayrollDepartmentSummaryRow[]> {
 
-    const { startDate, endDate, groupBy } = range;
+    const { startDate, endDate, groupBy, companyId } = range;
 
     const periodExpr = (column: AnyColumn) =>
 
@@ -8935,7 +10877,13 @@ export class DatabaseStorage implements IStorage {
 
       .leftJoin(departments, eq(employees.departmentId, departments.id))
 
-      .where(and(gte(payrollRuns.startDate, startDate), lte(payrollRuns.startDate, endDate)))
+      .where(
+        and(
+          gte(payrollRuns.startDate, startDate),
+          lte(payrollRuns.startDate, endDate),
+          companyId ? this.payrollCompanyCondition(companyId) : undefined,
+        ),
+      )
 
       .groupBy(periodExpr(payrollRuns.startDate), employees.departmentId, departments.name)
 
@@ -8973,11 +10921,13 @@ export class DatabaseStorage implements IStorage {
 
       departmentIds?: string[];
 
+      companyId?: string;
+
     },
 
   ): Promise<DepartmentCostPeriod[]> {
 
-    const { startDate, endDate, groupBy, departmentIds } = range;
+    const { startDate, endDate, groupBy, departmentIds, companyId } = range;
 
     const periodExpr = (column: AnyColumn) =>
 
@@ -9003,8 +10953,18 @@ export class DatabaseStorage implements IStorage {
 
     const loanSum = sql<string>`coalesce(sum(${payrollEntries.loanDeduction}), 0)`;
 
+    const advanceSum = sql<string>`coalesce(sum(${payrollEntries.advanceDeduction}), 0)`;
+
     const otherSum = sql<string>`coalesce(sum(${payrollEntries.otherDeductions}), 0)`;
 
+    const employerSocialSum = sql<string>`coalesce(sum(${payrollEntries.employerSocialInsurance}), 0)`;
+
+    const employerHealthSum = sql<string>`coalesce(sum(${payrollEntries.employerHealthInsurance}), 0)`;
+
+    const indemnitySum = sql<string>`coalesce(sum(${payrollEntries.indemnityAccrual}), 0)`;
+
+    const visaSum = sql<string>`coalesce(sum(${payrollEntries.visaCostAmortization}), 0)`;
+
     const conditions: SQL[] = [
 
       gte(payrollRuns.startDate, startDate),
@@ -9019,6 +10979,12 @@ export class DatabaseStorage implements IStorage {
 
     }
 
+    if (companyId) {
+
+      conditions.push(this.payrollCompanyCondition(companyId));
+
+    }
+
     const whereClause = conditions.length === 1 ? conditions[0] : and(...conditions);
 
     const rows = await db
@@ -9047,8 +11013,18 @@ export class DatabaseStorage implements IStorage {
 
         loan: loanSum,
 
+        advance: advanceSum,
+
         other: otherSum,
 
+        employerSocial: employerSocialSum,
+
+        employerHealth: employerHealthSum,
+
+        indemnity: indemnitySum,
+
+        visa: visaSum,
+
       })
 
       .from(payrollEntries)
@@ -9083,6 +11059,30 @@ export class DatabaseStorage implements IStorage {
 
       const overtimeEstimate = Math.max(0, gross - base - bonuses);
 
+      const employerCosts = {
+
+        socialInsurance: Number(row.employerSocial ?? 0),
+
+        healthInsurance: Number(row.employerHealth ?? 0),
+
+        indemnityAccrual: Number(row.indemnity ?? 0),
+
+        visaAmortization: Number(row.visa ?? 0),
+
+      };
+
+      const totalCostOfEmployment =
+
+        gross +
+
+        employerCosts.socialInsurance +
+
+        employerCosts.healthInsurance +
+
+        employerCosts.indemnityAccrual +
+
+        employerCosts.visaAmortization;
+
       return {
 
         period: row.period,
@@ -9113,10 +11113,16 @@ export class DatabaseStorage implements IStorage {
 
             loan: Number(row.loan ?? 0),
 
+            advance: Number(row.advance ?? 0),
+
             other: Number(row.other ?? 0),
 
           },
 
+          employerCosts,
+
+          totalCostOfEmployment: Number(totalCostOfEmployment.toFixed(2)),
+
         },
 
       } satisfies DepartmentCostPeriod;
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  BankFileValidationError,
+  buildBankFile,
+  listBankFileFormats,
+  prepareBankFileBatch,
+  validateIban,
+  type BankFileSource,
+} from "./bankFiles";
+
+const NBK_IBAN = "KW09NBOK0000000000001234567890";
+const KFH_IBAN = "KW57KFHO0000000000009876543210";
+
+const source = (overrides: Partial<BankFileSource> = {}): BankFileSource => ({
+  run: { period: "Jan 2024", endDate: "2024-01-31" },
+  entries: [
+    { employeeId: "emp-1", netPay: 1250.5 },
+    { employeeId: "emp-2", netPay: 820.125 },
+    { employeeId: "emp-3", netPay: 400 },
+  ],
+  employees: [
+    {
+      id: "emp-1",
+      employeeCode: "E001",
+      firstName: "Fatima",
+      lastName: "Al-Sabah",
+      civilId: "290010112345",
+      iban: NBK_IBAN,
+    },
+    {
+      id: "emp-2",
+      employeeCode: "E002",
+      firstName: "Omar",
+      lastName: "Haddad",
+      civilId: "285020254321",
+      bankIban: KFH_IBAN.replace(/(.{4})/g, "$1 ").toLowerCase(),
+    },
+    {
+      id: "emp-3",
+      employeeCode: "E003",
+      firstName: "Cash",
+      lastName: "Worker",
+      paymentMethod: "cash",
+    },
+  ],
+  currencyCode: "KWD",
+  options: { debitAccount: "2001234567", employerCode: "ACME01" },
+  ...overrides,
+});
+
+describe("validateIban", () => {
+  it("accepts valid Kuwaiti IBANs regardless of spacing and case", () => {
+    expect(validateIban(NBK_IBAN)).toEqual({ valid: true, iban: NBK_IBAN });
+    expect(validateIban("kw57 kfho 0000 0000 0000 9876 5432 10").valid).toBe(true);
+  });
+
+  it("rejects missing, short and mistyped IBANs", () => {
+    expect(validateIban(null).reason).toBe("IBAN is missing");
+    expect(validateIban("KW12BANK123456789").reason).toBe("KW IBANs must be 30 characters");
+    expect(validateIban(NBK_IBAN.replace("1234", "1243")).reason).toBe(
+      "IBAN check digits do not match",
+    );
+  });
+});
+
+describe("prepareBankFileBatch", () => {
+  it("skips employees not paid by bank transfer and totals the rest", () => {
+    const batch = prepareBankFileBatch(source());
+
+    expect(batch.transfers.map(transfer => transfer.employeeCode)).toEqual(["E001", "E002"]);
+    expect(batch.transfers[1].iban).toBe(KFH_IBAN);
+    expect(batch.totalAmount).toBe(2070.625);
+    expect(batch.valueDate).toBe("2024-01-31");
+  });
+
+  it("rejects the whole batch when an IBAN or the debit account is invalid", () => {
+    const invalid = source({ options: {} });
+    invalid.employees[0] = { ...invalid.employees[0], iban: "KW00NBOK0000000000001234567890" };
+
+    let error: unknown;
+    try {
+      prepareBankFileBatch(invalid);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(BankFileValidationError);
+    expect((error as BankFileValidationError).issues).toEqual([
+      expect.objectContaining({ employeeId: null, field: "debitAccount" }),
+      expect.objectContaining({ employeeId: "emp-1", field: "iban" }),
+    ]);
+  });
+});
+
+describe("buildBankFile", () => {
+  it("lists the built-in formats", () => {
+    expect(listBankFileFormats().map(format => format.id)).toEqual([
+      "nbk",
+      "kfh",
+      "gulf_bank",
+      "boubyan",
+    ]);
+  });
+
+  it("renders NBK fixed-width records with header and trailer control totals", () => {
+    const { content, recordCount, totalAmount } = buildBankFile("nbk", source());
+    const lines = content.toString("utf8").trimEnd().split("\r\n");
+
+    expect(recordCount).toBe(2);
+    expect(totalAmount).toBe(2070.625);
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toBe(
+      "HACME01    2001234567          20240131KWD000002000000002070625JAN 2024        ",
+    );
+    expect(lines[1].length).toBe(115);
+    expect(lines[1]).toContain(`D000001${NBK_IBAN}FATIMA AL-SABAH`);
+    expect(lines[1]).toContain("000000001250500E001");
+    expect(lines[3]).toBe("T000002000000002070625");
+  });
+
+  it("renders the KFH CSV layout", () => {
+    const csv = buildBankFile("kfh", source()).content.toString("utf8");
+
+    expect(csv.split("\r\n")).toEqual([
+      "H,ACME01,2001234567,20240131,KWD,2,2070.625",
+      `D,1,${NBK_IBAN},FATIMA AL-SABAH,290010112345,1250.500,JAN 2024`,
+      `D,2,${KFH_IBAN},OMAR HADDAD,285020254321,820.125,JAN 2024`,
+      "T,2,2070.625",
+      "",
+    ]);
+  });
+
+  it("keeps fixed-width Gulf Bank records aligned", () => {
+    const lines = buildBankFile("gulf_bank", source()).content.toString("utf8").trimEnd().split("\r\n");
+
+    expect(lines[1].length).toBe(lines[2].length);
+    expect(lines[3]).toBe("990000002000000000002070625");
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => buildBankFile("unknown", source())).toThrow("Unknown bank file format");
+  });
+});
@@ -0,0 +1,410 @@
+export type BankFileLayout = "fixed_width" | "csv";
+
+export interface BankTransfer {
+  sequence: number;
+  employeeId: string;
+  employeeCode: string;
+  name: string;
+  civilId: string;
+  iban: string;
+  amount: number;
+}
+
+export interface BankFileBatch {
+  employerCode: string;
+  debitAccount: string;
+  valueDate: string;
+  currencyCode: string;
+  reference: string;
+  transfers: BankTransfer[];
+  totalAmount: number;
+}
+
+export interface BankFileFormat {
+  id: string;
+  label: string;
+  bankName: string;
+  layout: BankFileLayout;
+  extension: "txt" | "csv";
+  mimeType: string;
+  render: (batch: BankFileBatch) => string;
+}
+
+export interface BankFileIssue {
+  employeeId: string | null;
+  employeeCode?: string;
+  field: "iban" | "debitAccount";
+  message: string;
+}
+
+export class BankFileValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: BankFileIssue[],
+  ) {
+    super(message);
+    this.name = "BankFileValidationError";
+  }
+}
+
+/** Registered IBAN lengths for the countries salaries are usually paid into. */
+const IBAN_LENGTHS: Record<string, number> = {
+  KW: 30,
+  SA: 24,
+  AE: 23,
+  BH: 22,
+  QA: 29,
+  OM: 23,
+  JO: 30,
+  EG: 29,
+  LB: 28,
+  GB: 22,
+};
+
+const CURRENCY_DECIMALS: Record<string, number> = { KWD: 3, BHD: 3, OMR: 3, JOD: 3 };
+
+export const currencyDecimals = (currencyCode: string) =>
+  CURRENCY_DECIMALS[currencyCode.toUpperCase()] ?? 2;
+
+/**
+ * Checks an IBAN's shape, country length and ISO 7064 mod-97 check digits.
+ * Spaces are ignored and letters are upper-cased in the returned value.
+ */
+export function validateIban(value: string | null | undefined): {
+  valid: boolean;
+  iban: string;
+  reason?: string;
+} {
+  const iban = String(value ?? "").replace(/\s+/g, "").toUpperCase();
+  if (!iban) {
+    return { valid: false, iban, reason: "IBAN is missing" };
+  }
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return { valid: false, iban, reason: "IBAN has an invalid format" };
+  }
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength && iban.length !== expectedLength) {
+    return {
+      valid: false,
+      iban,
+      reason: `${iban.slice(0, 2)} IBANs must be ${expectedLength} characters`,
+    };
+  }
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  if (remainder !== 1) {
+    return { valid: false, iban, reason: "IBAN check digits do not match" };
+  }
+  return { valid: true, iban };
+}
+
+const toMinorUnits = (amount: number, currencyCode: string) =>
+  Math.round(amount * 10 ** currencyDecimals(currencyCode));
+
+const formatAmount = (amount: number, currencyCode: string) =>
+  amount.toFixed(currencyDecimals(currencyCode));
+
+const compactDate = (isoDate: string) => isoDate.replace(/-/g, "");
+
+/** Bank files only accept plain upper-case ASCII in name and reference fields. */
+const asciiText = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[^\x20-\x7E]/g, "")
+    .replace(/[^A-Za-z0-9 .\-/]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase();
+
+const alpha = (value: string, width: number) => asciiText(value).slice(0, width).padEnd(width, " ");
+
+const numeric = (value: number | string, width: number) => {
+  const text = String(value);
+  if (text.length > width) {
+    throw new Error(`Value ${text} does not fit in ${width} characters`);
+  }
+  return text.padStart(width, "0");
+};
+
+const csvCell = (value: string | number) => {
+  const str = String(value ?? "");
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const csvLines = (rows: Array<Array<string | number>>) =>
+  `${rows.map(row => row.map(csvCell).join(",")).join("\r\n")}\r\n`;
+
+const fixedLines = (lines: string[]) => `${lines.join("\r\n")}\r\n`;
+
+const nbkFormat: BankFileFormat = {
+  id: "nbk",
+  label: "NBK salary transfer (fixed width)",
+  bankName: "National Bank of Kuwait",
+  layout: "fixed_width",
+  extension: "txt",
+  mimeType: "text/plain",
+  render: batch => {
+    const total = toMinorUnits(batch.totalAmount, batch.currencyCode);
+    return fixedLines([
+      [
+        "H",
+        alpha(batch.employerCode, 10),
+        alpha(batch.debitAccount, 20),
+        compactDate(batch.valueDate),
+        alpha(batch.currencyCode, 3),
+        numeric(batch.transfers.length, 6),
+        numeric(total, 15),
+        alpha(batch.reference, 16),
+      ].join(""),
+      ...batch.transfers.map(transfer =>
+        [
+          "D",
+          numeric(transfer.sequence, 6),
+          alpha(transfer.iban, 30),
+          alpha(transfer.name, 35),
+          alpha(transfer.civilId, 12),
+          numeric(toMinorUnits(transfer.amount, batch.currencyCode), 15),
+          alpha(transfer.employeeCode, 16),
+        ].join(""),
+      ),
+      ["T", numeric(batch.transfers.length, 6), numeric(total, 15)].join(""),
+    ]);
+  },
+};
+
+const kfhFormat: BankFileFormat = {
+  id: "kfh",
+  label: "KFH payroll upload (CSV)",
+  bankName: "Kuwait Finance House",
+  layout: "csv",
+  extension: "csv",
+  mimeType: "text/csv",
+  render: batch =>
+    csvLines([
+      [
+        "H",
+        asciiText(batch.employerCode),
+        asciiText(batch.debitAccount),
+        compactDate(batch.valueDate),
+        batch.currencyCode,
+        batch.transfers.length,
+        formatAmount(batch.totalAmount, batch.currencyCode),
+      ],
+      ...batch.transfers.map(transfer => [
+        "D",
+        transfer.sequence,
+        transfer.iban,
+        asciiText(transfer.name),
+        transfer.civilId,
+        formatAmount(transfer.amount, batch.currencyCode),
+        asciiText(batch.reference),
+      ]),
+      ["T", batch.transfers.length, formatAmount(batch.totalAmount, batch.currencyCode)],
+    ]),
+};
+
+const gulfBankFormat: BankFileFormat = {
+  id: "gulf_bank",
+  label: "Gulf Bank WPS (fixed width)",
+  bankName: "Gulf Bank",
+  layout: "fixed_width",
+  extension: "txt",
+  mimeType: "text/plain",
+  render: batch => {
+    const total = toMinorUnits(batch.totalAmount, batch.currencyCode);
+    return fixedLines([
+      [
+        "01",
+        alpha(batch.employerCode, 12),
+        alpha(batch.debitAccount, 30),
+        compactDate(batch.valueDate),
+        numeric(batch.transfers.length, 7),
+        numeric(total, 18),
+        alpha(batch.currencyCode, 3),
+      ].join(""),
+      ...batch.transfers.map(transfer =>
+        [
+          "02",
+          numeric(transfer.sequence, 7),
+          alpha(transfer.civilId, 12),
+          alpha(transfer.name, 40),
+          alpha(transfer.iban, 30),
+          numeric(toMinorUnits(transfer.amount, batch.currencyCode), 18),
+          alpha(batch.reference, 20),
+        ].join(""),
+      ),
+      ["99", numeric(batch.transfers.length, 7), numeric(total, 18)].join(""),
+    ]);
+  },
+};
+
+const boubyanFormat: BankFileFormat = {
+  id: "boubyan",
+  label: "Boubyan bulk salary (CSV)",
+  bankName: "Boubyan Bank",
+  layout: "csv",
+  extension: "csv",
+  mimeType: "text/csv",
+  render: batch =>
+    csvLines([
+      [
+        "HEADER",
+        asciiText(batch.debitAccount),
+        batch.valueDate,
+        batch.currencyCode,
+        batch.transfers.length,
+        formatAmount(batch.totalAmount, batch.currencyCode),
+        asciiText(batch.employerCode),
+      ],
+      ["Seq", "Beneficiary IBAN", "Beneficiary Name", "Amount", "Civil ID", "Employee Code", "Narrative"],
+      ...batch.transfers.map(transfer => [
+        transfer.sequence,
+        transfer.iban,
+        asciiText(transfer.name),
+        formatAmount(transfer.amount, batch.currencyCode),
+        transfer.civilId,
+        transfer.employeeCode,
+        asciiText(`SALARY ${batch.reference}`),
+      ]),
+      [
+        "TRAILER",
+        batch.transfers.length,
+        formatAmount(batch.totalAmount, batch.currencyCode),
+      ],
+    ]),
+};
+
+const registry = new Map<string, BankFileFormat>(
+  [nbkFormat, kfhFormat, gulfBankFormat, boubyanFormat].map(format => [format.id, format] as const),
+);
+
+/** Adds or replaces a bank file layout so company configs can select it by id. */
+export const registerBankFileFormat = (format: BankFileFormat) => {
+  registry.set(format.id, format);
+};
+
+export const getBankFileFormat = (id: string | null | undefined) =>
+  id ? registry.get(id) : undefined;
+
+export const listBankFileFormats = () =>
+  Array.from(registry.values()).map(({ render: _render, ...format }) => format);
+
+export interface BankFileSource {
+  run: { period: string; endDate: string | Date };
+  entries: Array<{ employeeId: string; netPay: number }>;
+  employees: Array<{
+    id: string;
+    employeeCode: string;
+    firstName: string;
+    lastName?: string | null;
+    civilId?: string | null;
+    iban?: string | null;
+    bankIban?: string | null;
+    paymentMethod?: string | null;
+  }>;
+  currencyCode?: string | null;
+  options?: Record<string, unknown>;
+}
+
+const optionText = (options: Record<string, unknown> | undefined, key: string) => {
+  const value = options?.[key];
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+};
+
+/**
+ * Collects the bank transfers of a run. Employees paid in cash or by link
+ * and entries with nothing to pay are left out; every remaining IBAN must
+ * validate and the company debit account must be configured, otherwise the
+ * whole batch is rejected so no partial file reaches the bank.
+ */
+export function prepareBankFileBatch(source: BankFileSource): BankFileBatch {
+  const currencyCode = (source.currencyCode || "KWD").toUpperCase();
+  const decimals = currencyDecimals(currencyCode);
+  const employeesById = new Map(source.employees.map(employee => [employee.id, employee] as const));
+  const issues: BankFileIssue[] = [];
+  const transfers: BankTransfer[] = [];
+
+  const debitAccount = optionText(source.options, "debitAccount");
+  if (!debitAccount) {
+    issues.push({
+      employeeId: null,
+      field: "debitAccount",
+      message: "The company debit account is not configured for this bank format",
+    });
+  }
+
+  for (const entry of source.entries) {
+    const employee = employeesById.get(entry.employeeId);
+    if (!employee) continue;
+    if (employee.paymentMethod && employee.paymentMethod !== "bank") continue;
+    const amount = Number(entry.netPay.toFixed(decimals));
+    if (!(amount > 0)) continue;
+
+    const { valid, iban, reason } = validateIban(employee.iban || employee.bankIban);
+    if (!valid) {
+      issues.push({
+        employeeId: employee.id,
+        employeeCode: employee.employeeCode,
+        field: "iban",
+        message: reason ?? "IBAN is invalid",
+      });
+      continue;
+    }
+
+    transfers.push({
+      sequence: transfers.length + 1,
+      employeeId: employee.id,
+      employeeCode: employee.employeeCode,
+      name: `${employee.firstName} ${employee.lastName ?? ""}`.trim(),
+      civilId: employee.civilId?.trim() ?? "",
+      iban,
+      amount,
+    });
+  }
+
+  if (issues.length > 0) {
+    const summary = issues
+      .slice(0, 3)
+      .map(issue => (issue.employeeCode ? `${issue.employeeCode}: ${issue.message}` : issue.message))
+      .join("; ");
+    const more = issues.length > 3 ? ` and ${issues.length - 3} more` : "";
+    throw new BankFileValidationError(`Bank file cannot be generated: ${summary}${more}`, issues);
+  }
+
+  const endDate = source.run.endDate instanceof Date
+    ? source.run.endDate.toISOString().split("T")[0]
+    : String(source.run.endDate).slice(0, 10);
+
+  return {
+    employerCode: optionText(source.options, "employerCode"),
+    debitAccount,
+    valueDate: optionText(source.options, "valueDate") || endDate,
+    currencyCode,
+    reference: source.run.period,
+    transfers,
+    totalAmount: Number(
+      transfers.reduce((sum, transfer) => sum + transfer.amount, 0).toFixed(decimals),
+    ),
+  };
+}
+
+/** Renders a run into the selected bank's layout, including its control totals. */
+export function buildBankFile(formatId: string, source: BankFileSource) {
+  const format = getBankFileFormat(formatId);
+  if (!format) {
+    throw new Error(`Unknown bank file format: ${formatId}`);
+  }
+  const batch = prepareBankFileBatch(source);
+  return {
+    format,
+    content: Buffer.from(format.render(batch), "utf8"),
+    recordCount: batch.transfers.length,
+    totalAmount: batch.totalAmount,
+  };
+}
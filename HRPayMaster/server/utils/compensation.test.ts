@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSalarySegments,
+  prorateSalarySegments,
+  resolveCompensationChangeType,
+  resolveSalaryOn,
+} from './compensation';
+
+const history = [
+  { salary: '1200', previousSalary: '1000', effectiveDate: '2024-03-16' },
+  { salary: '1100', previousSalary: '1200', effectiveDate: '2024-06-01' },
+];
+
+describe('resolveSalaryOn', () => {
+  it('uses the previous salary of the first change for earlier dates', () => {
+    expect(resolveSalaryOn('2024-01-31', '1100', history)).toBe(1000);
+    expect(resolveSalaryOn('2024-03-16', '1100', history)).toBe(1200);
+    expect(resolveSalaryOn('2024-07-01', '1100', history)).toBe(1100);
+  });
+
+  it('falls back to the employee salary without history', () => {
+    expect(resolveSalaryOn('2024-01-31', '900', [])).toBe(900);
+  });
+});
+
+describe('buildSalarySegments', () => {
+  it('splits a period at each change inside it', () => {
+    const segments = buildSalarySegments(
+      history,
+      '1100',
+      new Date('2024-03-01'),
+      new Date('2024-03-31'),
+    );
+
+    expect(segments).toEqual([
+      { startDate: '2024-03-01', endDate: '2024-03-15', days: 15, monthlySalary: 1000 },
+      { startDate: '2024-03-16', endDate: '2024-03-31', days: 16, monthlySalary: 1200 },
+    ]);
+    expect(prorateSalarySegments(segments)).toBeCloseTo((1000 * 15 + 1200 * 16) / 31, 6);
+  });
+
+  it('keeps a single segment when the salary does not change in the period', () => {
+    const segments = buildSalarySegments(
+      history,
+      '1100',
+      new Date('2024-04-01'),
+      new Date('2024-04-30'),
+    );
+
+    expect(segments).toEqual([
+      { startDate: '2024-04-01', endDate: '2024-04-30', days: 30, monthlySalary: 1200 },
+    ]);
+    expect(prorateSalarySegments(segments)).toBe(1200);
+  });
+
+  it('merges changes that keep the same amount', () => {
+    const segments = buildSalarySegments(
+      [{ salary: '1000', previousSalary: '1000', effectiveDate: '2024-03-10' }],
+      '1000',
+      new Date('2024-03-01'),
+      new Date('2024-03-31'),
+    );
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].days).toBe(31);
+  });
+});
+
+describe('resolveCompensationChangeType', () => {
+  it('classifies raises, cuts and adjustments', () => {
+    expect(resolveCompensationChangeType('1000', '1200')).toBe('raise');
+    expect(resolveCompensationChangeType('1000', 800)).toBe('cut');
+    expect(resolveCompensationChangeType('1000', '1000.00')).toBe('adjustment');
+    expect(resolveCompensationChangeType(null, '1000')).toBe('adjustment');
+  });
+});
@@ -0,0 +1,141 @@
+import type { CompensationChangeType } from "@shared/schema";
+
+const MS_IN_DAY = 1000 * 60 * 60 * 24;
+
+export interface CompensationHistoryEntry {
+  employeeId?: string;
+  salary: string | number;
+  previousSalary?: string | number | null;
+  effectiveDate: string;
+  createdAt?: Date | string | null;
+}
+
+export interface SalarySegment {
+  startDate: string;
+  endDate: string;
+  days: number;
+  monthlySalary: number;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+const addDays = (isoDate: string, days: number) =>
+  toIsoDate(new Date(new Date(`${isoDate}T00:00:00.000Z`).getTime() + days * MS_IN_DAY));
+
+const daysBetween = (startIso: string, endIso: string) =>
+  Math.round(
+    (new Date(`${endIso}T00:00:00.000Z`).getTime() - new Date(`${startIso}T00:00:00.000Z`).getTime()) /
+      MS_IN_DAY,
+  ) + 1;
+
+const createdAtTime = (entry: CompensationHistoryEntry) => {
+  if (!entry.createdAt) return 0;
+  const time = new Date(entry.createdAt).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/** Orders history by effective date, breaking ties by when the change was recorded. */
+export const sortCompensationHistory = <T extends CompensationHistoryEntry>(history: T[]): T[] =>
+  [...history].sort(
+    (a, b) =>
+      a.effectiveDate.localeCompare(b.effectiveDate) || createdAtTime(a) - createdAtTime(b),
+  );
+
+export const resolveCompensationChangeType = (
+  previousSalary: string | number | null | undefined,
+  salary: string | number,
+): CompensationChangeType => {
+  const previous = toNumber(previousSalary);
+  const next = toNumber(salary);
+  if (previousSalary === null || previousSalary === undefined || next === previous) {
+    return "adjustment";
+  }
+  return next > previous ? "raise" : "cut";
+};
+
+/**
+ * Returns the monthly salary in force on the given ISO date. Dates before the
+ * first recorded change use that change's previous salary, so historical
+ * periods are not repriced by later raises; without history the fallback
+ * (normally the employee record's salary) applies.
+ */
+export const resolveSalaryOn = (
+  date: string,
+  fallback: string | number,
+  history: CompensationHistoryEntry[] = [],
+): number => {
+  const sorted = sortCompensationHistory(history);
+  const first = sorted[0];
+  let salary =
+    first && first.previousSalary !== null && first.previousSalary !== undefined
+      ? toNumber(first.previousSalary)
+      : toNumber(fallback);
+  for (const entry of sorted) {
+    if (entry.effectiveDate > date) break;
+    salary = toNumber(entry.salary);
+  }
+  return salary;
+};
+
+/**
+ * Splits a pay period into the stretches covered by each salary in force,
+ * merging neighbouring stretches that share the same amount.
+ */
+export function buildSalarySegments(
+  history: CompensationHistoryEntry[],
+  fallback: string | number,
+  start: Date,
+  end: Date,
+): SalarySegment[] {
+  const startIso = toIsoDate(start);
+  const endIso = toIsoDate(end);
+  if (endIso < startIso) {
+    return [];
+  }
+
+  const boundaries = Array.from(
+    new Set(
+      history
+        .map(entry => entry.effectiveDate)
+        .filter(date => date > startIso && date <= endIso),
+    ),
+  ).sort();
+
+  const segments: SalarySegment[] = [];
+  let cursor = startIso;
+  for (const boundary of [...boundaries, addDays(endIso, 1)]) {
+    const segmentEnd = addDays(boundary, -1);
+    const monthlySalary = resolveSalaryOn(cursor, fallback, history);
+    const previous = segments.at(-1);
+    if (previous && previous.monthlySalary === monthlySalary) {
+      previous.endDate = segmentEnd;
+      previous.days = daysBetween(previous.startDate, segmentEnd);
+    } else {
+      segments.push({
+        startDate: cursor,
+        endDate: segmentEnd,
+        days: daysBetween(cursor, segmentEnd),
+        monthlySalary,
+      });
+    }
+    cursor = boundary;
+  }
+
+  return segments;
+}
+
+/** Calendar-day weighted monthly salary across the given segments. */
+export function prorateSalarySegments(segments: SalarySegment[]): number {
+  if (segments.length === 0) return 0;
+  if (segments.length === 1) return segments[0].monthlySalary;
+  const totalDays = segments.reduce((sum, segment) => sum + segment.days, 0);
+  if (totalDays <= 0) return segments.at(-1)!.monthlySalary;
+  return (
+    segments.reduce((sum, segment) => sum + segment.monthlySalary * segment.days, 0) / totalDays
+  );
+}
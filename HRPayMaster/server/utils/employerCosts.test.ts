@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { calculateEmployerCosts } from './employerCosts';
+
+const breakdown = {
+  companyId: null,
+  nationalityGroup: 'kuwaiti',
+  insurableSalary: 520,
+  employeeTotal: 41.6,
+  employerTotal: 57.2,
+  lines: [],
+} as any;
+
+describe('calculateEmployerCosts', () => {
+  it('adds social insurance, premium, indemnity accrual and visa amortisation for a month', () => {
+    const costs = calculateEmployerCosts({
+      employee: {
+        salary: '520',
+        startDate: '2020-01-01',
+        visaCost: '365',
+        visaIssueDate: '2024-01-01',
+        visaExpiryDate: '2024-12-30',
+      },
+      start: new Date('2024-03-01'),
+      end: new Date('2024-03-31'),
+      socialInsuranceBreakdown: breakdown,
+      healthInsurancePremium: '30',
+    });
+
+    expect(costs).toEqual({
+      employerSocialInsurance: 57.2,
+      employerHealthInsurance: 30,
+      indemnityAccrual: 25.47,
+      visaCostAmortization: 31,
+      total: 143.67,
+    });
+  });
+
+  it('pro-rates recurring costs for a joiner', () => {
+    const costs = calculateEmployerCosts({
+      employee: { salary: '520', startDate: '2024-03-16' },
+      start: new Date('2024-03-01'),
+      end: new Date('2024-03-31'),
+      healthInsurancePremium: 31,
+    });
+
+    expect(costs.employerHealthInsurance).toBe(16);
+    expect(costs.indemnityAccrual).toBe(13.15);
+    expect(costs.visaCostAmortization).toBe(0);
+  });
+
+  it('stops accruing indemnity at the cap and skips recurring costs off-cycle', () => {
+    const capped = calculateEmployerCosts({
+      employee: { salary: '520', startDate: '1990-01-01' },
+      start: new Date('2024-03-01'),
+      end: new Date('2024-03-31'),
+    });
+    expect(capped.indemnityAccrual).toBe(0);
+
+    const offCycle = calculateEmployerCosts({
+      employee: { salary: '520', startDate: '2020-01-01' },
+      start: new Date('2024-03-01'),
+      end: new Date('2024-03-31'),
+      socialInsuranceBreakdown: breakdown,
+      healthInsurancePremium: '30',
+      recurring: false,
+    });
+    expect(offCycle).toEqual({
+      employerSocialInsurance: 57.2,
+      employerHealthInsurance: 0,
+      indemnityAccrual: 0,
+      visaCostAmortization: 0,
+      total: 57.2,
+    });
+  });
+});
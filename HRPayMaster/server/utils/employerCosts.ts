@@ -0,0 +1,153 @@
+import type { SocialInsuranceBreakdown } from "@shared/schema";
+import { calculateEndOfServiceIndemnity, type EndOfServiceIndemnityInput } from "./endOfService";
+
+type Amount = string | number | null | undefined;
+
+const MS_IN_DAY = 1000 * 60 * 60 * 24;
+
+export interface EmployerCostEmployee {
+  salary: Amount;
+  startDate?: string | null;
+  terminationDate?: string | null;
+  visaCost?: Amount;
+  visaIssueDate?: string | null;
+  visaExpiryDate?: string | null;
+}
+
+export interface EmployerCostInput {
+  employee: EmployerCostEmployee;
+  start: Date;
+  end: Date;
+  socialInsuranceBreakdown?: SocialInsuranceBreakdown | null;
+  /** Monthly premium the company pays for each employee's health insurance. */
+  healthInsurancePremium?: Amount;
+  payComponents?: EndOfServiceIndemnityInput["payComponents"];
+  /**
+   * Whether the run carries the monthly costs. Off-cycle runs only record
+   * the employer share of social insurance on what they pay.
+   */
+  recurring?: boolean;
+}
+
+export interface EmployerCosts {
+  employerSocialInsurance: number;
+  employerHealthInsurance: number;
+  indemnityAccrual: number;
+  visaCostAmortization: number;
+  total: number;
+}
+
+const toNumber = (value: Amount) => {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = Number.parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toUtcDay = (value: string | Date | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * MS_IN_DAY);
+
+/** Inclusive day count of a range, zero when it is empty. */
+const daysBetween = (from: Date, to: Date) =>
+  to < from ? 0 : Math.round((to.getTime() - from.getTime()) / MS_IN_DAY) + 1;
+
+/** A monthly amount for the days from `from` to `to`, pro-rated by calendar month. */
+const monthlyShare = (monthlyAmount: number, from: Date, to: Date) => {
+  let total = 0;
+  let cursor = from;
+  while (cursor <= to) {
+    const monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 0));
+    const segmentEnd = monthEnd < to ? monthEnd : to;
+    total += (monthlyAmount * daysBetween(cursor, segmentEnd)) / monthEnd.getUTCDate();
+    cursor = addDays(segmentEnd, 1);
+  }
+  return total;
+};
+
+/**
+ * Indemnity earned by the service in the period: the indemnity owed at the
+ * period end less the indemnity owed the day before it starts, both at the
+ * current salary, so raises do not revalue earlier service and nothing
+ * accrues once the 18-month cap is reached.
+ */
+const calculateIndemnityAccrual = (
+  input: EmployerCostInput,
+  employmentStart: Date,
+  from: Date,
+  to: Date,
+) => {
+  const owedOn = (date: Date) =>
+    date < employmentStart
+      ? 0
+      : calculateEndOfServiceIndemnity({
+          startDate: employmentStart,
+          terminationDate: date,
+          reason: "termination",
+          monthlySalary: toNumber(input.employee.salary),
+          payComponents: input.payComponents,
+        }).amount;
+  return Math.max(0, owedOn(to) - owedOn(addDays(from, -1)));
+};
+
+/** Company-paid visa cost spread evenly over the visa's validity. */
+const calculateVisaAmortization = (employee: EmployerCostEmployee, from: Date, to: Date) => {
+  const cost = toNumber(employee.visaCost);
+  const issued = toUtcDay(employee.visaIssueDate);
+  const expires = toUtcDay(employee.visaExpiryDate);
+  if (!(cost > 0) || !issued || !expires || expires < issued) return 0;
+  const overlapStart = issued > from ? issued : from;
+  const overlapEnd = expires < to ? expires : to;
+  return (cost * daysBetween(overlapStart, overlapEnd)) / daysBetween(issued, expires);
+};
+
+/**
+ * Costs the company bears for an employee on top of gross pay: the employer
+ * share of social insurance, the health insurance premium, the
+ * end-of-service indemnity accrued in the period and the amortised visa and
+ * residency cost. Recurring costs only cover the days the employee was
+ * employed within the period.
+ */
+export function calculateEmployerCosts(input: EmployerCostInput): EmployerCosts {
+  const employerSocialInsurance = round2(input.socialInsuranceBreakdown?.employerTotal ?? 0);
+  const costs = {
+    employerSocialInsurance,
+    employerHealthInsurance: 0,
+    indemnityAccrual: 0,
+    visaCostAmortization: 0,
+  };
+
+  const periodStart = toUtcDay(input.start);
+  const periodEnd = toUtcDay(input.end);
+  const employmentStart = toUtcDay(input.employee.startDate);
+  const employmentEnd = toUtcDay(input.employee.terminationDate);
+  if (input.recurring !== false && periodStart && periodEnd) {
+    const from = employmentStart && employmentStart > periodStart ? employmentStart : periodStart;
+    const to = employmentEnd && employmentEnd < periodEnd ? employmentEnd : periodEnd;
+    if (from <= to) {
+      costs.employerHealthInsurance = round2(
+        monthlyShare(toNumber(input.healthInsurancePremium), from, to),
+      );
+      costs.indemnityAccrual = employmentStart
+        ? round2(calculateIndemnityAccrual(input, employmentStart, from, to))
+        : 0;
+      costs.visaCostAmortization = round2(calculateVisaAmortization(input.employee, from, to));
+    }
+  }
+
+  return {
+    ...costs,
+    total: round2(
+      costs.employerSocialInsurance +
+        costs.employerHealthInsurance +
+        costs.indemnityAccrual +
+        costs.visaCostAmortization,
+    ),
+  };
+}
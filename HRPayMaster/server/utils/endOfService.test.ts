@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEndOfServiceIndemnity,
+  calculateFinalSettlement,
+  resolveIndemnityEntitlement,
+  resolveSalaryOnDate,
+} from './endOfService';
+
+describe('calculateEndOfServiceIndemnity', () => {
+  it('pays 15 days per year on a 26-day basis for the first five years', () => {
+    const result = calculateEndOfServiceIndemnity({
+      startDate: '2020-01-01',
+      terminationDate: '2022-12-31',
+      reason: 'termination',
+      monthlySalary: '520',
+    });
+
+    expect(result.serviceYears).toBe(3);
+    expect(result.dailyRate).toBe(20);
+    expect(result.firstTierAmount).toBe(900);
+    expect(result.secondTierAmount).toBe(0);
+    expect(result.amount).toBe(900);
+  });
+
+  it('pays a month per year after five years and caps at 18 months', () => {
+    const sevenYears = calculateEndOfServiceIndemnity({
+      startDate: '2015-01-01',
+      terminationDate: '2021-12-31',
+      reason: 'contract_end',
+      monthlySalary: 520,
+    });
+    expect(sevenYears.firstTierAmount).toBe(1500);
+    expect(sevenYears.secondTierAmount).toBe(1040);
+    expect(sevenYears.amount).toBe(2540);
+
+    const longService = calculateEndOfServiceIndemnity({
+      startDate: '1990-01-01',
+      terminationDate: '2019-12-31',
+      reason: 'retirement',
+      monthlySalary: 1000,
+    });
+    expect(longService.cappedAt).toBe(18000);
+    expect(longService.amount).toBe(18000);
+  });
+
+  it('reduces the indemnity for resignations by length of service', () => {
+    expect(resolveIndemnityEntitlement('resignation', 2.5)).toBe(0);
+    expect(resolveIndemnityEntitlement('resignation', 4)).toBe(0.5);
+    expect(resolveIndemnityEntitlement('resignation', 7)).toBeCloseTo(2 / 3);
+    expect(resolveIndemnityEntitlement('resignation', 12)).toBe(1);
+    expect(resolveIndemnityEntitlement('misconduct', 12)).toBe(0);
+
+    const result = calculateEndOfServiceIndemnity({
+      startDate: '2020-01-01',
+      terminationDate: '2023-12-31',
+      reason: 'resignation',
+      monthlySalary: 520,
+    });
+    expect(result.amount).toBe(600);
+    expect(result.notes[0]).toContain('50%');
+  });
+
+  it('uses the salary in effect on the termination date', () => {
+    const history = [
+      { effectiveDate: '2020-01-01', amount: '400' },
+      { effectiveDate: '2022-06-01', amount: '520' },
+      { effectiveDate: '2030-01-01', amount: '900' },
+    ];
+    expect(resolveSalaryOnDate('2023-01-01', '300', history)).toBe(520);
+    expect(resolveSalaryOnDate('2019-01-01', '300', history)).toBe(300);
+
+    const result = calculateEndOfServiceIndemnity({
+      startDate: '2020-01-01',
+      terminationDate: '2022-12-31',
+      reason: 'termination',
+      monthlySalary: '300',
+      salaryHistory: history,
+    });
+    expect(result.indemnitySalary).toBe(520);
+  });
+
+  it('adds indemnity-eligible pay components to the indemnity salary', () => {
+    const result = calculateEndOfServiceIndemnity({
+      startDate: '2020-01-01',
+      terminationDate: '2022-12-31',
+      reason: 'termination',
+      monthlySalary: '400',
+      payComponents: [
+        { calculationType: 'percentage_of_basic', percentage: '25', amount: null, indemnityEligible: true },
+        { calculationType: 'amount', amount: '80', percentage: null, indemnityEligible: false },
+      ],
+    });
+
+    expect(result.indemnityComponents).toBe(100);
+    expect(result.indemnitySalary).toBe(500);
+  });
+});
+
+describe('calculateFinalSettlement', () => {
+  it('combines prorated salary, indemnity, leave encashment and loan recovery', () => {
+    const settlement = calculateFinalSettlement({
+      employeeId: 'e1',
+      startDate: '2020-01-01',
+      terminationDate: '2022-12-15',
+      periodStart: '2022-12-01',
+      reason: 'termination',
+      monthlySalary: '620',
+      leaveBalanceDays: 13,
+      loans: [
+        { id: 'l1', status: 'active', remainingAmount: '250', startDate: '2022-01-01' },
+        { id: 'l2', status: 'completed', remainingAmount: '0' },
+      ],
+    });
+
+    expect(settlement.daysInMonth).toBe(31);
+    expect(settlement.daysWorked).toBe(15);
+    expect(settlement.proratedSalary).toBe(300);
+    expect(settlement.leaveEncashmentAmount).toBe(310);
+    expect(settlement.loanRecoveries).toEqual([
+      { loanId: 'l1', outstanding: 250, recovered: 250, unrecovered: 0 },
+    ]);
+    expect(settlement.grossAmount).toBe(
+      Number((300 + 310 + settlement.indemnity.amount).toFixed(2)),
+    );
+    expect(settlement.netAmount).toBe(Number((settlement.grossAmount - 250).toFixed(2)));
+  });
+
+  it('skips salary already paid and limits loan recovery to the settlement', () => {
+    const settlement = calculateFinalSettlement({
+      employeeId: 'e1',
+      startDate: '2023-01-01',
+      terminationDate: '2023-06-20',
+      periodStart: '2023-07-01',
+      reason: 'resignation',
+      monthlySalary: 500,
+      loans: [{ id: 'l1', status: 'active', remainingAmount: '800' }],
+    });
+
+    expect(settlement.daysWorked).toBe(0);
+    expect(settlement.proratedSalary).toBe(0);
+    expect(settlement.indemnity.amount).toBe(0);
+    expect(settlement.loanRecoveries[0]).toMatchObject({ recovered: 0, unrecovered: 800 });
+    expect(settlement.netAmount).toBe(0);
+  });
+
+  it('recovers outstanding salary advances before loans', () => {
+    const input = {
+      employeeId: 'e1',
+      startDate: '2023-01-01',
+      terminationDate: '2023-06-20',
+      periodStart: '2023-06-01',
+      reason: 'resignation' as const,
+      monthlySalary: 600,
+      salaryAdvances: [
+        { id: 'a2', outstandingAmount: '300', paidDate: '2023-06-10' },
+        { id: 'a1', outstandingAmount: '50.00', paidDate: '2023-05-28' },
+      ],
+      loans: [{ id: 'l1', status: 'active', remainingAmount: '100' }],
+    };
+
+    const settlement = calculateFinalSettlement(input);
+
+    expect(settlement.grossAmount).toBe(400);
+    expect(settlement.advanceRecoveries).toEqual([
+      { advanceId: 'a1', outstanding: 50, recovered: 50, unrecovered: 0 },
+      { advanceId: 'a2', outstanding: 300, recovered: 300, unrecovered: 0 },
+    ]);
+    expect(settlement.advanceRecovery).toBe(350);
+    expect(settlement.loanRecoveries[0]).toMatchObject({ recovered: 50, unrecovered: 50 });
+    expect(settlement.netAmount).toBe(0);
+
+    const withoutLoans = calculateFinalSettlement({ ...input, recoverLoans: false });
+    expect(withoutLoans.advanceRecovery).toBe(350);
+    expect(withoutLoans.loanRecovery).toBe(0);
+    expect(withoutLoans.netAmount).toBe(50);
+  });
+});
@@ -0,0 +1,334 @@
+import { isRepayableLoan } from "./loans";
+import { resolvePayComponentMonthlyAmount, type PayComponent } from "./payroll";
+
+export const terminationReasons = [
+  "termination",
+  "resignation",
+  "contract_end",
+  "retirement",
+  "death",
+  "misconduct",
+] as const;
+
+export type TerminationReason = (typeof terminationReasons)[number];
+
+/** Kuwait Labor Law (Law 6/2010) indemnity constants. */
+const DAYS_PER_MONTH_BASIS = 26;
+const FIRST_TIER_YEARS = 5;
+const FIRST_TIER_DAYS_PER_YEAR = 15;
+const MAX_INDEMNITY_MONTHS = 18;
+
+const MS_IN_DAY = 1000 * 60 * 60 * 24;
+
+export interface SalaryHistoryEntry {
+  effectiveDate: string;
+  amount: string | number;
+}
+
+export interface EndOfServiceIndemnityInput {
+  startDate: string | Date;
+  terminationDate: string | Date;
+  reason: TerminationReason;
+  monthlySalary: string | number;
+  salaryHistory?: SalaryHistoryEntry[];
+  /** The employee's pay components; indemnity-eligible ones add to the indemnity salary. */
+  payComponents?: Array<
+    Pick<PayComponent, "calculationType" | "amount" | "percentage" | "indemnityEligible">
+  >;
+}
+
+export interface EndOfServiceIndemnity {
+  serviceDays: number;
+  serviceYears: number;
+  indemnitySalary: number;
+  indemnityComponents: number;
+  dailyRate: number;
+  firstTierYears: number;
+  firstTierAmount: number;
+  secondTierYears: number;
+  secondTierAmount: number;
+  cappedAt: number | null;
+  entitlementRatio: number;
+  amount: number;
+  notes: string[];
+}
+
+export interface FinalSettlementLoan {
+  id: string;
+  status: string;
+  remainingAmount: string | number;
+  startDate?: string | null;
+}
+
+export interface FinalSettlementAdvance {
+  id: string;
+  outstandingAmount: string | number;
+  paidDate?: string | null;
+}
+
+export interface FinalSettlementInput extends EndOfServiceIndemnityInput {
+  employeeId: string;
+  periodStart: string | Date;
+  leaveBalanceDays?: number;
+  salaryAdvances?: FinalSettlementAdvance[];
+  loans?: FinalSettlementLoan[];
+  recoverLoans?: boolean;
+}
+
+export interface FinalSettlementAdvanceRecovery {
+  advanceId: string;
+  outstanding: number;
+  recovered: number;
+  unrecovered: number;
+}
+
+export interface FinalSettlementLoanRecovery {
+  loanId: string;
+  outstanding: number;
+  recovered: number;
+  unrecovered: number;
+}
+
+export interface FinalSettlement {
+  employeeId: string;
+  periodStart: string;
+  terminationDate: string;
+  reason: TerminationReason;
+  daysInMonth: number;
+  daysWorked: number;
+  proratedSalary: number;
+  indemnity: EndOfServiceIndemnity;
+  leaveEncashmentDays: number;
+  leaveEncashmentAmount: number;
+  advanceRecoveries: FinalSettlementAdvanceRecovery[];
+  advanceRecovery: number;
+  loanRecoveries: FinalSettlementLoanRecovery[];
+  loanRecovery: number;
+  grossAmount: number;
+  netAmount: number;
+}
+
+const toNumber = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return 0;
+  const parsed = Number.parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+const toUtcDate = (value: string | Date): Date => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+const addUtcYears = (date: Date, years: number) =>
+  new Date(Date.UTC(date.getUTCFullYear() + years, date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Returns the salary in effect on the given date, preferring the latest
+ * history entry that took effect on or before it.
+ */
+export const resolveSalaryOnDate = (
+  date: string | Date,
+  fallback: string | number,
+  history: SalaryHistoryEntry[] = [],
+): number => {
+  const target = toUtcDate(date).getTime();
+  const applicable = history
+    .map(entry => ({ time: toUtcDate(entry.effectiveDate).getTime(), amount: toNumber(entry.amount) }))
+    .filter(entry => entry.time <= target)
+    .sort((a, b) => a.time - b.time);
+  const latest = applicable.at(-1);
+  return latest ? latest.amount : toNumber(fallback);
+};
+
+/**
+ * Share of the full indemnity an employee keeps for the given reason.
+ * Resignations are reduced by length of service (Article 51) and dismissal
+ * for misconduct forfeits the indemnity (Article 41).
+ */
+export const resolveIndemnityEntitlement = (
+  reason: TerminationReason,
+  serviceYears: number,
+): number => {
+  if (reason === "misconduct") return 0;
+  if (reason !== "resignation") return 1;
+  if (serviceYears < 3) return 0;
+  if (serviceYears < 5) return 0.5;
+  if (serviceYears < 10) return 2 / 3;
+  return 1;
+};
+
+/**
+ * Calculates the end-of-service indemnity: 15 days' pay (26-day month basis)
+ * for each of the first five years and a month's pay for every year after,
+ * with partial years pro-rated and the total capped at 18 months' pay. Pay
+ * is the basic salary plus the indemnity-eligible pay components.
+ */
+export function calculateEndOfServiceIndemnity(
+  input: EndOfServiceIndemnityInput,
+): EndOfServiceIndemnity {
+  const start = toUtcDate(input.startDate);
+  const terminationDate = toUtcDate(input.terminationDate);
+  const serviceEnd = new Date(terminationDate.getTime() + MS_IN_DAY);
+  const notes: string[] = [];
+
+  const serviceDays = Math.max(0, Math.round((serviceEnd.getTime() - start.getTime()) / MS_IN_DAY));
+
+  let wholeYears = 0;
+  while (addUtcYears(start, wholeYears + 1) <= serviceEnd) {
+    wholeYears += 1;
+  }
+  const anniversary = addUtcYears(start, wholeYears);
+  const remainderDays = Math.max(0, (serviceEnd.getTime() - anniversary.getTime()) / MS_IN_DAY);
+  const serviceYears = serviceDays > 0 ? wholeYears + remainderDays / 365 : 0;
+
+  const basicSalary = resolveSalaryOnDate(
+    terminationDate,
+    input.monthlySalary,
+    input.salaryHistory,
+  );
+  const indemnityComponents = (input.payComponents ?? [])
+    .filter(component => component.indemnityEligible)
+    .reduce((total, component) => total + resolvePayComponentMonthlyAmount(component, basicSalary), 0);
+  const indemnitySalary = basicSalary + indemnityComponents;
+  const dailyRate = indemnitySalary / DAYS_PER_MONTH_BASIS;
+
+  const firstTierYears = Math.min(serviceYears, FIRST_TIER_YEARS);
+  const secondTierYears = Math.max(0, serviceYears - FIRST_TIER_YEARS);
+  const firstTierAmount = firstTierYears * FIRST_TIER_DAYS_PER_YEAR * dailyRate;
+  const secondTierAmount = secondTierYears * indemnitySalary;
+
+  let fullAmount = firstTierAmount + secondTierAmount;
+  const cap = indemnitySalary * MAX_INDEMNITY_MONTHS;
+  let cappedAt: number | null = null;
+  if (fullAmount > cap) {
+    fullAmount = cap;
+    cappedAt = round2(cap);
+    notes.push(`Capped at ${MAX_INDEMNITY_MONTHS} months' salary.`);
+  }
+
+  const entitlementRatio = resolveIndemnityEntitlement(input.reason, serviceYears);
+  if (input.reason === "resignation" && entitlementRatio < 1) {
+    notes.push(
+      entitlementRatio === 0
+        ? "Resignation before 3 years of service forfeits the indemnity."
+        : `Resignation reduces the indemnity to ${Math.round(entitlementRatio * 100)}%.`,
+    );
+  }
+  if (input.reason === "misconduct") {
+    notes.push("Dismissal for misconduct forfeits the indemnity.");
+  }
+
+  return {
+    serviceDays,
+    serviceYears: round2(serviceYears),
+    indemnitySalary: round2(indemnitySalary),
+    indemnityComponents: round2(indemnityComponents),
+    dailyRate: round2(dailyRate),
+    firstTierYears: round2(firstTierYears),
+    firstTierAmount: round2(firstTierAmount),
+    secondTierYears: round2(secondTierYears),
+    secondTierAmount: round2(secondTierAmount),
+    cappedAt,
+    entitlementRatio,
+    amount: round2(fullAmount * entitlementRatio),
+    notes,
+  };
+}
+
+/**
+ * Builds the final settlement for a leaver: salary for the days worked in
+ * the termination month, the end-of-service indemnity, encashment of the
+ * remaining annual leave balance and recovery of outstanding salary advances
+ * and loans. Advances are recovered first, as in payroll; `recoverLoans`
+ * only switches off the loan recovery.
+ */
+export function calculateFinalSettlement(input: FinalSettlementInput): FinalSettlement {
+  const terminationDate = toUtcDate(input.terminationDate);
+  const monthStart = new Date(Date.UTC(terminationDate.getUTCFullYear(), terminationDate.getUTCMonth(), 1));
+  const employmentStart = toUtcDate(input.startDate);
+  const requestedStart = toUtcDate(input.periodStart);
+  const periodStart = new Date(
+    Math.max(requestedStart.getTime(), monthStart.getTime(), employmentStart.getTime()),
+  );
+
+  const daysInMonth = new Date(
+    Date.UTC(terminationDate.getUTCFullYear(), terminationDate.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  const daysWorked =
+    periodStart > terminationDate
+      ? 0
+      : Math.round((terminationDate.getTime() - periodStart.getTime()) / MS_IN_DAY) + 1;
+
+  const salary = resolveSalaryOnDate(terminationDate, input.monthlySalary, input.salaryHistory);
+  const proratedSalary = round2((salary * daysWorked) / daysInMonth);
+
+  const indemnity = calculateEndOfServiceIndemnity(input);
+
+  const leaveEncashmentDays = Math.max(0, input.leaveBalanceDays ?? 0);
+  const leaveEncashmentAmount = round2((salary / DAYS_PER_MONTH_BASIS) * leaveEncashmentDays);
+
+  const grossAmount = round2(proratedSalary + indemnity.amount + leaveEncashmentAmount);
+
+  const outstandingLoans = (input.loans ?? [])
+    .filter(loan => isRepayableLoan(loan) && toNumber(loan.remainingAmount) > 0)
+    .sort((a, b) => String(a.startDate ?? "").localeCompare(String(b.startDate ?? "")));
+
+  let available = grossAmount;
+  const advanceRecoveries: FinalSettlementAdvanceRecovery[] = [...(input.salaryAdvances ?? [])]
+    .filter(advance => toNumber(advance.outstandingAmount) > 0)
+    .sort((a, b) => String(a.paidDate ?? "").localeCompare(String(b.paidDate ?? "")))
+    .map(advance => {
+      const outstanding = round2(toNumber(advance.outstandingAmount));
+      const recovered = round2(Math.min(outstanding, Math.max(0, available)));
+      available = round2(available - recovered);
+      return {
+        advanceId: advance.id,
+        outstanding,
+        recovered,
+        unrecovered: round2(outstanding - recovered),
+      };
+    });
+  const advanceRecovery = round2(advanceRecoveries.reduce((sum, item) => sum + item.recovered, 0));
+
+  if (input.recoverLoans === false) {
+    available = 0;
+  }
+  const loanRecoveries: FinalSettlementLoanRecovery[] = outstandingLoans.map(loan => {
+    const outstanding = round2(toNumber(loan.remainingAmount));
+    const recovered = round2(Math.min(outstanding, Math.max(0, available)));
+    available = round2(available - recovered);
+    return {
+      loanId: loan.id,
+      outstanding,
+      recovered,
+      unrecovered: round2(outstanding - recovered),
+    };
+  });
+  const loanRecovery = round2(loanRecoveries.reduce((sum, item) => sum + item.recovered, 0));
+
+  return {
+    employeeId: input.employeeId,
+    periodStart: toIsoDate(periodStart),
+    terminationDate: toIsoDate(terminationDate),
+    reason: input.reason,
+    daysInMonth,
+    daysWorked,
+    proratedSalary,
+    indemnity,
+    leaveEncashmentDays,
+    leaveEncashmentAmount,
+    advanceRecoveries,
+    advanceRecovery,
+    loanRecoveries,
+    loanRecovery,
+    grossAmount,
+    netAmount: round2(grossAmount - advanceRecovery - loanRecovery),
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  countLeaveDays,
+  expandHolidays,
+  holidayDateSet,
+  holidaysForCompany,
+  toHijriDate,
+  type HolidaySource,
+} from "./holidays";
+
+const holiday = (overrides: Partial<HolidaySource>): HolidaySource => ({
+  id: "h-1",
+  companyId: null,
+  name: "Holiday",
+  kind: "one_off",
+  date: null,
+  hijriMonth: null,
+  hijriDay: null,
+  durationDays: 1,
+  confirmedDates: {},
+  ...overrides,
+});
+
+describe("expandHolidays", () => {
+  it("repeats annual holidays every year and spreads multi-day holidays", () => {
+    const occurrences = expandHolidays(
+      [holiday({ id: "national", name: "National Day", kind: "annual", date: "2020-02-25", durationDays: 2 })],
+      "2025-02-01",
+      "2025-02-28",
+    );
+
+    expect(occurrences.map(occurrence => occurrence.date)).toEqual(["2025-02-25", "2025-02-26"]);
+  });
+
+  it("includes holidays that start before the range and run into it", () => {
+    const occurrences = expandHolidays(
+      [holiday({ date: "2025-01-30", durationDays: 4 })],
+      "2025-02-01",
+      "2025-02-28",
+    );
+
+    expect(occurrences.map(occurrence => occurrence.date)).toEqual(["2025-02-01", "2025-02-02"]);
+  });
+
+  it("estimates Hijri holidays until a date is confirmed for that year", () => {
+    const eid = holiday({ id: "eid", name: "Eid al-Fitr", kind: "hijri", hijriMonth: 10, hijriDay: 1, durationDays: 3 });
+
+    expect(toHijriDate("2025-03-30")).toEqual({ year: 1446, month: 10, day: 1 });
+    expect(expandHolidays([eid], "2025-03-01", "2025-04-30")).toEqual([
+      { holidayId: "eid", name: "Eid al-Fitr", date: "2025-03-30", confirmed: false },
+      { holidayId: "eid", name: "Eid al-Fitr", date: "2025-03-31", confirmed: false },
+      { holidayId: "eid", name: "Eid al-Fitr", date: "2025-04-01", confirmed: false },
+    ]);
+
+    const confirmed = expandHolidays(
+      [{ ...eid, confirmedDates: { "1446": "2025-03-31" } }],
+      "2025-03-01",
+      "2025-04-30",
+    );
+    expect(confirmed.map(occurrence => [occurrence.date, occurrence.confirmed])).toEqual([
+      ["2025-03-31", true],
+      ["2025-04-01", true],
+      ["2025-04-02", true],
+    ]);
+  });
+});
+
+describe("holiday helpers", () => {
+  it("keeps a company's own and shared holidays", () => {
+    const holidays = [
+      holiday({ id: "shared" }),
+      holiday({ id: "kw", companyId: "co-kw" }),
+      holiday({ id: "ae", companyId: "co-ae" }),
+    ];
+
+    expect(holidaysForCompany(holidays, "co-kw").map(item => item.id)).toEqual(["shared", "kw"]);
+  });
+
+  it("leaves holidays out of leave day counts", () => {
+    const holidays = holidayDateSet(
+      expandHolidays([holiday({ date: "2025-02-25", durationDays: 2 })], "2025-02-20", "2025-02-28"),
+    );
+
+    expect(countLeaveDays("2025-02-20", "2025-02-28", holidays)).toBe(7);
+  });
+});
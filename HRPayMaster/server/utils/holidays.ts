@@ -0,0 +1,168 @@
+import type { CompanyHoliday } from "@shared/schema";
+
+const MS_IN_DAY = 1000 * 60 * 60 * 24;
+
+export type HolidaySource = Pick<
+  CompanyHoliday,
+  "id" | "companyId" | "name" | "kind" | "date" | "hijriMonth" | "hijriDay" | "durationDays" | "confirmedDates"
+>;
+
+export interface HolidayOccurrence {
+  holidayId: string;
+  name: string;
+  date: string;
+  /** False for Hijri holidays whose date is still the Umm al-Qura estimate. */
+  confirmed: boolean;
+}
+
+const toIsoDate = (value: string | Date) => {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = value instanceof Date ? value : new Date(value);
+  return date.toISOString().split("T")[0];
+};
+
+const addDays = (isoDate: string, days: number) =>
+  toIsoDate(new Date(new Date(`${isoDate}T00:00:00.000Z`).getTime() + days * MS_IN_DAY));
+
+const hijriFormatter = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura", {
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  timeZone: "UTC",
+});
+
+/** Umm al-Qura date of a Gregorian ISO date. */
+export const toHijriDate = (isoDate: string) => {
+  const parts = hijriFormatter.formatToParts(new Date(`${isoDate}T00:00:00.000Z`));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number.parseInt(parts.find(item => item.type === type)?.value ?? "0", 10);
+  return { year: part("year"), month: part("month"), day: part("day") };
+};
+
+/** Holidays that apply to a company: its own and those shared by every company. */
+export const holidaysForCompany = <T extends Pick<HolidaySource, "companyId">>(
+  holidays: T[],
+  companyId: string | null | undefined,
+): T[] => holidays.filter(holiday => !holiday.companyId || holiday.companyId === companyId);
+
+/**
+ * Company whose holiday calendar an employee follows. Employees without a
+ * company follow the only company of a single-company install.
+ */
+export const resolveHolidayCompanyId = (
+  employee: { companyId?: string | null },
+  companies: Array<{ id: string }>,
+): string | null => employee.companyId ?? (companies.length === 1 ? companies[0].id : null);
+
+const holidayStartDates = (
+  holiday: HolidaySource,
+  firstDay: string,
+  lastDay: string,
+): Array<{ date: string; confirmed: boolean }> => {
+  if (holiday.kind === "hijri") {
+    const confirmedDates = holiday.confirmedDates ?? {};
+    const starts = Object.values(confirmedDates).map(date => ({ date, confirmed: true }));
+    if (!holiday.hijriMonth || !holiday.hijriDay) return starts;
+    for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+      const hijri = toHijriDate(day);
+      if (
+        hijri.month === holiday.hijriMonth &&
+        hijri.day === holiday.hijriDay &&
+        !confirmedDates[String(hijri.year)]
+      ) {
+        starts.push({ date: day, confirmed: false });
+      }
+    }
+    return starts;
+  }
+
+  if (!holiday.date) return [];
+  const date = toIsoDate(holiday.date);
+  if (holiday.kind !== "annual") return [{ date, confirmed: true }];
+
+  const monthDay = date.slice(5);
+  const starts: Array<{ date: string; confirmed: boolean }> = [];
+  for (let year = Number(firstDay.slice(0, 4)); year <= Number(lastDay.slice(0, 4)); year += 1) {
+    const candidate = `${year}-${monthDay}`;
+    // 29 February only recurs in leap years.
+    if (toIsoDate(new Date(`${candidate}T00:00:00.000Z`)) === candidate) {
+      starts.push({ date: candidate, confirmed: true });
+    }
+  }
+  return starts;
+};
+
+/**
+ * Days between `start` and `end` (inclusive) that are holidays, expanding
+ * multi-day holidays from their start date. Sorted by date.
+ */
+export function expandHolidays(
+  holidays: HolidaySource[],
+  start: string | Date,
+  end: string | Date,
+): HolidayOccurrence[] {
+  const startDay = toIsoDate(start);
+  const endDay = toIsoDate(end);
+  if (startDay > endDay) return [];
+
+  const occurrences: HolidayOccurrence[] = [];
+  for (const holiday of holidays) {
+    const duration = Math.max(1, holiday.durationDays ?? 1);
+    // Holidays starting shortly before the range can still run into it.
+    const firstStart = addDays(startDay, -(duration - 1));
+    for (const { date, confirmed } of holidayStartDates(holiday, firstStart, endDay)) {
+      for (let offset = 0; offset < duration; offset += 1) {
+        const day = addDays(date, offset);
+        if (day >= startDay && day <= endDay) {
+          occurrences.push({ holidayId: holiday.id, name: holiday.name, date: day, confirmed });
+        }
+      }
+    }
+  }
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+}
+
+export const holidayDateSet = (occurrences: HolidayOccurrence[]): Set<string> =>
+  new Set(occurrences.map(occurrence => occurrence.date));
+
+// Friday and Saturday, the weekend in Kuwait.
+const DEFAULT_REST_WEEKDAYS = new Set([5, 6]);
+
+/**
+ * Holidays in `holidays` that fall on the employee's working days between
+ * `start` and `end`: the dates in `workDates` when the employee is scheduled,
+ * otherwise Sunday to Thursday.
+ */
+export const countWorkingDayHolidays = (
+  start: string | Date,
+  end: string | Date,
+  holidays: ReadonlySet<string>,
+  workDates?: ReadonlySet<string>,
+): number => {
+  const startDay = toIsoDate(start);
+  const endDay = toIsoDate(end);
+  let days = 0;
+  for (const day of holidays) {
+    if (day < startDay || day > endDay) continue;
+    const working = workDates
+      ? workDates.has(day)
+      : !DEFAULT_REST_WEEKDAYS.has(new Date(`${day}T00:00:00.000Z`).getUTCDay());
+    if (working) days += 1;
+  }
+  return days;
+};
+
+/** Calendar days of a leave request that are not holidays. */
+export const countLeaveDays = (
+  start: string | Date,
+  end: string | Date,
+  holidays: ReadonlySet<string>,
+): number => {
+  const startDay = toIsoDate(start);
+  const endDay = toIsoDate(end);
+  let days = 0;
+  for (let day = startDay; day <= endDay; day = addDays(day, 1)) {
+    if (!holidays.has(day)) days += 1;
+  }
+  return days;
+};
@@ -1,7 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import {
   generateAmortizationSchedule,
+  DEFAULT_LOAN_POLICY,
+  isRepayableLoan,
   mapScheduleToInsert,
+  planLoanRestructure,
+  rescheduleRemainingBalance,
+  resolveLoanPolicy,
   shouldPauseLoanForLeave,
   validateLoanPolicies,
 } from './loans';
@@ -30,6 +35,98 @@ describe('generateAmortizationSchedule', () => {
       }),
     ).toThrow(/insufficient/);
   });
+
+  it('charges flat interest on the original amount', () => {
+    const schedule = generateAmortizationSchedule({
+      amount: 1200,
+      monthlyPayment: 112,
+      interestRate: 12,
+      interestMethod: 'flat',
+      startDate: '2024-01-01',
+    });
+
+    expect(schedule.every(entry => entry.interestAmount === 12)).toBe(true);
+    expect(schedule[0].principalAmount).toBe(100);
+    expect(schedule).toHaveLength(12);
+  });
+});
+
+describe('rescheduleRemainingBalance', () => {
+  it('continues after the paid instalments from the first unpaid due date', () => {
+    const schedule = rescheduleRemainingBalance({
+      balance: 250,
+      monthlyPayment: 100,
+      interestRate: 0,
+      schedule: [
+        { installmentNumber: 1, dueDate: '2024-01-01', status: 'paid' },
+        { installmentNumber: 2, dueDate: '2024-02-01', status: 'paid' },
+        { installmentNumber: 3, dueDate: '2024-03-01', status: 'pending' },
+        { installmentNumber: 4, dueDate: '2024-04-01', status: 'pending' },
+      ],
+      fallbackStartDate: '2024-06-01',
+    });
+
+    expect(schedule.map(entry => entry.installmentNumber)).toEqual([3, 4, 5]);
+    expect(schedule[0].dueDate).toBe('2024-03-01');
+    expect(schedule.at(-1)?.paymentAmount).toBe(50);
+    expect(schedule.at(-1)?.remainingBalance).toBe(0);
+  });
+});
+
+describe('planLoanRestructure', () => {
+  const loan = {
+    remainingAmount: '600',
+    monthlyDeduction: '100',
+    interestRate: '0',
+    interestMethod: 'interest_free',
+    endDate: '2024-12-01',
+  };
+  const schedule = [
+    { installmentNumber: 1, dueDate: '2024-01-01', status: 'paid' },
+    { installmentNumber: 2, dueDate: '2024-02-01', status: 'paid' },
+    { installmentNumber: 3, dueDate: '2024-03-01', status: 'pending' },
+  ];
+  const plan = (request: any, overrides: Partial<typeof loan> = {}) =>
+    planLoanRestructure({
+      loan: { ...loan, ...overrides },
+      schedule,
+      request,
+      fallbackStartDate: '2024-03-01',
+    });
+
+  it('defers the next instalments and pushes the end date back', () => {
+    const result = plan({ type: 'defer_installments', deferInstallments: 2, reason: 'Hardship' });
+
+    expect(result.schedule[0]).toMatchObject({ installmentNumber: 3, dueDate: '2024-05-01' });
+    expect(result.schedule).toHaveLength(6);
+    expect(result.monthlyDeduction).toBe(100);
+    expect(result.endDate).toBe('2025-02-01');
+  });
+
+  it('changes the monthly deduction and moves the end date to the last instalment', () => {
+    const result = plan({ type: 'change_monthly_deduction', monthlyDeduction: 50, reason: 'Hardship' });
+
+    expect(result.schedule).toHaveLength(12);
+    expect(result.schedule.every(entry => entry.paymentAmount === 50)).toBe(true);
+    expect(result.endDate).toBe('2025-02-01');
+  });
+
+  it('spreads the balance up to a later end date', () => {
+    const result = plan({ type: 'extend_end_date', endDate: '2025-02-01', reason: 'Hardship' });
+
+    expect(result.monthlyDeduction).toBe(50);
+    expect(result.schedule).toHaveLength(12);
+    expect(result.schedule.at(-1)).toMatchObject({ dueDate: '2025-02-01', remainingBalance: 0 });
+  });
+
+  it('refuses an end date that does not extend the loan', () => {
+    expect(() => plan({ type: 'extend_end_date', endDate: '2024-10-01', reason: 'x' })).toThrow(
+      /after the current end date/,
+    );
+    expect(() => plan({ type: 'defer_installments', deferInstallments: 1, reason: 'x' }, { remainingAmount: '0' })).toThrow(
+      /no outstanding balance/,
+    );
+  });
 });
 
 describe('validateLoanPolicies', () => {
@@ -83,6 +180,90 @@ describe('validateLoanPolicies', () => {
 
     expect(result.warnings).toContain('Amortization schedule does not cover the full loan amount.');
   });
+
+  it('reports each policy rule the loan breaks', () => {
+    const result = validateLoanPolicies({
+      loan: {
+        amount: '5000',
+        monthlyDeduction: '250',
+        interestRate: '5',
+        interestMethod: 'flat',
+        startDate: '2024-06-01',
+        endDate: null,
+        status: 'pending',
+      },
+      documents: [],
+      employeeSalary: 1000,
+      employeeStartDate: '2024-03-15',
+      activeLoanCount: 1,
+      policy: {
+        ...DEFAULT_LOAN_POLICY,
+        id: 'policy-1',
+        name: 'Operations',
+        maxDeductionPercent: '40',
+        deductionWarningPercent: '20',
+        maxSalaryMultiple: '3',
+        minServiceMonths: 6,
+        maxActiveLoans: 1,
+        maxTermMonths: 12,
+        allowedInterestMethods: ['interest_free', 'reducing_balance'],
+        requiredDocumentTypes: ['salary_certificate'],
+      },
+    });
+
+    expect(result.policy).toEqual({ id: 'policy-1', name: 'Operations' });
+    expect(result.failedRules.map(rule => [rule.rule, rule.severity])).toEqual([
+      ['max_deduction_percent', 'warning'],
+      ['max_salary_multiple', 'violation'],
+      ['min_service_months', 'violation'],
+      ['max_active_loans', 'violation'],
+      ['max_term_months', 'violation'],
+      ['allowed_interest_methods', 'violation'],
+      ['required_document_types', 'warning'],
+    ]);
+    expect(result.warnings).toContain('Monthly deduction exceeds 20% of employee salary.');
+    expect(result.violations).toContain("Loan amount exceeds 3x the employee's monthly salary.");
+    expect(result.violations).toContain('Employee has 2 months of service; the policy requires 6.');
+    expect(result.isCompliant).toBe(false);
+  });
+
+  it('requires the policy documents before activation', () => {
+    const result = validateLoanPolicies({
+      loan: {
+        amount: '1000',
+        monthlyDeduction: '100',
+        interestRate: '0',
+        startDate: '2024-01-01',
+        endDate: null,
+        status: 'active',
+      },
+      approvalStages: [],
+      documents: [{ documentType: 'id_copy' }],
+      policy: { ...DEFAULT_LOAN_POLICY, requiredDocumentTypes: ['id_copy', 'salary_certificate'] },
+      strict: true,
+    });
+
+    expect(result.violations).toEqual(['Required documents are missing: salary_certificate.']);
+  });
+});
+
+describe('resolveLoanPolicy', () => {
+  const policy = (id: string, companyId: string | null, departmentId: string | null, active = true) =>
+    ({ ...DEFAULT_LOAN_POLICY, id, name: id, companyId, departmentId, active }) as any;
+
+  it('prefers the department policy, then the company, then the global one', () => {
+    const policies = [
+      policy('global', null, null),
+      policy('company', 'co-1', null),
+      policy('department', 'co-1', 'dep-1'),
+      policy('inactive', 'co-1', 'dep-2', false),
+    ];
+
+    expect(resolveLoanPolicy(policies, { companyId: 'co-1', departmentId: 'dep-1' })?.id).toBe('department');
+    expect(resolveLoanPolicy(policies, { companyId: 'co-1', departmentId: 'dep-2' })?.id).toBe('company');
+    expect(resolveLoanPolicy(policies, { companyId: 'co-2', departmentId: null })?.id).toBe('global');
+    expect(resolveLoanPolicy([], { companyId: 'co-1' })).toBeUndefined();
+  });
 });
 
 describe('shouldPauseLoanForLeave', () => {
@@ -104,6 +285,15 @@ describe('shouldPauseLoanForLeave', () => {
   });
 });
 
+describe('isRepayableLoan', () => {
+  it('treats legacy approved loans like active ones', () => {
+    expect(isRepayableLoan({ status: 'active' })).toBe(true);
+    expect(isRepayableLoan({ status: 'approved' })).toBe(true);
+    expect(isRepayableLoan({ status: 'pending' })).toBe(false);
+    expect(isRepayableLoan({ status: 'completed' })).toBe(false);
+  });
+});
+
 describe('mapScheduleToInsert', () => {
   it('maps generated schedule entries to insert payload', () => {
     const schedule = generateAmortizationSchedule({
@@ -3,7 +3,11 @@ import {
   type Loan,
   type LoanApprovalStage,
   type LoanAmortizationScheduleEntry,
-  type LoanDocument,
+  type LoanInterestMethod,
+  type LoanPolicy,
+  type LoanPolicyRule,
+  type LoanPolicyRuleFailure,
+  type LoanRestructureRequest,
 } from "@shared/schema";
 
 const toNumber = (value: string | number | null | undefined) => {
@@ -12,6 +16,11 @@ const toNumber = (value: string | number | null | undefined) => {
   return Number.isFinite(parsed) ? parsed : 0;
 };
 
+/** Loan statuses payroll deducts from; "approved" is the legacy name for active. */
+export const REPAYABLE_LOAN_STATUSES: ReadonlySet<string> = new Set(["active", "approved"]);
+
+export const isRepayableLoan = (loan: Pick<Loan, "status">) => REPAYABLE_LOAN_STATUSES.has(loan.status);
+
 const addMonths = (date: Date, months: number): Date => {
   const result = new Date(date.getTime());
   const day = result.getDate();
@@ -22,9 +31,28 @@ const addMonths = (date: Date, months: number): Date => {
   return result;
 };
 
+const monthsBetween = (from: Date, to: Date): number => {
+  let months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  if (to.getDate() < from.getDate()) {
+    months -= 1;
+  }
+  return months;
+};
+
+/** A loan without interest is interest free whatever method it was given. */
+export const resolveInterestMethod = (
+  interestRate: string | number | null | undefined,
+  interestMethod?: string | null,
+): LoanInterestMethod => {
+  if (toNumber(interestRate) <= 0) return "interest_free";
+  return interestMethod === "flat" ? "flat" : "reducing_balance";
+};
+
 export interface AmortizationScheduleInput {
   amount: number;
   interestRate?: number | null;
+  /** Flat interest is charged on the original amount rather than the balance. */
+  interestMethod?: LoanInterestMethod | null;
   monthlyPayment: number;
   startDate: string | Date;
   endDate?: string | Date | null;
@@ -45,10 +73,13 @@ export const generateAmortizationSchedule = (
   const principal = Math.max(0, Number(input.amount || 0));
   const monthlyPayment = Math.max(0, Number(input.monthlyPayment || 0));
   const annualRate = Number(input.interestRate || 0);
-  const monthlyRate = annualRate > 0 ? annualRate / 12 / 100 : 0;
+  const method = resolveInterestMethod(annualRate, input.interestMethod);
+  const monthlyRate = method === "interest_free" ? 0 : annualRate / 12 / 100;
   if (principal <= 0 || monthlyPayment <= 0) {
     return [];
   }
+  const interestOn = (balance: number) =>
+    (method === "flat" ? principal : balance) * monthlyRate;
 
   const schedule: GeneratedScheduleEntry[] = [];
   let balance = principal;
@@ -65,7 +96,7 @@ export const generateAmortizationSchedule = (
     const dueDate = addMonths(start, installment - 1);
     if (endDate && dueDate > endDate) {
       // If a hard end date is provided, finish with a balloon payment
-      const interestPortion = monthlyRate > 0 ? balance * monthlyRate : 0;
+      const interestPortion = interestOn(balance);
       const principalPortion = balance;
       const totalPayment = principalPortion + interestPortion;
       schedule.push({
@@ -80,7 +111,7 @@ export const generateAmortizationSchedule = (
       break;
     }
 
-    const interestPortion = monthlyRate > 0 ? balance * monthlyRate : 0;
+    const interestPortion = interestOn(balance);
     let principalPortion = monthlyPayment - interestPortion;
     if (principalPortion <= 0) {
       throw new Error(
@@ -115,14 +146,203 @@ export const generateAmortizationSchedule = (
   return schedule;
 };
 
+/**
+ * Builds the instalments that replace a loan's unpaid schedule once its
+ * balance has changed. Paid instalments are kept; the new ones continue
+ * their numbering from the first unpaid due date.
+ */
+export const rescheduleRemainingBalance = (input: {
+  balance: number;
+  monthlyPayment: number;
+  interestRate?: number | null;
+  interestMethod?: LoanInterestMethod | null;
+  endDate?: string | Date | null;
+  schedule: Array<Pick<LoanAmortizationScheduleEntry, "installmentNumber" | "dueDate" | "status">>;
+  fallbackStartDate: string;
+  /** Months to push the first new instalment back by. */
+  deferMonths?: number;
+}): GeneratedScheduleEntry[] => {
+  const ordered = [...input.schedule].sort((a, b) => a.installmentNumber - b.installmentNumber);
+  const paid = ordered.filter(entry => entry.status === "paid");
+  const offset = paid.reduce((max, entry) => Math.max(max, entry.installmentNumber), 0);
+  const startDate = firstUnpaidDueDate(ordered, input.fallbackStartDate);
+  return generateAmortizationSchedule({
+    amount: input.balance,
+    monthlyPayment: input.monthlyPayment,
+    interestRate: input.interestRate,
+    interestMethod: input.interestMethod,
+    startDate: input.deferMonths ? toIsoDate(addMonths(new Date(startDate), input.deferMonths)) : startDate,
+    endDate: input.endDate,
+  }).map(entry => ({ ...entry, installmentNumber: entry.installmentNumber + offset }));
+};
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+const firstUnpaidDueDate = (
+  schedule: Array<Pick<LoanAmortizationScheduleEntry, "installmentNumber" | "dueDate" | "status">>,
+  fallback: string,
+) =>
+  [...schedule]
+    .sort((a, b) => a.installmentNumber - b.installmentNumber)
+    .find(entry => entry.status !== "paid")?.dueDate ?? fallback;
+
+/** Monthly payment that clears a balance in the given number of instalments. */
+const paymentForTerm = (
+  balance: number,
+  installments: number,
+  interestRate: number,
+  method: LoanInterestMethod,
+) => {
+  const rate = method === "interest_free" ? 0 : interestRate / 12 / 100;
+  let payment: number;
+  if (rate === 0) {
+    payment = balance / installments;
+  } else if (method === "flat") {
+    payment = balance / installments + balance * rate;
+  } else {
+    payment = (balance * rate) / (1 - Math.pow(1 + rate, -installments));
+  }
+  // Round up so the last instalment is not left with a few fils.
+  return Math.ceil(payment * 100) / 100;
+};
+
+export interface LoanRestructurePlan {
+  schedule: GeneratedScheduleEntry[];
+  monthlyDeduction: number;
+  endDate: string | null;
+}
+
+/**
+ * Works out the terms and unpaid schedule a loan would have after a
+ * restructure. Throws when the request cannot be applied to the loan.
+ */
+export const planLoanRestructure = ({
+  loan,
+  schedule,
+  request,
+  fallbackStartDate,
+}: {
+  loan: Pick<Loan, "remainingAmount" | "monthlyDeduction" | "interestRate" | "interestMethod" | "endDate">;
+  schedule: Array<Pick<LoanAmortizationScheduleEntry, "installmentNumber" | "dueDate" | "status">>;
+  request: LoanRestructureRequest;
+  fallbackStartDate: string;
+}): LoanRestructurePlan => {
+  const balance = toNumber(loan.remainingAmount);
+  if (balance <= 0) {
+    throw new Error("The loan has no outstanding balance to restructure.");
+  }
+  const interestRate = toNumber(loan.interestRate);
+  const interestMethod = resolveInterestMethod(interestRate, loan.interestMethod);
+  const base = { balance, interestRate, interestMethod, schedule, fallbackStartDate };
+
+  if (request.type === "defer_installments") {
+    const endDate = loan.endDate
+      ? toIsoDate(addMonths(new Date(loan.endDate), request.deferInstallments))
+      : null;
+    const monthlyDeduction = toNumber(loan.monthlyDeduction);
+    return {
+      schedule: rescheduleRemainingBalance({
+        ...base,
+        monthlyPayment: monthlyDeduction,
+        endDate,
+        deferMonths: request.deferInstallments,
+      }),
+      monthlyDeduction,
+      endDate,
+    };
+  }
+
+  if (request.type === "change_monthly_deduction") {
+    const entries = rescheduleRemainingBalance({ ...base, monthlyPayment: request.monthlyDeduction });
+    return {
+      schedule: entries,
+      monthlyDeduction: request.monthlyDeduction,
+      endDate: loan.endDate ? entries.at(-1)?.dueDate ?? loan.endDate : null,
+    };
+  }
+
+  const nextDue = firstUnpaidDueDate(schedule, fallbackStartDate);
+  if (loan.endDate && request.endDate <= loan.endDate) {
+    throw new Error(`The new end date must be after the current end date of ${loan.endDate}.`);
+  }
+  if (request.endDate < nextDue) {
+    throw new Error(`The new end date must be on or after the next instalment due on ${nextDue}.`);
+  }
+  const installments = monthsBetween(new Date(nextDue), new Date(request.endDate)) + 1;
+  const monthlyDeduction = paymentForTerm(balance, installments, interestRate, interestMethod);
+  return {
+    schedule: rescheduleRemainingBalance({
+      ...base,
+      monthlyPayment: monthlyDeduction,
+      endDate: request.endDate,
+    }),
+    monthlyDeduction,
+    endDate: request.endDate,
+  };
+};
+
+export type LoanPolicyLimits = Pick<
+  LoanPolicy,
+  | "maxDeductionPercent"
+  | "deductionWarningPercent"
+  | "maxSalaryMultiple"
+  | "minServiceMonths"
+  | "maxActiveLoans"
+  | "maxTermMonths"
+  | "allowedInterestMethods"
+  | "requiredDocumentTypes"
+> &
+  Partial<Pick<LoanPolicy, "id" | "name">>;
+
+/** Limits applied when no loan policy has been configured. */
+export const DEFAULT_LOAN_POLICY: LoanPolicyLimits = {
+  maxDeductionPercent: "50",
+  deductionWarningPercent: "35",
+  maxSalaryMultiple: null,
+  minServiceMonths: null,
+  maxActiveLoans: null,
+  maxTermMonths: null,
+  allowedInterestMethods: null,
+  requiredDocumentTypes: [],
+};
+
+/**
+ * Picks the active policy for an employee: a department policy wins over a
+ * company policy, which wins over a global one.
+ */
+export const resolveLoanPolicy = (
+  policies: LoanPolicy[],
+  employee: { companyId?: string | null; departmentId?: string | null } | null | undefined,
+): LoanPolicy | undefined => {
+  const active = policies.filter(policy => policy.active);
+  const companyId = employee?.companyId ?? null;
+  const departmentId = employee?.departmentId ?? null;
+  const inCompany = (policy: LoanPolicy) => !policy.companyId || policy.companyId === companyId;
+  return (
+    (departmentId
+      ? active.find(policy => policy.departmentId === departmentId && inCompany(policy))
+      : undefined) ??
+    (companyId
+      ? active.find(policy => !policy.departmentId && policy.companyId === companyId)
+      : undefined) ??
+    active.find(policy => !policy.departmentId && !policy.companyId)
+  );
+};
+
 export interface LoanPolicyValidationContext {
   loan: Pick<Loan | InsertLoan, "amount" | "monthlyDeduction" | "interestRate" | "startDate" | "endDate" | "status"> & {
     approvalState?: string | null;
+    interestMethod?: string | null;
   };
   approvalStages?: LoanApprovalStage[];
-  documents?: LoanDocument[];
+  documents?: Array<{ documentType?: string | null }>;
   employeeSalary?: number | null;
-  existingSchedule?: LoanAmortizationScheduleEntry[];
+  employeeStartDate?: string | null;
+  /** Other active or pending loans the employee already has. */
+  activeLoanCount?: number;
+  /** Stored instalments, generated ones, or a mix of both. */
+  existingSchedule?: Array<Pick<LoanAmortizationScheduleEntry | GeneratedScheduleEntry, "paymentAmount">>;
+  policy?: LoanPolicyLimits | null;
   strict?: boolean;
 }
 
@@ -130,17 +350,34 @@ export interface LoanPolicyValidationResult {
   isCompliant: boolean;
   violations: string[];
   warnings: string[];
+  failedRules: LoanPolicyRuleFailure[];
+  policy: { id: string; name: string } | null;
 }
 
+const formatLimit = (value: number) => String(Number(value.toFixed(2)));
+
 export const validateLoanPolicies = (
   context: LoanPolicyValidationContext,
 ): LoanPolicyValidationResult => {
   const violations: string[] = [];
   const warnings: string[] = [];
+  const failedRules: LoanPolicyRuleFailure[] = [];
+  const policy = context.policy ?? DEFAULT_LOAN_POLICY;
+  const fail = (
+    rule: LoanPolicyRule,
+    severity: LoanPolicyRuleFailure["severity"],
+    message: string,
+    limit: LoanPolicyRuleFailure["limit"],
+    actual: LoanPolicyRuleFailure["actual"],
+  ) => {
+    (severity === "violation" ? violations : warnings).push(message);
+    failedRules.push({ rule, severity, message, limit, actual });
+  };
 
   const amount = toNumber(context.loan.amount);
   const payment = toNumber(context.loan.monthlyDeduction);
   const rate = Number(context.loan.interestRate ?? 0);
+  const interestMethod = resolveInterestMethod(rate, context.loan.interestMethod);
 
   if (amount <= 0) {
     violations.push("Loan amount must be greater than zero.");
@@ -155,7 +392,7 @@ export const validateLoanPolicies = (
     violations.push("Start date must be before the end date.");
   }
 
-  if (rate > 0 && payment <= amount * (rate / 12 / 100)) {
+  if (interestMethod !== "interest_free" && payment <= amount * (rate / 12 / 100)) {
     violations.push(
       "Monthly deduction must exceed the interest portion to reduce principal.",
     );
@@ -164,15 +401,97 @@ export const validateLoanPolicies = (
   if (context.employeeSalary !== undefined && context.employeeSalary !== null) {
     const salary = Number(context.employeeSalary);
     if (Number.isFinite(salary) && salary > 0) {
-      const ratio = payment / salary;
-      if (ratio > 0.5) {
-        violations.push("Monthly deduction exceeds 50% of employee salary.");
-      } else if (ratio > 0.35) {
-        warnings.push("Monthly deduction exceeds 35% of employee salary.");
+      const percent = (payment / salary) * 100;
+      const maxPercent = toNumber(policy.maxDeductionPercent);
+      const warnPercent =
+        policy.deductionWarningPercent === null ? null : toNumber(policy.deductionWarningPercent);
+      if (percent > maxPercent) {
+        fail(
+          "max_deduction_percent",
+          "violation",
+          `Monthly deduction exceeds ${formatLimit(maxPercent)}% of employee salary.`,
+          maxPercent,
+          Number(percent.toFixed(2)),
+        );
+      } else if (warnPercent !== null && percent > warnPercent) {
+        fail(
+          "max_deduction_percent",
+          "warning",
+          `Monthly deduction exceeds ${formatLimit(warnPercent)}% of employee salary.`,
+          warnPercent,
+          Number(percent.toFixed(2)),
+        );
+      }
+
+      if (policy.maxSalaryMultiple !== null) {
+        const maxMultiple = toNumber(policy.maxSalaryMultiple);
+        if (amount > salary * maxMultiple) {
+          fail(
+            "max_salary_multiple",
+            "violation",
+            `Loan amount exceeds ${formatLimit(maxMultiple)}x the employee's monthly salary.`,
+            maxMultiple,
+            Number((amount / salary).toFixed(2)),
+          );
+        }
+      }
+    }
+  }
+
+  if (policy.minServiceMonths !== null && context.employeeStartDate) {
+    const hired = new Date(context.employeeStartDate);
+    if (!Number.isNaN(hired.getTime()) && !Number.isNaN(start.getTime())) {
+      const served = Math.max(0, monthsBetween(hired, start));
+      if (served < policy.minServiceMonths) {
+        fail(
+          "min_service_months",
+          "violation",
+          `Employee has ${served} months of service; the policy requires ${policy.minServiceMonths}.`,
+          policy.minServiceMonths,
+          served,
+        );
       }
     }
   }
 
+  if (policy.maxActiveLoans !== null && context.activeLoanCount !== undefined) {
+    if (context.activeLoanCount >= policy.maxActiveLoans) {
+      fail(
+        "max_active_loans",
+        "violation",
+        `Employee already has ${context.activeLoanCount} open ${
+          context.activeLoanCount === 1 ? "loan" : "loans"
+        }; the policy allows ${policy.maxActiveLoans}.`,
+        policy.maxActiveLoans,
+        context.activeLoanCount,
+      );
+    }
+  }
+
+  if (policy.maxTermMonths !== null && payment > 0) {
+    const term = context.existingSchedule?.length || Math.ceil(amount / payment);
+    if (term > policy.maxTermMonths) {
+      fail(
+        "max_term_months",
+        "violation",
+        `Loan term of ${term} months exceeds the policy maximum of ${policy.maxTermMonths}.`,
+        policy.maxTermMonths,
+        term,
+      );
+    }
+  }
+
+  const allowedMethods = policy.allowedInterestMethods;
+  if (allowedMethods && allowedMethods.length > 0 && !allowedMethods.includes(interestMethod)) {
+    fail(
+      "allowed_interest_methods",
+      "violation",
+      `Interest method "${interestMethod}" is not allowed by the policy.`,
+      allowedMethods,
+      [interestMethod],
+    );
+  }
+
   const strict = Boolean(context.strict);
   if (strict) {
     const approvalStages = context.approvalStages ?? [];
@@ -189,6 +508,22 @@ export const validateLoanPolicies = (
     }
   }
 
+  const requiredTypes = policy.requiredDocumentTypes ?? [];
+  if (requiredTypes.length > 0) {
+    const uploaded = new Set((context.documents ?? []).map(doc => doc.documentType).filter(Boolean));
+    const missing = requiredTypes.filter(type => !uploaded.has(type));
+    if (missing.length > 0) {
+      // Documents can follow the request, so they only block activation.
+      fail(
+        "required_document_types",
+        strict ? "violation" : "warning",
+        `Required documents are missing: ${missing.join(", ")}.`,
+        requiredTypes,
+        missing,
+      );
+    }
+  }
+
   if (context.existingSchedule && context.existingSchedule.length > 0) {
     const totalScheduled = context.existingSchedule.reduce((sum, entry) => {
       return sum + toNumber(entry.paymentAmount);
@@ -202,6 +537,8 @@ export const validateLoanPolicies = (
     isCompliant: violations.length === 0,
     violations,
     warnings,
+    failedRules,
+    policy: policy.id && policy.name ? { id: policy.id, name: policy.name } : null,
   };
 };
 
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { calculateOvertimePay, resolveOvertimeRates } from "./overtime";
+import { calculateEmployeePayroll } from "./payroll";
+
+const rates = resolveOvertimeRates({});
+const publicHolidays = new Set(["2024-02-25"]);
+
+describe("calculateOvertimePay", () => {
+  it("prices each day at the multiplier for its day type", () => {
+    const result = calculateOvertimePay({
+      days: [
+        { scheduleId: "s-2", date: "2024-02-25", minutes: 60, expectedMinutes: 480, limitMinutes: 120 },
+        { scheduleId: "s-1", date: "2024-02-04", minutes: 90, expectedMinutes: 480, limitMinutes: 120 },
+        { scheduleId: "s-3", date: "2024-02-09", minutes: 120, expectedMinutes: 0, limitMinutes: 120 },
+      ],
+      monthlySalary: 1200,
+      workingDays: 30,
+      rates,
+      publicHolidays,
+    });
+
+    // 1200 / 30 days / 8 hours = 5 an hour
+    expect(result.lines.map(line => [line.scheduleId, line.dayType, line.rate, line.amount])).toEqual([
+      ["s-1", "normal", 1.25, 9.38],
+      ["s-3", "rest_day", 1.5, 15],
+      ["s-2", "public_holiday", 2, 10],
+    ]);
+    expect(result.lines[0].hourlyRate).toBe(5);
+    expect(result.amount).toBe(34.38);
+  });
+
+  it("caps paid minutes at the shift's overtime limit", () => {
+    const result = calculateOvertimePay({
+      days: [{ scheduleId: "s-1", date: "2024-02-04", minutes: 200, expectedMinutes: 480, limitMinutes: 120 }],
+      monthlySalary: 1200,
+      workingDays: 30,
+      rates,
+    });
+
+    expect(result.lines[0]).toMatchObject({ approvedMinutes: 200, paidMinutes: 120, amount: 12.5 });
+  });
+
+  it("falls back to the default rates when the company settings are invalid", () => {
+    expect(resolveOvertimeRates({ normalDayRate: "fast" })).toMatchObject({
+      normalDayRate: 1.25,
+      restDayRate: 1.5,
+      publicHolidayRate: 2,
+      hoursPerDay: 8,
+    });
+  });
+});
+
+describe("calculateEmployeePayroll with schedule overtime", () => {
+  it("adds overtime pay to the bonus amount and itemises it on the entry", () => {
+    const result = calculateEmployeePayroll({
+      employee: { id: "emp-1", salary: "1200", status: "active" },
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [],
+      start: new Date("2024-02-01"),
+      end: new Date("2024-02-29"),
+      workingDays: 30,
+      overtime: {
+        days: [{ scheduleId: "s-1", date: "2024-02-04", minutes: 120, expectedMinutes: 480, limitMinutes: 120 }],
+        rates,
+      },
+    });
+
+    expect(result.overtimeAmount).toBe(12.5);
+    expect(result.bonusAmount).toBe(12.5);
+    expect(result.grossPay).toBe(1212.5);
+    expect(result.overtimeLines).toHaveLength(1);
+    expect(result.adjustmentReason).toContain("for 2h");
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  overtimeRateConfigSchema,
+  type OvertimeDayType,
+  type OvertimeRateConfig,
+  type PayrollOvertimeLine,
+} from "@shared/schema";
+
+export interface OvertimeDay {
+  scheduleId: string;
+  date: string;
+  minutes: number;
+  expectedMinutes: number;
+  limitMinutes: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Company overtime rates with defaults filled in; invalid settings fall back to the defaults. */
+export const resolveOvertimeRates = (config: unknown): OvertimeRateConfig => {
+  const parsed = overtimeRateConfigSchema.safeParse(config ?? {});
+  return parsed.success ? parsed.data : overtimeRateConfigSchema.parse({});
+};
+
+export const classifyOvertimeDay = (
+  day: Pick<OvertimeDay, "date" | "expectedMinutes">,
+  publicHolidays: ReadonlySet<string>,
+): OvertimeDayType => {
+  if (publicHolidays.has(day.date)) return "public_holiday";
+  return day.expectedMinutes > 0 ? "normal" : "rest_day";
+};
+
+const RATE_BY_DAY_TYPE: Record<OvertimeDayType, keyof OvertimeRateConfig> = {
+  normal: "normalDayRate",
+  rest_day: "restDayRate",
+  public_holiday: "publicHolidayRate",
+};
+
+/**
+ * Prices approved overtime at the hourly rate derived from the monthly salary
+ * over the employee's working days and the configured hours per day. Each
+ * day is capped at its shift's overtime limit and paid at the multiplier for
+ * its day type, with `publicHolidays` taken from the holiday calendar.
+ */
+export function calculateOvertimePay({
+  days,
+  monthlySalary,
+  workingDays,
+  rates,
+  publicHolidays = new Set<string>(),
+}: {
+  days: OvertimeDay[];
+  monthlySalary: number;
+  workingDays: number;
+  rates: OvertimeRateConfig;
+  publicHolidays?: ReadonlySet<string>;
+}): { amount: number; lines: PayrollOvertimeLine[] } {
+  const divisor = Math.max(1, workingDays) * rates.hoursPerDay;
+  const hourlyRate = Number.isFinite(monthlySalary) && monthlySalary > 0 ? monthlySalary / divisor : 0;
+
+  const lines = [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => {
+      const dayType = classifyOvertimeDay(day, publicHolidays);
+      const rate = rates[RATE_BY_DAY_TYPE[dayType]] as number;
+      const paidMinutes = Math.max(0, Math.min(day.minutes, day.limitMinutes));
+      return {
+        scheduleId: day.scheduleId,
+        date: day.date,
+        dayType,
+        approvedMinutes: day.minutes,
+        paidMinutes,
+        limitMinutes: day.limitMinutes,
+        hourlyRate: round3(hourlyRate),
+        rate,
+        amount: round2((hourlyRate * paidMinutes * rate) / 60),
+      };
+    })
+    .filter(line => line.paidMinutes > 0);
+
+  return {
+    amount: round2(lines.reduce((total, line) => total + line.amount, 0)),
+    lines,
+  };
+}
@@ -44,6 +44,42 @@ describe('calculateEmployeePayroll', () => {
     expect(entry.allowances).toEqual({});
   });
 
+  it('deducts social insurance from the configured rates', () => {
+    const rates = [
+      {
+        code: 'basic',
+        label: 'Basic insurance',
+        nationalityGroup: 'kuwaiti',
+        employeeRate: '5',
+        employerRate: '11',
+        salaryCeiling: '1500',
+        effectiveFrom: '2020-01-01',
+      },
+    ];
+    const kuwaiti = calculateEmployeePayroll({
+      employee: { id: 'e1', salary: '1000', status: 'active', nationality: 'Kuwaiti' },
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [],
+      ...baseDates,
+      socialInsurance: { rates },
+    });
+    expect(kuwaiti.socialSecurityDeduction).toBe(50);
+    expect(kuwaiti.socialInsuranceBreakdown?.employerTotal).toBe(110);
+    expect(kuwaiti.netPay).toBe(950);
+
+    const expatriate = calculateEmployeePayroll({
+      employee: { id: 'e2', salary: '1000', status: 'active', nationality: 'Egyptian' },
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [],
+      ...baseDates,
+      socialInsurance: { rates },
+    });
+    expect(expatriate.socialSecurityDeduction).toBe(0);
+    expect(expatriate.socialInsuranceBreakdown?.lines).toEqual([]);
+  });
+
   it('aggregates allowance events by normalized title', () => {
     const employee = { id: 'e1', salary: '1000', status: 'active' };
     const entry = calculateEmployeePayroll({
@@ -105,6 +141,329 @@ describe('calculateEmployeePayroll', () => {
     expect(entry.loanDeduction).toBe(150);
     expect(entry.adjustmentReason).toContain('Loan deduction');
   });
+
+  it('prorates a mid-period raise across the salary segments', () => {
+    const employee = { id: 'e1', salary: '3600', status: 'active' };
+    const compensationChanges = [
+      { employeeId: 'e1', salary: '3600', previousSalary: '3000', effectiveDate: '2024-01-16' },
+      { employeeId: 'e2', salary: '9000', previousSalary: '1000', effectiveDate: '2024-01-10' },
+    ];
+
+    const entry = calculateEmployeePayroll({
+      employee,
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [],
+      compensationChanges,
+      ...baseDates,
+    });
+
+    expect(entry.baseSalary).toBe(3300);
+    expect(entry.adjustmentReason).toContain('from 2024-01-16');
+  });
+
+  it('prices earlier periods at the salary in force at the time', () => {
+    const employee = { id: 'e1', salary: '3600', status: 'active' };
+
+    const entry = calculateEmployeePayroll({
+      employee,
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [],
+      compensationChanges: [
+        { employeeId: 'e1', salary: '3600', previousSalary: '3000', effectiveDate: '2024-03-01' },
+      ],
+      ...baseDates,
+    });
+
+    expect(entry.baseSalary).toBe(3000);
+    expect(entry.adjustmentReason).toBeNull();
+  });
+
+  it('adds retro earnings to gross pay and recoveries to other deductions', () => {
+    const employee = { id: 'e1', salary: '3000', status: 'active' };
+    const retroLine = {
+      sourcePayrollRunId: 'run-dec',
+      sourcePayrollEntryId: 'entry-dec',
+      period: 'Dec 2023',
+      originalAmount: 0,
+      correctedAmount: 0,
+      reason: 'Back-dated salary change',
+    };
+
+    const entry = calculateEmployeePayroll({
+      employee,
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [],
+      ...baseDates,
+      retroAdjustments: [
+        { ...retroLine, component: 'baseSalary', amount: 300 },
+        { ...retroLine, component: 'otherDeductions', amount: 40 },
+      ],
+    });
+
+    expect(entry.grossPay).toBe(3300);
+    expect(entry.otherDeductions).toBe(40);
+    expect(entry.netPay).toBe(3260);
+    expect(entry.retroAmount).toBe(260);
+    expect(entry.retroAdjustments).toHaveLength(2);
+    expect(entry.adjustmentReason).toContain('for Dec 2023');
+  });
+
+  it('pays each pay component by its own leave rule', () => {
+    const component = {
+      employeeId: 'e1',
+      calculationType: 'amount',
+      insurable: false,
+      indemnityEligible: false,
+      leaveProration: 'prorate',
+    };
+    const entry = calculateEmployeePayroll({
+      employee: { id: 'e1', salary: '3000', status: 'active', nationality: 'Kuwaiti' },
+      loans: [],
+      vacationRequests: [{ employeeId: 'e1', status: 'approved', startDate: '2024-01-05', endDate: '2024-01-07' }],
+      employeeEvents: [],
+      payComponents: [
+        { ...component, code: 'housing', name: 'Housing', calculationType: 'percentage_of_basic', percentage: '20', leaveProration: 'full', insurable: true },
+        { ...component, code: 'transport', name: 'Transport', amount: '300' },
+        { ...component, code: 'meal', name: 'Meal', amount: '90', leaveProration: 'forfeit' },
+        { ...component, employeeId: 'e2', code: 'housing', name: 'Housing', amount: '999' },
+      ],
+      socialInsurance: {
+        rates: [
+          {
+            code: 'pension',
+            label: 'Pension',
+            nationalityGroup: 'kuwaiti',
+            employeeRate: '10',
+            employerRate: '0',
+            salaryCeiling: '5000',
+            effectiveFrom: '2020-01-01',
+          },
+        ],
+      },
+      ...baseDates,
+    });
+
+    expect(entry.baseSalary).toBe(2700);
+    expect(entry.allowances).toEqual({ housing: 600, transport: 270 });
+    expect(entry.bonusAmount).toBe(870);
+    expect(entry.grossPay).toBe(3570);
+    // Pension on basic plus the insurable housing component.
+    expect(entry.socialSecurityDeduction).toBe(330);
+    expect(entry.payComponents.map(line => [line.code, line.monthlyAmount, line.amount])).toEqual([
+      ['basic', 3000, 2700],
+      ['housing', 600, 600],
+      ['transport', 300, 270],
+      ['meal', 90, 0],
+    ]);
+    expect(entry.calculationTrace.steps.find(step => step.label === 'Meal (pay component)')).toMatchObject({
+      outcome: 'skipped',
+    });
+  });
+
+  it('traces included and skipped items with the formulas applied', () => {
+    const employee = { id: 'e1', salary: '3000', status: 'active' };
+    const entry = calculateEmployeePayroll({
+      employee,
+      loans: [
+        { id: 'loan-1', employeeId: 'e1', status: 'active', remainingAmount: '60', monthlyDeduction: '100' },
+        { id: 'loan-2', employeeId: 'e1', status: 'completed', remainingAmount: '0', monthlyDeduction: '100' },
+      ],
+      vacationRequests: [
+        { id: 'vac-1', employeeId: 'e1', status: 'approved', startDate: '2024-01-05', endDate: '2024-01-06' },
+        { id: 'vac-2', employeeId: 'e1', status: 'pending', startDate: '2024-01-20', endDate: '2024-01-21' },
+      ],
+      employeeEvents: [
+        {
+          id: 'ev-1',
+          employeeId: 'e1',
+          eventDate: '2024-01-10',
+          eventType: 'bonus',
+          affectsPayroll: true,
+          status: 'active',
+          amount: '200',
+          title: 'Spot bonus',
+          recurrenceType: 'none',
+          recurrenceEndDate: null,
+        } as any,
+        {
+          id: 'ev-2',
+          employeeId: 'e1',
+          eventDate: '2023-10-01',
+          eventType: 'allowance',
+          affectsPayroll: true,
+          status: 'active',
+          amount: '50',
+          title: 'Phone allowance',
+          recurrenceType: 'monthly',
+          recurrenceEndDate: '2023-12-31',
+        } as any,
+      ],
+      ...baseDates,
+    });
+
+    const steps = entry.calculationTrace.steps;
+    const find = (sourceId: string) => steps.find(step => step.sourceId === sourceId);
+
+    expect(find('vac-1')).toMatchObject({ outcome: 'included' });
+    expect(find('vac-2')).toMatchObject({ outcome: 'skipped', detail: 'Request is pending' });
+    expect(find('loan-1')).toMatchObject({ outcome: 'capped', amount: 60 });
+    expect(find('loan-1')?.formula).toContain('remaining 60');
+    expect(find('loan-2')).toMatchObject({ outcome: 'skipped', detail: 'Loan is completed' });
+    expect(find('ev-1')).toMatchObject({ category: 'bonus', outcome: 'included', amount: 200 });
+    expect(find('ev-2')).toMatchObject({ outcome: 'skipped', detail: 'Recurrence ended on 2023-12-31' });
+    expect(steps.find(step => step.label === 'Base salary')).toMatchObject({
+      formula: '3000 × 28 / 30 days',
+      amount: 2800,
+    });
+    expect(steps.at(-1)).toMatchObject({ category: 'net', amount: entry.netPay });
+    expect(entry.calculationTrace.inputs).toContainEqual(
+      expect.objectContaining({ key: 'vacationDays', value: 2 }),
+    );
+  });
+
+  it('recovers deductions by priority under the deduction cap and carries the rest forward', () => {
+    const entry = calculateEmployeePayroll({
+      employee: { id: 'e1', salary: '1000', status: 'active' },
+      loans: [{ id: 'loan-1', employeeId: 'e1', status: 'active', remainingAmount: '900', monthlyDeduction: '300' }],
+      vacationRequests: [],
+      employeeEvents: [
+        { id: 'ev-penalty', employeeId: 'e1', eventDate: '2024-01-10', eventType: 'penalty', affectsPayroll: true, status: 'active', amount: '150', title: 'Late penalty' },
+        { id: 'ev-court', employeeId: 'e1', eventDate: '2024-01-12', eventType: 'court_order', affectsPayroll: true, status: 'active', amount: '100', title: 'Alimony' },
+      ],
+      ...baseDates,
+      config: { taxDeduction: 50 },
+      maxDeductionPercent: 40,
+    });
+
+    // 40% of 1000 leaves 350 after tax: court order 100, then 250 of the 300 loan installment.
+    expect(entry.taxDeduction).toBe(50);
+    expect(entry.otherDeductions).toBe(100);
+    expect(entry.loanDeduction).toBe(250);
+    expect(entry.loanRecoveries).toEqual({ 'loan-1': 250 });
+    expect(entry.netPay).toBe(600);
+    expect(entry.deductionCarryForward).toEqual([
+      { category: 'loan', sourceId: 'loan-1', label: 'Loan loan-1', amount: 50 },
+      { category: 'penalty', sourceId: 'ev-penalty', label: 'Late penalty (2024-01-10)', amount: 150 },
+    ]);
+    expect(entry.calculationTrace.steps).toContainEqual(
+      expect.objectContaining({ category: 'deduction', outcome: 'capped', sourceId: 'ev-penalty', amount: 0 }),
+    );
+    expect(entry.adjustmentReason).toContain('carried forward');
+  });
+
+  it('recovers carried deductions first and keeps amounts owed to skipped loans', () => {
+    const entry = calculateEmployeePayroll({
+      employee: { id: 'e1', salary: '1000', status: 'active' },
+      loans: [{ id: 'loan-1', employeeId: 'e1', status: 'active', remainingAmount: '900', monthlyDeduction: '300' }],
+      vacationRequests: [],
+      employeeEvents: [],
+      ...baseDates,
+      carriedDeductions: [
+        { category: 'loan', sourceId: 'loan-1', label: 'Loan loan-1', amount: 50 },
+        { category: 'loan', sourceId: 'loan-2', label: 'Loan loan-2', amount: 80 },
+        { category: 'penalty', sourceId: 'ev-penalty', label: 'Late penalty (2023-12-10)', amount: 150 },
+      ],
+    });
+
+    expect(entry.loanDeduction).toBe(350);
+    expect(entry.otherDeductions).toBe(150);
+    expect(entry.netPay).toBe(500);
+    expect(entry.deductionCarryForward).toEqual([
+      { category: 'loan', sourceId: 'loan-2', label: 'Loan loan-2', amount: 80 },
+    ]);
+  });
+
+  it('recovers salary advances before loans and leaves what the cap holds back outstanding', () => {
+    const entry = calculateEmployeePayroll({
+      employee: { id: 'e1', salary: '1000', status: 'active' },
+      loans: [{ id: 'loan-1', employeeId: 'e1', status: 'active', remainingAmount: '900', monthlyDeduction: '300' }],
+      vacationRequests: [],
+      employeeEvents: [],
+      ...baseDates,
+      maxDeductionPercent: 50,
+      salaryAdvances: [
+        { id: 'adv-1', employeeId: 'e1', paidDate: '2024-01-10', outstandingAmount: '250' },
+        { id: 'adv-2', employeeId: 'e1', paidDate: '2024-01-20', outstandingAmount: '200' },
+        { id: 'adv-later', employeeId: 'e1', paidDate: '2024-02-05', outstandingAmount: '100' },
+        { id: 'adv-other', employeeId: 'e2', paidDate: '2024-01-10', outstandingAmount: '100' },
+      ],
+    });
+
+    // The 500 cap takes both advances (450) first, leaving 50 of the loan installment.
+    expect(entry.advanceDeduction).toBe(450);
+    expect(entry.advanceRecoveries).toEqual({ 'adv-1': 250, 'adv-2': 200 });
+    expect(entry.loanDeduction).toBe(50);
+    expect(entry.netPay).toBe(500);
+    expect(entry.deductionCarryForward).toEqual([
+      { category: 'loan', sourceId: 'loan-1', label: 'Loan loan-1', amount: 250 },
+    ]);
+    expect(entry.adjustmentReason).toContain('Salary advance recovered');
+
+    const capped = calculateEmployeePayroll({
+      employee: { id: 'e1', salary: '1000', status: 'active' },
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [],
+      ...baseDates,
+      maxDeductionPercent: 20,
+      salaryAdvances: [{ id: 'adv-1', employeeId: 'e1', paidDate: '2024-01-10', outstandingAmount: '250' }],
+    });
+
+    expect(capped.advanceRecoveries).toEqual({ 'adv-1': 200 });
+    expect(capped.deductionCarryForward).toBeNull();
+    expect(capped.calculationTrace.steps).toContainEqual(
+      expect.objectContaining({ category: 'advance', outcome: 'capped', sourceId: 'adv-1', amount: 200 }),
+    );
+    expect(calculateTotals([capped])).toEqual({ grossAmount: 1000, totalDeductions: 200, netAmount: 800 });
+  });
+
+  it('never lets deductions other than statutory ones exceed gross pay', () => {
+    const entry = calculateEmployeePayroll({
+      employee: { id: 'e1', salary: '300', status: 'active' },
+      loans: [],
+      vacationRequests: [],
+      employeeEvents: [
+        { id: 'ev-penalty', employeeId: 'e1', eventDate: '2024-01-10', eventType: 'penalty', affectsPayroll: true, status: 'active', amount: '500', title: 'Damage' },
+      ],
+      ...baseDates,
+    });
+
+    expect(entry.otherDeductions).toBe(300);
+    expect(entry.netPay).toBe(0);
+    expect(entry.deductionCarryForward).toEqual([
+      { category: 'penalty', sourceId: 'ev-penalty', label: 'Damage (2024-01-10)', amount: 200 },
+    ]);
+  });
+
+  it('counts only holidays on working days as attended days', () => {
+    // Friday 5 January is a rest day; Sunday 7 January is a working day.
+    const holidays = new Set(['2024-01-05', '2024-01-07']);
+    const calculate = (workDates?: Set<string>) =>
+      calculateEmployeePayroll({
+        employee: { id: 'e1', salary: '2200', status: 'active' },
+        loans: [],
+        vacationRequests: [],
+        employeeEvents: [],
+        ...baseDates,
+        workingDays: 22,
+        attendanceDays: 20,
+        holidays,
+        workDates,
+      });
+
+    const unscheduled = calculate();
+    expect(unscheduled.actualWorkingDays).toBe(21);
+    expect(unscheduled.calculationTrace.inputs).toContainEqual(
+      expect.objectContaining({ key: 'holidays', value: 1 }),
+    );
+
+    // Scheduled to work the Friday and to rest on the Sunday.
+    expect(calculate(new Set(['2024-01-04', '2024-01-05'])).actualWorkingDays).toBe(21);
+    expect(calculate(new Set(['2024-01-04'])).actualWorkingDays).toBe(20);
+  });
 });
 
 describe('calculateTotals', () => {
@@ -123,6 +482,7 @@ describe('calculateTotals', () => {
         socialSecurityDeduction: 0,
         healthInsuranceDeduction: 0,
         loanDeduction: 100,
+        advanceDeduction: 0,
         otherDeductions: 0,
         netPay: 2700,
         adjustmentReason: null,
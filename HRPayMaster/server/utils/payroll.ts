@@ -1,13 +1,42 @@
+import {
+  BASIC_PAY_COMPONENT_CODE,
+  type OvertimeRateConfig,
+  type PayComponentCalculationType,
+  type PayComponentLeaveProration,
+  type PayrollCalculationTrace,
+  type PayrollDeductionCarryForward,
+  type PayrollDeductionPriority,
+  type PayrollOvertimeLine,
+  type PayrollPayComponentLine,
+  type PayrollRetroAdjustment,
+  type PayrollRetroComponent,
+  type SocialInsuranceBreakdown,
+} from "@shared/schema";
+import { calculateSocialInsurance, type SocialInsuranceRateRule } from "./socialInsurance";
+import {
+  buildSalarySegments,
+  prorateSalarySegments,
+  type CompensationHistoryEntry,
+} from "./compensation";
+import { calculateOvertimePay, type OvertimeDay } from "./overtime";
+import { countLeaveDays, countWorkingDayHolidays } from "./holidays";
+import { isRepayableLoan } from "./loans";
+
 export interface DeductionsConfig {
   taxDeduction?: number;
-  socialSecurityDeduction?: number;
   healthInsuranceDeduction?: number;
 }
 
+export interface SocialInsuranceConfig {
+  rates: SocialInsuranceRateRule[];
+  companyId?: string | null;
+}
+
 export interface Employee {
   id: string;
   salary: string;
   status: string;
+  nationality?: string | null;
 }
 
 export interface Loan {
@@ -18,6 +47,14 @@ export interface Loan {
   monthlyDeduction: string;
 }
 
+export interface SalaryAdvance {
+  id?: string;
+  employeeId: string;
+  paidDate: string;
+  /** What is still to be recovered from the advance. */
+  outstandingAmount: string;
+}
+
 export interface VacationRequest {
   id?: string;
   employeeId: string;
@@ -39,6 +76,24 @@ export interface EmployeeEvent {
   recurrenceEndDate?: string | null;
 }
 
+export interface PayComponent {
+  id?: string;
+  employeeId: string;
+  code: string;
+  name: string;
+  calculationType: PayComponentCalculationType | string;
+  amount?: string | null;
+  percentage?: string | null;
+  insurable: boolean;
+  indemnityEligible: boolean;
+  leaveProration: PayComponentLeaveProration | string;
+}
+
+export interface OvertimeConfig {
+  days: OvertimeDay[];
+  rates: OvertimeRateConfig;
+}
+
 export interface PayrollCalculationOverrides {
   skippedVacationIds?: Set<string>;
   skippedLoanIds?: Set<string>;
@@ -58,50 +113,169 @@ export interface EmployeePayroll {
   socialSecurityDeduction: number;
   healthInsuranceDeduction: number;
   loanDeduction: number;
+  advanceDeduction: number;
   otherDeductions: number;
   netPay: number;
   adjustmentReason: string | null;
+  socialInsuranceBreakdown: SocialInsuranceBreakdown | null;
+  retroAmount: number;
+  retroAdjustments: PayrollRetroAdjustment[] | null;
+  overtimeAmount: number;
+  overtimeLines: PayrollOvertimeLine[] | null;
+  calculationTrace: PayrollCalculationTrace;
+  payComponents: PayrollPayComponentLine[];
+  deductionCarryForward: PayrollDeductionCarryForward[] | null;
+  /** Amount recovered from each loan, keyed by loan id. */
+  loanRecoveries: Record<string, number>;
+  /** Amount recovered from each salary advance, keyed by advance id. */
+  advanceRecoveries: Record<string, number>;
+}
+
+interface DeductionClaim {
+  category: Exclude<PayrollDeductionPriority, "statutory">;
+  sourceId: string | null;
+  label: string;
+  amount: number;
+  carried?: boolean;
+}
+
+const RETRO_EARNING_COMPONENTS = new Set<PayrollRetroComponent>(["baseSalary", "bonusAmount"]);
+
+const BONUS_EVENT_TYPES = ["bonus", "commission", "overtime"];
+const DEDUCTION_EVENT_TYPES = ["deduction", "penalty", "court_order"];
+
+/** Trims floating point noise from numbers shown in trace formulas. */
+const traceNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** A component's full monthly amount: its fixed amount or its share of the basic salary. */
+export function resolvePayComponentMonthlyAmount(
+  component: Pick<PayComponent, "calculationType" | "amount" | "percentage">,
+  monthlyBasic: number,
+): number {
+  if (component.calculationType === "percentage_of_basic") {
+    const percentage = parseFloat(component.percentage ?? "0");
+    return Number.isFinite(percentage) ? (monthlyBasic * percentage) / 100 : 0;
+  }
+  const amount = parseFloat(component.amount ?? "0");
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Splits retro lines into amounts owed to the employee (extra earnings or
+ * refunded deductions) and amounts to recover from them.
+ */
+export function summarizeRetroAdjustments(lines: PayrollRetroAdjustment[]) {
+  let earnings = 0;
+  let recoveries = 0;
+  for (const line of lines) {
+    const owedToEmployee = RETRO_EARNING_COMPONENTS.has(line.component)
+      ? line.amount
+      : -line.amount;
+    if (owedToEmployee >= 0) {
+      earnings += owedToEmployee;
+    } else {
+      recoveries -= owedToEmployee;
+    }
+  }
+  return {
+    earnings: round2(earnings),
+    recoveries: round2(recoveries),
+    net: round2(earnings - recoveries),
+  };
 }
 
 /**
- * Calculates payroll for a single employee.
+ * Calculates payroll for a single employee: earned salary, pay components,
+ * events, overtime and retro lines, less statutory contributions and the
+ * capped deductions, with a trace of how each amount was reached.
  *
- * Assumes no automatic tax, social security or health insurance deductions
- * unless provided via the optional config.
+ * Assumes no automatic tax or health insurance deductions unless provided via
+ * the optional config.
  */
 export function calculateEmployeePayroll({
   employee,
   loans,
   vacationRequests,
   employeeEvents,
+  compensationChanges,
   start,
   end,
   workingDays,
   attendanceDays,
   config,
+  socialInsurance,
   overrides,
   currencyCode,
   locale,
+  includeSalary = true,
+  retroAdjustments,
+  overtime,
+  holidays,
+  workDates,
+  payComponents,
+  maxDeductionPercent,
+  carriedDeductions,
+  salaryAdvances,
 }: {
   employee: Employee;
   loans: Loan[];
   vacationRequests: VacationRequest[];
   employeeEvents: EmployeeEvent[];
+  compensationChanges?: Array<CompensationHistoryEntry & { employeeId: string }>;
   start: Date;
   end: Date;
   workingDays: number;
   attendanceDays?: number;
   config?: DeductionsConfig;
+  socialInsurance?: SocialInsuranceConfig;
   overrides?: PayrollCalculationOverrides;
   currencyCode?: string;
   locale?: string;
+  includeSalary?: boolean;
+  retroAdjustments?: PayrollRetroAdjustment[];
+  overtime?: OvertimeConfig;
+  holidays?: ReadonlySet<string>;
+  workDates?: ReadonlySet<string>;
+  payComponents?: PayComponent[];
+  maxDeductionPercent?: number | null;
+  carriedDeductions?: PayrollDeductionCarryForward[];
+  salaryAdvances?: SalaryAdvance[];
 }): EmployeePayroll {
-  const monthlySalary = parseFloat(employee.salary);
+  // Compensation changes inside the period split it into salary segments,
+  // prorated by calendar day.
+  const salarySegments = buildSalarySegments(
+    (compensationChanges ?? []).filter(change => change.employeeId === employee.id),
+    employee.salary,
+    start,
+    end,
+  );
+  const monthlySalary = salarySegments.length > 0
+    ? prorateSalarySegments(salarySegments)
+    : parseFloat(employee.salary);
   const resolvedCurrency = currencyCode && currencyCode.trim() ? currencyCode : "KWD";
   const resolvedLocale = locale && locale.trim() ? locale : "en-KW";
   const formatCurrency = (value: number) =>
     new Intl.NumberFormat(resolvedLocale, { style: "currency", currency: resolvedCurrency }).format(value);
 
+  // The inputs used and every step, including events, leave and loans that
+  // were left out and why.
+  const trace: PayrollCalculationTrace = { inputs: [], steps: [] };
+  const addStep = (step: PayrollCalculationTrace["steps"][number]) => {
+    trace.steps.push(step);
+  };
+  if (salarySegments.length > 1) {
+    for (const segment of salarySegments) {
+      addStep({
+        category: "salary",
+        outcome: "info",
+        label: `Salary ${formatCurrency(segment.monthlySalary)} from ${segment.startDate} to ${segment.endDate}`,
+        detail: `${segment.days} calendar days`,
+      });
+    }
+  }
+
   const skippedVacationIds = overrides?.skippedVacationIds;
 
   const employeeVacations = vacationRequests.filter(v =>
@@ -115,9 +289,37 @@ export function calculateEmployeePayroll({
   const vacationDays = employeeVacations.reduce((total, vacation) => {
     const vacStart = new Date(Math.max(new Date(vacation.startDate).getTime(), start.getTime()));
     const vacEnd = new Date(Math.min(new Date(vacation.endDate).getTime(), end.getTime()));
-    return total + Math.ceil((vacEnd.getTime() - vacStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    // Public holidays are not leave days.
+    const days = holidays && holidays.size > 0
+      ? countLeaveDays(vacStart, vacEnd, holidays)
+      : Math.ceil((vacEnd.getTime() - vacStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    return total + days;
   }, 0);
 
+  for (const vacation of vacationRequests) {
+    if (
+      vacation.employeeId !== employee.id ||
+      new Date(vacation.startDate) > end ||
+      new Date(vacation.endDate) < start
+    ) {
+      continue;
+    }
+    const label = `Leave ${vacation.startDate} to ${vacation.endDate}`;
+    if (vacation.status !== "approved") {
+      addStep({ category: "vacation", outcome: "skipped", label, detail: `Request is ${vacation.status}`, sourceId: vacation.id ?? null });
+    } else if (vacation.id && skippedVacationIds?.has(vacation.id)) {
+      addStep({ category: "vacation", outcome: "skipped", label, detail: "Skipped by payroll override", sourceId: vacation.id });
+    } else {
+      addStep({
+        category: "vacation",
+        outcome: "included",
+        label,
+        detail: holidays && holidays.size > 0 ? "Days inside the period, excluding public holidays" : "Days inside the period",
+        sourceId: vacation.id ?? null,
+      });
+    }
+  }
+
   const MS_IN_DAY = 1000 * 60 * 60 * 24;
   const totalPeriodDays = Math.max(
     1,
@@ -130,9 +332,18 @@ export function calculateEmployeePayroll({
       ? Math.min(normalizedWorkingDays, attendanceDays)
       : normalizedWorkingDays;
 
+  const startKey = start.toISOString().split("T")[0];
+  const endKey = end.toISOString().split("T")[0];
+  // When pay follows attendance, holidays on the employee's `workDates`
+  // (Sunday to Thursday without a schedule) count as attended days.
+  const holidaysInPeriod = holidays ? countWorkingDayHolidays(start, end, holidays, workDates) : 0;
+
   let actualWorkingDays: number;
   if (typeof attendanceDays === "number" && attendanceDays >= 0) {
-    actualWorkingDays = Math.min(normalizedWorkingDays, Math.round(attendanceDays));
+    actualWorkingDays = Math.min(
+      normalizedWorkingDays,
+      Math.round(attendanceDays + holidaysInPeriod),
+    );
   } else {
     const vacationShare = Math.min(vacationDays, totalPeriodDays);
     const vacationEquivalent = Math.round((vacationShare / totalPeriodDays) * baseWorking);
@@ -140,20 +351,52 @@ export function calculateEmployeePayroll({
   }
   actualWorkingDays = Math.min(actualWorkingDays, normalizedWorkingDays);
 
+  if (typeof attendanceDays === "number" && attendanceDays >= 0) {
+    addStep({
+      category: "attendance",
+      outcome: "included",
+      label: "Days paid from attendance",
+      formula: `min(${normalizedWorkingDays}, round(${traceNumber(attendanceDays)} attended + ${holidaysInPeriod} holidays)) = ${actualWorkingDays}`,
+    });
+  } else if (vacationDays > 0) {
+    const vacationShare = Math.min(vacationDays, totalPeriodDays);
+    addStep({
+      category: "attendance",
+      outcome: "included",
+      label: "Days paid after leave",
+      formula: `${normalizedWorkingDays} - round(${vacationShare} / ${totalPeriodDays} period days × ${baseWorking}) = ${actualWorkingDays}`,
+    });
+  }
+
   const salaryDivisor = normalizedWorkingDays > 0 ? normalizedWorkingDays : 1;
 
+  // Off-cycle runs that do not pay salary leave it, and the contributions
+  // calculated from it, at zero.
   const baseSalary =
-    employee.status === "active"
+    employee.status === "active" && includeSalary
       ? (monthlySalary * actualWorkingDays) / salaryDivisor
       : 0;
 
+  if (employee.status !== "active") {
+    addStep({ category: "salary", outcome: "skipped", label: "Base salary", detail: `Employee is ${employee.status}`, amount: 0 });
+  } else if (!includeSalary) {
+    addStep({ category: "salary", outcome: "skipped", label: "Base salary", detail: "This run does not pay salary", amount: 0 });
+  } else {
+    addStep({
+      category: "salary",
+      outcome: "included",
+      label: "Base salary",
+      formula: `${traceNumber(monthlySalary)} × ${actualWorkingDays} / ${traceNumber(salaryDivisor)} days`,
+      amount: baseSalary,
+    });
+  }
+
   const skippedLoanIds = overrides?.skippedLoanIds;
 
   const employeeLoans = loans.filter(l => {
-    const isActive = l.status === "active" || l.status === "approved"; // tolerate legacy "approved"
     return (
       l.employeeId === employee.id &&
-      isActive &&
+      isRepayableLoan(l) &&
       parseFloat(l.remainingAmount) > 0 &&
       !(l.id && skippedLoanIds?.has(l.id))
     );
@@ -161,24 +404,86 @@ export function calculateEmployeePayroll({
 
   const loanMismatches: string[] = [];
 
-  const loanDeduction = employee.status === "active"
-    ? employeeLoans.reduce((total, loan) => {
-        const scheduledAmount = Number((loan as any).dueAmountForPeriod ?? 0);
-        const remaining = parseFloat(loan.remainingAmount);
-        const monthlyCap = parseFloat(loan.monthlyDeduction);
-        const cappedAmount = Number.isFinite(monthlyCap) && monthlyCap > 0 ? monthlyCap : remaining;
-        let effective = Math.min(cappedAmount, remaining);
-        if (scheduledAmount > 0) {
-          effective = Math.min(scheduledAmount, remaining, cappedAmount);
-          if (Math.abs(scheduledAmount - cappedAmount) > 0.05) {
-            loanMismatches.push(
-              `${loan.id}: scheduled ${scheduledAmount.toFixed(2)} vs cap ${cappedAmount.toFixed(2)}`,
-            );
-          }
+  for (const loan of loans) {
+    if (loan.employeeId !== employee.id || employeeLoans.includes(loan)) continue;
+    const isActive = isRepayableLoan(loan);
+    addStep({
+      category: "loan",
+      outcome: "skipped",
+      label: `Loan ${loan.id ?? ""}`.trim(),
+      detail: !isActive
+        ? `Loan is ${loan.status}`
+        : !(parseFloat(loan.remainingAmount) > 0)
+          ? "Loan is fully repaid"
+          : "Skipped by payroll override",
+      sourceId: loan.id ?? null,
+    });
+  }
+
+  const loanClaims: DeductionClaim[] = [];
+  if (employee.status === "active") {
+    for (const loan of employeeLoans) {
+      const scheduledAmount = Number((loan as any).dueAmountForPeriod ?? 0);
+      const remaining = parseFloat(loan.remainingAmount);
+      const monthlyCap = parseFloat(loan.monthlyDeduction);
+      const cappedAmount = Number.isFinite(monthlyCap) && monthlyCap > 0 ? monthlyCap : remaining;
+      let effective = Math.min(cappedAmount, remaining);
+      let formula = `min(monthly deduction ${traceNumber(cappedAmount)}, remaining ${traceNumber(remaining)})`;
+      if (scheduledAmount > 0) {
+        effective = Math.min(scheduledAmount, remaining, cappedAmount);
+        formula = `min(scheduled ${traceNumber(scheduledAmount)}, monthly deduction ${traceNumber(cappedAmount)}, remaining ${traceNumber(remaining)})`;
+        if (Math.abs(scheduledAmount - cappedAmount) > 0.05) {
+          loanMismatches.push(
+            `${loan.id}: scheduled ${scheduledAmount.toFixed(2)} vs cap ${cappedAmount.toFixed(2)}`,
+          );
         }
-        return total + (effective > 0 ? effective : 0);
-      }, 0)
-    : 0;
+      }
+      const amount = effective > 0 ? effective : 0;
+      const expected = scheduledAmount > 0 ? scheduledAmount : cappedAmount;
+      addStep({
+        category: "loan",
+        outcome: amount < expected ? "capped" : "included",
+        label: `Loan ${loan.id ?? ""}`.trim(),
+        detail: amount < expected ? "Limited to the lower of the schedule, monthly deduction and balance" : null,
+        formula,
+        amount,
+        sourceId: loan.id ?? null,
+      });
+      // Installments the deduction cap held back earlier are owed on top of this period's.
+      const carried = (carriedDeductions ?? [])
+        .filter(line => line.category === "loan" && line.sourceId === loan.id)
+        .reduce((total, line) => total + line.amount, 0);
+      const carriedAmount = Math.max(0, Math.min(carried, remaining - amount));
+      if (carriedAmount > 0) {
+        addStep({
+          category: "loan",
+          outcome: "included",
+          label: `Loan ${loan.id ?? ""}`.trim(),
+          detail: "Carried forward from a previous period",
+          amount: carriedAmount,
+          sourceId: loan.id ?? null,
+        });
+      }
+      loanClaims.push({
+        category: "loan",
+        sourceId: loan.id ?? null,
+        label: `Loan ${loan.id ?? ""}`.trim(),
+        amount: amount + carriedAmount,
+      });
+    }
+  }
+
+  if (employee.status !== "active") {
+    for (const loan of employeeLoans) {
+      addStep({
+        category: "loan",
+        outcome: "skipped",
+        label: `Loan ${loan.id ?? ""}`.trim(),
+        detail: `Employee is ${employee.status}`,
+        sourceId: loan.id ?? null,
+      });
+    }
+  }
 
   const toDateOrUndefined = (value: string | null | undefined) => {
     if (!value) return undefined;
@@ -254,40 +559,400 @@ export function calculateEmployeePayroll({
       addAllowance((event as any).title as string | undefined, amount, !withinRange);
     });
 
+  const componentLines: PayrollPayComponentLine[] = [
+    {
+      code: BASIC_PAY_COMPONENT_CODE,
+      name: "Basic salary",
+      calculationType: "amount",
+      monthlyAmount: round2(monthlySalary),
+      amount: round2(baseSalary),
+      insurable: true,
+      indemnityEligible: true,
+      leaveProration: "prorate",
+    },
+  ];
+  // Pay components are paid on top of the basic salary, each prorated for
+  // leave by its own rule.
+  for (const component of payComponents ?? []) {
+    if (component.employeeId !== employee.id) continue;
+    const monthlyAmount = resolvePayComponentMonthlyAmount(component, monthlySalary);
+    const leaveProration = (component.leaveProration as PayComponentLeaveProration) ?? "prorate";
+    const label = `${component.name} (pay component)`;
+    const basis =
+      component.calculationType === "percentage_of_basic"
+        ? `${traceNumber(monthlySalary)} × ${traceNumber(parseFloat(component.percentage ?? "0"))}%`
+        : traceNumber(monthlyAmount);
+
+    let amount = 0;
+    if (employee.status !== "active" || !includeSalary) {
+      addStep({
+        category: "allowance",
+        outcome: "skipped",
+        label,
+        detail: employee.status !== "active" ? `Employee is ${employee.status}` : "This run does not pay salary",
+        sourceId: component.id ?? null,
+      });
+      continue;
+    }
+    if (leaveProration === "full") {
+      amount = monthlyAmount;
+      addStep({ category: "allowance", outcome: "included", label, detail: "Paid in full regardless of leave", formula: basis, amount, sourceId: component.id ?? null });
+    } else if (leaveProration === "forfeit" && vacationDays > 0) {
+      addStep({ category: "allowance", outcome: "skipped", label, detail: `Not paid in a period with leave (${vacationDays} days)`, sourceId: component.id ?? null });
+    } else {
+      amount = (monthlyAmount * actualWorkingDays) / salaryDivisor;
+      addStep({
+        category: "allowance",
+        outcome: "included",
+        label,
+        formula: `${basis} × ${actualWorkingDays} / ${traceNumber(salaryDivisor)} days`,
+        amount,
+        sourceId: component.id ?? null,
+      });
+    }
+
+    componentLines.push({
+      code: component.code,
+      name: component.name,
+      calculationType: component.calculationType === "percentage_of_basic" ? "percentage_of_basic" : "amount",
+      monthlyAmount: round2(monthlyAmount),
+      amount: round2(amount),
+      insurable: component.insurable,
+      indemnityEligible: component.indemnityEligible,
+      leaveProration,
+    });
+    if (amount > 0) {
+      allowances.set(component.code, (allowances.get(component.code) ?? 0) + amount);
+    }
+  }
+  const insurableComponents = componentLines
+    .filter(line => line.code !== BASIC_PAY_COMPONENT_CODE && line.insurable)
+    .reduce((total, line) => total + line.amount, 0);
+
   const allowanceTotal = Array.from(allowances.values()).reduce((sum, value) => sum + value, 0);
 
+  for (const event of employeeEvents) {
+    if (event.employeeId !== employee.id || !event.affectsPayroll) continue;
+    const amount = parseFloat(event.amount);
+    const inPeriod = isWithinRange(event.eventDate);
+    const recurring = event.eventType === "allowance" && event.recurrenceType === "monthly";
+    if (!inPeriod && !recurring) continue;
+
+    const category = event.eventType === "allowance"
+      ? "allowance"
+      : DEDUCTION_EVENT_TYPES.includes(event.eventType)
+        ? "deduction"
+        : "bonus";
+    const label = `${event.title || event.eventType} (${event.eventDate})`;
+    const base = { category, label, sourceId: event.id ?? null } as const;
+
+    if (event.eventType === "vacation") {
+      addStep({ ...base, outcome: "skipped", detail: "Leave is paid through vacation requests" });
+    } else if (event.status !== "active") {
+      addStep({ ...base, outcome: "skipped", detail: `Event is ${event.status}` });
+    } else if (event.id && skippedEventIds?.has(event.id)) {
+      addStep({ ...base, outcome: "skipped", detail: "Skipped by payroll override" });
+    } else if (inPeriod && event.eventType === "allowance") {
+      addStep({ ...base, outcome: "included", amount, detail: recurring ? "Monthly allowance" : null });
+    } else if (inPeriod && BONUS_EVENT_TYPES.includes(event.eventType)) {
+      addStep({ ...base, outcome: "included", amount });
+    } else if (inPeriod && DEDUCTION_EVENT_TYPES.includes(event.eventType)) {
+      addStep({ ...base, outcome: "included", amount });
+    } else if (inPeriod) {
+      addStep({ ...base, outcome: "skipped", detail: `${event.eventType} events do not change pay` });
+    } else if (overlapsRange(event)) {
+      addStep({ ...base, outcome: "included", amount, detail: "Monthly allowance" });
+    } else {
+      addStep({
+        ...base,
+        outcome: "skipped",
+        detail: event.recurrenceEndDate && toDateOrUndefined(event.recurrenceEndDate)! < start
+          ? `Recurrence ended on ${event.recurrenceEndDate}`
+          : "Recurrence starts after the period",
+      });
+    }
+  }
+
+  // Approved schedule overtime is priced from the monthly salary and paid
+  // with the bonus amount.
+  const overtimePay =
+    overtime && employee.status === "active" && overtime.days.length > 0
+      ? calculateOvertimePay({
+          days: overtime.days,
+          monthlySalary,
+          workingDays: normalizedWorkingDays,
+          rates: overtime.rates,
+          publicHolidays: holidays,
+        })
+      : null;
+  const overtimeAmount = overtimePay?.amount ?? 0;
+
+  for (const line of overtimePay?.lines ?? []) {
+    const capped = line.paidMinutes < line.approvedMinutes;
+    addStep({
+      category: "overtime",
+      outcome: capped ? "capped" : "included",
+      label: `Overtime ${line.date} (${line.dayType.replace("_", " ")})`,
+      detail: capped ? `${line.approvedMinutes} approved minutes capped at the ${line.limitMinutes} minute limit` : null,
+      formula: `${traceNumber(line.hourlyRate)}/h × ${traceNumber(line.paidMinutes / 60)}h × ${line.rate}`,
+      amount: line.amount,
+      sourceId: line.scheduleId,
+    });
+  }
+
   const bonusAmount = employeeEventsInPeriod
-    .filter(event => ["bonus", "commission", "overtime"].includes(event.eventType))
-    .reduce((total, event) => total + parseFloat(event.amount), 0) + allowanceTotal;
+    .filter(event => BONUS_EVENT_TYPES.includes(event.eventType))
+    .reduce((total, event) => total + parseFloat(event.amount), 0) + allowanceTotal + overtimeAmount;
 
-  const eventDeductions = employeeEventsInPeriod
-    .filter(event => ["deduction", "penalty"].includes(event.eventType))
-    .reduce((total, event) => total + parseFloat(event.amount), 0);
+  const eventClaims = (eventType: (event: EmployeeEvent) => boolean, category: DeductionClaim["category"]) =>
+    employeeEventsInPeriod
+      .filter(event => DEDUCTION_EVENT_TYPES.includes(event.eventType) && eventType(event))
+      .map<DeductionClaim>(event => ({
+        category,
+        sourceId: event.id ?? null,
+        label: `${event.title || event.eventType} (${event.eventDate})`,
+        amount: parseFloat(event.amount),
+      }))
+      .filter(claim => Number.isFinite(claim.amount) && claim.amount > 0);
 
-  const grossPay = baseSalary + bonusAmount;
+  // Retro lines from closed runs add to gross pay when owed to the employee
+  // and are recovered with the other deductions when owed back.
+  const retroLines = retroAdjustments && retroAdjustments.length > 0 ? retroAdjustments : null;
+  const retro = summarizeRetroAdjustments(retroLines ?? []);
+
+  for (const line of retroLines ?? []) {
+    addStep({
+      category: "retro",
+      outcome: "included",
+      label: `Retro ${line.component} for ${line.period}`,
+      detail: line.reason,
+      formula: `${traceNumber(line.correctedAmount)} - ${traceNumber(line.originalAmount)}`,
+      amount: line.amount,
+      sourceId: line.sourcePayrollEntryId,
+    });
+  }
+
+  const grossPay = baseSalary + bonusAmount + retro.earnings;
 
   const taxDeduction = config?.taxDeduction ?? 0;
-  const socialSecurityDeduction = config?.socialSecurityDeduction ?? 0;
+  // Insurable pay components join the earned base salary in the social
+  // insurance base; without rates there is no social security deduction.
+  const socialInsuranceBreakdown =
+    socialInsurance && employee.status === "active"
+      ? calculateSocialInsurance({
+          insurableSalary: baseSalary + insurableComponents,
+          nationality: employee.nationality,
+          rates: socialInsurance.rates,
+          date: end,
+          companyId: socialInsurance.companyId,
+        })
+      : null;
+  const socialSecurityDeduction = socialInsuranceBreakdown?.employeeTotal ?? 0;
   const healthInsuranceDeduction = config?.healthInsuranceDeduction ?? 0;
-  const otherDeductions = eventDeductions;
+  const statutoryDeductions = taxDeduction + socialSecurityDeduction + healthInsuranceDeduction;
+
+  const carriedClaims = (category: DeductionClaim["category"]) =>
+    (carriedDeductions ?? [])
+      .filter(line => line.category === category && line.amount > 0)
+      .map<DeductionClaim>(line => ({ ...line, carried: true }));
 
-  const totalEmpDeductions =
-    taxDeduction +
-    socialSecurityDeduction +
-    healthInsuranceDeduction +
-    loanDeduction +
-    otherDeductions;
+  const deductionCarryForward: PayrollDeductionCarryForward[] = [];
+  const loanClaimIds = new Set(loanClaims.map(claim => claim.sourceId));
+  for (const line of carriedClaims("loan")) {
+    if (loanClaimIds.has(line.sourceId)) continue;
+    const loan = loans.find(item => item.id === line.sourceId && item.employeeId === employee.id);
+    const isActive = loan && isRepayableLoan(loan);
+    if (loan && (!isActive || !(parseFloat(loan.remainingAmount) > 0))) {
+      addStep({
+        category: "loan",
+        outcome: "skipped",
+        label: line.label,
+        detail: `Carried forward amount dropped: loan is ${isActive ? "fully repaid" : loan.status}`,
+        amount: line.amount,
+        sourceId: line.sourceId,
+      });
+      continue;
+    }
+    // Loans skipped this period keep what they are owed for the next one.
+    deductionCarryForward.push({ category: "loan", sourceId: line.sourceId, label: line.label, amount: line.amount });
+  }
+
+  const advanceClaims = (salaryAdvances ?? [])
+    .filter(advance => advance.employeeId === employee.id && advance.paidDate <= endKey)
+    .map<DeductionClaim>(advance => ({
+      category: "advance",
+      sourceId: advance.id ?? null,
+      label: `Salary advance (${advance.paidDate})`,
+      amount: round2(parseFloat(advance.outstandingAmount)),
+    }))
+    .filter(claim => Number.isFinite(claim.amount) && claim.amount > 0);
+
+  // Recovery order: court orders, salary advances, loans, then penalties.
+  // Carried lines go ahead of this period's lines of the same kind.
+  const claims: DeductionClaim[] = [
+    ...carriedClaims("court_order"),
+    ...eventClaims(event => event.eventType === "court_order", "court_order"),
+    ...advanceClaims,
+    ...loanClaims,
+    ...carriedClaims("penalty"),
+    ...eventClaims(event => event.eventType !== "court_order", "penalty"),
+  ];
+  if (retro.recoveries > 0) {
+    claims.push({ category: "penalty", sourceId: null, label: "Retro recoveries", amount: retro.recoveries });
+  }
+
+  const capPercent =
+    typeof maxDeductionPercent === "number" && maxDeductionPercent > 0 && maxDeductionPercent < 100
+      ? maxDeductionPercent
+      : null;
+  const deductionLimit = capPercent !== null ? (grossPay * capPercent) / 100 : grossPay;
+  if (capPercent !== null) {
+    addStep({
+      category: "deduction",
+      outcome: "info",
+      label: "Deduction cap",
+      formula: `${traceNumber(grossPay)} gross × ${traceNumber(capPercent)}% = ${traceNumber(deductionLimit)}`,
+      amount: deductionLimit,
+    });
+  }
+
+  // Statutory contributions are always taken; the other deductions are
+  // recovered in priority order from what the cap leaves. Unrecovered loan
+  // and other lines are carried forward; advances stay outstanding.
+  let deductionRoom = Math.max(0, Math.min(deductionLimit, grossPay) - statutoryDeductions);
+  let courtOrderDeduction = 0;
+  let penaltyDeduction = 0;
+  let loanDeduction = 0;
+  let advanceDeduction = 0;
+  const loanRecoveries: Record<string, number> = {};
+  const advanceRecoveries: Record<string, number> = {};
+  for (const claim of claims) {
+    const recovered = Math.min(claim.amount, deductionRoom);
+    deductionRoom -= recovered;
+    if (claim.category === "court_order") courtOrderDeduction += recovered;
+    else if (claim.category === "penalty") penaltyDeduction += recovered;
+    else if (claim.category === "advance") {
+      advanceDeduction += recovered;
+      if (claim.sourceId && recovered > 0) advanceRecoveries[claim.sourceId] = recovered;
+      const shortfall = round2(claim.amount - recovered);
+      addStep({
+        category: "advance",
+        outcome: shortfall > 0 ? "capped" : "included",
+        label: claim.label,
+        detail:
+          shortfall > 0
+            ? `${formatCurrency(shortfall)} left outstanding on the advance: ${
+                capPercent !== null ? `deductions are capped at ${traceNumber(capPercent)}% of gross pay` : "deductions cannot exceed gross pay"
+              }`
+            : null,
+        amount: recovered,
+        sourceId: claim.sourceId,
+      });
+      continue;
+    } else {
+      loanDeduction += recovered;
+      if (claim.sourceId) loanRecoveries[claim.sourceId] = (loanRecoveries[claim.sourceId] ?? 0) + recovered;
+    }
+
+    if (claim.carried && claim.category !== "loan") {
+      addStep({
+        category: "deduction",
+        outcome: "included",
+        label: claim.label,
+        detail: "Carried forward from a previous period",
+        amount: claim.amount,
+        sourceId: claim.sourceId,
+      });
+    }
+    const shortfall = round2(claim.amount - recovered);
+    if (shortfall > 0) {
+      deductionCarryForward.push({
+        category: claim.category,
+        sourceId: claim.sourceId,
+        label: claim.label,
+        amount: shortfall,
+      });
+      addStep({
+        category: claim.category === "loan" ? "loan" : "deduction",
+        outcome: "capped",
+        label: claim.label,
+        detail: `${formatCurrency(shortfall)} carried forward: ${
+          capPercent !== null ? `deductions are capped at ${traceNumber(capPercent)}% of gross pay` : "deductions cannot exceed gross pay"
+        }`,
+        amount: recovered,
+        sourceId: claim.sourceId,
+      });
+    }
+  }
+
+  const otherDeductions = courtOrderDeduction + penaltyDeduction;
+
+  const totalEmpDeductions = statutoryDeductions + loanDeduction + advanceDeduction + otherDeductions;
 
   const netPay = Math.max(0, grossPay - totalEmpDeductions);
 
+  if (socialInsuranceBreakdown) {
+    for (const line of socialInsuranceBreakdown.lines) {
+      addStep({
+        category: "statutory",
+        outcome: "included",
+        label: line.label,
+        formula: `${traceNumber(line.contributionSalary)} × ${traceNumber(line.employeeRate)}%`,
+        amount: line.employeeAmount,
+      });
+    }
+  }
+  if (taxDeduction > 0) {
+    addStep({ category: "statutory", outcome: "included", label: "Tax", amount: taxDeduction });
+  }
+  if (healthInsuranceDeduction > 0) {
+    addStep({ category: "statutory", outcome: "included", label: "Health insurance", amount: healthInsuranceDeduction });
+  }
+  addStep({
+    category: "net",
+    outcome: grossPay - totalEmpDeductions < 0 ? "capped" : "included",
+    label: "Net pay",
+    detail: grossPay - totalEmpDeductions < 0 ? "Deductions exceed gross pay; net pay cannot go below zero" : null,
+    formula: `${traceNumber(grossPay)} gross - ${traceNumber(totalEmpDeductions)} deductions`,
+    amount: netPay,
+  });
+
+  trace.inputs.push(
+    { key: "employeeStatus", label: "Employee status", value: employee.status },
+    { key: "contractSalary", label: "Contract salary", value: parseFloat(employee.salary) },
+    { key: "monthlySalary", label: "Monthly salary for the period", value: Math.round(monthlySalary * 1000) / 1000 },
+    { key: "period", label: "Period", value: `${startKey} to ${endKey}` },
+    { key: "periodDays", label: "Calendar days", value: totalPeriodDays },
+    { key: "workingDays", label: "Working days", value: normalizedWorkingDays },
+    { key: "attendanceDays", label: "Attended days", value: typeof attendanceDays === "number" ? attendanceDays : null },
+    { key: "vacationDays", label: "Leave days", value: vacationDays },
+    { key: "holidays", label: "Public holidays on working days", value: holidaysInPeriod },
+    { key: "includeSalary", label: "Salary paid in this run", value: includeSalary },
+  );
+
   let adjustmentReason = "";
   if (
     employee.status === "active" &&
+    includeSalary &&
     normalizedWorkingDays > 0 &&
     actualWorkingDays !== normalizedWorkingDays
   ) {
     adjustmentReason += `Worked ${actualWorkingDays}/${normalizedWorkingDays} days. `;
   }
+  if (employee.status === "active" && includeSalary && salarySegments.length > 1) {
+    for (const segment of salarySegments.slice(1)) {
+      adjustmentReason += `Salary ${formatCurrency(segment.monthlySalary)} from ${segment.startDate}. `;
+    }
+  }
+  if (retroLines) {
+    const periods = Array.from(new Set(retroLines.map(line => line.period)));
+    adjustmentReason += `Retro ${formatCurrency(retro.net)} for ${periods.join(", ")}. `;
+  }
+  if (overtimeAmount > 0 && overtimePay) {
+    const paidHours =
+      overtimePay.lines.reduce((total, line) => total + line.paidMinutes, 0) / 60;
+    adjustmentReason += `Overtime ${formatCurrency(overtimeAmount)} for ${Number(paidHours.toFixed(2))}h. `;
+  }
   if (vacationDays > 0) {
     adjustmentReason += `${vacationDays} vacation days. `;
   }
@@ -297,6 +962,13 @@ export function calculateEmployeePayroll({
       adjustmentReason += `Schedule variance (${loanMismatches.join(", ")}). `;
     }
   }
+  if (advanceDeduction > 0) {
+    adjustmentReason += `Salary advance recovered: ${formatCurrency(advanceDeduction)}. `;
+  }
+  if (deductionCarryForward.length > 0) {
+    const carriedTotal = deductionCarryForward.reduce((total, line) => total + line.amount, 0);
+    adjustmentReason += `Deductions of ${formatCurrency(carriedTotal)} carried forward. `;
+  }
 
   return {
     employeeId: employee.id,
@@ -311,9 +983,20 @@ export function calculateEmployeePayroll({
     socialSecurityDeduction,
     healthInsuranceDeduction,
     loanDeduction,
+    advanceDeduction,
     otherDeductions,
     netPay,
     adjustmentReason: adjustmentReason.trim() || null,
+    socialInsuranceBreakdown,
+    retroAmount: retro.net,
+    retroAdjustments: retroLines,
+    overtimeAmount,
+    overtimeLines: overtimePay && overtimePay.lines.length > 0 ? overtimePay.lines : null,
+    calculationTrace: trace,
+    payComponents: componentLines,
+    deductionCarryForward: deductionCarryForward.length > 0 ? deductionCarryForward : null,
+    loanRecoveries,
+    advanceRecoveries,
   };
 }
 
@@ -345,6 +1028,7 @@ export function calculateTotals(entries: EmployeePayroll[]) {
       e.socialSecurityDeduction +
       e.healthInsuranceDeduction +
       e.loanDeduction +
+      e.advanceDeduction +
       e.otherDeductions,
     0,
   );
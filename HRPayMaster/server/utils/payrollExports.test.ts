@@ -1,12 +1,22 @@
 import { describe, it, expect, vi } from "vitest";
 import * as XLSX from "xlsx";
-import { buildPayrollExports } from "./payrollExports";
+import {
+  buildFinalSettlementStatementPdf,
+  buildLoanRepaymentReceiptPdf,
+  buildPayrollExports,
+  buildPayslipPdf,
+  buildZipArchive,
+  payslipFilename,
+} from "./payrollExports";
+import { calculateFinalSettlement } from "./endOfService";
 import type {
   PayrollExportRequest,
   PayrollRun,
   EmployeeWithDepartment,
 } from "@shared/schema";
 
+const pdfDefinitions = vi.hoisted(() => [] as any[]);
+
 vi.mock("pdfmake", () => {
   class MockPdfDocument {
     private handlers: Record<string, ((chunk?: unknown) => void) | undefined> = {};
@@ -24,7 +34,8 @@ vi.mock("pdfmake", () => {
 
   return {
     default: class MockPdfPrinter {
-      createPdfKitDocument() {
+      createPdfKitDocument(definition: unknown) {
+        pdfDefinitions.push(definition);
         return new MockPdfDocument();
       }
     },
@@ -94,6 +105,7 @@ describe("buildPayrollExports", () => {
       grossPay: 5000,
       netPay: 4500,
       loanDeduction: 200,
+      advanceDeduction: 0,
       otherDeductions: 300,
       bonusAmount: 250,
       taxDeduction: 100,
@@ -108,7 +120,7 @@ describe("buildPayrollExports", () => {
     { id: "statutory-pdf", type: "statutory", format: "pdf" },
   ];
 
-  it("creates base64 encoded artifacts for each export request", async () => {
+  it("builds a file for each export request", async () => {
     const artifacts = await buildPayrollExports({
       run,
       entries,
@@ -123,7 +135,7 @@ describe("buildPayrollExports", () => {
     const bankArtifact = artifacts.find(artifact => artifact.type === "bank");
     expect(bankArtifact?.mimeType).toBe("text/csv");
     expect(bankArtifact?.filename).toContain("bank-export-jan-2024-baseline.csv");
-    const bankCsv = Buffer.from(bankArtifact!.data, "base64").toString("utf8");
+    const bankCsv = bankArtifact!.content.toString("utf8");
     expect(bankCsv).toContain("Employee Code,Employee Name,Bank,IBAN,Net Pay");
     expect(bankCsv).toContain("E001");
 
@@ -131,7 +143,7 @@ describe("buildPayrollExports", () => {
     expect(glArtifact?.mimeType).toBe(
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
     );
-    const workbook = XLSX.read(Buffer.from(glArtifact!.data, "base64"), {
+    const workbook = XLSX.read(glArtifact!.content, {
       type: "buffer",
     });
     expect(workbook.SheetNames).toContain("Payroll GL");
@@ -142,7 +154,184 @@ describe("buildPayrollExports", () => {
 
     const statutoryArtifact = artifacts.find(artifact => artifact.type === "statutory");
     expect(statutoryArtifact?.mimeType).toBe("application/pdf");
-    const pdfBuffer = Buffer.from(statutoryArtifact!.data, "base64");
+    const pdfBuffer = statutoryArtifact!.content;
     expect(pdfBuffer.subarray(0, 4).toString("ascii")).toBe("%PDF");
   });
+  it("renders the configured bank file layout and skips it when IBANs are invalid", async () => {
+    const bankRequest: PayrollExportRequest = {
+      id: "bank-nbk",
+      type: "bank",
+      format: "txt",
+      bankFormat: "nbk",
+      options: { debitAccount: "2001234567", employerCode: "ACME01" },
+    };
+    const validEmployees = [{ ...employees[0], iban: "KW09NBOK0000000000001234567890" }];
+
+    const [artifact] = await buildPayrollExports({
+      run,
+      entries,
+      employees: validEmployees,
+      currencyCode: "KWD",
+      scenarioKey: "baseline",
+      toggles: {},
+      requests: [bankRequest],
+    });
+
+    expect(artifact).toMatchObject({
+      format: "txt",
+      mimeType: "text/plain",
+      filename: "bank-nbk-export-jan-2024-baseline.txt",
+    });
+    const lines = artifact.content.toString("utf8").trimEnd().split("\r\n");
+    expect(lines.at(-1)).toBe("T000001000000004500000");
+
+    const skipped = await buildPayrollExports({
+      run,
+      entries,
+      employees,
+      scenarioKey: "baseline",
+      toggles: {},
+      requests: [bankRequest],
+    });
+    expect(skipped).toEqual([]);
+  });
+});
+
+describe("buildFinalSettlementStatementPdf", () => {
+  it("renders a settlement statement", async () => {
+    const settlement = calculateFinalSettlement({
+      employeeId: "emp-1",
+      startDate: "2020-01-01",
+      terminationDate: "2022-12-15",
+      periodStart: "2022-12-01",
+      reason: "termination",
+      monthlySalary: 620,
+      leaveBalanceDays: 5,
+    });
+
+    const buffer = await buildFinalSettlementStatementPdf({
+      settlement,
+      employee: {
+        employeeCode: "E001",
+        firstName: "John",
+        lastName: "Doe",
+        arabicName: null,
+        position: "Developer",
+        startDate: "2020-01-01",
+      },
+      companyName: "Acme",
+      currencyCode: "KWD",
+    });
+
+    expect(buffer.subarray(0, 4).toString("ascii")).toBe("%PDF");
+  });
+});
+
+describe("buildPayslipPdf", () => {
+  const run = { period: "Jan 2024", startDate: "2024-01-01", endDate: "2024-01-31" };
+  const entry = {
+    baseSalary: "1000.00",
+    grossPay: "1150.00",
+    bonusAmount: "150.00",
+    allowances: { housing: 100 },
+    workingDays: 30,
+    actualWorkingDays: 30,
+    vacationDays: 0,
+    taxDeduction: "0",
+    socialSecurityDeduction: "80.00",
+    healthInsuranceDeduction: "0",
+    loanDeduction: "50.00",
+    advanceDeduction: "70.00",
+    otherDeductions: "0",
+    netPay: "950.00",
+  };
+  const employee = {
+    employeeCode: "E/001",
+    firstName: "John",
+    lastName: "Doe",
+    arabicName: null,
+    position: "Developer",
+  };
+
+  it("itemises allowances and non-zero deductions", async () => {
+    pdfDefinitions.length = 0;
+    const buffer = await buildPayslipPdf({ run, entry, employee, companyName: "Acme" });
+
+    expect(buffer.subarray(0, 4).toString("ascii")).toBe("%PDF");
+    const text = JSON.stringify(pdfDefinitions[0].content);
+    expect(text).toContain("Housing allowance");
+    expect(text).toContain("Bonuses");
+    expect(text).toContain("Loan repayment");
+    expect(text).toContain("Salary advance");
+    expect(text).not.toContain("Health insurance");
+    expect(pdfDefinitions[0].userPassword).toBeUndefined();
+  });
+
+  it("encrypts the document when a password is given", async () => {
+    pdfDefinitions.length = 0;
+    await buildPayslipPdf({ run, entry, employee, password: "290010112345" });
+
+    expect(pdfDefinitions[0]).toMatchObject({ version: "1.7", userPassword: "290010112345" });
+    expect(pdfDefinitions[0].ownerPassword).not.toBe("290010112345");
+  });
+
+  it("names and zips payslips per employee", () => {
+    const filename = payslipFilename(run, employee);
+    expect(filename).toBe("payslip-jan-2024-E-001.pdf");
+
+    const zip = buildZipArchive([{ filename, data: Buffer.from("%PDF-1.4\n") }]);
+    const archive = XLSX.CFB.read(zip, { type: "buffer" });
+    const file = XLSX.CFB.find(archive, filename);
+    expect(Buffer.from(file!.content as Uint8Array).toString()).toBe("%PDF-1.4\n");
+  });
+});
+
+describe("buildLoanRepaymentReceiptPdf", () => {
+  const employee = { employeeCode: "E001", firstName: "John", lastName: "Doe", arabicName: null };
+  const loan = { amount: "1200.00", startDate: "2024-01-01" };
+
+  it("prints the method, amount and remaining balance", async () => {
+    pdfDefinitions.length = 0;
+    const buffer = await buildLoanRepaymentReceiptPdf({
+      payment: {
+        receiptNumber: "LR-20240315-ABCD1234",
+        amount: "300.00",
+        appliedDate: "2024-03-15",
+        source: "bank_transfer",
+        reference: "TRX-1",
+        balanceAfter: "500.00",
+      },
+      loan,
+      employee,
+      companyName: "Acme",
+    });
+
+    expect(buffer.subarray(0, 4).toString("ascii")).toBe("%PDF");
+    const text = JSON.stringify(pdfDefinitions[0].content);
+    expect(text).toContain("LR-20240315-ABCD1234");
+    expect(text).toContain("Bank transfer");
+    expect(text).toContain("TRX-1");
+    expect(text).toContain("500.00 KWD");
+    expect(text).not.toContain("settled in full");
+  });
+
+  it("notes when the repayment settles the loan", async () => {
+    pdfDefinitions.length = 0;
+    await buildLoanRepaymentReceiptPdf({
+      payment: {
+        receiptNumber: "LR-20240315-0000FFFF",
+        amount: "500.00",
+        appliedDate: "2024-03-15",
+        source: "cash",
+        reference: null,
+        balanceAfter: "0.00",
+      },
+      loan,
+      employee,
+    });
+
+    const text = JSON.stringify(pdfDefinitions[0].content);
+    expect(text).toContain("Cash");
+    expect(text).toContain("The loan is settled in full.");
+  });
 });
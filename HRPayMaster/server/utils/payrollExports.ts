@@ -6,18 +6,34 @@ import type { TDocumentDefinitions } from "pdfmake/interfaces";
 import * as XLSX from "xlsx";
 import {
   type EmployeeWithDepartment,
+  type Loan,
+  type LoanPayment,
+  type PayrollEntry,
   type PayrollExportArtifact,
   type PayrollExportFormatConfig,
+  type PayrollJournal,
   type PayrollRun,
 } from "@shared/schema";
+import { buildBankFile } from "./bankFiles";
+import { appendPayrollJournalSheet, buildPayrollJournalCsv } from "./payrollJournal";
+import type { FinalSettlement, TerminationReason } from "./endOfService";
+import type { SocialInsuranceReport } from "./socialInsurance";
 
 export interface PayrollExportRequest {
   id?: string;
   type: PayrollExportFormatConfig["type"];
   format?: PayrollExportFormatConfig["format"];
   filename?: string;
+  bankFormat?: string | null;
+  options?: Record<string, unknown>;
 }
 
+/** An export file as built, before it is written to file storage. */
+export type BuiltPayrollExport = Omit<
+  PayrollExportArtifact,
+  "fileId" | "version" | "sizeBytes" | "checksum" | "data"
+> & { content: Buffer };
+
 export interface PayrollExportBuildContext {
   run: PayrollRun;
   entries: Array<{
@@ -25,6 +41,7 @@ export interface PayrollExportBuildContext {
     grossPay: number;
     netPay: number;
     loanDeduction: number;
+    advanceDeduction: number;
     otherDeductions: number;
     bonusAmount: number;
     taxDeduction: number;
@@ -32,9 +49,59 @@ export interface PayrollExportBuildContext {
     healthInsuranceDeduction: number;
   }>;
   employees: EmployeeWithDepartment[];
+  currencyCode?: string | null;
   scenarioKey: string;
   toggles: Record<string, boolean>;
   requests: PayrollExportRequest[];
+  /** Posting journal for GL exports; without it the GL workbook only lists employee totals. */
+  journal?: PayrollJournal;
+}
+
+export interface FinalSettlementStatementContext {
+  settlement: FinalSettlement;
+  employee: Pick<EmployeeWithDepartment, "employeeCode" | "firstName" | "lastName" | "arabicName" | "position" | "startDate">;
+  companyName?: string | null;
+  currencyCode?: string | null;
+  generatedAt?: Date;
+}
+
+export interface PayslipContext {
+  run: Pick<PayrollRun, "period" | "startDate" | "endDate">;
+  entry: Pick<
+    PayrollEntry,
+    | "baseSalary"
+    | "grossPay"
+    | "bonusAmount"
+    | "allowances"
+    | "workingDays"
+    | "actualWorkingDays"
+    | "vacationDays"
+    | "taxDeduction"
+    | "socialSecurityDeduction"
+    | "healthInsuranceDeduction"
+    | "loanDeduction"
+    | "advanceDeduction"
+    | "otherDeductions"
+    | "netPay"
+  >;
+  employee: Pick<EmployeeWithDepartment, "employeeCode" | "firstName" | "lastName" | "arabicName" | "position">;
+  companyName?: string | null;
+  currencyCode?: string | null;
+  /** When set, the PDF is encrypted and needs this password to open. */
+  password?: string | null;
+  generatedAt?: Date;
+}
+
+export interface LoanRepaymentReceiptContext {
+  payment: Pick<
+    LoanPayment,
+    "receiptNumber" | "amount" | "appliedDate" | "source" | "reference" | "balanceAfter"
+  >;
+  loan: Pick<Loan, "amount" | "startDate">;
+  employee: Pick<EmployeeWithDepartment, "employeeCode" | "firstName" | "lastName" | "arabicName">;
+  companyName?: string | null;
+  currencyCode?: string | null;
+  generatedAt?: Date;
 }
 
 const moduleDir = path.dirname(fileURLToPath(import.meta.url));
@@ -99,6 +166,7 @@ const buildGlWorkbook = (
     "Bonus",
     "Statutory Deductions",
     "Loan Deduction",
+    "Salary Advance",
     "Other Deductions",
     "Net Pay",
   ];
@@ -114,12 +182,16 @@ const buildGlWorkbook = (
       toCurrency(entry.bonusAmount),
       toCurrency(entry.taxDeduction + entry.socialSecurityDeduction + entry.healthInsuranceDeduction),
       toCurrency(entry.loanDeduction),
+      toCurrency(entry.advanceDeduction),
       toCurrency(entry.otherDeductions),
       toCurrency(entry.netPay),
     ];
   });
   const sheet = XLSX.utils.aoa_to_sheet([header, ...rows]);
   const workbook = XLSX.utils.book_new();
+  if (context.journal) {
+    appendPayrollJournalSheet(workbook, context.journal);
+  }
   XLSX.utils.book_append_sheet(workbook, sheet, "Payroll GL");
   return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
 };
@@ -183,6 +255,436 @@ const buildStatutoryPdf = async (
   return await createPdfBuffer(doc);
 };
 
+const terminationReasonLabels: Record<TerminationReason, { en: string; ar: string }> = {
+  termination: { en: "Termination by employer", ar: "إنهاء من صاحب العمل" },
+  resignation: { en: "Resignation", ar: "استقالة" },
+  contract_end: { en: "End of contract", ar: "انتهاء العقد" },
+  retirement: { en: "Retirement", ar: "تقاعد" },
+  death: { en: "Death", ar: "وفاة" },
+  misconduct: { en: "Dismissal for misconduct", ar: "فصل تأديبي" },
+};
+
+/**
+ * Builds the monthly PIFSS contribution file as CSV or XLSX, one row per
+ * insured employee followed by a totals row.
+ */
+export const buildSocialInsuranceReportFile = (
+  report: SocialInsuranceReport,
+  format: "csv" | "xlsx",
+): Buffer => {
+  const header = [
+    "Employee Code",
+    "Employee Name",
+    "Civil ID",
+    "Nationality Group",
+    "Insurable Salary",
+    "Employee Contribution",
+    "Employer Contribution",
+    "Total Contribution",
+  ];
+  const rows = report.employees.map(employee => [
+    employee.employeeCode,
+    employee.employeeName,
+    employee.civilId,
+    employee.nationalityGroup ?? "",
+    toCurrency(employee.insurableSalary),
+    toCurrency(employee.employeeContribution),
+    toCurrency(employee.employerContribution),
+    toCurrency(employee.employeeContribution + employee.employerContribution),
+  ]);
+  rows.push([
+    "",
+    "Total",
+    "",
+    "",
+    toCurrency(report.totals.insurableSalary),
+    toCurrency(report.totals.employeeContribution),
+    toCurrency(report.totals.employerContribution),
+    toCurrency(report.totals.totalContribution),
+  ]);
+
+  if (format === "csv") {
+    const csv = [header, ...rows].map(row => row.map(escapeCsvCell).join(",")).join("\r\n");
+    return Buffer.from(csv, "utf8");
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...rows]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, `PIFSS ${report.month}`);
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+};
+
+/**
+ * Renders the bilingual (English/Arabic) final settlement statement handed to
+ * a leaver alongside the final settlement payroll run.
+ */
+export const buildFinalSettlementStatementPdf = async (
+  context: FinalSettlementStatementContext,
+): Promise<Buffer> => {
+  const { settlement, employee } = context;
+  const currency = context.currencyCode?.trim() || "KWD";
+  const amount = (value: number) => `${toCurrency(value)} ${currency}`;
+  const fullName = `${employee.firstName ?? ""} ${employee.lastName ?? ""}`.trim();
+  const reason = terminationReasonLabels[settlement.reason] ?? {
+    en: settlement.reason,
+    ar: settlement.reason,
+  };
+  const row = (en: string, value: string | number, ar: string) => [
+    en,
+    { text: String(value), alignment: "center" as const },
+    { text: ar, alignment: "right" as const },
+  ];
+
+  const doc: TDocumentDefinitions = {
+    content: [
+      { text: context.companyName ?? "", style: "subheader" },
+      {
+        columns: [
+          { text: "Final Settlement Statement", style: "header" },
+          { text: "كشف المخالصة النهائية", style: "header", alignment: "right" },
+        ],
+        margin: [0, 4, 0, 12],
+      },
+      {
+        table: {
+          widths: ["*", "auto", "*"],
+          body: [
+            row("Employee", `${fullName} (${employee.employeeCode})`, employee.arabicName ?? "الموظف"),
+            row("Position", employee.position ?? "", "المسمى الوظيفي"),
+            row("Start date", employee.startDate, "تاريخ المباشرة"),
+            row("Termination date", settlement.terminationDate, "تاريخ انتهاء الخدمة"),
+            row(`Reason: ${reason.en}`, "", `السبب: ${reason.ar}`),
+            row("Years of service", settlement.indemnity.serviceYears.toFixed(2), "سنوات الخدمة"),
+          ],
+        },
+        layout: "lightHorizontalLines",
+        margin: [0, 0, 0, 16],
+      },
+      {
+        table: {
+          headerRows: 1,
+          widths: ["*", "auto", "*"],
+          body: [
+            [
+              { text: "Item", style: "tableHeader" },
+              { text: "Amount", style: "tableHeader", alignment: "center" },
+              { text: "البند", style: "tableHeader", alignment: "right" },
+            ],
+            row(
+              `Salary ${settlement.periodStart} to ${settlement.terminationDate} (${settlement.daysWorked}/${settlement.daysInMonth} days)`,
+              amount(settlement.proratedSalary),
+              "راتب الأيام المستحقة",
+            ),
+            row("End-of-service indemnity", amount(settlement.indemnity.amount), "مكافأة نهاية الخدمة"),
+            row(
+              `Leave encashment (${settlement.leaveEncashmentDays} days)`,
+              amount(settlement.leaveEncashmentAmount),
+              "بدل رصيد الإجازات",
+            ),
+            row("Gross settlement", amount(settlement.grossAmount), "إجمالي المستحقات"),
+            ...(settlement.advanceRecovery > 0
+              ? [row("Salary advance recovery", `-${amount(settlement.advanceRecovery)}`, "استرداد السلف")]
+              : []),
+            row("Loan recovery", `-${amount(settlement.loanRecovery)}`, "استرداد القروض"),
+            row("Net payable", amount(settlement.netAmount), "صافي المستحق"),
+          ],
+        },
+        layout: "lightHorizontalLines",
+        margin: [0, 0, 0, 16],
+      },
+      {
+        table: {
+          widths: ["*", "auto", "*"],
+          body: [
+            row("Indemnity salary", amount(settlement.indemnity.indemnitySalary), "راتب احتساب المكافأة"),
+            row(
+              `First ${settlement.indemnity.firstTierYears} years at 15 days/year`,
+              amount(settlement.indemnity.firstTierAmount),
+              "السنوات الخمس الأولى (15 يوماً عن كل سنة)",
+            ),
+            row(
+              `Remaining ${settlement.indemnity.secondTierYears} years at one month/year`,
+              amount(settlement.indemnity.secondTierAmount),
+              "ما زاد عن خمس سنوات (شهر عن كل سنة)",
+            ),
+            row(
+              "Entitlement",
+              `${Math.round(settlement.indemnity.entitlementRatio * 100)}%`,
+              "نسبة الاستحقاق",
+            ),
+          ],
+        },
+        layout: "lightHorizontalLines",
+      },
+      ...settlement.indemnity.notes.map(note => ({ text: note, margin: [0, 6, 0, 0] as [number, number, number, number] })),
+      {
+        text: `Generated ${(context.generatedAt ?? new Date()).toISOString().split("T")[0]}`,
+        fontSize: 8,
+        margin: [0, 24, 0, 0],
+      },
+    ],
+    styles: {
+      header: { fontSize: 16, bold: true },
+      subheader: { fontSize: 12, bold: true },
+      tableHeader: { bold: true },
+    },
+    defaultStyle: { font: "Cairo", fontSize: 10 },
+  };
+
+  return await createPdfBuffer(doc);
+};
+
+const toAmount = (value: unknown) => {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Renders the bilingual (English/Arabic) payslip for a single payroll entry.
+ */
+export const buildPayslipPdf = async (context: PayslipContext): Promise<Buffer> => {
+  const { run, entry, employee } = context;
+  const currency = context.currencyCode?.trim() || "KWD";
+  const amount = (value: unknown) => `${toCurrency(toAmount(value))} ${currency}`;
+  const fullName = `${employee.firstName ?? ""} ${employee.lastName ?? ""}`.trim();
+  const row = (en: string, value: string | number, ar: string) => [
+    en,
+    { text: String(value), alignment: "center" as const },
+    { text: ar, alignment: "right" as const },
+  ];
+  const header = (en: string, ar: string) => [
+    { text: en, style: "tableHeader" },
+    { text: "Amount", style: "tableHeader", alignment: "center" as const },
+    { text: ar, style: "tableHeader", alignment: "right" as const },
+  ];
+
+  const allowances =
+    entry.allowances && typeof entry.allowances === "object"
+      ? Object.entries(entry.allowances as Record<string, unknown>).filter(
+          ([, value]) => toAmount(value) !== 0,
+        )
+      : [];
+  const allowanceTotal = allowances.reduce((sum, [, value]) => sum + toAmount(value), 0);
+  const otherBonus = toAmount(entry.bonusAmount) - allowanceTotal;
+  // Retro lines owed to the employee are the only part of gross pay outside
+  // base salary and bonuses; recoveries sit in other deductions.
+  const retroPay = toAmount(entry.grossPay) - toAmount(entry.baseSalary) - toAmount(entry.bonusAmount);
+  const totalDeductions =
+    toAmount(entry.taxDeduction) +
+    toAmount(entry.socialSecurityDeduction) +
+    toAmount(entry.healthInsuranceDeduction) +
+    toAmount(entry.loanDeduction) +
+    toAmount(entry.advanceDeduction) +
+    toAmount(entry.otherDeductions);
+
+  const earnings = [
+    header("Earnings", "الاستحقاقات"),
+    row("Basic salary", amount(entry.baseSalary), "الراتب الأساسي"),
+    ...allowances.map(([key, value]) =>
+      row(`${downloadLabel(key)} allowance`, amount(value), `بدل ${downloadLabel(key)}`),
+    ),
+    ...(Math.abs(otherBonus) >= 0.005 ? [row("Bonuses", amount(otherBonus), "المكافآت")] : []),
+    ...(retroPay >= 0.005 ? [row("Retro pay", amount(retroPay), "فروقات بأثر رجعي")] : []),
+    row("Gross pay", amount(entry.grossPay), "إجمالي الراتب"),
+  ];
+
+  const deductionLines: Array<[string, unknown, string]> = [
+    ["Tax", entry.taxDeduction, "الضريبة"],
+    ["Social security", entry.socialSecurityDeduction, "التأمينات الاجتماعية"],
+    ["Health insurance", entry.healthInsuranceDeduction, "التأمين الصحي"],
+    ["Loan repayment", entry.loanDeduction, "سداد القرض"],
+    ["Salary advance", entry.advanceDeduction, "استرداد سلفة الراتب"],
+    ["Other deductions", entry.otherDeductions, "استقطاعات أخرى"],
+  ];
+  const deductions = [
+    header("Deductions", "الاستقطاعات"),
+    ...deductionLines
+      .filter(([, value]) => toAmount(value) !== 0)
+      .map(([en, value, ar]) => row(en, amount(value), ar)),
+    row("Total deductions", amount(totalDeductions), "إجمالي الاستقطاعات"),
+  ];
+
+  const doc: TDocumentDefinitions = {
+    info: { title: `Payslip ${run.period} - ${employee.employeeCode}` },
+    content: [
+      { text: context.companyName ?? "", style: "subheader" },
+      {
+        columns: [
+          { text: "Payslip", style: "header" },
+          { text: "قسيمة الراتب", style: "header", alignment: "right" },
+        ],
+        margin: [0, 4, 0, 12],
+      },
+      {
+        table: {
+          widths: ["*", "auto", "*"],
+          body: [
+            row("Employee", `${fullName} (${employee.employeeCode})`, employee.arabicName ?? "الموظف"),
+            row("Position", employee.position ?? "", "المسمى الوظيفي"),
+            row("Period", `${run.period} (${run.startDate} - ${run.endDate})`, "الفترة"),
+            row(
+              "Days worked",
+              `${entry.actualWorkingDays ?? entry.workingDays}/${entry.workingDays}`,
+              "أيام العمل",
+            ),
+            row("Vacation days", entry.vacationDays ?? 0, "أيام الإجازة"),
+          ],
+        },
+        layout: "lightHorizontalLines",
+        margin: [0, 0, 0, 16],
+      },
+      {
+        table: { headerRows: 1, widths: ["*", "auto", "*"], body: earnings },
+        layout: "lightHorizontalLines",
+        margin: [0, 0, 0, 16],
+      },
+      {
+        table: { headerRows: 1, widths: ["*", "auto", "*"], body: deductions },
+        layout: "lightHorizontalLines",
+        margin: [0, 0, 0, 16],
+      },
+      {
+        table: {
+          widths: ["*", "auto", "*"],
+          body: [row("Net pay", amount(entry.netPay), "صافي الراتب")],
+        },
+        layout: "noBorders",
+        style: "subheader",
+      },
+      {
+        text: `Generated ${(context.generatedAt ?? new Date()).toISOString().split("T")[0]}`,
+        fontSize: 8,
+        margin: [0, 24, 0, 0],
+      },
+    ],
+    styles: {
+      header: { fontSize: 16, bold: true },
+      subheader: { fontSize: 12, bold: true },
+      tableHeader: { bold: true },
+    },
+    defaultStyle: { font: "Cairo", fontSize: 10 },
+    ...(context.password
+      ? {
+          version: "1.7" as const,
+          userPassword: context.password,
+          ownerPassword: randomUUID(),
+          permissions: { printing: "highResolution" as const, copying: false, modifying: false },
+        }
+      : {}),
+  };
+
+  return await createPdfBuffer(doc);
+};
+
+const repaymentMethodLabels: Record<string, { en: string; ar: string }> = {
+  cash: { en: "Cash", ar: "نقداً" },
+  bank_transfer: { en: "Bank transfer", ar: "تحويل بنكي" },
+};
+
+/**
+ * Renders the bilingual (English/Arabic) receipt for a loan repayment made
+ * outside payroll.
+ */
+export const buildLoanRepaymentReceiptPdf = async (
+  context: LoanRepaymentReceiptContext,
+): Promise<Buffer> => {
+  const { payment, loan, employee } = context;
+  const currency = context.currencyCode?.trim() || "KWD";
+  const amount = (value: unknown) => `${toCurrency(toAmount(value))} ${currency}`;
+  const fullName = `${employee.firstName ?? ""} ${employee.lastName ?? ""}`.trim();
+  const method = repaymentMethodLabels[payment.source] ?? { en: payment.source, ar: payment.source };
+  const settled = payment.balanceAfter !== null && toAmount(payment.balanceAfter) <= 0.01;
+  const row = (en: string, value: string | number, ar: string) => [
+    en,
+    { text: String(value), alignment: "center" as const },
+    { text: ar, alignment: "right" as const },
+  ];
+
+  const doc: TDocumentDefinitions = {
+    info: { title: `Loan repayment receipt ${payment.receiptNumber ?? ""}`.trim() },
+    content: [
+      { text: context.companyName ?? "", style: "subheader" },
+      {
+        columns: [
+          { text: "Loan Repayment Receipt", style: "header" },
+          { text: "إيصال سداد قرض", style: "header", alignment: "right" },
+        ],
+        margin: [0, 4, 0, 12],
+      },
+      {
+        table: {
+          widths: ["*", "auto", "*"],
+          body: [
+            row("Receipt number", payment.receiptNumber ?? "", "رقم الإيصال"),
+            row("Employee", `${fullName} (${employee.employeeCode})`, employee.arabicName ?? "الموظف"),
+            row("Payment date", payment.appliedDate, "تاريخ السداد"),
+            row(`Method: ${method.en}`, "", `طريقة السداد: ${method.ar}`),
+            ...(payment.reference ? [row("Reference", payment.reference, "المرجع")] : []),
+          ],
+        },
+        layout: "lightHorizontalLines",
+        margin: [0, 0, 0, 16],
+      },
+      {
+        table: {
+          widths: ["*", "auto", "*"],
+          body: [
+            row(`Loan from ${loan.startDate}`, amount(loan.amount), "مبلغ القرض"),
+            row("Amount received", amount(payment.amount), "المبلغ المستلم"),
+            ...(payment.balanceAfter !== null
+              ? [row("Balance after payment", amount(payment.balanceAfter), "الرصيد المتبقي بعد السداد")]
+              : []),
+          ],
+        },
+        layout: "lightHorizontalLines",
+        margin: [0, 0, 0, 16],
+      },
+      ...(settled
+        ? [
+            {
+              columns: [
+                { text: "The loan is settled in full." },
+                { text: "تمت تسوية القرض بالكامل.", alignment: "right" as const },
+              ],
+              style: "subheader",
+            },
+          ]
+        : []),
+      {
+        text: `Generated ${(context.generatedAt ?? new Date()).toISOString().split("T")[0]}`,
+        fontSize: 8,
+        margin: [0, 24, 0, 0],
+      },
+    ],
+    styles: {
+      header: { fontSize: 16, bold: true },
+      subheader: { fontSize: 12, bold: true },
+      tableHeader: { bold: true },
+    },
+    defaultStyle: { font: "Cairo", fontSize: 10 },
+  };
+
+  return await createPdfBuffer(doc);
+};
+
+export const payslipFilename = (
+  run: Pick<PayrollRun, "period">,
+  employee: Pick<EmployeeWithDepartment, "employeeCode">,
+) => {
+  const safePeriod = run.period.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  const safeCode = String(employee.employeeCode).replace(/[^A-Za-z0-9_-]+/g, "-");
+  return `payslip-${safePeriod}-${safeCode}.pdf`;
+};
+
+/** Bundles rendered files into a single ZIP archive. */
+export const buildZipArchive = (files: Array<{ filename: string; data: Buffer }>): Buffer => {
+  const archive = XLSX.CFB.utils.cfb_new();
+  for (const file of files) {
+    XLSX.CFB.utils.cfb_add(archive, file.filename, file.data);
+  }
+  return XLSX.CFB.write(archive, { fileType: "zip", type: "buffer", compression: true }) as Buffer;
+};
+
 const resolveFilename = (
   run: PayrollRun,
   request: PayrollExportRequest,
@@ -193,12 +695,13 @@ const resolveFilename = (
     return request.filename;
   }
   const safePeriod = run.period.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
-  return `${request.type}-export-${safePeriod}-${scenarioKey}.${extension}`;
+  const prefix = request.bankFormat ? `${request.type}-${request.bankFormat}` : request.type;
+  return `${prefix}-export-${safePeriod}-${scenarioKey}.${extension}`;
 };
 
 export async function buildPayrollExports(
   context: PayrollExportBuildContext,
-): Promise<PayrollExportArtifact[]> {
+): Promise<BuiltPayrollExport[]> {
   if (!Array.isArray(context.requests) || context.requests.length === 0) {
     return [];
   }
@@ -214,7 +717,7 @@ export async function buildPayrollExports(
     { gross: 0, net: 0, deductions: 0 },
   );
 
-  const artifacts: PayrollExportArtifact[] = [];
+  const artifacts: BuiltPayrollExport[] = [];
   const timestamp = new Date().toISOString();
 
   for (const request of context.requests) {
@@ -222,6 +725,28 @@ export async function buildPayrollExports(
     const artifactId = request.id ?? randomUUID();
 
     try {
+      if (request.type === "bank" && request.bankFormat) {
+        const bankFile = buildBankFile(request.bankFormat, {
+          run: context.run,
+          entries: context.entries,
+          employees: context.employees,
+          currencyCode: context.currencyCode,
+          options: request.options,
+        });
+        artifacts.push({
+          id: artifactId,
+          type: request.type,
+          format: bankFile.format.extension,
+          filename: resolveFilename(context.run, request, context.scenarioKey, bankFile.format.extension),
+          mimeType: bankFile.format.mimeType,
+          content: bankFile.content,
+          createdAt: timestamp,
+          scenarioKey: context.scenarioKey,
+          description: `${bankFile.format.label}: ${bankFile.recordCount} transfers, total ${bankFile.totalAmount}`,
+        });
+        continue;
+      }
+
       if (request.type === "bank" && format === "csv") {
         const buffer = buildBankCsv(context, employeeMap);
         artifacts.push({
@@ -230,7 +755,7 @@ export async function buildPayrollExports(
           format,
           filename: resolveFilename(context.run, request, context.scenarioKey, "csv"),
           mimeType: "text/csv",
-          data: buffer.toString("base64"),
+          content: buffer,
           createdAt: timestamp,
           scenarioKey: context.scenarioKey,
         });
@@ -245,9 +770,24 @@ export async function buildPayrollExports(
           format,
           filename: resolveFilename(context.run, request, context.scenarioKey, "xlsx"),
           mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-          data: buffer.toString("base64"),
+          content: buffer,
+          createdAt: timestamp,
+          scenarioKey: context.scenarioKey,
+        });
+        continue;
+      }
+
+      if (request.type === "gl" && format === "csv" && context.journal) {
+        artifacts.push({
+          id: artifactId,
+          type: request.type,
+          format,
+          filename: resolveFilename(context.run, request, context.scenarioKey, "csv"),
+          mimeType: "text/csv",
+          content: buildPayrollJournalCsv(context.journal),
           createdAt: timestamp,
           scenarioKey: context.scenarioKey,
+          description: context.journal.balanced ? null : "Journal does not balance",
         });
         continue;
       }
@@ -260,7 +800,7 @@ export async function buildPayrollExports(
           format,
           filename: resolveFilename(context.run, request, context.scenarioKey, "pdf"),
           mimeType: "application/pdf",
-          data: buffer.toString("base64"),
+          content: buffer,
           createdAt: timestamp,
           scenarioKey: context.scenarioKey,
         });
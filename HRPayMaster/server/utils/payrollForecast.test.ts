@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { buildPayrollForecast, buildPayrollForecastCsv, forecastMonths } from "./payrollForecast";
+
+const departments = [
+  { id: "dep-sales", name: "Sales" },
+  { id: "dep-ops", name: "Operations" },
+];
+
+const employees = [
+  { id: "emp-1", firstName: "Fatima", lastName: "Al-Sabah", salary: "1000", startDate: "2020-01-01", departmentId: "dep-sales", companyId: "co-1" },
+  { id: "emp-2", firstName: "Omar", lastName: "Haddad", salary: "600", startDate: "2021-05-01", terminationDate: "2025-02-14", departmentId: "dep-ops", companyId: "co-1" },
+];
+
+describe("forecastMonths", () => {
+  it("rolls over year ends", () => {
+    expect(forecastMonths("2024-11", 3)).toEqual(["2024-11", "2024-12", "2025-01"]);
+  });
+});
+
+describe("buildPayrollForecast", () => {
+  it("applies scheduled raises and prorates known leavers", () => {
+    const forecast = buildPayrollForecast({
+      startMonth: "2025-01",
+      months: 3,
+      employees,
+      departments,
+      compensationChanges: [
+        { employeeId: "emp-1", salary: "1200", previousSalary: "1000", effectiveDate: "2025-03-01" },
+      ],
+    });
+
+    expect(forecast.months).toEqual(["2025-01", "2025-02", "2025-03"]);
+    expect(forecast.totals.map(row => [row.headcount, row.grossPay])).toEqual([
+      [2, 1600],
+      [2, 1300],
+      [1, 1200],
+    ]);
+    expect(forecast.departments.map(group => [group.name, group.total.grossPay])).toEqual([
+      ["Operations", 900],
+      ["Sales", 3200],
+    ]);
+    expect(forecast.drivers.map(driver => [driver.month, driver.kind])).toEqual([
+      ["2025-02", "leaver"],
+      ["2025-03", "compensation_change"],
+    ]);
+  });
+
+  it("includes pay components, recurring allowances, unpaid leave and loan recoveries", () => {
+    const forecast = buildPayrollForecast({
+      startMonth: "2025-04",
+      months: 3,
+      employees: [employees[0]],
+      departments,
+      payComponents: [
+        { employeeId: "emp-1", calculationType: "percentage_of_basic", percentage: "10", amount: null, leaveProration: "prorate" },
+        { employeeId: "emp-1", calculationType: "amount", amount: "50", percentage: null, leaveProration: "forfeit" },
+      ],
+      allowanceEvents: [
+        {
+          id: "evt-1",
+          employeeId: "emp-1",
+          eventType: "allowance",
+          title: "Phone",
+          amount: "20",
+          eventDate: "2024-10-01",
+          status: "active",
+          recurrenceType: "monthly",
+          recurrenceEndDate: "2025-05-31",
+        },
+      ],
+      leaveRequests: [
+        { employeeId: "emp-1", startDate: "2025-06-01", endDate: "2025-06-03", status: "approved", leaveType: "unpaid" },
+        { employeeId: "emp-1", startDate: "2025-04-10", endDate: "2025-04-12", status: "approved", leaveType: "annual" },
+      ],
+      loans: [
+        {
+          id: "loan-1",
+          employeeId: "emp-1",
+          status: "active",
+          remainingAmount: "150",
+          monthlyDeduction: "100",
+          amortizationSchedule: [
+            { dueDate: "2025-03-31", paymentAmount: "100", status: "paid" },
+            { dueDate: "2025-04-30", paymentAmount: "100", status: "pending" },
+            { dueDate: "2025-05-31", paymentAmount: "50", status: "pending" },
+          ],
+        },
+      ],
+    });
+
+    const [april, may, june] = forecast.totals;
+    expect(april).toMatchObject({ basicSalary: 1000, payComponents: 150, recurringAllowances: 20, grossPay: 1170, loanRecoveries: 100, netPayout: 1070 });
+    expect(may).toMatchObject({ grossPay: 1170, loanRecoveries: 50 });
+    // 3 of 30 days unpaid on basic plus the prorated housing component; the forfeit component is dropped.
+    expect(june).toMatchObject({ payComponents: 100, recurringAllowances: 0, unpaidLeave: 110, grossPay: 990, loanRecoveries: 0 });
+    expect(forecast.drivers.map(driver => driver.kind)).toEqual(["allowance_ends", "loan_ends", "unpaid_leave"]);
+  });
+
+  it("falls back to the monthly deduction for loans without a schedule", () => {
+    const forecast = buildPayrollForecast({
+      startMonth: "2025-01",
+      months: 3,
+      employees: [employees[0]],
+      loans: [{ id: "loan-2", employeeId: "emp-1", status: "active", remainingAmount: "250", monthlyDeduction: "100" }],
+    });
+
+    expect(forecast.totals.map(row => row.loanRecoveries)).toEqual([100, 100, 50]);
+  });
+});
+
+describe("buildPayrollForecastCsv", () => {
+  it("writes department rows and a total for each month", () => {
+    const forecast = buildPayrollForecast({ startMonth: "2025-01", months: 1, employees, departments });
+
+    const csv = buildPayrollForecastCsv(forecast).toString("utf8").split("\r\n");
+    expect(csv[0]).toBe(
+      "Month,Scope,Name,Headcount,Basic Salary,Pay Components,Recurring Allowances,Unpaid Leave,Gross Pay,Loan Recoveries,Net Payout",
+    );
+    expect(csv.slice(1)).toEqual([
+      "2025-01,Department,Operations,1,600.00,0.00,0.00,0.00,600.00,0.00,600.00",
+      "2025-01,Department,Sales,1,1000.00,0.00,0.00,0.00,1000.00,0.00,1000.00",
+      "2025-01,Total,,2,1600.00,0.00,0.00,0.00,1600.00,0.00,1600.00",
+    ]);
+  });
+});
@@ -0,0 +1,434 @@
+import type {
+  PayrollForecast,
+  PayrollForecastAmounts,
+  PayrollForecastDriver,
+  PayrollForecastGroup,
+  PayrollForecastMonth,
+} from "@shared/schema";
+import {
+  buildSalarySegments,
+  type CompensationHistoryEntry,
+} from "./compensation";
+import { isRepayableLoan } from "./loans";
+import { resolvePayComponentMonthlyAmount, type PayComponent } from "./payroll";
+
+type Amount = string | number | null | undefined;
+
+export interface ForecastEmployee {
+  id: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  salary: Amount;
+  startDate?: string | null;
+  terminationDate?: string | null;
+  departmentId?: string | null;
+  companyId?: string | null;
+}
+
+export interface ForecastScope {
+  id: string;
+  name: string;
+}
+
+export interface ForecastLoan {
+  id: string;
+  employeeId: string;
+  status: string;
+  remainingAmount: Amount;
+  monthlyDeduction: Amount;
+  startDate?: string | null;
+  amortizationSchedule?: Array<{ dueDate: string; paymentAmount: Amount; status: string }>;
+}
+
+export interface ForecastAllowanceEvent {
+  id: string;
+  employeeId: string;
+  eventType: string;
+  title?: string | null;
+  amount: Amount;
+  eventDate: string;
+  status: string;
+  affectsPayroll?: boolean | null;
+  recurrenceType?: string | null;
+  recurrenceEndDate?: string | null;
+}
+
+export interface ForecastLeave {
+  employeeId: string;
+  startDate: string;
+  endDate: string;
+  status: string;
+  leaveType?: string | null;
+}
+
+export interface PayrollForecastInput {
+  startMonth: string;
+  months: number;
+  companyId?: string | null;
+  employees: ForecastEmployee[];
+  departments?: ForecastScope[];
+  companies?: ForecastScope[];
+  compensationChanges?: Array<CompensationHistoryEntry & { employeeId: string }>;
+  payComponents?: Array<Pick<PayComponent, "employeeId" | "calculationType" | "amount" | "percentage" | "leaveProration">>;
+  loans?: ForecastLoan[];
+  allowanceEvents?: ForecastAllowanceEvent[];
+  leaveRequests?: ForecastLeave[];
+}
+
+const MS_IN_DAY = 1000 * 60 * 60 * 24;
+
+const toNumber = (value: Amount) => {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toUtcDate = (isoDate: string) => new Date(`${isoDate}T00:00:00.000Z`);
+
+const daysBetween = (startIso: string, endIso: string) =>
+  endIso < startIso
+    ? 0
+    : Math.round((toUtcDate(endIso).getTime() - toUtcDate(startIso).getTime()) / MS_IN_DAY) + 1;
+
+/** Returns `count` consecutive YYYY-MM keys starting at `startMonth`. */
+export const forecastMonths = (startMonth: string, count: number): string[] => {
+  const [year, month] = startMonth.split("-").map(Number);
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(Date.UTC(year, month - 1 + index, 1));
+    return date.toISOString().slice(0, 7);
+  });
+};
+
+const monthBounds = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const end = new Date(Date.UTC(year, monthIndex, 0)).toISOString().split("T")[0];
+  return { start: `${month}-01`, end, days: Number(end.slice(8, 10)) };
+};
+
+const maxIso = (a: string, b?: string | null) => (b && b > a ? b : a);
+const minIso = (a: string, b?: string | null) => (b && b < a ? b : a);
+
+const emptyAmounts = (): PayrollForecastAmounts => ({
+  basicSalary: 0,
+  payComponents: 0,
+  recurringAllowances: 0,
+  unpaidLeave: 0,
+  grossPay: 0,
+  loanRecoveries: 0,
+  netPayout: 0,
+});
+
+const AMOUNT_KEYS = Object.keys(emptyAmounts()) as Array<keyof PayrollForecastAmounts>;
+
+const addAmounts = (target: PayrollForecastAmounts, source: PayrollForecastAmounts) => {
+  for (const key of AMOUNT_KEYS) {
+    target[key] += source[key];
+  }
+};
+
+const roundAmounts = <T extends PayrollForecastAmounts>(amounts: T): T => {
+  const rounded = { ...amounts };
+  for (const key of AMOUNT_KEYS) {
+    rounded[key] = round2(amounts[key]);
+  }
+  return rounded;
+};
+
+const employeeName = (employee: ForecastEmployee) =>
+  [employee.firstName, employee.lastName].filter(Boolean).join(" ") || employee.id;
+
+/**
+ * Instalments still to be recovered from a loan, keyed by month. Pending
+ * amortization rows are used when the loan has a schedule; otherwise the
+ * monthly deduction is taken until the remaining balance runs out.
+ */
+const loanRecoveriesByMonth = (loan: ForecastLoan, months: string[]): Map<string, number> => {
+  const recoveries = new Map<string, number>();
+  const schedule = loan.amortizationSchedule ?? [];
+  if (schedule.length > 0) {
+    for (const installment of schedule) {
+      if (installment.status !== "pending") continue;
+      const month = installment.dueDate.slice(0, 7);
+      if (!months.includes(month)) continue;
+      recoveries.set(month, (recoveries.get(month) ?? 0) + toNumber(installment.paymentAmount));
+    }
+    return recoveries;
+  }
+
+  let remaining = toNumber(loan.remainingAmount);
+  const monthly = toNumber(loan.monthlyDeduction);
+  const firstMonth = loan.startDate?.slice(0, 7) ?? months[0];
+  for (const month of months) {
+    if (remaining <= 0 || monthly <= 0) break;
+    if (month < firstMonth) continue;
+    const amount = Math.min(monthly, remaining);
+    recoveries.set(month, amount);
+    remaining -= amount;
+  }
+  return recoveries;
+};
+
+/**
+ * Rolling payroll cost projection per department and company. Each month
+ * applies scheduled compensation changes, prorates joiners and leavers by
+ * calendar day, adds pay components and recurring allowances, deducts
+ * approved unpaid leave and recovers loan instalments until they end.
+ * Statutory deductions and one-off events are not projected.
+ */
+export function buildPayrollForecast(input: PayrollForecastInput): PayrollForecast {
+  const months = forecastMonths(input.startMonth, input.months);
+  const horizonStart = monthBounds(months[0]).start;
+  const horizonEnd = monthBounds(months.at(-1)!).end;
+
+  const historyByEmployee = new Map<string, CompensationHistoryEntry[]>();
+  for (const change of input.compensationChanges ?? []) {
+    const list = historyByEmployee.get(change.employeeId) ?? [];
+    list.push(change);
+    historyByEmployee.set(change.employeeId, list);
+  }
+
+  const byEmployee = <T extends { employeeId: string }>(items: T[] = []) => {
+    const grouped = new Map<string, T[]>();
+    for (const item of items) {
+      const list = grouped.get(item.employeeId) ?? [];
+      list.push(item);
+      grouped.set(item.employeeId, list);
+    }
+    return grouped;
+  };
+  const componentsByEmployee = byEmployee(input.payComponents);
+  const loansByEmployee = byEmployee(
+    (input.loans ?? []).filter(
+      loan => isRepayableLoan(loan) && toNumber(loan.remainingAmount) > 0,
+    ),
+  );
+  const allowancesByEmployee = byEmployee(
+    (input.allowanceEvents ?? []).filter(
+      event =>
+        event.eventType === "allowance" &&
+        event.recurrenceType === "monthly" &&
+        event.status === "active" &&
+        event.affectsPayroll !== false,
+    ),
+  );
+  const leaveByEmployee = byEmployee(
+    (input.leaveRequests ?? []).filter(leave => leave.status === "approved" && leave.leaveType === "unpaid"),
+  );
+
+  const departmentNames = new Map((input.departments ?? []).map(scope => [scope.id, scope.name] as const));
+  const companyNames = new Map((input.companies ?? []).map(scope => [scope.id, scope.name] as const));
+
+  const newGroup = (id: string | null, name: string) => ({
+    id,
+    name,
+    months: months.map(month => ({ month, headcount: 0, ...emptyAmounts() })),
+  });
+  const departmentGroups = new Map<string, ReturnType<typeof newGroup>>();
+  const companyGroups = new Map<string, ReturnType<typeof newGroup>>();
+  const totals = months.map(month => ({ month, headcount: 0, ...emptyAmounts() }));
+  const drivers: PayrollForecastDriver[] = [];
+
+  const groupFor = (
+    groups: Map<string, ReturnType<typeof newGroup>>,
+    names: Map<string, string>,
+    id: string | null | undefined,
+  ) => {
+    const key = id ?? "";
+    let group = groups.get(key);
+    if (!group) {
+      group = newGroup(id ?? null, (id && names.get(id)) || "Unassigned");
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  for (const employee of input.employees) {
+    const name = employeeName(employee);
+    const history = historyByEmployee.get(employee.id) ?? [];
+    const components = componentsByEmployee.get(employee.id) ?? [];
+    const allowances = allowancesByEmployee.get(employee.id) ?? [];
+    const leaves = leaveByEmployee.get(employee.id) ?? [];
+    const loanRecoveries = (loansByEmployee.get(employee.id) ?? []).map(loan => ({
+      loan,
+      byMonth: loanRecoveriesByMonth(loan, months),
+    }));
+    const department = groupFor(departmentGroups, departmentNames, employee.departmentId);
+    const company = groupFor(companyGroups, companyNames, employee.companyId);
+
+    const addDriver = (month: string, kind: PayrollForecastDriver["kind"], description: string) =>
+      drivers.push({ month, kind, employeeId: employee.id, employeeName: name, description });
+
+    if (employee.startDate && employee.startDate >= horizonStart && employee.startDate <= horizonEnd) {
+      addDriver(employee.startDate.slice(0, 7), "joiner", `Joins on ${employee.startDate}`);
+    }
+    if (
+      employee.terminationDate &&
+      employee.terminationDate >= horizonStart &&
+      employee.terminationDate <= horizonEnd
+    ) {
+      addDriver(employee.terminationDate.slice(0, 7), "leaver", `Leaves on ${employee.terminationDate}`);
+    }
+    for (const change of history) {
+      if (change.effectiveDate < horizonStart || change.effectiveDate > horizonEnd) continue;
+      const from =
+        change.previousSalary === null || change.previousSalary === undefined
+          ? ""
+          : ` from ${round2(toNumber(change.previousSalary))}`;
+      addDriver(
+        change.effectiveDate.slice(0, 7),
+        "compensation_change",
+        `Salary changes${from} to ${round2(toNumber(change.salary))} on ${change.effectiveDate}`,
+      );
+    }
+    for (const event of allowances) {
+      if (event.recurrenceEndDate && event.recurrenceEndDate >= horizonStart && event.recurrenceEndDate < horizonEnd) {
+        addDriver(
+          event.recurrenceEndDate.slice(0, 7),
+          "allowance_ends",
+          `${event.title || "Recurring allowance"} ends on ${event.recurrenceEndDate}`,
+        );
+      }
+    }
+
+    months.forEach((month, index) => {
+      const bounds = monthBounds(month);
+      const from = maxIso(bounds.start, employee.startDate);
+      const to = minIso(bounds.end, employee.terminationDate);
+      const employedDays = daysBetween(from, to);
+      if (employedDays === 0) return;
+
+      const segments = buildSalarySegments(history, employee.salary ?? 0, toUtcDate(from), toUtcDate(to));
+      const basicSalary = segments.reduce(
+        (sum, segment) => sum + (segment.monthlySalary * segment.days) / bounds.days,
+        0,
+      );
+      // Monthly rate for the month, used for percentage components and leave.
+      const monthlyBasic = (basicSalary * bounds.days) / employedDays;
+
+      const unpaidDays = leaves.reduce(
+        (sum, leave) => sum + daysBetween(maxIso(from, leave.startDate), minIso(to, leave.endDate)),
+        0,
+      );
+
+      let payComponents = 0;
+      let proratedComponents = 0;
+      for (const component of components) {
+        const monthly = resolvePayComponentMonthlyAmount(component, monthlyBasic);
+        const employed = (monthly * employedDays) / bounds.days;
+        if (component.leaveProration === "full") {
+          payComponents += employed;
+        } else if (component.leaveProration === "forfeit") {
+          payComponents += unpaidDays > 0 ? 0 : employed;
+        } else {
+          payComponents += employed;
+          proratedComponents += monthly;
+        }
+      }
+
+      const unpaidLeave = ((monthlyBasic + proratedComponents) * unpaidDays) / bounds.days;
+      if (unpaidDays > 0) {
+        addDriver(month, "unpaid_leave", `${unpaidDays} day(s) of unpaid leave`);
+      }
+
+      const recurringAllowances = allowances
+        .filter(
+          event =>
+            event.eventDate <= bounds.end &&
+            (!event.recurrenceEndDate || event.recurrenceEndDate >= bounds.start),
+        )
+        .reduce((sum, event) => sum + toNumber(event.amount), 0);
+
+      let loans = 0;
+      for (const { loan, byMonth } of loanRecoveries) {
+        const amount = byMonth.get(month) ?? 0;
+        loans += amount;
+        const isLast = amount > 0 && months.slice(index + 1).every(next => !byMonth.get(next));
+        if (isLast && month !== months.at(-1)) {
+          addDriver(month, "loan_ends", `Loan ${loan.id} is fully recovered`);
+        }
+      }
+
+      const grossPay = basicSalary + payComponents + recurringAllowances - unpaidLeave;
+      const amounts: PayrollForecastAmounts = {
+        basicSalary,
+        payComponents,
+        recurringAllowances,
+        unpaidLeave,
+        grossPay,
+        loanRecoveries: loans,
+        netPayout: grossPay - loans,
+      };
+
+      for (const row of [department.months[index], company.months[index], totals[index]]) {
+        row.headcount += 1;
+        addAmounts(row, amounts);
+      }
+    });
+  }
+
+  const finalizeGroup = (group: ReturnType<typeof newGroup>): PayrollForecastGroup => {
+    const total = emptyAmounts();
+    group.months.forEach(row => addAmounts(total, row));
+    return {
+      id: group.id,
+      name: group.name,
+      months: group.months.map(row => roundAmounts(row)),
+      total: roundAmounts(total),
+    };
+  };
+  const sortGroups = (groups: PayrollForecastGroup[]) =>
+    groups.sort((a, b) => (a.id === null ? 1 : b.id === null ? -1 : a.name.localeCompare(b.name)));
+
+  const total = emptyAmounts();
+  totals.forEach(row => addAmounts(total, row));
+
+  return {
+    startMonth: months[0],
+    endMonth: months.at(-1)!,
+    companyId: input.companyId ?? null,
+    months,
+    totals: totals.map(row => roundAmounts(row)),
+    total: roundAmounts(total),
+    departments: sortGroups(Array.from(departmentGroups.values()).map(finalizeGroup)),
+    companies: sortGroups(Array.from(companyGroups.values()).map(finalizeGroup)),
+    drivers: drivers.sort((a, b) => a.month.localeCompare(b.month) || a.employeeName.localeCompare(b.employeeName)),
+  };
+}
+
+const FORECAST_HEADER = [
+  "Month",
+  "Scope",
+  "Name",
+  "Headcount",
+  "Basic Salary",
+  "Pay Components",
+  "Recurring Allowances",
+  "Unpaid Leave",
+  "Gross Pay",
+  "Loan Recoveries",
+  "Net Payout",
+];
+
+const amountColumns = (row: PayrollForecastMonth) => [
+  String(row.headcount),
+  ...AMOUNT_KEYS.map(key => row[key].toFixed(2)),
+];
+
+const escapeCsvCell = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Department rows for each month followed by that month's total. */
+export const buildPayrollForecastCsv = (forecast: PayrollForecast): Buffer =>
+  Buffer.from(
+    [
+      FORECAST_HEADER,
+      ...forecast.months.flatMap((month, index) => [
+        ...forecast.departments.map(group => [month, "Department", group.name, ...amountColumns(group.months[index])]),
+        [month, "Total", "", ...amountColumns(forecast.totals[index])],
+      ]),
+    ]
+      .map(row => row.map(escapeCsvCell).join(","))
+      .join("\r\n"),
+    "utf8",
+  );
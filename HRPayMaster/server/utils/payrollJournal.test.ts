@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import {
+  buildPayrollJournal,
+  buildPayrollJournalCsv,
+  buildPayrollJournalWorkbook,
+  resolveGlAccount,
+  type JournalAccountMapping,
+} from "./payrollJournal";
+
+const mappings: JournalAccountMapping[] = [
+  { component: "basic_salary", accountCode: "6000", accountName: "Salaries" },
+  { component: "basic_salary", departmentId: "dep-sales", accountCode: "6100", accountName: "Sales salaries" },
+  { component: "allowances", accountCode: "6010", accountName: "Allowances" },
+  { component: "overtime", accountCode: "6020", accountName: "Overtime" },
+  { component: "net_pay", accountCode: "2100", accountName: "Salaries payable" },
+  { component: "social_security", accountCode: "2200", accountName: "PIFSS payable" },
+  { component: "loan_recovery", accountCode: "1300", accountName: "Employee loans" },
+  { component: "accrued_payroll", accountCode: "2150", accountName: "Accrued payroll" },
+];
+
+const employees = [
+  { id: "emp-1", departmentId: "dep-sales" },
+  { id: "emp-2", departmentId: "dep-ops" },
+];
+
+const departments = [
+  { id: "dep-sales", costCenter: "CC-100" },
+  { id: "dep-ops", costCenter: "CC-200" },
+];
+
+const run = {
+  id: "run-1",
+  period: "Jan 2025",
+  endDate: "2025-01-31",
+  companyId: "co-1",
+  entries: [
+    {
+      employeeId: "emp-1",
+      grossPay: "1150",
+      baseSalary: "1000",
+      bonusAmount: "150",
+      allowances: { housing: 100 },
+      overtimeAmount: "50",
+      netPay: "1000",
+      socialSecurityDeduction: "100",
+      loanDeduction: "50",
+      otherDeductions: "0",
+    },
+    {
+      employeeId: "emp-2",
+      grossPay: "800",
+      baseSalary: "800",
+      bonusAmount: "0",
+      netPay: "800",
+    },
+  ],
+};
+
+describe("resolveGlAccount", () => {
+  it("prefers department, then cost centre, then company mappings", () => {
+    const candidates: JournalAccountMapping[] = [
+      { component: "basic_salary", accountCode: "6000" },
+      { component: "basic_salary", companyId: "co-1", accountCode: "6001" },
+      { component: "basic_salary", costCenter: "CC-100", accountCode: "6050" },
+      { component: "basic_salary", departmentId: "dep-sales", accountCode: "6100" },
+      { component: "basic_salary", companyId: "co-2", departmentId: "dep-ops", accountCode: "6999" },
+    ];
+
+    const resolve = (scope: Parameters<typeof resolveGlAccount>[2]) =>
+      resolveGlAccount(candidates, "basic_salary", scope)?.accountCode;
+
+    expect(resolve({ companyId: "co-1", departmentId: "dep-sales", costCenter: "CC-100" })).toBe("6100");
+    expect(resolve({ companyId: "co-1", departmentId: "dep-x", costCenter: "CC-100" })).toBe("6050");
+    expect(resolve({ companyId: "co-1", departmentId: "dep-ops" })).toBe("6001");
+    expect(resolve({ companyId: "co-3", departmentId: "dep-ops" })).toBe("6000");
+  });
+});
+
+describe("buildPayrollJournal", () => {
+  it("debits expenses per cost centre and credits net pay and deductions", () => {
+    const journal = buildPayrollJournal({ run, employees, departments, mappings });
+
+    expect(journal.accrued).toBe(false);
+    expect(journal.batches).toHaveLength(1);
+    const [payment] = journal.batches;
+    expect(payment).toMatchObject({ type: "payment", date: "2025-01-31", totalDebit: 1950, totalCredit: 1950 });
+    expect(payment.lines.map(line => [line.accountCode, line.costCenter, line.debit, line.credit])).toEqual([
+      ["6100", "CC-100", 1000, 0],
+      ["6000", "CC-200", 800, 0],
+      ["6010", "CC-100", 100, 0],
+      ["6020", "CC-100", 50, 0],
+      ["2100", null, 0, 1800],
+      ["2200", null, 0, 100],
+      ["1300", null, 0, 50],
+    ]);
+    expect(journal.balanced).toBe(true);
+    expect(journal.unmappedComponents).toEqual([]);
+  });
+
+  it("accrues at period end and reverses when salaries are paid the next month", () => {
+    const journal = buildPayrollJournal({
+      run: { ...run, payDate: "2025-02-03" },
+      employees,
+      departments,
+      mappings,
+    });
+
+    expect(journal.accrued).toBe(true);
+    expect(journal.batches.map(batch => [batch.type, batch.date, batch.totalDebit, batch.balanced])).toEqual([
+      ["accrual", "2025-01-31", 1950, true],
+      ["reversal", "2025-02-01", 1950, true],
+      ["payment", "2025-02-03", 1950, true],
+    ]);
+    const [accrual, reversal] = journal.batches;
+    expect(accrual.lines.at(-1)).toMatchObject({ accountCode: "2150", credit: 1950 });
+    expect(reversal.lines.at(-1)).toMatchObject({ accountCode: "2150", debit: 1950, credit: 0 });
+  });
+
+  it("reports an unbalanced journal and components without an account", () => {
+    const journal = buildPayrollJournal({
+      run: {
+        ...run,
+        entries: [{ employeeId: "emp-2", grossPay: "800", baseSalary: "800", netPay: "750", taxDeduction: "25" }],
+      },
+      employees,
+      departments,
+      mappings,
+    });
+
+    expect(journal.balanced).toBe(false);
+    expect(journal.difference).toBe(25);
+    expect(journal.unmappedComponents).toEqual(["tax"]);
+  });
+});
+
+describe("journal exports", () => {
+  it("writes posting lines to CSV and XLSX", () => {
+    const journal = buildPayrollJournal({ run, employees, departments, mappings });
+
+    const csv = buildPayrollJournalCsv(journal).toString("utf8").split("\r\n");
+    expect(csv[0]).toBe("Journal,Date,Account Code,Account Name,Cost Center,Description,Debit,Credit");
+    expect(csv[1]).toBe("payment,2025-01-31,6100,Sales salaries,CC-100,Basic salary - Jan 2025,1000.00,");
+
+    const workbook = XLSX.read(buildPayrollJournalWorkbook(journal), { type: "buffer" });
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.Journal, { header: 1 });
+    expect(rows.at(-1)).toEqual(["Total", "", "", "", "", "", 1950, 1950]);
+  });
+});
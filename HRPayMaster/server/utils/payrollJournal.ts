@@ -0,0 +1,378 @@
+import * as XLSX from "xlsx";
+import {
+  payrollJournalComponents,
+  type PayrollJournal,
+  type PayrollJournalBatch,
+  type PayrollJournalBatchType,
+  type PayrollJournalComponent,
+  type PayrollJournalLine,
+} from "@shared/schema";
+
+type Amount = string | number | null | undefined;
+
+export interface JournalEntry {
+  employeeId: string;
+  grossPay: Amount;
+  netPay: Amount;
+  baseSalary?: Amount;
+  bonusAmount?: Amount;
+  allowances?: Record<string, number> | null;
+  overtimeAmount?: Amount;
+  taxDeduction?: Amount;
+  socialSecurityDeduction?: Amount;
+  healthInsuranceDeduction?: Amount;
+  loanDeduction?: Amount;
+  advanceDeduction?: Amount;
+  otherDeductions?: Amount;
+}
+
+export interface JournalRun {
+  id: string;
+  period: string;
+  endDate: string | Date;
+  payDate?: string | Date | null;
+  companyId?: string | null;
+  entries?: JournalEntry[];
+}
+
+export interface JournalEmployee {
+  id: string;
+  departmentId?: string | null;
+}
+
+export interface JournalDepartment {
+  id: string;
+  costCenter?: string | null;
+}
+
+export interface JournalAccountMapping {
+  companyId?: string | null;
+  component: string;
+  departmentId?: string | null;
+  costCenter?: string | null;
+  accountCode: string;
+  accountName?: string | null;
+}
+
+export const PAYROLL_JOURNAL_COMPONENT_LABELS: Record<PayrollJournalComponent, string> = {
+  basic_salary: "Basic salary",
+  allowances: "Allowances",
+  bonus: "Bonuses",
+  overtime: "Overtime",
+  retro_pay: "Retro pay",
+  net_pay: "Net salaries payable",
+  tax: "Tax payable",
+  social_security: "Social security payable",
+  health_insurance: "Health insurance payable",
+  loan_recovery: "Employee loans",
+  advance_recovery: "Salary advances",
+  other_deductions: "Other deductions",
+  accrued_payroll: "Accrued payroll",
+};
+
+const EXPENSE_COMPONENTS = new Set<PayrollJournalComponent>([
+  "basic_salary",
+  "allowances",
+  "bonus",
+  "overtime",
+  "retro_pay",
+]);
+
+const COMPONENT_ORDER = new Map(payrollJournalComponents.map((component, index) => [component, index]));
+
+const toCents = (value: Amount) => {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) : 0;
+};
+
+const fromCents = (cents: number) => cents / 100;
+
+const toIsoDate = (value: string | Date) =>
+  typeof value === "string" ? value.slice(0, 10) : value.toISOString().split("T")[0];
+
+const firstDayOfNextMonth = (isoDate: string) => {
+  const [year, month] = isoDate.split("-").map(Number);
+  return month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, "0")}-01`;
+};
+
+/**
+ * GL account for a component, preferring a mapping for the employee's
+ * department, then their cost centre, then the general mapping, and company
+ * mappings over shared ones at each level.
+ */
+export function resolveGlAccount(
+  mappings: JournalAccountMapping[],
+  component: PayrollJournalComponent,
+  scope: { companyId?: string | null; departmentId?: string | null; costCenter?: string | null },
+): JournalAccountMapping | undefined {
+  let best: { mapping: JournalAccountMapping; score: number } | undefined;
+  for (const mapping of mappings) {
+    if (mapping.component !== component) continue;
+    if (mapping.companyId && mapping.companyId !== scope.companyId) continue;
+    if (mapping.departmentId && mapping.departmentId !== scope.departmentId) continue;
+    if (mapping.costCenter && mapping.costCenter !== scope.costCenter) continue;
+    const score =
+      (mapping.departmentId ? 4 : 0) + (mapping.costCenter ? 2 : 0) + (mapping.companyId ? 1 : 0);
+    if (!best || score > best.score) {
+      best = { mapping, score };
+    }
+  }
+  return best?.mapping;
+}
+
+/** Signed amounts an entry posts per component, in cents. Expenses always add up to gross pay. */
+const entryComponents = (entry: JournalEntry): Array<[PayrollJournalComponent, number]> => {
+  const gross = toCents(entry.grossPay);
+  const base = toCents(entry.baseSalary);
+  const bonusTotal = toCents(entry.bonusAmount);
+  const allowances = Object.values(entry.allowances ?? {}).reduce(
+    (total, amount) => total + toCents(amount),
+    0,
+  );
+  const overtime = toCents(entry.overtimeAmount);
+
+  return [
+    ["basic_salary", base],
+    ["allowances", allowances],
+    ["overtime", overtime],
+    ["bonus", bonusTotal - allowances - overtime],
+    ["retro_pay", gross - base - bonusTotal],
+    ["net_pay", toCents(entry.netPay)],
+    ["tax", toCents(entry.taxDeduction)],
+    ["social_security", toCents(entry.socialSecurityDeduction)],
+    ["health_insurance", toCents(entry.healthInsuranceDeduction)],
+    ["loan_recovery", toCents(entry.loanDeduction)],
+    ["advance_recovery", toCents(entry.advanceDeduction)],
+    ["other_deductions", toCents(entry.otherDeductions)],
+  ];
+};
+
+interface LineAccumulator {
+  component: PayrollJournalComponent;
+  accountCode: string | null;
+  accountName: string | null;
+  costCenter: string | null;
+  departmentId: string | null;
+  cents: number;
+}
+
+const toLine = (line: LineAccumulator, description: string): PayrollJournalLine => {
+  const debitSide = EXPENSE_COMPONENTS.has(line.component) ? line.cents >= 0 : line.cents < 0;
+  const amount = fromCents(Math.abs(line.cents));
+  return {
+    component: line.component,
+    accountCode: line.accountCode,
+    accountName: line.accountName,
+    costCenter: line.costCenter,
+    departmentId: line.departmentId,
+    description,
+    debit: debitSide ? amount : 0,
+    credit: debitSide ? 0 : amount,
+  };
+};
+
+const buildBatch = (
+  type: PayrollJournalBatchType,
+  date: string,
+  description: string,
+  lines: PayrollJournalLine[],
+): PayrollJournalBatch => {
+  const debitCents = lines.reduce((total, line) => total + toCents(line.debit), 0);
+  const creditCents = lines.reduce((total, line) => total + toCents(line.credit), 0);
+  return {
+    type,
+    date,
+    description,
+    lines,
+    totalDebit: fromCents(debitCents),
+    totalCredit: fromCents(creditCents),
+    balanced: debitCents === creditCents,
+  };
+};
+
+const swapSides = (line: PayrollJournalLine): PayrollJournalLine => ({
+  ...line,
+  debit: line.credit,
+  credit: line.debit,
+});
+
+/**
+ * Double-entry journal for a payroll run. Expenses are debited per
+ * department and cost centre; net pay, statutory deductions, loan recoveries
+ * and other deductions are credited to their accounts. When the pay date
+ * falls after the month the period ends in, the expenses are also accrued at
+ * period end against accrued payroll and the accrual reversed on the first
+ * day of the next month.
+ */
+export function buildPayrollJournal({
+  run,
+  employees,
+  departments,
+  mappings,
+}: {
+  run: JournalRun;
+  employees: JournalEmployee[];
+  departments: JournalDepartment[];
+  mappings: JournalAccountMapping[];
+}): PayrollJournal {
+  const companyId = run.companyId ?? null;
+  const endDate = toIsoDate(run.endDate);
+  const payDate = run.payDate ? toIsoDate(run.payDate) : endDate;
+  const employeeMap = new Map(employees.map(employee => [employee.id, employee] as const));
+  const departmentMap = new Map(departments.map(department => [department.id, department] as const));
+
+  const accumulators = new Map<string, LineAccumulator>();
+  const unmapped = new Set<PayrollJournalComponent>();
+
+  for (const entry of run.entries ?? []) {
+    const departmentId = employeeMap.get(entry.employeeId)?.departmentId ?? null;
+    const costCenter = (departmentId && departmentMap.get(departmentId)?.costCenter) || null;
+
+    for (const [component, cents] of entryComponents(entry)) {
+      if (cents === 0) continue;
+      const account = resolveGlAccount(mappings, component, { companyId, departmentId, costCenter });
+      if (!account) unmapped.add(component);
+      // Liabilities are posted in total; only expenses are split by department.
+      const expense = EXPENSE_COMPONENTS.has(component);
+      const lineDepartmentId = expense ? departmentId : null;
+      const lineCostCenter = expense ? costCenter : null;
+      const key = [component, account?.accountCode ?? "", lineDepartmentId ?? "", lineCostCenter ?? ""].join("|");
+      const existing = accumulators.get(key);
+      if (existing) {
+        existing.cents += cents;
+      } else {
+        accumulators.set(key, {
+          component,
+          accountCode: account?.accountCode ?? null,
+          accountName: account?.accountName ?? null,
+          costCenter: lineCostCenter,
+          departmentId: lineDepartmentId,
+          cents,
+        });
+      }
+    }
+  }
+
+  const accumulated = Array.from(accumulators.values())
+    .filter(line => line.cents !== 0)
+    .sort(
+      (a, b) =>
+        (COMPONENT_ORDER.get(a.component) ?? 0) - (COMPONENT_ORDER.get(b.component) ?? 0) ||
+        (a.costCenter ?? "").localeCompare(b.costCenter ?? "") ||
+        (a.accountCode ?? "").localeCompare(b.accountCode ?? ""),
+    );
+
+  const describe = (component: PayrollJournalComponent, prefix = "") =>
+    `${prefix}${PAYROLL_JOURNAL_COMPONENT_LABELS[component]} - ${run.period}`;
+
+  const paymentLines = accumulated.map(line => toLine(line, describe(line.component)));
+  const batches: PayrollJournalBatch[] = [];
+  const accrued = payDate.slice(0, 7) > endDate.slice(0, 7);
+
+  if (accrued) {
+    const expenseLines = accumulated
+      .filter(line => EXPENSE_COMPONENTS.has(line.component))
+      .map(line => toLine(line, describe(line.component, "Accrued ")));
+    const expenseCents = accumulated
+      .filter(line => EXPENSE_COMPONENTS.has(line.component))
+      .reduce((total, line) => total + line.cents, 0);
+    const accrualAccount = resolveGlAccount(mappings, "accrued_payroll", { companyId });
+    if (!accrualAccount && expenseCents !== 0) unmapped.add("accrued_payroll");
+    const accrualLines = [
+      ...expenseLines,
+      toLine(
+        {
+          component: "accrued_payroll",
+          accountCode: accrualAccount?.accountCode ?? null,
+          accountName: accrualAccount?.accountName ?? null,
+          costCenter: null,
+          departmentId: null,
+          cents: expenseCents,
+        },
+        describe("accrued_payroll"),
+      ),
+    ];
+    batches.push(buildBatch("accrual", endDate, `Payroll accrual ${run.period}`, accrualLines));
+    batches.push(
+      buildBatch(
+        "reversal",
+        firstDayOfNextMonth(endDate),
+        `Reversal of payroll accrual ${run.period}`,
+        accrualLines.map(line => swapSides({ ...line, description: `Reversal: ${line.description}` })),
+      ),
+    );
+  }
+  batches.push(buildBatch("payment", payDate, `Payroll ${run.period}`, paymentLines));
+
+  const debitCents = batches.reduce((total, batch) => total + toCents(batch.totalDebit), 0);
+  const creditCents = batches.reduce((total, batch) => total + toCents(batch.totalCredit), 0);
+
+  return {
+    runId: run.id,
+    period: run.period,
+    companyId,
+    payDate,
+    accrued,
+    batches,
+    totalDebit: fromCents(debitCents),
+    totalCredit: fromCents(creditCents),
+    difference: fromCents(debitCents - creditCents),
+    balanced: batches.every(batch => batch.balanced),
+    unmappedComponents: payrollJournalComponents.filter(component => unmapped.has(component)),
+  };
+}
+
+const JOURNAL_HEADER = [
+  "Journal",
+  "Date",
+  "Account Code",
+  "Account Name",
+  "Cost Center",
+  "Description",
+  "Debit",
+  "Credit",
+];
+
+const journalRows = (journal: PayrollJournal) =>
+  journal.batches.flatMap(batch =>
+    batch.lines.map(line => [
+      batch.type,
+      batch.date,
+      line.accountCode ?? "",
+      line.accountName ?? PAYROLL_JOURNAL_COMPONENT_LABELS[line.component],
+      line.costCenter ?? "",
+      line.description,
+      line.debit ? line.debit.toFixed(2) : "",
+      line.credit ? line.credit.toFixed(2) : "",
+    ]),
+  );
+
+const escapeCsvCell = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const buildPayrollJournalCsv = (journal: PayrollJournal): Buffer =>
+  Buffer.from(
+    [JOURNAL_HEADER, ...journalRows(journal)].map(row => row.map(escapeCsvCell).join(",")).join("\r\n"),
+    "utf8",
+  );
+
+export const appendPayrollJournalSheet = (workbook: XLSX.WorkBook, journal: PayrollJournal) => {
+  const rows = journalRows(journal).map(row => [
+    ...row.slice(0, 6),
+    row[6] ? Number(row[6]) : null,
+    row[7] ? Number(row[7]) : null,
+  ]);
+  const sheet = XLSX.utils.aoa_to_sheet([
+    JOURNAL_HEADER,
+    ...rows,
+    [],
+    ["Total", "", "", "", "", "", journal.totalDebit, journal.totalCredit],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, sheet, "Journal");
+};
+
+export const buildPayrollJournalWorkbook = (journal: PayrollJournal): Buffer => {
+  const workbook = XLSX.utils.book_new();
+  appendPayrollJournalSheet(workbook, journal);
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isPayrollRunFrozen,
+  payrollRunVoidBlocker,
+  PayrollRunTransitionError,
+  resolvePayrollRunTransition,
+} from './payrollLifecycle';
+
+describe('resolvePayrollRunTransition', () => {
+  it('walks a run from draft to locked', () => {
+    expect(resolvePayrollRunTransition({ status: 'draft' }, 'submit', 'maker')).toEqual({
+      from: 'draft',
+      to: 'submitted',
+    });
+    expect(
+      resolvePayrollRunTransition({ status: 'submitted', createdBy: 'maker' }, 'approve', 'checker').to,
+    ).toBe('approved');
+    expect(resolvePayrollRunTransition({ status: 'approved' }, 'mark_paid', 'maker').to).toBe('paid');
+    expect(resolvePayrollRunTransition({ status: 'paid' }, 'lock', 'checker').to).toBe('locked');
+  });
+
+  it('sends rejected runs back to draft', () => {
+    expect(
+      resolvePayrollRunTransition({ status: 'submitted', createdBy: 'maker' }, 'reject', 'maker').to,
+    ).toBe('draft');
+  });
+
+  it('prevents the generator from approving their own run', () => {
+    expect(() =>
+      resolvePayrollRunTransition({ status: 'submitted', createdBy: 'maker' }, 'approve', 'maker'),
+    ).toThrowError(expect.objectContaining({ code: 'selfApproval' }));
+  });
+
+  it('rejects transitions that skip a step', () => {
+    expect(() => resolvePayrollRunTransition({ status: 'draft' }, 'approve', 'checker')).toThrow(
+      PayrollRunTransitionError,
+    );
+    expect(() => resolvePayrollRunTransition({ status: 'locked' }, 'cancel', 'maker')).toThrow(
+      /locked/,
+    );
+  });
+
+  it('treats legacy statuses as their lifecycle equivalents', () => {
+    expect(resolvePayrollRunTransition({ status: 'pending' }, 'submit', 'maker')).toEqual({
+      from: 'pending',
+      to: 'submitted',
+    });
+    expect(isPayrollRunFrozen('completed')).toBe(true);
+    expect(isPayrollRunFrozen('submitted')).toBe(false);
+  });
+});
+
+describe('payrollRunVoidBlocker', () => {
+  it('only voids finalised regular and off-cycle runs', () => {
+    expect(payrollRunVoidBlocker({ status: 'paid', runType: 'regular' })).toBeUndefined();
+    expect(payrollRunVoidBlocker({ status: 'completed', runType: 'bonus' })).toBeUndefined();
+    expect(payrollRunVoidBlocker({ status: 'draft', runType: 'regular' })).toMatch(/cancel it instead/);
+    expect(payrollRunVoidBlocker({ status: 'voided', runType: 'regular' })).toMatch(/already been voided/);
+    expect(payrollRunVoidBlocker({ status: 'locked', runType: 'final_settlement' })).toMatch(/Final settlement/);
+    expect(payrollRunVoidBlocker({ status: 'approved', runType: 'reversal' })).toMatch(/Reversal/);
+    expect(isPayrollRunFrozen('voided')).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import type { PermissionKey, PayrollRunStatus } from "@shared/schema";
+
+export const payrollRunActions = [
+  "submit",
+  "approve",
+  "reject",
+  "mark_paid",
+  "lock",
+  "cancel",
+] as const;
+
+export type PayrollRunAction = (typeof payrollRunActions)[number];
+
+export interface PayrollRunTransitionRule {
+  from: PayrollRunStatus[];
+  to: PayrollRunStatus;
+  permission: PermissionKey;
+}
+
+/**
+ * Maker-checker lifecycle for payroll runs. Runs are prepared as drafts,
+ * submitted for review, approved by someone other than their generator,
+ * paid and finally locked. Rejection sends a submitted run back to draft.
+ */
+export const payrollRunTransitions: Record<PayrollRunAction, PayrollRunTransitionRule> = {
+  submit: { from: ["draft"], to: "submitted", permission: "payroll:manage" },
+  approve: { from: ["submitted"], to: "approved", permission: "payroll:approve" },
+  reject: { from: ["submitted"], to: "draft", permission: "payroll:approve" },
+  mark_paid: { from: ["approved"], to: "paid", permission: "payroll:manage" },
+  lock: { from: ["paid"], to: "locked", permission: "payroll:approve" },
+  cancel: { from: ["draft", "submitted"], to: "cancelled", permission: "payroll:manage" },
+};
+
+export const frozenPayrollRunStatuses = ["approved", "paid", "locked"] as const;
+
+const FROZEN_STATUSES = new Set<string>([...frozenPayrollRunStatuses, "voided"]);
+
+const LEGACY_STATUSES: Record<string, PayrollRunStatus> = {
+  pending: "draft",
+  completed: "approved",
+};
+
+export const normalizePayrollRunStatus = (status: string): string =>
+  LEGACY_STATUSES[status] ?? status;
+
+/** Approved, paid, locked and voided runs can no longer be edited, recalculated or deleted. */
+export const isPayrollRunFrozen = (status: string): boolean =>
+  FROZEN_STATUSES.has(normalizePayrollRunStatus(status));
+
+export class PayrollRunTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "invalidTransition" | "selfApproval",
+  ) {
+    super(message);
+    this.name = "PayrollRunTransitionError";
+  }
+}
+
+/**
+ * Resolves the status a run moves to for the given action, rejecting
+ * transitions that are not allowed from the run's current status and
+ * approvals by the user who generated the run.
+ */
+export function resolvePayrollRunTransition(
+  run: { status: string; createdBy?: string | null },
+  action: PayrollRunAction,
+  actorId: string | undefined,
+): { from: string; to: PayrollRunStatus } {
+  const rule = payrollRunTransitions[action];
+  const current = normalizePayrollRunStatus(run.status);
+
+  if (!rule.from.includes(current as PayrollRunStatus)) {
+    throw new PayrollRunTransitionError(
+      `Cannot ${action.replace("_", " ")} a payroll run that is ${current}`,
+      "invalidTransition",
+    );
+  }
+
+  if (action === "approve" && run.createdBy && run.createdBy === actorId) {
+    throw new PayrollRunTransitionError(
+      "Payroll runs must be approved by someone other than the user who generated them",
+      "selfApproval",
+    );
+  }
+
+  return { from: run.status, to: rule.to };
+}
+
+/**
+ * Why a run cannot be voided, or undefined when it can. Only finalised runs
+ * are voided; drafts and submitted runs are cancelled instead. Final
+ * settlements also terminated the employee and reversals are corrections
+ * themselves, so neither is voided.
+ */
+export function payrollRunVoidBlocker(run: { status: string; runType?: string | null }): string | undefined {
+  const status = normalizePayrollRunStatus(run.status);
+  if (status === "voided") {
+    return "Payroll run has already been voided";
+  }
+  if (!(frozenPayrollRunStatuses as readonly string[]).includes(status)) {
+    return `Cannot void a payroll run that is ${status}; cancel it instead`;
+  }
+  if (run.runType === "final_settlement" || run.runType === "reversal") {
+    return `${run.runType === "reversal" ? "Reversal" : "Final settlement"} runs cannot be voided`;
+  }
+  return undefined;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import type { PayrollEntry } from "@shared/schema";
+import { buildReversalEntry, negateAmount } from "./payrollReversal";
+
+const entry = {
+  id: "entry-1",
+  payrollRunId: "run-1",
+  employeeId: "emp-1",
+  grossPay: "1250.00",
+  baseSalary: "1000.00",
+  bonusAmount: "0",
+  workingDays: 30,
+  actualWorkingDays: 28,
+  vacationDays: 2,
+  taxDeduction: "0",
+  socialSecurityDeduction: "105.00",
+  healthInsuranceDeduction: "0",
+  loanDeduction: "100.00",
+  otherDeductions: "20.50",
+  netPay: "1024.50",
+  allowances: { housing: 200, transport: 50 },
+  adjustmentReason: null,
+  socialInsuranceBreakdown: {
+    scheme: "pifss",
+    nationalityGroup: "kuwaiti",
+    insurableSalary: 1250,
+    employeeTotal: 105,
+    employerTotal: 145,
+    lines: [
+      {
+        code: "basic",
+        label: "Basic",
+        contributionSalary: 1250,
+        employeeRate: 0.084,
+        employerRate: 0.116,
+        employeeAmount: 105,
+        employerAmount: 145,
+      },
+    ],
+  },
+  retroAmount: "0",
+  retroAdjustments: [],
+  overtimeAmount: "50.00",
+  overtimeLines: [],
+  calculationTrace: null,
+  payComponents: null,
+  createdAt: null,
+} as unknown as PayrollEntry;
+
+describe("negateAmount", () => {
+  it("negates numeric strings without producing negative zero", () => {
+    expect(negateAmount("12.345")).toBe("-12.35");
+    expect(negateAmount(-40)).toBe("40.00");
+    expect(negateAmount("0")).toBe("0.00");
+    expect(negateAmount(null)).toBe("0.00");
+  });
+});
+
+describe("buildReversalEntry", () => {
+  it("negates every amount and keeps the day counts", () => {
+    const reversal = buildReversalEntry(entry, "Reversal of Jan 2025: wrong salaries");
+
+    expect(reversal).toMatchObject({
+      employeeId: "emp-1",
+      grossPay: "-1250.00",
+      baseSalary: "-1000.00",
+      bonusAmount: "0.00",
+      socialSecurityDeduction: "-105.00",
+      loanDeduction: "-100.00",
+      otherDeductions: "-20.50",
+      netPay: "-1024.50",
+      overtimeAmount: "-50.00",
+      allowances: { housing: -200, transport: -50 },
+      workingDays: 30,
+      actualWorkingDays: 28,
+      vacationDays: 2,
+      adjustmentReason: "Reversal of Jan 2025: wrong salaries",
+      retroAdjustments: null,
+      overtimeLines: null,
+    });
+  });
+
+  it("negates social insurance contributions so statutory reports net to zero", () => {
+    const reversal = buildReversalEntry(entry, "reason");
+
+    expect(reversal.socialInsuranceBreakdown).toMatchObject({
+      insurableSalary: -1250,
+      employeeTotal: -105,
+      employerTotal: -145,
+      lines: [{ contributionSalary: -1250, employeeRate: 0.084, employeeAmount: -105, employerAmount: -145 }],
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import type { InsertPayrollEntry, PayrollEntry, SocialInsuranceBreakdown } from "@shared/schema";
+
+type Amount = string | number | null | undefined;
+
+const REVERSED_AMOUNTS = [
+  "grossPay",
+  "baseSalary",
+  "bonusAmount",
+  "taxDeduction",
+  "socialSecurityDeduction",
+  "healthInsuranceDeduction",
+  "loanDeduction",
+  "advanceDeduction",
+  "otherDeductions",
+  "netPay",
+  "retroAmount",
+  "overtimeAmount",
+  "employerSocialInsurance",
+  "employerHealthInsurance",
+  "indemnityAccrual",
+  "visaCostAmortization",
+] as const;
+
+const negate = (value: number) => (value === 0 ? 0 : -value);
+
+export const negateAmount = (value: Amount): string => {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value ?? 0));
+  return negate(Number.isFinite(parsed) ? parsed : 0).toFixed(2);
+};
+
+const negateBreakdown = (breakdown: SocialInsuranceBreakdown): SocialInsuranceBreakdown => ({
+  ...breakdown,
+  insurableSalary: negate(breakdown.insurableSalary),
+  employeeTotal: negate(breakdown.employeeTotal),
+  employerTotal: negate(breakdown.employerTotal),
+  lines: breakdown.lines.map(line => ({
+    ...line,
+    contributionSalary: negate(line.contributionSalary),
+    employeeAmount: negate(line.employeeAmount),
+    employerAmount: negate(line.employerAmount),
+  })),
+});
+
+/**
+ * Entry for a reversal run that cancels out the given entry: every amount,
+ * allowance and social insurance contribution is negated, while day counts
+ * are kept so the reversal reads like the original. Retro lines, overtime
+ * lines, pay components and the calculation trace stay on the voided entry
+ * only, so retro corrections it carried become due again.
+ */
+export function buildReversalEntry(
+  entry: PayrollEntry,
+  reason: string,
+): Omit<InsertPayrollEntry, "payrollRunId"> {
+  const amounts = Object.fromEntries(
+    REVERSED_AMOUNTS.map(key => [key, negateAmount(entry[key])]),
+  ) as Record<(typeof REVERSED_AMOUNTS)[number], string>;
+
+  return {
+    employeeId: entry.employeeId,
+    ...amounts,
+    allowances: entry.allowances
+      ? Object.fromEntries(Object.entries(entry.allowances).map(([key, value]) => [key, negate(Number(value))]))
+      : null,
+    workingDays: entry.workingDays,
+    actualWorkingDays: entry.actualWorkingDays,
+    vacationDays: entry.vacationDays,
+    adjustmentReason: reason,
+    socialInsuranceBreakdown: entry.socialInsuranceBreakdown
+      ? negateBreakdown(entry.socialInsuranceBreakdown)
+      : null,
+    retroAdjustments: null,
+    overtimeLines: null,
+    calculationTrace: null,
+    payComponents: null,
+    deductionCarryForward: null,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { buildPayrollTraceCsv, buildPayrollTraceJson } from "./payrollTrace";
+
+const entries = [
+  {
+    id: "entry-1",
+    employeeId: "emp-1",
+    employee: { employeeCode: "E001", firstName: "Sara", lastName: "Ali" },
+    calculationTrace: {
+      inputs: [{ key: "workingDays", label: "Working days", value: 30 }],
+      steps: [
+        {
+          category: "loan" as const,
+          outcome: "capped" as const,
+          label: "Loan loan-1",
+          detail: "Limited to the balance",
+          formula: "min(monthly deduction 100, remaining 60)",
+          amount: 60,
+          sourceId: "loan-1",
+        },
+      ],
+    },
+  },
+  { id: "entry-2", employeeId: "emp-2", calculationTrace: null },
+];
+
+describe("calculation trace exports", () => {
+  it("writes one CSV row per input and step", () => {
+    const csv = buildPayrollTraceCsv(entries).toString("utf8").split("\r\n");
+
+    expect(csv).toEqual([
+      "Employee Code,Employee,Kind,Category,Outcome,Label,Detail,Formula,Amount,Source",
+      "E001,Sara Ali,input,,,Working days,30,,,",
+      'E001,Sara Ali,step,loan,capped,Loan loan-1,Limited to the balance,"min(monthly deduction 100, remaining 60)",60.000,loan-1',
+    ]);
+  });
+
+  it("keeps entries without a trace in the JSON export", () => {
+    const json = JSON.parse(buildPayrollTraceJson(entries).toString("utf8"));
+
+    expect(json).toHaveLength(2);
+    expect(json[0]).toMatchObject({ entryId: "entry-1", employeeCode: "E001", employeeName: "Sara Ali" });
+    expect(json[1]).toMatchObject({ entryId: "entry-2", employeeCode: "emp-2", trace: null });
+  });
+});
@@ -0,0 +1,86 @@
+import type { PayrollCalculationTrace } from "@shared/schema";
+
+export interface TraceEntry {
+  id: string;
+  employeeId: string;
+  calculationTrace?: PayrollCalculationTrace | null;
+  employee?: { employeeCode?: string | null; firstName?: string | null; lastName?: string | null } | null;
+}
+
+const TRACE_HEADER = [
+  "Employee Code",
+  "Employee",
+  "Kind",
+  "Category",
+  "Outcome",
+  "Label",
+  "Detail",
+  "Formula",
+  "Amount",
+  "Source",
+];
+
+const employeeColumns = (entry: TraceEntry) => [
+  entry.employee?.employeeCode ?? entry.employeeId,
+  [entry.employee?.firstName, entry.employee?.lastName].filter(Boolean).join(" "),
+];
+
+const traceRows = (entries: TraceEntry[]) =>
+  entries.flatMap(entry => {
+    const trace = entry.calculationTrace;
+    if (!trace) return [];
+    const employee = employeeColumns(entry);
+    return [
+      ...trace.inputs.map(input => [
+        ...employee,
+        "input",
+        "",
+        "",
+        input.label,
+        input.value === null ? "" : String(input.value),
+        "",
+        "",
+        "",
+      ]),
+      ...trace.steps.map(step => [
+        ...employee,
+        "step",
+        step.category,
+        step.outcome,
+        step.label,
+        step.detail ?? "",
+        step.formula ?? "",
+        typeof step.amount === "number" ? step.amount.toFixed(3) : "",
+        step.sourceId ?? "",
+      ]),
+    ];
+  });
+
+const escapeCsvCell = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** One row per trace input and step, grouped by employee. Entries calculated before traces were recorded are left out. */
+export const buildPayrollTraceCsv = (entries: TraceEntry[]): Buffer =>
+  Buffer.from(
+    [TRACE_HEADER, ...traceRows(entries)].map(row => row.map(escapeCsvCell).join(",")).join("\r\n"),
+    "utf8",
+  );
+
+export const buildPayrollTraceJson = (entries: TraceEntry[]): Buffer =>
+  Buffer.from(
+    JSON.stringify(
+      entries.map(entry => {
+        const [employeeCode, employeeName] = employeeColumns(entry);
+        return {
+          entryId: entry.id,
+          employeeId: entry.employeeId,
+          employeeCode,
+          employeeName,
+          trace: entry.calculationTrace ?? null,
+        };
+      }),
+      null,
+      2,
+    ),
+    "utf8",
+  );
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { buildPayrollVarianceReport, type VarianceEntry } from "./payrollVariance";
+
+const entry = (employeeId: string, netPay: number, overrides: Partial<VarianceEntry> = {}): VarianceEntry => ({
+  employeeId,
+  grossPay: netPay,
+  netPay,
+  baseSalary: netPay,
+  bonusAmount: 0,
+  loanDeduction: 0,
+  otherDeductions: 0,
+  ...overrides,
+});
+
+const employees = [
+  { id: "emp-1", employeeCode: "E001", firstName: "Fatima", lastName: "Ali", iban: "KW09NBOK0000000000001234567890" },
+  { id: "emp-2", employeeCode: "E002", firstName: "Omar", lastName: "Haddad", iban: "KW09NBOK0000000000001234567890" },
+  { id: "emp-3", employeeCode: "E003", firstName: "Sara", lastName: "Nasser", iban: "KW09NBOK0000000000001234567890" },
+  { id: "emp-4", employeeCode: "E004", firstName: "New", lastName: "Starter", iban: null },
+  { id: "emp-5", employeeCode: "E005", firstName: "Cash", lastName: "Paid", paymentMethod: "cash" },
+];
+
+describe("buildPayrollVarianceReport", () => {
+  const previousRun = {
+    id: "run-jan",
+    period: "Jan 2024",
+    entries: [
+      entry("emp-1", 1000),
+      entry("emp-2", 2000),
+      entry("emp-3", 1500),
+      entry("emp-5", 800),
+    ],
+  };
+  const run = {
+    id: "run-feb",
+    period: "Feb 2024",
+    entries: [
+      entry("emp-1", 1050),
+      entry("emp-2", 1700, { loanDeduction: 300, grossPay: 2000, baseSalary: 2000 }),
+      entry("emp-4", 900),
+      entry("emp-5", 800),
+    ],
+  };
+
+  it("flags hires, leavers, large swings, new deductions and missing IBANs", () => {
+    const report = buildPayrollVarianceReport({ run, previousRun, employees });
+    const flagsById = Object.fromEntries(report.lines.map(line => [line.employeeId, line.flags]));
+
+    expect(flagsById).toEqual({
+      "emp-1": [],
+      "emp-2": ["new_deduction", "net_swing"],
+      "emp-3": ["leaver"],
+      "emp-4": ["new_hire", "missing_iban"],
+      "emp-5": [],
+    });
+    expect(report.flaggedEmployees).toBe(3);
+    expect(report.flagCounts).toEqual({
+      new_hire: 1,
+      leaver: 1,
+      net_swing: 1,
+      new_deduction: 1,
+      missing_iban: 1,
+    });
+    expect(report.lines.slice(0, 3).map(line => line.employeeId)).toEqual(["emp-3", "emp-4", "emp-2"]);
+    expect(report.totals).toEqual({
+      previousGross: 5300,
+      currentGross: 4750,
+      previousNet: 5300,
+      currentNet: 4450,
+      netChange: -850,
+    });
+
+    const emp2 = report.lines.find(line => line.employeeId === "emp-2")!;
+    expect(emp2.netChangePercent).toBe(-15);
+    expect(emp2.components).toEqual([
+      { component: "loanDeduction", label: "Loan repayment", previous: 0, current: 300, change: 300 },
+    ]);
+    expect(report.lines.find(line => line.employeeId === "emp-4")?.ibanIssue).toBe("IBAN is missing");
+  });
+
+  it("honours the configured threshold", () => {
+    const report = buildPayrollVarianceReport({ run, previousRun, employees, thresholdPercent: 4 });
+
+    expect(report.lines.find(line => line.employeeId === "emp-1")?.flags).toEqual(["net_swing"]);
+  });
+
+  it("only checks IBANs when there is no previous run", () => {
+    const report = buildPayrollVarianceReport({ run, previousRun: undefined, employees });
+
+    expect(report.previousRunId).toBeNull();
+    expect(report.flaggedEmployees).toBe(1);
+    expect(report.lines[0]).toMatchObject({ employeeId: "emp-4", flags: ["missing_iban"] });
+  });
+});
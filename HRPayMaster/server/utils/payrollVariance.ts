@@ -0,0 +1,200 @@
+import {
+  payrollVarianceFlags,
+  type PayrollVarianceComponentChange,
+  type PayrollVarianceFlag,
+  type PayrollVarianceLine,
+  type PayrollVarianceReport,
+} from "@shared/schema";
+import { validateIban } from "./bankFiles";
+
+export const DEFAULT_VARIANCE_THRESHOLD_PERCENT = 10;
+
+type Amount = string | number | null | undefined;
+
+export interface VarianceEntry {
+  employeeId: string;
+  grossPay: Amount;
+  netPay: Amount;
+  baseSalary?: Amount;
+  bonusAmount?: Amount;
+  retroAmount?: Amount;
+  taxDeduction?: Amount;
+  socialSecurityDeduction?: Amount;
+  healthInsuranceDeduction?: Amount;
+  loanDeduction?: Amount;
+  advanceDeduction?: Amount;
+  otherDeductions?: Amount;
+  employee?: {
+    employeeCode?: string | null;
+    firstName?: string | null;
+    lastName?: string | null;
+  } | null;
+}
+
+export interface VarianceRun {
+  id: string;
+  period: string;
+  entries?: VarianceEntry[];
+  varianceSignedOffBy?: string | null;
+  varianceSignedOffAt?: Date | string | null;
+}
+
+export interface VarianceEmployee {
+  id: string;
+  employeeCode?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  iban?: string | null;
+  bankIban?: string | null;
+  paymentMethod?: string | null;
+}
+
+type ComponentKey = Exclude<keyof VarianceEntry, "employeeId" | "employee" | "grossPay" | "netPay">;
+
+const COMPONENTS: Array<{ key: ComponentKey; label: string; deduction: boolean }> = [
+  { key: "baseSalary", label: "Base salary", deduction: false },
+  { key: "bonusAmount", label: "Bonuses & allowances", deduction: false },
+  { key: "retroAmount", label: "Retro adjustments", deduction: false },
+  { key: "taxDeduction", label: "Tax", deduction: true },
+  { key: "socialSecurityDeduction", label: "Social security", deduction: true },
+  { key: "healthInsuranceDeduction", label: "Health insurance", deduction: true },
+  { key: "loanDeduction", label: "Loan repayment", deduction: true },
+  { key: "advanceDeduction", label: "Salary advance", deduction: true },
+  { key: "otherDeductions", label: "Other deductions", deduction: true },
+];
+
+const toNumber = (value: Amount): number => {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sumBy = (entries: VarianceEntry[], key: "grossPay" | "netPay") =>
+  round2(entries.reduce((sum, entry) => sum + toNumber(entry[key]), 0));
+
+/**
+ * Compares a run with the previous run of the same calendar, employee by
+ * employee. Lines are flagged for new hires, leavers, net pay moving by more
+ * than the threshold, deductions that were not taken last time and bank-paid
+ * employees without a valid IBAN. Flagged lines come first, largest net
+ * change first. Without a previous run only IBAN problems are flagged.
+ */
+export function buildPayrollVarianceReport({
+  run,
+  previousRun,
+  employees,
+  thresholdPercent = DEFAULT_VARIANCE_THRESHOLD_PERCENT,
+}: {
+  run: VarianceRun;
+  previousRun?: VarianceRun | null;
+  employees: VarianceEmployee[];
+  thresholdPercent?: number;
+}): PayrollVarianceReport {
+  const employeesById = new Map(employees.map(employee => [employee.id, employee] as const));
+  const currentEntries = run.entries ?? [];
+  const currentById = new Map(currentEntries.map(entry => [entry.employeeId, entry] as const));
+  const previousById = new Map(
+    (previousRun?.entries ?? []).map(entry => [entry.employeeId, entry] as const),
+  );
+  const employeeIds = Array.from(new Set([...currentById.keys(), ...previousById.keys()]));
+
+  const lines: PayrollVarianceLine[] = employeeIds.map(employeeId => {
+    const current = currentById.get(employeeId);
+    const previous = previousById.get(employeeId);
+    const employee = employeesById.get(employeeId);
+    const joined = (current ?? previous)?.employee;
+    const firstName = employee?.firstName ?? joined?.firstName ?? "";
+    const lastName = employee?.lastName ?? joined?.lastName ?? "";
+
+    const flags: PayrollVarianceFlag[] = [];
+    const previousNetPay = previous ? toNumber(previous.netPay) : null;
+    const currentNetPay = current ? toNumber(current.netPay) : null;
+    const netChange = round2((currentNetPay ?? 0) - (previousNetPay ?? 0));
+    const netChangePercent =
+      previousNetPay && previousNetPay > 0 && currentNetPay !== null
+        ? round2((netChange / previousNetPay) * 100)
+        : null;
+
+    const components: PayrollVarianceComponentChange[] = [];
+    for (const { key, label, deduction } of COMPONENTS) {
+      const before = previous ? toNumber(previous[key]) : 0;
+      const after = current ? toNumber(current[key]) : 0;
+      const change = round2(after - before);
+      if (Math.abs(change) >= 0.01) {
+        components.push({ component: key, label, previous: before, current: after, change });
+      }
+      if (deduction && previous && current && before <= 0 && after > 0) {
+        if (!flags.includes("new_deduction")) flags.push("new_deduction");
+      }
+    }
+
+    if (previousRun) {
+      if (current && !previous) flags.unshift("new_hire");
+      if (previous && !current) flags.unshift("leaver");
+      if (current && previous) {
+        const swing =
+          netChangePercent !== null
+            ? Math.abs(netChangePercent) > thresholdPercent
+            : Math.abs(netChange) >= 0.01;
+        if (swing) flags.push("net_swing");
+      }
+    }
+
+    let ibanIssue: string | undefined;
+    const paidByBank = !employee?.paymentMethod || employee.paymentMethod === "bank";
+    if (current && employee && paidByBank && (currentNetPay ?? 0) > 0) {
+      const { valid, reason } = validateIban(employee.iban || employee.bankIban);
+      if (!valid) {
+        flags.push("missing_iban");
+        ibanIssue = reason;
+      }
+    }
+
+    return {
+      employeeId,
+      employeeCode: employee?.employeeCode ?? joined?.employeeCode ?? null,
+      employeeName: `${firstName} ${lastName}`.trim() || employeeId,
+      previousNetPay,
+      currentNetPay,
+      netChange,
+      netChangePercent,
+      components,
+      flags,
+      ...(ibanIssue ? { ibanIssue } : {}),
+    };
+  });
+
+  lines.sort(
+    (a, b) =>
+      Number(b.flags.length > 0) - Number(a.flags.length > 0) ||
+      Math.abs(b.netChange) - Math.abs(a.netChange) ||
+      a.employeeName.localeCompare(b.employeeName),
+  );
+
+  const flagCounts = Object.fromEntries(
+    payrollVarianceFlags.map(flag => [flag, lines.filter(line => line.flags.includes(flag)).length]),
+  ) as Record<PayrollVarianceFlag, number>;
+  const previousNet = sumBy(previousRun?.entries ?? [], "netPay");
+  const currentNet = sumBy(currentEntries, "netPay");
+
+  return {
+    runId: run.id,
+    period: run.period,
+    previousRunId: previousRun?.id ?? null,
+    previousPeriod: previousRun?.period ?? null,
+    thresholdPercent,
+    totals: {
+      previousGross: sumBy(previousRun?.entries ?? [], "grossPay"),
+      currentGross: sumBy(currentEntries, "grossPay"),
+      previousNet,
+      currentNet,
+      netChange: round2(currentNet - previousNet),
+    },
+    flagCounts,
+    flaggedEmployees: lines.filter(line => line.flags.length > 0).length,
+    signedOffBy: run.varianceSignedOffBy ?? null,
+    signedOffAt: run.varianceSignedOffAt ?? null,
+    lines,
+  };
+}
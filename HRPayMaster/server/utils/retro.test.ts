@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { calculateRetroAdjustments, type RetroSourceRun } from "./retro";
+
+const employee = { id: "emp-1", salary: "3300", status: "active" };
+
+const closedRun = (overrides: Partial<RetroSourceRun> = {}): RetroSourceRun => ({
+  id: "run-jan",
+  period: "Jan 2024",
+  startDate: "2024-01-01",
+  endDate: "2024-01-30",
+  closedAt: "2024-02-02T09:00:00.000Z",
+  includesStatutory: false,
+  entries: [
+    {
+      id: "entry-jan",
+      employeeId: "emp-1",
+      baseSalary: "3000",
+      bonusAmount: "0",
+      otherDeductions: "0",
+      socialSecurityDeduction: "0",
+      workingDays: 30,
+      actualWorkingDays: 30,
+    },
+  ],
+  ...overrides,
+});
+
+const backDatedRaise = {
+  employeeId: "emp-1",
+  salary: "3300",
+  previousSalary: "3000",
+  effectiveDate: "2024-01-16",
+  createdAt: "2024-02-10T08:00:00.000Z",
+};
+
+describe("calculateRetroAdjustments", () => {
+  it("prices a raise recorded after the run closed into a salary delta", () => {
+    const result = calculateRetroAdjustments({
+      runs: [closedRun()],
+      employees: [employee],
+      compensationChanges: [backDatedRaise],
+      employeeEvents: [],
+      applied: [],
+    });
+
+    expect(result.get("emp-1")).toEqual([
+      {
+        sourcePayrollRunId: "run-jan",
+        sourcePayrollEntryId: "entry-jan",
+        period: "Jan 2024",
+        component: "baseSalary",
+        originalAmount: 3000,
+        correctedAmount: 3150,
+        amount: 150,
+        reason: "Back-dated salary change",
+      },
+    ]);
+  });
+
+  it("carries back-dated events and ignores those known when the run closed", () => {
+    const event = {
+      employeeId: "emp-1",
+      eventDate: "2024-01-20",
+      affectsPayroll: true,
+      status: "active",
+      recurrenceType: "none",
+    };
+
+    const result = calculateRetroAdjustments({
+      runs: [closedRun()],
+      employees: [employee],
+      compensationChanges: [{ ...backDatedRaise, createdAt: "2024-01-10T08:00:00.000Z" }],
+      employeeEvents: [
+        { ...event, id: "evt-old", eventType: "bonus", amount: "500", createdAt: "2024-01-21T08:00:00.000Z" },
+        { ...event, id: "evt-late", eventType: "bonus", amount: "200", createdAt: "2024-02-05T08:00:00.000Z" },
+        { ...event, id: "evt-fine", eventType: "penalty", amount: "25", createdAt: "2024-02-06T08:00:00.000Z" },
+      ],
+      applied: [],
+    });
+
+    expect(result.get("emp-1")?.map(line => [line.component, line.amount])).toEqual([
+      ["bonusAmount", 200],
+      ["otherDeductions", 25],
+    ]);
+  });
+
+  it("only returns what earlier runs have not already carried", () => {
+    const input = {
+      runs: [closedRun()],
+      employees: [employee],
+      compensationChanges: [backDatedRaise],
+      employeeEvents: [],
+    };
+    const [line] = calculateRetroAdjustments({ ...input, applied: [] }).get("emp-1")!;
+
+    expect(calculateRetroAdjustments({ ...input, applied: [line] }).size).toBe(0);
+  });
+});
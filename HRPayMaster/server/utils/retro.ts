@@ -0,0 +1,165 @@
+import type { PayrollRetroAdjustment, PayrollRetroComponent } from "@shared/schema";
+import {
+  calculateEmployeePayroll,
+  type Employee,
+  type EmployeeEvent,
+  type SocialInsuranceConfig,
+} from "./payroll";
+import type { CompensationHistoryEntry } from "./compensation";
+
+/** How far back closed runs are checked for back-dated changes. */
+export const RETRO_LOOKBACK_MONTHS = 12;
+
+export interface RetroSourceEntry {
+  id: string;
+  employeeId: string;
+  baseSalary: string | number;
+  bonusAmount: string | number;
+  otherDeductions: string | number;
+  socialSecurityDeduction: string | number;
+  workingDays: number;
+  actualWorkingDays: number;
+}
+
+export interface RetroSourceRun {
+  id: string;
+  period: string;
+  startDate: string;
+  endDate: string;
+  /** When the run stopped accepting changes; later inputs are back-dated. */
+  closedAt: Date | string | null;
+  includesStatutory: boolean;
+  entries: RetroSourceEntry[];
+}
+
+export interface RetroCalculationInput {
+  runs: RetroSourceRun[];
+  employees: Employee[];
+  compensationChanges: Array<CompensationHistoryEntry & { employeeId: string }>;
+  employeeEvents: Array<EmployeeEvent & { createdAt?: Date | string | null }>;
+  /** Retro lines already carried by earlier runs. */
+  applied: PayrollRetroAdjustment[];
+  socialInsurance?: SocialInsuranceConfig;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toTime = (value: Date | string | null | undefined) => {
+  if (!value) return Number.NaN;
+  return new Date(value).getTime();
+};
+
+const appliedKey = (entryId: string, component: PayrollRetroComponent) => `${entryId}:${component}`;
+
+/**
+ * Recomputes entries of closed runs for employees whose salary history or
+ * payroll events were recorded after the run closed, and returns the
+ * per-component differences not yet carried by an earlier run, keyed by
+ * employee. Worked days are taken from the original entry so only the
+ * back-dated inputs move the amounts; the closed entries are not modified.
+ */
+export function calculateRetroAdjustments({
+  runs,
+  employees,
+  compensationChanges,
+  employeeEvents,
+  applied,
+  socialInsurance,
+}: RetroCalculationInput): Map<string, PayrollRetroAdjustment[]> {
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+  const appliedTotals = new Map<string, number>();
+  for (const line of applied) {
+    const key = appliedKey(line.sourcePayrollEntryId, line.component);
+    appliedTotals.set(key, (appliedTotals.get(key) ?? 0) + line.amount);
+  }
+
+  const result = new Map<string, PayrollRetroAdjustment[]>();
+
+  for (const run of runs) {
+    const closedTime = toTime(run.closedAt);
+    if (Number.isNaN(closedTime)) continue;
+    const recordedLate = (value: Date | string | null | undefined) => toTime(value) > closedTime;
+    const start = new Date(run.startDate);
+    const end = new Date(run.endDate);
+
+    for (const entry of run.entries) {
+      const employee = employeesById.get(entry.employeeId);
+      if (!employee) continue;
+
+      const employeeChanges = compensationChanges.filter(
+        change => change.employeeId === entry.employeeId,
+      );
+      const salaryChanged = employeeChanges.some(
+        change => change.effectiveDate <= run.endDate && recordedLate(change.createdAt),
+      );
+      const lateEvents = employeeEvents.filter(
+        event =>
+          event.employeeId === entry.employeeId &&
+          event.status === "active" &&
+          recordedLate(event.createdAt),
+      );
+      if (!salaryChanged && lateEvents.length === 0) continue;
+
+      const corrected = calculateEmployeePayroll({
+        employee,
+        loans: [],
+        vacationRequests: [],
+        employeeEvents: lateEvents,
+        compensationChanges: employeeChanges,
+        start,
+        end,
+        workingDays: entry.workingDays,
+        attendanceDays: entry.actualWorkingDays,
+        socialInsurance: run.includesStatutory ? socialInsurance : undefined,
+      });
+
+      const original: Record<PayrollRetroComponent, number> = {
+        baseSalary: toNumber(entry.baseSalary),
+        bonusAmount: toNumber(entry.bonusAmount),
+        otherDeductions: toNumber(entry.otherDeductions),
+        socialSecurityDeduction: toNumber(entry.socialSecurityDeduction),
+      };
+      const correctedAmounts: Record<PayrollRetroComponent, number> = {
+        baseSalary: salaryChanged ? corrected.baseSalary : original.baseSalary,
+        bonusAmount: original.bonusAmount + corrected.bonusAmount,
+        otherDeductions: original.otherDeductions + corrected.otherDeductions,
+        socialSecurityDeduction:
+          salaryChanged && run.includesStatutory
+            ? corrected.socialSecurityDeduction
+            : original.socialSecurityDeduction,
+      };
+
+      for (const component of Object.keys(original) as PayrollRetroComponent[]) {
+        const alreadyApplied = appliedTotals.get(appliedKey(entry.id, component)) ?? 0;
+        const amount = round2(correctedAmounts[component] - original[component] - alreadyApplied);
+        if (Math.abs(amount) < 0.01) continue;
+        const line: PayrollRetroAdjustment = {
+          sourcePayrollRunId: run.id,
+          sourcePayrollEntryId: entry.id,
+          period: run.period,
+          component,
+          originalAmount: round2(original[component]),
+          correctedAmount: round2(correctedAmounts[component]),
+          amount,
+          reason:
+            component === "baseSalary" || component === "socialSecurityDeduction"
+              ? "Back-dated salary change"
+              : "Back-dated payroll events",
+        };
+        const lines = result.get(entry.employeeId);
+        if (lines) {
+          lines.push(line);
+        } else {
+          result.set(entry.employeeId, [line]);
+        }
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSalaryAdvanceLimit } from './salaryAdvances';
+
+describe('calculateSalaryAdvanceLimit', () => {
+  it('caps the advance at a share of the salary earned so far this month', () => {
+    const limit = calculateSalaryAdvanceLimit({ salary: '900', asOf: '2025-06-10', maxPercent: '50' });
+
+    expect(limit).toEqual({
+      periodStart: '2025-06-01',
+      periodEnd: '2025-06-30',
+      daysElapsed: 10,
+      daysInPeriod: 30,
+      earnedToDate: 300,
+      maxPercent: 50,
+      maxAmount: 150,
+      outstanding: 0,
+      available: 150,
+    });
+  });
+
+  it('leaves out advances that have not been recovered yet', () => {
+    const limit = calculateSalaryAdvanceLimit({
+      salary: 620,
+      asOf: '2025-01-31',
+      maxPercent: 40,
+      outstanding: '200',
+    });
+
+    expect(limit.earnedToDate).toBe(620);
+    expect(limit.maxAmount).toBe(248);
+    expect(limit.available).toBe(48);
+
+    const exhausted = calculateSalaryAdvanceLimit({ salary: 620, asOf: '2025-01-05', outstanding: 200 });
+    expect(exhausted.maxPercent).toBe(50);
+    expect(exhausted.available).toBe(0);
+  });
+
+  it('uses the salary in force on each day, as payroll does', () => {
+    // Raised from 600 to 900 on 11 June; the employee record already shows 900.
+    const compensationChanges = [{ salary: '900', previousSalary: '600', effectiveDate: '2025-06-11' }];
+
+    const beforeRaise = calculateSalaryAdvanceLimit({ salary: '900', compensationChanges, asOf: '2025-06-10' });
+    expect(beforeRaise.earnedToDate).toBe(200);
+
+    const afterRaise = calculateSalaryAdvanceLimit({ salary: '900', compensationChanges, asOf: '2025-06-20' });
+    expect(afterRaise.earnedToDate).toBe(500);
+    expect(afterRaise.maxAmount).toBe(250);
+  });
+});
@@ -0,0 +1,84 @@
+import { buildSalarySegments, type CompensationHistoryEntry } from "./compensation";
+
+type Amount = string | number | null | undefined;
+
+/** Share of earned salary an advance may reach when the company sets none. */
+export const DEFAULT_SALARY_ADVANCE_MAX_PERCENT = 50;
+
+export interface SalaryAdvanceLimitInput {
+  /** Monthly salary on the employee record, used where the history is silent. */
+  salary: Amount;
+  /** The employee's compensation changes, so the salary in force each day is used as in payroll. */
+  compensationChanges?: CompensationHistoryEntry[];
+  /** ISO date the advance is paid on; salary is earned up to and including it. */
+  asOf: string;
+  maxPercent?: Amount;
+  /** Advances not yet recovered, whichever month they were paid in. */
+  outstanding?: Amount;
+}
+
+export interface SalaryAdvanceLimit {
+  periodStart: string;
+  periodEnd: string;
+  daysElapsed: number;
+  daysInPeriod: number;
+  earnedToDate: number;
+  maxPercent: number;
+  maxAmount: number;
+  outstanding: number;
+  available: number;
+}
+
+const toNumber = (value: Amount) => {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = Number.parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * How much can still be advanced on `asOf`: the capped share of the salary
+ * earned from the start of the month up to that day, less every advance not
+ * yet recovered.
+ */
+export function calculateSalaryAdvanceLimit({
+  salary,
+  compensationChanges,
+  asOf,
+  maxPercent,
+  outstanding,
+}: SalaryAdvanceLimitInput): SalaryAdvanceLimit {
+  const [year, month, day] = asOf.split("-").map(Number);
+  const periodStart = new Date(Date.UTC(year, month - 1, 1));
+  const periodEnd = new Date(Date.UTC(year, month, 0));
+  const daysInPeriod = periodEnd.getUTCDate();
+  const daysElapsed = Math.min(Math.max(day, 0), daysInPeriod);
+  const percent = toNumber(maxPercent) > 0 ? Math.min(toNumber(maxPercent), 100) : DEFAULT_SALARY_ADVANCE_MAX_PERCENT;
+
+  // Each day earns a share of the salary in force on it, as payroll prorates.
+  const segments = buildSalarySegments(
+    compensationChanges ?? [],
+    toNumber(salary),
+    periodStart,
+    new Date(Date.UTC(year, month - 1, daysElapsed)),
+  );
+  const earnedToDate = round2(
+    segments.reduce((total, segment) => total + segment.monthlySalary * segment.days, 0) / daysInPeriod,
+  );
+  const maxAmount = round2((earnedToDate * percent) / 100);
+  const alreadyAdvanced = round2(Math.max(0, toNumber(outstanding)));
+  return {
+    periodStart: toIsoDate(periodStart),
+    periodEnd: toIsoDate(periodEnd),
+    daysElapsed,
+    daysInPeriod,
+    earnedToDate,
+    maxPercent: percent,
+    maxAmount,
+    outstanding: alreadyAdvanced,
+    available: round2(Math.max(0, maxAmount - alreadyAdvanced)),
+  };
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSocialInsuranceReport,
+  calculateSocialInsurance,
+  resolveNationalityGroup,
+  selectEffectiveRates,
+  type SocialInsuranceRateRule,
+} from './socialInsurance';
+
+const pifssRates: SocialInsuranceRateRule[] = [
+  {
+    code: 'basic',
+    label: 'Basic insurance',
+    nationalityGroup: 'kuwaiti',
+    employeeRate: '5',
+    employerRate: '11',
+    salaryCeiling: '1500',
+    effectiveFrom: '2020-01-01',
+  },
+  {
+    code: 'supplementary',
+    label: 'Supplementary insurance',
+    nationalityGroup: 'kuwaiti',
+    employeeRate: '5',
+    employerRate: '6',
+    salaryFloor: '1500',
+    salaryCeiling: '2750',
+    effectiveFrom: '2020-01-01',
+  },
+  {
+    code: 'unemployment',
+    label: 'Unemployment insurance',
+    nationalityGroup: 'kuwaiti',
+    employeeRate: '0.5',
+    employerRate: '0',
+    salaryCeiling: '2750',
+    effectiveFrom: '2020-01-01',
+  },
+];
+
+describe('resolveNationalityGroup', () => {
+  it('recognises Kuwaiti nationals in English and Arabic', () => {
+    expect(resolveNationalityGroup('Kuwaiti')).toBe('kuwaiti');
+    expect(resolveNationalityGroup(' KW ')).toBe('kuwaiti');
+    expect(resolveNationalityGroup('كويتي')).toBe('kuwaiti');
+    expect(resolveNationalityGroup('Indian')).toBe('non_kuwaiti');
+    expect(resolveNationalityGroup(null)).toBe('non_kuwaiti');
+  });
+});
+
+describe('selectEffectiveRates', () => {
+  it('keeps the latest row per code that is in force on the date', () => {
+    const rates: SocialInsuranceRateRule[] = [
+      ...pifssRates,
+      { ...pifssRates[0], employeeRate: '6', effectiveFrom: '2024-01-01' },
+      { ...pifssRates[2], effectiveTo: '2023-12-31' },
+    ];
+
+    const selected = selectEffectiveRates(rates, {
+      nationalityGroup: 'kuwaiti',
+      date: '2024-03-31',
+    });
+
+    expect(selected.map(rate => rate.code).sort()).toEqual(['basic', 'supplementary', 'unemployment']);
+    expect(selected.find(rate => rate.code === 'basic')?.employeeRate).toBe('6');
+  });
+
+  it('prefers company-specific rates over the global table', () => {
+    const rates: SocialInsuranceRateRule[] = [
+      ...pifssRates,
+      { ...pifssRates[0], companyId: 'co-2', employerRate: '12' },
+    ];
+
+    const forCompany = selectEffectiveRates(rates, {
+      nationalityGroup: 'kuwaiti',
+      date: '2024-03-31',
+      companyId: 'co-2',
+    });
+    expect(forCompany).toHaveLength(1);
+    expect(forCompany[0].employerRate).toBe('12');
+
+    const forOther = selectEffectiveRates(rates, {
+      nationalityGroup: 'kuwaiti',
+      date: '2024-03-31',
+      companyId: 'co-1',
+    });
+    expect(forOther).toHaveLength(3);
+  });
+});
+
+describe('calculateSocialInsurance', () => {
+  it('splits contributions across the salary bands', () => {
+    const result = calculateSocialInsurance({
+      insurableSalary: 2000,
+      nationality: 'Kuwaiti',
+      rates: pifssRates,
+      date: '2024-03-31',
+    });
+
+    expect(result.nationalityGroup).toBe('kuwaiti');
+    expect(result.lines.map(line => [line.code, line.contributionSalary])).toEqual([
+      ['basic', 1500],
+      ['unemployment', 2000],
+      ['supplementary', 500],
+    ]);
+    expect(result.employeeTotal).toBe(75 + 10 + 25);
+    expect(result.employerTotal).toBe(165 + 30);
+  });
+
+  it('caps contributions at the highest ceiling', () => {
+    const result = calculateSocialInsurance({
+      insurableSalary: 4000,
+      nationality: 'Kuwaiti',
+      rates: pifssRates,
+      date: '2024-03-31',
+    });
+
+    expect(result.insurableSalary).toBe(4000);
+    expect(result.employeeTotal).toBe(75 + 62.5 + 13.75);
+  });
+
+  it('returns no contributions for non-Kuwaiti employees without rates', () => {
+    const result = calculateSocialInsurance({
+      insurableSalary: 900,
+      nationality: 'Filipino',
+      rates: pifssRates,
+      date: '2024-03-31',
+    });
+
+    expect(result.nationalityGroup).toBe('non_kuwaiti');
+    expect(result.lines).toEqual([]);
+    expect(result.employeeTotal).toBe(0);
+    expect(result.employerTotal).toBe(0);
+  });
+});
+
+describe('buildSocialInsuranceReport', () => {
+  it('aggregates employee and employer contributions per employee', () => {
+    const breakdown = calculateSocialInsurance({
+      insurableSalary: 1000,
+      nationality: 'Kuwaiti',
+      rates: pifssRates,
+      date: '2024-03-31',
+    });
+
+    const report = buildSocialInsuranceReport('2024-03', [
+      {
+        employeeId: 'e1',
+        employeeCode: 'E001',
+        firstName: 'Fatima',
+        lastName: 'Al-Sabah',
+        civilId: '290010112345',
+        socialSecurityDeduction: breakdown.employeeTotal,
+        socialInsuranceBreakdown: breakdown,
+      },
+      {
+        employeeId: 'e2',
+        employeeCode: 'E002',
+        firstName: 'Legacy',
+        lastName: 'Entry',
+        socialSecurityDeduction: '20',
+        socialInsuranceBreakdown: null,
+      },
+      {
+        employeeId: 'e3',
+        employeeCode: 'E003',
+        socialSecurityDeduction: '0',
+        socialInsuranceBreakdown: null,
+      },
+    ]);
+
+    expect(report.employees.map(employee => employee.employeeCode)).toEqual(['E001', 'E002']);
+    expect(report.employees[0]).toMatchObject({
+      employeeName: 'Fatima Al-Sabah',
+      insurableSalary: 1000,
+      employeeContribution: 55,
+      employerContribution: 110,
+    });
+    expect(report.lines.find(line => line.code === 'basic')).toMatchObject({
+      employeeAmount: 50,
+      employerAmount: 110,
+    });
+    expect(report.totals).toEqual({
+      insurableSalary: 1000,
+      employeeContribution: 75,
+      employerContribution: 110,
+      totalContribution: 185,
+    });
+  });
+});
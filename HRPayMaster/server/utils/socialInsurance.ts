@@ -0,0 +1,259 @@
+import type {
+  SocialInsuranceBreakdown,
+  SocialInsuranceLine,
+  SocialInsuranceNationalityGroup,
+} from "@shared/schema";
+
+export const DEFAULT_SOCIAL_INSURANCE_SCHEME = "pifss";
+
+export interface SocialInsuranceRateRule {
+  companyId?: string | null;
+  scheme?: string | null;
+  code: string;
+  label: string;
+  nationalityGroup: string;
+  employeeRate: string | number;
+  employerRate: string | number;
+  salaryFloor?: string | number | null;
+  salaryCeiling?: string | number | null;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+}
+
+export interface SocialInsuranceInput {
+  insurableSalary: number;
+  nationality?: string | null;
+  rates: SocialInsuranceRateRule[];
+  date: string | Date;
+  companyId?: string | null;
+  scheme?: string;
+}
+
+const KUWAITI_NATIONALITIES = new Set(["kuwaiti", "kuwait", "kw", "kwt", "كويتي", "كويتية"]);
+
+const toNumber = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === "") return undefined;
+  const parsed = Number.parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+const toIsoDate = (value: string | Date) => {
+  if (value instanceof Date) {
+    return value.toISOString().split("T")[0];
+  }
+  return value.slice(0, 10);
+};
+
+/**
+ * PIFSS contributions differ for Kuwaiti nationals; everyone else falls into
+ * the non-Kuwaiti group, which has no rates unless an admin configures some.
+ */
+export const resolveNationalityGroup = (
+  nationality?: string | null,
+): SocialInsuranceNationalityGroup => {
+  const normalized = nationality?.trim().toLowerCase();
+  return normalized && KUWAITI_NATIONALITIES.has(normalized) ? "kuwaiti" : "non_kuwaiti";
+};
+
+/**
+ * Picks the rate rows in force on the given date. Company-specific rows
+ * replace the global table entirely, and for each contribution code only the
+ * most recently effective row is kept.
+ */
+export function selectEffectiveRates(
+  rates: SocialInsuranceRateRule[],
+  {
+    nationalityGroup,
+    date,
+    companyId,
+    scheme = DEFAULT_SOCIAL_INSURANCE_SCHEME,
+  }: {
+    nationalityGroup: SocialInsuranceNationalityGroup;
+    date: string | Date;
+    companyId?: string | null;
+    scheme?: string;
+  },
+): SocialInsuranceRateRule[] {
+  const onDate = toIsoDate(date);
+  const inForce = rates.filter(
+    rate =>
+      (rate.scheme ?? DEFAULT_SOCIAL_INSURANCE_SCHEME) === scheme &&
+      rate.nationalityGroup === nationalityGroup &&
+      toIsoDate(rate.effectiveFrom) <= onDate &&
+      (!rate.effectiveTo || toIsoDate(rate.effectiveTo) >= onDate),
+  );
+
+  const companyRates = companyId ? inForce.filter(rate => rate.companyId === companyId) : [];
+  const pool = companyRates.length > 0 ? companyRates : inForce.filter(rate => !rate.companyId);
+
+  const latestByCode = new Map<string, SocialInsuranceRateRule>();
+  for (const rate of pool) {
+    const current = latestByCode.get(rate.code);
+    if (!current || toIsoDate(rate.effectiveFrom) > toIsoDate(current.effectiveFrom)) {
+      latestByCode.set(rate.code, rate);
+    }
+  }
+  return Array.from(latestByCode.values());
+}
+
+/**
+ * Calculates employee and employer social insurance contributions. Each rate
+ * row applies its percentages to the slice of the insurable salary between
+ * its floor and ceiling, so banded schemes such as the PIFSS basic and
+ * supplementary insurance are expressed as separate rows.
+ */
+export function calculateSocialInsurance(input: SocialInsuranceInput): SocialInsuranceBreakdown {
+  const scheme = input.scheme ?? DEFAULT_SOCIAL_INSURANCE_SCHEME;
+  const nationalityGroup = resolveNationalityGroup(input.nationality);
+  const insurableSalary = Math.max(0, input.insurableSalary);
+
+  const lines: SocialInsuranceLine[] = selectEffectiveRates(input.rates, {
+    nationalityGroup,
+    date: input.date,
+    companyId: input.companyId,
+    scheme,
+  })
+    .sort(
+      (a, b) =>
+        (toNumber(a.salaryFloor) ?? 0) - (toNumber(b.salaryFloor) ?? 0) || a.code.localeCompare(b.code),
+    )
+    .map(rate => {
+      const floor = toNumber(rate.salaryFloor) ?? 0;
+      const ceiling = toNumber(rate.salaryCeiling);
+      const capped = ceiling === undefined ? insurableSalary : Math.min(insurableSalary, ceiling);
+      const contributionSalary = round2(Math.max(0, capped - floor));
+      const employeeRate = toNumber(rate.employeeRate) ?? 0;
+      const employerRate = toNumber(rate.employerRate) ?? 0;
+      return {
+        code: rate.code,
+        label: rate.label,
+        contributionSalary,
+        employeeRate,
+        employerRate,
+        employeeAmount: round2((contributionSalary * employeeRate) / 100),
+        employerAmount: round2((contributionSalary * employerRate) / 100),
+      };
+    });
+
+  return {
+    scheme,
+    nationalityGroup,
+    insurableSalary: round2(insurableSalary),
+    employeeTotal: round2(lines.reduce((sum, line) => sum + line.employeeAmount, 0)),
+    employerTotal: round2(lines.reduce((sum, line) => sum + line.employerAmount, 0)),
+    lines,
+  };
+}
+
+export interface SocialInsuranceReportSource {
+  employeeId: string;
+  employeeCode?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  civilId?: string | null;
+  socialSecurityDeduction?: string | number | null;
+  socialInsuranceBreakdown?: SocialInsuranceBreakdown | null;
+}
+
+export interface SocialInsuranceReportEmployee {
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  civilId: string;
+  nationalityGroup: SocialInsuranceNationalityGroup | null;
+  insurableSalary: number;
+  employeeContribution: number;
+  employerContribution: number;
+}
+
+export interface SocialInsuranceReportLine {
+  code: string;
+  label: string;
+  employeeAmount: number;
+  employerAmount: number;
+}
+
+export interface SocialInsuranceReport {
+  month: string;
+  employees: SocialInsuranceReportEmployee[];
+  lines: SocialInsuranceReportLine[];
+  totals: {
+    insurableSalary: number;
+    employeeContribution: number;
+    employerContribution: number;
+    totalContribution: number;
+  };
+}
+
+/**
+ * Aggregates the contributions stored on payroll entries into the monthly
+ * PIFSS remittance. Entries generated before the engine existed only carry
+ * the employee deduction, which is reported without a code breakdown.
+ */
+export function buildSocialInsuranceReport(
+  month: string,
+  sources: SocialInsuranceReportSource[],
+): SocialInsuranceReport {
+  const employees = new Map<string, SocialInsuranceReportEmployee>();
+  const lines = new Map<string, SocialInsuranceReportLine>();
+
+  for (const source of sources) {
+    const breakdown = source.socialInsuranceBreakdown ?? null;
+    const employeeContribution = breakdown
+      ? breakdown.employeeTotal
+      : toNumber(source.socialSecurityDeduction) ?? 0;
+    if (!breakdown && employeeContribution <= 0) continue;
+
+    const existing = employees.get(source.employeeId) ?? {
+      employeeId: source.employeeId,
+      employeeCode: source.employeeCode ?? "",
+      employeeName: `${source.firstName ?? ""} ${source.lastName ?? ""}`.trim(),
+      civilId: source.civilId ?? "",
+      nationalityGroup: breakdown?.nationalityGroup ?? null,
+      insurableSalary: 0,
+      employeeContribution: 0,
+      employerContribution: 0,
+    };
+    existing.insurableSalary = round2(existing.insurableSalary + (breakdown?.insurableSalary ?? 0));
+    existing.employeeContribution = round2(existing.employeeContribution + employeeContribution);
+    existing.employerContribution = round2(
+      existing.employerContribution + (breakdown?.employerTotal ?? 0),
+    );
+    existing.nationalityGroup = existing.nationalityGroup ?? breakdown?.nationalityGroup ?? null;
+    employees.set(source.employeeId, existing);
+
+    for (const line of breakdown?.lines ?? []) {
+      const current = lines.get(line.code) ?? {
+        code: line.code,
+        label: line.label,
+        employeeAmount: 0,
+        employerAmount: 0,
+      };
+      current.employeeAmount = round2(current.employeeAmount + line.employeeAmount);
+      current.employerAmount = round2(current.employerAmount + line.employerAmount);
+      lines.set(line.code, current);
+    }
+  }
+
+  const employeeList = Array.from(employees.values()).sort((a, b) =>
+    a.employeeCode.localeCompare(b.employeeCode),
+  );
+  const sum = (pick: (employee: SocialInsuranceReportEmployee) => number) =>
+    round2(employeeList.reduce((total, employee) => total + pick(employee), 0));
+  const employeeContribution = sum(employee => employee.employeeContribution);
+  const employerContribution = sum(employee => employee.employerContribution);
+
+  return {
+    month,
+    employees: employeeList,
+    lines: Array.from(lines.values()),
+    totals: {
+      insurableSalary: sum(employee => employee.insurableSalary),
+      employeeContribution,
+      employerContribution,
+      totalContribution: round2(employeeContribution + employerContribution),
+    },
+  };
+}
@@ -134,12 +134,27 @@ export const payrollCalendarConfigSchema = z.object({
 
 export type PayrollCalendarConfig = z.infer<typeof payrollCalendarConfigSchema>;
 
+// Multipliers of the hourly rate paid for approved schedule overtime. Days
+// without a scheduled shift count as rest days and the company holiday
+// calendar decides public holidays.
+export const overtimeRateConfigSchema = z.object({
+  normalDayRate: z.number().min(0).default(1.25),
+  restDayRate: z.number().min(0).default(1.5),
+  publicHolidayRate: z.number().min(0).default(2),
+  hoursPerDay: z.number().positive().default(8),
+});
+
+export type OvertimeRateConfig = z.infer<typeof overtimeRateConfigSchema>;
+
 export const payrollExportFormatConfigSchema = z.object({
   id: z.string().min(1),
   type: z.enum(["bank", "gl", "statutory"]),
-  format: z.enum(["pdf", "csv", "xlsx"]),
+  format: z.enum(["pdf", "csv", "xlsx", "txt"]),
   name: z.string().min(1),
   templateId: z.string().optional().nullable(),
+  // Bank file layout id (nbk, kfh, gulf_bank, boubyan); options carry the
+  // debitAccount, employerCode and optional valueDate it needs.
+  bankFormat: z.string().optional().nullable(),
   enabled: z.boolean().optional().default(true),
   description: z.string().optional().nullable(),
   options: z.record(z.unknown()).optional(),
@@ -150,17 +165,341 @@ export type PayrollExportFormatConfig = z.infer<typeof payrollExportFormatConfig
 export const payrollExportArtifactSchema = z.object({
   id: z.string().min(1),
   type: z.enum(["bank", "gl", "statutory"]),
-  format: z.enum(["pdf", "csv", "xlsx"]),
+  format: z.enum(["pdf", "csv", "xlsx", "txt"]),
   filename: z.string().min(1),
   mimeType: z.string().min(1),
-  data: z.string().min(1),
   createdAt: z.string().min(1),
   scenarioKey: z.string().optional(),
   description: z.string().optional().nullable(),
+  // Latest stored version of the file in payroll_export_files; earlier
+  // versions stay there when the export is regenerated.
+  fileId: z.string().min(1).optional(),
+  version: z.number().int().positive().optional(),
+  sizeBytes: z.number().int().nonnegative().optional(),
+  checksum: z.string().optional(),
+  // Base64 content of artifacts built before exports moved to file storage.
+  data: z.string().min(1).optional(),
 });
 
 export type PayrollExportArtifact = z.infer<typeof payrollExportArtifactSchema>;
 
+export const payrollRunStatuses = [
+  "draft",
+  "submitted",
+  "approved",
+  "paid",
+  "locked",
+  "cancelled",
+  "voided",
+] as const;
+
+export type PayrollRunStatus = (typeof payrollRunStatuses)[number];
+
+export const payrollRunTypes = [
+  "regular",
+  "bonus",
+  "correction",
+  "final_settlement",
+  "reversal",
+] as const;
+
+export type PayrollRunType = (typeof payrollRunTypes)[number];
+
+/** Run types that may overlap a regular run and only pay selected employees. */
+export const offCyclePayrollRunTypes = ["bonus", "correction"] as const;
+
+export type OffCyclePayrollRunType = (typeof offCyclePayrollRunTypes)[number];
+
+export const payrollRunComponents = [
+  "salary",
+  "allowances",
+  "bonuses",
+  "overtime",
+  "deductions",
+  "loans",
+  "statutory",
+] as const;
+
+export type PayrollRunComponent = (typeof payrollRunComponents)[number];
+
+export const payrollGenerationJobStatuses = [
+  "queued",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type PayrollGenerationJobStatus = (typeof payrollGenerationJobStatuses)[number];
+
+export const payrollGenerationJobPhases = ["loading", "calculating", "saving", "exporting"] as const;
+
+export type PayrollGenerationJobPhase = (typeof payrollGenerationJobPhases)[number];
+
+/** A payroll run being generated in the background. */
+export type PayrollGenerationJob = {
+  id: string;
+  status: PayrollGenerationJobStatus;
+  phase: PayrollGenerationJobPhase | null;
+  /** Employees calculated or entries saved so far in the current phase. */
+  processed: number;
+  total: number;
+  payrollRunId: string | null;
+  error: { status: number; message: string; details?: unknown } | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+};
+
+export const payrollVarianceFlags = [
+  "new_hire",
+  "leaver",
+  "net_swing",
+  "new_deduction",
+  "missing_iban",
+] as const;
+
+export type PayrollVarianceFlag = (typeof payrollVarianceFlags)[number];
+
+// Journal lines a payroll run posts to the general ledger. The first five
+// are expenses debited per department; the rest are the liabilities and
+// receivables they are credited to.
+export const payrollJournalComponents = [
+  "basic_salary",
+  "allowances",
+  "bonus",
+  "overtime",
+  "retro_pay",
+  "net_pay",
+  "tax",
+  "social_security",
+  "health_insurance",
+  "loan_recovery",
+  "advance_recovery",
+  "other_deductions",
+  "accrued_payroll",
+] as const;
+
+export type PayrollJournalComponent = (typeof payrollJournalComponents)[number];
+
+export const socialInsuranceNationalityGroups = ["kuwaiti", "non_kuwaiti"] as const;
+
+export type SocialInsuranceNationalityGroup = (typeof socialInsuranceNationalityGroups)[number];
+
+export const loanInterestMethods = ["interest_free", "reducing_balance", "flat"] as const;
+
+export type LoanInterestMethod = (typeof loanInterestMethods)[number];
+
+/** Ways an employee can repay a loan outside payroll. */
+export const loanRepaymentMethods = ["cash", "bank_transfer"] as const;
+
+export type LoanRepaymentMethod = (typeof loanRepaymentMethods)[number];
+
+// "outstanding" advances are recovered by the next regular payroll run.
+export const salaryAdvanceStatuses = ["outstanding", "recovered", "cancelled"] as const;
+
+export type SalaryAdvanceStatus = (typeof salaryAdvanceStatuses)[number];
+
+export const loanRestructureTypes = [
+  "defer_installments",
+  "change_monthly_deduction",
+  "extend_end_date",
+] as const;
+
+export type LoanRestructureType = (typeof loanRestructureTypes)[number];
+
+export const loanRestructureStatuses = ["pending", "applied", "rejected"] as const;
+
+export type LoanRestructureStatus = (typeof loanRestructureStatuses)[number];
+
+export const loanPolicyRules = [
+  "max_deduction_percent",
+  "max_salary_multiple",
+  "min_service_months",
+  "max_active_loans",
+  "max_term_months",
+  "allowed_interest_methods",
+  "required_document_types",
+] as const;
+
+export type LoanPolicyRule = (typeof loanPolicyRules)[number];
+
+/** A loan policy rule a loan breaks (violation) or comes close to breaking (warning). */
+export type LoanPolicyRuleFailure = {
+  rule: LoanPolicyRule;
+  severity: "violation" | "warning";
+  message: string;
+  limit: number | string[] | null;
+  actual: number | string[] | null;
+};
+
+export const socialInsuranceLineSchema = z.object({
+  code: z.string().min(1),
+  label: z.string(),
+  contributionSalary: z.number(),
+  employeeRate: z.number(),
+  employerRate: z.number(),
+  employeeAmount: z.number(),
+  employerAmount: z.number(),
+});
+
+export const socialInsuranceBreakdownSchema = z.object({
+  scheme: z.string().min(1),
+  nationalityGroup: z.enum(socialInsuranceNationalityGroups),
+  insurableSalary: z.number(),
+  employeeTotal: z.number(),
+  employerTotal: z.number(),
+  lines: z.array(socialInsuranceLineSchema),
+});
+
+export type SocialInsuranceLine = z.infer<typeof socialInsuranceLineSchema>;
+export type SocialInsuranceBreakdown = z.infer<typeof socialInsuranceBreakdownSchema>;
+
+// Entry amounts that can be corrected retroactively; the first two are
+// earnings, the rest deductions.
+export const payrollRetroComponents = [
+  "baseSalary",
+  "bonusAmount",
+  "otherDeductions",
+  "socialSecurityDeduction",
+] as const;
+
+export type PayrollRetroComponent = (typeof payrollRetroComponents)[number];
+
+export const payrollRetroAdjustmentSchema = z.object({
+  sourcePayrollRunId: z.string(),
+  sourcePayrollEntryId: z.string(),
+  period: z.string(),
+  component: z.enum(payrollRetroComponents),
+  originalAmount: z.number(),
+  correctedAmount: z.number(),
+  amount: z.number(),
+  reason: z.string(),
+});
+
+export type PayrollRetroAdjustment = z.infer<typeof payrollRetroAdjustmentSchema>;
+
+export const overtimeDayTypes = ["normal", "rest_day", "public_holiday"] as const;
+
+export type OvertimeDayType = (typeof overtimeDayTypes)[number];
+
+export const payrollOvertimeLineSchema = z.object({
+  scheduleId: z.string(),
+  date: z.string(),
+  dayType: z.enum(overtimeDayTypes),
+  approvedMinutes: z.number(),
+  paidMinutes: z.number(),
+  limitMinutes: z.number(),
+  hourlyRate: z.number(),
+  rate: z.number(),
+  amount: z.number(),
+});
+
+export type PayrollOvertimeLine = z.infer<typeof payrollOvertimeLineSchema>;
+
+// Order in which deductions are recovered from gross pay. Statutory
+// contributions are always taken in full; the rest fill whatever the
+// company's maximum deduction percentage leaves, and anything that does not
+// fit is carried forward to the next regular run. Salary advances are not
+// carried forward: what is left stays outstanding on the advance itself.
+export const payrollDeductionPriorities = [
+  "statutory",
+  "court_order",
+  "advance",
+  "loan",
+  "penalty",
+] as const;
+
+export type PayrollDeductionPriority = (typeof payrollDeductionPriorities)[number];
+
+export const payrollDeductionCarryForwardSchema = z.object({
+  category: z.enum(payrollDeductionPriorities).exclude(["statutory", "advance"]),
+  // Loan id for loans, employee event id for court orders and penalties.
+  sourceId: z.string().nullable(),
+  label: z.string(),
+  amount: z.number(),
+});
+
+export type PayrollDeductionCarryForward = z.infer<typeof payrollDeductionCarryForwardSchema>;
+
+export const payComponentCalculationTypes = ["amount", "percentage_of_basic"] as const;
+
+export type PayComponentCalculationType = (typeof payComponentCalculationTypes)[number];
+
+// How leave in the period affects a component: "prorate" follows the basic
+// salary's paid days, "full" is paid regardless of leave and "forfeit" is not
+// paid at all in a period with leave.
+export const payComponentLeaveProrations = ["prorate", "full", "forfeit"] as const;
+
+export type PayComponentLeaveProration = (typeof payComponentLeaveProrations)[number];
+
+// The basic salary is the employee's `salary`; it appears on entries as the
+// "basic" line and cannot be added as a separate component.
+export const BASIC_PAY_COMPONENT_CODE = "basic";
+
+export const payrollPayComponentLineSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  calculationType: z.enum(payComponentCalculationTypes),
+  monthlyAmount: z.number(),
+  amount: z.number(),
+  insurable: z.boolean(),
+  indemnityEligible: z.boolean(),
+  leaveProration: z.enum(payComponentLeaveProrations),
+});
+
+export type PayrollPayComponentLine = z.infer<typeof payrollPayComponentLineSchema>;
+
+export const payrollTraceCategories = [
+  "salary",
+  "attendance",
+  "vacation",
+  "allowance",
+  "bonus",
+  "overtime",
+  "retro",
+  "deduction",
+  "advance",
+  "loan",
+  "statutory",
+  "net",
+] as const;
+
+export type PayrollTraceCategory = (typeof payrollTraceCategories)[number];
+
+// "capped" marks amounts reduced by a limit (loan caps, overtime limits,
+// net pay floored at zero).
+export const payrollTraceOutcomes = ["included", "skipped", "capped", "info"] as const;
+
+export type PayrollTraceOutcome = (typeof payrollTraceOutcomes)[number];
+
+export const payrollTraceInputSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  value: z.union([z.string(), z.number(), z.boolean(), z.null()]),
+});
+
+export const payrollTraceStepSchema = z.object({
+  category: z.enum(payrollTraceCategories),
+  outcome: z.enum(payrollTraceOutcomes),
+  label: z.string(),
+  detail: z.string().nullable().optional(),
+  formula: z.string().nullable().optional(),
+  amount: z.number().nullable().optional(),
+  sourceId: z.string().nullable().optional(),
+});
+
+/** How an entry was calculated: the inputs used and each step in order. */
+export const payrollCalculationTraceSchema = z.object({
+  inputs: z.array(payrollTraceInputSchema),
+  steps: z.array(payrollTraceStepSchema),
+});
+
+export type PayrollTraceInput = z.infer<typeof payrollTraceInputSchema>;
+export type PayrollTraceStep = z.infer<typeof payrollTraceStepSchema>;
+export type PayrollCalculationTrace = z.infer<typeof payrollCalculationTraceSchema>;
+
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
 
@@ -309,6 +648,7 @@ export const departments = pgTable("departments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
   description: text("description"),
+  costCenter: text("cost_center"),
 });
 
 export const companies = pgTable("companies", {
@@ -336,11 +676,79 @@ export const companies = pgTable("companies", {
     .$type<PayrollExportFormatConfig[]>()
     .notNull()
     .default(sql`'[]'::jsonb`),
+  overtimeRates: jsonb("overtime_rates")
+    .$type<OvertimeRateConfig | null>()
+    .default(sql`NULL`),
+  // Most of an employee's gross pay that deductions may take in one run;
+  // null leaves deductions limited only by gross pay.
+  maxDeductionPercent: numeric("max_deduction_percent", { precision: 5, scale: 2 }),
+  // Most of the salary earned so far in the month that may be paid out as
+  // salary advances.
+  salaryAdvanceMaxPercent: numeric("salary_advance_max_percent", { precision: 5, scale: 2 })
+    .notNull()
+    .default("50"),
+  // Monthly health insurance premium the company pays for each employee,
+  // recorded as an employer cost on payroll entries.
+  healthInsurancePremium: numeric("health_insurance_premium", { precision: 10, scale: 2 }),
   companyLicenseNumber: text("company_license_number"),
   companyLicenseExpiryDate: date("company_license_expiry_date"),
   companyLicenseAlertDays: integer("company_license_alert_days").default(60),
 });
 
+export const companyHolidayKinds = ["one_off", "annual", "hijri"] as const;
+
+export type CompanyHolidayKind = (typeof companyHolidayKinds)[number];
+
+// Public holidays. One-off holidays fall on `date` and annual ones on its
+// month and day every year. Hijri holidays follow `hijriMonth`/`hijriDay` of
+// the Umm al-Qura calendar until the sighted start date is confirmed for that
+// Hijri year. Holidays without a company apply to every company.
+export const companyHolidays = pgTable(
+  "company_holidays",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    companyId: varchar("company_id").references(() => companies.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    arabicName: text("arabic_name"),
+    kind: text("kind").notNull().default("one_off"), // one_off, annual, hijri
+    date: date("date"),
+    hijriMonth: integer("hijri_month"),
+    hijriDay: integer("hijri_day"),
+    durationDays: integer("duration_days").notNull().default(1),
+    // Confirmed Gregorian start dates keyed by Hijri year.
+    confirmedDates: jsonb("confirmed_dates")
+      .$type<Record<string, string>>()
+      .notNull()
+      .default(sql`'{}'::jsonb`),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (t) => ({
+    companyHolidaysCompanyIdx: index("company_holidays_company_idx").on(t.companyId),
+  }),
+);
+
+// GL account a payroll journal component posts to. Mappings for a department
+// or cost centre take precedence over the general mapping of the component,
+// and company mappings over those without a company.
+export const glAccountMappings = pgTable(
+  "gl_account_mappings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    companyId: varchar("company_id").references(() => companies.id, { onDelete: "cascade" }),
+    component: text("component").notNull(),
+    departmentId: varchar("department_id").references(() => departments.id, { onDelete: "cascade" }),
+    costCenter: text("cost_center"),
+    accountCode: text("account_code").notNull(),
+    accountName: text("account_name"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (t) => ({
+    glAccountMappingsCompanyIdx: index("gl_account_mappings_company_idx").on(t.companyId),
+  }),
+);
+
 export const employees = pgTable("employees", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   employeeCode: varchar("employee_code").notNull().unique(),
@@ -359,6 +767,8 @@ export const employees = pgTable("employees", {
   workLocation: varchar("work_location", { length: 100 }).default("Office").notNull(),
   startDate: date("start_date").notNull(),
   status: text("status").notNull().default("active"), // active, inactive, on_leave, vacation
+  terminationDate: date("termination_date"),
+  terminationReason: text("termination_reason"), // termination, resignation, contract_end, retirement, death, misconduct
   bankIban: text("bank_iban"),
   bankName: text("bank_name"),
   iban: text("iban"),
@@ -390,6 +800,7 @@ export const employees = pgTable("employees", {
   visaIssueDate: date("visa_issue_date"),
   visaExpiryDate: date("visa_expiry_date"),
   visaAlertDays: integer("visa_alert_days").default(30), // Days before expiry to alert
+  visaCost: numeric("visa_cost", { precision: 10, scale: 2 }), // Company-paid visa and residency cost, amortised over the visa's validity
   
   // Civil ID Information
   civilId: text("civil_id"),
@@ -592,6 +1003,7 @@ export const loans = pgTable("loans", {
   remainingAmount: numeric("remaining_amount", { precision: 12, scale: 2 }).notNull(),
   monthlyDeduction: numeric("monthly_deduction", { precision: 10, scale: 2 }).notNull(),
   interestRate: numeric("interest_rate", { precision: 5, scale: 2 }).default("0"),
+  interestMethod: text("interest_method").notNull().default("reducing_balance"), // interest_free, reducing_balance, flat
   startDate: date("start_date").notNull(),
   endDate: date("end_date"),
   status: text("status").notNull().default("pending"), // pending, active, completed, cancelled
@@ -602,8 +1014,10 @@ export const loans = pgTable("loans", {
     .$type<
       | {
           lastCheckedAt?: string;
+          policyId?: string | null;
           violations?: string[];
           warnings?: string[];
+          failedRules?: LoanPolicyRuleFailure[];
           approverNotes?: string[];
         }
       | null
@@ -626,6 +1040,10 @@ export const loanApprovalStages = pgTable(
   {
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
     loanId: varchar("loan_id").references(() => loans.id).notNull(),
+    // Set when the stage approves a restructure rather than the loan itself.
+    restructureId: varchar("restructure_id").references(() => loanRestructures.id, {
+      onDelete: "cascade",
+    }),
     stageName: text("stage_name").notNull(),
     stageOrder: integer("stage_order").notNull().default(0),
     approverId: varchar("approver_id").references(() => employees.id),
@@ -640,6 +1058,7 @@ export const loanApprovalStages = pgTable(
   },
   t => ({
     loanIdx: index("loan_approval_stages_loan_idx").on(t.loanId),
+    restructureIdx: index("loan_approval_stages_restructure_idx").on(t.restructureId),
     stageOrderIdx: index("loan_approval_stages_order_idx").on(t.loanId, t.stageOrder),
   }),
 );
@@ -689,6 +1108,84 @@ export const loanAmortizationSchedules = pgTable(
   }),
 );
 
+// A change to an active loan's repayment terms. The new schedule is only
+// generated once every approval stage attached to the restructure approves it.
+export const loanRestructures = pgTable(
+  "loan_restructures",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    loanId: varchar("loan_id").references(() => loans.id, { onDelete: "cascade" }).notNull(),
+    type: text("type").$type<LoanRestructureType>().notNull(),
+    status: text("status").$type<LoanRestructureStatus>().notNull().default("pending"),
+    deferInstallments: integer("defer_installments"),
+    monthlyDeduction: numeric("monthly_deduction", { precision: 12, scale: 2 }),
+    endDate: date("end_date"),
+    reason: text("reason").notNull(),
+    previousMonthlyDeduction: numeric("previous_monthly_deduction", { precision: 12, scale: 2 }),
+    previousEndDate: date("previous_end_date"),
+    // Version of the schedule history that holds the schedule this restructure replaced.
+    scheduleVersion: integer("schedule_version"),
+    requestedBy: varchar("requested_by").references(() => users.id, { onDelete: "set null" }),
+    appliedAt: timestamp("applied_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  t => ({
+    loanIdx: index("loan_restructures_loan_idx").on(t.loanId),
+  }),
+);
+
+// Schedules a loan used to have, kept each time its schedule is replaced.
+export const loanScheduleVersions = pgTable(
+  "loan_schedule_versions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    loanId: varchar("loan_id").references(() => loans.id, { onDelete: "cascade" }).notNull(),
+    version: integer("version").notNull(),
+    restructureId: varchar("restructure_id").references(() => loanRestructures.id, {
+      onDelete: "set null",
+    }),
+    monthlyDeduction: numeric("monthly_deduction", { precision: 12, scale: 2 }).notNull(),
+    endDate: date("end_date"),
+    remainingAmount: numeric("remaining_amount", { precision: 12, scale: 2 }).notNull(),
+    entries: jsonb("entries").$type<LoanScheduleSnapshotEntry[]>().notNull(),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  t => ({
+    loanVersionIdx: uniqueIndex("loan_schedule_versions_loan_version_idx").on(t.loanId, t.version),
+  }),
+);
+
+// Limits a loan is checked against when it is requested and approved. The
+// most specific active policy applies: department, then company, then global.
+export const loanPolicies = pgTable(
+  "loan_policies",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: text("name").notNull(),
+    companyId: varchar("company_id").references(() => companies.id, { onDelete: "cascade" }),
+    departmentId: varchar("department_id").references(() => departments.id, { onDelete: "cascade" }),
+    maxDeductionPercent: numeric("max_deduction_percent", { precision: 5, scale: 2 }).notNull().default("50"),
+    deductionWarningPercent: numeric("deduction_warning_percent", { precision: 5, scale: 2 }).default("35"),
+    maxSalaryMultiple: numeric("max_salary_multiple", { precision: 6, scale: 2 }),
+    minServiceMonths: integer("min_service_months"),
+    maxActiveLoans: integer("max_active_loans"),
+    maxTermMonths: integer("max_term_months"),
+    allowedInterestMethods: jsonb("allowed_interest_methods").$type<LoanInterestMethod[] | null>(),
+    requiredDocumentTypes: jsonb("required_document_types")
+      .$type<string[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  t => ({
+    scopeIdx: index("loan_policies_scope_idx").on(t.companyId, t.departmentId),
+  }),
+);
+
 export const cars = pgTable("cars", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   make: text("make").notNull(),
@@ -845,28 +1342,90 @@ export const carRepairs = pgTable("car_repairs", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const payrollRuns = pgTable("payroll_runs", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  period: text("period").notNull(), // e.g., "Jan 2024"
-  startDate: date("start_date").notNull(),
-  endDate: date("end_date").notNull(),
-  grossAmount: numeric("gross_amount", { precision: 12, scale: 2 }).notNull(),
-  totalDeductions: numeric("total_deductions", { precision: 12, scale: 2 }).notNull(),
-  netAmount: numeric("net_amount", { precision: 12, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"), // pending, completed, cancelled
-  calendarId: text("calendar_id"),
-  cycleLabel: text("cycle_label"),
-  scenarioKey: text("scenario_key"),
-  scenarioToggles: jsonb("scenario_toggles")
-    .$type<Record<string, boolean>>()
-    .notNull()
-    .default(sql`'{}'::jsonb`),
-  exportArtifacts: jsonb("export_artifacts")
-    .$type<PayrollExportArtifact[]>()
-    .notNull()
-    .default(sql`'[]'::jsonb`),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const payrollRuns = pgTable(
+  "payroll_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    period: text("period").notNull(), // e.g., "Jan 2024"
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+    grossAmount: numeric("gross_amount", { precision: 12, scale: 2 }).notNull(),
+    totalDeductions: numeric("total_deductions", { precision: 12, scale: 2 }).notNull(),
+    netAmount: numeric("net_amount", { precision: 12, scale: 2 }).notNull(),
+    status: text("status").notNull().default("draft"), // draft, submitted, approved, paid, locked, cancelled, voided
+    runType: text("run_type").notNull().default("regular"), // regular, bonus, correction, final_settlement, reversal
+    // Salaries paid after the month the period ends in are accrued in the journal.
+    payDate: date("pay_date"),
+    companyId: varchar("company_id").references(() => companies.id, { onDelete: "set null" }),
+    calendarId: text("calendar_id"),
+    cycleLabel: text("cycle_label"),
+    scenarioKey: text("scenario_key"),
+    scenarioToggles: jsonb("scenario_toggles")
+      .$type<Record<string, boolean>>()
+      .notNull()
+      .default(sql`'{}'::jsonb`),
+    exportArtifacts: jsonb("export_artifacts")
+      .$type<PayrollExportArtifact[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    submittedAt: timestamp("submitted_at"),
+    approvedBy: varchar("approved_by").references(() => users.id, { onDelete: "set null" }),
+    approvedAt: timestamp("approved_at"),
+    paidAt: timestamp("paid_at"),
+    lockedAt: timestamp("locked_at"),
+    // Reviewer who accepted the variance report against the previous run.
+    varianceSignedOffBy: varchar("variance_signed_off_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    varianceSignedOffAt: timestamp("variance_signed_off_at"),
+    // Set on reversal runs: the voided run whose entries they negate.
+    reversalOfRunId: varchar("reversal_of_run_id"),
+    voidReason: text("void_reason"),
+    voidedBy: varchar("voided_by").references(() => users.id, { onDelete: "set null" }),
+    voidedAt: timestamp("voided_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  table => ({
+    reversalOfRunFk: foreignKey({
+      columns: [table.reversalOfRunId],
+      foreignColumns: [table.id],
+      name: "payroll_runs_reversal_of_run_id_fk",
+    }),
+  }),
+);
+
+// Every version of every export file built for a run. The content lives in
+// the blob store under storageKey; checksum is the SHA-256 hex digest.
+export const payrollExportFiles = pgTable(
+  "payroll_export_files",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    payrollRunId: varchar("payroll_run_id")
+      .references(() => payrollRuns.id, { onDelete: "cascade" })
+      .notNull(),
+    artifactId: text("artifact_id").notNull(),
+    version: integer("version").notNull(),
+    type: text("type").notNull(), // bank, gl, statutory
+    format: text("format").notNull(), // pdf, csv, xlsx, txt
+    filename: text("filename").notNull(),
+    mimeType: text("mime_type").notNull(),
+    storageKey: text("storage_key").notNull(),
+    sizeBytes: integer("size_bytes").notNull(),
+    checksum: text("checksum").notNull(),
+    scenarioKey: text("scenario_key"),
+    description: text("description"),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    runArtifactVersionIdx: uniqueIndex("payroll_export_files_run_artifact_version_idx").on(
+      t.payrollRunId,
+      t.artifactId,
+      t.version,
+    ),
+  }),
+);
 
 export const payrollEntries = pgTable(
   "payroll_entries",
@@ -887,9 +1446,51 @@ export const payrollEntries = pgTable(
     socialSecurityDeduction: numeric("social_security_deduction", { precision: 10, scale: 2 }).notNull().default("0"),
     healthInsuranceDeduction: numeric("health_insurance_deduction", { precision: 10, scale: 2 }).notNull().default("0"),
     loanDeduction: numeric("loan_deduction", { precision: 10, scale: 2 }).notNull().default("0"),
+    advanceDeduction: numeric("advance_deduction", { precision: 10, scale: 2 }).notNull().default("0"),
     otherDeductions: numeric("other_deductions", { precision: 10, scale: 2 }).notNull().default("0"),
     netPay: numeric("net_pay", { precision: 10, scale: 2 }).notNull(),
     adjustmentReason: text("adjustment_reason"), // Explanation for any adjustments
+    socialInsuranceBreakdown: jsonb("social_insurance_breakdown")
+      .$type<SocialInsuranceBreakdown | null>()
+      .default(sql`NULL`),
+    // Net of the retro lines below (earnings minus recoveries), already
+    // included in gross pay and other deductions.
+    retroAmount: numeric("retro_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+    // Corrections to entries of closed runs, carried into this entry.
+    retroAdjustments: jsonb("retro_adjustments")
+      .$type<PayrollRetroAdjustment[] | null>()
+      .default(sql`NULL`),
+    // Pay for approved schedule overtime, already included in bonus and
+    // gross pay, with one line per schedule day.
+    overtimeAmount: numeric("overtime_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+    overtimeLines: jsonb("overtime_lines")
+      .$type<PayrollOvertimeLine[] | null>()
+      .default(sql`NULL`),
+    calculationTrace: jsonb("calculation_trace")
+      .$type<PayrollCalculationTrace | null>()
+      .default(sql`NULL`),
+    // Each pay component as paid for the period, starting with basic. The
+    // non-basic components are also in allowances, bonus and gross pay.
+    payComponents: jsonb("pay_components")
+      .$type<PayrollPayComponentLine[] | null>()
+      .default(sql`NULL`),
+    // Deductions left unrecovered by the deduction cap, still owed.
+    deductionCarryForward: jsonb("deduction_carry_forward")
+      .$type<PayrollDeductionCarryForward[] | null>()
+      .default(sql`NULL`),
+    // Loan deduction split by loan id; posted to the loans on approval.
+    loanRecoveries: jsonb("loan_recoveries")
+      .$type<Record<string, number> | null>()
+      .default(sql`NULL`),
+    // Advance deduction split by advance id; recorded on the advances on approval.
+    advanceRecoveries: jsonb("advance_recoveries")
+      .$type<Record<string, number> | null>()
+      .default(sql`NULL`),
+    // Employer-side costs on top of gross pay; none of them reach net pay.
+    employerSocialInsurance: numeric("employer_social_insurance", { precision: 10, scale: 2 }).notNull().default("0"),
+    employerHealthInsurance: numeric("employer_health_insurance", { precision: 10, scale: 2 }).notNull().default("0"),
+    indemnityAccrual: numeric("indemnity_accrual", { precision: 10, scale: 2 }).notNull().default("0"),
+    visaCostAmortization: numeric("visa_cost_amortization", { precision: 10, scale: 2 }).notNull().default("0"),
     createdAt: timestamp("created_at").defaultNow(),
   },
   (t) => ({
@@ -901,14 +1502,200 @@ export const payrollEntries = pgTable(
 export const loanPayments = pgTable("loan_payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   loanId: varchar("loan_id").references(() => loans.id).notNull(),
-  payrollRunId: varchar("payroll_run_id").references(() => payrollRuns.id).notNull(),
+  // Empty for repayments made outside payroll.
+  payrollRunId: varchar("payroll_run_id").references(() => payrollRuns.id),
   employeeId: varchar("employee_id").references(() => employees.id).notNull(),
   amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
   appliedDate: date("applied_date").default(sql`CURRENT_DATE`).notNull(),
-  source: text("source").notNull().default("payroll"),
+  source: text("source").notNull().default("payroll"), // payroll, payroll_reversal, final_settlement, cash, bank_transfer
+  receiptNumber: text("receipt_number"),
+  // Loan balance once this repayment was applied, as printed on its receipt.
+  balanceAfter: numeric("balance_after", { precision: 12, scale: 2 }),
+  reference: text("reference"),
+  notes: text("notes"),
+  recordedBy: varchar("recorded_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Advances on salary already earned this month, paid out at once and
+// recovered by the next regular payroll run.
+export const salaryAdvances = pgTable(
+  "salary_advances",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    paidDate: date("paid_date").notNull(),
+    paymentMethod: text("payment_method").$type<LoanRepaymentMethod>().notNull().default("cash"),
+    reference: text("reference"),
+    reason: text("reason"),
+    status: text("status").$type<SalaryAdvanceStatus>().notNull().default("outstanding"),
+    // Limit the advance was checked against when it was paid.
+    earnedToDate: numeric("earned_to_date", { precision: 10, scale: 2 }).notNull(),
+    maxPercent: numeric("max_percent", { precision: 5, scale: 2 }).notNull(),
+    recoveredAmount: numeric("recovered_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  t => ({
+    employeeIdx: index("salary_advances_employee_idx").on(t.employeeId, t.status),
+  }),
+);
+
+// What each payroll run recovered from an advance, so the recovery can be
+// undone when the run is recalculated, deleted or voided.
+export const salaryAdvanceRecoveries = pgTable(
+  "salary_advance_recoveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    advanceId: varchar("advance_id")
+      .references(() => salaryAdvances.id, { onDelete: "cascade" })
+      .notNull(),
+    payrollRunId: varchar("payroll_run_id")
+      .references(() => payrollRuns.id, { onDelete: "cascade" })
+      .notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  t => ({
+    runIdx: index("salary_advance_recoveries_run_idx").on(t.payrollRunId),
+  }),
+);
+
+export const payslipDeliveryStatuses = ["sent", "failed", "skipped"] as const;
+
+export type PayslipDeliveryStatus = (typeof payslipDeliveryStatuses)[number];
+
+export const payslipDeliveries = pgTable(
+  "payslip_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    payrollEntryId: varchar("payroll_entry_id")
+      .references(() => payrollEntries.id, { onDelete: "cascade" })
+      .notNull(),
+    payrollRunId: varchar("payroll_run_id")
+      .references(() => payrollRuns.id, { onDelete: "cascade" })
+      .notNull(),
+    employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+    channel: text("channel").notNull().default("email"),
+    recipient: text("recipient"),
+    status: text("status").notNull(), // sent, failed, skipped
+    passwordProtected: boolean("password_protected").notNull().default(true),
+    error: text("error"),
+    attempts: integer("attempts").notNull().default(1),
+    sentBy: varchar("sent_by").references(() => users.id, { onDelete: "set null" }),
+    lastAttemptAt: timestamp("last_attempt_at").defaultNow(),
+    deliveredAt: timestamp("delivered_at"),
+  },
+  t => ({
+    entryIdx: uniqueIndex("payslip_deliveries_entry_idx").on(t.payrollEntryId),
+    runIdx: index("payslip_deliveries_run_idx").on(t.payrollRunId),
+  }),
+);
+
+export const socialInsuranceRates = pgTable(
+  "social_insurance_rates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    companyId: varchar("company_id").references(() => companies.id, { onDelete: "cascade" }),
+    scheme: text("scheme").notNull().default("pifss"),
+    code: text("code").notNull(), // basic, supplementary, unemployment, ...
+    label: text("label").notNull(),
+    nationalityGroup: text("nationality_group").notNull().default("kuwaiti"), // kuwaiti, non_kuwaiti
+    employeeRate: numeric("employee_rate", { precision: 6, scale: 3 }).notNull().default("0"),
+    employerRate: numeric("employer_rate", { precision: 6, scale: 3 }).notNull().default("0"),
+    salaryFloor: numeric("salary_floor", { precision: 12, scale: 2 }),
+    salaryCeiling: numeric("salary_ceiling", { precision: 12, scale: 2 }),
+    effectiveFrom: date("effective_from").notNull(),
+    effectiveTo: date("effective_to"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  t => ({
+    lookupIdx: index("social_insurance_rates_lookup_idx").on(
+      t.scheme,
+      t.nationalityGroup,
+      t.effectiveFrom,
+    ),
+  }),
+);
+
+export const finalSettlements = pgTable(
+  "final_settlements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+    payrollRunId: varchar("payroll_run_id").references(() => payrollRuns.id, { onDelete: "set null" }),
+    terminationDate: date("termination_date").notNull(),
+    terminationReason: text("termination_reason").notNull(),
+    serviceYears: numeric("service_years", { precision: 6, scale: 2 }).notNull().default("0"),
+    proratedSalary: numeric("prorated_salary", { precision: 12, scale: 2 }).notNull().default("0"),
+    indemnityAmount: numeric("indemnity_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    leaveEncashmentDays: numeric("leave_encashment_days", { precision: 8, scale: 2 }).notNull().default("0"),
+    leaveEncashmentAmount: numeric("leave_encashment_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    advanceRecovery: numeric("advance_recovery", { precision: 12, scale: 2 }).notNull().default("0"),
+    loanRecovery: numeric("loan_recovery", { precision: 12, scale: 2 }).notNull().default("0"),
+    grossAmount: numeric("gross_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    netAmount: numeric("net_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    breakdown: jsonb("breakdown").$type<Record<string, unknown>>().notNull().default(sql`'{}'::jsonb`),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  t => ({
+    employeeIdx: index("final_settlements_employee_idx").on(t.employeeId),
+  }),
+);
+
+export const employeePayComponents = pgTable(
+  "employee_pay_components",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    employeeId: varchar("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+    code: text("code").notNull(),
+    name: text("name").notNull(),
+    calculationType: text("calculation_type").notNull().default("amount"),
+    amount: numeric("amount", { precision: 10, scale: 2 }),
+    percentage: numeric("percentage", { precision: 5, scale: 2 }),
+    insurable: boolean("insurable").notNull().default(false),
+    indemnityEligible: boolean("indemnity_eligible").notNull().default(false),
+    leaveProration: text("leave_proration").notNull().default("prorate"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  t => ({
+    employeeCodeUnique: uniqueIndex("employee_pay_components_employee_code_idx").on(t.employeeId, t.code),
+  }),
+);
+
+export const compensationChangeTypes = ["raise", "cut", "adjustment"] as const;
+
+export type CompensationChangeType = (typeof compensationChangeTypes)[number];
+
+export const compensationChanges = pgTable(
+  "compensation_changes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    employeeId: varchar("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+    changeType: text("change_type").notNull().default("adjustment"), // raise, cut, adjustment
+    previousSalary: numeric("previous_salary", { precision: 10, scale: 2 }),
+    salary: numeric("salary", { precision: 10, scale: 2 }).notNull(),
+    previousAdditions: numeric("previous_additions", { precision: 10, scale: 2 }),
+    additions: numeric("additions", { precision: 10, scale: 2 }),
+    effectiveDate: date("effective_date").notNull(),
+    reason: text("reason").notNull(),
+    approvedBy: varchar("approved_by").references(() => users.id, { onDelete: "set null" }),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  t => ({
+    employeeEffectiveIdx: index("compensation_changes_employee_effective_idx").on(
+      t.employeeId,
+      t.effectiveDate,
+    ),
+  }),
+);
+
 // Notifications table for document expiry alerts
 const notificationChannelSchema = z.enum(["email", "sms", "chat", "push"]);
 
@@ -1065,7 +1852,7 @@ export const employeeEvents = pgTable(
   {
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
     employeeId: varchar("employee_id").references(() => employees.id).notNull(),
-    eventType: text("event_type").notNull(), // bonus, deduction, allowance, overtime, penalty, vacation, employee_update, document_update, asset_assignment, asset_update, asset_removal
+    eventType: text("event_type").notNull(), // bonus, deduction, court_order, allowance, overtime, penalty, vacation, employee_update, document_update, asset_assignment, asset_update, asset_removal
     title: text("title").notNull(),
     description: text("description").notNull(),
     amount: numeric("amount", { precision: 10, scale: 2 }).notNull().default("0"),
@@ -1077,10 +1864,13 @@ export const employeeEvents = pgTable(
     createdAt: timestamp("created_at").defaultNow(),
     recurrenceType: text("recurrence_type").notNull().default("none"),
     recurrenceEndDate: date("recurrence_end_date"),
+    // Off-cycle run that paid this one-time event; it is then marked processed.
+    payrollRunId: varchar("payroll_run_id").references(() => payrollRuns.id, { onDelete: "set null" }),
   },
   (t) => ({
     employeeEventsEmployeeIdx: index("employee_events_employee_id_idx").on(t.employeeId),
     employeeEventsDateIdx: index("employee_events_event_date_idx").on(t.eventDate),
+    employeeEventsPayrollRunIdx: index("employee_events_payroll_run_idx").on(t.payrollRunId),
   })
 );
 
@@ -1105,12 +1895,79 @@ export const insertCompanySchema = createInsertSchema(companies)
     payrollExportFormats: parseJsonInput(
       z.array(payrollExportFormatConfigSchema),
     ).default([]),
+    overtimeRates: parseJsonInput(overtimeRateConfigSchema).nullable().optional(),
+    maxDeductionPercent: z
+      .preprocess(
+        v => (v === null || v === "" ? null : parseNumber(v)),
+        z.number().gt(0).max(100).nullable().optional(),
+      )
+      .transform(value => (typeof value === "number" ? value.toString() : value)),
+    salaryAdvanceMaxPercent: z
+      .preprocess(
+        v => (v === null || v === "" ? undefined : parseNumber(v)),
+        z.number().gt(0).max(100).optional(),
+      )
+      .transform(value => (typeof value === "number" ? value.toString() : value)),
+    healthInsurancePremium: z
+      .preprocess(
+        v => (v === null || v === "" ? null : parseNumber(v)),
+        z.number().nonnegative().nullable().optional(),
+      )
+      .transform(value => (typeof value === "number" ? value.toString() : value)),
     companyLicenseAlertDays: z
       .preprocess(parseNumber, z.number().optional()),
     companyLicenseExpiryDate: z
       .preprocess(parseDate, z.string().nullable().optional()),
   });
 
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates");
+
+const companyHolidayBaseSchema = createInsertSchema(companyHolidays)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    companyId: z.string().min(1).nullable().optional(),
+    name: z.string().trim().min(1, "Name is required"),
+    kind: z.enum(companyHolidayKinds).default("one_off"),
+    date: z.preprocess(parseDate, isoDateSchema.nullable().optional()),
+    hijriMonth: z.preprocess(parseNumber, z.number().int().min(1).max(12).nullable().optional()),
+    hijriDay: z.preprocess(parseNumber, z.number().int().min(1).max(30).nullable().optional()),
+    durationDays: z.preprocess(parseNumber, z.number().int().min(1).max(14).default(1)),
+    confirmedDates: z.record(z.string().regex(/^\d{4}$/), isoDateSchema).default({}),
+  });
+
+export const insertCompanyHolidaySchema = companyHolidayBaseSchema.superRefine((data, ctx) => {
+  if (data.kind === "hijri") {
+    if (!data.hijriMonth || !data.hijriDay) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Hijri holidays need a Hijri month and day",
+        path: [data.hijriMonth ? "hijriDay" : "hijriMonth"],
+      });
+    }
+  } else if (!data.date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Date is required",
+      path: ["date"],
+    });
+  }
+});
+
+export const updateCompanyHolidaySchema = companyHolidayBaseSchema.partial();
+
+export const insertGlAccountMappingSchema = createInsertSchema(glAccountMappings)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    companyId: z.string().min(1).nullable().optional(),
+    component: z.enum(payrollJournalComponents),
+    departmentId: z.string().min(1).nullable().optional(),
+    costCenter: z.string().trim().min(1).nullable().optional(),
+    accountCode: z.string().trim().min(1, "Account code is required"),
+    accountName: z.string().trim().nullable().optional(),
+  });
+
+export const updateGlAccountMappingSchema = insertGlAccountMappingSchema.partial();
+
 export const insertEmployeeSchema = createInsertSchema(employees)
   .omit({ id: true })
   .partial({
@@ -1153,6 +2010,7 @@ export const insertEmployeeSchema = createInsertSchema(employees)
     visaIssueDate: true,
     visaExpiryDate: true,
     visaAlertDays: true,
+    visaCost: true,
     civilId: true,
     civilIdIssueDate: true,
     civilIdExpiryDate: true,
@@ -1176,6 +2034,12 @@ export const insertEmployeeSchema = createInsertSchema(employees)
     salary: z.preprocess(parseNumber, z.number()),
     additions: z.preprocess(parseNumber, z.number().optional()),
     visaAlertDays: z.preprocess(parseNumber, z.number().optional()),
+    visaCost: z
+      .preprocess(
+        v => (v === null || v === "" ? null : parseNumber(v)),
+        z.number().nonnegative().nullable().optional(),
+      )
+      .transform(value => (typeof value === "number" ? value.toString() : value)),
     civilIdAlertDays: z.preprocess(parseNumber, z.number().optional()),
     passportAlertDays: z.preprocess(parseNumber, z.number().optional()),
     drivingLicenseAlertDays: z.preprocess(parseNumber, z.number().optional()),
@@ -1265,6 +2129,84 @@ export const insertPayrollRunSchema = createInsertSchema(payrollRuns)
     ).default([]),
   });
 
+const rateNumberInput = z.preprocess(v => {
+  const n = parseNumber(v);
+  return n === undefined ? undefined : n.toString();
+}, z.string());
+
+export const insertSocialInsuranceRateSchema = createInsertSchema(socialInsuranceRates)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    companyId: z.preprocess(normalizeBigId, z.string().nullable().optional()),
+    code: z.string().trim().min(1),
+    label: z.string().trim().min(1),
+    nationalityGroup: z.enum(socialInsuranceNationalityGroups),
+    employeeRate: rateNumberInput,
+    employerRate: rateNumberInput,
+    salaryFloor: rateNumberInput.nullable().optional(),
+    salaryCeiling: rateNumberInput.nullable().optional(),
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    effectiveTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  });
+
+export const insertFinalSettlementSchema = createInsertSchema(finalSettlements)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    breakdown: parseJsonInput(z.record(z.unknown())).default({}),
+  });
+
+export const insertPayslipDeliverySchema = createInsertSchema(payslipDeliveries)
+  .omit({
+    id: true,
+    attempts: true,
+    lastAttemptAt: true,
+  })
+  .extend({
+    status: z.enum(payslipDeliveryStatuses),
+  });
+
+export const insertCompensationChangeSchema = createInsertSchema(compensationChanges)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    changeType: z.enum(compensationChangeTypes).default("adjustment"),
+    previousSalary: rateNumberInput.nullable().optional(),
+    salary: rateNumberInput,
+    previousAdditions: rateNumberInput.nullable().optional(),
+    additions: rateNumberInput.nullable().optional(),
+    effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    reason: z.string().trim().min(1),
+  });
+
+export const insertEmployeePayComponentSchema = createInsertSchema(employeePayComponents)
+  .omit({ id: true, employeeId: true, createdAt: true, updatedAt: true })
+  .extend({
+    code: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9_]+$/, "Code may only contain letters, numbers and underscores")
+      .refine(code => code !== BASIC_PAY_COMPONENT_CODE, "Basic pay is the employee's salary"),
+    name: z.string().trim().min(1, "Name is required"),
+    calculationType: z.enum(payComponentCalculationTypes).default("amount"),
+    amount: rateNumberInput.nullable().optional(),
+    percentage: rateNumberInput.nullable().optional(),
+    insurable: z.boolean().default(false),
+    indemnityEligible: z.boolean().default(false),
+    leaveProration: z.enum(payComponentLeaveProrations).default("prorate"),
+  });
+
+export const updateEmployeePayComponentSchema = insertEmployeePayComponentSchema.partial();
+
 export const insertPayrollEntrySchema = createInsertSchema(payrollEntries)
   .omit({
     id: true,
@@ -1285,6 +2227,14 @@ export const insertPayrollEntrySchema = createInsertSchema(payrollEntries)
       return n === undefined ? undefined : n.toString();
     }, z.string()),
     allowances: parseJsonInput(z.record(z.number())).nullable().optional(),
+    socialInsuranceBreakdown: parseJsonInput(socialInsuranceBreakdownSchema).nullable().optional(),
+    retroAdjustments: parseJsonInput(z.array(payrollRetroAdjustmentSchema)).nullable().optional(),
+    overtimeLines: parseJsonInput(z.array(payrollOvertimeLineSchema)).nullable().optional(),
+    calculationTrace: parseJsonInput(payrollCalculationTraceSchema).nullable().optional(),
+    payComponents: parseJsonInput(z.array(payrollPayComponentLineSchema)).nullable().optional(),
+    deductionCarryForward: parseJsonInput(z.array(payrollDeductionCarryForwardSchema)).nullable().optional(),
+    loanRecoveries: parseJsonInput(z.record(z.number())).nullable().optional(),
+    advanceRecoveries: parseJsonInput(z.record(z.number())).nullable().optional(),
     workingDays: z.preprocess(parseNumber, z.number()),
     actualWorkingDays: z.preprocess(parseNumber, z.number()),
     vacationDays: z.preprocess(parseNumber, z.number()),
@@ -1304,6 +2254,10 @@ export const insertPayrollEntrySchema = createInsertSchema(payrollEntries)
       const n = parseNumber(v);
       return n === undefined ? undefined : n.toString();
     }, z.string()),
+    advanceDeduction: z.preprocess(v => {
+      const n = parseNumber(v);
+      return n === undefined ? undefined : n.toString();
+    }, z.string().optional()),
     otherDeductions: z.preprocess(v => {
       const n = parseNumber(v);
       return n === undefined ? undefined : n.toString();
@@ -1437,6 +2391,7 @@ export const insertLoanSchema = createInsertSchema(loans)
     remainingAmount: z.preprocess(parseNumber, z.number().optional()),
     monthlyDeduction: z.preprocess(parseNumber, z.number()),
     interestRate: z.preprocess(parseNumber, z.number().optional()),
+    interestMethod: z.preprocess(v => emptyToUndef(v), z.enum(loanInterestMethods).optional()),
     startDate: z.preprocess(parseDate, z.string()),
     endDate: z.preprocess(v => {
       const val = parseDate(v);
@@ -1480,6 +2435,59 @@ export const insertLoanSchema = createInsertSchema(loans)
       }, z.record(z.any()).nullable().optional()),
   });
 
+const optionalCountInput = z.preprocess(v => {
+  const n = parseNumber(v);
+  return n === undefined ? null : n;
+}, z.number().int().nonnegative().nullable().optional());
+
+export const insertLoanPolicySchema = createInsertSchema(loanPolicies)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1),
+    companyId: z.preprocess(normalizeBigId, z.string().nullable().optional()),
+    departmentId: z.preprocess(normalizeBigId, z.string().nullable().optional()),
+    maxDeductionPercent: rateNumberInput,
+    deductionWarningPercent: rateNumberInput.nullable().optional(),
+    maxSalaryMultiple: rateNumberInput.nullable().optional(),
+    minServiceMonths: optionalCountInput,
+    maxActiveLoans: optionalCountInput,
+    maxTermMonths: optionalCountInput,
+    allowedInterestMethods: z.array(z.enum(loanInterestMethods)).min(1).nullable().optional(),
+    requiredDocumentTypes: z.array(z.string().trim().min(1)).optional(),
+    active: z.boolean().optional(),
+  });
+
+export const loanRestructureRequestSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("defer_installments"),
+    deferInstallments: z.coerce.number().int().min(1).max(24),
+    reason: z.string().trim().min(1),
+  }),
+  z.object({
+    type: z.literal("change_monthly_deduction"),
+    monthlyDeduction: z.coerce.number().positive(),
+    reason: z.string().trim().min(1),
+  }),
+  z.object({
+    type: z.literal("extend_end_date"),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+    reason: z.string().trim().min(1),
+  }),
+]);
+
+export const salaryAdvanceRequestSchema = z.object({
+  employeeId: z.string().trim().min(1),
+  amount: z.coerce.number().positive(),
+  paidDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  paymentMethod: z.enum(loanRepaymentMethods).default("cash"),
+  reference: z.string().trim().max(200).optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
 export const loanApprovalStageInputSchema = z.object({
   stageName: z.string().min(1),
   stageOrder: z.number().int().nonnegative().optional(),
@@ -1603,7 +2611,7 @@ export const insertLoanPaymentSchema = createInsertSchema(loanPayments)
   })
   .extend({
     loanId: z.preprocess(normalizeBigId, z.string()),
-    payrollRunId: z.preprocess(normalizeBigId, z.string()),
+    payrollRunId: z.preprocess(normalizeBigId, z.string().nullable().optional()),
     employeeId: z.preprocess(normalizeBigId, z.string()),
     amount: z.preprocess(parseNumber, z.number()),
     appliedDate: z.preprocess(v => {
@@ -1837,6 +2845,7 @@ export const insertEmailAlertSchema = createInsertSchema(emailAlerts).omit({
 const baseInsertEmployeeEventSchema = createInsertSchema(employeeEvents).omit({
   id: true,
   createdAt: true,
+  payrollRunId: true,
 });
 
 export const insertEmployeeEventSchema = baseInsertEmployeeEventSchema.extend({
@@ -1844,6 +2853,7 @@ export const insertEmployeeEventSchema = baseInsertEmployeeEventSchema.extend({
     "bonus",
     "commission",
     "deduction",
+    "court_order",
     "allowance",
     "overtime",
     "penalty",
@@ -1935,6 +2945,12 @@ export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type Company = typeof companies.$inferSelect;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 
+export type CompanyHoliday = typeof companyHolidays.$inferSelect;
+export type InsertCompanyHoliday = z.infer<typeof insertCompanyHolidaySchema>;
+
+export type GlAccountMapping = typeof glAccountMappings.$inferSelect;
+export type InsertGlAccountMapping = z.infer<typeof insertGlAccountMappingSchema>;
+
 export type Employee = typeof employees.$inferSelect;
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
 
@@ -2020,6 +3036,8 @@ export type EmployeeWorkflowWithSteps = EmployeeWorkflow & {
 
 export type PayrollRun = typeof payrollRuns.$inferSelect;
 export type InsertPayrollRun = z.infer<typeof insertPayrollRunSchema>;
+export type PayrollExportFile = typeof payrollExportFiles.$inferSelect;
+export type InsertPayrollExportFile = typeof payrollExportFiles.$inferInsert;
 
 type BasePayrollEntry = typeof payrollEntries.$inferSelect;
 export type AllowanceBreakdown = Record<string, number>;
@@ -2065,8 +3083,42 @@ export type LoanApprovalStage = typeof loanApprovalStages.$inferSelect;
 export type InsertLoanApprovalStage = z.infer<typeof insertLoanApprovalStageSchema>;
 export type LoanDocument = typeof loanDocuments.$inferSelect;
 export type InsertLoanDocument = z.infer<typeof insertLoanDocumentSchema>;
+export type LoanPolicy = typeof loanPolicies.$inferSelect;
+export type InsertLoanPolicy = z.infer<typeof insertLoanPolicySchema>;
 export type LoanPayment = typeof loanPayments.$inferSelect;
+export type LoanRestructure = typeof loanRestructures.$inferSelect;
+export type InsertLoanRestructure = typeof loanRestructures.$inferInsert;
+export type LoanRestructureRequest = z.infer<typeof loanRestructureRequestSchema>;
+export type LoanRestructureWithStages = LoanRestructure & {
+  approvalStages: Array<LoanApprovalStage & { approver?: Employee | null }>;
+};
+export type LoanScheduleSnapshotEntry = Pick<
+  LoanAmortizationScheduleEntry,
+  | "installmentNumber"
+  | "dueDate"
+  | "principalAmount"
+  | "interestAmount"
+  | "paymentAmount"
+  | "remainingBalance"
+  | "status"
+  | "paidAt"
+>;
+export type LoanScheduleVersion = typeof loanScheduleVersions.$inferSelect;
 export type InsertLoanPayment = z.infer<typeof insertLoanPaymentSchema>;
+export type SalaryAdvance = typeof salaryAdvances.$inferSelect;
+export type InsertSalaryAdvance = typeof salaryAdvances.$inferInsert;
+export type SalaryAdvanceRequest = z.infer<typeof salaryAdvanceRequestSchema>;
+export type SalaryAdvanceRecovery = typeof salaryAdvanceRecoveries.$inferSelect;
+export type SocialInsuranceRate = typeof socialInsuranceRates.$inferSelect;
+export type InsertSocialInsuranceRate = z.infer<typeof insertSocialInsuranceRateSchema>;
+export type FinalSettlement = typeof finalSettlements.$inferSelect;
+export type InsertFinalSettlement = z.infer<typeof insertFinalSettlementSchema>;
+export type PayslipDelivery = typeof payslipDeliveries.$inferSelect;
+export type InsertPayslipDelivery = z.infer<typeof insertPayslipDeliverySchema>;
+export type CompensationChange = typeof compensationChanges.$inferSelect;
+export type InsertCompensationChange = z.infer<typeof insertCompensationChangeSchema>;
+export type EmployeePayComponent = typeof employeePayComponents.$inferSelect;
+export type InsertEmployeePayComponent = z.infer<typeof insertEmployeePayComponentSchema>;
 export type LoanStatement = {
   loan: LoanWithEmployee;
   schedule: LoanAmortizationScheduleEntry[];
@@ -2076,11 +3128,141 @@ export type LoanStatement = {
     scheduledPrincipal: number;
     scheduledInterest: number;
     totalPaid: number;
+    /** Cash and bank transfer repayments, included in totalPaid. */
+    repaidOutsidePayroll: number;
     outstandingBalance: number;
   };
   nextDue?: LoanAmortizationScheduleEntry | undefined;
 };
 
+export type PayrollVarianceComponentChange = {
+  component: string;
+  label: string;
+  previous: number;
+  current: number;
+  change: number;
+};
+
+export type PayrollVarianceLine = {
+  employeeId: string;
+  employeeCode: string | null;
+  employeeName: string;
+  previousNetPay: number | null;
+  currentNetPay: number | null;
+  netChange: number;
+  netChangePercent: number | null;
+  components: PayrollVarianceComponentChange[];
+  flags: PayrollVarianceFlag[];
+  ibanIssue?: string;
+};
+
+export type PayrollVarianceReport = {
+  runId: string;
+  period: string;
+  previousRunId: string | null;
+  previousPeriod: string | null;
+  thresholdPercent: number;
+  totals: {
+    previousGross: number;
+    currentGross: number;
+    previousNet: number;
+    currentNet: number;
+    netChange: number;
+  };
+  flagCounts: Record<PayrollVarianceFlag, number>;
+  flaggedEmployees: number;
+  signedOffBy: string | null;
+  signedOffAt: Date | string | null;
+  lines: PayrollVarianceLine[];
+};
+
+export type PayrollJournalBatchType = "accrual" | "reversal" | "payment";
+
+export type PayrollJournalLine = {
+  component: PayrollJournalComponent;
+  accountCode: string | null;
+  accountName: string | null;
+  costCenter: string | null;
+  departmentId: string | null;
+  description: string;
+  debit: number;
+  credit: number;
+};
+
+export type PayrollJournalBatch = {
+  type: PayrollJournalBatchType;
+  date: string;
+  description: string;
+  lines: PayrollJournalLine[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+};
+
+export type PayrollJournal = {
+  runId: string;
+  period: string;
+  companyId: string | null;
+  payDate: string;
+  accrued: boolean;
+  batches: PayrollJournalBatch[];
+  totalDebit: number;
+  totalCredit: number;
+  difference: number;
+  balanced: boolean;
+  unmappedComponents: PayrollJournalComponent[];
+};
+
+export type PayrollForecastAmounts = {
+  basicSalary: number;
+  payComponents: number;
+  recurringAllowances: number;
+  unpaidLeave: number;
+  grossPay: number;
+  loanRecoveries: number;
+  netPayout: number;
+};
+
+export type PayrollForecastMonth = PayrollForecastAmounts & {
+  month: string;
+  headcount: number;
+};
+
+export type PayrollForecastGroup = {
+  id: string | null;
+  name: string;
+  months: PayrollForecastMonth[];
+  total: PayrollForecastAmounts;
+};
+
+export type PayrollForecastDriverKind =
+  | "compensation_change"
+  | "joiner"
+  | "leaver"
+  | "loan_ends"
+  | "allowance_ends"
+  | "unpaid_leave";
+
+export type PayrollForecastDriver = {
+  month: string;
+  kind: PayrollForecastDriverKind;
+  employeeId: string;
+  employeeName: string;
+  description: string;
+};
+
+export type PayrollForecast = {
+  startMonth: string;
+  endMonth: string;
+  companyId: string | null;
+  months: string[];
+  totals: PayrollForecastMonth[];
+  total: PayrollForecastAmounts;
+  departments: PayrollForecastGroup[];
+  companies: PayrollForecastGroup[];
+  drivers: PayrollForecastDriver[];
+};
+
 export type Asset = typeof assets.$inferSelect;
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
 
@@ -2291,6 +3473,10 @@ export type LoanWithEmployee = Loan & {
   amortizationSchedule?: LoanAmortizationScheduleEntry[];
 };
 
+export type SalaryAdvanceWithEmployee = SalaryAdvance & {
+  employee?: Employee | null;
+};
+
 export type CarWithAssignment = Car & {
   currentAssignment?: (CarAssignment & {
     employee?: Employee | null;
@@ -2340,6 +3526,7 @@ export const employeesRelations = relations(employees, ({ one, many }) => ({
   notifications: many(notifications),
   emailAlerts: many(emailAlerts),
   customValues: many(employeeCustomValues),
+  compensationChanges: many(compensationChanges),
 }));
 
 export const notificationRoutingRulesRelations = relations(
@@ -2446,6 +3633,15 @@ export const loansRelations = relations(loans, ({ one, many }) => ({
   documents: many(loanDocuments),
   amortizationSchedule: many(loanAmortizationSchedules),
   payments: many(loanPayments),
+  restructures: many(loanRestructures),
+}));
+
+export const loanRestructuresRelations = relations(loanRestructures, ({ one, many }) => ({
+  loan: one(loans, {
+    fields: [loanRestructures.loanId],
+    references: [loans.id],
+  }),
+  approvalStages: many(loanApprovalStages),
 }));
 
 export const loanApprovalStagesRelations = relations(loanApprovalStages, ({ one }) => ({
@@ -2453,6 +3649,10 @@ export const loanApprovalStagesRelations = relations(loanApprovalStages, ({ one
     fields: [loanApprovalStages.loanId],
     references: [loans.id],
   }),
+  restructure: one(loanRestructures, {
+    fields: [loanApprovalStages.restructureId],
+    references: [loanRestructures.id],
+  }),
   approver: one(employees, {
     fields: [loanApprovalStages.approverId],
     references: [employees.id],
@@ -2499,6 +3699,54 @@ export const loanPaymentsRelations = relations(loanPayments, ({ one }) => ({
   }),
 }));
 
+export const salaryAdvancesRelations = relations(salaryAdvances, ({ one, many }) => ({
+  employee: one(employees, {
+    fields: [salaryAdvances.employeeId],
+    references: [employees.id],
+  }),
+  recoveries: many(salaryAdvanceRecoveries),
+}));
+
+export const salaryAdvanceRecoveriesRelations = relations(salaryAdvanceRecoveries, ({ one }) => ({
+  advance: one(salaryAdvances, {
+    fields: [salaryAdvanceRecoveries.advanceId],
+    references: [salaryAdvances.id],
+  }),
+  payrollRun: one(payrollRuns, {
+    fields: [salaryAdvanceRecoveries.payrollRunId],
+    references: [payrollRuns.id],
+  }),
+}));
+
+export const finalSettlementsRelations = relations(finalSettlements, ({ one }) => ({
+  employee: one(employees, {
+    fields: [finalSettlements.employeeId],
+    references: [employees.id],
+  }),
+  payrollRun: one(payrollRuns, {
+    fields: [finalSettlements.payrollRunId],
+    references: [payrollRuns.id],
+  }),
+}));
+
+export const payslipDeliveriesRelations = relations(payslipDeliveries, ({ one }) => ({
+  payrollEntry: one(payrollEntries, {
+    fields: [payslipDeliveries.payrollEntryId],
+    references: [payrollEntries.id],
+  }),
+  employee: one(employees, {
+    fields: [payslipDeliveries.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const compensationChangesRelations = relations(compensationChanges, ({ one }) => ({
+  employee: one(employees, {
+    fields: [compensationChanges.employeeId],
+    references: [employees.id],
+  }),
+}));
+
 export const carsRelations = relations(cars, ({ many }) => ({
   assignments: many(carAssignments),
 }));